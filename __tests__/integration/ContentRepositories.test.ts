@@ -0,0 +1,55 @@
+// __tests__/integration/ContentRepositories.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { CourseRepository } from '@/infrastructure/database/adapters/prisma/repositories/CourseRepository';
+import { CourseCollaboratorRepository } from '@/infrastructure/database/adapters/prisma/repositories/CourseCollaboratorRepository';
+import { LevelRepository } from '@/infrastructure/database/adapters/prisma/repositories/LevelRepository';
+import { SectionRepository } from '@/infrastructure/database/adapters/prisma/repositories/SectionRepository';
+import { ModuleRepository } from '@/infrastructure/database/adapters/prisma/repositories/ModuleRepository';
+import { LessonRepository } from '@/infrastructure/database/adapters/prisma/repositories/LessonRepository';
+import { ExerciseRepository } from '@/infrastructure/database/adapters/prisma/repositories/ExerciseRepository';
+import { LessonExerciseRepository } from '@/infrastructure/database/adapters/prisma/repositories/LessonExerciseRepository';
+import { PublicationRepository } from '@/infrastructure/database/adapters/prisma/repositories/PublicationRepository';
+import { TestDatabaseUtils } from '../setup';
+import { makeContentRepositoriesContractTest } from '@/core/interfaces/repositories/__tests__/IContentRepositories.contract.test';
+
+let prismaClient: PrismaClient;
+
+makeContentRepositoriesContractTest(
+  'Prisma content repositories Integration Tests - Contract',
+  () => {
+    prismaClient = TestDatabaseUtils.createTestPrismaClient();
+
+    return {
+      repositories: {
+        courseRepository: new CourseRepository(prismaClient),
+        courseCollaboratorRepository: new CourseCollaboratorRepository(
+          prismaClient
+        ),
+        levelRepository: new LevelRepository(prismaClient),
+        sectionRepository: new SectionRepository(prismaClient),
+        moduleRepository: new ModuleRepository(prismaClient),
+        lessonRepository: new LessonRepository(prismaClient),
+        exerciseRepository: new ExerciseRepository(prismaClient),
+        lessonExerciseRepository: new LessonExerciseRepository(prismaClient),
+        publicationRepository: new PublicationRepository(prismaClient),
+      },
+      cleanDatabase: () => TestDatabaseUtils.cleanDatabase(prismaClient),
+      createUser: async (username) => {
+        const user = await prismaClient.user.create({
+          data: {
+            id: uuidv4(),
+            email: `${username}@example.com`,
+            username,
+            passwordHash: 'hash',
+          },
+        });
+        return user.id;
+      },
+    };
+  },
+  async () => {
+    await TestDatabaseUtils.disconnectPrismaClient(prismaClient);
+  }
+);
@@ -0,0 +1,117 @@
+// __tests__/integration/TypeOrmUserRepository.test.ts
+
+import { DataSource, DataSourceOptions } from 'typeorm';
+import { TypeOrmUserRepository } from '@/infrastructure/database/adapters/typeorm/repositories/TypeOrmUserRepository';
+import { UserEntity } from '@/infrastructure/database/adapters/typeorm/entities/UserEntity';
+import { UserStatusChangeEntity } from '@/infrastructure/database/adapters/typeorm/entities/UserStatusChangeEntity';
+import { TypeOrmFactory } from '@/infrastructure/database/factories/TypeOrmFactory';
+import { makeUserRepositoryContractTest } from '@/core/interfaces/repositories/__tests__/IUserRepository.contract.test';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { TestDatabaseUtils } from '../setup';
+
+const provider = process.env.DATABASE_PROVIDER;
+
+// El schema lo crea Prisma en setup.ts; TypeORM solo se conecta. Las opciones
+// de fechas son las mismas que usa TypeOrmFactory
+function createDataSource(): DataSource {
+  const common = {
+    url: process.env.TEST_DATABASE_URL,
+    entities: [UserEntity, UserStatusChangeEntity],
+    synchronize: false,
+  };
+  const options: DataSourceOptions =
+    provider === 'postgres'
+      ? { ...common, type: 'postgres', driver: TypeOrmFactory.postgresDriver() }
+      : { ...common, type: 'mysql', timezone: 'Z' };
+  return new DataSource(options);
+}
+
+async function cleanDatabase(dataSource: DataSource): Promise<void> {
+  await dataSource.query('DELETE FROM refresh_tokens');
+  await dataSource.query('DELETE FROM verification_tokens');
+  await dataSource.query('DELETE FROM user_status_changes');
+  await dataSource.query('DELETE FROM outbox_messages');
+  await dataSource.query('DELETE FROM users');
+}
+
+// TypeORM no admite SQLite sobre el schema de Prisma
+if (provider === 'mysql' || provider === 'postgres') {
+  let dataSource: DataSource;
+  let initialization: Promise<DataSource>;
+
+  makeUserRepositoryContractTest(
+    'TypeOrmUserRepository Integration Tests - Contract',
+    () => {
+      dataSource = createDataSource();
+      initialization = dataSource.initialize();
+
+      return {
+        repository: new TypeOrmUserRepository(dataSource),
+        cleanDatabase: async () => {
+          await initialization;
+          await cleanDatabase(dataSource);
+        },
+        verifyUserInDatabase: async (id: string) =>
+          (await dataSource.getRepository(UserEntity).countBy({ id })) > 0,
+      };
+    },
+    async () => {
+      if (dataSource?.isInitialized) {
+        await dataSource.destroy();
+      }
+    }
+  );
+
+  describe('TypeOrmUserRepository Integration Tests - Zona horaria', () => {
+    const originalTimeZone = process.env.TZ;
+    const prismaClient = TestDatabaseUtils.createTestPrismaClient();
+    const timeZoneDataSource = createDataSource();
+    const repository = new TypeOrmUserRepository(timeZoneDataSource);
+
+    beforeAll(async () => {
+      await timeZoneDataSource.initialize();
+    });
+
+    beforeEach(async () => {
+      await cleanDatabase(timeZoneDataSource);
+    });
+
+    afterEach(() => {
+      process.env.TZ = originalTimeZone;
+    });
+
+    afterAll(async () => {
+      await timeZoneDataSource.destroy();
+      await TestDatabaseUtils.disconnectPrismaClient(prismaClient);
+    });
+
+    it('debería guardar y leer las fechas en UTC aunque el proceso use otra zona', async () => {
+      process.env.TZ = 'America/Santiago';
+      const created = await repository.create({
+        email: new Email('tz@example.com'),
+        username: new Username('tz_user'),
+        passwordHash: new HashedPassword(
+          '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+        ),
+        role: new Role('student'),
+      });
+
+      // Prisma lee las columnas como UTC sin depender de la zona del proceso
+      const stored = await prismaClient.user.findUniqueOrThrow({
+        where: { id: created.id },
+      });
+      expect(stored.createdAt.getTime()).toBe(created.createdAt.getTime());
+
+      process.env.TZ = 'Asia/Tokyo';
+      const found = await repository.findById(created.id);
+      expect(found?.createdAt.getTime()).toBe(created.createdAt.getTime());
+    });
+  });
+} else {
+  describe.skip('TypeOrmUserRepository Integration Tests - Contract', () => {
+    it('solo se ejecuta con DATABASE_PROVIDER=mysql o postgres', () => {});
+  });
+}
@@ -0,0 +1,59 @@
+// __tests__/integration/UnitOfWork.test.ts
+
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaUnitOfWork } from '@/infrastructure/database/adapters/prisma/PrismaUnitOfWork';
+import { UserRepository } from '@/infrastructure/database/adapters/prisma/repositories/UserRepository';
+import { RefreshTokenRepository } from '@/infrastructure/database/adapters/prisma/repositories/RefreshTokenRepository';
+import { VerificationTokenRepository } from '@/infrastructure/database/adapters/prisma/repositories/VerificationTokenRepository';
+import { UserStatusChangeRepository } from '@/infrastructure/database/adapters/prisma/repositories/UserStatusChangeRepository';
+import { OutboxRepository } from '@/infrastructure/database/adapters/prisma/repositories/OutboxRepository';
+import { CourseRepository } from '@/infrastructure/database/adapters/prisma/repositories/CourseRepository';
+import { CourseCollaboratorRepository } from '@/infrastructure/database/adapters/prisma/repositories/CourseCollaboratorRepository';
+import { LevelRepository } from '@/infrastructure/database/adapters/prisma/repositories/LevelRepository';
+import { SectionRepository } from '@/infrastructure/database/adapters/prisma/repositories/SectionRepository';
+import { ModuleRepository } from '@/infrastructure/database/adapters/prisma/repositories/ModuleRepository';
+import { LessonRepository } from '@/infrastructure/database/adapters/prisma/repositories/LessonRepository';
+import { ExerciseRepository } from '@/infrastructure/database/adapters/prisma/repositories/ExerciseRepository';
+import { LessonExerciseRepository } from '@/infrastructure/database/adapters/prisma/repositories/LessonExerciseRepository';
+import { PublicationRepository } from '@/infrastructure/database/adapters/prisma/repositories/PublicationRepository';
+import { TestDatabaseUtils } from '../setup';
+import { makeUnitOfWorkContractTest } from '@/core/interfaces/repositories/__tests__/IUnitOfWork.contract.test';
+
+let prismaClient: PrismaClient;
+
+makeUnitOfWorkContractTest(
+  'PrismaUnitOfWork Integration Tests - Contract',
+  () => {
+    prismaClient = TestDatabaseUtils.createTestPrismaClient();
+
+    return {
+      unitOfWork: new PrismaUnitOfWork(prismaClient),
+      repositories: {
+        userRepository: new UserRepository(prismaClient),
+        refreshTokenRepository: new RefreshTokenRepository(prismaClient),
+        verificationTokenRepository: new VerificationTokenRepository(
+          prismaClient
+        ),
+        userStatusChangeRepository: new UserStatusChangeRepository(
+          prismaClient
+        ),
+        outboxRepository: new OutboxRepository(prismaClient),
+        courseRepository: new CourseRepository(prismaClient),
+        courseCollaboratorRepository: new CourseCollaboratorRepository(
+          prismaClient
+        ),
+        levelRepository: new LevelRepository(prismaClient),
+        sectionRepository: new SectionRepository(prismaClient),
+        moduleRepository: new ModuleRepository(prismaClient),
+        lessonRepository: new LessonRepository(prismaClient),
+        exerciseRepository: new ExerciseRepository(prismaClient),
+        lessonExerciseRepository: new LessonExerciseRepository(prismaClient),
+        publicationRepository: new PublicationRepository(prismaClient),
+      },
+      cleanDatabase: () => TestDatabaseUtils.cleanDatabase(prismaClient),
+    };
+  },
+  async () => {
+    await TestDatabaseUtils.disconnectPrismaClient(prismaClient);
+  }
+);
@@ -1,7 +1,12 @@
 // __tests__/integration/app.test.ts
 
 import supertest from 'supertest';
-import app from '@/infrastructure/web/app';
+import { createApp } from '@/infrastructure/web/app';
+import { createContainer } from '@/infrastructure/config/container';
+
+// El endpoint raíz no resuelve ninguna dependencia: basta con el contenedor
+// de producción, cuyos registros son perezosos
+const app = createApp(createContainer());
 
 const request = supertest(app);
 
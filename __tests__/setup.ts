@@ -16,6 +16,9 @@
  * Este enfoque garantiza que cada suite de tests se ejecute en una base de datos
  * completamente aislada y limpia.
  *
+ * Con DATABASE_PROVIDER=sqlite no se levanta ningún contenedor: cada suite usa
+ * un fichero SQLite temporal, así que los tests de integración corren sin Docker.
+ *
  * @module TestSetup
  * @category Testing
  * @author Exequiel Trujillo
@@ -29,6 +32,9 @@ import {
 import { MySqlContainer, StartedMySqlContainer } from '@testcontainers/mysql';
 import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
 import { exec } from 'child_process';
+import { rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
@@ -36,6 +42,7 @@ const execAsync = promisify(exec);
 type SupportedContainer = StartedPostgreSqlContainer | StartedMySqlContainer;
 
 let container: SupportedContainer;
+let sqliteFile: string | undefined;
 
 /**
  * Utilidades para tests de integración que pueden ser reutilizadas
@@ -59,6 +66,8 @@ export class TestDatabaseUtils {
       process.env.DATABASE_URL_POSTGRES = process.env.TEST_DATABASE_URL;
     } else if (dbProvider === 'mysql') {
       process.env.DATABASE_URL_MYSQL = process.env.TEST_DATABASE_URL;
+    } else if (dbProvider === 'sqlite') {
+      process.env.DATABASE_URL_SQLITE = process.env.TEST_DATABASE_URL;
     }
 
     return new PrismaClient({
@@ -76,6 +85,15 @@ export class TestDatabaseUtils {
    */
   static async cleanDatabase(prismaClient: PrismaClient): Promise<void> {
     // Limpiamos en orden inverso de dependencias para evitar errores de FK
+    await prismaClient.refreshToken.deleteMany();
+    await prismaClient.verificationToken.deleteMany();
+    await prismaClient.userStatusChange.deleteMany();
+    await prismaClient.outboxMessage.deleteMany();
+    // Borrar los cursos borra en cascada niveles, secciones, módulos,
+    // lecciones, colaboradores y publicaciones
+    await prismaClient.course.deleteMany();
+    // Los ejercicios no cuelgan de ningún curso; sus enlaces con lecciones se borran en cascada
+    await prismaClient.exercise.deleteMany();
     await prismaClient.user.deleteMany();
     // Aquí agregaremos más tablas conforme las vayamos creando
   }
@@ -116,11 +134,23 @@ beforeAll(async () => {
         .start();
       process.env.TEST_DATABASE_URL = container.getConnectionUri();
       break;
+    case 'sqlite':
+      // Sin contenedor: un fichero temporal por suite
+      sqliteFile = path.join(
+        os.tmpdir(),
+        `wayrapp-test-${process.pid}-${Date.now()}.db`
+      );
+      process.env.TEST_DATABASE_URL = `file:${sqliteFile}`;
+      break;
     default:
       throw new Error(`DATABASE_PROVIDER no soportado: ${dbProvider}`);
   }
 
-  console.log(`Iniciado el container de tipo ${dbProvider}.`);
+  console.log(
+    sqliteFile
+      ? `Usando la base de datos SQLite ${sqliteFile}.`
+      : `Iniciado el container de tipo ${dbProvider}.`
+  );
   console.log(`URL de conexión: ${process.env.TEST_DATABASE_URL}`);
 
   let migrateCommand: string;
@@ -130,6 +160,9 @@ beforeAll(async () => {
     // Para MySQL, necesitamos usar prisma db push en lugar de migrate deploy
     // porque las migraciones están configuradas para PostgreSQL
     migrateCommand = `cross-env DATABASE_URL_MYSQL='${process.env.TEST_DATABASE_URL}' npx prisma db push --force-reset`;
+  } else if (dbProvider === 'sqlite') {
+    // Igual que MySQL: las migraciones son de PostgreSQL
+    migrateCommand = `cross-env DATABASE_URL_SQLITE='${process.env.TEST_DATABASE_URL}' npx prisma db push --force-reset --skip-generate`;
   } else {
     // Esto es por seguridad, aunque el switch anterior ya debería haber fallado
     throw new Error('No se pudo determinar el comando de migración.');
@@ -142,9 +175,13 @@ beforeAll(async () => {
 });
 
 afterAll(async () => {
-  console.log('\nDestruyendo Testcontainer...');
   if (container) {
+    console.log('\nDestruyendo Testcontainer...');
     await container.stop();
     console.log('Testcontainer detenido.');
   }
+  if (sqliteFile) {
+    await rm(sqliteFile, { force: true });
+    await rm(`${sqliteFile}-journal`, { force: true });
+  }
 });
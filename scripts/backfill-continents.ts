@@ -0,0 +1,29 @@
+// scripts/backfill-continents.ts
+
+/**
+ * Rellena el continente de los usuarios que tienen país pero no continente
+ * (PrismaContinentBackfill), en la base de datos de DATABASE_TYPE.
+ *
+ * Hace falta en las bases creadas con `db push` (MySQL y SQLite), que no
+ * ejecutan el relleno de la migración de PostgreSQL. Se puede repetir:
+ * solo toca los usuarios sin continente.
+ *
+ *   npm run db:backfill:continents
+ */
+
+import { DatabaseConfig } from '@/infrastructure/database/config/database.config';
+import { PrismaFactory } from '@/infrastructure/database/factories/PrismaFactory';
+import { PrismaContinentBackfill } from '@/infrastructure/database/adapters/prisma/PrismaContinentBackfill';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+const logger = defaultLogger.child({ component: 'backfill-continents' });
+const prisma = PrismaFactory.createClient(DatabaseConfig.load());
+
+new PrismaContinentBackfill(prisma, logger)
+  .run()
+  .then(() => prisma.$disconnect())
+  .catch(async (error) => {
+    logger.error('No se pudieron rellenar los continentes', { error });
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,12 @@
+#!/bin/sh
+set -e
+
+# Genera schema.prisma para SQLite a partir de schemas/sqlite.prisma y del
+# schema base. SQLite no admite tipos nativos, así que se quitan los
+# atributos @db.* (por ejemplo @db.VarChar(500)); las longitudes máximas ya
+# las validan las entidades de dominio.
+
+PRISMA_DIR=src/infrastructure/database/adapters/prisma
+
+cat "$PRISMA_DIR/schemas/sqlite.prisma" > "$PRISMA_DIR/schema.prisma"
+sed -E 's/ @db\.[A-Za-z]+(\([^)]*\))?//g' "$PRISMA_DIR/schemas/_base.prisma" >> "$PRISMA_DIR/schema.prisma"
@@ -0,0 +1,29 @@
+// src/core/domain/entities/AggregateRoot.ts
+
+import { DomainEvent } from '@/core/domain/events/DomainEvent';
+
+/**
+ * Base de las entidades que registran eventos de dominio.
+ *
+ * Los eventos pertenecen a la instancia que los produjo: como las entidades
+ * son inmutables, las copias que devuelven las transiciones no los heredan.
+ * El caso de uso los recoge con pullDomainEvents() justo después de la
+ * operación y los guarda en el outbox.
+ */
+export abstract class AggregateRoot {
+  private domainEvents: DomainEvent[] = [];
+
+  protected recordEvent(event: DomainEvent): void {
+    this.domainEvents.push(event);
+  }
+
+  /**
+   * Devuelve los eventos pendientes y vacía la lista, para que no se
+   * guarden dos veces
+   */
+  pullDomainEvents(): DomainEvent[] {
+    const events = this.domainEvents;
+    this.domainEvents = [];
+    return events;
+  }
+}
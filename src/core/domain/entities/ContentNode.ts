@@ -0,0 +1,96 @@
+// src/core/domain/entities/ContentNode.ts
+
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import {
+  assertPositionAvailable,
+  ChildContentKind,
+  OrderedSibling,
+} from '@/core/domain/services/ContentHierarchy';
+
+/**
+ * Datos para crear un elemento de contenido dentro de su contenedor
+ */
+export interface NewContentNode {
+  title: ContentTitle;
+  position?: Position; // Opcional - por defecto, detrás del último hermano
+  id?: string; // Opcional para casos especiales (testing, migración)
+}
+
+/**
+ * Base de los elementos ordenados de la jerarquía de contenido (Level,
+ * Section, Module y Lesson): todos pertenecen a un contenedor (`parentId`) y
+ * ocupan en él una posición que no comparten con ningún hermano.
+ *
+ * Las subclases solo se crean a partir de la entidad de su contenedor, así
+ * que no pueden nacer huérfanas. Son inmutables: los cambios devuelven una
+ * nueva instancia.
+ *
+ * `version` es la versión guardada (empieza en 1): el repositorio solo
+ * guarda un cambio si nadie ha guardado otro desde que se leyó el elemento,
+ * y entonces la incrementa (concurrencia optimista).
+ */
+export abstract class ContentNode<
+  T extends ContentNode<T>,
+> implements OrderedSibling {
+  abstract readonly kind: ChildContentKind;
+
+  protected constructor(
+    public readonly id: string,
+    public readonly parentId: string,
+    public readonly title: ContentTitle,
+    public readonly position: Position,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly version: number
+  ) {
+    if (!id || id.trim().length === 0) {
+      throw new Error('ID de contenido inválido');
+    }
+
+    if (!parentId || parentId.trim().length === 0) {
+      throw new Error('El contenido debe pertenecer a un contenedor');
+    }
+  }
+
+  rename(title: ContentTitle, now: Date = new Date()): T {
+    return this.copy(title, this.position, now, this.version);
+  }
+
+  /**
+   * Marca el elemento como modificado sin cambiar sus datos: al guardarlo
+   * sube su versión. Se usa al cambiar lo que contiene (reordenar sus hijos,
+   * sus ejercicios...) para detectar cambios concurrentes del contenedor.
+   */
+  touch(now: Date = new Date()): T {
+    return this.copy(this.title, this.position, now, this.version);
+  }
+
+  // El mismo elemento con otra versión: lo usan los repositorios al guardar
+  withVersion(version: number): T {
+    return this.copy(this.title, this.position, this.updatedAt, version);
+  }
+
+  /**
+   * Mueve el elemento a otra posición libre de su contenedor. Para
+   * intercambiar posiciones entre hermanos hay que reordenar el contenedor
+   * completo (reorder del repositorio).
+   * @throws PositionTakenError si otro hermano ocupa la posición.
+   */
+  moveTo(
+    position: Position,
+    siblings: readonly OrderedSibling[],
+    now: Date = new Date()
+  ): T {
+    const moved = this.copy(this.title, position, now, this.version);
+    assertPositionAvailable(this.kind, moved, siblings);
+    return moved;
+  }
+
+  protected abstract copy(
+    title: ContentTitle,
+    position: Position,
+    updatedAt: Date,
+    version: number
+  ): T;
+}
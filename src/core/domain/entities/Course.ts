@@ -0,0 +1,150 @@
+// src/core/domain/entities/Course.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { Slug } from '@/core/domain/value-objects/Slug';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+export interface CourseChanges {
+  slug?: Slug;
+  title?: ContentTitle;
+  description?: string | null;
+  languagePair?: LanguagePair;
+}
+
+/**
+ * Curso: raíz de la jerarquía de contenido (Course → Level → Section →
+ * Module → Lesson). Se identifica en las URLs por su slug, único entre
+ * todos los cursos.
+ *
+ * `ownerId` es el creador de contenido que lo creó (null si su cuenta ya no
+ * existe). `version` funciona como en ContentNode: sube cada vez que se
+ * guarda un cambio.
+ */
+export class Course {
+  static readonly DESCRIPTION_MAX_LENGTH = 2000;
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly slug: Slug,
+    public readonly title: ContentTitle,
+    public readonly description: string | null,
+    public readonly languagePair: LanguagePair,
+    public readonly ownerId: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly version: number
+  ) {}
+
+  // FACTORY METHOD - Para crear un curso nuevo
+  static create(
+    data: {
+      title: ContentTitle;
+      languagePair: LanguagePair;
+      slug?: Slug; // Opcional - por defecto se genera a partir del título
+      description?: string | null;
+      ownerId?: string | null;
+      id?: string; // Opcional para casos especiales (testing, migración)
+    },
+    now: Date = new Date()
+  ): Course {
+    return new Course(
+      data.id || uuidv4(),
+      data.slug ?? Slug.fromText(data.title.value),
+      data.title,
+      Course.normalizeDescription(data.description),
+      data.languagePair,
+      data.ownerId ?? null,
+      now,
+      now,
+      1
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    slug: Slug,
+    title: ContentTitle,
+    description: string | null,
+    languagePair: LanguagePair,
+    ownerId: string | null,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Course {
+    return new Course(
+      id,
+      slug,
+      title,
+      description,
+      languagePair,
+      ownerId,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  // La entidad es inmutable: devuelve una nueva instancia con los cambios
+  update(changes: CourseChanges, now: Date = new Date()): Course {
+    return new Course(
+      this.id,
+      changes.slug ?? this.slug,
+      changes.title ?? this.title,
+      changes.description === undefined
+        ? this.description
+        : Course.normalizeDescription(changes.description),
+      changes.languagePair ?? this.languagePair,
+      this.ownerId,
+      this.createdAt,
+      now,
+      this.version
+    );
+  }
+
+  /**
+   * Marca el curso como modificado sin cambiar sus datos: al guardarlo sube
+   * su versión. Se usa al cambiar lo que contiene (reordenar sus niveles...)
+   * para detectar cambios concurrentes, igual que ContentNode.touch.
+   */
+  touch(now: Date = new Date()): Course {
+    return this.update({}, now);
+  }
+
+  // El mismo curso con otra versión: lo usan los repositorios al guardar
+  withVersion(version: number): Course {
+    return new Course(
+      this.id,
+      this.slug,
+      this.title,
+      this.description,
+      this.languagePair,
+      this.ownerId,
+      this.createdAt,
+      this.updatedAt,
+      version
+    );
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.ownerId === userId;
+  }
+
+  // Una descripción vacía equivale a no tenerla
+  private static normalizeDescription(
+    description: string | null | undefined
+  ): string | null {
+    const trimmed = description?.trim() ?? '';
+    if (trimmed.length > Course.DESCRIPTION_MAX_LENGTH) {
+      throw new DomainValidationError(
+        'CONTENT_DESCRIPTION_TOO_LONG',
+        `La descripción no puede exceder los ${Course.DESCRIPTION_MAX_LENGTH} caracteres`,
+        { max: Course.DESCRIPTION_MAX_LENGTH }
+      );
+    }
+    return trimmed.length > 0 ? trimmed : null;
+  }
+}
@@ -0,0 +1,98 @@
+// src/core/domain/entities/Exercise.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ExercisePayload,
+  ExerciseType,
+} from '@/core/domain/value-objects/ExercisePayload';
+
+/**
+ * Ejercicio: su tipo y su contenido los define el payload (elección
+ * múltiple, traducción, huecos, parejas, ordenar palabras, comprensión
+ * auditiva o dictado).
+ *
+ * No pertenece a ninguna lección: se enlaza con LessonExercise, así que un
+ * mismo ejercicio se puede reutilizar en varias lecciones. `ownerId` es el
+ * creador de contenido que lo creó (null si su cuenta ya no existe) y
+ * `version` funciona como en ContentNode.
+ */
+export class Exercise {
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly payload: ExercisePayload,
+    public readonly ownerId: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly version: number
+  ) {}
+
+  // FACTORY METHOD - Para crear un ejercicio nuevo
+  static create(
+    payload: ExercisePayload,
+    data: {
+      ownerId?: string | null;
+      id?: string; // Opcional para casos especiales (testing, migración)
+    } = {},
+    now: Date = new Date()
+  ): Exercise {
+    return new Exercise(
+      data.id || uuidv4(),
+      payload,
+      data.ownerId ?? null,
+      now,
+      now,
+      1
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    payload: ExercisePayload,
+    ownerId: string | null,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Exercise {
+    return new Exercise(id, payload, ownerId, createdAt, updatedAt, version);
+  }
+
+  get type(): ExerciseType {
+    return this.payload.type;
+  }
+
+  // La entidad es inmutable: devuelve una nueva instancia con el contenido
+  // cambiado (puede cambiar también de tipo)
+  withPayload(payload: ExercisePayload, now: Date = new Date()): Exercise {
+    return new Exercise(
+      this.id,
+      payload,
+      this.ownerId,
+      this.createdAt,
+      now,
+      this.version
+    );
+  }
+
+  // Sin cambiar el contenido: al guardarlo sube la versión (ContentNode.touch)
+  touch(now: Date = new Date()): Exercise {
+    return this.withPayload(this.payload, now);
+  }
+
+  // El mismo ejercicio con otra versión: lo usan los repositorios al guardar
+  withVersion(version: number): Exercise {
+    return new Exercise(
+      this.id,
+      this.payload,
+      this.ownerId,
+      this.createdAt,
+      this.updatedAt,
+      version
+    );
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.ownerId === userId;
+  }
+}
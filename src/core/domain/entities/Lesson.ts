@@ -0,0 +1,95 @@
+// src/core/domain/entities/Lesson.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import { placeAmongSiblings } from '@/core/domain/services/ContentHierarchy';
+import { ContentNode, NewContentNode } from './ContentNode';
+import { Module } from './Module';
+
+/**
+ * Lección de un módulo: la unidad de contenido que estudia el alumno.
+ */
+export class Lesson extends ContentNode<Lesson> {
+  readonly kind = 'lesson' as const;
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    id: string,
+    moduleId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ) {
+    super(id, moduleId, title, position, createdAt, updatedAt, version);
+  }
+
+  // FACTORY METHOD - Para crear una lección dentro de un módulo
+  // `siblings` son las lecciones que ya tiene
+  static create(
+    module: Module,
+    data: NewContentNode,
+    siblings: readonly Lesson[],
+    now: Date = new Date()
+  ): Lesson {
+    const position = placeAmongSiblings(
+      'lesson',
+      module.id,
+      siblings,
+      data.position
+    );
+    return new Lesson(
+      data.id || uuidv4(),
+      module.id,
+      data.title,
+      position,
+      now,
+      now,
+      1
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    moduleId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Lesson {
+    return new Lesson(
+      id,
+      moduleId,
+      title,
+      position,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  get moduleId(): string {
+    return this.parentId;
+  }
+
+  protected copy(
+    title: ContentTitle,
+    position: Position,
+    updatedAt: Date,
+    version: number
+  ): Lesson {
+    return new Lesson(
+      this.id,
+      this.parentId,
+      title,
+      position,
+      this.createdAt,
+      updatedAt,
+      version
+    );
+  }
+}
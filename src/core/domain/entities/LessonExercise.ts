@@ -0,0 +1,67 @@
+// src/core/domain/entities/LessonExercise.ts
+
+import { Position } from '@/core/domain/value-objects/Position';
+import {
+  OrderedSibling,
+  placeAmongSiblings,
+} from '@/core/domain/services/ContentHierarchy';
+import { ExerciseAlreadyInLessonError } from '@/core/domain/errors/ExerciseErrors';
+import { Lesson } from './Lesson';
+import { Exercise } from './Exercise';
+
+/**
+ * Enlace entre una lección y uno de sus ejercicios, con la posición del
+ * ejercicio dentro de esa lección. Un ejercicio puede estar en varias
+ * lecciones, como mucho una vez en cada una, y dos ejercicios de la misma
+ * lección no comparten posición (mismas reglas de orden que ContentHierarchy,
+ * con la lección como contenedor y el ejercicio como elemento).
+ */
+export class LessonExercise implements OrderedSibling {
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly lessonId: string,
+    public readonly exerciseId: string,
+    public readonly position: Position,
+    public readonly createdAt: Date
+  ) {}
+
+  // FACTORY METHOD - Para añadir un ejercicio a una lección
+  // `siblings` son los enlaces que ya tiene la lección
+  static create(
+    lesson: Lesson,
+    exercise: Exercise,
+    siblings: readonly LessonExercise[],
+    position?: Position, // Opcional - por defecto, detrás del último
+    now: Date = new Date()
+  ): LessonExercise {
+    if (siblings.some((link) => link.exerciseId === exercise.id)) {
+      throw new ExerciseAlreadyInLessonError(lesson.id, exercise.id);
+    }
+
+    return new LessonExercise(
+      lesson.id,
+      exercise.id,
+      placeAmongSiblings('exercise', lesson.id, siblings, position),
+      now
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    lessonId: string,
+    exerciseId: string,
+    position: Position,
+    createdAt: Date
+  ): LessonExercise {
+    return new LessonExercise(lessonId, exerciseId, position, createdAt);
+  }
+
+  // Dentro de su lección, el enlace se identifica por el ejercicio
+  get id(): string {
+    return this.exerciseId;
+  }
+
+  get parentId(): string {
+    return this.lessonId;
+  }
+}
@@ -0,0 +1,95 @@
+// src/core/domain/entities/Level.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import { placeAmongSiblings } from '@/core/domain/services/ContentHierarchy';
+import { ContentNode, NewContentNode } from './ContentNode';
+import { Course } from './Course';
+
+/**
+ * Nivel de un curso (por ejemplo A1, A2...). Agrupa secciones.
+ */
+export class Level extends ContentNode<Level> {
+  readonly kind = 'level' as const;
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    id: string,
+    courseId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ) {
+    super(id, courseId, title, position, createdAt, updatedAt, version);
+  }
+
+  // FACTORY METHOD - Para crear un nivel dentro de un curso
+  // `siblings` son los niveles que ya tiene
+  static create(
+    course: Course,
+    data: NewContentNode,
+    siblings: readonly Level[],
+    now: Date = new Date()
+  ): Level {
+    const position = placeAmongSiblings(
+      'level',
+      course.id,
+      siblings,
+      data.position
+    );
+    return new Level(
+      data.id || uuidv4(),
+      course.id,
+      data.title,
+      position,
+      now,
+      now,
+      1
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    courseId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Level {
+    return new Level(
+      id,
+      courseId,
+      title,
+      position,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  get courseId(): string {
+    return this.parentId;
+  }
+
+  protected copy(
+    title: ContentTitle,
+    position: Position,
+    updatedAt: Date,
+    version: number
+  ): Level {
+    return new Level(
+      this.id,
+      this.parentId,
+      title,
+      position,
+      this.createdAt,
+      updatedAt,
+      version
+    );
+  }
+}
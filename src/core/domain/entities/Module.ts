@@ -0,0 +1,95 @@
+// src/core/domain/entities/Module.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import { placeAmongSiblings } from '@/core/domain/services/ContentHierarchy';
+import { ContentNode, NewContentNode } from './ContentNode';
+import { Section } from './Section';
+
+/**
+ * Módulo de una sección. Agrupa lecciones.
+ */
+export class Module extends ContentNode<Module> {
+  readonly kind = 'module' as const;
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    id: string,
+    sectionId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ) {
+    super(id, sectionId, title, position, createdAt, updatedAt, version);
+  }
+
+  // FACTORY METHOD - Para crear un módulo dentro de una sección
+  // `siblings` son los módulos que ya tiene
+  static create(
+    section: Section,
+    data: NewContentNode,
+    siblings: readonly Module[],
+    now: Date = new Date()
+  ): Module {
+    const position = placeAmongSiblings(
+      'module',
+      section.id,
+      siblings,
+      data.position
+    );
+    return new Module(
+      data.id || uuidv4(),
+      section.id,
+      data.title,
+      position,
+      now,
+      now,
+      1
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    sectionId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Module {
+    return new Module(
+      id,
+      sectionId,
+      title,
+      position,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  get sectionId(): string {
+    return this.parentId;
+  }
+
+  protected copy(
+    title: ContentTitle,
+    position: Position,
+    updatedAt: Date,
+    version: number
+  ): Module {
+    return new Module(
+      this.id,
+      this.parentId,
+      title,
+      position,
+      this.createdAt,
+      updatedAt,
+      version
+    );
+  }
+}
@@ -0,0 +1,320 @@
+// src/core/domain/entities/Publication.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ReviewComment } from '@/core/domain/value-objects/ReviewComment';
+import {
+  InvalidPublicationTransitionError,
+  PublishedSnapshotNotFoundError,
+} from '@/core/domain/errors/PublicationErrors';
+import { PublicationHistoryEntry } from './PublicationHistoryEntry';
+import { PublishedDocument, PublishedSnapshot } from './PublishedSnapshot';
+
+// Lo que se publica: un curso (su índice) o una lección (sus ejercicios)
+export type PublishableKind = 'course' | 'lesson';
+
+export type PublicationStatus =
+  'draft' | 'in_review' | 'published' | 'archived';
+
+export type PublicationAction =
+  'submitted' | 'approved' | 'rejected' | 'rolled_back' | 'archived';
+
+/**
+ * Contenido enviado a revisión: se copia al enviarlo, así que lo que se
+ * aprueba es exactamente lo que se revisó aunque el autor siga editando
+ */
+export interface PendingRevision {
+  document: PublishedDocument;
+  contentVersion: number;
+  submittedBy: string;
+  submittedAt: Date;
+}
+
+/**
+ * Resultado de una acción: la publicación cambiada, su entrada del historial
+ * y, al aprobar, la instantánea nueva. Se guardan juntos.
+ */
+export interface PublicationChange {
+  publication: Publication;
+  entry: PublicationHistoryEntry;
+  snapshot?: PublishedSnapshot;
+}
+
+/**
+ * Ciclo de publicación de un curso o una lección.
+ *
+ * Los autores editan siempre la copia de trabajo (las entidades de la
+ * jerarquía); los alumnos solo ven la instantánea publicada
+ * (`publishedNumber`), que no cambia mientras se edita o se revisa una
+ * versión nueva.
+ *
+ * Estados y acciones (ver ALLOWED_FROM):
+ * - draft: en edición. Se envía a revisar (in_review) o se archiva.
+ * - in_review: un administrador la aprueba (published, con una instantánea
+ *   nueva) o la rechaza con un comentario (vuelve a draft).
+ * - published: se puede enviar a revisar otra versión, archivar o volver a
+ *   una instantánea anterior.
+ * - archived: los alumnos dejan de verla; vuelve con una nueva revisión.
+ *
+ * Si se rechaza una versión, la instantánea publicada sigue visible. Volver
+ * atrás (rolled_back) cambia la instantánea visible sin crear otra. Archivar
+ * quita la instantánea visible, así que el contenido archivado no vuelve a
+ * verse hasta que se aprueba una revisión nueva (o se vuelve atrás), aunque
+ * se envíe a revisar o se rechace.
+ *
+ * `version` funciona como en Course, salvo que 0 indica una publicación que
+ * aún no se ha guardado (el contenido nunca se envió a revisar).
+ */
+export class Publication {
+  private static readonly ALLOWED_FROM: Record<
+    PublicationAction,
+    readonly PublicationStatus[]
+  > = {
+    submitted: ['draft', 'published', 'archived'],
+    approved: ['in_review'],
+    rejected: ['in_review'],
+    rolled_back: ['draft', 'published'],
+    archived: ['draft', 'published'],
+  };
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly kind: PublishableKind,
+    public readonly contentId: string,
+    public readonly status: PublicationStatus,
+    public readonly pending: PendingRevision | null,
+    public readonly publishedNumber: number | null, // Instantánea que ven los alumnos (null si ninguna)
+    public readonly latestNumber: number, // Última instantánea creada (0 si ninguna)
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly version: number
+  ) {}
+
+  // FACTORY METHOD - Para el contenido que aún no tiene publicación
+  static start(
+    kind: PublishableKind,
+    contentId: string,
+    now: Date = new Date()
+  ): Publication {
+    return new Publication(
+      uuidv4(),
+      kind,
+      contentId,
+      'draft',
+      null,
+      null,
+      0,
+      now,
+      now,
+      0
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    kind: PublishableKind,
+    contentId: string,
+    status: PublicationStatus,
+    pending: PendingRevision | null,
+    publishedNumber: number | null,
+    latestNumber: number,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Publication {
+    return new Publication(
+      id,
+      kind,
+      contentId,
+      status,
+      pending,
+      publishedNumber,
+      latestNumber,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  // Los alumnos ven el contenido: tiene una instantánea publicada
+  isLive(): boolean {
+    return this.publishedNumber !== null;
+  }
+
+  isStored(): boolean {
+    return this.version > 0;
+  }
+
+  /**
+   * Envía a revisar una copia del contenido actual.
+   * @param contentVersion Versión del curso o lección que se copió.
+   * @throws InvalidPublicationTransitionError si ya está en revisión.
+   */
+  submit(
+    document: PublishedDocument,
+    contentVersion: number,
+    actorId: string,
+    now: Date = new Date()
+  ): PublicationChange {
+    // Lo garantiza quien construye el documento a partir del contenido
+    if (document.kind !== this.kind || document.id !== this.contentId) {
+      throw new Error(`El documento no es del ${this.kind} ${this.contentId}`);
+    }
+    return this.apply('submitted', 'in_review', actorId, now, {
+      pending: {
+        document,
+        contentVersion,
+        submittedBy: actorId,
+        submittedAt: now,
+      },
+    });
+  }
+
+  /**
+   * Publica la revisión pendiente como una instantánea nueva.
+   * @throws InvalidPublicationTransitionError si no está en revisión.
+   */
+  approve(
+    reviewerId: string,
+    comment: ReviewComment | null,
+    now: Date = new Date()
+  ): PublicationChange {
+    this.assertAllowed('approved');
+    // Toda publicación en revisión tiene su revisión pendiente
+    const pending = this.pending as PendingRevision;
+    const snapshot = PublishedSnapshot.create({
+      publicationId: this.id,
+      number: this.latestNumber + 1,
+      document: pending.document,
+      contentVersion: pending.contentVersion,
+      submittedBy: pending.submittedBy,
+      approvedBy: reviewerId,
+      publishedAt: now,
+    });
+
+    return {
+      ...this.apply('approved', 'published', reviewerId, now, {
+        pending: null,
+        publishedNumber: snapshot.number,
+        latestNumber: snapshot.number,
+        snapshotNumber: snapshot.number,
+        comment,
+      }),
+      snapshot,
+    };
+  }
+
+  /**
+   * Descarta la revisión pendiente; la instantánea publicada, si la hay,
+   * sigue visible.
+   * @throws InvalidPublicationTransitionError si no está en revisión.
+   */
+  reject(
+    reviewerId: string,
+    comment: ReviewComment,
+    now: Date = new Date()
+  ): PublicationChange {
+    return this.apply('rejected', 'draft', reviewerId, now, {
+      pending: null,
+      comment,
+    });
+  }
+
+  /**
+   * Vuelve a publicar una instantánea anterior.
+   * @throws InvalidPublicationTransitionError si está en revisión o archivada.
+   * @throws PublishedSnapshotNotFoundError si no existe esa instantánea.
+   */
+  rollBackTo(
+    number: number,
+    actorId: string,
+    comment: ReviewComment | null,
+    now: Date = new Date()
+  ): PublicationChange {
+    this.assertAllowed('rolled_back');
+    if (!Number.isInteger(number) || number < 1 || number > this.latestNumber) {
+      throw new PublishedSnapshotNotFoundError(this.id, number);
+    }
+    return this.apply('rolled_back', 'published', actorId, now, {
+      publishedNumber: number,
+      snapshotNumber: number,
+      comment,
+    });
+  }
+
+  /**
+   * Retira el contenido de los alumnos sin borrar sus instantáneas.
+   * @throws InvalidPublicationTransitionError si está en revisión o ya archivada.
+   */
+  archive(actorId: string, now: Date = new Date()): PublicationChange {
+    return this.apply('archived', 'archived', actorId, now, {
+      publishedNumber: null,
+    });
+  }
+
+  // La misma publicación con otra versión: lo usan los repositorios al guardar
+  withVersion(version: number): Publication {
+    return new Publication(
+      this.id,
+      this.kind,
+      this.contentId,
+      this.status,
+      this.pending,
+      this.publishedNumber,
+      this.latestNumber,
+      this.createdAt,
+      this.updatedAt,
+      version
+    );
+  }
+
+  private assertAllowed(action: PublicationAction): void {
+    if (!Publication.ALLOWED_FROM[action].includes(this.status)) {
+      throw new InvalidPublicationTransitionError(action, this.status);
+    }
+  }
+
+  private apply(
+    action: PublicationAction,
+    status: PublicationStatus,
+    actorId: string,
+    now: Date,
+    changes: {
+      pending?: PendingRevision | null;
+      publishedNumber?: number | null;
+      latestNumber?: number;
+      snapshotNumber?: number;
+      comment?: ReviewComment | null;
+    }
+  ): PublicationChange {
+    this.assertAllowed(action);
+
+    return {
+      publication: new Publication(
+        this.id,
+        this.kind,
+        this.contentId,
+        status,
+        changes.pending === undefined ? this.pending : changes.pending,
+        changes.publishedNumber === undefined
+          ? this.publishedNumber
+          : changes.publishedNumber,
+        changes.latestNumber ?? this.latestNumber,
+        this.createdAt,
+        now,
+        this.version
+      ),
+      entry: PublicationHistoryEntry.record({
+        publicationId: this.id,
+        action,
+        fromStatus: this.status,
+        toStatus: status,
+        snapshotNumber: changes.snapshotNumber,
+        comment: changes.comment?.value,
+        actorId,
+        at: now,
+      }),
+    };
+  }
+}
@@ -0,0 +1,73 @@
+// src/core/domain/entities/PublicationHistoryEntry.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import type { PublicationAction, PublicationStatus } from './Publication';
+
+/**
+ * Entrada del historial de una publicación: quién la envió a revisar, la
+ * aprobó, la rechazó, volvió a una versión anterior o la archivó, cuándo, con
+ * qué comentario y sobre qué instantánea. Las entradas no se modifican.
+ */
+export class PublicationHistoryEntry {
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly publicationId: string,
+    public readonly action: PublicationAction,
+    public readonly fromStatus: PublicationStatus,
+    public readonly toStatus: PublicationStatus,
+    public readonly snapshotNumber: number | null, // Instantánea publicada, si la hay
+    public readonly comment: string | null,
+    public readonly actorId: string | null, // null si se eliminó su cuenta
+    public readonly createdAt: Date
+  ) {}
+
+  // FACTORY METHOD - Para registrar una acción nueva
+  static record(data: {
+    publicationId: string;
+    action: PublicationAction;
+    fromStatus: PublicationStatus;
+    toStatus: PublicationStatus;
+    snapshotNumber?: number | null;
+    comment?: string | null;
+    actorId: string;
+    at: Date;
+  }): PublicationHistoryEntry {
+    return new PublicationHistoryEntry(
+      uuidv4(),
+      data.publicationId,
+      data.action,
+      data.fromStatus,
+      data.toStatus,
+      data.snapshotNumber ?? null,
+      data.comment ?? null,
+      data.actorId,
+      data.at
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    publicationId: string,
+    action: PublicationAction,
+    fromStatus: PublicationStatus,
+    toStatus: PublicationStatus,
+    snapshotNumber: number | null,
+    comment: string | null,
+    actorId: string | null,
+    createdAt: Date
+  ): PublicationHistoryEntry {
+    return new PublicationHistoryEntry(
+      id,
+      publicationId,
+      action,
+      fromStatus,
+      toStatus,
+      snapshotNumber,
+      comment,
+      actorId,
+      createdAt
+    );
+  }
+}
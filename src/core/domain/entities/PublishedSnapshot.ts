@@ -0,0 +1,135 @@
+// src/core/domain/entities/PublishedSnapshot.ts
+
+import type { PublishableKind } from './Publication';
+
+/**
+ * Contenido publicado de un curso: sus datos y el índice de niveles,
+ * secciones, módulos y lecciones, en orden. El contenido de cada lección se
+ * publica aparte (PublishedLessonDocument).
+ */
+export interface PublishedCourseDocument {
+  kind: 'course';
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  sourceLanguage: string;
+  targetLanguage: string;
+  levels: PublishedLevel[];
+}
+
+export interface PublishedLevel {
+  id: string;
+  title: string;
+  sections: PublishedSection[];
+}
+
+export interface PublishedSection {
+  id: string;
+  title: string;
+  modules: PublishedModule[];
+}
+
+export interface PublishedModule {
+  id: string;
+  title: string;
+  lessons: PublishedLessonEntry[];
+}
+
+export interface PublishedLessonEntry {
+  id: string;
+  title: string;
+}
+
+/**
+ * Contenido publicado de una lección: sus ejercicios en orden. Cada payload
+ * se guarda con su versión de esquema para leerlo con
+ * ExercisePayload.fromPersistence aunque el formato cambie después.
+ * `courseId` permite encontrar su curso publicado sin leer la copia de
+ * trabajo.
+ */
+export interface PublishedLessonDocument {
+  kind: 'lesson';
+  id: string;
+  courseId: string;
+  title: string;
+  exercises: PublishedExercise[];
+}
+
+export interface PublishedExercise {
+  id: string;
+  schemaVersion: number;
+  payload: unknown;
+}
+
+export type PublishedDocument =
+  PublishedCourseDocument | PublishedLessonDocument;
+
+/**
+ * Versión publicada de un curso o una lección. Se crea al aprobar una
+ * revisión, con el contenido que se envió a revisar, y no se modifica
+ * nunca: volver atrás es volver a publicar una instantánea anterior.
+ *
+ * Se numeran 1, 2, 3... dentro de cada publicación.
+ */
+export class PublishedSnapshot {
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly publicationId: string,
+    public readonly number: number,
+    public readonly document: PublishedDocument,
+    public readonly contentVersion: number, // Versión del curso o lección enviada
+    public readonly submittedBy: string | null,
+    public readonly approvedBy: string | null,
+    public readonly publishedAt: Date
+  ) {}
+
+  // FACTORY METHOD - Para publicar una revisión aprobada
+  static create(data: {
+    publicationId: string;
+    number: number;
+    document: PublishedDocument;
+    contentVersion: number;
+    submittedBy: string | null;
+    approvedBy: string;
+    publishedAt: Date;
+  }): PublishedSnapshot {
+    if (!Number.isInteger(data.number) || data.number < 1) {
+      throw new Error(`Número de instantánea inválido: ${data.number}`);
+    }
+    return new PublishedSnapshot(
+      data.publicationId,
+      data.number,
+      data.document,
+      data.contentVersion,
+      data.submittedBy,
+      data.approvedBy,
+      data.publishedAt
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    publicationId: string,
+    number: number,
+    document: PublishedDocument,
+    contentVersion: number,
+    submittedBy: string | null,
+    approvedBy: string | null,
+    publishedAt: Date
+  ): PublishedSnapshot {
+    return new PublishedSnapshot(
+      publicationId,
+      number,
+      document,
+      contentVersion,
+      submittedBy,
+      approvedBy,
+      publishedAt
+    );
+  }
+
+  get kind(): PublishableKind {
+    return this.document.kind;
+  }
+}
@@ -0,0 +1,122 @@
+// src/core/domain/entities/RefreshToken.ts
+
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Entidad de dominio para un refresh token persistido.
+ *
+ * Solo se guarda el hash del token, nunca su valor en claro. Todos los tokens
+ * obtenidos por rotación a partir de un mismo login comparten `familyId`, lo
+ * que permite revocar la familia completa si se detecta la reutilización de
+ * un token ya rotado.
+ */
+export class RefreshToken {
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly familyId: string,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly revokedAt: Date | null,
+    public readonly replacedByTokenId: string | null
+  ) {
+    this.validateConstructorParams();
+  }
+
+  // FACTORY METHOD - Para emitir un token nuevo
+  static issue(
+    userId: string,
+    tokenHash: string,
+    ttlSeconds: number,
+    familyId?: string, // Opcional - si no se indica, inicia una familia nueva
+    now: Date = new Date()
+  ): RefreshToken {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      throw new Error('La duración del refresh token debe ser positiva');
+    }
+
+    return new RefreshToken(
+      uuidv4(),
+      userId,
+      familyId || uuidv4(),
+      tokenHash,
+      new Date(now.getTime() + ttlSeconds * 1000),
+      now,
+      null,
+      null
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    userId: string,
+    familyId: string,
+    tokenHash: string,
+    expiresAt: Date,
+    createdAt: Date,
+    revokedAt: Date | null,
+    replacedByTokenId: string | null
+  ): RefreshToken {
+    return new RefreshToken(
+      id,
+      userId,
+      familyId,
+      tokenHash,
+      expiresAt,
+      createdAt,
+      revokedAt,
+      replacedByTokenId
+    );
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  isRevoked(): boolean {
+    return this.revokedAt !== null;
+  }
+
+  // Un token rotado ya fue canjeado por otro: volver a usarlo es una reutilización
+  hasBeenRotated(): boolean {
+    return this.replacedByTokenId !== null;
+  }
+
+  isActive(now: Date = new Date()): boolean {
+    return !this.isRevoked() && !this.isExpired(now);
+  }
+
+  private validateConstructorParams(): void {
+    if (!this.id || this.id.trim().length === 0) {
+      throw new Error('ID de refresh token inválido');
+    }
+
+    if (!this.userId || this.userId.trim().length === 0) {
+      throw new Error('El refresh token debe pertenecer a un usuario');
+    }
+
+    if (!this.familyId || this.familyId.trim().length === 0) {
+      throw new Error('El refresh token debe pertenecer a una familia');
+    }
+
+    if (!this.tokenHash || this.tokenHash.trim().length === 0) {
+      throw new Error('El refresh token debe tener un hash válido');
+    }
+
+    if (
+      !(this.expiresAt instanceof Date) ||
+      !(this.createdAt instanceof Date)
+    ) {
+      throw new Error('Fechas de refresh token inválidas');
+    }
+
+    if (this.expiresAt < this.createdAt) {
+      throw new Error(
+        'La fecha de expiración no puede ser anterior a la fecha de creación'
+      );
+    }
+  }
+}
@@ -0,0 +1,95 @@
+// src/core/domain/entities/Section.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import { placeAmongSiblings } from '@/core/domain/services/ContentHierarchy';
+import { ContentNode, NewContentNode } from './ContentNode';
+import { Level } from './Level';
+
+/**
+ * Sección de un nivel. Agrupa módulos.
+ */
+export class Section extends ContentNode<Section> {
+  readonly kind = 'section' as const;
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    id: string,
+    levelId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ) {
+    super(id, levelId, title, position, createdAt, updatedAt, version);
+  }
+
+  // FACTORY METHOD - Para crear una sección dentro de un nivel
+  // `siblings` son las secciones que ya tiene
+  static create(
+    level: Level,
+    data: NewContentNode,
+    siblings: readonly Section[],
+    now: Date = new Date()
+  ): Section {
+    const position = placeAmongSiblings(
+      'section',
+      level.id,
+      siblings,
+      data.position
+    );
+    return new Section(
+      data.id || uuidv4(),
+      level.id,
+      data.title,
+      position,
+      now,
+      now,
+      1
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    levelId: string,
+    title: ContentTitle,
+    position: Position,
+    createdAt: Date,
+    updatedAt: Date,
+    version: number
+  ): Section {
+    return new Section(
+      id,
+      levelId,
+      title,
+      position,
+      createdAt,
+      updatedAt,
+      version
+    );
+  }
+
+  get levelId(): string {
+    return this.parentId;
+  }
+
+  protected copy(
+    title: ContentTitle,
+    position: Position,
+    updatedAt: Date,
+    version: number
+  ): Section {
+    return new Section(
+      this.id,
+      this.parentId,
+      title,
+      position,
+      this.createdAt,
+      updatedAt,
+      version
+    );
+  }
+}
@@ -6,10 +6,20 @@ import { Role } from '@/core/domain/value-objects/Role';
 import { HashedPassword } from '@/core/domain/value-objects/Password';
 import { Username } from '@/core/domain/value-objects/Username';
 import { CountryCode } from '@/core/domain/value-objects/CountryCode';
-import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+import {
+  UserStatus,
+  UserStatusDetails,
+  UserStatusValue,
+} from '@/core/domain/value-objects/UserStatus';
+import {
+  InvalidStatusChangeError,
+  InvalidStatusTransitionError,
+} from '@/core/domain/errors/UserStatusErrors';
+import { createUserRegistered } from '@/core/domain/events/UserRegistered';
 import { v4 as uuidv4 } from 'uuid';
+import { AggregateRoot } from './AggregateRoot';
 
-export class User {
+export class User extends AggregateRoot {
   // Constructor privado para forzar uso de factory methods
   private constructor(
     public readonly id: string,
@@ -23,10 +33,11 @@ export class User {
     public readonly createdAt: Date,
     public readonly updatedAt: Date
   ) {
+    super();
     this.validateConstructorParams();
   }
 
-  // FACTORY METHOD - Para crear nuevos usuarios
+  // FACTORY METHOD - Para crear nuevos usuarios (registra UserRegistered)
   static create(
     email: Email,
     username: Username,
@@ -37,7 +48,7 @@ export class User {
     id?: string // Opcional para casos especiales (testing, migración)
   ): User {
     const now = new Date();
-    return new User(
+    const user = new User(
       id || User.generateUUID(),
       email,
       username,
@@ -49,6 +60,18 @@ export class User {
       now,
       now
     );
+    user.recordEvent(
+      createUserRegistered(
+        user.id,
+        {
+          email: email.value,
+          username: username.value,
+          role: role.value,
+        },
+        now
+      )
+    );
+    return user;
   }
 
   // FACTORY METHOD - Para reconstruir desde BD
@@ -188,6 +211,132 @@ export class User {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
 
+  // Registra un inicio de sesión exitoso. La entidad es inmutable,
+  // por lo que devuelve una nueva instancia con lastLogin actualizado
+  recordLogin(at: Date = new Date()): User {
+    return new User(
+      this.id,
+      this.email,
+      this.username,
+      this.passwordHash,
+      this.role,
+      this.status,
+      this.countryCode,
+      at,
+      this.createdAt,
+      at
+    );
+  }
+
+  // TRANSICIONES DE ESTADO
+  // Todas devuelven una nueva instancia y lanzan InvalidStatusTransitionError
+  // si la máquina de estados de UserStatus no permite el cambio.
+  // `actorId` es el id del usuario que ejecuta la acción (null = sistema)
+
+  // Confirma el email de un usuario pendiente y lo pasa a estado activo
+  confirmEmail(at: Date = new Date()): User {
+    if (!this.requiresEmailConfirmation()) {
+      throw new InvalidStatusTransitionError(this.getStatusValue(), 'active');
+    }
+
+    return this.withStatus('active', { changedBy: this.id, changedAt: at });
+  }
+
+  // Suspende al usuario hasta `until`. También sirve para ampliar o acortar
+  // una suspensión en curso
+  suspend(
+    until: Date,
+    reason: string,
+    actorId: string | null,
+    at: Date = new Date()
+  ): User {
+    if (
+      !(until instanceof Date) ||
+      isNaN(until.getTime()) ||
+      until.getTime() <= at.getTime()
+    ) {
+      throw new InvalidStatusChangeError(
+        'La fecha de fin de suspensión debe ser posterior al momento actual'
+      );
+    }
+
+    return this.withStatus('suspended', {
+      reason: User.requireReason(reason),
+      changedBy: actorId,
+      changedAt: at,
+      suspendedUntil: until,
+    });
+  }
+
+  // Banea al usuario de forma permanente
+  ban(reason: string, actorId: string | null, at: Date = new Date()): User {
+    return this.withStatus('banned', {
+      reason: User.requireReason(reason),
+      changedBy: actorId,
+      changedAt: at,
+    });
+  }
+
+  // Levanta manualmente una suspensión
+  reactivate(
+    actorId: string | null,
+    reason: string | null = null,
+    at: Date = new Date()
+  ): User {
+    if (!this.isSuspended()) {
+      throw new InvalidStatusTransitionError(this.getStatusValue(), 'active');
+    }
+
+    return this.withStatus('active', {
+      reason: reason?.trim() || null,
+      changedBy: actorId,
+      changedAt: at,
+    });
+  }
+
+  // Levanta una suspensión cuya fecha de fin ya pasó (lo ejecuta el sistema)
+  liftExpiredSuspension(at: Date = new Date()): User {
+    if (!this.status.isSuspensionExpired(at)) {
+      throw new InvalidStatusChangeError(
+        'La suspensión del usuario no ha expirado'
+      );
+    }
+
+    return this.withStatus('active', {
+      reason: 'Fin de la suspensión',
+      changedBy: null,
+      changedAt: at,
+    });
+  }
+
+  private withStatus(
+    target: UserStatusValue,
+    details: UserStatusDetails
+  ): User {
+    return new User(
+      this.id,
+      this.email,
+      this.username,
+      this.passwordHash,
+      this.role,
+      this.status.transitionTo(target, details),
+      this.countryCode,
+      this.lastLogin,
+      this.createdAt,
+      details.changedAt ?? new Date()
+    );
+  }
+
+  private static requireReason(reason: string): string {
+    const trimmed = typeof reason === 'string' ? reason.trim() : '';
+    if (trimmed.length === 0) {
+      throw new InvalidStatusChangeError(
+        'Hay que indicar el motivo del cambio de estado'
+      );
+    }
+    return trimmed;
+  }
+
   // Factory methods para cambios de estado
   static createActiveUser(
     email: Email,
@@ -0,0 +1,110 @@
+// src/core/domain/entities/UserStatusChange.ts
+
+import { v4 as uuidv4 } from 'uuid';
+
+export type UserStatusChangeKind = 'status' | 'role' | 'deletion';
+
+/**
+ * Entidad de dominio para una entrada del historial de moderación de un usuario.
+ *
+ * Cada entrada registra un cambio de estado (suspensión, baneo, reactivación,
+ * confirmación de email), de rol o la eliminación del usuario: valor anterior
+ * y nuevo, quién lo hizo (null si fue el sistema), cuándo y por qué. Las
+ * entradas no se modifican y se conservan aunque se elimine el usuario.
+ */
+export class UserStatusChange {
+  private static readonly VALID_KINDS: UserStatusChangeKind[] = [
+    'status',
+    'role',
+    'deletion',
+  ];
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly kind: UserStatusChangeKind,
+    public readonly fromValue: string,
+    public readonly toValue: string,
+    public readonly reason: string | null,
+    public readonly changedBy: string | null,
+    public readonly suspendedUntil: Date | null,
+    public readonly createdAt: Date
+  ) {
+    this.validateConstructorParams();
+  }
+
+  // FACTORY METHOD - Para registrar un cambio nuevo
+  static record(data: {
+    userId: string;
+    kind: UserStatusChangeKind;
+    fromValue: string;
+    toValue: string;
+    reason?: string | null;
+    changedBy?: string | null;
+    suspendedUntil?: Date | null;
+    at?: Date;
+  }): UserStatusChange {
+    return new UserStatusChange(
+      uuidv4(),
+      data.userId,
+      data.kind,
+      data.fromValue,
+      data.toValue,
+      data.reason ?? null,
+      data.changedBy ?? null,
+      data.suspendedUntil ?? null,
+      data.at ?? new Date()
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    userId: string,
+    kind: UserStatusChangeKind,
+    fromValue: string,
+    toValue: string,
+    reason: string | null,
+    changedBy: string | null,
+    suspendedUntil: Date | null,
+    createdAt: Date
+  ): UserStatusChange {
+    return new UserStatusChange(
+      id,
+      userId,
+      kind,
+      fromValue,
+      toValue,
+      reason,
+      changedBy,
+      suspendedUntil,
+      createdAt
+    );
+  }
+
+  // Cambio hecho por el sistema (p. ej. fin automático de una suspensión)
+  isSystemChange(): boolean {
+    return this.changedBy === null;
+  }
+
+  private validateConstructorParams(): void {
+    if (!this.id || !this.userId) {
+      throw new Error('La entrada del historial debe tener id y usuario');
+    }
+
+    if (!UserStatusChange.VALID_KINDS.includes(this.kind)) {
+      throw new Error(`Tipo de cambio inválido: ${this.kind}`);
+    }
+
+    if (!this.fromValue || !this.toValue) {
+      throw new Error(
+        'La entrada del historial debe tener valor anterior y nuevo'
+      );
+    }
+
+    if (!(this.createdAt instanceof Date) || isNaN(this.createdAt.getTime())) {
+      throw new Error('Fecha de la entrada del historial inválida');
+    }
+  }
+}
@@ -0,0 +1,130 @@
+// src/core/domain/entities/VerificationToken.ts
+
+import { v4 as uuidv4 } from 'uuid';
+
+export type VerificationTokenPurpose = 'email_confirmation' | 'password_reset';
+
+/**
+ * Entidad de dominio para un token de verificación de un solo uso
+ * (enlaces de confirmación de email y de restablecimiento de contraseña).
+ *
+ * Igual que con los refresh tokens, solo se guarda el hash del token. Un token
+ * deja de ser válido al expirar o al consumirse; `consumedAt` también se fija
+ * cuando un token se invalida porque se emitió otro más reciente.
+ */
+export class VerificationToken {
+  private static readonly VALID_PURPOSES: VerificationTokenPurpose[] = [
+    'email_confirmation',
+    'password_reset',
+  ];
+
+  // Constructor privado para forzar uso de factory methods
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly purpose: VerificationTokenPurpose,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly consumedAt: Date | null
+  ) {
+    this.validateConstructorParams();
+  }
+
+  // FACTORY METHOD - Para emitir un token nuevo
+  static issue(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    tokenHash: string,
+    ttlSeconds: number,
+    now: Date = new Date()
+  ): VerificationToken {
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+      throw new Error(
+        'La duración del token de verificación debe ser positiva'
+      );
+    }
+
+    return new VerificationToken(
+      uuidv4(),
+      userId,
+      purpose,
+      tokenHash,
+      new Date(now.getTime() + ttlSeconds * 1000),
+      now,
+      null
+    );
+  }
+
+  // FACTORY METHOD - Para reconstruir desde BD
+  static fromPersistence(
+    id: string,
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    tokenHash: string,
+    expiresAt: Date,
+    createdAt: Date,
+    consumedAt: Date | null
+  ): VerificationToken {
+    return new VerificationToken(
+      id,
+      userId,
+      purpose,
+      tokenHash,
+      expiresAt,
+      createdAt,
+      consumedAt
+    );
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  isConsumed(): boolean {
+    return this.consumedAt !== null;
+  }
+
+  // Un token es utilizable si no se consumió, no expiró y sirve para el propósito pedido
+  isUsableFor(
+    purpose: VerificationTokenPurpose,
+    now: Date = new Date()
+  ): boolean {
+    return (
+      this.purpose === purpose && !this.isConsumed() && !this.isExpired(now)
+    );
+  }
+
+  private validateConstructorParams(): void {
+    if (!this.id || this.id.trim().length === 0) {
+      throw new Error('ID de token de verificación inválido');
+    }
+
+    if (!this.userId || this.userId.trim().length === 0) {
+      throw new Error('El token de verificación debe pertenecer a un usuario');
+    }
+
+    if (!VerificationToken.VALID_PURPOSES.includes(this.purpose)) {
+      throw new Error(
+        `Propósito de token de verificación inválido: ${this.purpose}`
+      );
+    }
+
+    if (!this.tokenHash || this.tokenHash.trim().length === 0) {
+      throw new Error('El token de verificación debe tener un hash válido');
+    }
+
+    if (
+      !(this.expiresAt instanceof Date) ||
+      !(this.createdAt instanceof Date)
+    ) {
+      throw new Error('Fechas de token de verificación inválidas');
+    }
+
+    if (this.expiresAt < this.createdAt) {
+      throw new Error(
+        'La fecha de expiración no puede ser anterior a la fecha de creación'
+      );
+    }
+  }
+}
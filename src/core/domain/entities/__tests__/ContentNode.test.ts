@@ -0,0 +1,129 @@
+// src/core/domain/entities/__tests__/ContentNode.test.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { Position } from '@/core/domain/value-objects/Position';
+import { PositionTakenError } from '@/core/domain/errors/ContentHierarchyErrors';
+
+describe('Entidades de la jerarquía de contenido', () => {
+  const now = new Date('2025-10-09T10:00:00.000Z');
+  const later = new Date('2025-10-09T11:00:00.000Z');
+  const title = (value: string) => new ContentTitle(value);
+
+  const course = Course.create({
+    title: title('Inglés'),
+    languagePair: LanguagePair.of('es', 'en'),
+  });
+
+  describe('create', () => {
+    it('debería crear cada nivel dentro de su contenedor', () => {
+      const level = Level.create(course, { title: title('A1') }, [], now);
+      const section = Section.create(level, { title: title('Saludos') }, []);
+      const module = Module.create(section, { title: title('Hola') }, []);
+      const lesson = Lesson.create(module, { title: title('Buenos días') }, []);
+
+      expect(level.kind).toBe('level');
+      expect(level.courseId).toBe(course.id);
+      expect(level.parentId).toBe(course.id);
+      expect(level.createdAt).toBe(now);
+      expect(section.levelId).toBe(level.id);
+      expect(module.sectionId).toBe(section.id);
+      expect(lesson.kind).toBe('lesson');
+      expect(lesson.moduleId).toBe(module.id);
+    });
+
+    it('debería colocar el elemento detrás del último hermano si no se indica posición', () => {
+      const first = Level.create(course, { title: title('A1') }, []);
+      const distant = Level.create(
+        course,
+        { title: title('B1'), position: new Position(5) },
+        [first]
+      );
+
+      const next = Level.create(course, { title: title('B2') }, [
+        distant,
+        first,
+      ]);
+
+      expect(first.position.value).toBe(1);
+      expect(next.position.value).toBe(6);
+    });
+
+    it('debería rechazar una posición ocupada por un hermano', () => {
+      const first = Level.create(course, { title: title('A1') }, []);
+
+      expect(() =>
+        Level.create(
+          course,
+          { title: title('A2'), position: new Position(1) },
+          [first]
+        )
+      ).toThrow(PositionTakenError);
+    });
+
+    it('debería rechazar elementos sin contenedor al reconstruirlos', () => {
+      expect(() =>
+        Level.fromPersistence(
+          'id',
+          '',
+          title('A1'),
+          Position.first(),
+          now,
+          now,
+          1
+        )
+      ).toThrow('El contenido debe pertenecer a un contenedor');
+    });
+  });
+
+  describe('rename', () => {
+    it('debería devolver un elemento nuevo con el título cambiado', () => {
+      const level = Level.create(course, { title: title('A1') }, [], now);
+
+      const renamed = level.rename(title('Principiante'), later);
+
+      expect(renamed).toBeInstanceOf(Level);
+      expect(renamed.id).toBe(level.id);
+      expect(renamed.title.value).toBe('Principiante');
+      expect(renamed.position).toBe(level.position);
+      expect(renamed.updatedAt).toBe(later);
+      expect(level.title.value).toBe('A1');
+    });
+  });
+
+  describe('moveTo', () => {
+    it('debería mover el elemento a una posición libre', () => {
+      const first = Level.create(course, { title: title('A1') }, []);
+      const second = Level.create(course, { title: title('A2') }, [first]);
+
+      const moved = second.moveTo(new Position(4), [first, second], later);
+
+      expect(moved.position.value).toBe(4);
+      expect(moved.courseId).toBe(course.id);
+      expect(moved.updatedAt).toBe(later);
+    });
+
+    it('debería permitir quedarse en su propia posición', () => {
+      const level = Level.create(course, { title: title('A1') }, []);
+
+      expect(level.moveTo(level.position, [level]).position.value).toBe(1);
+    });
+
+    it('debería rechazar la posición de un hermano', () => {
+      const first = Level.create(course, { title: title('A1') }, []);
+      const second = Level.create(course, { title: title('A2') }, [first]);
+
+      expect(() => second.moveTo(first.position, [first, second])).toThrow(
+        expect.objectContaining({
+          code: 'CONTENT_POSITION_TAKEN',
+          params: { kind: 'level', position: 1 },
+        })
+      );
+    });
+  });
+});
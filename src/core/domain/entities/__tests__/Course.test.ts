@@ -0,0 +1,95 @@
+// src/core/domain/entities/__tests__/Course.test.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { Slug } from '@/core/domain/value-objects/Slug';
+
+describe('Course Entity', () => {
+  const now = new Date('2025-10-09T10:00:00.000Z');
+  const later = new Date('2025-10-09T11:00:00.000Z');
+
+  const createCourse = (description?: string | null) =>
+    Course.create(
+      {
+        title: new ContentTitle('Inglés para hispanohablantes'),
+        languagePair: LanguagePair.of('es', 'en'),
+        description,
+      },
+      now
+    );
+
+  describe('create', () => {
+    it('debería crear un curso con id y slug generados a partir del título', () => {
+      const course = createCourse('Aprende inglés desde cero');
+
+      expect(course.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(course.slug.value).toBe('ingles-para-hispanohablantes');
+      expect(course.title.value).toBe('Inglés para hispanohablantes');
+      expect(course.description).toBe('Aprende inglés desde cero');
+      expect(course.languagePair.toString()).toBe('es→en');
+      expect(course.createdAt).toBe(now);
+      expect(course.updatedAt).toBe(now);
+    });
+
+    it('debería respetar el slug indicado', () => {
+      const course = Course.create({
+        title: new ContentTitle('Inglés'),
+        slug: new Slug('ingles-basico'),
+        languagePair: LanguagePair.of('es', 'en'),
+      });
+
+      expect(course.slug.value).toBe('ingles-basico');
+    });
+
+    it('debería guardar una descripción vacía como null', () => {
+      expect(createCourse('   ').description).toBeNull();
+      expect(createCourse().description).toBeNull();
+    });
+
+    it('debería rechazar descripciones de más de 2000 caracteres', () => {
+      expect(() => createCourse('a'.repeat(2001))).toThrow(
+        expect.objectContaining({
+          code: 'CONTENT_DESCRIPTION_TOO_LONG',
+          params: { max: 2000 },
+        })
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('debería devolver un curso nuevo con los cambios y updatedAt actualizado', () => {
+      const course = createCourse('Descripción');
+
+      const updated = course.update(
+        { title: new ContentTitle('Inglés avanzado'), description: null },
+        later
+      );
+
+      expect(updated).not.toBe(course);
+      expect(updated.id).toBe(course.id);
+      expect(updated.title.value).toBe('Inglés avanzado');
+      expect(updated.description).toBeNull();
+      expect(updated.createdAt).toBe(now);
+      expect(updated.updatedAt).toBe(later);
+      expect(course.title.value).toBe('Inglés para hispanohablantes');
+    });
+
+    it('no debería cambiar el slug al cambiar el título', () => {
+      const updated = createCourse().update({
+        title: new ContentTitle('Otro título'),
+      });
+
+      expect(updated.slug.value).toBe('ingles-para-hispanohablantes');
+    });
+
+    it('debería conservar la descripción si no se indica', () => {
+      const updated = createCourse('Descripción').update({
+        slug: new Slug('nuevo-slug'),
+      });
+
+      expect(updated.description).toBe('Descripción');
+      expect(updated.slug.value).toBe('nuevo-slug');
+    });
+  });
+});
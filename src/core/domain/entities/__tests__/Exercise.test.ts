@@ -0,0 +1,119 @@
+// src/core/domain/entities/__tests__/Exercise.test.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { Position } from '@/core/domain/value-objects/Position';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { PositionTakenError } from '@/core/domain/errors/ContentHierarchyErrors';
+import { ExerciseAlreadyInLessonError } from '@/core/domain/errors/ExerciseErrors';
+
+describe('Ejercicios', () => {
+  const now = new Date('2025-10-10T10:00:00.000Z');
+  const later = new Date('2025-10-10T11:00:00.000Z');
+  const title = (value: string) => new ContentTitle(value);
+
+  const course = Course.create({
+    title: title('Inglés'),
+    languagePair: LanguagePair.of('es', 'en'),
+  });
+  const level = Level.create(course, { title: title('A1') }, []);
+  const section = Section.create(level, { title: title('Saludos') }, []);
+  const module = Module.create(section, { title: title('Hola') }, []);
+  const lesson = Lesson.create(module, { title: title('Buenos días') }, []);
+
+  const translate = (sourceText: string) =>
+    ExercisePayload.create({
+      type: 'translate',
+      sourceText,
+      acceptedTranslations: ['Hello'],
+    });
+
+  describe('Exercise', () => {
+    it('debería tomar el tipo de su payload', () => {
+      const exercise = Exercise.create(translate('Hola'), undefined, now);
+
+      expect(exercise.id).toBeDefined();
+      expect(exercise.type).toBe('translate');
+      expect(exercise.createdAt).toBe(now);
+      expect(exercise.updatedAt).toBe(now);
+    });
+
+    it('debería devolver una copia con el nuevo payload sin modificar el original', () => {
+      const exercise = Exercise.create(translate('Hola'), undefined, now);
+      const payload = ExercisePayload.create({
+        type: 'dictation',
+        audioUrl: 'https://cdn.example.com/audio/hola.mp3',
+        acceptedAnswers: ['Hello'],
+      });
+
+      const changed = exercise.withPayload(payload, later);
+
+      expect(changed.id).toBe(exercise.id);
+      expect(changed.type).toBe('dictation');
+      expect(changed.createdAt).toBe(now);
+      expect(changed.updatedAt).toBe(later);
+      expect(exercise.type).toBe('translate');
+    });
+  });
+
+  describe('LessonExercise', () => {
+    it('debería colocar el ejercicio detrás del último de la lección', () => {
+      const first = LessonExercise.create(
+        lesson,
+        Exercise.create(translate('Hola')),
+        [],
+        undefined,
+        now
+      );
+      const second = LessonExercise.create(
+        lesson,
+        Exercise.create(translate('Adiós')),
+        [first]
+      );
+
+      expect(first.lessonId).toBe(lesson.id);
+      expect(first.parentId).toBe(lesson.id);
+      expect(first.position.value).toBe(1);
+      expect(first.createdAt).toBe(now);
+      expect(second.position.value).toBe(2);
+    });
+
+    it('debería rechazar un ejercicio que ya está en la lección', () => {
+      const exercise = Exercise.create(translate('Hola'));
+      const link = LessonExercise.create(lesson, exercise, []);
+
+      expect(() => LessonExercise.create(lesson, exercise, [link])).toThrow(
+        ExerciseAlreadyInLessonError
+      );
+    });
+
+    it('debería rechazar una posición ocupada por otro ejercicio', () => {
+      const link = LessonExercise.create(
+        lesson,
+        Exercise.create(translate('Hola')),
+        []
+      );
+
+      expect(() =>
+        LessonExercise.create(
+          lesson,
+          Exercise.create(translate('Adiós')),
+          [link],
+          new Position(1)
+        )
+      ).toThrow(
+        expect.objectContaining({
+          constructor: PositionTakenError,
+          params: { kind: 'exercise', position: 1 },
+        })
+      );
+    });
+  });
+});
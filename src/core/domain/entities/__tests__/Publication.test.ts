@@ -0,0 +1,255 @@
+// src/core/domain/entities/__tests__/Publication.test.ts
+
+import { Publication } from '@/core/domain/entities/Publication';
+import { PublishedLessonDocument } from '@/core/domain/entities/PublishedSnapshot';
+import { ReviewComment } from '@/core/domain/value-objects/ReviewComment';
+import {
+  InvalidPublicationTransitionError,
+  PublishedSnapshotNotFoundError,
+} from '@/core/domain/errors/PublicationErrors';
+
+describe('Publication Entity', () => {
+  const now = new Date('2025-10-12T10:00:00.000Z');
+  const later = new Date('2025-10-12T11:00:00.000Z');
+  const lessonId = 'lesson-1';
+
+  const document = (title: string): PublishedLessonDocument => ({
+    kind: 'lesson',
+    id: lessonId,
+    courseId: 'course-1',
+    title,
+    exercises: [],
+  });
+
+  // Publicación con `titles.length` versiones aprobadas, una por título
+  const publishedWith = (...titles: string[]): Publication =>
+    titles.reduce(
+      (publication, title) =>
+        publication
+          .submit(document(title), 1, 'author', now)
+          .publication.approve('admin', null, now).publication,
+      Publication.start('lesson', lessonId, now)
+    );
+
+  it('debería empezar en borrador, sin guardar y sin nada publicado', () => {
+    const publication = Publication.start('lesson', lessonId, now);
+
+    expect(publication.status).toBe('draft');
+    expect(publication.version).toBe(0);
+    expect(publication.isStored()).toBe(false);
+    expect(publication.isLive()).toBe(false);
+    expect(publication.latestNumber).toBe(0);
+  });
+
+  describe('submit', () => {
+    it('debería guardar una copia del contenido y pasar a revisión', () => {
+      const { publication, entry } = Publication.start(
+        'lesson',
+        lessonId,
+        now
+      ).submit(document('Saludos'), 3, 'author', later);
+
+      expect(publication.status).toBe('in_review');
+      expect(publication.pending).toEqual({
+        document: document('Saludos'),
+        contentVersion: 3,
+        submittedBy: 'author',
+        submittedAt: later,
+      });
+      expect(publication.updatedAt).toBe(later);
+      expect(entry).toEqual(
+        expect.objectContaining({
+          publicationId: publication.id,
+          action: 'submitted',
+          fromStatus: 'draft',
+          toStatus: 'in_review',
+          snapshotNumber: null,
+          actorId: 'author',
+          createdAt: later,
+        })
+      );
+    });
+
+    it('no debería enviar otra versión mientras hay una en revisión', () => {
+      const { publication } = Publication.start('lesson', lessonId).submit(
+        document('Saludos'),
+        1,
+        'author'
+      );
+
+      expect(() => publication.submit(document('Otra'), 2, 'author')).toThrow(
+        InvalidPublicationTransitionError
+      );
+    });
+
+    it('debería rechazar el documento de otro contenido', () => {
+      expect(() =>
+        Publication.start('course', lessonId).submit(
+          document('Saludos'),
+          1,
+          'author'
+        )
+      ).toThrow();
+    });
+  });
+
+  describe('approve', () => {
+    it('debería publicar lo que se envió como una instantánea nueva', () => {
+      const submitted = Publication.start('lesson', lessonId, now).submit(
+        document('Saludos'),
+        3,
+        'author',
+        now
+      ).publication;
+
+      const { publication, snapshot, entry } = submitted.approve(
+        'admin',
+        new ReviewComment('Todo correcto'),
+        later
+      );
+
+      expect(publication.status).toBe('published');
+      expect(publication.pending).toBeNull();
+      expect(publication.publishedNumber).toBe(1);
+      expect(publication.isLive()).toBe(true);
+      expect(snapshot).toEqual(
+        expect.objectContaining({
+          publicationId: publication.id,
+          number: 1,
+          document: document('Saludos'),
+          contentVersion: 3,
+          submittedBy: 'author',
+          approvedBy: 'admin',
+          publishedAt: later,
+        })
+      );
+      expect(entry).toEqual(
+        expect.objectContaining({
+          action: 'approved',
+          snapshotNumber: 1,
+          comment: 'Todo correcto',
+        })
+      );
+    });
+
+    it('debería numerar las instantáneas en orden', () => {
+      const publication = publishedWith('v1', 'v2', 'v3');
+
+      expect(publication.publishedNumber).toBe(3);
+      expect(publication.latestNumber).toBe(3);
+    });
+
+    it('solo debería aprobar publicaciones en revisión', () => {
+      expect(() =>
+        Publication.start('lesson', lessonId).approve('admin', null)
+      ).toThrow(
+        expect.objectContaining({
+          code: 'PUBLICATION_TRANSITION_INVALID',
+          params: { action: 'approved', status: 'draft' },
+        })
+      );
+    });
+  });
+
+  describe('reject', () => {
+    it('debería volver a borrador sin retirar lo publicado', () => {
+      const submitted = publishedWith('v1').submit(
+        document('v2'),
+        2,
+        'author'
+      ).publication;
+
+      const { publication, entry } = submitted.reject(
+        'admin',
+        new ReviewComment('Faltan ejercicios'),
+        later
+      );
+
+      expect(publication.status).toBe('draft');
+      expect(publication.pending).toBeNull();
+      expect(publication.publishedNumber).toBe(1);
+      expect(publication.isLive()).toBe(true);
+      expect(entry.comment).toBe('Faltan ejercicios');
+      expect(entry.fromStatus).toBe('in_review');
+    });
+  });
+
+  describe('rollBackTo', () => {
+    it('debería volver a publicar una instantánea anterior sin crear otra', () => {
+      const { publication, entry } = publishedWith('v1', 'v2').rollBackTo(
+        1,
+        'owner',
+        null,
+        later
+      );
+
+      expect(publication.status).toBe('published');
+      expect(publication.publishedNumber).toBe(1);
+      expect(publication.latestNumber).toBe(2);
+      expect(entry).toEqual(
+        expect.objectContaining({ action: 'rolled_back', snapshotNumber: 1 })
+      );
+    });
+
+    it('debería rechazar una instantánea que no existe', () => {
+      const publication = publishedWith('v1');
+
+      [0, 2, 1.5].forEach((number) => {
+        expect(() => publication.rollBackTo(number, 'owner', null)).toThrow(
+          PublishedSnapshotNotFoundError
+        );
+      });
+    });
+
+    it('no debería volver atrás con una versión en revisión', () => {
+      const submitted = publishedWith('v1', 'v2').submit(
+        document('v3'),
+        3,
+        'author'
+      ).publication;
+
+      expect(() => submitted.rollBackTo(1, 'owner', null)).toThrow(
+        InvalidPublicationTransitionError
+      );
+    });
+  });
+
+  describe('archive', () => {
+    it('debería retirar el contenido y volver con una nueva revisión', () => {
+      const archived = publishedWith('v1').archive('owner', later).publication;
+
+      expect(archived.status).toBe('archived');
+      expect(archived.isLive()).toBe(false);
+      expect(() => archived.rollBackTo(1, 'owner', null)).toThrow(
+        InvalidPublicationTransitionError
+      );
+
+      const republished = archived
+        .submit(document('v2'), 2, 'author')
+        .publication.approve('admin', null).publication;
+      expect(republished.isLive()).toBe(true);
+      expect(republished.publishedNumber).toBe(2);
+    });
+
+    it('no debería volver a verse al enviarlo a revisar ni al rechazarlo', () => {
+      const archived = publishedWith('v1').archive('owner').publication;
+
+      const submitted = archived.submit(
+        document('v2'),
+        2,
+        'author'
+      ).publication;
+      expect(submitted.status).toBe('in_review');
+      expect(submitted.isLive()).toBe(false);
+
+      const rejected = submitted.reject(
+        'admin',
+        new ReviewComment('Todavía no')
+      ).publication;
+      expect(rejected.status).toBe('draft');
+      expect(rejected.isLive()).toBe(false);
+      expect(rejected.publishedNumber).toBeNull();
+      expect(rejected.latestNumber).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// src/core/domain/entities/__tests__/RefreshToken.test.ts
+
+import { RefreshToken } from '@/core/domain/entities/RefreshToken';
+
+describe('RefreshToken Entity', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+
+  describe('issue', () => {
+    it('debería emitir un token vigente que inicia una familia nueva', () => {
+      const token = RefreshToken.issue(
+        'user-1',
+        'hash-1',
+        3600,
+        undefined,
+        now
+      );
+
+      expect(token.id).toEqual(expect.any(String));
+      expect(token.familyId).toEqual(expect.any(String));
+      expect(token.familyId).not.toBe(token.id);
+      expect(token.expiresAt).toEqual(new Date('2025-01-01T01:00:00Z'));
+      expect(token.isActive(now)).toBe(true);
+      expect(token.isRevoked()).toBe(false);
+      expect(token.hasBeenRotated()).toBe(false);
+    });
+
+    it('debería conservar la familia indicada', () => {
+      const token = RefreshToken.issue('user-1', 'hash-1', 3600, 'family-1');
+
+      expect(token.familyId).toBe('family-1');
+    });
+
+    it('debería rechazar una duración no positiva', () => {
+      expect(() => RefreshToken.issue('user-1', 'hash-1', 0)).toThrow(
+        'La duración del refresh token debe ser positiva'
+      );
+    });
+
+    it('debería exigir usuario y hash', () => {
+      expect(() => RefreshToken.issue('', 'hash-1', 60)).toThrow(
+        'El refresh token debe pertenecer a un usuario'
+      );
+      expect(() => RefreshToken.issue('user-1', '', 60)).toThrow(
+        'El refresh token debe tener un hash válido'
+      );
+    });
+  });
+
+  describe('estado', () => {
+    it('debería considerarse expirado al alcanzar su fecha de expiración', () => {
+      const token = RefreshToken.issue('user-1', 'hash-1', 60, undefined, now);
+
+      expect(token.isExpired(new Date('2025-01-01T00:00:59Z'))).toBe(false);
+      expect(token.isExpired(new Date('2025-01-01T00:01:00Z'))).toBe(true);
+      expect(token.isActive(new Date('2025-01-01T00:01:00Z'))).toBe(false);
+    });
+
+    it('debería distinguir un token rotado de uno solo revocado', () => {
+      const rotated = RefreshToken.fromPersistence(
+        'id-1',
+        'user-1',
+        'family-1',
+        'hash-1',
+        new Date('2025-02-01T00:00:00Z'),
+        now,
+        now,
+        'id-2'
+      );
+      const revoked = RefreshToken.fromPersistence(
+        'id-3',
+        'user-1',
+        'family-1',
+        'hash-3',
+        new Date('2025-02-01T00:00:00Z'),
+        now,
+        now,
+        null
+      );
+
+      expect(rotated.isRevoked()).toBe(true);
+      expect(rotated.hasBeenRotated()).toBe(true);
+      expect(revoked.isRevoked()).toBe(true);
+      expect(revoked.hasBeenRotated()).toBe(false);
+      expect(revoked.isActive(now)).toBe(false);
+    });
+  });
+});
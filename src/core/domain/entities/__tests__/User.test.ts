@@ -7,6 +7,10 @@ import { Role } from '@/core/domain/value-objects/Role';
 import { Username } from '@/core/domain/value-objects/Username';
 import { CountryCode } from '@/core/domain/value-objects/CountryCode';
 import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+import {
+  InvalidStatusChangeError,
+  InvalidStatusTransitionError,
+} from '@/core/domain/errors/UserStatusErrors';
 import {
   PlainPassword,
   HashedPassword,
@@ -584,4 +588,237 @@ describe('User Entity', () => {
       expect(user.countryCode?.getPrimaryContinent()).toBe('Asia');
     });
   });
+
+  describe('recordLogin', () => {
+    const passwordHash = new HashedPassword(
+      '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+    );
+
+    it('debería devolver una nueva instancia con lastLogin actualizado', () => {
+      const user = User.createActiveUser(
+        new Email('login@example.com'),
+        new Username('login_user'),
+        passwordHash,
+        new Role('student')
+      );
+      const loginDate = new Date(user.createdAt.getTime() + 1000);
+
+      const loggedIn = user.recordLogin(loginDate);
+
+      expect(loggedIn).not.toBe(user);
+      expect(loggedIn.id).toBe(user.id);
+      expect(loggedIn.lastLogin).toBe(loginDate);
+      expect(loggedIn.updatedAt).toBe(loginDate);
+      expect(loggedIn.hasEverLoggedIn()).toBe(true);
+      // La instancia original no cambia
+      expect(user.lastLogin).toBeNull();
+    });
+  });
+
+  describe('confirmEmail', () => {
+    const passwordHash = new HashedPassword(
+      '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+    );
+
+    it('debería activar a un usuario pendiente de confirmación', () => {
+      const user = User.create(
+        new Email('pending@example.com'),
+        new Username('pending_user'),
+        passwordHash,
+        new Role('student')
+      );
+      const confirmedAt = new Date(user.createdAt.getTime() + 1000);
+
+      const confirmed = user.confirmEmail(confirmedAt);
+
+      expect(confirmed).not.toBe(user);
+      expect(confirmed.id).toBe(user.id);
+      expect(confirmed.isActive()).toBe(true);
+      expect(confirmed.canLogin()).toBe(true);
+      expect(confirmed.updatedAt).toBe(confirmedAt);
+      expect(user.isPendingConfirmation()).toBe(true);
+    });
+
+    it('debería rechazar la confirmación de un usuario que no está pendiente', () => {
+      const user = User.createSuspendedUser(
+        new Email('suspended@example.com'),
+        new Username('suspended_user'),
+        passwordHash,
+        new Role('student')
+      );
+
+      expect(() => user.confirmEmail()).toThrow(InvalidStatusTransitionError);
+      expect(() => user.confirmEmail()).toThrow(
+        'Transición de estado no permitida: suspended → active'
+      );
+    });
+  });
+
+  describe('transiciones de estado', () => {
+    const passwordHash = new HashedPassword(
+      '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+    );
+    const ADMIN_ID = '3f1c2a9e-5b7d-4e8f-9a0b-1c2d3e4f5a6b';
+    const HOUR = 60 * 60 * 1000;
+
+    let user: User;
+    let now: Date;
+
+    beforeEach(() => {
+      user = User.createActiveUser(
+        new Email('target@example.com'),
+        new Username('target_user'),
+        passwordHash,
+        new Role('student')
+      );
+      now = new Date(user.createdAt.getTime() + 1000);
+    });
+
+    describe('suspend', () => {
+      it('debería suspender con motivo, autor y fecha de fin', () => {
+        const until = new Date(now.getTime() + 24 * HOUR);
+
+        const suspended = user.suspend(
+          until,
+          '  Spam en foros ',
+          ADMIN_ID,
+          now
+        );
+
+        expect(suspended.isSuspended()).toBe(true);
+        expect(suspended.canLogin()).toBe(false);
+        expect(suspended.status.suspendedUntil).toBe(until);
+        expect(suspended.status.reason).toBe('Spam en foros');
+        expect(suspended.status.changedBy).toBe(ADMIN_ID);
+        expect(suspended.status.changedAt).toBe(now);
+        expect(suspended.updatedAt).toBe(now);
+        expect(user.isActive()).toBe(true);
+      });
+
+      it('debería permitir ampliar una suspensión en curso', () => {
+        const suspended = user.suspend(
+          new Date(now.getTime() + HOUR),
+          'Spam',
+          ADMIN_ID,
+          now
+        );
+        const later = new Date(now.getTime() + 48 * HOUR);
+
+        const extended = suspended.suspend(
+          later,
+          'Reincidencia',
+          ADMIN_ID,
+          now
+        );
+
+        expect(extended.status.suspendedUntil).toBe(later);
+        expect(extended.status.reason).toBe('Reincidencia');
+      });
+
+      it('debería exigir una fecha de fin futura', () => {
+        expect(() => user.suspend(now, 'Spam', ADMIN_ID, now)).toThrow(
+          InvalidStatusChangeError
+        );
+        expect(() =>
+          user.suspend(new Date('invalid'), 'Spam', ADMIN_ID, now)
+        ).toThrow(InvalidStatusChangeError);
+      });
+
+      it('debería exigir un motivo', () => {
+        expect(() =>
+          user.suspend(new Date(now.getTime() + HOUR), '   ', ADMIN_ID, now)
+        ).toThrow(InvalidStatusChangeError);
+      });
+
+      it('no debería suspender a usuarios pendientes ni baneados', () => {
+        const until = new Date(now.getTime() + HOUR);
+        const pending = User.create(
+          user.email,
+          user.username,
+          passwordHash,
+          user.role
+        );
+        const banned = user.ban('Fraude', ADMIN_ID, now);
+
+        expect(() => pending.suspend(until, 'Spam', ADMIN_ID, now)).toThrow(
+          InvalidStatusTransitionError
+        );
+        expect(() => banned.suspend(until, 'Spam', ADMIN_ID, now)).toThrow(
+          InvalidStatusTransitionError
+        );
+      });
+    });
+
+    describe('ban', () => {
+      it('debería banear de forma permanente', () => {
+        const banned = user.ban('Fraude', ADMIN_ID, now);
+
+        expect(banned.isBanned()).toBe(true);
+        expect(banned.isPermanentlyBlocked()).toBe(true);
+        expect(banned.status.reason).toBe('Fraude');
+        expect(banned.status.suspendedUntil).toBeNull();
+      });
+
+      it('no debería permitir salir del estado baneado', () => {
+        const banned = user.ban('Fraude', ADMIN_ID, now);
+
+        expect(() => banned.reactivate(ADMIN_ID, null, now)).toThrow(
+          InvalidStatusTransitionError
+        );
+        expect(() => banned.ban('Otra vez', ADMIN_ID, now)).toThrow(
+          InvalidStatusTransitionError
+        );
+      });
+    });
+
+    describe('reactivate', () => {
+      it('debería levantar una suspensión', () => {
+        const suspended = user.suspend(
+          new Date(now.getTime() + HOUR),
+          'Spam',
+          ADMIN_ID,
+          now
+        );
+
+        const reactivated = suspended.reactivate(ADMIN_ID, 'Apelación', now);
+
+        expect(reactivated.isActive()).toBe(true);
+        expect(reactivated.status.suspendedUntil).toBeNull();
+        expect(reactivated.status.reason).toBe('Apelación');
+        expect(reactivated.status.changedBy).toBe(ADMIN_ID);
+      });
+
+      it('debería rechazar reactivar a un usuario que no está suspendido', () => {
+        expect(() => user.reactivate(ADMIN_ID, null, now)).toThrow(
+          InvalidStatusTransitionError
+        );
+      });
+    });
+
+    describe('liftExpiredSuspension', () => {
+      it('debería reactivar como sistema cuando la suspensión ha expirado', () => {
+        const until = new Date(now.getTime() + HOUR);
+        const suspended = user.suspend(until, 'Spam', ADMIN_ID, now);
+
+        const lifted = suspended.liftExpiredSuspension(until);
+
+        expect(lifted.isActive()).toBe(true);
+        expect(lifted.status.changedBy).toBeNull();
+        expect(lifted.status.changedAt).toBe(until);
+      });
+
+      it('debería rechazar levantar una suspensión vigente', () => {
+        const suspended = user.suspend(
+          new Date(now.getTime() + HOUR),
+          'Spam',
+          ADMIN_ID,
+          now
+        );
+
+        expect(() => suspended.liftExpiredSuspension(now)).toThrow(
+          InvalidStatusChangeError
+        );
+      });
+    });
+  });
 });
@@ -0,0 +1,93 @@
+// src/core/domain/entities/__tests__/UserStatusChange.test.ts
+
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+
+const USER_ID = '9b2f4c1e-7a3d-4e5f-8a6b-0c1d2e3f4a5b';
+const ADMIN_ID = '3f1c2a9e-5b7d-4e8f-9a0b-1c2d3e4f5a6b';
+
+describe('UserStatusChange Entity', () => {
+  describe('record', () => {
+    it('debería registrar un cambio de estado con autor, motivo y fin de suspensión', () => {
+      const at = new Date('2025-10-06T10:00:00Z');
+      const until = new Date('2025-10-13T10:00:00Z');
+
+      const change = UserStatusChange.record({
+        userId: USER_ID,
+        kind: 'status',
+        fromValue: 'active',
+        toValue: 'suspended',
+        reason: 'Spam',
+        changedBy: ADMIN_ID,
+        suspendedUntil: until,
+        at,
+      });
+
+      expect(change.id).toEqual(expect.any(String));
+      expect(change.userId).toBe(USER_ID);
+      expect(change.fromValue).toBe('active');
+      expect(change.toValue).toBe('suspended');
+      expect(change.reason).toBe('Spam');
+      expect(change.changedBy).toBe(ADMIN_ID);
+      expect(change.suspendedUntil).toBe(until);
+      expect(change.createdAt).toBe(at);
+      expect(change.isSystemChange()).toBe(false);
+    });
+
+    it('debería tratar como cambio del sistema los que no tienen autor', () => {
+      const change = UserStatusChange.record({
+        userId: USER_ID,
+        kind: 'status',
+        fromValue: 'suspended',
+        toValue: 'active',
+      });
+
+      expect(change.changedBy).toBeNull();
+      expect(change.reason).toBeNull();
+      expect(change.isSystemChange()).toBe(true);
+    });
+
+    it('debería rechazar tipos de cambio desconocidos', () => {
+      expect(() =>
+        UserStatusChange.record({
+          userId: USER_ID,
+          kind: 'email' as 'status',
+          fromValue: 'a@example.com',
+          toValue: 'b@example.com',
+        })
+      ).toThrow('Tipo de cambio inválido: email');
+    });
+
+    it('debería exigir valor anterior y nuevo', () => {
+      expect(() =>
+        UserStatusChange.record({
+          userId: USER_ID,
+          kind: 'role',
+          fromValue: '',
+          toValue: 'admin',
+        })
+      ).toThrow('La entrada del historial debe tener valor anterior y nuevo');
+    });
+  });
+
+  describe('fromPersistence', () => {
+    it('debería reconstruir una entrada guardada', () => {
+      const createdAt = new Date('2025-10-06T10:00:00Z');
+
+      const change = UserStatusChange.fromPersistence(
+        'change-id',
+        USER_ID,
+        'role',
+        'student',
+        'content_creator',
+        null,
+        ADMIN_ID,
+        null,
+        createdAt
+      );
+
+      expect(change.id).toBe('change-id');
+      expect(change.kind).toBe('role');
+      expect(change.createdAt).toBe(createdAt);
+    });
+  });
+});
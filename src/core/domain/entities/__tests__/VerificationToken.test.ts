@@ -0,0 +1,93 @@
+// src/core/domain/entities/__tests__/VerificationToken.test.ts
+
+import {
+  VerificationToken,
+  VerificationTokenPurpose,
+} from '@/core/domain/entities/VerificationToken';
+
+describe('VerificationToken Entity', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+
+  describe('issue', () => {
+    it('debería emitir un token utilizable para su propósito', () => {
+      const token = VerificationToken.issue(
+        'user-1',
+        'email_confirmation',
+        'hash-1',
+        3600,
+        now
+      );
+
+      expect(token.id).toEqual(expect.any(String));
+      expect(token.expiresAt).toEqual(new Date('2025-01-01T01:00:00Z'));
+      expect(token.isConsumed()).toBe(false);
+      expect(token.isUsableFor('email_confirmation', now)).toBe(true);
+    });
+
+    it('debería rechazar una duración no positiva', () => {
+      expect(() =>
+        VerificationToken.issue('user-1', 'email_confirmation', 'hash-1', 0)
+      ).toThrow('La duración del token de verificación debe ser positiva');
+    });
+
+    it('debería rechazar un propósito desconocido', () => {
+      expect(() =>
+        VerificationToken.issue(
+          'user-1',
+          'unknown' as VerificationTokenPurpose,
+          'hash-1',
+          60
+        )
+      ).toThrow('Propósito de token de verificación inválido: unknown');
+    });
+
+    it('debería exigir usuario y hash', () => {
+      expect(() =>
+        VerificationToken.issue('', 'email_confirmation', 'hash-1', 60)
+      ).toThrow('El token de verificación debe pertenecer a un usuario');
+      expect(() =>
+        VerificationToken.issue('user-1', 'email_confirmation', '', 60)
+      ).toThrow('El token de verificación debe tener un hash válido');
+    });
+  });
+
+  describe('isUsableFor', () => {
+    it('debería dejar de ser utilizable al expirar', () => {
+      const token = VerificationToken.issue(
+        'user-1',
+        'email_confirmation',
+        'hash-1',
+        60,
+        now
+      );
+
+      expect(
+        token.isUsableFor(
+          'email_confirmation',
+          new Date('2025-01-01T00:00:59Z')
+        )
+      ).toBe(true);
+      expect(
+        token.isUsableFor(
+          'email_confirmation',
+          new Date('2025-01-01T00:01:00Z')
+        )
+      ).toBe(false);
+    });
+
+    it('debería dejar de ser utilizable una vez consumido', () => {
+      const token = VerificationToken.fromPersistence(
+        'id-1',
+        'user-1',
+        'email_confirmation',
+        'hash-1',
+        new Date('2025-01-02T00:00:00Z'),
+        now,
+        now
+      );
+
+      expect(token.isConsumed()).toBe(true);
+      expect(token.isUsableFor('email_confirmation', now)).toBe(false);
+    });
+  });
+});
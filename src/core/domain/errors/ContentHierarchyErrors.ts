@@ -0,0 +1,79 @@
+// src/core/domain/errors/ContentHierarchyErrors.ts
+
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+import type {
+  ContentKind,
+  OrderedKind,
+} from '@/core/domain/services/ContentHierarchy';
+
+/**
+ * Errores de las reglas de la jerarquía de contenido
+ * (Course → Level → Section → Module → Lesson)
+ */
+export class ContentHierarchyError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    category: ErrorCategory,
+    params: ErrorParams = {}
+  ) {
+    super(message, code, category, params);
+    this.name = 'ContentHierarchyError';
+  }
+}
+
+// El contenedor del elemento no existe: no se admiten elementos huérfanos
+export class OrphanContentError extends ContentHierarchyError {
+  constructor(
+    public readonly kind: OrderedKind,
+    public readonly parentKind: ContentKind,
+    public readonly parentId: string
+  ) {
+    super(
+      `No existe el contenedor (${parentKind} ${parentId}) de un ${kind}`,
+      'CONTENT_PARENT_NOT_FOUND',
+      'not_found',
+      { kind, parentKind }
+    );
+    this.name = 'OrphanContentError';
+  }
+}
+
+// Otro elemento del mismo contenedor ya ocupa la posición
+export class PositionTakenError extends ContentHierarchyError {
+  constructor(
+    public readonly kind: OrderedKind,
+    public readonly parentId: string,
+    public readonly position: number
+  ) {
+    super(
+      `La posición ${position} ya está ocupada en el contenedor ${parentId}`,
+      'CONTENT_POSITION_TAKEN',
+      'conflict',
+      { kind, position }
+    );
+    this.name = 'PositionTakenError';
+  }
+}
+
+// El nuevo orden no es una permutación de los elementos del contenedor
+export class InvalidReorderError extends ContentHierarchyError {
+  constructor(
+    public readonly kind: OrderedKind,
+    public readonly parentId: string,
+    reason: string
+  ) {
+    super(
+      `Orden inválido para el contenedor ${parentId}: ${reason}`,
+      'CONTENT_REORDER_INVALID',
+      'validation',
+      { kind }
+    );
+    this.name = 'InvalidReorderError';
+  }
+}
@@ -0,0 +1,58 @@
+// src/core/domain/errors/ExerciseErrors.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+import type { ExerciseType } from '@/core/domain/value-objects/ExercisePayload';
+import { ContentHierarchyError } from './ContentHierarchyErrors';
+
+/**
+ * Fallo de un campo del payload de un ejercicio (`field` es la ruta dentro
+ * del payload, por ejemplo `options.2`)
+ */
+export interface ExercisePayloadIssue {
+  field: string;
+  message: string;
+}
+
+// El payload no cumple el esquema de su tipo de ejercicio
+export class InvalidExercisePayloadError extends DomainValidationError {
+  constructor(public readonly issues: ExercisePayloadIssue[]) {
+    super(
+      'EXERCISE_PAYLOAD_INVALID',
+      `Contenido de ejercicio inválido: ${issues
+        .map((issue) => `${issue.field}: ${issue.message}`)
+        .join('; ')}`,
+      { field: issues[0]?.field ?? 'payload' }
+    );
+    this.name = 'InvalidExercisePayloadError';
+  }
+}
+
+// Un ejercicio aparece como mucho una vez en cada lección
+export class ExerciseAlreadyInLessonError extends ContentHierarchyError {
+  constructor(
+    public readonly lessonId: string,
+    public readonly exerciseId: string
+  ) {
+    super(
+      `El ejercicio ${exerciseId} ya está en la lección ${lessonId}`,
+      'EXERCISE_ALREADY_IN_LESSON',
+      'conflict'
+    );
+    this.name = 'ExerciseAlreadyInLessonError';
+  }
+}
+
+// La respuesta del alumno es de otro tipo de ejercicio
+export class AnswerTypeMismatchError extends DomainValidationError {
+  constructor(
+    public readonly exerciseType: ExerciseType,
+    public readonly answerType: string
+  ) {
+    super(
+      'EXERCISE_ANSWER_TYPE_MISMATCH',
+      `Respuesta de tipo ${answerType} para un ejercicio de tipo ${exerciseType}`,
+      { type: exerciseType }
+    );
+    this.name = 'AnswerTypeMismatchError';
+  }
+}
@@ -0,0 +1,59 @@
+// src/core/domain/errors/PublicationErrors.ts
+
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+import type {
+  PublicationAction,
+  PublicationStatus,
+} from '@/core/domain/entities/Publication';
+
+/**
+ * Errores del flujo de publicación de cursos y lecciones
+ */
+export class PublicationError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    category: ErrorCategory,
+    params: ErrorParams = {}
+  ) {
+    super(message, code, category, params);
+    this.name = 'PublicationError';
+  }
+}
+
+// La acción no se puede hacer en el estado actual de la publicación
+export class InvalidPublicationTransitionError extends PublicationError {
+  constructor(
+    public readonly action: PublicationAction,
+    public readonly status: PublicationStatus
+  ) {
+    super(
+      `No se puede hacer ${action} sobre una publicación en estado ${status}`,
+      'PUBLICATION_TRANSITION_INVALID',
+      'conflict',
+      { action, status }
+    );
+    this.name = 'InvalidPublicationTransitionError';
+  }
+}
+
+// Se pidió volver a una instantánea que no existe
+export class PublishedSnapshotNotFoundError extends PublicationError {
+  constructor(
+    public readonly publicationId: string,
+    public readonly number: number
+  ) {
+    super(
+      `La publicación ${publicationId} no tiene la instantánea ${number}`,
+      'PUBLICATION_SNAPSHOT_NOT_FOUND',
+      'not_found',
+      { number }
+    );
+    this.name = 'PublishedSnapshotNotFoundError';
+  }
+}
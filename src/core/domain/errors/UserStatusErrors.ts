@@ -0,0 +1,47 @@
+// src/core/domain/errors/UserStatusErrors.ts
+
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+
+/**
+ * Errores de los cambios de estado de un usuario
+ */
+export class UserStatusError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    category: ErrorCategory,
+    params: ErrorParams = {}
+  ) {
+    super(message, code, category, params);
+    this.name = 'UserStatusError';
+  }
+}
+
+// La máquina de estados de UserStatus no permite pasar de `from` a `to`
+export class InvalidStatusTransitionError extends UserStatusError {
+  constructor(
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super(
+      `Transición de estado no permitida: ${from} → ${to}`,
+      'INVALID_STATUS_TRANSITION',
+      'conflict',
+      { from, to }
+    );
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+// La transición es válida pero sus datos no (motivo vacío, fin de suspensión pasado, etc.)
+export class InvalidStatusChangeError extends UserStatusError {
+  constructor(message: string) {
+    super(message, 'INVALID_STATUS_CHANGE', 'validation');
+    this.name = 'InvalidStatusChangeError';
+  }
+}
@@ -0,0 +1,30 @@
+// src/core/domain/events/DomainEvent.ts
+
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Hecho del dominio que ya ocurrió (UserRegistered, LessonCompleted...).
+ *
+ * Los agregados los registran al cambiar de estado y el caso de uso los guarda
+ * en el outbox en la misma transacción que el cambio. El payload debe ser
+ * serializable a JSON: los suscriptores lo reciben después de leerlo de la BD.
+ */
+export interface DomainEvent<TPayload extends object = object> {
+  readonly id: string; // UUID; los suscriptores lo usan para ser idempotentes
+  readonly type: string;
+  readonly aggregateId: string;
+  readonly occurredAt: Date;
+  readonly payload: TPayload;
+}
+
+/**
+ * Crea un evento nuevo con ID y fecha propios
+ */
+export function createDomainEvent<TPayload extends object>(
+  type: string,
+  aggregateId: string,
+  payload: TPayload,
+  occurredAt: Date = new Date()
+): DomainEvent<TPayload> {
+  return { id: uuidv4(), type, aggregateId, occurredAt, payload };
+}
@@ -0,0 +1,24 @@
+// src/core/domain/events/UserRegistered.ts
+
+import { createDomainEvent, DomainEvent } from './DomainEvent';
+
+export const USER_REGISTERED = 'UserRegistered';
+
+export interface UserRegisteredPayload {
+  email: string;
+  username: string;
+  role: string;
+}
+
+/**
+ * Se registró un usuario nuevo (pendiente de confirmar su email)
+ */
+export type UserRegistered = DomainEvent<UserRegisteredPayload>;
+
+export function createUserRegistered(
+  userId: string,
+  payload: UserRegisteredPayload,
+  occurredAt?: Date
+): UserRegistered {
+  return createDomainEvent(USER_REGISTERED, userId, payload, occurredAt);
+}
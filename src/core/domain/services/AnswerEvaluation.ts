@@ -0,0 +1,461 @@
+// src/core/domain/services/AnswerEvaluation.ts
+
+/**
+ * Corrección de la respuesta de un alumno a un ejercicio.
+ *
+ * - Las respuestas de texto libre (translate, dictation y cada hueco de
+ *   fill_blank) se comparan con todas las variantes aceptadas sin distinguir
+ *   mayúsculas ni signos de puntuación. Opcionalmente se perdonan las tildes
+ *   y demás diacríticos, y una respuesta a pocas ediciones (distancia de
+ *   Levenshtein) de una variante se marca como casi correcta.
+ * - Las respuestas que se construyen con piezas que da el ejercicio
+ *   (opciones, parejas y palabras que ordenar) no admiten erratas: son
+ *   correctas o incorrectas.
+ *
+ * Son funciones puras: no guardan nada ni dependen de la hora ni de la
+ * configuración, que llega en EvaluationOptions.
+ */
+
+import {
+  BLANK_MARKER,
+  ExercisePayload,
+  ExercisePayloadOf,
+  ExerciseType,
+} from '@/core/domain/value-objects/ExercisePayload';
+import { AnswerTypeMismatchError } from '@/core/domain/errors/ExerciseErrors';
+
+export type Verdict = 'correct' | 'almost_correct' | 'incorrect';
+
+// Cómo se parece una respuesta de texto a la variante más cercana
+export type TextMatchKind =
+  | 'exact' // Igual salvo mayúsculas y puntuación
+  | 'diacritics' // Solo difiere en tildes u otros diacríticos
+  | 'typo' // A pocas ediciones
+  | 'wrong';
+
+/**
+ * Tramo de la comparación entre la respuesta y la variante más cercana:
+ * `missing` falta en la respuesta y `extra` sobra en ella
+ */
+export interface DiffSegment {
+  type: 'equal' | 'missing' | 'extra';
+  text: string;
+}
+
+/**
+ * Corrección de una respuesta de texto. Las diferencias se calculan sobre
+ * los textos normalizados (sin mayúsculas ni puntuación, y sin diacríticos
+ * si se perdonan), que es lo que se compara.
+ */
+export interface TextEvaluation {
+  verdict: Verdict;
+  match: TextMatchKind;
+  answer: string; // Tal como la escribió el alumno
+  correctAnswer: string; // La variante canónica (la primera aceptada)
+  closestVariant: string; // La variante aceptada más parecida a la respuesta
+  distance: number; // Ediciones entre la respuesta y closestVariant
+  differences: DiffSegment[];
+}
+
+export interface AnswerEvaluation {
+  type: ExerciseType;
+  verdict: Verdict;
+  correctAnswer: string; // Solución completa, legible
+  // Una por cada texto corregido: la traducción o el dictado, cada hueco,
+  // cada pareja o la frase ordenada. Vacío en los de elección múltiple
+  parts: TextEvaluation[];
+}
+
+export interface ChoiceAnswer<T extends 'multiple_choice' | 'listening'> {
+  type: T;
+  selectedOptionIndexes: number[];
+}
+
+export interface TextAnswer<T extends 'translate' | 'dictation'> {
+  type: T;
+  text: string;
+}
+
+export interface FillBlankAnswer {
+  type: 'fill_blank';
+  blanks: string[]; // En el orden de los huecos
+}
+
+export interface MatchPairsAnswer {
+  type: 'match_pairs';
+  pairs: { left: string; right: string }[];
+}
+
+export interface WordOrderAnswer {
+  type: 'word_order';
+  words: string[];
+}
+
+export type LearnerAnswer =
+  | ChoiceAnswer<'multiple_choice'>
+  | ChoiceAnswer<'listening'>
+  | TextAnswer<'translate'>
+  | TextAnswer<'dictation'>
+  | FillBlankAnswer
+  | MatchPairsAnswer
+  | WordOrderAnswer;
+
+export type LearnerAnswerOf<T extends ExerciseType> = Extract<
+  LearnerAnswer,
+  { type: T }
+>;
+
+export interface EvaluationOptions {
+  forgiveDiacritics?: boolean; // Por defecto false: "cancion" ≠ "canción"
+  tolerateTypos?: boolean; // Por defecto true
+}
+
+// Ediciones que se toleran como erratas: ninguna en textos de menos de 5
+// caracteres, una más cada 5 y como mucho 3
+const CHARS_PER_TYPO = 5;
+const MAX_TYPOS = 3;
+
+/**
+ * Corrige la respuesta de un alumno a un ejercicio.
+ * @throws AnswerTypeMismatchError si la respuesta es de otro tipo de ejercicio.
+ */
+export function evaluateAnswer(
+  payload: ExercisePayload,
+  answer: LearnerAnswer,
+  options: EvaluationOptions = {}
+): AnswerEvaluation {
+  const data = payload.data;
+  if (answer.type !== data.type) {
+    throw new AnswerTypeMismatchError(data.type, answer.type);
+  }
+
+  switch (data.type) {
+    case 'multiple_choice':
+    case 'listening':
+      return evaluateChoice(data, answer as ChoiceAnswer<typeof data.type>);
+    case 'translate': {
+      const part = evaluateText(
+        (answer as LearnerAnswerOf<'translate'>).text,
+        data.acceptedTranslations,
+        options
+      );
+      return summarize(data.type, part.correctAnswer, [part]);
+    }
+    case 'dictation': {
+      const part = evaluateText(
+        (answer as LearnerAnswerOf<'dictation'>).text,
+        data.acceptedAnswers,
+        options
+      );
+      return summarize(data.type, part.correctAnswer, [part]);
+    }
+    case 'fill_blank':
+      return evaluateFillBlank(data, answer as FillBlankAnswer, options);
+    case 'match_pairs':
+      return evaluateMatchPairs(data, answer as MatchPairsAnswer);
+    case 'word_order':
+      return evaluateWordOrder(data, answer as WordOrderAnswer);
+  }
+}
+
+/**
+ * Compara una respuesta de texto libre con sus variantes aceptadas (la
+ * primera es la canónica).
+ */
+export function evaluateText(
+  answer: string,
+  acceptedAnswers: readonly string[],
+  options: EvaluationOptions = {}
+): TextEvaluation {
+  const forgiveDiacritics = options.forgiveDiacritics ?? false;
+  const tolerateTypos = options.tolerateTypos ?? true;
+
+  const normalized = normalizeAnswer(answer, { forgiveDiacritics });
+  const candidates = acceptedAnswers.map((variant) => {
+    const expected = normalizeAnswer(variant, { forgiveDiacritics });
+    return {
+      variant,
+      expected,
+      distance: editDistance([...normalized], [...expected]),
+    };
+  });
+  // Ante un empate gana la primera, así que se prefiere la canónica
+  const closest = candidates.reduce((best, candidate) =>
+    candidate.distance < best.distance ? candidate : best
+  );
+
+  const match = matchKindOf(
+    answer,
+    candidates.map((candidate) => candidate.variant),
+    closest.distance,
+    [...closest.expected].length,
+    tolerateTypos
+  );
+
+  return {
+    verdict:
+      match === 'exact' || (match === 'diacritics' && forgiveDiacritics)
+        ? 'correct'
+        : match === 'wrong'
+          ? 'incorrect'
+          : 'almost_correct',
+    match,
+    answer,
+    correctAnswer: acceptedAnswers[0],
+    closestVariant: closest.variant,
+    distance: closest.distance,
+    differences: diffTokens([...normalized], [...closest.expected], ''),
+  };
+}
+
+/**
+ * Forma comparable de una respuesta: minúsculas, sin signos de puntuación
+ * ni símbolos, con los espacios colapsados y, si se pide, sin diacríticos.
+ */
+export function normalizeAnswer(
+  text: string,
+  options: { forgiveDiacritics?: boolean } = {}
+): string {
+  let normalized = text.normalize('NFC').toLowerCase();
+  if (options.forgiveDiacritics) {
+    normalized = stripDiacritics(normalized);
+  }
+  return normalized
+    .replace(/['’`]/g, '') // "don't" y "dont" son la misma respuesta
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Distancia de Levenshtein entre dos secuencias: inserciones, borrados y
+ * sustituciones necesarios para pasar de una a otra.
+ */
+export function editDistance(
+  from: readonly string[],
+  to: readonly string[]
+): number {
+  return distanceMatrix(from, to)[from.length][to.length];
+}
+
+function matchKindOf(
+  answer: string,
+  acceptedAnswers: string[],
+  distance: number,
+  expectedLength: number,
+  tolerateTypos: boolean
+): TextMatchKind {
+  if (distance === 0) {
+    // Con los diacríticos perdonados la distancia 0 puede ocultar tildes
+    // distintas: se distingue para poder avisar al alumno
+    const exact = normalizeAnswer(answer);
+    return acceptedAnswers.some((variant) => normalizeAnswer(variant) === exact)
+      ? 'exact'
+      : 'diacritics';
+  }
+
+  const withoutDiacritics = normalizeAnswer(answer, {
+    forgiveDiacritics: true,
+  });
+  if (
+    acceptedAnswers.some(
+      (variant) =>
+        normalizeAnswer(variant, { forgiveDiacritics: true }) ===
+        withoutDiacritics
+    )
+  ) {
+    return 'diacritics';
+  }
+
+  const allowedTypos = tolerateTypos
+    ? Math.min(MAX_TYPOS, Math.floor(expectedLength / CHARS_PER_TYPO))
+    : 0;
+  return distance <= allowedTypos ? 'typo' : 'wrong';
+}
+
+function evaluateChoice(
+  data: ExercisePayloadOf<'multiple_choice' | 'listening'>,
+  answer: ChoiceAnswer<'multiple_choice' | 'listening'>
+): AnswerEvaluation {
+  const selected = new Set(answer.selectedOptionIndexes);
+  const correct =
+    selected.size === data.correctOptionIndexes.length &&
+    data.correctOptionIndexes.every((index) => selected.has(index));
+
+  return {
+    type: data.type,
+    verdict: correct ? 'correct' : 'incorrect',
+    correctAnswer: data.correctOptionIndexes
+      .map((index) => data.options[index])
+      .join(', '),
+    parts: [],
+  };
+}
+
+function evaluateFillBlank(
+  data: ExercisePayloadOf<'fill_blank'>,
+  answer: FillBlankAnswer,
+  options: EvaluationOptions
+): AnswerEvaluation {
+  // Un hueco sin respuesta cuenta como vacío
+  const parts = data.blanks.map((blank, index) =>
+    evaluateText(answer.blanks[index] ?? '', blank.acceptedAnswers, options)
+  );
+
+  const solution = data.text
+    .split(BLANK_MARKER)
+    .reduce(
+      (text, chunk, index) => text + parts[index - 1].correctAnswer + chunk
+    );
+  return summarize(data.type, solution, parts);
+}
+
+function evaluateMatchPairs(
+  data: ExercisePayloadOf<'match_pairs'>,
+  answer: MatchPairsAnswer
+): AnswerEvaluation {
+  const chosen = new Map(
+    answer.pairs.map((pair) => [normalizeAnswer(pair.left), pair.right])
+  );
+  const parts = data.pairs.map((pair) =>
+    evaluateText(chosen.get(normalizeAnswer(pair.left)) ?? '', [pair.right], {
+      tolerateTypos: false,
+    })
+  );
+
+  return summarize(
+    data.type,
+    data.pairs.map((pair) => `${pair.left} = ${pair.right}`).join(', '),
+    parts
+  );
+}
+
+function evaluateWordOrder(
+  data: ExercisePayloadOf<'word_order'>,
+  answer: WordOrderAnswer
+): AnswerEvaluation {
+  const given = answer.words.map((word) => normalizeAnswer(word));
+  const expected = data.words.map((word) => normalizeAnswer(word));
+  const distance = editDistance(given, expected);
+  const correctAnswer = data.words.join(' ');
+
+  return summarize(data.type, correctAnswer, [
+    {
+      verdict: distance === 0 ? 'correct' : 'incorrect',
+      match: distance === 0 ? 'exact' : 'wrong',
+      answer: answer.words.join(' '),
+      correctAnswer,
+      closestVariant: correctAnswer,
+      distance,
+      differences: diffTokens(given, expected, ' '),
+    },
+  ]);
+}
+
+// El veredicto del ejercicio es el peor de sus partes
+function summarize(
+  type: ExerciseType,
+  correctAnswer: string,
+  parts: TextEvaluation[]
+): AnswerEvaluation {
+  const verdicts = parts.map((part) => part.verdict);
+  return {
+    type,
+    verdict: verdicts.includes('incorrect')
+      ? 'incorrect'
+      : verdicts.includes('almost_correct')
+        ? 'almost_correct'
+        : 'correct',
+    correctAnswer,
+    parts,
+  };
+}
+
+function stripDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
+
+function distanceMatrix(
+  from: readonly string[],
+  to: readonly string[]
+): number[][] {
+  const matrix = Array.from({ length: from.length + 1 }, (_, i) =>
+    Array.from({ length: to.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= from.length; i++) {
+    for (let j = 1; j <= to.length; j++) {
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + (from[i - 1] === to[j - 1] ? 0 : 1)
+      );
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Recorre la matriz de Levenshtein desde el final para obtener las
+ * ediciones, y agrupa cada tramo de cambios en lo que sobra seguido de lo
+ * que falta
+ */
+function diffTokens(
+  answer: readonly string[],
+  expected: readonly string[],
+  separator: string
+): DiffSegment[] {
+  const matrix = distanceMatrix(answer, expected);
+  const steps: { type: DiffSegment['type']; token: string }[] = [];
+
+  let i = answer.length;
+  let j = expected.length;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      answer[i - 1] === expected[j - 1] &&
+      matrix[i][j] === matrix[i - 1][j - 1]
+    ) {
+      steps.push({ type: 'equal', token: answer[--i] });
+      j--;
+    } else if (i > 0 && j > 0 && matrix[i][j] === matrix[i - 1][j - 1] + 1) {
+      steps.push({ type: 'missing', token: expected[--j] });
+      steps.push({ type: 'extra', token: answer[--i] });
+    } else if (i > 0 && matrix[i][j] === matrix[i - 1][j] + 1) {
+      steps.push({ type: 'extra', token: answer[--i] });
+    } else {
+      steps.push({ type: 'missing', token: expected[--j] });
+    }
+  }
+  steps.reverse();
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], tokens: string[]) => {
+    if (tokens.length > 0) {
+      segments.push({ type, text: tokens.join(separator) });
+    }
+  };
+
+  let equal: string[] = [];
+  let extra: string[] = [];
+  let missing: string[] = [];
+  for (const step of steps) {
+    if (step.type === 'equal') {
+      push('extra', extra);
+      push('missing', missing);
+      extra = [];
+      missing = [];
+      equal.push(step.token);
+    } else {
+      push('equal', equal);
+      equal = [];
+      (step.type === 'extra' ? extra : missing).push(step.token);
+    }
+  }
+  push('equal', equal);
+  push('extra', extra);
+  push('missing', missing);
+  return segments;
+}
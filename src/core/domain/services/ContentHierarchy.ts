@@ -0,0 +1,193 @@
+// src/core/domain/services/ContentHierarchy.ts
+
+/**
+ * Reglas de la jerarquía de contenido: Course → Level → Section → Module →
+ * Lesson.
+ *
+ * - Sin huérfanos: cada elemento pertenece a un contenedor del tipo
+ *   inmediatamente superior; las entidades solo se crean a partir de su
+ *   contenedor (Level.create(course, ...)).
+ * - Orden único: dentro de un contenedor no hay dos elementos en la misma
+ *   posición.
+ * - Cascada: borrar un elemento borra todos sus descendientes, nunca a sus
+ *   hermanos ni a su contenedor.
+ *
+ * Son funciones puras sobre los elementos que reciben. Los adaptadores de
+ * persistencia aplican las mismas reglas (claves foráneas con borrado en
+ * cascada y restricciones únicas) y el test de contrato de los repositorios
+ * comprueba que coinciden.
+ */
+
+import { Position } from '@/core/domain/value-objects/Position';
+import {
+  InvalidReorderError,
+  PositionTakenError,
+} from '@/core/domain/errors/ContentHierarchyErrors';
+
+export type ContentKind = 'course' | 'level' | 'section' | 'module' | 'lesson';
+
+// Tipos que siempre tienen contenedor
+export type ChildContentKind = Exclude<ContentKind, 'course'>;
+
+// Lo que se ordena dentro de un contenedor: los elementos de la jerarquía y
+// los ejercicios de una lección (que no forman parte del árbol: un mismo
+// ejercicio puede estar en varias lecciones)
+export type OrderedKind = ChildContentKind | 'exercise';
+
+// Lo que se edita con control de versión: la jerarquía, los ejercicios y
+// las publicaciones de cursos y lecciones
+export type VersionedKind = ContentKind | 'exercise' | 'publication';
+
+// De la raíz a las hojas
+export const CONTENT_HIERARCHY: readonly ContentKind[] = [
+  'course',
+  'level',
+  'section',
+  'module',
+  'lesson',
+];
+
+/**
+ * Elemento ordenado dentro de un contenedor
+ */
+export interface OrderedSibling {
+  id: string;
+  parentId: string;
+  position: Position;
+}
+
+/**
+ * Referencia a un elemento de la jerarquía
+ */
+export interface ContentRef {
+  kind: ContentKind;
+  id: string;
+}
+
+/**
+ * Tipo del contenedor de un elemento
+ */
+export function parentKindOf(kind: ChildContentKind): ContentKind {
+  return CONTENT_HIERARCHY[CONTENT_HIERARCHY.indexOf(kind) - 1];
+}
+
+/**
+ * Tipo de los hijos de un elemento, o null si es una hoja (lección)
+ */
+export function childKindOf(kind: ContentKind): ChildContentKind | null {
+  const child = CONTENT_HIERARCHY[CONTENT_HIERARCHY.indexOf(kind) + 1];
+  return (child as ChildContentKind | undefined) ?? null;
+}
+
+/**
+ * Decide la posición de un elemento nuevo entre sus hermanos: la pedida si
+ * está libre o, si no se pide ninguna, la siguiente a la última.
+ * @throws PositionTakenError si la posición pedida está ocupada.
+ */
+export function placeAmongSiblings(
+  kind: OrderedKind,
+  parentId: string,
+  siblings: readonly OrderedSibling[],
+  requested?: Position
+): Position {
+  assertSiblingsOf(parentId, siblings);
+
+  if (!requested) {
+    return siblings.reduce(
+      (last, sibling) =>
+        sibling.position.compareTo(last) >= 0 ? sibling.position.next() : last,
+      Position.first()
+    );
+  }
+
+  if (siblings.some((sibling) => sibling.position.equals(requested))) {
+    throw new PositionTakenError(kind, parentId, requested.value);
+  }
+  return requested;
+}
+
+/**
+ * Comprueba que un elemento puede ocupar su posición: ningún otro hermano
+ * está en ella (el propio elemento puede venir en `siblings`).
+ * @throws PositionTakenError si otro hermano ocupa la posición.
+ */
+export function assertPositionAvailable(
+  kind: OrderedKind,
+  node: OrderedSibling,
+  siblings: readonly OrderedSibling[]
+): void {
+  assertSiblingsOf(node.parentId, siblings);
+
+  const taken = siblings.some(
+    (sibling) =>
+      sibling.id !== node.id && sibling.position.equals(node.position)
+  );
+  if (taken) {
+    throw new PositionTakenError(kind, node.parentId, node.position.value);
+  }
+}
+
+/**
+ * Calcula las posiciones de un reordenamiento completo: `orderedIds` tiene
+ * que contener cada hermano exactamente una vez, y el primero pasa a la
+ * posición 1, el segundo a la 2, etc.
+ * @returns La nueva posición de cada elemento, por id.
+ * @throws InvalidReorderError si `orderedIds` no es una permutación de los hermanos.
+ */
+export function reorderSiblings(
+  kind: OrderedKind,
+  parentId: string,
+  siblings: readonly OrderedSibling[],
+  orderedIds: readonly string[]
+): Map<string, Position> {
+  assertSiblingsOf(parentId, siblings);
+
+  if (new Set(orderedIds).size !== orderedIds.length) {
+    throw new InvalidReorderError(kind, parentId, 'hay ids repetidos');
+  }
+  const siblingIds = new Set(siblings.map((sibling) => sibling.id));
+  if (
+    orderedIds.length !== siblingIds.size ||
+    orderedIds.some((id) => !siblingIds.has(id))
+  ) {
+    throw new InvalidReorderError(
+      kind,
+      parentId,
+      'los ids no coinciden con los elementos del contenedor'
+    );
+  }
+
+  return new Map(orderedIds.map((id, index) => [id, new Position(index + 1)]));
+}
+
+/**
+ * Calcula todo lo que se borra junto con un elemento: él mismo y todos sus
+ * descendientes, de las hojas a la raíz (el orden en que se pueden borrar
+ * sin dejar huérfanos).
+ * @param childrenOf Devuelve los ids de los hijos directos de un elemento.
+ */
+export function collectCascade(
+  root: ContentRef,
+  childrenOf: (parent: ContentRef) => string[]
+): ContentRef[] {
+  const childKind = childKindOf(root.kind);
+  const descendants = childKind
+    ? childrenOf(root).flatMap((id) =>
+        collectCascade({ kind: childKind, id }, childrenOf)
+      )
+    : [];
+  return [...descendants, root];
+}
+
+// Los hermanos que recibe una regla tienen que ser del mismo contenedor:
+// mezclar contenedores es un error de programación, no de datos
+function assertSiblingsOf(
+  parentId: string,
+  siblings: readonly OrderedSibling[]
+): void {
+  if (siblings.some((sibling) => sibling.parentId !== parentId)) {
+    throw new Error(
+      `Los hermanos indicados no pertenecen al contenedor ${parentId}`
+    );
+  }
+}
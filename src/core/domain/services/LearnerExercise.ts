@@ -0,0 +1,127 @@
+// src/core/domain/services/LearnerExercise.ts
+
+/**
+ * Lo que ve un alumno de un ejercicio: el enunciado y las piezas con las que
+ * responde, sin la solución.
+ *
+ * - Se quitan las respuestas aceptadas y las opciones correctas; la
+ *   corrección se hace en el servidor con el payload completo
+ *   (AnswerEvaluation), que solo se guarda en la instantánea publicada.
+ * - Las piezas que el payload guarda ya colocadas (las parejas y las
+ *   palabras en su orden) se barajan, y nunca quedan en el orden correcto.
+ *
+ * `random` devuelve valores en [0, 1) como Math.random; los tests pasan uno
+ * fijo para que el barajado sea reproducible.
+ */
+
+import {
+  ExercisePayload,
+  ExercisePayloadOf,
+} from '@/core/domain/value-objects/ExercisePayload';
+
+interface LearnerChoice<T extends 'multiple_choice' | 'listening'> {
+  type: T;
+  options: string[];
+  multipleAnswers: boolean; // Si hay que marcar más de una opción
+}
+
+export type LearnerExercise =
+  | (LearnerChoice<'multiple_choice'> & { prompt: string })
+  | (LearnerChoice<'listening'> & { audioUrl: string; question: string })
+  | { type: 'translate'; sourceText: string }
+  | { type: 'fill_blank'; text: string; blankCount: number }
+  | { type: 'match_pairs'; left: string[]; right: string[] }
+  | { type: 'word_order'; prompt?: string; words: string[] }
+  | { type: 'dictation'; audioUrl: string };
+
+export function toLearnerExercise(
+  payload: ExercisePayload,
+  random: () => number = Math.random
+): LearnerExercise {
+  const data = payload.data;
+  switch (data.type) {
+    case 'multiple_choice':
+      return {
+        type: data.type,
+        prompt: data.prompt,
+        options: data.options,
+        multipleAnswers: data.correctOptionIndexes.length > 1,
+      };
+    case 'listening':
+      return {
+        type: data.type,
+        audioUrl: data.audioUrl,
+        question: data.question,
+        options: data.options,
+        multipleAnswers: data.correctOptionIndexes.length > 1,
+      };
+    case 'translate':
+      return { type: data.type, sourceText: data.sourceText };
+    case 'fill_blank':
+      return {
+        type: data.type,
+        text: data.text,
+        blankCount: data.blanks.length,
+      };
+    case 'match_pairs':
+      return toLearnerMatchPairs(data, random);
+    case 'word_order':
+      return {
+        type: data.type,
+        ...(data.prompt !== undefined && { prompt: data.prompt }),
+        words: shuffleOutOfOrder(
+          [...data.words, ...data.distractors],
+          data.words,
+          random
+        ),
+      };
+    case 'dictation':
+      return { type: data.type, audioUrl: data.audioUrl };
+  }
+}
+
+// Cada columna se baraja por separado: la fila ya no dice qué va con qué
+function toLearnerMatchPairs(
+  data: ExercisePayloadOf<'match_pairs'>,
+  random: () => number
+): LearnerExercise {
+  const left = shuffle(
+    data.pairs.map((pair) => pair.left),
+    random
+  );
+  const partners = left.map(
+    (value) => data.pairs.find((pair) => pair.left === value)!.right
+  );
+  return {
+    type: data.type,
+    left,
+    right: shuffleOutOfOrder(
+      data.pairs.map((pair) => pair.right),
+      partners,
+      random
+    ),
+  };
+}
+
+// Fisher-Yates
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Baraja `items` de modo que no empiecen por `solution` en su orden. Si el
+// azar los deja así, se rota una posición (basta con que haya dos piezas
+// distintas para que cambie el orden)
+function shuffleOutOfOrder(
+  items: string[],
+  solution: string[],
+  random: () => number
+): string[] {
+  const shuffled = shuffle(items, random);
+  const inOrder = solution.every((value, index) => shuffled[index] === value);
+  return inOrder ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+}
@@ -0,0 +1,284 @@
+// src/core/domain/services/__tests__/AnswerEvaluation.test.ts
+
+import {
+  editDistance,
+  evaluateAnswer,
+  evaluateText,
+  normalizeAnswer,
+} from '@/core/domain/services/AnswerEvaluation';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { AnswerTypeMismatchError } from '@/core/domain/errors/ExerciseErrors';
+
+describe('AnswerEvaluation', () => {
+  describe('normalizeAnswer', () => {
+    it('debería ignorar mayúsculas, puntuación y espacios de más', () => {
+      expect(normalizeAnswer('  ¡Hola,   Mundo!  ')).toBe('hola mundo');
+      expect(normalizeAnswer("Don't stop")).toBe('dont stop');
+      expect(normalizeAnswer('well-known')).toBe('well known');
+    });
+
+    it('debería conservar los diacríticos salvo que se perdonen', () => {
+      expect(normalizeAnswer('Canción')).toBe('canción');
+      expect(normalizeAnswer('Canción', { forgiveDiacritics: true })).toBe(
+        'cancion'
+      );
+    });
+  });
+
+  describe('editDistance', () => {
+    it('debería contar inserciones, borrados y sustituciones', () => {
+      const chars = (text: string) => [...text];
+
+      expect(editDistance(chars('gato'), chars('gato'))).toBe(0);
+      expect(editDistance(chars('gato'), chars('pato'))).toBe(1);
+      expect(editDistance(chars('gato'), chars('gatos'))).toBe(1);
+      expect(editDistance(chars('kitten'), chars('sitting'))).toBe(3);
+      expect(editDistance([], chars('abc'))).toBe(3);
+    });
+  });
+
+  describe('evaluateText', () => {
+    const accepted = ['Good morning', 'Morning'];
+
+    it('debería aceptar cualquier variante sin distinguir mayúsculas ni puntuación', () => {
+      const result = evaluateText('morning!', accepted);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          verdict: 'correct',
+          match: 'exact',
+          answer: 'morning!',
+          correctAnswer: 'Good morning',
+          closestVariant: 'Morning',
+          distance: 0,
+          differences: [{ type: 'equal', text: 'morning' }],
+        })
+      );
+    });
+
+    it('debería marcar como casi correcta una respuesta con una errata', () => {
+      const result = evaluateText('Good mornin', accepted);
+
+      expect(result.verdict).toBe('almost_correct');
+      expect(result.match).toBe('typo');
+      expect(result.closestVariant).toBe('Good morning');
+      expect(result.distance).toBe(1);
+      expect(result.differences).toEqual([
+        { type: 'equal', text: 'good mornin' },
+        { type: 'missing', text: 'g' },
+      ]);
+    });
+
+    it('debería agrupar cada cambio en lo que sobra seguido de lo que falta', () => {
+      const result = evaluateText('Good evening', ['Good morning']);
+
+      expect(result.verdict).toBe('incorrect');
+      expect(result.differences).toEqual([
+        { type: 'equal', text: 'good ' },
+        { type: 'extra', text: 'eve' },
+        { type: 'missing', text: 'mor' },
+        { type: 'equal', text: 'ning' },
+      ]);
+    });
+
+    it('no debería tolerar erratas en respuestas cortas ni si se desactivan', () => {
+      expect(evaluateText('cut', ['cat']).verdict).toBe('incorrect');
+      expect(
+        evaluateText('Good mornin', accepted, { tolerateTypos: false }).verdict
+      ).toBe('incorrect');
+    });
+
+    it('debería limitar las erratas toleradas según la longitud', () => {
+      const expected = 'the quick brown fox jumps';
+
+      expect(evaluateText('teh quick brwn fox jumps', [expected]).match).toBe(
+        'typo'
+      );
+      expect(evaluateText('a quick red fox jumped', [expected]).match).toBe(
+        'wrong'
+      );
+    });
+
+    it('debería tratar los diacríticos que faltan como casi correctos por defecto', () => {
+      const result = evaluateText('cancion', ['canción']);
+
+      expect(result.verdict).toBe('almost_correct');
+      expect(result.match).toBe('diacritics');
+      expect(result.differences).toEqual([
+        { type: 'equal', text: 'canci' },
+        { type: 'extra', text: 'o' },
+        { type: 'missing', text: 'ó' },
+        { type: 'equal', text: 'n' },
+      ]);
+    });
+
+    it('debería perdonar los diacríticos si se pide, indicándolo', () => {
+      const result = evaluateText('cancion', ['canción'], {
+        forgiveDiacritics: true,
+      });
+
+      expect(result.verdict).toBe('correct');
+      expect(result.match).toBe('diacritics');
+      expect(result.distance).toBe(0);
+      expect(
+        evaluateText('Canción', ['canción'], { forgiveDiacritics: true }).match
+      ).toBe('exact');
+    });
+
+    it('debería rechazar una respuesta vacía', () => {
+      const result = evaluateText('  ', accepted);
+
+      expect(result.verdict).toBe('incorrect');
+      expect(result.differences).toEqual([
+        { type: 'missing', text: 'morning' },
+      ]);
+    });
+  });
+
+  describe('evaluateAnswer', () => {
+    it('debería corregir la elección múltiple comparando las opciones elegidas', () => {
+      const payload = ExercisePayload.create({
+        type: 'multiple_choice',
+        prompt: '¿Qué animales son mamíferos?',
+        options: ['dog', 'fish', 'cat'],
+        correctOptionIndexes: [0, 2],
+      });
+      const answer = (selectedOptionIndexes: number[]) =>
+        evaluateAnswer(payload, {
+          type: 'multiple_choice',
+          selectedOptionIndexes,
+        });
+
+      expect(answer([2, 0])).toEqual({
+        type: 'multiple_choice',
+        verdict: 'correct',
+        correctAnswer: 'dog, cat',
+        parts: [],
+      });
+      expect(answer([0]).verdict).toBe('incorrect');
+      expect(answer([0, 1, 2]).verdict).toBe('incorrect');
+    });
+
+    it('debería corregir una traducción con las opciones indicadas', () => {
+      const payload = ExercisePayload.create({
+        type: 'translate',
+        sourceText: 'Good morning',
+        acceptedTranslations: ['Buenos días'],
+      });
+
+      const strict = evaluateAnswer(payload, {
+        type: 'translate',
+        text: 'buenos dias',
+      });
+      const lenient = evaluateAnswer(
+        payload,
+        { type: 'translate', text: 'buenos dias' },
+        { forgiveDiacritics: true }
+      );
+
+      expect(strict.verdict).toBe('almost_correct');
+      expect(strict.correctAnswer).toBe('Buenos días');
+      expect(lenient.verdict).toBe('correct');
+    });
+
+    it('debería corregir un dictado como texto libre', () => {
+      const payload = ExercisePayload.create({
+        type: 'dictation',
+        audioUrl: 'https://cdn.example.com/audio/1.mp3',
+        acceptedAnswers: ['How are you?'],
+      });
+
+      const result = evaluateAnswer(payload, {
+        type: 'dictation',
+        text: 'how are yuo',
+      });
+
+      expect(result.verdict).toBe('almost_correct');
+      expect(result.parts).toHaveLength(1);
+    });
+
+    it('debería corregir cada hueco y dar como veredicto el peor', () => {
+      const payload = ExercisePayload.create({
+        type: 'fill_blank',
+        text: 'She ___ a teacher and they ___ students',
+        blanks: [
+          { acceptedAnswers: ['is'] },
+          { acceptedAnswers: ['are', "'re"] },
+        ],
+      });
+      const answer = (blanks: string[]) =>
+        evaluateAnswer(payload, { type: 'fill_blank', blanks });
+
+      const correct = answer(['IS', 'are']);
+      expect(correct.verdict).toBe('correct');
+      expect(correct.correctAnswer).toBe(
+        'She is a teacher and they are students'
+      );
+      expect(answer(['is', 'am']).verdict).toBe('incorrect');
+      expect(answer(['is']).parts[1].verdict).toBe('incorrect');
+    });
+
+    it('debería corregir las parejas sin tolerar erratas', () => {
+      const payload = ExercisePayload.create({
+        type: 'match_pairs',
+        pairs: [
+          { left: 'perro', right: 'dog' },
+          { left: 'gato', right: 'cat' },
+        ],
+      });
+      const answer = (pairs: { left: string; right: string }[]) =>
+        evaluateAnswer(payload, { type: 'match_pairs', pairs });
+
+      const correct = answer([
+        { left: 'gato', right: 'cat' },
+        { left: 'perro', right: 'dog' },
+      ]);
+      expect(correct.verdict).toBe('correct');
+      expect(correct.correctAnswer).toBe('perro = dog, gato = cat');
+
+      const swapped = answer([
+        { left: 'perro', right: 'cat' },
+        { left: 'gato', right: 'dog' },
+      ]);
+      expect(swapped.verdict).toBe('incorrect');
+      expect(swapped.parts.map((part) => part.verdict)).toEqual([
+        'incorrect',
+        'incorrect',
+      ]);
+    });
+
+    it('debería corregir el orden de las palabras y señalar las que sobran o faltan', () => {
+      const payload = ExercisePayload.create({
+        type: 'word_order',
+        words: ['I', 'like', 'green', 'tea'],
+        distractors: ['likes'],
+      });
+      const answer = (words: string[]) =>
+        evaluateAnswer(payload, { type: 'word_order', words });
+
+      expect(answer(['I', 'like', 'green', 'tea']).verdict).toBe('correct');
+
+      const wrong = answer(['I', 'likes', 'green', 'tea']);
+      expect(wrong.verdict).toBe('incorrect');
+      expect(wrong.correctAnswer).toBe('I like green tea');
+      expect(wrong.parts[0].differences).toEqual([
+        { type: 'equal', text: 'i' },
+        { type: 'extra', text: 'likes' },
+        { type: 'missing', text: 'like' },
+        { type: 'equal', text: 'green tea' },
+      ]);
+    });
+
+    it('debería rechazar una respuesta de otro tipo de ejercicio', () => {
+      const payload = ExercisePayload.create({
+        type: 'translate',
+        sourceText: 'Hola',
+        acceptedTranslations: ['Hello'],
+      });
+
+      expect(() =>
+        evaluateAnswer(payload, { type: 'dictation', text: 'Hello' })
+      ).toThrow(AnswerTypeMismatchError);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+// src/core/domain/services/__tests__/ContentHierarchy.test.ts
+
+import {
+  childKindOf,
+  collectCascade,
+  ContentRef,
+  OrderedSibling,
+  parentKindOf,
+  placeAmongSiblings,
+  reorderSiblings,
+} from '@/core/domain/services/ContentHierarchy';
+import { Position } from '@/core/domain/value-objects/Position';
+import {
+  InvalidReorderError,
+  PositionTakenError,
+} from '@/core/domain/errors/ContentHierarchyErrors';
+
+describe('ContentHierarchy', () => {
+  const sibling = (id: string, position: number): OrderedSibling => ({
+    id,
+    parentId: 'module-1',
+    position: new Position(position),
+  });
+
+  describe('parentKindOf / childKindOf', () => {
+    it('debería recorrer la jerarquía Course → Level → Section → Module → Lesson', () => {
+      expect(parentKindOf('level')).toBe('course');
+      expect(parentKindOf('lesson')).toBe('module');
+      expect(childKindOf('course')).toBe('level');
+      expect(childKindOf('section')).toBe('module');
+      expect(childKindOf('lesson')).toBeNull();
+    });
+  });
+
+  describe('placeAmongSiblings', () => {
+    it('debería usar la posición 1 en un contenedor vacío', () => {
+      expect(placeAmongSiblings('lesson', 'module-1', []).value).toBe(1);
+    });
+
+    it('debería colocar detrás del último hermano aunque haya huecos', () => {
+      const siblings = [sibling('a', 4), sibling('b', 2)];
+
+      expect(placeAmongSiblings('lesson', 'module-1', siblings).value).toBe(5);
+    });
+
+    it('debería aceptar una posición libre y rechazar una ocupada', () => {
+      const siblings = [sibling('a', 1), sibling('b', 3)];
+
+      expect(
+        placeAmongSiblings('lesson', 'module-1', siblings, new Position(2))
+          .value
+      ).toBe(2);
+      expect(() =>
+        placeAmongSiblings('lesson', 'module-1', siblings, new Position(3))
+      ).toThrow(PositionTakenError);
+    });
+
+    it('debería fallar si los hermanos son de otro contenedor', () => {
+      expect(() =>
+        placeAmongSiblings('lesson', 'module-2', [sibling('a', 1)])
+      ).toThrow('no pertenecen al contenedor module-2');
+    });
+  });
+
+  describe('reorderSiblings', () => {
+    const siblings = [sibling('a', 1), sibling('b', 2), sibling('c', 7)];
+
+    it('debería asignar las posiciones 1..n en el orden indicado', () => {
+      const positions = reorderSiblings('lesson', 'module-1', siblings, [
+        'c',
+        'a',
+        'b',
+      ]);
+
+      expect(
+        [...positions].map(([id, position]) => [id, position.value])
+      ).toEqual([
+        ['c', 1],
+        ['a', 2],
+        ['b', 3],
+      ]);
+    });
+
+    it.each([
+      ['falta un hermano', ['a', 'b']],
+      ['sobra un id', ['a', 'b', 'c', 'd']],
+      ['un id no es del contenedor', ['a', 'b', 'd']],
+      ['hay ids repetidos', ['a', 'a', 'b']],
+    ])('debería rechazar el orden si %s', (_case, orderedIds) => {
+      expect(() =>
+        reorderSiblings('lesson', 'module-1', siblings, orderedIds)
+      ).toThrow(InvalidReorderError);
+    });
+  });
+
+  describe('collectCascade', () => {
+    // course-1 → level-1 → (section-1 → module-1 → lesson-1, lesson-2), section-2
+    const children: Record<string, string[]> = {
+      'course-1': ['level-1'],
+      'level-1': ['section-1', 'section-2'],
+      'section-1': ['module-1'],
+      'module-1': ['lesson-1', 'lesson-2'],
+    };
+    const childrenOf = (parent: ContentRef) => children[parent.id] ?? [];
+
+    it('debería devolver el elemento y todos sus descendientes, de las hojas a la raíz', () => {
+      expect(
+        collectCascade({ kind: 'section', id: 'section-1' }, childrenOf)
+      ).toEqual([
+        { kind: 'lesson', id: 'lesson-1' },
+        { kind: 'lesson', id: 'lesson-2' },
+        { kind: 'module', id: 'module-1' },
+        { kind: 'section', id: 'section-1' },
+      ]);
+    });
+
+    it('debería incluir todo el curso al borrar el curso', () => {
+      const refs = collectCascade(
+        { kind: 'course', id: 'course-1' },
+        childrenOf
+      );
+
+      expect(refs).toHaveLength(7);
+      expect(refs[refs.length - 1]).toEqual({ kind: 'course', id: 'course-1' });
+    });
+
+    it('no debería consultar los hijos de una lección', () => {
+      const childrenOfSpy = jest.fn(childrenOf);
+
+      expect(
+        collectCascade({ kind: 'lesson', id: 'lesson-1' }, childrenOfSpy)
+      ).toEqual([{ kind: 'lesson', id: 'lesson-1' }]);
+      expect(childrenOfSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+// src/core/domain/services/__tests__/LearnerExercise.test.ts
+
+import { toLearnerExercise } from '@/core/domain/services/LearnerExercise';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+
+// Sin barajar: Fisher-Yates con random() ≈ 1 deja cada pieza en su sitio
+const noShuffle = () => 0.999;
+
+describe('LearnerExercise', () => {
+  it('debería quitar las opciones correctas de los ejercicios de elección', () => {
+    const multipleChoice = toLearnerExercise(
+      ExercisePayload.create({
+        type: 'multiple_choice',
+        prompt: '¿Cómo se dice "gato"?',
+        options: ['cat', 'dog', 'kitty'],
+        correctOptionIndexes: [0, 2],
+      })
+    );
+    const listening = toLearnerExercise(
+      ExercisePayload.create({
+        type: 'listening',
+        audioUrl: 'https://cdn.wayrapp.test/a.mp3',
+        question: '¿Qué palabra oyes?',
+        options: ['cat', 'dog'],
+        correctOptionIndexes: [1],
+      })
+    );
+
+    expect(multipleChoice).toEqual({
+      type: 'multiple_choice',
+      prompt: '¿Cómo se dice "gato"?',
+      options: ['cat', 'dog', 'kitty'],
+      multipleAnswers: true,
+    });
+    expect(listening).toEqual({
+      type: 'listening',
+      audioUrl: 'https://cdn.wayrapp.test/a.mp3',
+      question: '¿Qué palabra oyes?',
+      options: ['cat', 'dog'],
+      multipleAnswers: false,
+    });
+  });
+
+  it('debería quitar las respuestas aceptadas de los ejercicios de texto', () => {
+    expect(
+      toLearnerExercise(
+        ExercisePayload.create({
+          type: 'translate',
+          sourceText: 'hola',
+          acceptedTranslations: ['hello'],
+        })
+      )
+    ).toEqual({ type: 'translate', sourceText: 'hola' });
+    expect(
+      toLearnerExercise(
+        ExercisePayload.create({
+          type: 'dictation',
+          audioUrl: 'https://cdn.wayrapp.test/b.mp3',
+          acceptedAnswers: ['good morning'],
+        })
+      )
+    ).toEqual({
+      type: 'dictation',
+      audioUrl: 'https://cdn.wayrapp.test/b.mp3',
+    });
+    expect(
+      toLearnerExercise(
+        ExercisePayload.create({
+          type: 'fill_blank',
+          text: 'I ___ a ___',
+          blanks: [{ acceptedAnswers: ['am'] }, { acceptedAnswers: ['cat'] }],
+        })
+      )
+    ).toEqual({ type: 'fill_blank', text: 'I ___ a ___', blankCount: 2 });
+  });
+
+  it('debería barajar las parejas para que ninguna fila vaya con su pareja en orden', () => {
+    const learner = toLearnerExercise(
+      ExercisePayload.create({
+        type: 'match_pairs',
+        pairs: [
+          { left: 'gato', right: 'cat' },
+          { left: 'perro', right: 'dog' },
+          { left: 'pez', right: 'fish' },
+        ],
+      }),
+      noShuffle
+    );
+
+    expect(learner).toEqual({
+      type: 'match_pairs',
+      left: ['gato', 'perro', 'pez'],
+      right: ['dog', 'fish', 'cat'],
+    });
+  });
+
+  it('debería mezclar las palabras y los distractores fuera del orden correcto', () => {
+    const payload = ExercisePayload.create({
+      type: 'word_order',
+      prompt: 'Ordena la frase',
+      words: ['I', 'am', 'here'],
+      distractors: ['is'],
+    });
+
+    const unshuffled = toLearnerExercise(payload, noShuffle);
+    const shuffled = toLearnerExercise(payload, () => 0);
+
+    expect(unshuffled).toEqual({
+      type: 'word_order',
+      prompt: 'Ordena la frase',
+      words: ['am', 'here', 'is', 'I'],
+    });
+    expect(shuffled).toEqual(
+      expect.objectContaining({ words: ['am', 'here', 'is', 'I'] })
+    );
+  });
+});
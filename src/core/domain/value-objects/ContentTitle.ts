@@ -0,0 +1,41 @@
+// src/core/domain/value-objects/ContentTitle.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+/**
+ * Título de un elemento de contenido (curso, nivel, sección, módulo o
+ * lección). Se guarda sin espacios al principio ni al final.
+ */
+export class ContentTitle {
+  static readonly MAX_LENGTH = 200;
+  public readonly value: string;
+
+  constructor(value: string) {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+
+    if (trimmed.length === 0) {
+      throw new DomainValidationError(
+        'CONTENT_TITLE_REQUIRED',
+        'El título no puede estar vacío'
+      );
+    }
+
+    if (trimmed.length > ContentTitle.MAX_LENGTH) {
+      throw new DomainValidationError(
+        'CONTENT_TITLE_TOO_LONG',
+        `El título no puede exceder los ${ContentTitle.MAX_LENGTH} caracteres`,
+        { max: ContentTitle.MAX_LENGTH }
+      );
+    }
+
+    this.value = trimmed;
+  }
+
+  equals(other: ContentTitle): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
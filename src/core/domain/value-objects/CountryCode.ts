@@ -1,5 +1,7 @@
 // src/core/domain/value-objects/CountryCode.ts
 
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
 export class CountryCode {
   private static readonly VALID_CODES = [
     // América del Norte
@@ -243,11 +245,17 @@ export class CountryCode {
 
   private validate(): void {
     if (!this.value || this.value.trim().length === 0) {
-      throw new Error('El código de país no puede estar vacío');
+      throw new DomainValidationError(
+        'COUNTRY_CODE_INVALID',
+        'El código de país no puede estar vacío'
+      );
     }
 
     if (this.value.length !== 2) {
-      throw new Error('El código de país debe tener exactamente 2 caracteres');
+      throw new DomainValidationError(
+        'COUNTRY_CODE_INVALID',
+        'El código de país debe tener exactamente 2 caracteres'
+      );
     }
 
     if (
@@ -255,7 +263,8 @@ export class CountryCode {
         this.value as (typeof CountryCode.VALID_CODES)[number]
       )
     ) {
-      throw new Error(
+      throw new DomainValidationError(
+        'COUNTRY_CODE_INVALID',
         `Código de país inválido: ${this.value}. Debe ser un código ISO 3166-1 válido`
       );
     }
@@ -1,11 +1,13 @@
 // src/core/domain/value-objects/Email.ts
 
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
 export class Email {
   private readonly _value: string;
 
   constructor(value: string) {
     if (!this.isValid(value)) {
-      throw new Error('Email inválido');
+      throw new DomainValidationError('EMAIL_INVALID', 'Email inválido');
     }
     this._value = value.toLowerCase().trim();
   }
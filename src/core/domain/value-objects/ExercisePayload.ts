@@ -0,0 +1,261 @@
+// src/core/domain/value-objects/ExercisePayload.ts
+
+import { z } from 'zod';
+import {
+  ExercisePayloadIssue,
+  InvalidExercisePayloadError,
+} from '@/core/domain/errors/ExerciseErrors';
+
+// Marca de cada hueco en el texto de un ejercicio fill_blank
+export const BLANK_MARKER = '___';
+
+const text = (max: number) =>
+  z
+    .string({ message: 'Debe ser un texto' })
+    .trim()
+    .min(1, 'No puede estar vacío')
+    .max(max, `No puede exceder los ${max} caracteres`);
+
+// Respuestas aceptadas: la primera es la canónica, el resto variantes válidas
+const acceptedAnswers = z
+  .array(text(500), { message: 'Debe ser una lista de respuestas' })
+  .min(1, 'Debe haber al menos una respuesta aceptada')
+  .max(20, 'No puede haber más de 20 respuestas aceptadas');
+
+const audioUrl = z.url({
+  protocol: /^https?$/,
+  message: 'Debe ser una URL http(s)',
+});
+
+// Opciones de elección múltiple con al menos una correcta
+const choice = {
+  options: z
+    .array(text(200), { message: 'Debe ser una lista de opciones' })
+    .min(2, 'Debe haber al menos 2 opciones')
+    .max(10, 'No puede haber más de 10 opciones'),
+  correctOptionIndexes: z
+    .array(z.number().int().min(0), {
+      message: 'Debe ser una lista de posiciones de opciones',
+    })
+    .min(1, 'Debe haber al menos una opción correcta'),
+};
+
+function refineChoice(
+  payload: { options: string[]; correctOptionIndexes: number[] },
+  ctx: z.RefinementCtx
+): void {
+  if (hasDuplicates(payload.options)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['options'],
+      message: 'Las opciones no pueden repetirse',
+    });
+  }
+  if (
+    hasDuplicates(payload.correctOptionIndexes.map(String)) ||
+    payload.correctOptionIndexes.some(
+      (index) => index >= payload.options.length
+    )
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['correctOptionIndexes'],
+      message: 'Cada opción correcta debe ser una opción distinta existente',
+    });
+  }
+}
+
+const MultipleChoiceSchema = z
+  .object({
+    type: z.literal('multiple_choice'),
+    prompt: text(500),
+    ...choice,
+  })
+  .superRefine(refineChoice);
+
+const TranslateSchema = z.object({
+  type: z.literal('translate'),
+  sourceText: text(500),
+  acceptedTranslations: acceptedAnswers,
+});
+
+const FillBlankSchema = z
+  .object({
+    type: z.literal('fill_blank'),
+    // Texto con una marca BLANK_MARKER por hueco, en orden
+    text: text(1000),
+    blanks: z
+      .array(z.object({ acceptedAnswers }), {
+        message: 'Debe ser una lista de huecos',
+      })
+      .min(1, 'Debe haber al menos un hueco'),
+  })
+  .superRefine((payload, ctx) => {
+    const markers = payload.text.split(BLANK_MARKER).length - 1;
+    if (markers !== payload.blanks.length) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['blanks'],
+        message: `El texto tiene ${markers} huecos (${BLANK_MARKER}) y se indicaron ${payload.blanks.length}`,
+      });
+    }
+  });
+
+const MatchPairsSchema = z
+  .object({
+    type: z.literal('match_pairs'),
+    pairs: z
+      .array(z.object({ left: text(200), right: text(200) }), {
+        message: 'Debe ser una lista de parejas',
+      })
+      .min(2, 'Debe haber al menos 2 parejas')
+      .max(12, 'No puede haber más de 12 parejas'),
+  })
+  .superRefine((payload, ctx) => {
+    if (
+      hasDuplicates(payload.pairs.map((pair) => pair.left)) ||
+      hasDuplicates(payload.pairs.map((pair) => pair.right))
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['pairs'],
+        message: 'Cada lado de las parejas debe ser distinto',
+      });
+    }
+  });
+
+const WordOrderSchema = z.object({
+  type: z.literal('word_order'),
+  prompt: text(500).optional(),
+  // Palabras en el orden correcto; se muestran desordenadas
+  words: z
+    .array(text(50), { message: 'Debe ser una lista de palabras' })
+    .min(2, 'Debe haber al menos 2 palabras')
+    .max(30, 'No puede haber más de 30 palabras'),
+  // Palabras de más que no forman parte de la respuesta
+  distractors: z
+    .array(text(50), { message: 'Debe ser una lista de palabras' })
+    .max(10, 'No puede haber más de 10 distractores')
+    .default([]),
+});
+
+const ListeningSchema = z
+  .object({
+    type: z.literal('listening'),
+    audioUrl,
+    question: text(500),
+    ...choice,
+  })
+  .superRefine(refineChoice);
+
+const DictationSchema = z.object({
+  type: z.literal('dictation'),
+  audioUrl,
+  acceptedAnswers,
+});
+
+const ExercisePayloadSchema = z.discriminatedUnion(
+  'type',
+  [
+    MultipleChoiceSchema,
+    TranslateSchema,
+    FillBlankSchema,
+    MatchPairsSchema,
+    WordOrderSchema,
+    ListeningSchema,
+    DictationSchema,
+  ],
+  { message: 'Tipo de ejercicio desconocido' }
+);
+
+export type ExercisePayloadData = z.infer<typeof ExercisePayloadSchema>;
+export type ExerciseType = ExercisePayloadData['type'];
+export type ExercisePayloadOf<T extends ExerciseType> = Extract<
+  ExercisePayloadData,
+  { type: T }
+>;
+
+export const EXERCISE_TYPES: readonly ExerciseType[] = [
+  'multiple_choice',
+  'translate',
+  'fill_blank',
+  'match_pairs',
+  'word_order',
+  'listening',
+  'dictation',
+];
+
+/**
+ * Contenido de un ejercicio: una unión discriminada por `type` con un
+ * esquema Zod por tipo de ejercicio. Solo se crea con datos válidos para su
+ * tipo.
+ *
+ * Se guarda como JSON junto a su versión de esquema. Si cambia el formato de
+ * algún tipo, se sube CURRENT_VERSION y se añade a UPGRADES la conversión
+ * desde la versión anterior, para poder leer los payloads ya guardados.
+ */
+export class ExercisePayload {
+  static readonly CURRENT_VERSION = 1;
+
+  // Conversión de un payload de la versión N (clave) a la N + 1
+  private static readonly UPGRADES: Record<number, (data: unknown) => unknown> =
+    {};
+
+  private constructor(public readonly data: ExercisePayloadData) {}
+
+  /**
+   * Valida un payload en el formato actual.
+   * @throws InvalidExercisePayloadError con el fallo de cada campo.
+   */
+  static create(data: unknown): ExercisePayload {
+    const result = ExercisePayloadSchema.safeParse(data);
+    if (!result.success) {
+      throw new InvalidExercisePayloadError(
+        ExercisePayload.issuesOf(result.error)
+      );
+    }
+    return new ExercisePayload(result.data);
+  }
+
+  /**
+   * Reconstruye un payload guardado con la versión de esquema `version`,
+   * convirtiéndolo antes al formato actual si es de una versión anterior.
+   */
+  static fromPersistence(data: unknown, version: number): ExercisePayload {
+    if (
+      !Number.isInteger(version) ||
+      version < 1 ||
+      version > ExercisePayload.CURRENT_VERSION
+    ) {
+      throw new Error(
+        `Versión de payload de ejercicio no soportada: ${version}`
+      );
+    }
+
+    let upgraded = data;
+    for (let from = version; from < ExercisePayload.CURRENT_VERSION; from++) {
+      upgraded = ExercisePayload.UPGRADES[from](upgraded);
+    }
+    return ExercisePayload.create(upgraded);
+  }
+
+  get type(): ExerciseType {
+    return this.data.type;
+  }
+
+  get version(): number {
+    return ExercisePayload.CURRENT_VERSION;
+  }
+
+  private static issuesOf(error: z.ZodError): ExercisePayloadIssue[] {
+    return error.issues.map((issue) => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : 'payload',
+      message: issue.message,
+    }));
+  }
+}
+
+function hasDuplicates(values: string[]): boolean {
+  const normalized = values.map((value) => value.trim().toLowerCase());
+  return new Set(normalized).size !== normalized.length;
+}
@@ -0,0 +1,52 @@
+// src/core/domain/value-objects/LanguageCode.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+/**
+ * Código de idioma: ISO 639-1 en minúsculas, opcionalmente con la región
+ * ISO 3166-1 en mayúsculas (`es`, `en`, `pt-BR`). Se normaliza al crearlo,
+ * así que `PT-br` y `pt_BR` se guardan como `pt-BR`.
+ */
+export class LanguageCode {
+  private static readonly VALID_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+  public readonly value: string;
+
+  constructor(value: string) {
+    const normalized = LanguageCode.normalize(value);
+    if (!LanguageCode.VALID_PATTERN.test(normalized)) {
+      throw new DomainValidationError(
+        'LANGUAGE_CODE_INVALID',
+        'Código de idioma inválido. Debe ser un código ISO 639-1, opcionalmente con región (es, pt-BR)'
+      );
+    }
+    this.value = normalized;
+  }
+
+  /**
+   * Idioma sin la región (`pt` para `pt-BR`)
+   */
+  get language(): string {
+    return this.value.slice(0, 2);
+  }
+
+  equals(other: LanguageCode): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  private static normalize(value: string): string {
+    if (typeof value !== 'string') {
+      return '';
+    }
+    const [language = '', region, ...rest] = value.trim().split(/[-_]/);
+    if (rest.length > 0) {
+      return value;
+    }
+    return region === undefined
+      ? language.toLowerCase()
+      : `${language.toLowerCase()}-${region.toUpperCase()}`;
+  }
+}
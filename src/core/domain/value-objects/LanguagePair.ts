@@ -0,0 +1,35 @@
+// src/core/domain/value-objects/LanguagePair.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+import { LanguageCode } from './LanguageCode';
+
+/**
+ * Par de idiomas de un curso: el que ya habla el alumno (`source`, en el que
+ * van las explicaciones) y el que aprende (`target`). Tienen que ser idiomas
+ * distintos; dos variantes regionales del mismo idioma no cuentan como par.
+ */
+export class LanguagePair {
+  constructor(
+    public readonly source: LanguageCode,
+    public readonly target: LanguageCode
+  ) {
+    if (source.language === target.language) {
+      throw new DomainValidationError(
+        'LANGUAGE_PAIR_INVALID',
+        'El idioma de origen y el idioma que se aprende deben ser distintos'
+      );
+    }
+  }
+
+  static of(source: string, target: string): LanguagePair {
+    return new LanguagePair(new LanguageCode(source), new LanguageCode(target));
+  }
+
+  equals(other: LanguagePair): boolean {
+    return this.source.equals(other.source) && this.target.equals(other.target);
+  }
+
+  toString(): string {
+    return `${this.source.value}→${this.target.value}`;
+  }
+}
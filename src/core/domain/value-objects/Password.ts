@@ -1,5 +1,15 @@
 // src/core/domain/value-objects/Password.ts
 
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+/**
+ * Requisitos de complejidad, con los mismos nombres que getComplexityInfo().
+ * Viajan en los params de PASSWORD_TOO_WEAK para poder redactar el mensaje
+ * en cualquier idioma
+ */
+export type PasswordRequirement =
+  'hasLowerCase' | 'hasUpperCase' | 'hasNumber' | 'hasSpecialChar';
+
 export class PlainPassword {
   private readonly _value: string;
 
@@ -8,6 +18,16 @@ export class PlainPassword {
   private static readonly MAX_LENGTH = 100;
   private static readonly ALLOWED_SPECIAL_CHARS = '!@#$%^&*()_+-=[]{}|;:,./?';
 
+  private static readonly REQUIREMENT_DESCRIPTIONS: Record<
+    PasswordRequirement,
+    string
+  > = {
+    hasLowerCase: 'al menos una letra minúscula (a-z)',
+    hasUpperCase: 'al menos una letra mayúscula (A-Z)',
+    hasNumber: 'al menos un número (0-9)',
+    hasSpecialChar: `al menos un carácter especial (${PlainPassword.ALLOWED_SPECIAL_CHARS})`,
+  };
+
   // Patrones de validación
   private static readonly PATTERNS = {
     hasLowerCase: /[a-z]/,
@@ -113,19 +133,25 @@ export class PlainPassword {
   private validatePassword(value: string): void {
     // Validación básica de tipo y existencia
     if (!value || typeof value !== 'string') {
-      throw new Error('La contraseña debe ser una cadena de texto válida');
+      throw new DomainValidationError(
+        'PASSWORD_REQUIRED',
+        'La contraseña debe ser una cadena de texto válida'
+      );
     }
 
     // Validación de longitud
     if (!this.isValidLength(value)) {
-      throw new Error(
-        `La contraseña debe tener entre ${PlainPassword.MIN_LENGTH} y ${PlainPassword.MAX_LENGTH} caracteres`
+      throw new DomainValidationError(
+        'PASSWORD_LENGTH_INVALID',
+        `La contraseña debe tener entre ${PlainPassword.MIN_LENGTH} y ${PlainPassword.MAX_LENGTH} caracteres`,
+        { min: PlainPassword.MIN_LENGTH, max: PlainPassword.MAX_LENGTH }
       );
     }
 
     // Validación de seguridad (caracteres peligrosos e inyecciones)
     if (!this.isSecurePassword(value)) {
-      throw new Error(
+      throw new DomainValidationError(
+        'PASSWORD_UNSAFE',
         'La contraseña contiene caracteres no permitidos o patrones de seguridad peligrosos'
       );
     }
@@ -133,7 +159,15 @@ export class PlainPassword {
     // Validación de complejidad
     const missing = this.getMissingRequirements(value);
     if (missing.length > 0) {
-      throw new Error(`La contraseña debe incluir: ${missing.join(', ')}`);
+      throw new DomainValidationError(
+        'PASSWORD_TOO_WEAK',
+        `La contraseña debe incluir: ${missing
+          .map(
+            (requirement) => PlainPassword.REQUIREMENT_DESCRIPTIONS[requirement]
+          )
+          .join(', ')}`,
+        { missing, specialChars: PlainPassword.ALLOWED_SPECIAL_CHARS }
+      );
     }
   }
 
@@ -171,27 +205,19 @@ export class PlainPassword {
   /**
    * Obtiene una lista de requisitos faltantes
    */
-  private getMissingRequirements(value: string): string[] {
-    const missing: string[] = [];
+  private getMissingRequirements(value: string): PasswordRequirement[] {
     const { hasLowerCase, hasUpperCase, hasNumber, hasSpecialChar } =
       PlainPassword.PATTERNS;
-
-    if (!hasLowerCase.test(value)) {
-      missing.push('al menos una letra minúscula (a-z)');
-    }
-    if (!hasUpperCase.test(value)) {
-      missing.push('al menos una letra mayúscula (A-Z)');
-    }
-    if (!hasNumber.test(value)) {
-      missing.push('al menos un número (0-9)');
-    }
-    if (!hasSpecialChar.test(value)) {
-      missing.push(
-        `al menos un carácter especial (${PlainPassword.ALLOWED_SPECIAL_CHARS})`
-      );
-    }
-
-    return missing;
+    const checks: [PasswordRequirement, RegExp][] = [
+      ['hasLowerCase', hasLowerCase],
+      ['hasUpperCase', hasUpperCase],
+      ['hasNumber', hasNumber],
+      ['hasSpecialChar', hasSpecialChar],
+    ];
+
+    return checks
+      .filter(([, pattern]) => !pattern.test(value))
+      .map(([requirement]) => requirement);
   }
 }
 
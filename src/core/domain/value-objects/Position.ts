@@ -0,0 +1,35 @@
+// src/core/domain/value-objects/Position.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+/**
+ * Posición de un elemento de contenido entre sus hermanos (1 es el primero).
+ * Las posiciones no tienen por qué ser consecutivas, pero no se repiten
+ * dentro del mismo contenedor (ver ContentHierarchy).
+ */
+export class Position {
+  constructor(public readonly value: number) {
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new DomainValidationError(
+        'POSITION_INVALID',
+        'La posición debe ser un número entero mayor que 0'
+      );
+    }
+  }
+
+  static first(): Position {
+    return new Position(1);
+  }
+
+  next(): Position {
+    return new Position(this.value + 1);
+  }
+
+  equals(other: Position): boolean {
+    return this.value === other.value;
+  }
+
+  compareTo(other: Position): number {
+    return this.value - other.value;
+  }
+}
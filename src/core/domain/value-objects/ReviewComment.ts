@@ -0,0 +1,37 @@
+// src/core/domain/value-objects/ReviewComment.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+/**
+ * Comentario de un administrador al revisar una publicación (obligatorio al
+ * rechazarla). Se guarda sin espacios al principio ni al final.
+ */
+export class ReviewComment {
+  static readonly MAX_LENGTH = 2000;
+  public readonly value: string;
+
+  constructor(value: string) {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+
+    if (trimmed.length === 0) {
+      throw new DomainValidationError(
+        'REVIEW_COMMENT_REQUIRED',
+        'El comentario de la revisión no puede estar vacío'
+      );
+    }
+
+    if (trimmed.length > ReviewComment.MAX_LENGTH) {
+      throw new DomainValidationError(
+        'REVIEW_COMMENT_TOO_LONG',
+        `El comentario de la revisión no puede exceder los ${ReviewComment.MAX_LENGTH} caracteres`,
+        { max: ReviewComment.MAX_LENGTH }
+      );
+    }
+
+    this.value = trimmed;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
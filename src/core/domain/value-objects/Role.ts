@@ -1,5 +1,7 @@
 // src/core/domain/value-objects/Role.ts
 
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
 export type RoleType = 'student' | 'content_creator' | 'admin';
 
 export class Role {
@@ -12,7 +14,7 @@ export class Role {
 
   constructor(value: string) {
     if (!this.isValid(value)) {
-      throw new Error('Role inválido');
+      throw new DomainValidationError('ROLE_INVALID', 'Role inválido');
     }
     this._value = value.trim() as RoleType;
   }
@@ -0,0 +1,53 @@
+// src/core/domain/value-objects/Slug.ts
+
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+/**
+ * Identificador legible para URLs (por ejemplo `ingles-para-hispanohablantes`):
+ * minúsculas sin acentos, números y guiones simples.
+ */
+export class Slug {
+  static readonly MAX_LENGTH = 100;
+  private static readonly VALID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+  constructor(public readonly value: string) {
+    this.validate();
+  }
+
+  /**
+   * Genera el slug de un texto libre (normalmente un título): quita acentos,
+   * pasa a minúsculas y une las palabras con guiones
+   */
+  static fromText(text: string): Slug {
+    const slug = text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '') // Marcas diacríticas tras NFD
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .slice(0, Slug.MAX_LENGTH)
+      .replace(/^-+|-+$/g, '');
+    return new Slug(slug);
+  }
+
+  equals(other: Slug): boolean {
+    return this.value === other.value;
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  private validate(): void {
+    if (
+      typeof this.value !== 'string' ||
+      this.value.length > Slug.MAX_LENGTH ||
+      !Slug.VALID_PATTERN.test(this.value)
+    ) {
+      throw new DomainValidationError(
+        'SLUG_INVALID',
+        `Slug inválido: solo minúsculas, números y guiones simples, con un máximo de ${Slug.MAX_LENGTH} caracteres`,
+        { max: Slug.MAX_LENGTH }
+      );
+    }
+  }
+}
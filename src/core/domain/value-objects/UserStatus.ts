@@ -1,10 +1,29 @@
 // src/core/domain/value-objects/UserStatus.ts
 
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+import {
+  InvalidStatusChangeError,
+  InvalidStatusTransitionError,
+} from '@/core/domain/errors/UserStatusErrors';
+
 export type UserStatusValue =
-  | 'active'
-  | 'confirmation_pending'
-  | 'suspended'
-  | 'banned';
+  'active' | 'confirmation_pending' | 'suspended' | 'banned';
+
+/**
+ * Datos que acompañan al último cambio de estado.
+ * - reason: motivo indicado por quien hizo el cambio
+ * - changedBy: id del usuario que hizo el cambio (null si fue el sistema)
+ * - changedAt: momento del cambio
+ * - suspendedUntil: fin de la suspensión (solo en estado suspended)
+ */
+export interface UserStatusDetails {
+  reason?: string | null;
+  changedBy?: string | null;
+  changedAt?: Date | null;
+  suspendedUntil?: Date | null;
+}
+
+export const MAX_STATUS_REASON_LENGTH = 500;
 
 /**
  * Value Object para el estado de un usuario en el sistema.
@@ -14,9 +33,19 @@ export type UserStatusValue =
  * - confirmation_pending: Usuario registrado pero pendiente de confirmar email
  * - suspended: Usuario temporalmente suspendido (puede ser reactivado)
  * - banned: Usuario permanentemente baneado del sistema
+ *
+ * Transiciones permitidas (ver TRANSITIONS):
+ * - confirmation_pending → active (confirmación de email) | banned
+ * - active → suspended | banned
+ * - suspended → active | suspended (cambiar fin o motivo) | banned
+ * - banned es terminal
  */
 export class UserStatus {
   private readonly _value: UserStatusValue;
+  private readonly _reason: string | null;
+  private readonly _changedBy: string | null;
+  private readonly _changedAt: Date | null;
+  private readonly _suspendedUntil: Date | null;
 
   private static readonly VALID_STATUSES: UserStatusValue[] = [
     'active',
@@ -25,33 +54,98 @@ export class UserStatus {
     'banned',
   ] as const;
 
-  constructor(value: string) {
+  private static readonly TRANSITIONS: Record<
+    UserStatusValue,
+    readonly UserStatusValue[]
+  > = {
+    confirmation_pending: ['active', 'banned'],
+    active: ['suspended', 'banned'],
+    suspended: ['active', 'suspended', 'banned'],
+    banned: [],
+  };
+
+  constructor(value: string, details: UserStatusDetails = {}) {
     this.validate(value);
     this._value = value.trim() as UserStatusValue;
+    this._reason = details.reason ?? null;
+    this._changedBy = details.changedBy ?? null;
+    this._changedAt = details.changedAt ?? null;
+    this._suspendedUntil = details.suspendedUntil ?? null;
+    this.validateDetails();
   }
 
   get value(): UserStatusValue {
     return this._value;
   }
 
+  get reason(): string | null {
+    return this._reason;
+  }
+
+  get changedBy(): string | null {
+    return this._changedBy;
+  }
+
+  get changedAt(): Date | null {
+    return this._changedAt;
+  }
+
+  get suspendedUntil(): Date | null {
+    return this._suspendedUntil;
+  }
+
   // Métodos de validación
   private validate(value: string): void {
     if (!value || typeof value !== 'string') {
-      throw new Error('El estado de usuario no puede estar vacío');
+      throw new DomainValidationError(
+        'USER_STATUS_INVALID',
+        'El estado de usuario no puede estar vacío'
+      );
     }
 
     const trimmedValue = value.trim();
     if (trimmedValue.length === 0) {
-      throw new Error('El estado de usuario no puede estar vacío');
+      throw new DomainValidationError(
+        'USER_STATUS_INVALID',
+        'El estado de usuario no puede estar vacío'
+      );
     }
 
     if (!this.isValidStatus(trimmedValue)) {
-      throw new Error(
+      throw new DomainValidationError(
+        'USER_STATUS_INVALID',
         `Estado de usuario inválido: ${value}. Estados válidos: ${UserStatus.VALID_STATUSES.join(', ')}`
       );
     }
   }
 
+  private validateDetails(): void {
+    if (
+      this._reason !== null &&
+      this._reason.length > MAX_STATUS_REASON_LENGTH
+    ) {
+      throw new InvalidStatusChangeError(
+        `El motivo del cambio de estado no puede superar los ${MAX_STATUS_REASON_LENGTH} caracteres`
+      );
+    }
+
+    if (this._suspendedUntil !== null) {
+      if (
+        !(this._suspendedUntil instanceof Date) ||
+        isNaN(this._suspendedUntil.getTime())
+      ) {
+        throw new InvalidStatusChangeError(
+          'La fecha de fin de suspensión no es válida'
+        );
+      }
+      if (!this.isSuspended()) {
+        throw new InvalidStatusChangeError(
+          'Solo un usuario suspendido puede tener fecha de fin de suspensión'
+        );
+      }
+    }
+  }
+
   private isValidStatus(value: string): value is UserStatusValue {
     return UserStatus.VALID_STATUSES.includes(value as UserStatusValue);
   }
@@ -90,6 +184,31 @@ export class UserStatus {
     return this.isBanned();
   }
 
+  // Una suspensión sin fecha de fin no expira nunca por sí sola
+  isSuspensionExpired(now: Date = new Date()): boolean {
+    return (
+      this.isSuspended() &&
+      this._suspendedUntil !== null &&
+      this._suspendedUntil.getTime() <= now.getTime()
+    );
+  }
+
+  // Máquina de estados
+  canTransitionTo(target: UserStatusValue): boolean {
+    return UserStatus.TRANSITIONS[this._value].includes(target);
+  }
+
+  // Devuelve el nuevo estado o lanza InvalidStatusTransitionError
+  transitionTo(
+    target: UserStatusValue,
+    details: UserStatusDetails = {}
+  ): UserStatus {
+    if (!this.canTransitionTo(target)) {
+      throw new InvalidStatusTransitionError(this._value, target);
+    }
+    return new UserStatus(target, details);
+  }
+
   // Factory methods para crear estados específicos
   static createActive(): UserStatus {
     return new UserStatus('active');
@@ -123,7 +242,7 @@ export class UserStatus {
     return [...UserStatus.VALID_STATUSES];
   }
 
-  // Método de comparación
+  // Método de comparación (solo el valor; los detalles del cambio no cuentan)
   equals(other: UserStatus): boolean {
     return this._value === other._value;
   }
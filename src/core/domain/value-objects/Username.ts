@@ -1,5 +1,7 @@
 // src/core/domain/value-objects/Username.ts
 
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
 export class Username {
   private static readonly MIN_LENGTH = 3;
   private static readonly MAX_LENGTH = 30;
@@ -11,23 +13,31 @@ export class Username {
 
   private validate(): void {
     if (!this.value || this.value.trim().length === 0) {
-      throw new Error('El nombre de usuario no puede estar vacío');
+      throw new DomainValidationError(
+        'USERNAME_REQUIRED',
+        'El nombre de usuario no puede estar vacío'
+      );
     }
 
     if (this.value.length < Username.MIN_LENGTH) {
-      throw new Error(
-        `El nombre de usuario debe tener al menos ${Username.MIN_LENGTH} caracteres`
+      throw new DomainValidationError(
+        'USERNAME_TOO_SHORT',
+        `El nombre de usuario debe tener al menos ${Username.MIN_LENGTH} caracteres`,
+        { min: Username.MIN_LENGTH }
       );
     }
 
     if (this.value.length > Username.MAX_LENGTH) {
-      throw new Error(
-        `El nombre de usuario no puede exceder los ${Username.MAX_LENGTH} caracteres`
+      throw new DomainValidationError(
+        'USERNAME_TOO_LONG',
+        `El nombre de usuario no puede exceder los ${Username.MAX_LENGTH} caracteres`,
+        { max: Username.MAX_LENGTH }
       );
     }
 
     if (!Username.VALID_PATTERN.test(this.value)) {
-      throw new Error(
+      throw new DomainValidationError(
+        'USERNAME_INVALID_CHARACTERS',
         'El nombre de usuario solo puede contener letras, números, guiones y guiones bajos'
       );
     }
@@ -0,0 +1,29 @@
+// src/core/domain/value-objects/__tests__/ContentTitle.test.ts
+
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+
+describe('ContentTitle Value Object', () => {
+  it('debería guardar el título sin espacios al principio ni al final', () => {
+    expect(new ContentTitle('  Saludos básicos ').value).toBe(
+      'Saludos básicos'
+    );
+  });
+
+  it('debería rechazar un título vacío', () => {
+    ['', '   '].forEach((value) => {
+      expect(() => new ContentTitle(value)).toThrow(
+        expect.objectContaining({ code: 'CONTENT_TITLE_REQUIRED' })
+      );
+    });
+  });
+
+  it('debería rechazar títulos de más de 200 caracteres', () => {
+    expect(() => new ContentTitle('a'.repeat(201))).toThrow(
+      expect.objectContaining({
+        code: 'CONTENT_TITLE_TOO_LONG',
+        params: { max: 200 },
+      })
+    );
+    expect(new ContentTitle(` ${'a'.repeat(200)} `).value).toHaveLength(200);
+  });
+});
@@ -0,0 +1,192 @@
+// src/core/domain/value-objects/__tests__/ExercisePayload.test.ts
+
+import {
+  EXERCISE_TYPES,
+  ExercisePayload,
+} from '@/core/domain/value-objects/ExercisePayload';
+import { InvalidExercisePayloadError } from '@/core/domain/errors/ExerciseErrors';
+
+describe('ExercisePayload Value Object', () => {
+  // Un payload válido de cada tipo
+  const validPayloads = {
+    multiple_choice: {
+      type: 'multiple_choice',
+      prompt: '¿Cómo se dice "gato"?',
+      options: ['cat', 'dog', 'bird'],
+      correctOptionIndexes: [0],
+    },
+    translate: {
+      type: 'translate',
+      sourceText: 'Buenos días',
+      acceptedTranslations: ['Good morning', 'Morning'],
+    },
+    fill_blank: {
+      type: 'fill_blank',
+      text: 'I ___ a student and she ___ a teacher',
+      blanks: [{ acceptedAnswers: ['am'] }, { acceptedAnswers: ['is'] }],
+    },
+    match_pairs: {
+      type: 'match_pairs',
+      pairs: [
+        { left: 'perro', right: 'dog' },
+        { left: 'gato', right: 'cat' },
+      ],
+    },
+    word_order: {
+      type: 'word_order',
+      prompt: 'Ordena la frase',
+      words: ['I', 'like', 'tea'],
+    },
+    listening: {
+      type: 'listening',
+      audioUrl: 'https://cdn.example.com/audio/1.mp3',
+      question: '¿Qué fruta se menciona?',
+      options: ['apple', 'pear'],
+      correctOptionIndexes: [1],
+    },
+    dictation: {
+      type: 'dictation',
+      audioUrl: 'https://cdn.example.com/audio/2.mp3',
+      acceptedAnswers: ['How are you?'],
+    },
+  };
+
+  const invalidIssues = (data: unknown) => {
+    try {
+      ExercisePayload.create(data);
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidExercisePayloadError);
+      return (error as InvalidExercisePayloadError).issues;
+    }
+    throw new Error('Se esperaba un payload inválido');
+  };
+
+  describe('create', () => {
+    it('debería aceptar un payload válido de cada tipo de ejercicio', () => {
+      expect(Object.keys(validPayloads).sort()).toEqual(
+        [...EXERCISE_TYPES].sort()
+      );
+
+      for (const data of Object.values(validPayloads)) {
+        const payload = ExercisePayload.create(data);
+
+        expect(payload.type).toBe(data.type);
+        expect(payload.version).toBe(ExercisePayload.CURRENT_VERSION);
+      }
+    });
+
+    it('debería recortar los textos y completar los valores por defecto', () => {
+      const payload = ExercisePayload.create({
+        ...validPayloads.word_order,
+        words: ['  I ', 'like', 'tea'],
+      });
+
+      expect(payload.data).toEqual({
+        type: 'word_order',
+        prompt: 'Ordena la frase',
+        words: ['I', 'like', 'tea'],
+        distractors: [],
+      });
+    });
+
+    it('debería rechazar un tipo de ejercicio desconocido', () => {
+      expect(invalidIssues({ type: 'essay', prompt: 'Escribe algo' })).toEqual([
+        { field: 'type', message: 'Tipo de ejercicio desconocido' },
+      ]);
+      expect(invalidIssues(null)[0].field).toBe('payload');
+    });
+
+    it('debería indicar el campo de cada fallo', () => {
+      const issues = invalidIssues({
+        type: 'translate',
+        sourceText: '  ',
+        acceptedTranslations: [],
+      });
+
+      expect(issues.map((issue) => issue.field)).toEqual([
+        'sourceText',
+        'acceptedTranslations',
+      ]);
+    });
+
+    it('debería rechazar opciones correctas inexistentes o repetidas', () => {
+      [[2], [0, 0]].forEach((correctOptionIndexes) => {
+        expect(
+          invalidIssues({
+            ...validPayloads.listening,
+            correctOptionIndexes,
+          })
+        ).toEqual([expect.objectContaining({ field: 'correctOptionIndexes' })]);
+      });
+    });
+
+    it('debería rechazar opciones repetidas sin distinguir mayúsculas', () => {
+      expect(
+        invalidIssues({
+          ...validPayloads.multiple_choice,
+          options: ['cat', 'Cat'],
+        })
+      ).toEqual([expect.objectContaining({ field: 'options' })]);
+    });
+
+    it('debería exigir tantos huecos como marcas tiene el texto', () => {
+      expect(
+        invalidIssues({
+          ...validPayloads.fill_blank,
+          blanks: [{ acceptedAnswers: ['am'] }],
+        })
+      ).toEqual([expect.objectContaining({ field: 'blanks' })]);
+    });
+
+    it('debería rechazar parejas con un lado repetido', () => {
+      expect(
+        invalidIssues({
+          type: 'match_pairs',
+          pairs: [
+            { left: 'perro', right: 'dog' },
+            { left: 'perro', right: 'cat' },
+          ],
+        })
+      ).toEqual([expect.objectContaining({ field: 'pairs' })]);
+    });
+
+    it('debería exigir una URL http(s) para el audio', () => {
+      expect(
+        invalidIssues({
+          ...validPayloads.dictation,
+          audioUrl: 'ftp://cdn.example.com/audio/2.mp3',
+        })
+      ).toEqual([expect.objectContaining({ field: 'audioUrl' })]);
+    });
+
+    it('debería exponer el primer campo inválido como parámetro del error', () => {
+      expect(() =>
+        ExercisePayload.create({ ...validPayloads.translate, sourceText: '' })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'EXERCISE_PAYLOAD_INVALID',
+          params: { field: 'sourceText' },
+        })
+      );
+    });
+  });
+
+  describe('fromPersistence', () => {
+    it('debería reconstruir un payload de la versión actual', () => {
+      const payload = ExercisePayload.fromPersistence(
+        validPayloads.translate,
+        ExercisePayload.CURRENT_VERSION
+      );
+
+      expect(payload.data).toEqual(validPayloads.translate);
+    });
+
+    it('debería rechazar versiones que no existen', () => {
+      [0, ExercisePayload.CURRENT_VERSION + 1, 1.5].forEach((version) => {
+        expect(() =>
+          ExercisePayload.fromPersistence(validPayloads.translate, version)
+        ).toThrow('Versión de payload de ejercicio no soportada');
+      });
+    });
+  });
+});
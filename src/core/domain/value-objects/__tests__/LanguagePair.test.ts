@@ -0,0 +1,56 @@
+// src/core/domain/value-objects/__tests__/LanguagePair.test.ts
+
+import { LanguageCode } from '@/core/domain/value-objects/LanguageCode';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+describe('LanguageCode Value Object', () => {
+  it('debería aceptar códigos ISO 639-1 con región opcional', () => {
+    expect(new LanguageCode('es').value).toBe('es');
+    expect(new LanguageCode('pt-BR').value).toBe('pt-BR');
+  });
+
+  it('debería normalizar mayúsculas y guiones bajos', () => {
+    expect(new LanguageCode('EN').value).toBe('en');
+    expect(new LanguageCode('pt_br').value).toBe('pt-BR');
+    expect(new LanguageCode(' PT-br ').value).toBe('pt-BR');
+  });
+
+  it('debería rechazar códigos que no son ISO 639-1', () => {
+    ['', 'esp', 'e', 'es-ES-x', 'es-123', '12'].forEach((value) => {
+      expect(() => new LanguageCode(value)).toThrow(
+        expect.objectContaining({ code: 'LANGUAGE_CODE_INVALID' })
+      );
+    });
+  });
+
+  it('debería exponer el idioma sin la región', () => {
+    expect(new LanguageCode('pt-BR').language).toBe('pt');
+  });
+});
+
+describe('LanguagePair Value Object', () => {
+  it('debería crear un par con idiomas distintos', () => {
+    const pair = LanguagePair.of('es', 'pt-BR');
+
+    expect(pair.source.value).toBe('es');
+    expect(pair.target.value).toBe('pt-BR');
+    expect(pair.toString()).toBe('es→pt-BR');
+  });
+
+  it('debería rechazar el mismo idioma, también en variantes regionales', () => {
+    expect(() => LanguagePair.of('es', 'es')).toThrow(DomainValidationError);
+    expect(() => LanguagePair.of('pt', 'pt-BR')).toThrow(
+      expect.objectContaining({ code: 'LANGUAGE_PAIR_INVALID' })
+    );
+  });
+
+  it('debería comparar por valor', () => {
+    expect(
+      LanguagePair.of('es', 'en').equals(LanguagePair.of('es', 'en'))
+    ).toBe(true);
+    expect(
+      LanguagePair.of('es', 'en').equals(LanguagePair.of('en', 'es'))
+    ).toBe(false);
+  });
+});
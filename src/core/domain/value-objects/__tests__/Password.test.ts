@@ -90,6 +90,23 @@ describe('Password Value Objects', () => {
           'La contraseña debe incluir: al menos una letra mayúscula (A-Z), al menos un número (0-9), al menos un carácter especial'
         );
       });
+
+      it('debería lanzar errores de validación con un código estable', () => {
+        expect(() => new PlainPassword('password')).toThrow(
+          expect.objectContaining({
+            code: 'PASSWORD_TOO_WEAK',
+            params: expect.objectContaining({
+              missing: ['hasUpperCase', 'hasNumber', 'hasSpecialChar'],
+            }),
+          })
+        );
+        expect(() => new PlainPassword('Pass1!')).toThrow(
+          expect.objectContaining({ code: 'PASSWORD_LENGTH_INVALID' })
+        );
+        expect(() => new PlainPassword(null as unknown as string)).toThrow(
+          expect.objectContaining({ code: 'PASSWORD_REQUIRED' })
+        );
+      });
     });
 
     describe('security validations', () => {
@@ -0,0 +1,28 @@
+// src/core/domain/value-objects/__tests__/Position.test.ts
+
+import { Position } from '@/core/domain/value-objects/Position';
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+describe('Position Value Object', () => {
+  it('debería aceptar enteros mayores que 0', () => {
+    expect(new Position(1).value).toBe(1);
+    expect(new Position(42).value).toBe(42);
+  });
+
+  it('debería rechazar cero, negativos y decimales', () => {
+    [0, -1, 1.5, NaN, Infinity].forEach((value) => {
+      expect(() => new Position(value)).toThrow(DomainValidationError);
+    });
+  });
+
+  it('debería empezar en 1 y avanzar de uno en uno', () => {
+    expect(Position.first().value).toBe(1);
+    expect(Position.first().next().value).toBe(2);
+  });
+
+  it('debería comparar posiciones', () => {
+    expect(new Position(2).equals(new Position(2))).toBe(true);
+    expect(new Position(1).compareTo(new Position(3))).toBeLessThan(0);
+    expect(new Position(3).compareTo(new Position(1))).toBeGreaterThan(0);
+  });
+});
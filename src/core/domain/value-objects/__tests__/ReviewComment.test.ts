@@ -0,0 +1,28 @@
+// src/core/domain/value-objects/__tests__/ReviewComment.test.ts
+
+import { ReviewComment } from '@/core/domain/value-objects/ReviewComment';
+
+describe('ReviewComment Value Object', () => {
+  it('debería guardar el comentario sin espacios al principio ni al final', () => {
+    expect(new ReviewComment('  Falta el audio de la lección 2 ').value).toBe(
+      'Falta el audio de la lección 2'
+    );
+  });
+
+  it('debería rechazar un comentario vacío', () => {
+    ['', '   '].forEach((value) => {
+      expect(() => new ReviewComment(value)).toThrow(
+        expect.objectContaining({ code: 'REVIEW_COMMENT_REQUIRED' })
+      );
+    });
+  });
+
+  it('debería rechazar comentarios de más de 2000 caracteres', () => {
+    expect(() => new ReviewComment('a'.repeat(2001))).toThrow(
+      expect.objectContaining({
+        code: 'REVIEW_COMMENT_TOO_LONG',
+        params: { max: 2000 },
+      })
+    );
+  });
+});
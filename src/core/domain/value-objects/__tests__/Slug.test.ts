@@ -0,0 +1,63 @@
+// src/core/domain/value-objects/__tests__/Slug.test.ts
+
+import { Slug } from '@/core/domain/value-objects/Slug';
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+
+describe('Slug Value Object', () => {
+  describe('constructor', () => {
+    it('debería aceptar minúsculas, números y guiones simples', () => {
+      ['ingles', 'ingles-a1', 'curso-2025', 'a'].forEach((value) => {
+        expect(new Slug(value).value).toBe(value);
+      });
+    });
+
+    it('debería rechazar mayúsculas, acentos, espacios y guiones mal colocados', () => {
+      [
+        '',
+        'Ingles',
+        'inglés',
+        'ingles a1',
+        '-ingles',
+        'ingles-',
+        'ingles--a1',
+        'ingles_a1',
+      ].forEach((value) => {
+        expect(() => new Slug(value)).toThrow(DomainValidationError);
+      });
+    });
+
+    it('debería rechazar slugs de más de 100 caracteres', () => {
+      expect(() => new Slug('a'.repeat(101))).toThrow(
+        expect.objectContaining({ code: 'SLUG_INVALID', params: { max: 100 } })
+      );
+      expect(new Slug('a'.repeat(100)).value).toHaveLength(100);
+    });
+  });
+
+  describe('fromText', () => {
+    it('debería generar el slug de un título quitando acentos y signos', () => {
+      expect(Slug.fromText('Inglés para hispanohablantes').value).toBe(
+        'ingles-para-hispanohablantes'
+      );
+      expect(Slug.fromText('  ¿Português?  Nível A1!  ').value).toBe(
+        'portugues-nivel-a1'
+      );
+      expect(Slug.fromText('Ñandú & Cía.').value).toBe('nandu-cia');
+    });
+
+    it('debería recortar los títulos largos sin dejar un guion al final', () => {
+      const slug = Slug.fromText(`${'a'.repeat(99)} bcd`);
+
+      expect(slug.value).toBe('a'.repeat(99));
+    });
+
+    it('debería fallar si el texto no tiene letras ni números latinos', () => {
+      expect(() => Slug.fromText('日本語')).toThrow(DomainValidationError);
+    });
+  });
+
+  it('debería comparar por valor', () => {
+    expect(new Slug('ingles').equals(new Slug('ingles'))).toBe(true);
+    expect(new Slug('ingles').equals(new Slug('frances'))).toBe(false);
+  });
+});
@@ -1,6 +1,14 @@
 // src/core/domain/value-objects/__tests__/UserStatus.test.ts
 
-import { UserStatus, UserStatusValue } from '../UserStatus';
+import {
+  MAX_STATUS_REASON_LENGTH,
+  UserStatus,
+  UserStatusValue,
+} from '../UserStatus';
+import {
+  InvalidStatusChangeError,
+  InvalidStatusTransitionError,
+} from '@/core/domain/errors/UserStatusErrors';
 
 describe('UserStatus Value Object', () => {
   describe('constructor', () => {
@@ -209,6 +217,82 @@ describe('UserStatus Value Object', () => {
     });
   });
 
+  describe('máquina de estados', () => {
+    it.each([
+      ['confirmation_pending', 'active'],
+      ['confirmation_pending', 'banned'],
+      ['active', 'suspended'],
+      ['active', 'banned'],
+      ['suspended', 'active'],
+      ['suspended', 'suspended'],
+      ['suspended', 'banned'],
+    ] as const)('debería permitir %s → %s', (from, to) => {
+      expect(new UserStatus(from).canTransitionTo(to)).toBe(true);
+    });
+
+    it.each([
+      ['confirmation_pending', 'suspended'],
+      ['active', 'confirmation_pending'],
+      ['active', 'active'],
+      ['suspended', 'confirmation_pending'],
+      ['banned', 'active'],
+      ['banned', 'suspended'],
+      ['banned', 'banned'],
+    ] as const)('no debería permitir %s → %s', (from, to) => {
+      const status = new UserStatus(from);
+
+      expect(status.canTransitionTo(to)).toBe(false);
+      expect(() => status.transitionTo(to)).toThrow(
+        InvalidStatusTransitionError
+      );
+    });
+
+    it('transitionTo() debería devolver el nuevo estado con sus detalles', () => {
+      const until = new Date('2030-01-01T00:00:00Z');
+      const changedAt = new Date('2029-12-01T00:00:00Z');
+
+      const status = UserStatus.createActive().transitionTo('suspended', {
+        reason: 'Spam',
+        changedBy: 'admin-id',
+        changedAt,
+        suspendedUntil: until,
+      });
+
+      expect(status.value).toBe('suspended');
+      expect(status.reason).toBe('Spam');
+      expect(status.changedBy).toBe('admin-id');
+      expect(status.changedAt).toBe(changedAt);
+      expect(status.suspendedUntil).toBe(until);
+    });
+
+    it('debería rechazar una fecha de fin de suspensión en otro estado', () => {
+      expect(
+        () => new UserStatus('active', { suspendedUntil: new Date() })
+      ).toThrow(InvalidStatusChangeError);
+    });
+
+    it('debería rechazar motivos demasiado largos', () => {
+      expect(
+        () =>
+          new UserStatus('banned', {
+            reason: 'x'.repeat(MAX_STATUS_REASON_LENGTH + 1),
+          })
+      ).toThrow(InvalidStatusChangeError);
+    });
+
+    it('isSuspensionExpired() debería depender de la fecha de fin', () => {
+      const until = new Date('2030-01-01T00:00:00Z');
+      const status = new UserStatus('suspended', { suspendedUntil: until });
+
+      expect(status.isSuspensionExpired(new Date(until.getTime() - 1))).toBe(
+        false
+      );
+      expect(status.isSuspensionExpired(until)).toBe(true);
+      expect(UserStatus.createSuspended().isSuspensionExpired()).toBe(false);
+      expect(UserStatus.createActive().isSuspensionExpired()).toBe(false);
+    });
+  });
+
   describe('casos de uso realistas', () => {
     it('debería manejar flujo de confirmación de email', () => {
       const pendingUser = UserStatus.createPendingConfirmation();
@@ -115,6 +115,21 @@ describe('Username Value Object', () => {
         );
       });
     });
+
+    it('debería lanzar errores de validación con un código estable', () => {
+      expect(() => new Username('')).toThrow(
+        expect.objectContaining({ code: 'USERNAME_REQUIRED' })
+      );
+      expect(() => new Username('ab')).toThrow(
+        expect.objectContaining({ code: 'USERNAME_TOO_SHORT' })
+      );
+      expect(() => new Username('a'.repeat(51))).toThrow(
+        expect.objectContaining({ code: 'USERNAME_TOO_LONG' })
+      );
+      expect(() => new Username('user name')).toThrow(
+        expect.objectContaining({ code: 'USERNAME_INVALID_CHARACTERS' })
+      );
+    });
   });
 
   describe('métodos de utilidad', () => {
@@ -0,0 +1,16 @@
+// src/core/interfaces/events/IDomainEventHandler.ts
+
+import { DomainEvent } from '@/core/domain/events/DomainEvent';
+
+/**
+ * Suscriptor de un tipo de evento de dominio.
+ *
+ * La entrega es at-least-once: un mismo evento puede llegar más de una vez
+ * (reintentos, caídas del proceso), así que el handler debe ser idempotente.
+ * Si lanza, el evento se reintenta más tarde.
+ */
+export interface IDomainEventHandler<TEvent extends DomainEvent = DomainEvent> {
+  readonly eventType: string;
+  readonly name: string; // Identifica al handler en los logs y en los errores
+  handle(event: TEvent): Promise<void>;
+}
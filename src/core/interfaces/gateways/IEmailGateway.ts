@@ -0,0 +1,20 @@
+// src/core/interfaces/gateways/IEmailGateway.ts
+
+/**
+ * Mensaje de correo electrónico independiente del proveedor de envío
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string; // Cuerpo en texto plano (siempre presente)
+  html?: string; // Alternativa HTML opcional
+}
+
+export interface IEmailGateway {
+  /**
+   * Envía un correo electrónico.
+   * @param message El mensaje a enviar.
+   * @throws Error si el proveedor no pudo aceptar el mensaje.
+   */
+  send(message: EmailMessage): Promise<void>;
+}
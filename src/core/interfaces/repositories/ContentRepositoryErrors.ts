@@ -0,0 +1,94 @@
+// src/core/interfaces/repositories/ContentRepositoryErrors.ts
+
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+import type { VersionedKind } from '@/core/domain/services/ContentHierarchy';
+
+/**
+ * Errores de los repositorios de contenido (cursos, niveles, secciones,
+ * módulos, lecciones y ejercicios). Son independientes del ORM: cada adaptador traduce
+ * sus errores nativos a estos o a los de la jerarquía
+ * (ContentHierarchyErrors).
+ */
+export class ContentRepositoryError extends AppError {
+  constructor(
+    message: string,
+    public readonly originalError?: Error,
+    code: ErrorCode = 'REPOSITORY_ERROR',
+    category: ErrorCategory = 'internal',
+    params: ErrorParams = {}
+  ) {
+    super(message, code, category, params);
+    this.name = 'ContentRepositoryError';
+  }
+}
+
+// El mensaje no repite el slug: viaja en la respuesta HTTP y en los logs
+export class CourseSlugTakenError extends ContentRepositoryError {
+  constructor(
+    public readonly slug: string,
+    originalError?: Error
+  ) {
+    super(
+      'Ya existe un curso con ese slug',
+      originalError,
+      'COURSE_SLUG_TAKEN',
+      'conflict'
+    );
+    this.name = 'CourseSlugTakenError';
+  }
+}
+
+export class ExerciseNotFoundError extends ContentRepositoryError {
+  constructor(
+    public readonly exerciseId: string,
+    originalError?: Error
+  ) {
+    super(
+      `Ejercicio no encontrado: ${exerciseId}`,
+      originalError,
+      'EXERCISE_NOT_FOUND',
+      'not_found'
+    );
+    this.name = 'ExerciseNotFoundError';
+  }
+}
+
+export class ContentNotFoundError extends ContentRepositoryError {
+  constructor(
+    public readonly kind: VersionedKind,
+    public readonly id: string
+  ) {
+    super(
+      `No existe el ${kind} ${id}`,
+      undefined,
+      'CONTENT_NOT_FOUND',
+      'not_found',
+      { kind }
+    );
+    this.name = 'ContentNotFoundError';
+  }
+}
+
+// Concurrencia optimista: alguien guardó otro cambio desde que se leyó el
+// elemento, así que guardar este pisaría el suyo
+export class ContentVersionConflictError extends ContentRepositoryError {
+  constructor(
+    public readonly kind: VersionedKind,
+    public readonly id: string,
+    public readonly expectedVersion: number
+  ) {
+    super(
+      `El ${kind} ${id} ya no está en la versión ${expectedVersion}`,
+      undefined,
+      'CONTENT_VERSION_CONFLICT',
+      'conflict',
+      { kind }
+    );
+    this.name = 'ContentVersionConflictError';
+  }
+}
@@ -0,0 +1,62 @@
+// src/core/interfaces/repositories/IContentNodeRepository.ts
+
+import { ContentNode } from '@/core/domain/entities/ContentNode';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+
+/**
+ * Repositorio de un nivel de la jerarquía de contenido por debajo del curso.
+ * Todos comparten las reglas de ContentHierarchy: sin huérfanos, posición
+ * única dentro del contenedor y borrado en cascada.
+ */
+export interface IContentNodeRepository<T extends ContentNode<T>> {
+  /**
+   * Persiste un elemento nuevo.
+   * @throws OrphanContentError si su contenedor no existe.
+   * @throws PositionTakenError si otro hermano ocupa ya su posición (por
+   * ejemplo, por una creación concurrente).
+   */
+  create(node: T): Promise<void>;
+
+  findById(id: string): Promise<T | null>;
+
+  /**
+   * Devuelve los elementos de un contenedor ordenados por posición.
+   */
+  findByParentId(parentId: string): Promise<T[]>;
+
+  /**
+   * Guarda el título y la posición de un elemento existente (rename,
+   * moveTo, touch) si sigue en la versión con la que se leyó. El contenedor
+   * no cambia.
+   * @returns El elemento guardado, con la versión siguiente, o null si no
+   * existe.
+   * @throws ContentVersionConflictError si otro cambio se guardó antes.
+   * @throws PositionTakenError si otro hermano ocupa la nueva posición.
+   */
+  update(node: T): Promise<T | null>;
+
+  /**
+   * Reordena todos los elementos de un contenedor de forma atómica: el
+   * primero de `orderedIds` pasa a la posición 1, el segundo a la 2, etc.
+   * Si falla, ninguna posición cambia. No cambia la versión de los
+   * elementos: el orden es del contenedor, que es quien se versiona.
+   * @returns Los elementos del contenedor en su nuevo orden.
+   * @throws InvalidReorderError si `orderedIds` no contiene exactamente los
+   * elementos del contenedor.
+   */
+  reorder(parentId: string, orderedIds: string[], now: Date): Promise<T[]>;
+
+  /**
+   * Borra un elemento y, en cascada, todos sus descendientes. Sus hermanos
+   * conservan su posición. Borrar un elemento inexistente no falla.
+   */
+  delete(id: string): Promise<void>;
+}
+
+export type ILevelRepository = IContentNodeRepository<Level>;
+export type ISectionRepository = IContentNodeRepository<Section>;
+export type IModuleRepository = IContentNodeRepository<Module>;
+export type ILessonRepository = IContentNodeRepository<Lesson>;
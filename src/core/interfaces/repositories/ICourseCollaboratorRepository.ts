@@ -0,0 +1,26 @@
+// src/core/interfaces/repositories/ICourseCollaboratorRepository.ts
+
+/**
+ * Colaboradores de los cursos: usuarios que pueden editar un curso sin ser
+ * su propietario. Borrar un curso o un usuario borra sus colaboraciones.
+ */
+export interface ICourseCollaboratorRepository {
+  /**
+   * Añade un colaborador a un curso. Añadir uno que ya colabora no falla.
+   * @throws ContentNotFoundError si el curso no existe.
+   */
+  add(courseId: string, userId: string, now: Date): Promise<void>;
+
+  /**
+   * Quita un colaborador de un curso. Quitar uno que no colabora no falla.
+   */
+  remove(courseId: string, userId: string): Promise<void>;
+
+  /**
+   * Devuelve los ids de los colaboradores de un curso, del más antiguo al
+   * más reciente.
+   */
+  findUserIdsByCourseId(courseId: string): Promise<string[]>;
+
+  isCollaborator(courseId: string, userId: string): Promise<boolean>;
+}
@@ -0,0 +1,44 @@
+// src/core/interfaces/repositories/ICourseRepository.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { Slug } from '@/core/domain/value-objects/Slug';
+
+export interface ICourseRepository {
+  /**
+   * Persiste un curso nuevo.
+   * @throws CourseSlugTakenError si otro curso ya usa su slug.
+   */
+  create(course: Course): Promise<void>;
+
+  findById(id: string): Promise<Course | null>;
+
+  findBySlug(slug: Slug): Promise<Course | null>;
+
+  /**
+   * Devuelve todos los cursos, del más antiguo al más reciente.
+   */
+  findAll(): Promise<Course[]>;
+
+  /**
+   * Devuelve los cursos que un usuario puede editar sin ser administrador:
+   * los suyos y aquellos en los que colabora, del más antiguo al más
+   * reciente.
+   */
+  findEditableBy(userId: string): Promise<Course[]>;
+
+  /**
+   * Guarda los cambios de un curso existente (Course.update, touch) si
+   * sigue en la versión con la que se leyó.
+   * @returns El curso guardado, con la versión siguiente, o null si no
+   * existe.
+   * @throws ContentVersionConflictError si otro cambio se guardó antes.
+   * @throws CourseSlugTakenError si el nuevo slug lo usa otro curso.
+   */
+  update(course: Course): Promise<Course | null>;
+
+  /**
+   * Borra un curso y, en cascada, todo su contenido (niveles, secciones,
+   * módulos y lecciones) y sus colaboradores. Borrar un curso inexistente no falla.
+   */
+  delete(id: string): Promise<void>;
+}
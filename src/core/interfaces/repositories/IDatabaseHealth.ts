@@ -0,0 +1,23 @@
+// src/core/interfaces/repositories/IDatabaseHealth.ts
+
+/**
+ * Puerto de salud de la base de datos.
+ *
+ * Es independiente de los repositorios de negocio: las comprobaciones de
+ * readiness no pasan por IUserRepository ni por ningún otro repositorio.
+ */
+export interface IDatabaseHealth {
+  /**
+   * Ejecuta una consulta trivial para comprobar la conexión.
+   * @throws DatabaseConnectionError si la base de datos no responde.
+   */
+  ping(): Promise<void>;
+
+  /**
+   * Devuelve las migraciones que existen en el código pero no se aplicaron
+   * en la base de datos, en orden de aplicación.
+   * @returns Los nombres de las migraciones pendientes, o null si el motor no
+   * se gestiona con migraciones (por ejemplo, SQLite con `db push`).
+   */
+  findPendingMigrations(): Promise<string[] | null>;
+}
@@ -0,0 +1,34 @@
+// src/core/interfaces/repositories/IExerciseRepository.ts
+
+import { Exercise } from '@/core/domain/entities/Exercise';
+
+export interface IExerciseRepository {
+  /**
+   * Persiste un ejercicio nuevo con su payload y su versión de esquema.
+   */
+  create(exercise: Exercise): Promise<void>;
+
+  findById(id: string): Promise<Exercise | null>;
+
+  /**
+   * Busca varios ejercicios a la vez (por ejemplo, los de una lección).
+   * @returns Los que existan, en el orden de `ids`.
+   */
+  findByIds(ids: string[]): Promise<Exercise[]>;
+
+  /**
+   * Guarda el nuevo payload de un ejercicio existente (Exercise.withPayload)
+   * si sigue en la versión con la que se leyó.
+   * @returns El ejercicio guardado, con la versión siguiente, o null si no
+   * existe.
+   * @throws ContentVersionConflictError si otro cambio se guardó antes.
+   */
+  update(exercise: Exercise): Promise<Exercise | null>;
+
+  /**
+   * Borra un ejercicio y lo quita de todas las lecciones que lo usan (el
+   * resto de ejercicios de esas lecciones conserva su posición). Borrar un
+   * ejercicio inexistente no falla.
+   */
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,48 @@
+// src/core/interfaces/repositories/ILessonExerciseRepository.ts
+
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+
+/**
+ * Enlaces entre lecciones y ejercicios, con la posición de cada ejercicio
+ * dentro de su lección. Borrar una lección (o algo que la contiene) borra
+ * sus enlaces, pero no los ejercicios.
+ */
+export interface ILessonExerciseRepository {
+  /**
+   * Añade un ejercicio a una lección.
+   * @throws OrphanContentError si la lección no existe.
+   * @throws ExerciseNotFoundError si el ejercicio no existe.
+   * @throws ExerciseAlreadyInLessonError si la lección ya tiene el ejercicio.
+   * @throws PositionTakenError si otro ejercicio ocupa ya la posición.
+   */
+  attach(link: LessonExercise): Promise<void>;
+
+  /**
+   * Devuelve los ejercicios de una lección ordenados por posición.
+   */
+  findByLessonId(lessonId: string): Promise<LessonExercise[]>;
+
+  /**
+   * Devuelve las lecciones en las que aparece un ejercicio.
+   */
+  findByExerciseId(exerciseId: string): Promise<LessonExercise[]>;
+
+  /**
+   * Reordena todos los ejercicios de una lección de forma atómica: el
+   * primero de `orderedExerciseIds` pasa a la posición 1, el segundo a la 2,
+   * etc. Si falla, ninguna posición cambia.
+   * @returns Los enlaces de la lección en su nuevo orden.
+   * @throws InvalidReorderError si `orderedExerciseIds` no contiene
+   * exactamente los ejercicios de la lección.
+   */
+  reorder(
+    lessonId: string,
+    orderedExerciseIds: string[]
+  ): Promise<LessonExercise[]>;
+
+  /**
+   * Quita un ejercicio de una lección sin borrarlo. El resto conserva su
+   * posición. Quitar un ejercicio que no está en la lección no falla.
+   */
+  detach(lessonId: string, exerciseId: string): Promise<void>;
+}
@@ -0,0 +1,85 @@
+// src/core/interfaces/repositories/IOutboxRepository.ts
+
+import { DomainEvent } from '@/core/domain/events/DomainEvent';
+
+/**
+ * Estado de un evento en el outbox:
+ * - `pending`: pendiente de entregar (o de reintentar)
+ * - `delivered`: entregado a todos los suscriptores
+ * - `dead_letter`: agotó los reintentos; queda guardado para revisarlo a mano
+ */
+export type OutboxMessageStatus = 'pending' | 'delivered' | 'dead_letter';
+
+/**
+ * Evento guardado en el outbox junto con su estado de entrega
+ */
+export interface OutboxMessage {
+  event: DomainEvent;
+  status: OutboxMessageStatus;
+  attempts: number; // Entregas intentadas, incluida la que está en curso
+  lastError: string | null;
+  availableAt: Date; // A partir de cuándo se puede (re)intentar
+}
+
+/**
+ * Eventos que ya se pueden entregar y aún no se entregaron: cuántos hay y
+ * desde cuándo espera el más antiguo
+ */
+export interface OutboxBacklog {
+  due: number;
+  oldestDueAt: Date | null; // `availableAt` del más antiguo
+}
+
+export interface IOutboxRepository {
+  /**
+   * Guarda eventos nuevos como pendientes. Se llama con el repositorio de una
+   * unidad de trabajo para que se guarden junto con el cambio que los produjo.
+   * @param events Eventos a guardar (puede estar vacío).
+   */
+  append(events: DomainEvent[]): Promise<void>;
+
+  /**
+   * Reserva hasta `limit` eventos pendientes y disponibles, del más antiguo al
+   * más reciente. La reserva dura `leaseMs` y suma un intento: si el proceso
+   * cae antes de marcar el resultado, el evento vuelve a estar disponible
+   * cuando expira. Dos llamadas concurrentes nunca reservan el mismo evento.
+   * @param now Momento actual.
+   * @param limit Máximo de eventos a reservar.
+   * @param leaseMs Duración de la reserva en milisegundos.
+   */
+  claimBatch(
+    now: Date,
+    limit: number,
+    leaseMs: number
+  ): Promise<OutboxMessage[]>;
+
+  /**
+   * Marca un evento como entregado.
+   */
+  markDelivered(eventId: string, deliveredAt: Date): Promise<void>;
+
+  /**
+   * Libera la reserva de un evento que falló para reintentarlo más tarde.
+   * @param error Motivo del fallo.
+   * @param availableAt Momento a partir del cual se puede reintentar.
+   */
+  scheduleRetry(
+    eventId: string,
+    error: string,
+    availableAt: Date
+  ): Promise<void>;
+
+  /**
+   * Mueve un evento a dead letter: no se vuelve a intentar.
+   * @param error Motivo del último fallo.
+   */
+  markDeadLetter(eventId: string, error: string, failedAt: Date): Promise<void>;
+
+  /**
+   * Resume los eventos pendientes cuyo momento de entrega ya llegó. No cuenta
+   * los que esperan un reintento programado para más tarde, ni los entregados
+   * ni los de dead letter.
+   * @param now Momento actual.
+   */
+  getBacklog(now: Date): Promise<OutboxBacklog>;
+}
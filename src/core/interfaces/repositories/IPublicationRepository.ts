@@ -0,0 +1,61 @@
+// src/core/interfaces/repositories/IPublicationRepository.ts
+
+import {
+  Publication,
+  PublicationChange,
+  PublicationStatus,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublicationHistoryEntry } from '@/core/domain/entities/PublicationHistoryEntry';
+import { PublishedSnapshot } from '@/core/domain/entities/PublishedSnapshot';
+
+/**
+ * Publicaciones de cursos y lecciones, con sus instantáneas publicadas y su
+ * historial. Borrar el curso o la lección borra su publicación, sus
+ * instantáneas y su historial.
+ */
+export interface IPublicationRepository {
+  findByContent(
+    kind: PublishableKind,
+    contentId: string
+  ): Promise<Publication | null>;
+
+  /**
+   * Devuelve las publicaciones en un estado, de la que lleva más tiempo sin
+   * cambios a la más reciente (la cola de revisión, con `in_review`).
+   */
+  findByStatus(status: PublicationStatus): Promise<Publication[]>;
+
+  /**
+   * Guarda el resultado de una acción: la publicación (creándola si aún no
+   * se había guardado, con versión 0), su entrada del historial y, si la
+   * hay, la instantánea nueva; todo o nada.
+   * @returns La publicación guardada, con la versión siguiente.
+   * @throws ContentVersionConflictError si otro cambio se guardó antes.
+   * @throws ContentNotFoundError si el curso o la lección ya no existen.
+   */
+  save(change: PublicationChange): Promise<Publication>;
+
+  findSnapshot(
+    publicationId: string,
+    number: number
+  ): Promise<PublishedSnapshot | null>;
+
+  /**
+   * Devuelve las instantáneas de una publicación, de la primera a la última.
+   */
+  findSnapshots(publicationId: string): Promise<PublishedSnapshot[]>;
+
+  /**
+   * Devuelve la instantánea que ven los alumnos de cada publicación visible
+   * (Publication.isLive) de un tipo, de la publicación más antigua a la más
+   * reciente.
+   */
+  findLiveSnapshots(kind: PublishableKind): Promise<PublishedSnapshot[]>;
+
+  /**
+   * Devuelve el historial de una publicación, de la entrada más reciente a
+   * la más antigua.
+   */
+  findHistory(publicationId: string): Promise<PublicationHistoryEntry[]>;
+}
@@ -0,0 +1,48 @@
+// src/core/interfaces/repositories/IRefreshTokenRepository.ts
+
+import { RefreshToken } from '@/core/domain/entities/RefreshToken';
+
+export interface IRefreshTokenRepository {
+  /**
+   * Persiste un refresh token recién emitido.
+   * @param token El token a guardar (solo contiene el hash, nunca el valor en claro).
+   */
+  create(token: RefreshToken): Promise<void>;
+
+  /**
+   * Busca un refresh token por el hash de su valor.
+   * @param tokenHash Hash SHA-256 del token presentado por el cliente.
+   * @returns El token encontrado o null si no existe.
+   */
+  findByHash(tokenHash: string): Promise<RefreshToken | null>;
+
+  /**
+   * Rota un token de forma atómica: marca el actual como reemplazado y revocado,
+   * y persiste su reemplazo. Solo tiene efecto si el token actual sigue vigente.
+   * @param currentTokenId ID del token que se está canjeando.
+   * @param replacement Nuevo token de la misma familia.
+   * @param rotatedAt Momento de la rotación.
+   * @returns true si se rotó; false si el token ya había sido rotado o revocado
+   * (por ejemplo, por un uso concurrente).
+   */
+  rotate(
+    currentTokenId: string,
+    replacement: RefreshToken,
+    rotatedAt: Date
+  ): Promise<boolean>;
+
+  /**
+   * Revoca todos los tokens todavía vigentes de una familia.
+   * @param familyId ID de la familia de tokens.
+   * @param revokedAt Momento de la revocación.
+   */
+  revokeFamily(familyId: string, revokedAt: Date): Promise<void>;
+
+  /**
+   * Revoca todos los tokens todavía vigentes de un usuario, en todas sus
+   * familias (cierra todas sus sesiones).
+   * @param userId ID del usuario.
+   * @param revokedAt Momento de la revocación.
+   */
+  revokeAllForUser(userId: string, revokedAt: Date): Promise<void>;
+}
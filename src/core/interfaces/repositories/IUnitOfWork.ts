@@ -0,0 +1,63 @@
+// src/core/interfaces/repositories/IUnitOfWork.ts
+
+import { IUserRepository } from './IUserRepository';
+import { IRefreshTokenRepository } from './IRefreshTokenRepository';
+import { IVerificationTokenRepository } from './IVerificationTokenRepository';
+import { IUserStatusChangeRepository } from './IUserStatusChangeRepository';
+import { IOutboxRepository } from './IOutboxRepository';
+import { ICourseRepository } from './ICourseRepository';
+import { ICourseCollaboratorRepository } from './ICourseCollaboratorRepository';
+import {
+  ILessonRepository,
+  ILevelRepository,
+  IModuleRepository,
+  ISectionRepository,
+} from './IContentNodeRepository';
+import { IExerciseRepository } from './IExerciseRepository';
+import { ILessonExerciseRepository } from './ILessonExerciseRepository';
+import { IPublicationRepository } from './IPublicationRepository';
+
+/**
+ * Repositorios de contenido: la jerarquía de cursos, sus colaboradores, los
+ * ejercicios de las lecciones y las publicaciones
+ */
+export interface ContentRepositories {
+  courseRepository: ICourseRepository;
+  courseCollaboratorRepository: ICourseCollaboratorRepository;
+  levelRepository: ILevelRepository;
+  sectionRepository: ISectionRepository;
+  moduleRepository: IModuleRepository;
+  lessonRepository: ILessonRepository;
+  exerciseRepository: IExerciseRepository;
+  lessonExerciseRepository: ILessonExerciseRepository;
+  publicationRepository: IPublicationRepository;
+}
+
+/**
+ * Repositorios que participan en una unidad de trabajo. Todo lo que se
+ * escriba a través de ellos se confirma o se deshace junto.
+ */
+export interface UnitOfWorkRepositories extends ContentRepositories {
+  userRepository: IUserRepository;
+  refreshTokenRepository: IRefreshTokenRepository;
+  verificationTokenRepository: IVerificationTokenRepository;
+  userStatusChangeRepository: IUserStatusChangeRepository;
+  outboxRepository: IOutboxRepository;
+}
+
+export interface IUnitOfWork {
+  /**
+   * Ejecuta `work` dentro de una transacción con repositorios ligados a ella.
+   * Si `work` termina bien se confirman todas sus escrituras; si lanza, se
+   * deshacen todas y el error se propaga tal cual.
+   *
+   * El adaptador puede reintentar `work` entero ante conflictos de
+   * serialización o deadlocks, así que no debe tener efectos fuera de los
+   * repositorios recibidos (enviar emails, publicar eventos...).
+   * @param work Operaciones a ejecutar de forma atómica.
+   * @returns Lo que devuelva `work`.
+   */
+  run<T>(
+    work: (repositories: UnitOfWorkRepositories) => Promise<T>
+  ): Promise<T>;
+}
@@ -7,6 +7,72 @@ import { Role } from '@/core/domain/value-objects/Role';
 import { Username } from '@/core/domain/value-objects/Username';
 import { CountryCode } from '@/core/domain/value-objects/CountryCode';
 
+/**
+ * Autoría de un cambio de rol o de una eliminación, que se guarda en el
+ * historial de moderación. Los cambios de estado no la necesitan: UserStatus
+ * ya lleva motivo, autor y fecha.
+ */
+export interface UserChangeContext {
+  changedBy: string | null; // ID del autor; null si fue el sistema
+  reason?: string | null;
+}
+
+/**
+ * Campos por los que se puede ordenar una búsqueda de usuarios.
+ * Cualquier otro valor se rechaza con InvalidUserSearchError.
+ */
+export const USER_SORT_FIELDS = [
+  'createdAt',
+  'lastLogin',
+  'email',
+  'username',
+] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Filtros y orden de una búsqueda de usuarios. Todos los filtros son
+ * opcionales y se combinan con AND. Los rangos de fechas incluyen el
+ * extremo inicial (`...From`) y excluyen el final (`...To`).
+ */
+export interface UserSearchCriteria {
+  role?: string;
+  status?: string;
+  countryCode?: string;
+  continent?: string; // Continente principal según CountryCode.getPrimaryContinent()
+  createdFrom?: Date;
+  createdTo?: Date;
+  lastLoginFrom?: Date; // Los usuarios que nunca iniciaron sesión no coinciden
+  lastLoginTo?: Date;
+  emailPrefix?: string; // Sin distinguir mayúsculas (los emails se guardan en minúsculas)
+  usernamePrefix?: string; // Respeta mayúsculas y minúsculas
+  sortBy?: UserSortField; // Por defecto createdAt
+  sortDirection?: SortDirection; // Por defecto desc
+}
+
+/**
+ * Página solicitada: por desplazamiento (`offset`) o por cursor opaco
+ * (`cursor`, tomado del `nextCursor` de la página anterior), nunca ambos.
+ */
+export interface UserPageRequest {
+  limit: number; // Entre 1 y MAX_USER_SEARCH_LIMIT
+  offset?: number;
+  cursor?: string;
+}
+
+/**
+ * Resultado paginado de una búsqueda de usuarios
+ */
+export interface UserPage {
+  users: User[];
+  total: number; // Usuarios que cumplen los filtros, sin paginar
+  nextCursor: string | null; // null si no hay más resultados
+}
+
+export const MAX_USER_SEARCH_LIMIT = 100;
+
 export interface IUserRepository {
   /**
    * Crea un nuevo usuario en el sistema.
@@ -45,17 +111,58 @@ export interface IUserRepository {
 
   /**
    * Actualiza las propiedades de un usuario existente.
+   * Si cambia el estado o el rol, registra la entrada correspondiente del
+   * historial de moderación en la misma transacción.
    * @param id El ID del usuario a actualizar.
    * @param userData Las propiedades a actualizar.
+   * @param context Autoría del cambio de rol (opcional).
    * @returns El usuario actualizado o null si el usuario no fue encontrado.
    */
-  update(id: string, userData: Partial<User>): Promise<User | null>;
+  update(
+    id: string,
+    userData: Partial<User>,
+    context?: UserChangeContext
+  ): Promise<User | null>;
 
   /**
    * Elimina un usuario del sistema por su ID.
+   * Registra la eliminación en el historial de moderación en la misma
+   * transacción; el historial del usuario se conserva.
    * @param id El ID del usuario a eliminar.
+   * @param context Autoría de la eliminación (opcional).
+   */
+  delete(id: string, context?: UserChangeContext): Promise<void>;
+
+  /**
+   * Busca los usuarios suspendidos cuya fecha de fin de suspensión ya pasó.
+   * @param now Momento de referencia.
+   * @returns Los usuarios cuya suspensión debe levantarse, la más antigua primero.
+   */
+  findUsersWithExpiredSuspension(now: Date): Promise<User[]>;
+
+  /**
+   * Busca usuarios combinando filtros, con orden y paginación.
+   * El orden desempata siempre por ID, así que es estable entre páginas; en
+   * el orden por lastLogin los usuarios sin login van al final.
+   * @param criteria Filtros y orden de la búsqueda.
+   * @param page Tamaño de página y desplazamiento o cursor.
+   * @returns La página de usuarios, el total sin paginar y el cursor siguiente.
+   * @throws InvalidUserSearchError si el orden, la página o el cursor no son válidos.
+   */
+  search(
+    criteria: UserSearchCriteria,
+    page: UserPageRequest
+  ): Promise<UserPage>;
+
+  /**
+   * Bloquea las filas de los administradores activos hasta el final de la
+   * transacción, sin modificarlas. Dentro de IUnitOfWork.run serializa las
+   * operaciones que no deben dejar el sistema sin administradores: otra
+   * transacción que los bloquee espera a que esta termine y después ve sus
+   * cambios. Debe ser lo primero que haga el trabajo, para que las lecturas
+   * posteriores vean lo confirmado mientras se esperaba el bloqueo.
    */
-  delete(id: string): Promise<void>;
+  lockActiveAdmins(): Promise<void>;
 
   // 📊 CONSULTAS ESPECIALES - Para reportes o estadísticas
 
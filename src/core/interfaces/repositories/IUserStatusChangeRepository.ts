@@ -0,0 +1,39 @@
+// src/core/interfaces/repositories/IUserStatusChangeRepository.ts
+
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+
+/**
+ * Posición de una entrada dentro del historial: fecha e ID como desempate,
+ * porque varias entradas pueden compartir fecha
+ */
+export interface UserStatusChangePosition {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Opciones de paginación del historial (por cursor de fecha e ID)
+ */
+export interface UserStatusChangeQuery {
+  limit: number;
+  before?: UserStatusChangePosition; // Solo entradas anteriores a esta posición
+}
+
+/**
+ * Puerto de lectura del historial de moderación.
+ *
+ * Las entradas las escriben IUserRepository.update e IUserRepository.delete en
+ * la misma transacción que el cambio del usuario, así que este puerto no
+ * expone escrituras.
+ */
+export interface IUserStatusChangeRepository {
+  /**
+   * Lista el historial de un usuario, de la entrada más reciente a la más antigua.
+   * @param userId ID del usuario.
+   * @param query Límite de resultados y cursor opcional.
+   */
+  findByUserId(
+    userId: string,
+    query: UserStatusChangeQuery
+  ): Promise<UserStatusChange[]>;
+}
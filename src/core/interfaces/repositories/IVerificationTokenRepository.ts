@@ -0,0 +1,63 @@
+// src/core/interfaces/repositories/IVerificationTokenRepository.ts
+
+import {
+  VerificationToken,
+  VerificationTokenPurpose,
+} from '@/core/domain/entities/VerificationToken';
+
+export interface IVerificationTokenRepository {
+  /**
+   * Persiste un token de verificación recién emitido.
+   * @param token El token a guardar (solo contiene el hash, nunca el valor en claro).
+   */
+  create(token: VerificationToken): Promise<void>;
+
+  /**
+   * Busca un token de verificación por el hash de su valor.
+   * @param tokenHash Hash SHA-256 del token presentado por el cliente.
+   * @returns El token encontrado o null si no existe.
+   */
+  findByHash(tokenHash: string): Promise<VerificationToken | null>;
+
+  /**
+   * Lista los tokens emitidos a un usuario para un propósito desde una fecha,
+   * del más reciente al más antiguo. Se usa para aplicar los límites de reenvío.
+   * @param userId ID del usuario.
+   * @param purpose Propósito de los tokens.
+   * @param since Fecha desde la que se cuentan las emisiones.
+   */
+  findIssuedSince(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    since: Date
+  ): Promise<VerificationToken[]>;
+
+  /**
+   * Marca un token como consumido de forma atómica. Solo tiene efecto si el
+   * token no había sido consumido todavía.
+   * @param tokenId ID del token.
+   * @param consumedAt Momento del consumo.
+   * @returns true si se consumió; false si ya estaba consumido (por ejemplo,
+   * por un uso concurrente).
+   */
+  consume(tokenId: string, consumedAt: Date): Promise<boolean>;
+
+  /**
+   * Invalida todos los tokens pendientes de un usuario para un propósito.
+   * @param userId ID del usuario.
+   * @param purpose Propósito de los tokens.
+   * @param invalidatedAt Momento de la invalidación.
+   */
+  invalidateForUser(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    invalidatedAt: Date
+  ): Promise<void>;
+
+  /**
+   * Elimina un token. Se usa para retirar un token cuyo email no llegó a
+   * enviarse, de modo que no cuente para los límites de reenvío.
+   * @param tokenId ID del token. No falla si ya no existe.
+   */
+  delete(tokenId: string): Promise<void>;
+}
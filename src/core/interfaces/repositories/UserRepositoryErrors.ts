@@ -0,0 +1,77 @@
+// src/core/interfaces/repositories/UserRepositoryErrors.ts
+
+import { AppError, ErrorCategory, ErrorCode } from '@/shared/errors/AppError';
+
+/**
+ * Errores del repositorio de usuarios.
+ * Son independientes del ORM: cada adaptador traduce sus errores nativos a estos.
+ */
+export class UserRepositoryError extends AppError {
+  constructor(
+    message: string,
+    public readonly originalError?: Error,
+    code: ErrorCode = 'REPOSITORY_ERROR',
+    category: ErrorCategory = 'internal'
+  ) {
+    super(message, code, category);
+    this.name = 'UserRepositoryError';
+  }
+}
+
+export class UserNotFoundError extends UserRepositoryError {
+  constructor(identifier: string, originalError?: Error) {
+    super(
+      `Usuario no encontrado: ${identifier}`,
+      originalError,
+      'USER_NOT_FOUND',
+      'not_found'
+    );
+    this.name = 'UserNotFoundError';
+  }
+}
+
+// Campo único que provocó el conflicto
+export type UniqueUserField = 'email' | 'username';
+
+// El mensaje no repite el valor: viaja en la respuesta HTTP y en los logs
+export class UserAlreadyExistsError extends UserRepositoryError {
+  constructor(
+    public readonly identifier: string,
+    originalError?: Error,
+    public readonly field: UniqueUserField = 'email'
+  ) {
+    super(
+      field === 'username'
+        ? 'Ya existe un usuario con ese nombre de usuario'
+        : 'Ya existe un usuario con ese email',
+      originalError,
+      field === 'username' ? 'USER_USERNAME_TAKEN' : 'USER_EMAIL_TAKEN',
+      'conflict'
+    );
+    this.name = 'UserAlreadyExistsError';
+  }
+}
+
+export class DatabaseConnectionError extends UserRepositoryError {
+  constructor(originalError?: Error) {
+    super(
+      'Error de conexión a la base de datos',
+      originalError,
+      'SERVICE_UNAVAILABLE',
+      'unavailable'
+    );
+    this.name = 'DatabaseConnectionError';
+  }
+}
+
+export class InvalidUserSearchError extends UserRepositoryError {
+  constructor(reason: string) {
+    super(
+      `Búsqueda de usuarios inválida: ${reason}`,
+      undefined,
+      'INVALID_SEARCH',
+      'bad_request'
+    );
+    this.name = 'InvalidUserSearchError';
+  }
+}
@@ -0,0 +1,195 @@
+// src/core/interfaces/repositories/UserSearch.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Role } from '@/core/domain/value-objects/Role';
+import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+import {
+  MAX_USER_SEARCH_LIMIT,
+  SortDirection,
+  USER_SORT_FIELDS,
+  UserPageRequest,
+  UserSearchCriteria,
+  UserSortField,
+} from './IUserRepository';
+import { InvalidUserSearchError } from './UserRepositoryErrors';
+
+/**
+ * Posición de un usuario dentro de un orden: valor del campo de orden e ID
+ * como desempate. Es lo que codifica el cursor de paginación.
+ */
+export interface UserSearchPosition {
+  value: Date | string | null;
+  id: string;
+}
+
+/**
+ * Búsqueda validada y con valores por defecto aplicados
+ */
+export interface ResolvedUserSearch {
+  sortBy: UserSortField;
+  sortDirection: SortDirection;
+  limit: number;
+  offset: number;
+  after: UserSearchPosition | null; // Posición del cursor, si se pagina por cursor
+}
+
+// Contenido serializado del cursor. Incluye el orden para rechazar cursores
+// generados con otro orden distinto
+interface CursorPayload {
+  s: UserSortField;
+  d: SortDirection;
+  v: string | null;
+  id: string;
+}
+
+/**
+ * Valida los filtros, el orden y la página de una búsqueda y decodifica el cursor.
+ * Lo comparten todos los adaptadores de IUserRepository para que la
+ * paginación se comporte igual en cualquiera de ellos.
+ * @throws InvalidUserSearchError si algún parámetro no es válido.
+ */
+export function resolveUserSearch(
+  criteria: UserSearchCriteria,
+  page: UserPageRequest
+): ResolvedUserSearch {
+  if (
+    criteria.role !== undefined &&
+    !(Role.validRoles() as string[]).includes(criteria.role)
+  ) {
+    throw new InvalidUserSearchError(`rol desconocido: ${criteria.role}`);
+  }
+  if (
+    criteria.status !== undefined &&
+    !(UserStatus.getValidStatuses() as string[]).includes(criteria.status)
+  ) {
+    throw new InvalidUserSearchError(`estado desconocido: ${criteria.status}`);
+  }
+
+  const sortBy = criteria.sortBy ?? 'createdAt';
+  const sortDirection = criteria.sortDirection ?? 'desc';
+
+  if (!USER_SORT_FIELDS.includes(sortBy)) {
+    throw new InvalidUserSearchError(`no se puede ordenar por ${sortBy}`);
+  }
+  if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+    throw new InvalidUserSearchError(
+      `dirección de orden desconocida: ${sortDirection}`
+    );
+  }
+  if (
+    !Number.isInteger(page.limit) ||
+    page.limit < 1 ||
+    page.limit > MAX_USER_SEARCH_LIMIT
+  ) {
+    throw new InvalidUserSearchError(
+      `el límite debe estar entre 1 y ${MAX_USER_SEARCH_LIMIT}`
+    );
+  }
+  if (page.offset !== undefined && page.cursor !== undefined) {
+    throw new InvalidUserSearchError(
+      'no se pueden combinar offset y cursor en la misma página'
+    );
+  }
+  if (
+    page.offset !== undefined &&
+    (!Number.isInteger(page.offset) || page.offset < 0)
+  ) {
+    throw new InvalidUserSearchError(
+      'el offset debe ser un entero no negativo'
+    );
+  }
+
+  return {
+    sortBy,
+    sortDirection,
+    limit: page.limit,
+    offset: page.offset ?? 0,
+    after:
+      page.cursor !== undefined
+        ? decodeUserSearchCursor(page.cursor, sortBy, sortDirection)
+        : null,
+  };
+}
+
+/**
+ * Valor de un usuario para el campo de orden indicado
+ */
+export function getUserSortValue(
+  user: User,
+  field: UserSortField
+): Date | string | null {
+  switch (field) {
+    case 'createdAt':
+      return user.createdAt;
+    case 'lastLogin':
+      return user.lastLogin;
+    case 'email':
+      return user.getEmailValue();
+    case 'username':
+      return user.getUsernameValue();
+  }
+}
+
+/**
+ * Genera el cursor opaco que apunta a continuación del usuario indicado
+ */
+export function encodeUserSearchCursor(
+  user: User,
+  sortBy: UserSortField,
+  sortDirection: SortDirection
+): string {
+  const value = getUserSortValue(user, sortBy);
+  const payload: CursorPayload = {
+    s: sortBy,
+    d: sortDirection,
+    v: value instanceof Date ? value.toISOString() : value,
+    id: user.id,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeUserSearchCursor(
+  cursor: string,
+  sortBy: UserSortField,
+  sortDirection: SortDirection
+): UserSearchPosition {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidUserSearchError('cursor mal formado');
+  }
+
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    typeof payload.id !== 'string' ||
+    (payload.v !== null && typeof payload.v !== 'string')
+  ) {
+    throw new InvalidUserSearchError('cursor mal formado');
+  }
+  if (payload.s !== sortBy || payload.d !== sortDirection) {
+    throw new InvalidUserSearchError(
+      'el cursor pertenece a una búsqueda con otro orden'
+    );
+  }
+
+  // lastLogin es el único campo de orden que admite null
+  if (payload.v === null) {
+    if (sortBy !== 'lastLogin') {
+      throw new InvalidUserSearchError('cursor mal formado');
+    }
+    return { value: null, id: payload.id };
+  }
+
+  const isDateField = sortBy === 'createdAt' || sortBy === 'lastLogin';
+  if (!isDateField) {
+    return { value: payload.v, id: payload.id };
+  }
+
+  const date = new Date(payload.v);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidUserSearchError('cursor mal formado');
+  }
+  return { value: date, id: payload.id };
+}
@@ -0,0 +1,75 @@
+// src/core/interfaces/repositories/UserStatusChanges.ts
+
+import { User } from '@/core/domain/entities/User';
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+import { UserChangeContext } from './IUserRepository';
+
+/**
+ * Construye las entradas del historial de moderación de una actualización de
+ * IUserRepository.update. Lo comparten los adaptadores que guardan el
+ * historial para que registren exactamente los mismos cambios.
+ *
+ * Una re-suspensión (suspended → suspended) también se registra, porque
+ * cambia la fecha de fin o el motivo.
+ */
+export function buildUserStatusChanges(
+  userId: string,
+  previous: { status: string; role: string },
+  userData: Partial<User>,
+  context?: UserChangeContext
+): UserStatusChange[] {
+  const changes: UserStatusChange[] = [];
+
+  if (userData.status) {
+    const status = userData.status;
+    if (previous.status !== status.value || status.isSuspended()) {
+      changes.push(
+        UserStatusChange.record({
+          userId,
+          kind: 'status',
+          fromValue: previous.status,
+          toValue: status.value,
+          reason: status.reason,
+          changedBy: status.changedBy,
+          suspendedUntil: status.suspendedUntil,
+          at: status.changedAt ?? undefined,
+        })
+      );
+    }
+  }
+
+  if (userData.role && previous.role !== userData.role.value) {
+    changes.push(
+      UserStatusChange.record({
+        userId,
+        kind: 'role',
+        fromValue: previous.role,
+        toValue: userData.role.value,
+        reason: context?.reason,
+        changedBy: context?.changedBy,
+      })
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Construye la entrada del historial de moderación que registra la
+ * eliminación de un usuario en IUserRepository.delete: del estado que tenía
+ * a 'deleted'.
+ */
+export function buildUserDeletion(
+  userId: string,
+  previousStatus: string,
+  context?: UserChangeContext
+): UserStatusChange {
+  return UserStatusChange.record({
+    userId,
+    kind: 'deletion',
+    fromValue: previousStatus,
+    toValue: 'deleted',
+    reason: context?.reason,
+    changedBy: context?.changedBy,
+  });
+}
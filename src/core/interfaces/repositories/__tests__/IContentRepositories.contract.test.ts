@@ -0,0 +1,1412 @@
+// src/core/interfaces/repositories/__tests__/IContentRepositories.contract.test.ts
+
+import { ContentRepositories } from '../IUnitOfWork';
+import {
+  ContentNotFoundError,
+  ContentVersionConflictError,
+  CourseSlugTakenError,
+  ExerciseNotFoundError,
+} from '../ContentRepositoryErrors';
+import { Course } from '@/core/domain/entities/Course';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { ExerciseAlreadyInLessonError } from '@/core/domain/errors/ExerciseErrors';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { Position } from '@/core/domain/value-objects/Position';
+import { Slug } from '@/core/domain/value-objects/Slug';
+import {
+  InvalidReorderError,
+  OrphanContentError,
+  PositionTakenError,
+} from '@/core/domain/errors/ContentHierarchyErrors';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublishedDocument } from '@/core/domain/entities/PublishedSnapshot';
+import { ReviewComment } from '@/core/domain/value-objects/ReviewComment';
+
+/**
+ * Función de test de contrato para los repositorios de contenido
+ * (ICourseRepository, los IContentNodeRepository de cada nivel,
+ * IExerciseRepository, ILessonExerciseRepository,
+ * ICourseCollaboratorRepository e IPublicationRepository).
+ * Cualquier implementación debe pasar estos tests: comprueban las reglas de
+ * la jerarquía (sin huérfanos, posición única por contenedor, reordenación
+ * atómica y borrado en cascada), el guardado de los payloads de ejercicio,
+ * el control de versiones al guardar cambios y las instantáneas publicadas.
+ *
+ * @param description Descripción de la suite de tests.
+ * @param setupRepositories Función que devuelve los repositorios, la limpieza
+ * de la BD y cómo crear un usuario (propietarios y colaboradores).
+ * @param teardownRepositories Función para limpiar recursos después de todos los tests.
+ */
+export function makeContentRepositoriesContractTest(
+  description: string,
+  setupRepositories: () => {
+    repositories: ContentRepositories;
+    cleanDatabase: () => Promise<void>;
+    createUser: (username: string) => Promise<string>;
+  },
+  teardownRepositories: () => Promise<void>
+) {
+  describe(description, () => {
+    let repositories: ContentRepositories;
+    let cleanDatabase: () => Promise<void>;
+    let createUser: (username: string) => Promise<string>;
+
+    // Precisión de milisegundos: la que guardan todos los motores
+    const createdAt = new Date('2025-10-09T10:00:00.000Z');
+    const later = new Date('2025-10-09T11:00:00.000Z');
+    const title = (value: string) => new ContentTitle(value);
+
+    const createCourse = async (
+      name: string,
+      now: Date = createdAt,
+      ownerId?: string
+    ): Promise<Course> => {
+      const course = Course.create(
+        {
+          title: title(name),
+          languagePair: LanguagePair.of('es', 'en'),
+          description: `Descripción de ${name}`,
+          ownerId,
+        },
+        now
+      );
+      await repositories.courseRepository.create(course);
+      return course;
+    };
+
+    const createLevel = async (course: Course, name: string) => {
+      const level = Level.create(
+        course,
+        { title: title(name) },
+        await repositories.levelRepository.findByParentId(course.id),
+        createdAt
+      );
+      await repositories.levelRepository.create(level);
+      return level;
+    };
+
+    const createSection = async (level: Level, name: string) => {
+      const section = Section.create(
+        level,
+        { title: title(name) },
+        await repositories.sectionRepository.findByParentId(level.id),
+        createdAt
+      );
+      await repositories.sectionRepository.create(section);
+      return section;
+    };
+
+    const createModule = async (section: Section, name: string) => {
+      const module = Module.create(
+        section,
+        { title: title(name) },
+        await repositories.moduleRepository.findByParentId(section.id),
+        createdAt
+      );
+      await repositories.moduleRepository.create(module);
+      return module;
+    };
+
+    const createLesson = async (module: Module, name: string) => {
+      const lesson = Lesson.create(
+        module,
+        { title: title(name) },
+        await repositories.lessonRepository.findByParentId(module.id),
+        createdAt
+      );
+      await repositories.lessonRepository.create(lesson);
+      return lesson;
+    };
+
+    // Curso con un elemento por nivel hasta la lección
+    const createTree = async (name: string) => {
+      const course = await createCourse(name);
+      const level = await createLevel(course, `${name} A1`);
+      const section = await createSection(level, `${name} Saludos`);
+      const module = await createModule(section, `${name} Presentarse`);
+      const lesson = await createLesson(module, `${name} Hola`);
+      return { course, level, section, module, lesson };
+    };
+
+    const createExercise = async (sourceText: string) => {
+      const exercise = Exercise.create(
+        ExercisePayload.create({
+          type: 'translate',
+          sourceText,
+          acceptedTranslations: [`${sourceText} (en)`],
+        }),
+        undefined,
+        createdAt
+      );
+      await repositories.exerciseRepository.create(exercise);
+      return exercise;
+    };
+
+    const attachExercise = async (
+      lesson: Lesson,
+      exercise: Exercise,
+      position?: Position
+    ) => {
+      const link = LessonExercise.create(
+        lesson,
+        exercise,
+        await repositories.lessonExerciseRepository.findByLessonId(lesson.id),
+        position,
+        createdAt
+      );
+      await repositories.lessonExerciseRepository.attach(link);
+      return link;
+    };
+
+    const exerciseIdsOf = (links: LessonExercise[]) =>
+      links.map((link) => link.exerciseId);
+
+    const titlesOf = (nodes: { title: ContentTitle }[]) =>
+      nodes.map((node) => node.title.value);
+
+    beforeAll(() => {
+      const setup = setupRepositories();
+      repositories = setup.repositories;
+      cleanDatabase = setup.cleanDatabase;
+      createUser = setup.createUser;
+    });
+
+    beforeEach(async () => {
+      await cleanDatabase();
+    });
+
+    afterAll(async () => {
+      await teardownRepositories();
+    });
+
+    describe('cursos', () => {
+      it('debería guardar un curso y recuperarlo por id y por slug', async () => {
+        const course = await createCourse('Inglés para hispanohablantes');
+
+        for (const found of [
+          await repositories.courseRepository.findById(course.id),
+          await repositories.courseRepository.findBySlug(
+            new Slug('ingles-para-hispanohablantes')
+          ),
+        ]) {
+          expect(found).toBeInstanceOf(Course);
+          expect(found!.id).toBe(course.id);
+          expect(found!.slug.value).toBe('ingles-para-hispanohablantes');
+          expect(found!.title.value).toBe('Inglés para hispanohablantes');
+          expect(found!.description).toBe(
+            'Descripción de Inglés para hispanohablantes'
+          );
+          expect(found!.languagePair.source.value).toBe('es');
+          expect(found!.languagePair.target.value).toBe('en');
+          expect(found!.createdAt).toEqual(createdAt);
+          expect(found!.updatedAt).toEqual(createdAt);
+        }
+      });
+
+      it('debería devolver null si el curso no existe', async () => {
+        expect(
+          await repositories.courseRepository.findById(
+            '00000000-0000-4000-8000-000000000000'
+          )
+        ).toBeNull();
+        expect(
+          await repositories.courseRepository.findBySlug(new Slug('no-existe'))
+        ).toBeNull();
+      });
+
+      it('debería listar todos los cursos del más antiguo al más reciente', async () => {
+        await createCourse('Segundo', later);
+        await createCourse('Primero', createdAt);
+
+        const courses = await repositories.courseRepository.findAll();
+
+        expect(titlesOf(courses)).toEqual(['Primero', 'Segundo']);
+      });
+
+      it('debería rechazar un curso con un slug que ya existe', async () => {
+        await createCourse('Francés');
+        const duplicate = Course.create({
+          title: title('Francés básico'),
+          slug: new Slug('frances'),
+          languagePair: LanguagePair.of('es', 'fr'),
+        });
+
+        await expect(
+          repositories.courseRepository.create(duplicate)
+        ).rejects.toThrow(CourseSlugTakenError);
+        expect(await repositories.courseRepository.findAll()).toHaveLength(1);
+      });
+
+      it('debería guardar los cambios de un curso', async () => {
+        const course = await createCourse('Alemán');
+        const changed = course.update(
+          {
+            title: title('Alemán intensivo'),
+            slug: new Slug('aleman-intensivo'),
+            description: null,
+            languagePair: LanguagePair.of('pt-BR', 'de'),
+          },
+          later
+        );
+
+        const saved = await repositories.courseRepository.update(changed);
+        const found = await repositories.courseRepository.findById(course.id);
+
+        expect(saved).not.toBeNull();
+        expect(found!.title.value).toBe('Alemán intensivo');
+        expect(found!.slug.value).toBe('aleman-intensivo');
+        expect(found!.description).toBeNull();
+        expect(found!.languagePair.source.value).toBe('pt-BR');
+        expect(found!.createdAt).toEqual(createdAt);
+        expect(found!.updatedAt).toEqual(later);
+      });
+
+      it('debería rechazar cambiar el slug por el de otro curso', async () => {
+        await createCourse('Italiano');
+        const course = await createCourse('Japonés');
+
+        await expect(
+          repositories.courseRepository.update(
+            course.update({ slug: new Slug('italiano') }, later)
+          )
+        ).rejects.toThrow(CourseSlugTakenError);
+        expect(
+          (await repositories.courseRepository.findById(course.id))!.slug.value
+        ).toBe('japones');
+      });
+
+      it('debería devolver null al actualizar un curso inexistente', async () => {
+        const course = Course.create({
+          title: title('Fantasma'),
+          languagePair: LanguagePair.of('es', 'en'),
+        });
+
+        expect(await repositories.courseRepository.update(course)).toBeNull();
+        expect(
+          await repositories.courseRepository.findById(course.id)
+        ).toBeNull();
+      });
+
+      it('debería guardar el propietario de un curso', async () => {
+        const ownerId = await createUser('ana');
+        const course = await createCourse('Ruso', createdAt, ownerId);
+
+        const found = await repositories.courseRepository.findById(course.id);
+
+        expect(found!.ownerId).toBe(ownerId);
+        expect(found!.isOwnedBy(ownerId)).toBe(true);
+      });
+
+      it('debería listar los cursos que un usuario puede editar', async () => {
+        const ana = await createUser('ana');
+        const luis = await createUser('luis');
+        const own = await createCourse('Propio', createdAt, ana);
+        const shared = await createCourse('Compartido', later, luis);
+        await createCourse('Ajeno', createdAt, luis);
+        await repositories.courseCollaboratorRepository.add(
+          shared.id,
+          ana,
+          createdAt
+        );
+
+        const courses = await repositories.courseRepository.findEditableBy(ana);
+
+        expect(courses.map((course) => course.id)).toEqual([own.id, shared.id]);
+      });
+
+      it('no debería fallar al borrar un curso inexistente', async () => {
+        await expect(
+          repositories.courseRepository.delete(
+            '00000000-0000-4000-8000-000000000000'
+          )
+        ).resolves.toBeUndefined();
+      });
+    });
+
+    describe('elementos de la jerarquía', () => {
+      it('debería guardar cada nivel de la jerarquía y recuperarlo por id', async () => {
+        const { course, level, section, module, lesson } =
+          await createTree('Curso');
+
+        const foundLevel = await repositories.levelRepository.findById(
+          level.id
+        );
+        const foundSection = await repositories.sectionRepository.findById(
+          section.id
+        );
+        const foundModule = await repositories.moduleRepository.findById(
+          module.id
+        );
+        const foundLesson = await repositories.lessonRepository.findById(
+          lesson.id
+        );
+
+        expect(foundLevel).toBeInstanceOf(Level);
+        expect(foundLevel!.courseId).toBe(course.id);
+        expect(foundLevel!.title.value).toBe('Curso A1');
+        expect(foundLevel!.position.value).toBe(1);
+        expect(foundLevel!.createdAt).toEqual(createdAt);
+        expect(foundSection).toBeInstanceOf(Section);
+        expect(foundSection!.levelId).toBe(level.id);
+        expect(foundModule).toBeInstanceOf(Module);
+        expect(foundModule!.sectionId).toBe(section.id);
+        expect(foundLesson).toBeInstanceOf(Lesson);
+        expect(foundLesson!.moduleId).toBe(module.id);
+        expect(foundLesson!.title.value).toBe('Curso Hola');
+      });
+
+      it('debería listar los elementos de un contenedor por posición', async () => {
+        const course = await createCourse('Curso');
+        const other = await createCourse('Otro curso');
+        const first = await createLevel(course, 'A1');
+        await createLevel(other, 'Ajeno');
+        // Una posición explícita deja un hueco; el siguiente va detrás
+        const third = Level.create(
+          course,
+          { title: title('B1'), position: new Position(3) },
+          [first],
+          createdAt
+        );
+        await repositories.levelRepository.create(third);
+        await createLevel(course, 'B2');
+
+        const levels = await repositories.levelRepository.findByParentId(
+          course.id
+        );
+
+        expect(titlesOf(levels)).toEqual(['A1', 'B1', 'B2']);
+        expect(levels.map((level) => level.position.value)).toEqual([1, 3, 4]);
+      });
+
+      it('debería rechazar un elemento cuyo contenedor no existe', async () => {
+        const { course, module } = await createTree('Curso');
+        await repositories.courseRepository.delete(course.id);
+
+        const orphanLevel = Level.create(course, { title: title('A2') }, []);
+        const orphanLesson = Lesson.create(
+          module,
+          { title: title('Adiós') },
+          []
+        );
+
+        await expect(
+          repositories.levelRepository.create(orphanLevel)
+        ).rejects.toThrow(OrphanContentError);
+        await expect(
+          repositories.lessonRepository.create(orphanLesson)
+        ).rejects.toMatchObject({
+          code: 'CONTENT_PARENT_NOT_FOUND',
+          parentKind: 'module',
+        });
+        expect(
+          await repositories.levelRepository.findById(orphanLevel.id)
+        ).toBeNull();
+      });
+
+      it('debería rechazar un elemento en una posición ocupada de su contenedor', async () => {
+        const { module } = await createTree('Curso');
+        // Creado con una lista de hermanos desactualizada (concurrencia)
+        const duplicate = Lesson.create(module, { title: title('Otra') }, []);
+
+        await expect(
+          repositories.lessonRepository.create(duplicate)
+        ).rejects.toThrow(PositionTakenError);
+        expect(
+          await repositories.lessonRepository.findByParentId(module.id)
+        ).toHaveLength(1);
+      });
+
+      it('debería permitir la misma posición en contenedores distintos', async () => {
+        const first = await createTree('Uno');
+        const second = await createTree('Dos');
+
+        expect(first.section.position.value).toBe(1);
+        expect(second.section.position.value).toBe(1);
+      });
+
+      it('debería guardar el nuevo título y la nueva posición de un elemento', async () => {
+        const { section } = await createTree('Curso');
+        const changed = section
+          .rename(title('Despedidas'), later)
+          .moveTo(new Position(2), [section], later);
+
+        const saved = await repositories.sectionRepository.update(changed);
+        const found = await repositories.sectionRepository.findById(section.id);
+
+        expect(saved).not.toBeNull();
+        expect(found!.title.value).toBe('Despedidas');
+        expect(found!.position.value).toBe(2);
+        expect(found!.levelId).toBe(section.levelId);
+        expect(found!.updatedAt).toEqual(later);
+      });
+
+      it('debería rechazar mover un elemento a la posición de un hermano', async () => {
+        const { level, section } = await createTree('Curso');
+        const second = await createSection(level, 'Segunda');
+        // Creado con una lista de hermanos desactualizada (concurrencia)
+        const moved = second.moveTo(section.position, [], later);
+
+        await expect(
+          repositories.sectionRepository.update(moved)
+        ).rejects.toThrow(PositionTakenError);
+        expect(
+          (await repositories.sectionRepository.findById(second.id))!.position
+            .value
+        ).toBe(2);
+      });
+
+      it('debería devolver null al actualizar un elemento inexistente', async () => {
+        const { course } = await createTree('Curso');
+        const ghost = Level.create(
+          course,
+          {
+            title: title('Fantasma'),
+            position: new Position(9),
+          },
+          []
+        );
+
+        expect(await repositories.levelRepository.update(ghost)).toBeNull();
+        expect(
+          await repositories.levelRepository.findById(ghost.id)
+        ).toBeNull();
+      });
+    });
+
+    describe('versiones', () => {
+      it('debería empezar en la versión 1 y subirla con cada cambio guardado', async () => {
+        const { course, level } = await createTree('Curso');
+
+        const savedCourse = await repositories.courseRepository.update(
+          course.update({ title: title('Curso nuevo') }, later)
+        );
+        const savedLevel = await repositories.levelRepository.update(
+          level.rename(title('B1'), later)
+        );
+
+        expect(course.version).toBe(1);
+        expect(savedCourse!.version).toBe(2);
+        expect(savedLevel!.version).toBe(2);
+        expect(
+          (await repositories.courseRepository.findById(course.id))!.version
+        ).toBe(2);
+        expect(
+          (await repositories.levelRepository.findById(level.id))!.version
+        ).toBe(2);
+      });
+
+      it('debería rechazar guardar un curso leído en una versión anterior', async () => {
+        const course = await createCourse('Curso');
+        await repositories.courseRepository.update(
+          course.update({ title: title('Primer cambio') }, later)
+        );
+
+        await expect(
+          repositories.courseRepository.update(
+            course.update({ title: title('Segundo cambio') }, later)
+          )
+        ).rejects.toThrow(ContentVersionConflictError);
+        expect(
+          (await repositories.courseRepository.findById(course.id))!.title.value
+        ).toBe('Primer cambio');
+      });
+
+      it('debería rechazar guardar un elemento leído en una versión anterior', async () => {
+        const { lesson } = await createTree('Curso');
+        await repositories.lessonRepository.update(lesson.touch(later));
+
+        await expect(
+          repositories.lessonRepository.update(
+            lesson.rename(title('Adiós'), later)
+          )
+        ).rejects.toThrow(ContentVersionConflictError);
+        const found = await repositories.lessonRepository.findById(lesson.id);
+        expect(found!.title.value).toBe('Curso Hola');
+        expect(found!.version).toBe(2);
+      });
+
+      it('debería rechazar guardar un ejercicio leído en una versión anterior', async () => {
+        const exercise = await createExercise('hola');
+        const saved = await repositories.exerciseRepository.update(
+          exercise.withPayload(exercise.payload, later)
+        );
+
+        await expect(
+          repositories.exerciseRepository.update(
+            exercise.withPayload(exercise.payload, later)
+          )
+        ).rejects.toThrow(ContentVersionConflictError);
+        expect(saved!.version).toBe(2);
+      });
+
+      it('no debería cambiar la versión de los elementos al reordenarlos', async () => {
+        const { level, section } = await createTree('Curso');
+        const second = await createSection(level, 'Segunda');
+
+        const reordered = await repositories.sectionRepository.reorder(
+          level.id,
+          [second.id, section.id],
+          later
+        );
+
+        expect(reordered.map((node) => node.version)).toEqual([1, 1]);
+      });
+    });
+
+    describe('colaboradores', () => {
+      it('debería añadir colaboradores a un curso sin repetirlos', async () => {
+        const course = await createCourse('Curso');
+        const ana = await createUser('ana');
+        const luis = await createUser('luis');
+
+        await repositories.courseCollaboratorRepository.add(
+          course.id,
+          luis,
+          later
+        );
+        await repositories.courseCollaboratorRepository.add(
+          course.id,
+          ana,
+          createdAt
+        );
+        await repositories.courseCollaboratorRepository.add(
+          course.id,
+          ana,
+          later
+        );
+
+        expect(
+          await repositories.courseCollaboratorRepository.findUserIdsByCourseId(
+            course.id
+          )
+        ).toEqual([ana, luis]);
+        expect(
+          await repositories.courseCollaboratorRepository.isCollaborator(
+            course.id,
+            ana
+          )
+        ).toBe(true);
+      });
+
+      it('debería rechazar un colaborador de un curso inexistente', async () => {
+        const ana = await createUser('ana');
+
+        await expect(
+          repositories.courseCollaboratorRepository.add(
+            '00000000-0000-4000-8000-000000000000',
+            ana,
+            createdAt
+          )
+        ).rejects.toThrow(ContentNotFoundError);
+      });
+
+      it('debería quitar un colaborador, aunque no lo sea', async () => {
+        const course = await createCourse('Curso');
+        const ana = await createUser('ana');
+        await repositories.courseCollaboratorRepository.add(
+          course.id,
+          ana,
+          createdAt
+        );
+
+        await repositories.courseCollaboratorRepository.remove(course.id, ana);
+        await repositories.courseCollaboratorRepository.remove(course.id, ana);
+
+        expect(
+          await repositories.courseCollaboratorRepository.isCollaborator(
+            course.id,
+            ana
+          )
+        ).toBe(false);
+      });
+
+      it('debería borrar los colaboradores al borrar el curso', async () => {
+        const course = await createCourse('Curso');
+        const ana = await createUser('ana');
+        await repositories.courseCollaboratorRepository.add(
+          course.id,
+          ana,
+          createdAt
+        );
+
+        await repositories.courseRepository.delete(course.id);
+
+        expect(
+          await repositories.courseCollaboratorRepository.findUserIdsByCourseId(
+            course.id
+          )
+        ).toEqual([]);
+      });
+    });
+
+    describe('reorder', () => {
+      const createModuleWithLessons = async () => {
+        const { module, lesson } = await createTree('Curso');
+        const second = await createLesson(module, 'Segunda');
+        const third = await createLesson(module, 'Tercera');
+        return { module, lessons: [lesson, second, third] };
+      };
+
+      it('debería asignar las posiciones 1..n en el orden indicado', async () => {
+        const { module, lessons } = await createModuleWithLessons();
+        const [first, second, third] = lessons;
+
+        const reordered = await repositories.lessonRepository.reorder(
+          module.id,
+          [third.id, first.id, second.id],
+          later
+        );
+
+        expect(reordered.map((lesson) => lesson.id)).toEqual([
+          third.id,
+          first.id,
+          second.id,
+        ]);
+        expect(reordered.map((lesson) => lesson.position.value)).toEqual([
+          1, 2, 3,
+        ]);
+        expect(
+          reordered.every(
+            (lesson) => lesson.updatedAt.getTime() === later.getTime()
+          )
+        ).toBe(true);
+        expect(
+          await repositories.lessonRepository.findByParentId(module.id)
+        ).toEqual(reordered);
+      });
+
+      it('debería compactar los huecos al reordenar', async () => {
+        const course = await createCourse('Curso');
+        const first = await createLevel(course, 'A1');
+        const distant = Level.create(
+          course,
+          { title: title('B1'), position: new Position(10) },
+          [first],
+          createdAt
+        );
+        await repositories.levelRepository.create(distant);
+
+        const reordered = await repositories.levelRepository.reorder(
+          course.id,
+          [first.id, distant.id],
+          later
+        );
+
+        expect(reordered.map((level) => level.position.value)).toEqual([1, 2]);
+      });
+
+      it.each([
+        ['falta un elemento', (ids: string[]) => ids.slice(1)],
+        ['sobra un elemento', (ids: string[]) => [...ids, 'ajeno']],
+        [
+          'hay un elemento repetido',
+          (ids: string[]) => [ids[0], ids[0], ids[1]],
+        ],
+      ])(
+        'debería rechazar el orden si %s y no cambiar ninguna posición',
+        async (_case, orderOf) => {
+          const { module, lessons } = await createModuleWithLessons();
+          const reversed = lessons.map((lesson) => lesson.id).reverse();
+
+          await expect(
+            repositories.lessonRepository.reorder(
+              module.id,
+              orderOf(reversed),
+              later
+            )
+          ).rejects.toThrow(InvalidReorderError);
+
+          const unchanged = await repositories.lessonRepository.findByParentId(
+            module.id
+          );
+          expect(unchanged.map((lesson) => lesson.id)).toEqual(
+            lessons.map((lesson) => lesson.id)
+          );
+          expect(unchanged.map((lesson) => lesson.position.value)).toEqual([
+            1, 2, 3,
+          ]);
+        }
+      );
+
+      it('debería rechazar ids de otro contenedor', async () => {
+        const { module, lessons } = await createModuleWithLessons();
+        const other = await createTree('Otro');
+
+        await expect(
+          repositories.lessonRepository.reorder(
+            module.id,
+            [other.lesson.id, lessons[1].id, lessons[2].id],
+            later
+          )
+        ).rejects.toThrow(InvalidReorderError);
+        expect(
+          (await repositories.lessonRepository.findById(other.lesson.id))!
+            .moduleId
+        ).toBe(other.module.id);
+      });
+    });
+
+    describe('borrado en cascada', () => {
+      it('debería borrar todo el contenido de un curso sin tocar otros cursos', async () => {
+        const deleted = await createTree('Borrado');
+        const kept = await createTree('Conservado');
+
+        await repositories.courseRepository.delete(deleted.course.id);
+
+        expect(
+          await repositories.courseRepository.findById(deleted.course.id)
+        ).toBeNull();
+        expect(
+          await repositories.levelRepository.findById(deleted.level.id)
+        ).toBeNull();
+        expect(
+          await repositories.sectionRepository.findById(deleted.section.id)
+        ).toBeNull();
+        expect(
+          await repositories.moduleRepository.findById(deleted.module.id)
+        ).toBeNull();
+        expect(
+          await repositories.lessonRepository.findById(deleted.lesson.id)
+        ).toBeNull();
+        expect(
+          await repositories.lessonRepository.findById(kept.lesson.id)
+        ).not.toBeNull();
+      });
+
+      it('debería borrar los descendientes de un elemento y conservar a sus hermanos y su contenedor', async () => {
+        const { level, section, module, lesson } = await createTree('Curso');
+        const sibling = await createSection(level, 'Hermana');
+        const siblingModule = await createModule(sibling, 'Módulo hermano');
+
+        await repositories.sectionRepository.delete(section.id);
+
+        expect(
+          await repositories.sectionRepository.findById(section.id)
+        ).toBeNull();
+        expect(
+          await repositories.moduleRepository.findById(module.id)
+        ).toBeNull();
+        expect(
+          await repositories.lessonRepository.findById(lesson.id)
+        ).toBeNull();
+        expect(
+          await repositories.levelRepository.findById(level.id)
+        ).not.toBeNull();
+        const remaining = await repositories.sectionRepository.findByParentId(
+          level.id
+        );
+        expect(remaining.map((node) => node.id)).toEqual([sibling.id]);
+        expect(remaining[0].position.value).toBe(2);
+        expect(
+          await repositories.moduleRepository.findById(siblingModule.id)
+        ).not.toBeNull();
+      });
+
+      it('no debería fallar al borrar un elemento inexistente', async () => {
+        await expect(
+          repositories.moduleRepository.delete(
+            '00000000-0000-4000-8000-000000000000'
+          )
+        ).resolves.toBeUndefined();
+      });
+    });
+
+    describe('ejercicios', () => {
+      it('debería guardar el payload de cada tipo de ejercicio y recuperarlo igual', async () => {
+        const payloads = [
+          {
+            type: 'multiple_choice',
+            prompt: '¿Cómo se dice "gato"?',
+            options: ['cat', 'dog', 'bird'],
+            correctOptionIndexes: [0],
+          },
+          {
+            type: 'fill_blank',
+            text: 'I ___ a student',
+            blanks: [{ acceptedAnswers: ['am'] }],
+          },
+          {
+            type: 'word_order',
+            words: ['I', 'like', 'tea'],
+            distractors: ['likes'],
+          },
+          {
+            type: 'dictation',
+            audioUrl: 'https://cdn.example.com/audio/hola.mp3',
+            acceptedAnswers: ['Hello, how are you?', 'Hello how are you'],
+          },
+        ];
+
+        for (const data of payloads) {
+          const exercise = Exercise.create(
+            ExercisePayload.create(data),
+            undefined,
+            createdAt
+          );
+          await repositories.exerciseRepository.create(exercise);
+
+          const found = await repositories.exerciseRepository.findById(
+            exercise.id
+          );
+          expect(found?.type).toBe(data.type);
+          expect(found?.payload.data).toEqual(exercise.payload.data);
+          expect(found?.createdAt).toEqual(createdAt);
+        }
+      });
+
+      it('debería devolver los ejercicios pedidos en el orden de los ids', async () => {
+        const first = await createExercise('uno');
+        const second = await createExercise('dos');
+
+        const found = await repositories.exerciseRepository.findByIds([
+          second.id,
+          '00000000-0000-4000-8000-000000000000',
+          first.id,
+        ]);
+
+        expect(found.map((exercise) => exercise.id)).toEqual([
+          second.id,
+          first.id,
+        ]);
+      });
+
+      it('debería guardar un cambio de payload, incluso de tipo', async () => {
+        const exercise = await createExercise('hola');
+        const changed = exercise.withPayload(
+          ExercisePayload.create({
+            type: 'match_pairs',
+            pairs: [
+              { left: 'hola', right: 'hello' },
+              { left: 'adiós', right: 'goodbye' },
+            ],
+          }),
+          later
+        );
+
+        await repositories.exerciseRepository.update(changed);
+
+        const found = await repositories.exerciseRepository.findById(
+          exercise.id
+        );
+        expect(found?.type).toBe('match_pairs');
+        expect(found?.payload.data).toEqual(changed.payload.data);
+        expect(found?.updatedAt).toEqual(later);
+      });
+
+      it('debería devolver null al actualizar un ejercicio inexistente', async () => {
+        const exercise = Exercise.create(
+          ExercisePayload.create({
+            type: 'translate',
+            sourceText: 'hola',
+            acceptedTranslations: ['hello'],
+          })
+        );
+
+        expect(
+          await repositories.exerciseRepository.update(exercise)
+        ).toBeNull();
+      });
+
+      it('debería listar los ejercicios de una lección por posición', async () => {
+        const { lesson } = await createTree('Curso');
+        const first = await createExercise('uno');
+        const second = await createExercise('dos');
+        const third = await createExercise('tres');
+        await attachExercise(lesson, second, new Position(2));
+        await attachExercise(lesson, first, new Position(1));
+        const appended = await attachExercise(lesson, third);
+
+        const links =
+          await repositories.lessonExerciseRepository.findByLessonId(lesson.id);
+
+        expect(appended.position.value).toBe(3);
+        expect(exerciseIdsOf(links)).toEqual([first.id, second.id, third.id]);
+      });
+
+      it('debería permitir reutilizar un ejercicio en varias lecciones', async () => {
+        const { module, lesson } = await createTree('Curso');
+        const other = await createLesson(module, 'Adiós');
+        const exercise = await createExercise('hola');
+        await attachExercise(lesson, exercise);
+        await attachExercise(other, exercise);
+
+        const links =
+          await repositories.lessonExerciseRepository.findByExerciseId(
+            exercise.id
+          );
+
+        expect(links.map((link) => link.lessonId).sort()).toEqual(
+          [lesson.id, other.id].sort()
+        );
+      });
+
+      it('debería rechazar añadir el mismo ejercicio dos veces a una lección', async () => {
+        const { lesson } = await createTree('Curso');
+        const exercise = await createExercise('hola');
+        await attachExercise(lesson, exercise);
+
+        await expect(
+          repositories.lessonExerciseRepository.attach(
+            LessonExercise.fromPersistence(
+              lesson.id,
+              exercise.id,
+              new Position(2),
+              createdAt
+            )
+          )
+        ).rejects.toThrow(ExerciseAlreadyInLessonError);
+      });
+
+      it('debería rechazar un ejercicio en una posición ocupada de la lección', async () => {
+        const { lesson } = await createTree('Curso');
+        await attachExercise(lesson, await createExercise('uno'));
+        const other = await createExercise('dos');
+
+        await expect(
+          repositories.lessonExerciseRepository.attach(
+            LessonExercise.fromPersistence(
+              lesson.id,
+              other.id,
+              new Position(1),
+              createdAt
+            )
+          )
+        ).rejects.toThrow(PositionTakenError);
+      });
+
+      it('debería rechazar enlazar una lección o un ejercicio inexistentes', async () => {
+        const { lesson } = await createTree('Curso');
+        const exercise = await createExercise('hola');
+        const missing = '00000000-0000-4000-8000-000000000000';
+
+        await expect(
+          repositories.lessonExerciseRepository.attach(
+            LessonExercise.fromPersistence(
+              missing,
+              exercise.id,
+              new Position(1),
+              createdAt
+            )
+          )
+        ).rejects.toThrow(OrphanContentError);
+        await expect(
+          repositories.lessonExerciseRepository.attach(
+            LessonExercise.fromPersistence(
+              lesson.id,
+              missing,
+              new Position(1),
+              createdAt
+            )
+          )
+        ).rejects.toThrow(ExerciseNotFoundError);
+      });
+
+      it('debería reordenar los ejercicios de una lección', async () => {
+        const { lesson } = await createTree('Curso');
+        const exercises = [
+          await createExercise('uno'),
+          await createExercise('dos'),
+          await createExercise('tres'),
+        ];
+        for (const exercise of exercises) {
+          await attachExercise(lesson, exercise);
+        }
+        const order = [exercises[2].id, exercises[0].id, exercises[1].id];
+
+        const reordered = await repositories.lessonExerciseRepository.reorder(
+          lesson.id,
+          order
+        );
+
+        expect(exerciseIdsOf(reordered)).toEqual(order);
+        expect(reordered.map((link) => link.position.value)).toEqual([1, 2, 3]);
+        expect(
+          exerciseIdsOf(
+            await repositories.lessonExerciseRepository.findByLessonId(
+              lesson.id
+            )
+          )
+        ).toEqual(order);
+      });
+
+      it('no debería cambiar ninguna posición si el nuevo orden es inválido', async () => {
+        const { lesson } = await createTree('Curso');
+        const first = await createExercise('uno');
+        const second = await createExercise('dos');
+        await attachExercise(lesson, first);
+        await attachExercise(lesson, second);
+
+        await expect(
+          repositories.lessonExerciseRepository.reorder(lesson.id, [second.id])
+        ).rejects.toThrow(InvalidReorderError);
+        expect(
+          exerciseIdsOf(
+            await repositories.lessonExerciseRepository.findByLessonId(
+              lesson.id
+            )
+          )
+        ).toEqual([first.id, second.id]);
+      });
+
+      it('debería quitar un ejercicio de una lección sin borrarlo', async () => {
+        const { lesson } = await createTree('Curso');
+        const exercise = await createExercise('hola');
+        await attachExercise(lesson, exercise);
+
+        await repositories.lessonExerciseRepository.detach(
+          lesson.id,
+          exercise.id
+        );
+        await repositories.lessonExerciseRepository.detach(
+          lesson.id,
+          exercise.id
+        );
+
+        expect(
+          await repositories.lessonExerciseRepository.findByLessonId(lesson.id)
+        ).toEqual([]);
+        expect(
+          await repositories.exerciseRepository.findById(exercise.id)
+        ).not.toBeNull();
+      });
+
+      it('debería borrar los enlaces, y no los ejercicios, al borrar el curso', async () => {
+        const { course, lesson } = await createTree('Curso');
+        const exercise = await createExercise('hola');
+        await attachExercise(lesson, exercise);
+
+        await repositories.courseRepository.delete(course.id);
+
+        expect(
+          await repositories.lessonExerciseRepository.findByExerciseId(
+            exercise.id
+          )
+        ).toEqual([]);
+        expect(
+          await repositories.exerciseRepository.findById(exercise.id)
+        ).not.toBeNull();
+      });
+
+      it('debería borrar los enlaces de un ejercicio al borrarlo', async () => {
+        const { lesson } = await createTree('Curso');
+        const exercise = await createExercise('hola');
+        await attachExercise(lesson, exercise);
+
+        await repositories.exerciseRepository.delete(exercise.id);
+        await repositories.exerciseRepository.delete(exercise.id);
+
+        expect(
+          await repositories.exerciseRepository.findById(exercise.id)
+        ).toBeNull();
+        expect(
+          await repositories.lessonExerciseRepository.findByLessonId(lesson.id)
+        ).toEqual([]);
+      });
+    });
+
+    describe('publicaciones', () => {
+      const documentOf = (
+        kind: PublishableKind,
+        id: string,
+        name: string
+      ): PublishedDocument =>
+        kind === 'course'
+          ? {
+              kind,
+              id,
+              slug: 'curso',
+              title: name,
+              description: null,
+              sourceLanguage: 'es',
+              targetLanguage: 'en',
+              levels: [],
+            }
+          : {
+              kind,
+              id,
+              courseId: 'curso',
+              title: name,
+              exercises: [{ id: 'ejercicio', schemaVersion: 1, payload: {} }],
+            };
+
+      // Envía a revisar y aprueba una versión nueva del contenido
+      const publish = async (
+        publication: Publication,
+        name: string,
+        now: Date = createdAt
+      ): Promise<Publication> => {
+        const submitted = await repositories.publicationRepository.save(
+          publication.submit(
+            documentOf(publication.kind, publication.contentId, name),
+            1,
+            'autor',
+            now
+          )
+        );
+        return repositories.publicationRepository.save(
+          submitted.approve('admin', null, now)
+        );
+      };
+
+      it('debería crear la publicación al guardarla por primera vez', async () => {
+        const { lesson } = await createTree('Curso');
+        const change = Publication.start('lesson', lesson.id, createdAt).submit(
+          documentOf('lesson', lesson.id, 'Hola'),
+          3,
+          'autor',
+          createdAt
+        );
+
+        const saved = await repositories.publicationRepository.save(change);
+
+        expect(saved.version).toBe(1);
+        const found = await repositories.publicationRepository.findByContent(
+          'lesson',
+          lesson.id
+        );
+        expect(found).toEqual(saved);
+        expect(found?.pending).toEqual({
+          document: documentOf('lesson', lesson.id, 'Hola'),
+          contentVersion: 3,
+          submittedBy: 'autor',
+          submittedAt: createdAt,
+        });
+        expect(
+          await repositories.publicationRepository.findByContent(
+            'course',
+            lesson.id
+          )
+        ).toBeNull();
+      });
+
+      it('debería guardar las instantáneas aprobadas con su documento', async () => {
+        const course = await createCourse('Curso');
+        const publication = await publish(
+          await publish(Publication.start('course', course.id), 'v1'),
+          'v2',
+          later
+        );
+
+        expect(publication).toEqual(
+          expect.objectContaining({
+            status: 'published',
+            publishedNumber: 2,
+            pending: null,
+            version: 4,
+          })
+        );
+        const snapshots =
+          await repositories.publicationRepository.findSnapshots(
+            publication.id
+          );
+        expect(snapshots.map((snapshot) => snapshot.number)).toEqual([1, 2]);
+        expect(
+          await repositories.publicationRepository.findSnapshot(
+            publication.id,
+            2
+          )
+        ).toEqual(
+          expect.objectContaining({
+            document: documentOf('course', course.id, 'v2'),
+            contentVersion: 1,
+            submittedBy: 'autor',
+            approvedBy: 'admin',
+            publishedAt: later,
+          })
+        );
+        expect(
+          await repositories.publicationRepository.findSnapshot(
+            publication.id,
+            3
+          )
+        ).toBeNull();
+      });
+
+      it('debería rechazar guardar sobre otra versión o repetir la publicación', async () => {
+        const course = await createCourse('Curso');
+        const start = Publication.start('course', course.id);
+        const published = await publish(start, 'v1');
+
+        await expect(
+          repositories.publicationRepository.save(
+            start.submit(documentOf('course', course.id, 'v1'), 1, 'autor')
+          )
+        ).rejects.toThrow(ContentVersionConflictError);
+        await expect(
+          repositories.publicationRepository.save(
+            published.withVersion(1).archive('autor')
+          )
+        ).rejects.toThrow(ContentVersionConflictError);
+        expect(
+          (await repositories.publicationRepository.findSnapshots(published.id))
+            .length
+        ).toBe(1);
+      });
+
+      it('debería rechazar la publicación de contenido inexistente', async () => {
+        const missing = '00000000-0000-4000-8000-000000000000';
+
+        await expect(
+          repositories.publicationRepository.save(
+            Publication.start('lesson', missing).submit(
+              documentOf('lesson', missing, 'Hola'),
+              1,
+              'autor'
+            )
+          )
+        ).rejects.toThrow(ContentNotFoundError);
+      });
+
+      it('debería devolver solo la instantánea visible de cada publicación', async () => {
+        const first = await createCourse('Primero', createdAt);
+        const second = await createCourse('Segundo', createdAt);
+        const archived = await createCourse('Archivado', createdAt);
+        const draft = await createCourse('Borrador', createdAt);
+
+        const rolledBack = await publish(
+          await publish(Publication.start('course', first.id, createdAt), 'v1'),
+          'v2'
+        );
+        await repositories.publicationRepository.save(
+          rolledBack.rollBackTo(1, 'autor', null, later)
+        );
+        await publish(
+          Publication.start('course', second.id, later),
+          'Segundo v1'
+        );
+        const toArchive = await publish(
+          Publication.start('course', archived.id, createdAt),
+          'Archivado v1'
+        );
+        await repositories.publicationRepository.save(
+          toArchive.archive('autor')
+        );
+        await repositories.publicationRepository.save(
+          Publication.start('course', draft.id).submit(
+            documentOf('course', draft.id, 'Borrador v1'),
+            1,
+            'autor'
+          )
+        );
+
+        const live =
+          await repositories.publicationRepository.findLiveSnapshots('course');
+
+        expect(
+          live.map((snapshot) => [snapshot.document.title, snapshot.number])
+        ).toEqual([
+          ['v1', 1],
+          ['Segundo v1', 1],
+        ]);
+        expect(
+          await repositories.publicationRepository.findLiveSnapshots('lesson')
+        ).toEqual([]);
+      });
+
+      it('debería listar las publicaciones por estado', async () => {
+        const first = await createCourse('Primero');
+        const second = await createCourse('Segundo');
+        const submit = (course: Course, now: Date) =>
+          repositories.publicationRepository.save(
+            Publication.start('course', course.id, now).submit(
+              documentOf('course', course.id, course.title.value),
+              1,
+              'autor',
+              now
+            )
+          );
+        await submit(second, later);
+        await submit(first, createdAt);
+
+        const inReview =
+          await repositories.publicationRepository.findByStatus('in_review');
+
+        expect(inReview.map((publication) => publication.contentId)).toEqual([
+          first.id,
+          second.id,
+        ]);
+        expect(
+          await repositories.publicationRepository.findByStatus('published')
+        ).toEqual([]);
+      });
+
+      it('debería guardar el historial con sus comentarios', async () => {
+        const course = await createCourse('Curso');
+        const submitted = await repositories.publicationRepository.save(
+          Publication.start('course', course.id).submit(
+            documentOf('course', course.id, 'v1'),
+            1,
+            'autor',
+            createdAt
+          )
+        );
+        await repositories.publicationRepository.save(
+          submitted.reject('admin', new ReviewComment('Falta el audio'), later)
+        );
+
+        const history = await repositories.publicationRepository.findHistory(
+          submitted.id
+        );
+
+        expect(
+          history.map((entry) => [entry.action, entry.comment, entry.actorId])
+        ).toEqual([
+          ['rejected', 'Falta el audio', 'admin'],
+          ['submitted', null, 'autor'],
+        ]);
+        expect(history[0]).toEqual(
+          expect.objectContaining({
+            fromStatus: 'in_review',
+            toStatus: 'draft',
+            snapshotNumber: null,
+            createdAt: later,
+          })
+        );
+      });
+
+      it('debería borrar las publicaciones con su contenido', async () => {
+        const { course, lesson } = await createTree('Curso');
+        const coursePublication = await publish(
+          Publication.start('course', course.id),
+          'Curso v1'
+        );
+        await publish(Publication.start('lesson', lesson.id), 'Hola v1');
+
+        await repositories.courseRepository.delete(course.id);
+
+        expect(
+          await repositories.publicationRepository.findByContent(
+            'course',
+            course.id
+          )
+        ).toBeNull();
+        expect(
+          await repositories.publicationRepository.findByContent(
+            'lesson',
+            lesson.id
+          )
+        ).toBeNull();
+        expect(
+          await repositories.publicationRepository.findSnapshots(
+            coursePublication.id
+          )
+        ).toEqual([]);
+        expect(
+          await repositories.publicationRepository.findHistory(
+            coursePublication.id
+          )
+        ).toEqual([]);
+      });
+    });
+  });
+}
@@ -0,0 +1,252 @@
+// src/core/interfaces/repositories/__tests__/IUnitOfWork.contract.test.ts
+
+import { IUnitOfWork, UnitOfWorkRepositories } from '../IUnitOfWork';
+import { UserAlreadyExistsError } from '../UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { RefreshToken } from '@/core/domain/entities/RefreshToken';
+import { VerificationToken } from '@/core/domain/entities/VerificationToken';
+import { Email } from '@/core/domain/value-objects/Email';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { Username } from '@/core/domain/value-objects/Username';
+
+/**
+ * Función de test de contrato para IUnitOfWork.
+ * Cualquier implementación de IUnitOfWork debe pasar estos tests.
+ *
+ * Las escrituras se hacen con los repositorios de la unidad de trabajo y se
+ * comprueban con `repositories`, que trabajan fuera de la transacción.
+ *
+ * @param description Descripción de la suite de tests.
+ * @param setupUnitOfWork Función que devuelve la unidad de trabajo, los repositorios sin transacción y la limpieza de la BD.
+ * @param teardownUnitOfWork Función para limpiar recursos después de todos los tests.
+ */
+export function makeUnitOfWorkContractTest(
+  description: string,
+  setupUnitOfWork: () => {
+    unitOfWork: IUnitOfWork;
+    repositories: UnitOfWorkRepositories;
+    cleanDatabase: () => Promise<void>;
+  },
+  teardownUnitOfWork: () => Promise<void>
+) {
+  describe(description, () => {
+    let unitOfWork: IUnitOfWork;
+    let repositories: UnitOfWorkRepositories;
+    let cleanDatabase: () => Promise<void>;
+
+    const passwordHash = new HashedPassword(
+      '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+    );
+
+    const createUser = (
+      { userRepository }: UnitOfWorkRepositories,
+      name: string
+    ): Promise<User> =>
+      userRepository.create({
+        email: new Email(`${name}@example.com`),
+        username: new Username(name),
+        passwordHash,
+        role: new Role('student'),
+      });
+
+    // Escribe en todos los repositorios: usuario y su evento UserRegistered,
+    // token de confirmación, refresh token y un cambio de estado con su
+    // entrada de historial
+    const writeEverything = async (
+      transactional: UnitOfWorkRepositories,
+      name: string
+    ): Promise<User> => {
+      const user = await createUser(transactional, name);
+      await transactional.outboxRepository.append(user.pullDomainEvents());
+      await transactional.verificationTokenRepository.create(
+        VerificationToken.issue(
+          user.id,
+          'email_confirmation',
+          `confirmation-hash-${name}`,
+          3600
+        )
+      );
+      await transactional.refreshTokenRepository.create(
+        RefreshToken.issue(user.id, `refresh-hash-${name}`, 3600)
+      );
+      await transactional.userRepository.update(user.id, {
+        status: user.confirmEmail().status,
+      });
+      return user;
+    };
+
+    beforeAll(() => {
+      const setup = setupUnitOfWork();
+      unitOfWork = setup.unitOfWork;
+      repositories = setup.repositories;
+      cleanDatabase = setup.cleanDatabase;
+    });
+
+    beforeEach(async () => {
+      await cleanDatabase();
+    });
+
+    afterAll(async () => {
+      await teardownUnitOfWork();
+    });
+
+    it('debería confirmar todas las escrituras y devolver el resultado del trabajo', async () => {
+      const user = await unitOfWork.run((transactional) =>
+        writeEverything(transactional, 'committed_user')
+      );
+
+      const stored = await repositories.userRepository.findById(user.id);
+      expect(stored?.getStatusValue()).toBe('active');
+      expect(
+        await repositories.verificationTokenRepository.findByHash(
+          'confirmation-hash-committed_user'
+        )
+      ).not.toBeNull();
+      expect(
+        await repositories.refreshTokenRepository.findByHash(
+          'refresh-hash-committed_user'
+        )
+      ).not.toBeNull();
+      expect(
+        await repositories.userStatusChangeRepository.findByUserId(user.id, {
+          limit: 10,
+        })
+      ).toHaveLength(1);
+      const [message] = await repositories.outboxRepository.claimBatch(
+        new Date(),
+        10,
+        60000
+      );
+      expect(message?.event).toMatchObject({
+        type: 'UserRegistered',
+        aggregateId: user.id,
+      });
+    });
+
+    it('debería ver dentro del trabajo lo que el propio trabajo ha escrito', async () => {
+      const found = await unitOfWork.run(async (transactional) => {
+        const user = await createUser(transactional, 'visible_user');
+        return transactional.userRepository.findById(user.id);
+      });
+
+      expect(found?.getUsernameValue()).toBe('visible_user');
+    });
+
+    it('debería deshacer todas las escrituras y propagar el error si el trabajo falla', async () => {
+      const failure = new Error('Fallo después de escribir');
+      let userId: string | undefined;
+
+      await expect(
+        unitOfWork.run(async (transactional) => {
+          userId = (await writeEverything(transactional, 'rolled_back_user'))
+            .id;
+          throw failure;
+        })
+      ).rejects.toBe(failure);
+
+      expect(userId).toBeDefined();
+      expect(
+        await repositories.userRepository.findById(userId as string)
+      ).toBeNull();
+      expect(
+        await repositories.verificationTokenRepository.findByHash(
+          'confirmation-hash-rolled_back_user'
+        )
+      ).toBeNull();
+      expect(
+        await repositories.refreshTokenRepository.findByHash(
+          'refresh-hash-rolled_back_user'
+        )
+      ).toBeNull();
+      expect(
+        await repositories.userStatusChangeRepository.findByUserId(
+          userId as string,
+          { limit: 10 }
+        )
+      ).toHaveLength(0);
+      expect(
+        await repositories.outboxRepository.claimBatch(new Date(), 10, 60000)
+      ).toHaveLength(0);
+      expect(await repositories.userRepository.countUsers()).toBe(0);
+    });
+
+    it('debería conservar el historial al eliminar al usuario y registrar quién lo eliminó', async () => {
+      const admin = await createUser(repositories, 'deleting_admin');
+      const user = await unitOfWork.run((transactional) =>
+        writeEverything(transactional, 'deleted_user')
+      );
+
+      await unitOfWork.run((transactional) =>
+        transactional.userRepository.delete(user.id, { changedBy: admin.id })
+      );
+
+      expect(await repositories.userRepository.findById(user.id)).toBeNull();
+      const history =
+        await repositories.userStatusChangeRepository.findByUserId(user.id, {
+          limit: 10,
+        });
+      expect(history.map((change) => change.kind).sort()).toEqual([
+        'deletion',
+        'status',
+      ]);
+      expect(
+        history.find((change) => change.kind === 'deletion')
+      ).toMatchObject({
+        fromValue: 'active',
+        toValue: 'deleted',
+        changedBy: admin.id,
+      });
+    });
+
+    it('debería paginar el historial sin saltarse entradas con la misma fecha', async () => {
+      const at = new Date('2025-10-06T10:00:00Z');
+      const user = await createUser(repositories, 'same_time_user');
+      const suspended = user.suspend(
+        new Date('2025-10-13T10:00:00Z'),
+        'Spam',
+        null,
+        at
+      );
+      const banned = suspended.ban('Fraude', null, at);
+      for (const { status } of [suspended, banned]) {
+        await repositories.userRepository.update(user.id, { status });
+      }
+
+      const ids: string[] = [];
+      let before: { createdAt: Date; id: string } | undefined;
+      for (;;) {
+        const [change] =
+          await repositories.userStatusChangeRepository.findByUserId(user.id, {
+            limit: 1,
+            before,
+          });
+        if (!change) {
+          break;
+        }
+        ids.push(change.id);
+        before = { createdAt: change.createdAt, id: change.id };
+      }
+
+      expect(ids).toHaveLength(2);
+      expect(new Set(ids).size).toBe(2);
+    });
+
+    it('debería deshacer las escrituras previas si falla una escritura de un repositorio', async () => {
+      await createUser(repositories, 'existing_user');
+
+      await expect(
+        unitOfWork.run(async (transactional) => {
+          await createUser(transactional, 'first_user');
+          // Mismo email y username que un usuario ya confirmado
+          await createUser(transactional, 'existing_user');
+        })
+      ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+
+      expect(
+        await repositories.userRepository.findByUsername('first_user')
+      ).toBeNull();
+      expect(await repositories.userRepository.countUsers()).toBe(1);
+    });
+  });
+}
@@ -2,6 +2,10 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { IUserRepository } from '../IUserRepository';
+import {
+  InvalidUserSearchError,
+  UserAlreadyExistsError,
+} from '../UserRepositoryErrors';
 import { User } from '@/core/domain/entities/User';
 import { Email } from '@/core/domain/value-objects/Email';
 import { HashedPassword } from '@/core/domain/value-objects/Password';
@@ -92,6 +96,39 @@ export function makeUserRepositoryContractTest(
         const userExistsInDb = await verifyUserInDatabase(createdUser.id);
         expect(userExistsInDb).toBe(true);
       });
+
+      it('debería rechazar un email o un username ya registrados', async () => {
+        const passwordHash = new HashedPassword(
+          '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+        );
+        await userRepository.create({
+          email: new Email('unique-test@example.com'),
+          username: new Username('unique_user'),
+          passwordHash,
+          role: new Role('student'),
+        });
+
+        await expect(
+          userRepository.create({
+            email: new Email('UNIQUE-TEST@example.com'),
+            username: new Username('other_user'),
+            passwordHash,
+            role: new Role('student'),
+          })
+        ).rejects.toMatchObject({ code: 'USER_EMAIL_TAKEN', field: 'email' });
+        await expect(
+          userRepository.create({
+            email: new Email('other-test@example.com'),
+            username: new Username('unique_user'),
+            passwordHash,
+            role: new Role('student'),
+          })
+        ).rejects.toMatchObject({
+          code: 'USER_USERNAME_TAKEN',
+          field: 'username',
+        });
+        expect(await userRepository.countUsers()).toBe(1);
+      });
     });
 
     describe('findById', () => {
@@ -196,6 +233,104 @@ export function makeUserRepositoryContractTest(
         ); // No debería cambiar
       });
 
+      it('debería actualizar la fecha de último login', async () => {
+        const createdUser = await userRepository.create({
+          email: new Email('lastlogin-test@example.com'),
+          username: new Username('lastlogin_user'),
+          passwordHash: new HashedPassword(
+            '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+          ),
+          role: new Role('student'),
+        });
+        const lastLogin = new Date();
+
+        const updatedUser = await userRepository.update(createdUser.id, {
+          lastLogin,
+        });
+
+        expect(updatedUser?.lastLogin?.getTime()).toBe(lastLogin.getTime());
+        const foundUser = await userRepository.findById(createdUser.id);
+        expect(foundUser?.hasEverLoggedIn()).toBe(true);
+      });
+
+      it('debería persistir el cambio de estado del usuario', async () => {
+        const createdUser = await userRepository.create({
+          email: new Email('status-test@example.com'),
+          username: new Username('status_user'),
+          passwordHash: new HashedPassword(
+            '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+          ),
+          role: new Role('student'),
+        });
+        expect(createdUser.isPendingConfirmation()).toBe(true);
+
+        await userRepository.update(createdUser.id, {
+          status: createdUser.confirmEmail().status,
+        });
+
+        const foundUser = await userRepository.findById(createdUser.id);
+        expect(foundUser?.isActive()).toBe(true);
+      });
+
+      it('debería persistir el motivo, autor y fin de una suspensión', async () => {
+        const createdUser = await userRepository.create({
+          email: new Email('suspend-test@example.com'),
+          username: new Username('suspend_user'),
+          passwordHash: new HashedPassword(
+            '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+          ),
+          role: new Role('student'),
+        });
+        const now = new Date();
+        const until = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+        const suspended = createdUser
+          .confirmEmail(now)
+          .suspend(until, 'Spam en foros', 'moderator-id', now);
+
+        await userRepository.update(createdUser.id, {
+          status: suspended.status,
+        });
+
+        const foundUser = await userRepository.findById(createdUser.id);
+        expect(foundUser?.isSuspended()).toBe(true);
+        expect(foundUser?.status.reason).toBe('Spam en foros');
+        expect(foundUser?.status.changedBy).toBe('moderator-id');
+        expect(foundUser?.status.changedAt?.getTime()).toBe(now.getTime());
+        expect(foundUser?.status.suspendedUntil?.getTime()).toBe(
+          until.getTime()
+        );
+      });
+
+      it('debería rechazar cambiar el email por el de otro usuario sin modificar ninguno', async () => {
+        const passwordHash = new HashedPassword(
+          '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+        );
+        await userRepository.create({
+          email: new Email('taken@example.com'),
+          username: new Username('taken_user'),
+          passwordHash,
+          role: new Role('student'),
+        });
+        const user = await userRepository.create({
+          email: new Email('mine@example.com'),
+          username: new Username('mine_user'),
+          passwordHash,
+          role: new Role('student'),
+        });
+
+        const update = userRepository.update(user.id, {
+          email: new Email('taken@example.com'),
+        });
+        await expect(update).rejects.toThrow(UserAlreadyExistsError);
+        await expect(update).rejects.toMatchObject({
+          identifier: 'taken@example.com',
+          field: 'email',
+        });
+
+        const foundUser = await userRepository.findById(user.id);
+        expect(foundUser?.getEmailValue()).toBe('mine@example.com');
+      });
+
       it('debería retornar null si el usuario no existe', async () => {
         const nonExistentId = uuidv4();
         const updatedUser = await userRepository.update(nonExistentId, {
@@ -206,6 +341,47 @@ export function makeUserRepositoryContractTest(
       });
     });
 
+    describe('findUsersWithExpiredSuspension', () => {
+      it('debería devolver solo las suspensiones cuya fecha de fin ya pasó', async () => {
+        const passwordHash = new HashedPassword(
+          '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+        );
+        const suspendedAt = new Date();
+        const hour = 60 * 60 * 1000;
+        const suspendUntil = async (name: string, until: Date) => {
+          const user = await userRepository.create({
+            email: new Email(`${name}@example.com`),
+            username: new Username(name),
+            passwordHash,
+            role: new Role('student'),
+          });
+          // La suspensión se registra después de crear al usuario
+          const at = new Date();
+          await userRepository.update(user.id, {
+            status: user.confirmEmail(at).suspend(until, 'Spam', null, at)
+              .status,
+          });
+          return user;
+        };
+
+        const early = await suspendUntil(
+          'early_user',
+          new Date(suspendedAt.getTime() + hour)
+        );
+        const late = await suspendUntil(
+          'late_user',
+          new Date(suspendedAt.getTime() + 3 * hour)
+        );
+
+        const expired = await userRepository.findUsersWithExpiredSuspension(
+          new Date(suspendedAt.getTime() + 2 * hour)
+        );
+
+        expect(expired.map((user) => user.id)).toEqual([early.id]);
+        expect(expired.map((user) => user.id)).not.toContain(late.id);
+      });
+    });
+
     describe('delete', () => {
       it('debería eliminar un usuario existente', async () => {
         const userData = {
@@ -312,5 +488,303 @@ export function makeUserRepositoryContractTest(
         expect(admins.length).toBe(2);
       });
     });
+
+    describe('lockActiveAdmins', () => {
+      it('debería bloquear a los administradores activos sin modificarlos', async () => {
+        const admin = await userRepository.create({
+          email: new Email('locked-admin@example.com'),
+          username: new Username('locked_admin'),
+          passwordHash: new HashedPassword(
+            '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+          ),
+          role: new Role('admin'),
+        });
+        await userRepository.update(admin.id, {
+          status: admin.confirmEmail().status,
+        });
+        const before = await userRepository.findById(admin.id);
+
+        await userRepository.lockActiveAdmins();
+
+        const after = await userRepository.findById(admin.id);
+        expect(after?.updatedAt.getTime()).toBe(before?.updatedAt.getTime());
+        expect(after?.getStatusValue()).toBe('active');
+      });
+    });
+
+    describe('estadísticas por país y continente', () => {
+      const passwordHash = new HashedPassword(
+        '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+      );
+      const createUser = (name: string, country: string | null) =>
+        userRepository.create({
+          email: new Email(`${name}@example.com`),
+          username: new Username(`${name}_user`),
+          passwordHash,
+          role: new Role('student'),
+          countryCode: country ? new CountryCode(country) : null,
+        });
+
+      it('debería agrupar por país y por continente principal', async () => {
+        await createUser('alpha', 'ES');
+        await createUser('bravo', 'ES');
+        await createUser('charlie', 'RU'); // Transcontinental: cuenta en Asia
+        await createUser('delta', 'BR');
+        await createUser('echo', null);
+
+        expect(await userRepository.getUserStatsByCountry()).toEqual({
+          ES: 2,
+          RU: 1,
+          BR: 1,
+        });
+        expect(await userRepository.getUserStatsByContinent()).toEqual({
+          Europe: 2,
+          Asia: 1,
+          'South America': 1,
+        });
+      });
+
+      it('debería mover al usuario de continente cuando cambia su país', async () => {
+        const user = await createUser('alpha', 'ES');
+
+        await userRepository.update(user.id, {
+          countryCode: new CountryCode('JP'),
+        });
+
+        const europeans = await userRepository.findUsersByContinent('Europe');
+        const asians = await userRepository.findUsersByContinent('Asia');
+        expect(europeans).toHaveLength(0);
+        expect(asians.map((found) => found.id)).toEqual([user.id]);
+
+        await userRepository.update(user.id, { countryCode: null });
+
+        expect(await userRepository.findUsersByContinent('Asia')).toHaveLength(
+          0
+        );
+        expect(await userRepository.getUserStatsByContinent()).toEqual({});
+      });
+    });
+
+    describe('search', () => {
+      const passwordHash = new HashedPassword(
+        '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+      );
+
+      // Nombres con iniciales distintas para que el orden no dependa de la
+      // colación de cada motor
+      const createUser = (
+        name: string,
+        role: string = 'student',
+        country: string | null = null
+      ) =>
+        userRepository.create({
+          email: new Email(`${name}@example.com`),
+          username: new Username(`${name}_user`),
+          passwordHash,
+          role: new Role(role),
+          countryCode: country ? new CountryCode(country) : null,
+        });
+
+      it('debería paginar por offset con el total de coincidencias', async () => {
+        for (const name of ['alpha', 'bravo', 'charlie', 'delta', 'echo']) {
+          await createUser(name);
+        }
+
+        const first = await userRepository.search(
+          { sortBy: 'email', sortDirection: 'asc' },
+          { limit: 2, offset: 0 }
+        );
+        const last = await userRepository.search(
+          { sortBy: 'email', sortDirection: 'asc' },
+          { limit: 2, offset: 4 }
+        );
+
+        expect(first.total).toBe(5);
+        expect(first.users.map((user) => user.getEmailValue())).toEqual([
+          'alpha@example.com',
+          'bravo@example.com',
+        ]);
+        expect(first.nextCursor).not.toBeNull();
+        expect(last.total).toBe(5);
+        expect(last.users.map((user) => user.getEmailValue())).toEqual([
+          'echo@example.com',
+        ]);
+        expect(last.nextCursor).toBeNull();
+      });
+
+      it('debería recorrer todas las páginas por cursor sin repetir ni saltar usuarios', async () => {
+        for (const name of ['alpha', 'bravo', 'charlie', 'delta', 'echo']) {
+          await createUser(name);
+        }
+
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await userRepository.search(
+            { sortBy: 'username', sortDirection: 'desc' },
+            { limit: 2, cursor }
+          );
+          expect(page.total).toBe(5);
+          seen.push(...page.users.map((user) => user.getUsernameValue()));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+
+        expect(seen).toEqual([
+          'echo_user',
+          'delta_user',
+          'charlie_user',
+          'bravo_user',
+          'alpha_user',
+        ]);
+      });
+
+      it('debería combinar filtros de rol, país, continente y prefijos', async () => {
+        await createUser('alpha', 'admin', 'ES');
+        await createUser('bravo', 'student', 'ES');
+        await createUser('charlie', 'admin', 'JP');
+        await createUser('delta', 'admin', 'FR');
+        await createUser('echo', 'admin');
+
+        const spanishAdmins = await userRepository.search(
+          { role: 'admin', countryCode: 'ES' },
+          { limit: 10 }
+        );
+        const europeanAdmins = await userRepository.search(
+          {
+            role: 'admin',
+            continent: 'Europe',
+            sortBy: 'email',
+            sortDirection: 'asc',
+          },
+          { limit: 10 }
+        );
+        const byEmail = await userRepository.search(
+          { emailPrefix: 'CHAR' },
+          { limit: 10 }
+        );
+        const byUsername = await userRepository.search(
+          { usernamePrefix: 'del' },
+          { limit: 10 }
+        );
+
+        expect(
+          spanishAdmins.users.map((user) => user.getUsernameValue())
+        ).toEqual(['alpha_user']);
+        expect(europeanAdmins.total).toBe(2);
+        expect(
+          europeanAdmins.users.map((user) => user.getUsernameValue())
+        ).toEqual(['alpha_user', 'delta_user']);
+        expect(byEmail.users.map((user) => user.getUsernameValue())).toEqual([
+          'charlie_user',
+        ]);
+        expect(byUsername.users.map((user) => user.getUsernameValue())).toEqual(
+          ['delta_user']
+        );
+      });
+
+      it('debería filtrar por estado y por rangos de fechas', async () => {
+        const hour = 60 * 60 * 1000;
+        const alpha = await createUser('alpha');
+        const bravo = await createUser('bravo');
+        await createUser('charlie');
+        // Después de crearlos: confirmar antes de la creación no es válido
+        const now = new Date();
+        await userRepository.update(alpha.id, {
+          status: alpha.confirmEmail(now).status,
+          lastLogin: new Date(now.getTime() - 2 * hour),
+        });
+        await userRepository.update(bravo.id, {
+          status: bravo.confirmEmail(now).status,
+          lastLogin: new Date(now.getTime() - 5 * hour),
+        });
+
+        const active = await userRepository.search(
+          { status: 'active' },
+          { limit: 10 }
+        );
+        const recentLogins = await userRepository.search(
+          { lastLoginFrom: new Date(now.getTime() - 3 * hour) },
+          { limit: 10 }
+        );
+        const createdLater = await userRepository.search(
+          { createdFrom: new Date(now.getTime() + hour) },
+          { limit: 10 }
+        );
+        const createdBefore = await userRepository.search(
+          { createdTo: new Date(now.getTime() + hour) },
+          { limit: 10 }
+        );
+
+        expect(active.total).toBe(2);
+        expect(recentLogins.users.map((user) => user.id)).toEqual([alpha.id]);
+        expect(createdLater.total).toBe(0);
+        expect(createdBefore.total).toBe(3);
+      });
+
+      it('debería ordenar por último login dejando al final a quien nunca inició sesión', async () => {
+        const hour = 60 * 60 * 1000;
+        const now = new Date();
+        const alpha = await createUser('alpha');
+        const bravo = await createUser('bravo');
+        const charlie = await createUser('charlie');
+        await userRepository.update(alpha.id, {
+          lastLogin: new Date(now.getTime() - 2 * hour),
+        });
+        await userRepository.update(charlie.id, {
+          lastLogin: new Date(now.getTime() - hour),
+        });
+
+        for (const sortDirection of ['asc', 'desc'] as const) {
+          const ids: string[] = [];
+          let cursor: string | undefined;
+          do {
+            const page = await userRepository.search(
+              { sortBy: 'lastLogin', sortDirection },
+              { limit: 1, cursor }
+            );
+            ids.push(...page.users.map((user) => user.id));
+            cursor = page.nextCursor ?? undefined;
+          } while (cursor);
+
+          expect(ids).toEqual(
+            sortDirection === 'asc'
+              ? [alpha.id, charlie.id, bravo.id]
+              : [charlie.id, alpha.id, bravo.id]
+          );
+        }
+      });
+
+      it('debería rechazar cursores inválidos o de otro orden y páginas mal formadas', async () => {
+        for (const name of ['alpha', 'bravo', 'charlie']) {
+          await createUser(name);
+        }
+        const page = await userRepository.search(
+          { sortBy: 'email', sortDirection: 'asc' },
+          { limit: 1 }
+        );
+
+        await expect(
+          userRepository.search(
+            { sortBy: 'username', sortDirection: 'asc' },
+            { limit: 1, cursor: page.nextCursor! }
+          )
+        ).rejects.toThrow(InvalidUserSearchError);
+        await expect(
+          userRepository.search({}, { limit: 1, cursor: 'no-es-un-cursor' })
+        ).rejects.toThrow(InvalidUserSearchError);
+        await expect(
+          userRepository.search(
+            {},
+            { limit: 1, offset: 1, cursor: page.nextCursor! }
+          )
+        ).rejects.toThrow(InvalidUserSearchError);
+        await expect(userRepository.search({}, { limit: 0 })).rejects.toThrow(
+          InvalidUserSearchError
+        );
+        await expect(
+          userRepository.search({ role: 'superuser' }, { limit: 1 })
+        ).rejects.toThrow(InvalidUserSearchError);
+      });
+    });
   });
 }
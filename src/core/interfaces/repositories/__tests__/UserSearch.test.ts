@@ -0,0 +1,107 @@
+// src/core/interfaces/repositories/__tests__/UserSearch.test.ts
+
+import {
+  encodeUserSearchCursor,
+  resolveUserSearch,
+} from '@/core/interfaces/repositories/UserSearch';
+import { MAX_USER_SEARCH_LIMIT } from '@/core/interfaces/repositories/IUserRepository';
+import { InvalidUserSearchError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { Username } from '@/core/domain/value-objects/Username';
+
+const createUser = (): User =>
+  User.create(
+    new Email('cursor@example.com'),
+    new Username('cursor_user'),
+    new HashedPassword(
+      '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O'
+    ),
+    new Role('student')
+  );
+
+describe('resolveUserSearch', () => {
+  it('debería aplicar el orden y la página por defecto', () => {
+    expect(resolveUserSearch({}, { limit: 20 })).toEqual({
+      sortBy: 'createdAt',
+      sortDirection: 'desc',
+      limit: 20,
+      offset: 0,
+      after: null,
+    });
+  });
+
+  it('debería decodificar la posición de un cursor de fecha', () => {
+    const user = createUser();
+    const cursor = encodeUserSearchCursor(user, 'createdAt', 'asc');
+
+    const search = resolveUserSearch(
+      { sortBy: 'createdAt', sortDirection: 'asc' },
+      { limit: 5, cursor }
+    );
+
+    expect(search.after).toEqual({ value: user.createdAt, id: user.id });
+  });
+
+  it('debería conservar el null de un usuario sin login en el cursor de lastLogin', () => {
+    const user = createUser();
+    const cursor = encodeUserSearchCursor(user, 'lastLogin', 'desc');
+
+    const search = resolveUserSearch(
+      { sortBy: 'lastLogin', sortDirection: 'desc' },
+      { limit: 5, cursor }
+    );
+
+    expect(search.after).toEqual({ value: null, id: user.id });
+  });
+
+  it('debería rechazar un cursor generado con otro orden', () => {
+    const cursor = encodeUserSearchCursor(createUser(), 'email', 'asc');
+
+    expect(() =>
+      resolveUserSearch(
+        { sortBy: 'email', sortDirection: 'desc' },
+        { limit: 5, cursor }
+      )
+    ).toThrow(InvalidUserSearchError);
+  });
+
+  it('debería rechazar un cursor mal formado', () => {
+    const nullEmail = Buffer.from(
+      JSON.stringify({ s: 'email', d: 'asc', v: null, id: 'x' })
+    ).toString('base64url');
+
+    expect(() => resolveUserSearch({}, { limit: 5, cursor: 'basura' })).toThrow(
+      InvalidUserSearchError
+    );
+    expect(() =>
+      resolveUserSearch(
+        { sortBy: 'email', sortDirection: 'asc' },
+        { limit: 5, cursor: nullEmail }
+      )
+    ).toThrow(InvalidUserSearchError);
+  });
+
+  it('debería rechazar campos de orden fuera de la lista permitida', () => {
+    expect(() =>
+      resolveUserSearch({ sortBy: 'passwordHash' as never }, { limit: 5 })
+    ).toThrow(InvalidUserSearchError);
+  });
+
+  it('debería rechazar límites, offsets y filtros inválidos', () => {
+    const invalid = [
+      () => resolveUserSearch({}, { limit: 0 }),
+      () => resolveUserSearch({}, { limit: MAX_USER_SEARCH_LIMIT + 1 }),
+      () => resolveUserSearch({}, { limit: 5, offset: -1 }),
+      () => resolveUserSearch({}, { limit: 5, offset: 0, cursor: 'x' }),
+      () => resolveUserSearch({ role: 'superuser' }, { limit: 5 }),
+      () => resolveUserSearch({ status: 'deleted' }, { limit: 5 }),
+    ];
+
+    invalid.forEach((search) => {
+      expect(search).toThrow(InvalidUserSearchError);
+    });
+  });
+});
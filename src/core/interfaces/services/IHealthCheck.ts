@@ -0,0 +1,41 @@
+// src/core/interfaces/services/IHealthCheck.ts
+
+/**
+ * Datos que una comprobación añade a su resultado (latencias internas,
+ * pendientes, etc.). Se publican en /health/ready, así que no deben llevar
+ * secretos ni datos personales
+ */
+export type HealthCheckDetails = Record<string, string | number | boolean>;
+
+/**
+ * Comprobación de una dependencia de la que depende la disponibilidad del
+ * servicio (base de datos, outbox, gateways externos...).
+ *
+ * Cualquier adaptador puede implementarla además de su propio puerto: los
+ * gateways que la implementan se incluyen en la comprobación de readiness.
+ */
+export interface IHealthCheck {
+  /**
+   * Nombre estable de la comprobación en el informe (por ejemplo `database`)
+   */
+  readonly name: string;
+
+  /**
+   * Comprueba la dependencia.
+   * @returns Detalles opcionales para el informe.
+   * @throws Error si la dependencia no está lista.
+   */
+  check(): Promise<HealthCheckDetails | void>;
+}
+
+/**
+ * Indica si un adaptador implementa IHealthCheck
+ */
+export function isHealthCheck(value: unknown): value is IHealthCheck {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as IHealthCheck).name === 'string' &&
+    typeof (value as IHealthCheck).check === 'function'
+  );
+}
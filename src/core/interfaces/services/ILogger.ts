@@ -0,0 +1,28 @@
+// src/core/interfaces/services/ILogger.ts
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Campos estructurados de una línea de log. Los errores se pasan en `error`
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger estructurado.
+ *
+ * Los mensajes son fijos y los datos variables van en `fields`, así la
+ * implementación puede filtrarlos (datos personales) y los logs se pueden
+ * consultar por campo.
+ */
+export interface ILogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /**
+   * Devuelve un logger que añade `fields` a todas sus líneas
+   * (por ejemplo, `{ component: 'UserRepository' }`)
+   */
+  child(fields: LogFields): ILogger;
+}
@@ -0,0 +1,34 @@
+// src/core/interfaces/services/ITokenService.ts
+
+/**
+ * Datos que viajan dentro de un access token
+ */
+export interface AccessTokenPayload {
+  sub: string; // ID del usuario
+  role: string;
+}
+
+/**
+ * Claims de un access token ya verificado
+ */
+export interface AccessTokenClaims extends AccessTokenPayload {
+  iat: number; // Emitido en (segundos desde epoch)
+  exp: number; // Expira en (segundos desde epoch)
+}
+
+export interface ITokenService {
+  /**
+   * Firma un access token de corta duración.
+   * @returns El token firmado y su fecha de expiración.
+   */
+  signAccessToken(payload: AccessTokenPayload): {
+    token: string;
+    expiresAt: Date;
+  };
+
+  /**
+   * Verifica la firma y la vigencia de un access token.
+   * @returns Los claims del token o null si es inválido o está expirado.
+   */
+  verifyAccessToken(token: string): AccessTokenClaims | null;
+}
@@ -0,0 +1,91 @@
+// src/core/use-cases/auth/AuthErrors.ts
+
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+
+/**
+ * Errores de los casos de uso de autenticación
+ */
+export class AuthenticationError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    category: ErrorCategory = 'unauthorized',
+    params: ErrorParams = {}
+  ) {
+    super(message, code, category, params);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Mismo mensaje para usuario inexistente y contraseña incorrecta:
+// no revelamos qué cuentas existen
+export class InvalidCredentialsError extends AuthenticationError {
+  constructor() {
+    super('Credenciales inválidas', 'INVALID_CREDENTIALS');
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+// La identidad es válida pero la cuenta no puede operar: se responde como
+// prohibido, no como no autenticado
+export class AccountNotActiveError extends AuthenticationError {
+  constructor(public readonly status: string) {
+    super(
+      `La cuenta no puede iniciar sesión en su estado actual: ${status}`,
+      'ACCOUNT_NOT_ACTIVE',
+      'forbidden',
+      { status }
+    );
+    this.name = 'AccountNotActiveError';
+  }
+}
+
+export class InvalidRefreshTokenError extends AuthenticationError {
+  constructor(
+    message: string = 'Refresh token inválido o expirado',
+    code: ErrorCode = 'INVALID_REFRESH_TOKEN'
+  ) {
+    super(message, code);
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+export class RefreshTokenReuseError extends InvalidRefreshTokenError {
+  constructor() {
+    super(
+      'Se detectó la reutilización de un refresh token; la sesión fue revocada',
+      'REFRESH_TOKEN_REUSED'
+    );
+    this.name = 'RefreshTokenReuseError';
+  }
+}
+
+// Access token ausente, mal formado, con firma inválida o expirado
+export class InvalidAccessTokenError extends AuthenticationError {
+  constructor(message: string = 'Access token inválido o expirado') {
+    super(message, 'INVALID_ACCESS_TOKEN');
+    this.name = 'InvalidAccessTokenError';
+  }
+}
+
+// Usuario autenticado sin el rol necesario para la operación
+export class InsufficientPermissionsError extends AppError {
+  constructor(message: string = 'No tienes permisos para esta operación') {
+    super(message, 'FORBIDDEN', 'forbidden');
+    this.name = 'InsufficientPermissionsError';
+  }
+}
+
+// Token de un solo uso (confirmación de email) inexistente, expirado o ya usado.
+// No indica cuál de los casos se dio
+export class InvalidVerificationTokenError extends AppError {
+  constructor(message: string = 'Token de verificación inválido o expirado') {
+    super(message, 'INVALID_TOKEN', 'bad_request');
+    this.name = 'InvalidVerificationTokenError';
+  }
+}
@@ -0,0 +1,67 @@
+// src/core/use-cases/auth/AuthTokenIssuer.ts
+
+import { User } from '@/core/domain/entities/User';
+import { RefreshToken } from '@/core/domain/entities/RefreshToken';
+import { ITokenService } from '@/core/interfaces/services/ITokenService';
+import { generateSecureToken, hashToken } from '@/shared/utils/secureToken';
+
+/**
+ * Par de tokens entregado al cliente tras autenticarse
+ */
+export interface AuthTokens {
+  tokenType: 'Bearer';
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Construye pares access/refresh token para un usuario.
+ *
+ * No persiste nada: devuelve el registro del refresh token (hasheado) para que
+ * cada caso de uso lo guarde como corresponda (alta directa en el login o
+ * rotación atómica en el refresh).
+ */
+export class AuthTokenIssuer {
+  constructor(
+    private readonly tokenService: ITokenService,
+    private readonly refreshTokenTtlSeconds: number
+  ) {}
+
+  /**
+   * @param user Usuario autenticado
+   * @param familyId Familia a la que pertenece el refresh token; si se omite,
+   * se inicia una familia nueva (nuevo login)
+   */
+  issue(
+    user: User,
+    familyId?: string,
+    now: Date = new Date()
+  ): { tokens: AuthTokens; refreshToken: RefreshToken } {
+    const access = this.tokenService.signAccessToken({
+      sub: user.id,
+      role: user.getRoleValue(),
+    });
+
+    const rawRefreshToken = generateSecureToken();
+    const refreshToken = RefreshToken.issue(
+      user.id,
+      hashToken(rawRefreshToken),
+      this.refreshTokenTtlSeconds,
+      familyId,
+      now
+    );
+
+    return {
+      tokens: {
+        tokenType: 'Bearer',
+        accessToken: access.token,
+        accessTokenExpiresAt: access.expiresAt,
+        refreshToken: rawRefreshToken,
+        refreshTokenExpiresAt: refreshToken.expiresAt,
+      },
+      refreshToken,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+// src/core/use-cases/auth/ConfirmEmailUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import { hashToken } from '@/shared/utils/secureToken';
+import { InvalidVerificationTokenError } from './AuthErrors';
+
+/**
+ * Caso de uso de confirmación de email.
+ *
+ * Canjea un token de confirmación vigente y pasa al usuario de
+ * `confirmation_pending` a `active`. El token se consume de forma atómica
+ * antes de cambiar el estado, así que un mismo enlace solo funciona una vez.
+ */
+export class ConfirmEmailUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly verificationTokenRepository: IVerificationTokenRepository
+  ) {}
+
+  async execute(rawToken: string): Promise<User> {
+    const now = new Date();
+    const token = await this.verificationTokenRepository.findByHash(
+      hashToken(rawToken)
+    );
+
+    if (!token || !token.isUsableFor('email_confirmation', now)) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const user = await this.userRepository.findById(token.userId);
+    if (!user || !user.requiresEmailConfirmation()) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const consumed = await this.verificationTokenRepository.consume(
+      token.id,
+      now
+    );
+    if (!consumed) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const confirmedUser = user.confirmEmail(now);
+    return (
+      (await this.userRepository.update(user.id, {
+        status: confirmedUser.status,
+      })) ?? confirmedUser
+    );
+  }
+}
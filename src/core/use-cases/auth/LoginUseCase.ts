@@ -0,0 +1,97 @@
+// src/core/use-cases/auth/LoginUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  HashedPassword,
+  PlainPassword,
+} from '@/core/domain/value-objects/Password';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { AuthTokenIssuer, AuthTokens } from './AuthTokenIssuer';
+import { AccountNotActiveError, InvalidCredentialsError } from './AuthErrors';
+
+export interface LoginInput {
+  identifier: string; // Email o nombre de usuario
+  password: string;
+}
+
+export interface LoginResult {
+  user: User;
+  tokens: AuthTokens;
+}
+
+/**
+ * Caso de uso de inicio de sesión.
+ *
+ * Busca al usuario por email (si el identificador contiene '@') o por nombre de
+ * usuario, verifica la contraseña y exige que el estado de la cuenta permita
+ * iniciar sesión. Si todo es correcto registra el último login y emite un par
+ * de tokens que inicia una nueva familia de refresh tokens.
+ */
+export class LoginUseCase {
+  // Hash bcrypt de relleno (cost 12) para verificar aunque el usuario no exista,
+  // de modo que el tiempo de respuesta no revele qué cuentas están registradas
+  private static readonly TIMING_SAFE_HASH = new HashedPassword(
+    '$2b$12$C6UzMDM.H6dfI/f/IKcEeO5mX0Zp3F9H5N1cQ6w5s7f4ZlQm3rW2a'
+  );
+
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+    private readonly passwordService: IPasswordService,
+    private readonly tokenIssuer: AuthTokenIssuer
+  ) {}
+
+  async execute(input: LoginInput): Promise<LoginResult> {
+    const identifier = input.identifier.trim();
+    const user = identifier.includes('@')
+      ? await this.userRepository.findByEmail(identifier.toLowerCase())
+      : await this.userRepository.findByUsername(identifier);
+
+    const passwordMatches = await this.verifyPassword(
+      input.password,
+      user?.passwordHash ?? LoginUseCase.TIMING_SAFE_HASH
+    );
+
+    if (!user || !passwordMatches) {
+      throw new InvalidCredentialsError();
+    }
+
+    // El estado se comprueba después de la contraseña para no revelarlo a
+    // quien no conoce las credenciales
+    if (!user.canLogin()) {
+      throw new AccountNotActiveError(user.getStatusValue());
+    }
+
+    const now = new Date();
+    const loggedInUser = user.recordLogin(now);
+    const updatedUser =
+      (await this.userRepository.update(user.id, {
+        lastLogin: loggedInUser.lastLogin,
+      })) ?? loggedInUser;
+
+    const { tokens, refreshToken } = this.tokenIssuer.issue(
+      updatedUser,
+      undefined,
+      now
+    );
+    await this.refreshTokenRepository.create(refreshToken);
+
+    return { user: updatedUser, tokens };
+  }
+
+  private async verifyPassword(
+    password: string,
+    hash: HashedPassword
+  ): Promise<boolean> {
+    let plainPassword: PlainPassword;
+    try {
+      plainPassword = new PlainPassword(password);
+    } catch {
+      // Una contraseña que no cumple las reglas nunca pudo haberse registrado
+      return false;
+    }
+    return this.passwordService.verify(plainPassword, hash);
+  }
+}
@@ -0,0 +1,70 @@
+// src/core/use-cases/auth/RefreshTokenUseCase.ts
+
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { hashToken } from '@/shared/utils/secureToken';
+import { AuthTokenIssuer, AuthTokens } from './AuthTokenIssuer';
+import { InvalidRefreshTokenError, RefreshTokenReuseError } from './AuthErrors';
+
+/**
+ * Caso de uso de renovación de tokens con rotación de refresh tokens.
+ *
+ * Cada refresh token es de un solo uso: al canjearlo se emite un par nuevo y
+ * el token presentado queda marcado como reemplazado. Si un token ya rotado se
+ * vuelve a presentar, asumimos que fue robado y revocamos toda su familia, lo
+ * que cierra tanto la sesión legítima como la del atacante.
+ */
+export class RefreshTokenUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+    private readonly tokenIssuer: AuthTokenIssuer
+  ) {}
+
+  async execute(rawRefreshToken: string): Promise<AuthTokens> {
+    const now = new Date();
+    const stored = await this.refreshTokenRepository.findByHash(
+      hashToken(rawRefreshToken)
+    );
+
+    if (!stored) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (stored.hasBeenRotated()) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, now);
+      throw new RefreshTokenReuseError();
+    }
+
+    if (!stored.isActive(now)) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    // El usuario pudo ser eliminado, suspendido o baneado desde el último refresh
+    const user = await this.userRepository.findById(stored.userId);
+    if (!user || !user.canLogin()) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, now);
+      throw new InvalidRefreshTokenError();
+    }
+
+    const { tokens, refreshToken } = this.tokenIssuer.issue(
+      user,
+      stored.familyId,
+      now
+    );
+
+    const rotated = await this.refreshTokenRepository.rotate(
+      stored.id,
+      refreshToken,
+      now
+    );
+
+    // Otra petición canjeó el mismo token entre la lectura y la rotación
+    if (!rotated) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, now);
+      throw new RefreshTokenReuseError();
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,120 @@
+// src/core/use-cases/auth/RegisterUserUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { PlainPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { Username } from '@/core/domain/value-objects/Username';
+import { CountryCode } from '@/core/domain/value-objects/CountryCode';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { ValidationError } from '@/shared/errors/ValidationError';
+
+/**
+ * Datos crudos de registro tal como llegan desde la capa de entrada
+ */
+export interface RegisterUserInput {
+  email: string;
+  username: string;
+  password: string;
+  countryCode?: string | null;
+}
+
+/**
+ * Caso de uso de registro de usuarios.
+ *
+ * Construye los value objects a partir de los datos de entrada, hashea la
+ * contraseña y persiste el usuario con rol de estudiante. Todo usuario nuevo
+ * queda en estado `confirmation_pending` (lo define la entidad User).
+ *
+ * El usuario y su evento UserRegistered se guardan en la misma unidad de
+ * trabajo; el email de confirmación lo envía después un handler del evento
+ * (SendConfirmationEmailOnUserRegistered), así que un fallo del envío nunca
+ * deshace el registro ni se pierde.
+ *
+ * Los errores de validación de los value objects se agrupan por campo en un
+ * único ValidationError para que la capa HTTP pueda informarlos todos juntos.
+ * Los conflictos de unicidad los reporta el repositorio (UserAlreadyExistsError).
+ */
+export class RegisterUserUseCase {
+  // Rol asignado en el auto-registro: nunca se acepta desde el cliente
+  private static readonly DEFAULT_ROLE = 'student';
+
+  constructor(
+    private readonly unitOfWork: IUnitOfWork,
+    private readonly passwordService: IPasswordService
+  ) {}
+
+  async execute(input: RegisterUserInput): Promise<User> {
+    const { email, username, password, countryCode } =
+      this.buildValueObjects(input);
+
+    const passwordHash = await this.passwordService.hash(password);
+
+    return this.unitOfWork.run(async ({ userRepository, outboxRepository }) => {
+      const user = await userRepository.create({
+        email,
+        username,
+        passwordHash,
+        role: new Role(RegisterUserUseCase.DEFAULT_ROLE),
+        countryCode,
+      });
+
+      await outboxRepository.append(user.pullDomainEvents());
+      return user;
+    });
+  }
+
+  /**
+   * Construye todos los value objects y acumula los errores por campo
+   */
+  private buildValueObjects(input: RegisterUserInput): {
+    email: Email;
+    username: Username;
+    password: PlainPassword;
+    countryCode: CountryCode | null;
+  } {
+    const errors: Record<string, unknown> = {};
+
+    const email = this.tryBuild('email', errors, () => new Email(input.email));
+    const username = this.tryBuild(
+      'username',
+      errors,
+      () => new Username(input.username)
+    );
+    const password = this.tryBuild(
+      'password',
+      errors,
+      () => new PlainPassword(input.password)
+    );
+    const countryCode = input.countryCode
+      ? this.tryBuild(
+          'countryCode',
+          errors,
+          () => new CountryCode(input.countryCode as string)
+        )
+      : null;
+
+    if (Object.keys(errors).length > 0 || !email || !username || !password) {
+      throw ValidationError.fromFieldErrors(
+        'Datos de registro inválidos',
+        errors
+      );
+    }
+
+    return { email, username, password, countryCode };
+  }
+
+  private tryBuild<T>(
+    field: string,
+    errors: Record<string, unknown>,
+    build: () => T
+  ): T | null {
+    try {
+      return build();
+    } catch (error) {
+      errors[field] = error;
+      return null;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// src/core/use-cases/auth/RequestPasswordResetUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { VerificationToken } from '@/core/domain/entities/VerificationToken';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import {
+  EmailMessage,
+  IEmailGateway,
+} from '@/core/interfaces/gateways/IEmailGateway';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { VerificationTokenIssuer } from './VerificationTokenIssuer';
+
+/**
+ * Caso de uso "olvidé mi contraseña".
+ *
+ * Si existe una cuenta con ese email (y no está baneada) le envía un enlace
+ * de restablecimiento de un solo uso. Termina igual en todos los casos, sin
+ * errores ni valor de retorno, para que la respuesta no permita averiguar qué
+ * emails están registrados. Por eso un fallo del envío solo se registra en el
+ * log (y el token se retira para poder pedir otro enseguida).
+ */
+export class RequestPasswordResetUseCase {
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly tokenIssuer: VerificationTokenIssuer,
+    private readonly emailGateway: IEmailGateway,
+    private readonly resetUrl: string, // URL del frontend; se le añade ?token=...
+    logger: ILogger
+  ) {
+    this.logger = logger.child({ component: 'RequestPasswordResetUseCase' });
+  }
+
+  async execute(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(
+      email.trim().toLowerCase()
+    );
+    if (!user || user.isPermanentlyBlocked()) {
+      return;
+    }
+
+    const issued = await this.tokenIssuer.issue(user.id);
+    if (!issued) {
+      return;
+    }
+
+    try {
+      await this.emailGateway.send(
+        this.buildMessage(user, issued.rawToken, issued.token)
+      );
+    } catch (error) {
+      this.logger.error('No se pudo enviar el email de restablecimiento', {
+        userId: user.id,
+        error,
+      });
+      await this.tokenIssuer.withdraw(issued);
+    }
+  }
+
+  private buildMessage(
+    user: User,
+    rawToken: string,
+    token: VerificationToken
+  ): EmailMessage {
+    const link = new URL(this.resetUrl);
+    link.searchParams.set('token', rawToken);
+
+    return {
+      to: user.getEmailValue(),
+      subject: 'Restablece tu contraseña de WayrApp',
+      text: [
+        `Hola ${user.getUsernameValue()},`,
+        '',
+        'Recibimos una solicitud para restablecer tu contraseña. Para elegir una nueva abre el siguiente enlace:',
+        link.toString(),
+        '',
+        `El enlace caduca el ${token.expiresAt.toISOString()} y solo puede usarse una vez.`,
+        'Si no lo solicitaste, puedes ignorar este mensaje: tu contraseña no cambiará.',
+      ].join('\n'),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+// src/core/use-cases/auth/ResendEmailConfirmationUseCase.ts
+
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { SendEmailConfirmationUseCase } from './SendEmailConfirmationUseCase';
+
+/**
+ * Caso de uso de reenvío del email de confirmación a partir de una dirección.
+ *
+ * Termina igual exista o no la cuenta, esté ya confirmada o se haya alcanzado
+ * un límite de envío: la respuesta no debe permitir averiguar qué emails
+ * están registrados.
+ */
+export class ResendEmailConfirmationUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sendEmailConfirmation: SendEmailConfirmationUseCase
+  ) {}
+
+  async execute(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(
+      email.trim().toLowerCase()
+    );
+    if (!user) {
+      return;
+    }
+
+    await this.sendEmailConfirmation.execute(user);
+  }
+}
@@ -0,0 +1,80 @@
+// src/core/use-cases/auth/ResetPasswordUseCase.ts
+
+import { PlainPassword } from '@/core/domain/value-objects/Password';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { hashToken } from '@/shared/utils/secureToken';
+import { InvalidVerificationTokenError } from './AuthErrors';
+
+export interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+/**
+ * Caso de uso de restablecimiento de contraseña.
+ *
+ * Canjea un token de restablecimiento vigente, guarda el hash de la nueva
+ * contraseña y revoca todos los refresh tokens del usuario: cualquier sesión
+ * abierta (posiblemente por quien conocía la contraseña anterior) deja de
+ * poder renovarse.
+ */
+export class ResetPasswordUseCase {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly verificationTokenRepository: IVerificationTokenRepository,
+    private readonly refreshTokenRepository: IRefreshTokenRepository,
+    private readonly passwordService: IPasswordService
+  ) {}
+
+  async execute(input: ResetPasswordInput): Promise<void> {
+    // La contraseña se valida antes de tocar el token, para no gastarlo
+    // con una petición que igualmente se va a rechazar
+    const password = this.buildPassword(input.password);
+
+    const now = new Date();
+    const token = await this.verificationTokenRepository.findByHash(
+      hashToken(input.token)
+    );
+    if (!token || !token.isUsableFor('password_reset', now)) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const user = await this.userRepository.findById(token.userId);
+    if (!user || user.isPermanentlyBlocked()) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const consumed = await this.verificationTokenRepository.consume(
+      token.id,
+      now
+    );
+    if (!consumed) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const passwordHash = await this.passwordService.hash(password);
+    await this.userRepository.update(user.id, { passwordHash });
+
+    await this.refreshTokenRepository.revokeAllForUser(user.id, now);
+    await this.verificationTokenRepository.invalidateForUser(
+      user.id,
+      'password_reset',
+      now
+    );
+  }
+
+  private buildPassword(password: string): PlainPassword {
+    try {
+      return new PlainPassword(password);
+    } catch (error) {
+      throw ValidationError.fromFieldErrors(
+        'Datos de restablecimiento inválidos',
+        { password: error }
+      );
+    }
+  }
+}
@@ -0,0 +1,36 @@
+// src/core/use-cases/auth/SendConfirmationEmailOnUserRegistered.ts
+
+import {
+  USER_REGISTERED,
+  UserRegistered,
+} from '@/core/domain/events/UserRegistered';
+import { IDomainEventHandler } from '@/core/interfaces/events/IDomainEventHandler';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { SendEmailConfirmationUseCase } from './SendEmailConfirmationUseCase';
+
+/**
+ * Envía el email de confirmación cuando se registra un usuario.
+ *
+ * Relee el usuario en lugar de fiarse del payload: si ya confirmó su cuenta o
+ * ya no existe, no se envía nada. Un evento repetido tampoco duplica el email
+ * mientras dure el tiempo de espera entre envíos de VerificationTokenIssuer.
+ * Un fallo del envío se propaga para que el evento se reintente.
+ */
+export class SendConfirmationEmailOnUserRegistered implements IDomainEventHandler<UserRegistered> {
+  readonly eventType = USER_REGISTERED;
+  readonly name = 'SendConfirmationEmailOnUserRegistered';
+
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly emailConfirmation: SendEmailConfirmationUseCase
+  ) {}
+
+  async handle(event: UserRegistered): Promise<void> {
+    const user = await this.userRepository.findById(event.aggregateId);
+    if (!user) {
+      return;
+    }
+
+    await this.emailConfirmation.execute(user);
+  }
+}
@@ -0,0 +1,74 @@
+// src/core/use-cases/auth/SendEmailConfirmationUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { VerificationToken } from '@/core/domain/entities/VerificationToken';
+import {
+  EmailMessage,
+  IEmailGateway,
+} from '@/core/interfaces/gateways/IEmailGateway';
+import { VerificationTokenIssuer } from './VerificationTokenIssuer';
+
+/**
+ * Caso de uso que envía el email de confirmación de cuenta.
+ *
+ * Emite un token de un solo uso con VerificationTokenIssuer (que aplica el
+ * tiempo de espera entre envíos y el máximo diario) y lo entrega a través de
+ * IEmailGateway. Cuando algún límite lo impide, no envía nada. Si el envío
+ * falla, retira el token antes de propagar el error: así el reintento del
+ * evento no choca con el tiempo de espera entre envíos.
+ */
+export class SendEmailConfirmationUseCase {
+  constructor(
+    private readonly tokenIssuer: VerificationTokenIssuer,
+    private readonly emailGateway: IEmailGateway,
+    private readonly confirmationUrl: string // URL del frontend; se le añade ?token=...
+  ) {}
+
+  /**
+   * @returns true si se envió el email; false si el usuario no está pendiente
+   * de confirmación o si se alcanzó algún límite de envío.
+   */
+  async execute(user: User, now: Date = new Date()): Promise<boolean> {
+    if (!user.requiresEmailConfirmation()) {
+      return false;
+    }
+
+    const issued = await this.tokenIssuer.issue(user.id, now);
+    if (!issued) {
+      return false;
+    }
+
+    try {
+      await this.emailGateway.send(
+        this.buildMessage(user, issued.rawToken, issued.token)
+      );
+    } catch (error) {
+      await this.tokenIssuer.withdraw(issued);
+      throw error;
+    }
+    return true;
+  }
+
+  private buildMessage(
+    user: User,
+    rawToken: string,
+    token: VerificationToken
+  ): EmailMessage {
+    const link = new URL(this.confirmationUrl);
+    link.searchParams.set('token', rawToken);
+
+    return {
+      to: user.getEmailValue(),
+      subject: 'Confirma tu cuenta de WayrApp',
+      text: [
+        `Hola ${user.getUsernameValue()},`,
+        '',
+        'Para activar tu cuenta abre el siguiente enlace:',
+        link.toString(),
+        '',
+        `El enlace caduca el ${token.expiresAt.toISOString()}.`,
+        'Si no creaste esta cuenta, puedes ignorar este mensaje.',
+      ].join('\n'),
+    };
+  }
+}
@@ -0,0 +1,93 @@
+// src/core/use-cases/auth/VerificationTokenIssuer.ts
+
+import {
+  VerificationToken,
+  VerificationTokenPurpose,
+} from '@/core/domain/entities/VerificationToken';
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import { generateSecureToken, hashToken } from '@/shared/utils/secureToken';
+
+export interface VerificationTokenPolicy {
+  tokenTtlSeconds: number;
+  resendCooldownSeconds: number; // Espera mínima entre dos emisiones
+  maxPerDay: number; // Emisiones máximas por usuario en 24 horas
+}
+
+export interface IssuedVerificationToken {
+  rawToken: string; // Valor en claro: solo viaja en el email, nunca se persiste
+  token: VerificationToken;
+}
+
+/**
+ * Emite tokens de verificación de un propósito concreto aplicando sus límites.
+ *
+ * Cada emisión invalida los tokens pendientes del mismo propósito, de modo que
+ * solo el último enlace enviado funciona. Lo comparten los casos de uso que
+ * envían enlaces de un solo uso por email.
+ */
+export class VerificationTokenIssuer {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private readonly verificationTokenRepository: IVerificationTokenRepository,
+    private readonly purpose: VerificationTokenPurpose,
+    private readonly policy: VerificationTokenPolicy
+  ) {}
+
+  /**
+   * @returns El token emitido, o null si algún límite impide emitir otro.
+   */
+  async issue(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<IssuedVerificationToken | null> {
+    if (await this.isRateLimited(userId, now)) {
+      return null;
+    }
+
+    await this.verificationTokenRepository.invalidateForUser(
+      userId,
+      this.purpose,
+      now
+    );
+
+    const rawToken = generateSecureToken();
+    const token = VerificationToken.issue(
+      userId,
+      this.purpose,
+      hashToken(rawToken),
+      this.policy.tokenTtlSeconds,
+      now
+    );
+    await this.verificationTokenRepository.create(token);
+
+    return { rawToken, token };
+  }
+
+  /**
+   * Retira un token emitido cuyo enlace no llegó a enviarse, para que no
+   * cuente para los límites y se pueda volver a emitir enseguida.
+   */
+  async withdraw(issued: IssuedVerificationToken): Promise<void> {
+    await this.verificationTokenRepository.delete(issued.token.id);
+  }
+
+  private async isRateLimited(userId: string, now: Date): Promise<boolean> {
+    const issued = await this.verificationTokenRepository.findIssuedSince(
+      userId,
+      this.purpose,
+      new Date(now.getTime() - VerificationTokenIssuer.DAY_MS)
+    );
+
+    if (issued.length >= this.policy.maxPerDay) {
+      return true;
+    }
+
+    const latest = issued[0];
+    return (
+      latest !== undefined &&
+      now.getTime() - latest.createdAt.getTime() <
+        this.policy.resendCooldownSeconds * 1000
+    );
+  }
+}
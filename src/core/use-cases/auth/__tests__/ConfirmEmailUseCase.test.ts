@@ -0,0 +1,124 @@
+// src/core/use-cases/auth/__tests__/ConfirmEmailUseCase.test.ts
+
+import { ConfirmEmailUseCase } from '@/core/use-cases/auth/ConfirmEmailUseCase';
+import { InvalidVerificationTokenError } from '@/core/use-cases/auth/AuthErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import { VerificationToken } from '@/core/domain/entities/VerificationToken';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { hashToken } from '@/shared/utils/secureToken';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const RAW_TOKEN = 'raw-confirmation-token';
+
+describe('ConfirmEmailUseCase', () => {
+  let pendingUser: User;
+  let token: VerificationToken;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let tokenRepository: jest.Mocked<IVerificationTokenRepository>;
+  let useCase: ConfirmEmailUseCase;
+
+  beforeEach(() => {
+    pendingUser = User.create(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    token = VerificationToken.issue(
+      pendingUser.id,
+      'email_confirmation',
+      hashToken(RAW_TOKEN),
+      3600
+    );
+
+    userRepository = {
+      findById: jest.fn().mockResolvedValue(pendingUser),
+      update: jest.fn(async () => pendingUser.confirmEmail()),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    tokenRepository = {
+      create: jest.fn(),
+      findByHash: jest.fn().mockResolvedValue(token),
+      findIssuedSince: jest.fn(),
+      consume: jest.fn().mockResolvedValue(true),
+      invalidateForUser: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    useCase = new ConfirmEmailUseCase(userRepository, tokenRepository);
+  });
+
+  it('debería activar al usuario y consumir el token', async () => {
+    const user = await useCase.execute(RAW_TOKEN);
+
+    expect(tokenRepository.findByHash).toHaveBeenCalledWith(
+      hashToken(RAW_TOKEN)
+    );
+    expect(tokenRepository.consume).toHaveBeenCalledWith(
+      token.id,
+      expect.any(Date)
+    );
+    const [id, data] = userRepository.update.mock.calls[0];
+    expect(id).toBe(pendingUser.id);
+    expect(data.status?.value).toBe('active');
+    expect(user.isActive()).toBe(true);
+  });
+
+  it('debería rechazar un token desconocido', async () => {
+    tokenRepository.findByHash.mockResolvedValueOnce(null);
+
+    await expect(useCase.execute('unknown')).rejects.toBeInstanceOf(
+      InvalidVerificationTokenError
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar un token expirado', async () => {
+    tokenRepository.findByHash.mockResolvedValueOnce(
+      VerificationToken.issue(
+        pendingUser.id,
+        'email_confirmation',
+        hashToken(RAW_TOKEN),
+        60,
+        new Date(Date.now() - 120 * 1000)
+      )
+    );
+
+    await expect(useCase.execute(RAW_TOKEN)).rejects.toBeInstanceOf(
+      InvalidVerificationTokenError
+    );
+    expect(tokenRepository.consume).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar un token ya usado, incluso en una carrera', async () => {
+    tokenRepository.consume.mockResolvedValueOnce(false);
+
+    await expect(useCase.execute(RAW_TOKEN)).rejects.toBeInstanceOf(
+      InvalidVerificationTokenError
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar el token si el usuario ya no está pendiente', async () => {
+    userRepository.findById.mockResolvedValueOnce(
+      User.createBannedUser(
+        pendingUser.email,
+        pendingUser.username,
+        pendingUser.passwordHash,
+        pendingUser.role,
+        null,
+        pendingUser.id
+      )
+    );
+
+    await expect(useCase.execute(RAW_TOKEN)).rejects.toBeInstanceOf(
+      InvalidVerificationTokenError
+    );
+    expect(tokenRepository.consume).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+// src/core/use-cases/auth/__tests__/FakeVerificationTokenRepository.ts
+
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import {
+  VerificationToken,
+  VerificationTokenPurpose,
+} from '@/core/domain/entities/VerificationToken';
+
+/**
+ * Doble en memoria del repositorio de tokens de verificación, compartido por
+ * los tests de los casos de uso que emiten o canjean estos tokens
+ */
+export class FakeVerificationTokenRepository implements IVerificationTokenRepository {
+  readonly tokens: VerificationToken[] = [];
+
+  async create(token: VerificationToken): Promise<void> {
+    this.tokens.push(token);
+  }
+
+  async findByHash(tokenHash: string): Promise<VerificationToken | null> {
+    return this.tokens.find((t) => t.tokenHash === tokenHash) ?? null;
+  }
+
+  async findIssuedSince(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    since: Date
+  ): Promise<VerificationToken[]> {
+    return this.tokens
+      .filter(
+        (t) =>
+          t.userId === userId && t.purpose === purpose && t.createdAt >= since
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async consume(tokenId: string, consumedAt: Date): Promise<boolean> {
+    const index = this.tokens.findIndex((t) => t.id === tokenId);
+    if (index === -1 || this.tokens[index].isConsumed()) {
+      return false;
+    }
+    this.tokens[index] = this.withConsumedAt(this.tokens[index], consumedAt);
+    return true;
+  }
+
+  async invalidateForUser(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    invalidatedAt: Date
+  ): Promise<void> {
+    this.tokens.forEach((token, index) => {
+      if (
+        token.userId === userId &&
+        token.purpose === purpose &&
+        !token.isConsumed()
+      ) {
+        this.tokens[index] = this.withConsumedAt(token, invalidatedAt);
+      }
+    });
+  }
+
+  async delete(tokenId: string): Promise<void> {
+    const index = this.tokens.findIndex((t) => t.id === tokenId);
+    if (index !== -1) {
+      this.tokens.splice(index, 1);
+    }
+  }
+
+  private withConsumedAt(
+    token: VerificationToken,
+    consumedAt: Date
+  ): VerificationToken {
+    return VerificationToken.fromPersistence(
+      token.id,
+      token.userId,
+      token.purpose,
+      token.tokenHash,
+      token.expiresAt,
+      token.createdAt,
+      consumedAt
+    );
+  }
+}
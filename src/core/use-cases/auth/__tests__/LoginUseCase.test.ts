@@ -0,0 +1,177 @@
+// src/core/use-cases/auth/__tests__/LoginUseCase.test.ts
+
+import { LoginUseCase } from '@/core/use-cases/auth/LoginUseCase';
+import { AuthTokenIssuer } from '@/core/use-cases/auth/AuthTokenIssuer';
+import {
+  AccountNotActiveError,
+  InvalidCredentialsError,
+} from '@/core/use-cases/auth/AuthErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+import { hashToken } from '@/shared/utils/secureToken';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+describe('LoginUseCase', () => {
+  let activeUser: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let refreshTokenRepository: jest.Mocked<IRefreshTokenRepository>;
+  let passwordService: jest.Mocked<IPasswordService>;
+  let tokenService: JwtTokenService;
+  let useCase: LoginUseCase;
+
+  beforeEach(() => {
+    activeUser = User.createActiveUser(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+
+    userRepository = {
+      findByEmail: jest.fn().mockResolvedValue(activeUser),
+      findByUsername: jest.fn().mockResolvedValue(activeUser),
+      update: jest.fn(async (_id, data) =>
+        activeUser.recordLogin(data.lastLogin as Date)
+      ),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    refreshTokenRepository = {
+      create: jest.fn().mockResolvedValue(undefined),
+      findByHash: jest.fn(),
+      rotate: jest.fn(),
+      revokeFamily: jest.fn(),
+      revokeAllForUser: jest.fn(),
+    };
+
+    passwordService = {
+      hash: jest.fn(),
+      verify: jest.fn().mockResolvedValue(true),
+    };
+
+    tokenService = new JwtTokenService(SECRET, 900);
+    useCase = new LoginUseCase(
+      userRepository,
+      refreshTokenRepository,
+      passwordService,
+      new AuthTokenIssuer(tokenService, 3600)
+    );
+  });
+
+  it('debería iniciar sesión por email y emitir un par de tokens', async () => {
+    const { user, tokens } = await useCase.execute({
+      identifier: ' Learner@Example.com ',
+      password: 'SecurePass123!',
+    });
+
+    expect(userRepository.findByEmail).toHaveBeenCalledWith(
+      'learner@example.com'
+    );
+    expect(user.id).toBe(activeUser.id);
+    expect(tokens.tokenType).toBe('Bearer');
+    expect(tokenService.verifyAccessToken(tokens.accessToken)).toMatchObject({
+      sub: activeUser.id,
+      role: 'student',
+    });
+  });
+
+  it('debería iniciar sesión por nombre de usuario', async () => {
+    await useCase.execute({
+      identifier: 'learner',
+      password: 'SecurePass123!',
+    });
+
+    expect(userRepository.findByUsername).toHaveBeenCalledWith('learner');
+    expect(userRepository.findByEmail).not.toHaveBeenCalled();
+  });
+
+  it('debería actualizar lastLogin del usuario', async () => {
+    const before = Date.now();
+
+    const { user } = await useCase.execute({
+      identifier: 'learner',
+      password: 'SecurePass123!',
+    });
+
+    const lastLogin = userRepository.update.mock.calls[0][1].lastLogin as Date;
+    expect(userRepository.update).toHaveBeenCalledWith(activeUser.id, {
+      lastLogin: expect.any(Date),
+    });
+    expect(lastLogin.getTime()).toBeGreaterThanOrEqual(before);
+    expect(user.hasEverLoggedIn()).toBe(true);
+  });
+
+  it('debería guardar solo el hash del refresh token', async () => {
+    const { tokens } = await useCase.execute({
+      identifier: 'learner',
+      password: 'SecurePass123!',
+    });
+
+    const stored = refreshTokenRepository.create.mock.calls[0][0];
+    expect(stored.userId).toBe(activeUser.id);
+    expect(stored.tokenHash).toBe(hashToken(tokens.refreshToken));
+    expect(stored.tokenHash).not.toBe(tokens.refreshToken);
+    expect(stored.expiresAt).toEqual(tokens.refreshTokenExpiresAt);
+  });
+
+  it('debería rechazar una contraseña incorrecta', async () => {
+    passwordService.verify.mockResolvedValueOnce(false);
+
+    await expect(
+      useCase.execute({ identifier: 'learner', password: 'WrongPass123!' })
+    ).rejects.toBeInstanceOf(InvalidCredentialsError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+    expect(refreshTokenRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar un usuario inexistente con el mismo error', async () => {
+    userRepository.findByUsername.mockResolvedValueOnce(null);
+
+    await expect(
+      useCase.execute({ identifier: 'ghost', password: 'SecurePass123!' })
+    ).rejects.toBeInstanceOf(InvalidCredentialsError);
+    // Se verifica igualmente contra un hash de relleno
+    expect(passwordService.verify).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería rechazar contraseñas que no cumplen las reglas sin verificar', async () => {
+    await expect(
+      useCase.execute({ identifier: 'learner', password: 'corta' })
+    ).rejects.toBeInstanceOf(InvalidCredentialsError);
+    expect(passwordService.verify).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['confirmation_pending', User.create],
+    ['suspended', User.createSuspendedUser],
+    ['banned', User.createBannedUser],
+  ])(
+    'debería rechazar el login de un usuario en estado %s',
+    async (status, factory) => {
+      const blockedUser = factory(
+        new Email('blocked@example.com'),
+        new Username('blocked'),
+        new HashedPassword(HASH),
+        new Role('student')
+      );
+      userRepository.findByUsername.mockResolvedValueOnce(blockedUser);
+
+      const promise = useCase.execute({
+        identifier: 'blocked',
+        password: 'SecurePass123!',
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(AccountNotActiveError);
+      await expect(promise).rejects.toMatchObject({ status });
+      expect(refreshTokenRepository.create).not.toHaveBeenCalled();
+    }
+  );
+});
@@ -0,0 +1,228 @@
+// src/core/use-cases/auth/__tests__/RefreshTokenUseCase.test.ts
+
+import { RefreshTokenUseCase } from '@/core/use-cases/auth/RefreshTokenUseCase';
+import { AuthTokenIssuer } from '@/core/use-cases/auth/AuthTokenIssuer';
+import {
+  InvalidRefreshTokenError,
+  RefreshTokenReuseError,
+} from '@/core/use-cases/auth/AuthErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { RefreshToken } from '@/core/domain/entities/RefreshToken';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+/**
+ * Doble en memoria con la misma semántica de rotación condicional que el
+ * adaptador de Prisma
+ */
+class FakeRefreshTokenRepository implements IRefreshTokenRepository {
+  readonly tokens = new Map<string, RefreshToken>();
+
+  async create(token: RefreshToken): Promise<void> {
+    this.tokens.set(token.id, token);
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    return (
+      [...this.tokens.values()].find((t) => t.tokenHash === tokenHash) ?? null
+    );
+  }
+
+  async rotate(
+    currentTokenId: string,
+    replacement: RefreshToken,
+    rotatedAt: Date
+  ): Promise<boolean> {
+    const current = this.tokens.get(currentTokenId);
+    if (!current || current.isRevoked()) {
+      return false;
+    }
+    this.tokens.set(
+      current.id,
+      this.withRevocation(current, rotatedAt, replacement.id)
+    );
+    this.tokens.set(replacement.id, replacement);
+    return true;
+  }
+
+  async revokeFamily(familyId: string, revokedAt: Date): Promise<void> {
+    for (const token of this.tokens.values()) {
+      if (token.familyId === familyId && !token.isRevoked()) {
+        this.tokens.set(token.id, this.withRevocation(token, revokedAt, null));
+      }
+    }
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: Date): Promise<void> {
+    for (const token of this.tokens.values()) {
+      if (token.userId === userId && !token.isRevoked()) {
+        this.tokens.set(token.id, this.withRevocation(token, revokedAt, null));
+      }
+    }
+  }
+
+  familyTokens(familyId: string): RefreshToken[] {
+    return [...this.tokens.values()].filter((t) => t.familyId === familyId);
+  }
+
+  private withRevocation(
+    token: RefreshToken,
+    revokedAt: Date,
+    replacedByTokenId: string | null
+  ): RefreshToken {
+    return RefreshToken.fromPersistence(
+      token.id,
+      token.userId,
+      token.familyId,
+      token.tokenHash,
+      token.expiresAt,
+      token.createdAt,
+      revokedAt,
+      replacedByTokenId
+    );
+  }
+}
+
+describe('RefreshTokenUseCase', () => {
+  let user: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let refreshTokenRepository: FakeRefreshTokenRepository;
+  let issuer: AuthTokenIssuer;
+  let useCase: RefreshTokenUseCase;
+
+  // Simula un login previo guardando el primer token de la familia
+  async function login(): Promise<{ raw: string; token: RefreshToken }> {
+    const { tokens, refreshToken } = issuer.issue(user);
+    await refreshTokenRepository.create(refreshToken);
+    return { raw: tokens.refreshToken, token: refreshToken };
+  }
+
+  beforeEach(() => {
+    user = User.createActiveUser(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    userRepository = {
+      findById: jest.fn().mockResolvedValue(user),
+    } as unknown as jest.Mocked<IUserRepository>;
+    refreshTokenRepository = new FakeRefreshTokenRepository();
+    issuer = new AuthTokenIssuer(new JwtTokenService(SECRET, 900), 3600);
+    useCase = new RefreshTokenUseCase(
+      userRepository,
+      refreshTokenRepository,
+      issuer
+    );
+  });
+
+  it('debería rotar el refresh token dentro de la misma familia', async () => {
+    const { raw, token } = await login();
+
+    const tokens = await useCase.execute(raw);
+
+    expect(tokens.refreshToken).not.toBe(raw);
+    expect(tokens.accessToken).toEqual(expect.any(String));
+    const family = refreshTokenRepository.familyTokens(token.familyId);
+    expect(family).toHaveLength(2);
+    const previous = refreshTokenRepository.tokens.get(token.id)!;
+    expect(previous.hasBeenRotated()).toBe(true);
+    expect(family.filter((t) => !t.isRevoked())).toHaveLength(1);
+  });
+
+  it('debería permitir encadenar rotaciones con el token nuevo', async () => {
+    const { raw } = await login();
+
+    const first = await useCase.execute(raw);
+    const second = await useCase.execute(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+  });
+
+  it('debería revocar toda la familia si se reutiliza un token rotado', async () => {
+    const { raw, token } = await login();
+    const rotated = await useCase.execute(raw);
+
+    await expect(useCase.execute(raw)).rejects.toBeInstanceOf(
+      RefreshTokenReuseError
+    );
+
+    const family = refreshTokenRepository.familyTokens(token.familyId);
+    expect(family.every((t) => t.isRevoked())).toBe(true);
+    // El token legítimo emitido en la rotación también queda invalidado
+    await expect(useCase.execute(rotated.refreshToken)).rejects.toBeInstanceOf(
+      InvalidRefreshTokenError
+    );
+  });
+
+  it('no debería afectar a otras familias del mismo usuario', async () => {
+    const sessionA = await login();
+    const sessionB = await login();
+    await useCase.execute(sessionA.raw);
+
+    await expect(useCase.execute(sessionA.raw)).rejects.toBeInstanceOf(
+      RefreshTokenReuseError
+    );
+
+    await expect(useCase.execute(sessionB.raw)).resolves.toBeDefined();
+  });
+
+  it('debería tratar una rotación concurrente como reutilización', async () => {
+    const { raw, token } = await login();
+    jest.spyOn(refreshTokenRepository, 'rotate').mockResolvedValueOnce(false);
+
+    await expect(useCase.execute(raw)).rejects.toBeInstanceOf(
+      RefreshTokenReuseError
+    );
+    expect(
+      refreshTokenRepository.familyTokens(token.familyId)[0].isRevoked()
+    ).toBe(true);
+  });
+
+  it('debería rechazar un token desconocido', async () => {
+    await expect(useCase.execute('no-existe')).rejects.toBeInstanceOf(
+      InvalidRefreshTokenError
+    );
+  });
+
+  it('debería rechazar un token expirado', async () => {
+    const { tokens, refreshToken } = issuer.issue(
+      user,
+      undefined,
+      new Date(Date.now() - 2 * 3600 * 1000)
+    );
+    await refreshTokenRepository.create(refreshToken);
+
+    const promise = useCase.execute(tokens.refreshToken);
+
+    await expect(promise).rejects.toBeInstanceOf(InvalidRefreshTokenError);
+    await expect(promise).rejects.not.toBeInstanceOf(RefreshTokenReuseError);
+  });
+
+  it('debería revocar la familia si el usuario ya no puede iniciar sesión', async () => {
+    const { raw, token } = await login();
+    userRepository.findById.mockResolvedValueOnce(
+      User.createBannedUser(
+        user.email,
+        user.username,
+        user.passwordHash,
+        user.role,
+        null,
+        user.id
+      )
+    );
+
+    await expect(useCase.execute(raw)).rejects.toBeInstanceOf(
+      InvalidRefreshTokenError
+    );
+    expect(refreshTokenRepository.tokens.get(token.id)!.isRevoked()).toBe(true);
+  });
+});
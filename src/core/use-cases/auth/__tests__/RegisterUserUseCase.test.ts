@@ -0,0 +1,159 @@
+// src/core/use-cases/auth/__tests__/RegisterUserUseCase.test.ts
+
+import { RegisterUserUseCase } from '@/core/use-cases/auth/RegisterUserUseCase';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IOutboxRepository } from '@/core/interfaces/repositories/IOutboxRepository';
+import {
+  IUnitOfWork,
+  UnitOfWorkRepositories,
+} from '@/core/interfaces/repositories/IUnitOfWork';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { UserAlreadyExistsError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { ValidationError } from '@/shared/errors/ValidationError';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('RegisterUserUseCase', () => {
+  let userRepository: jest.Mocked<IUserRepository>;
+  let outboxRepository: jest.Mocked<IOutboxRepository>;
+  let unitOfWork: IUnitOfWork;
+  let passwordService: jest.Mocked<IPasswordService>;
+  let useCase: RegisterUserUseCase;
+
+  beforeEach(() => {
+    userRepository = {
+      create: jest.fn(async (data) =>
+        User.create(
+          data.email,
+          data.username,
+          data.passwordHash,
+          data.role,
+          data.countryCode
+        )
+      ),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    outboxRepository = {
+      append: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IOutboxRepository>;
+
+    // Unidad de trabajo sin transacción: entrega los dobles al trabajo
+    unitOfWork = {
+      run: (work) =>
+        work({
+          userRepository,
+          outboxRepository,
+        } as unknown as UnitOfWorkRepositories),
+    };
+
+    passwordService = {
+      hash: jest.fn().mockResolvedValue(new HashedPassword(HASH)),
+      verify: jest.fn(),
+    };
+
+    useCase = new RegisterUserUseCase(unitOfWork, passwordService);
+  });
+
+  it('debería registrar un estudiante pendiente de confirmación', async () => {
+    const user = await useCase.execute({
+      email: 'New.User@Example.com',
+      username: 'new_user',
+      password: 'SecurePass123!',
+      countryCode: 'CL',
+    });
+
+    expect(user.getEmailValue()).toBe('new.user@example.com');
+    expect(user.getUsernameValue()).toBe('new_user');
+    expect(user.getRoleValue()).toBe('student');
+    expect(user.isPendingConfirmation()).toBe(true);
+    expect(user.getCountryCodeValue()).toBe('CL');
+    expect(user.getPasswordHashValue()).toBe(HASH);
+  });
+
+  it('debería hashear la contraseña antes de persistir', async () => {
+    await useCase.execute({
+      email: 'hash@example.com',
+      username: 'hash_user',
+      password: 'SecurePass123!',
+    });
+
+    expect(passwordService.hash).toHaveBeenCalledTimes(1);
+    expect(passwordService.hash.mock.calls[0][0].value).toBe('SecurePass123!');
+    const persisted = userRepository.create.mock.calls[0][0];
+    expect(persisted.passwordHash.value).toBe(HASH);
+    expect(persisted.countryCode).toBeNull();
+  });
+
+  it('debería reportar todos los campos inválidos en un ValidationError', async () => {
+    const promise = useCase.execute({
+      email: 'no-es-un-email',
+      username: 'ab',
+      password: 'debil',
+      countryCode: 'XX',
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    const error = (await promise.catch((e) => e)) as ValidationError;
+    expect(Object.keys(error.fields).sort()).toEqual([
+      'countryCode',
+      'email',
+      'password',
+      'username',
+    ]);
+    expect(passwordService.hash).not.toHaveBeenCalled();
+    expect(userRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('debería propagar UserAlreadyExistsError del repositorio', async () => {
+    userRepository.create.mockRejectedValueOnce(
+      new UserAlreadyExistsError('taken@example.com')
+    );
+
+    await expect(
+      useCase.execute({
+        email: 'taken@example.com',
+        username: 'taken_user',
+        password: 'SecurePass123!',
+      })
+    ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+  });
+
+  it('debería guardar el evento UserRegistered en el outbox', async () => {
+    const user = await useCase.execute({
+      email: 'event@example.com',
+      username: 'event_user',
+      password: 'SecurePass123!',
+    });
+
+    expect(outboxRepository.append).toHaveBeenCalledTimes(1);
+    const [events] = outboxRepository.append.mock.calls[0];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'UserRegistered',
+      aggregateId: user.id,
+      payload: {
+        email: 'event@example.com',
+        username: 'event_user',
+        role: 'student',
+      },
+    });
+    expect(user.pullDomainEvents()).toHaveLength(0);
+  });
+
+  it('no debería guardar eventos si falla la creación del usuario', async () => {
+    userRepository.create.mockRejectedValueOnce(
+      new UserAlreadyExistsError('taken@example.com')
+    );
+
+    await expect(
+      useCase.execute({
+        email: 'taken@example.com',
+        username: 'taken_user',
+        password: 'SecurePass123!',
+      })
+    ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+    expect(outboxRepository.append).not.toHaveBeenCalled();
+  });
+});
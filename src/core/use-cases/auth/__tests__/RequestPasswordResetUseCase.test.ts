@@ -0,0 +1,133 @@
+// src/core/use-cases/auth/__tests__/RequestPasswordResetUseCase.test.ts
+
+import { RequestPasswordResetUseCase } from '@/core/use-cases/auth/RequestPasswordResetUseCase';
+import { VerificationTokenIssuer } from '@/core/use-cases/auth/VerificationTokenIssuer';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import {
+  EmailMessage,
+  IEmailGateway,
+} from '@/core/interfaces/gateways/IEmailGateway';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { hashToken } from '@/shared/utils/secureToken';
+import { FakeVerificationTokenRepository } from './FakeVerificationTokenRepository';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('RequestPasswordResetUseCase', () => {
+  let user: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let tokenRepository: FakeVerificationTokenRepository;
+  let emailGateway: jest.Mocked<IEmailGateway>;
+  let logger: jest.Mocked<ILogger>;
+  let useCase: RequestPasswordResetUseCase;
+
+  function tokenFrom(message: EmailMessage): string {
+    const link = message.text.match(/https?:\/\/\S+/)![0];
+    return new URL(link).searchParams.get('token')!;
+  }
+
+  beforeEach(() => {
+    user = User.createActiveUser(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    userRepository = {
+      findByEmail: jest.fn().mockResolvedValue(user),
+    } as unknown as jest.Mocked<IUserRepository>;
+    tokenRepository = new FakeVerificationTokenRepository();
+    emailGateway = { send: jest.fn().mockResolvedValue(undefined) };
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+    useCase = new RequestPasswordResetUseCase(
+      userRepository,
+      new VerificationTokenIssuer(tokenRepository, 'password_reset', {
+        tokenTtlSeconds: 3600,
+        resendCooldownSeconds: 60,
+        maxPerDay: 5,
+      }),
+      emailGateway,
+      'https://app.wayrapp.test/reset-password',
+      logger
+    );
+  });
+
+  it('debería enviar un enlace de restablecimiento con el token hasheado en reposo', async () => {
+    await useCase.execute(' Learner@Example.com ');
+
+    expect(userRepository.findByEmail).toHaveBeenCalledWith(
+      'learner@example.com'
+    );
+    const message = emailGateway.send.mock.calls[0][0];
+    expect(message.to).toBe('learner@example.com');
+    expect(message.text).toContain(
+      'https://app.wayrapp.test/reset-password?token='
+    );
+
+    const [stored] = tokenRepository.tokens;
+    expect(stored.purpose).toBe('password_reset');
+    expect(stored.userId).toBe(user.id);
+    expect(stored.tokenHash).toBe(hashToken(tokenFrom(message)));
+  });
+
+  it('debería terminar igual si el email no está registrado', async () => {
+    userRepository.findByEmail.mockResolvedValueOnce(null);
+
+    await expect(useCase.execute('ghost@example.com')).resolves.toBeUndefined();
+    expect(emailGateway.send).not.toHaveBeenCalled();
+    expect(tokenRepository.tokens).toHaveLength(0);
+  });
+
+  it('no debería enviar enlaces a cuentas baneadas', async () => {
+    userRepository.findByEmail.mockResolvedValueOnce(
+      User.createBannedUser(
+        user.email,
+        user.username,
+        user.passwordHash,
+        user.role
+      )
+    );
+
+    await expect(
+      useCase.execute('learner@example.com')
+    ).resolves.toBeUndefined();
+    expect(emailGateway.send).not.toHaveBeenCalled();
+  });
+
+  it('debería terminar igual si se alcanzó un límite de envío', async () => {
+    await useCase.execute('learner@example.com');
+
+    await expect(
+      useCase.execute('learner@example.com')
+    ).resolves.toBeUndefined();
+    expect(emailGateway.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería terminar igual si falla el envío y dejar pedir otro enlace', async () => {
+    emailGateway.send.mockRejectedValueOnce(new Error('SMTP caído'));
+
+    await expect(
+      useCase.execute('learner@example.com')
+    ).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith(
+      'No se pudo enviar el email de restablecimiento',
+      expect.objectContaining({ userId: user.id })
+    );
+    expect(tokenRepository.tokens).toHaveLength(0);
+
+    await useCase.execute('learner@example.com');
+    expect(emailGateway.send).toHaveBeenCalledTimes(2);
+    expect(tokenRepository.tokens).toHaveLength(1);
+  });
+});
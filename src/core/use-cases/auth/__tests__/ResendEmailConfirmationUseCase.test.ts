@@ -0,0 +1,62 @@
+// src/core/use-cases/auth/__tests__/ResendEmailConfirmationUseCase.test.ts
+
+import { ResendEmailConfirmationUseCase } from '@/core/use-cases/auth/ResendEmailConfirmationUseCase';
+import { SendEmailConfirmationUseCase } from '@/core/use-cases/auth/SendEmailConfirmationUseCase';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('ResendEmailConfirmationUseCase', () => {
+  let user: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let sendEmailConfirmation: jest.Mocked<SendEmailConfirmationUseCase>;
+  let useCase: ResendEmailConfirmationUseCase;
+
+  beforeEach(() => {
+    user = User.create(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    userRepository = {
+      findByEmail: jest.fn().mockResolvedValue(user),
+    } as unknown as jest.Mocked<IUserRepository>;
+    sendEmailConfirmation = {
+      execute: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<SendEmailConfirmationUseCase>;
+    useCase = new ResendEmailConfirmationUseCase(
+      userRepository,
+      sendEmailConfirmation
+    );
+  });
+
+  it('debería reenviar la confirmación al usuario con ese email', async () => {
+    await useCase.execute(' Learner@Example.com ');
+
+    expect(userRepository.findByEmail).toHaveBeenCalledWith(
+      'learner@example.com'
+    );
+    expect(sendEmailConfirmation.execute).toHaveBeenCalledWith(user);
+  });
+
+  it('debería terminar sin error si el email no está registrado', async () => {
+    userRepository.findByEmail.mockResolvedValueOnce(null);
+
+    await expect(useCase.execute('ghost@example.com')).resolves.toBeUndefined();
+    expect(sendEmailConfirmation.execute).not.toHaveBeenCalled();
+  });
+
+  it('debería terminar sin error aunque el envío se omita por los límites', async () => {
+    sendEmailConfirmation.execute.mockResolvedValueOnce(false);
+
+    await expect(
+      useCase.execute('learner@example.com')
+    ).resolves.toBeUndefined();
+  });
+});
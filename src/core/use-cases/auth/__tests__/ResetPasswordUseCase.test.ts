@@ -0,0 +1,138 @@
+// src/core/use-cases/auth/__tests__/ResetPasswordUseCase.test.ts
+
+import { ResetPasswordUseCase } from '@/core/use-cases/auth/ResetPasswordUseCase';
+import { InvalidVerificationTokenError } from '@/core/use-cases/auth/AuthErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { VerificationToken } from '@/core/domain/entities/VerificationToken';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { hashToken } from '@/shared/utils/secureToken';
+import { FakeVerificationTokenRepository } from './FakeVerificationTokenRepository';
+
+const OLD_HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const NEW_HASH = '$2b$12$C6UzMDM.H6dfI/f/IKcEeO5mX0Zp3F9H5N1cQ6w5s7f4ZlQm3rW2a';
+const RAW_TOKEN = 'raw-reset-token';
+
+describe('ResetPasswordUseCase', () => {
+  let user: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let tokenRepository: FakeVerificationTokenRepository;
+  let refreshTokenRepository: jest.Mocked<IRefreshTokenRepository>;
+  let passwordService: jest.Mocked<IPasswordService>;
+  let useCase: ResetPasswordUseCase;
+
+  async function storeToken(
+    purpose: 'password_reset' | 'email_confirmation' = 'password_reset',
+    issuedAt: Date = new Date()
+  ): Promise<VerificationToken> {
+    const token = VerificationToken.issue(
+      user.id,
+      purpose,
+      hashToken(RAW_TOKEN),
+      3600,
+      issuedAt
+    );
+    await tokenRepository.create(token);
+    return token;
+  }
+
+  beforeEach(() => {
+    user = User.createActiveUser(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(OLD_HASH),
+      new Role('student')
+    );
+    userRepository = {
+      findById: jest.fn().mockResolvedValue(user),
+      update: jest.fn().mockResolvedValue(user),
+    } as unknown as jest.Mocked<IUserRepository>;
+    tokenRepository = new FakeVerificationTokenRepository();
+    refreshTokenRepository = {
+      create: jest.fn(),
+      findByHash: jest.fn(),
+      rotate: jest.fn(),
+      revokeFamily: jest.fn(),
+      revokeAllForUser: jest.fn().mockResolvedValue(undefined),
+    };
+    passwordService = {
+      hash: jest.fn().mockResolvedValue(new HashedPassword(NEW_HASH)),
+      verify: jest.fn(),
+    };
+    useCase = new ResetPasswordUseCase(
+      userRepository,
+      tokenRepository,
+      refreshTokenRepository,
+      passwordService
+    );
+  });
+
+  it('debería guardar la nueva contraseña hasheada y revocar las sesiones', async () => {
+    await storeToken();
+
+    await useCase.execute({ token: RAW_TOKEN, password: 'NewSecure456!' });
+
+    expect(passwordService.hash.mock.calls[0][0].value).toBe('NewSecure456!');
+    const [id, data] = userRepository.update.mock.calls[0];
+    expect(id).toBe(user.id);
+    expect(data.passwordHash?.value).toBe(NEW_HASH);
+    expect(refreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+      user.id,
+      expect.any(Date)
+    );
+  });
+
+  it('debería aceptar el token una sola vez', async () => {
+    await storeToken();
+    await useCase.execute({ token: RAW_TOKEN, password: 'NewSecure456!' });
+
+    await expect(
+      useCase.execute({ token: RAW_TOKEN, password: 'Another789!' })
+    ).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+    expect(userRepository.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería rechazar contraseñas que no cumplen las reglas sin gastar el token', async () => {
+    const token = await storeToken();
+
+    const promise = useCase.execute({ token: RAW_TOKEN, password: 'corta' });
+
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fields: { password: expect.any(String) },
+    });
+    expect(tokenRepository.tokens[0].id).toBe(token.id);
+    expect(tokenRepository.tokens[0].isConsumed()).toBe(false);
+    expect(passwordService.hash).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar un token expirado', async () => {
+    await storeToken('password_reset', new Date(Date.now() - 2 * 3600 * 1000));
+
+    await expect(
+      useCase.execute({ token: RAW_TOKEN, password: 'NewSecure456!' })
+    ).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar un token emitido para otro propósito', async () => {
+    await storeToken('email_confirmation');
+
+    await expect(
+      useCase.execute({ token: RAW_TOKEN, password: 'NewSecure456!' })
+    ).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+  });
+
+  it('debería rechazar un token desconocido', async () => {
+    await expect(
+      useCase.execute({ token: 'unknown', password: 'NewSecure456!' })
+    ).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+    expect(refreshTokenRepository.revokeAllForUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+// src/core/use-cases/auth/__tests__/SendConfirmationEmailOnUserRegistered.test.ts
+
+import { SendConfirmationEmailOnUserRegistered } from '@/core/use-cases/auth/SendConfirmationEmailOnUserRegistered';
+import { SendEmailConfirmationUseCase } from '@/core/use-cases/auth/SendEmailConfirmationUseCase';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { createUserRegistered } from '@/core/domain/events/UserRegistered';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('SendConfirmationEmailOnUserRegistered', () => {
+  let userRepository: jest.Mocked<IUserRepository>;
+  let emailConfirmation: jest.Mocked<SendEmailConfirmationUseCase>;
+  let handler: SendConfirmationEmailOnUserRegistered;
+  let user: User;
+
+  beforeEach(() => {
+    user = User.create(
+      new Email('new@example.com'),
+      new Username('new_user'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    userRepository = {
+      findById: jest.fn().mockResolvedValue(user),
+    } as unknown as jest.Mocked<IUserRepository>;
+    emailConfirmation = {
+      execute: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<SendEmailConfirmationUseCase>;
+    handler = new SendConfirmationEmailOnUserRegistered(
+      userRepository,
+      emailConfirmation
+    );
+  });
+
+  const event = () =>
+    createUserRegistered(user.id, {
+      email: 'new@example.com',
+      username: 'new_user',
+      role: 'student',
+    });
+
+  it('debería suscribirse a UserRegistered', () => {
+    expect(handler.eventType).toBe('UserRegistered');
+  });
+
+  it('debería enviar el email de confirmación al usuario registrado', async () => {
+    await handler.handle(event());
+
+    expect(userRepository.findById).toHaveBeenCalledWith(user.id);
+    expect(emailConfirmation.execute).toHaveBeenCalledWith(user);
+  });
+
+  it('no debería enviar nada si el usuario ya no existe', async () => {
+    userRepository.findById.mockResolvedValueOnce(null);
+
+    await handler.handle(event());
+
+    expect(emailConfirmation.execute).not.toHaveBeenCalled();
+  });
+
+  it('debería propagar los fallos del envío para que el evento se reintente', async () => {
+    emailConfirmation.execute.mockRejectedValueOnce(new Error('SMTP caído'));
+
+    await expect(handler.handle(event())).rejects.toThrow('SMTP caído');
+  });
+});
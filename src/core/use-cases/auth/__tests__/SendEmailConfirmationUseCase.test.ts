@@ -0,0 +1,106 @@
+// src/core/use-cases/auth/__tests__/SendEmailConfirmationUseCase.test.ts
+
+import { SendEmailConfirmationUseCase } from '@/core/use-cases/auth/SendEmailConfirmationUseCase';
+import { VerificationTokenIssuer } from '@/core/use-cases/auth/VerificationTokenIssuer';
+import {
+  EmailMessage,
+  IEmailGateway,
+} from '@/core/interfaces/gateways/IEmailGateway';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { hashToken } from '@/shared/utils/secureToken';
+import { FakeVerificationTokenRepository } from './FakeVerificationTokenRepository';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('SendEmailConfirmationUseCase', () => {
+  const now = new Date('2025-01-01T10:00:00Z');
+  let user: User;
+  let tokenRepository: FakeVerificationTokenRepository;
+  let emailGateway: jest.Mocked<IEmailGateway>;
+  let useCase: SendEmailConfirmationUseCase;
+
+  function tokenFrom(message: EmailMessage): string {
+    const link = message.text.match(/https?:\/\/\S+/)![0];
+    return new URL(link).searchParams.get('token')!;
+  }
+
+  beforeEach(() => {
+    user = User.create(
+      new Email('learner@example.com'),
+      new Username('learner'),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    tokenRepository = new FakeVerificationTokenRepository();
+    emailGateway = { send: jest.fn().mockResolvedValue(undefined) };
+    useCase = new SendEmailConfirmationUseCase(
+      new VerificationTokenIssuer(tokenRepository, 'email_confirmation', {
+        tokenTtlSeconds: 3600,
+        resendCooldownSeconds: 60,
+        maxPerDay: 3,
+      }),
+      emailGateway,
+      'https://app.wayrapp.test/confirm-email'
+    );
+  });
+
+  it('debería enviar un enlace con un token cuyo hash queda guardado', async () => {
+    await expect(useCase.execute(user, now)).resolves.toBe(true);
+
+    const message = emailGateway.send.mock.calls[0][0];
+    expect(message.to).toBe('learner@example.com');
+    expect(message.text).toContain(
+      'https://app.wayrapp.test/confirm-email?token='
+    );
+
+    const [stored] = tokenRepository.tokens;
+    expect(stored.tokenHash).toBe(hashToken(tokenFrom(message)));
+    expect(stored.purpose).toBe('email_confirmation');
+  });
+
+  it('no debería enviar nada a usuarios que no están pendientes', async () => {
+    const activeUser = User.createActiveUser(
+      user.email,
+      user.username,
+      user.passwordHash,
+      user.role
+    );
+
+    await expect(useCase.execute(activeUser, now)).resolves.toBe(false);
+    expect(emailGateway.send).not.toHaveBeenCalled();
+  });
+
+  it('no debería enviar nada si se alcanzó un límite de envío', async () => {
+    await useCase.execute(user, now);
+
+    await expect(
+      useCase.execute(user, new Date(now.getTime() + 1000))
+    ).resolves.toBe(false);
+    expect(emailGateway.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería propagar los fallos del gateway de email', async () => {
+    emailGateway.send.mockRejectedValueOnce(new Error('SMTP caído'));
+
+    await expect(useCase.execute(user, now)).rejects.toThrow('SMTP caído');
+  });
+
+  it('debería poder reenviar enseguida cuando el envío anterior falló', async () => {
+    emailGateway.send.mockRejectedValueOnce(new Error('SMTP caído'));
+    await expect(useCase.execute(user, now)).rejects.toThrow('SMTP caído');
+    expect(tokenRepository.tokens).toHaveLength(0);
+
+    // El outbox vuelve a entregar el evento dentro del tiempo de espera
+    const redelivery = new Date(now.getTime() + 30 * 1000);
+    await expect(useCase.execute(user, redelivery)).resolves.toBe(true);
+
+    const message = emailGateway.send.mock.calls[1][0];
+    const [stored] = tokenRepository.tokens;
+    expect(tokenRepository.tokens).toHaveLength(1);
+    expect(stored.tokenHash).toBe(hashToken(tokenFrom(message)));
+  });
+});
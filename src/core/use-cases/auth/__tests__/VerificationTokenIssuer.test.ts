@@ -0,0 +1,74 @@
+// src/core/use-cases/auth/__tests__/VerificationTokenIssuer.test.ts
+
+import { VerificationTokenIssuer } from '@/core/use-cases/auth/VerificationTokenIssuer';
+import { hashToken } from '@/shared/utils/secureToken';
+import { FakeVerificationTokenRepository } from './FakeVerificationTokenRepository';
+
+describe('VerificationTokenIssuer', () => {
+  const now = new Date('2025-01-01T10:00:00Z');
+  let tokenRepository: FakeVerificationTokenRepository;
+  let issuer: VerificationTokenIssuer;
+
+  function secondsLater(seconds: number): Date {
+    return new Date(now.getTime() + seconds * 1000);
+  }
+
+  beforeEach(() => {
+    tokenRepository = new FakeVerificationTokenRepository();
+    issuer = new VerificationTokenIssuer(
+      tokenRepository,
+      'email_confirmation',
+      { tokenTtlSeconds: 3600, resendCooldownSeconds: 60, maxPerDay: 3 }
+    );
+  });
+
+  it('debería emitir un token y guardar solo su hash', async () => {
+    const issued = await issuer.issue('user-1', now);
+
+    expect(issued).not.toBeNull();
+    expect(tokenRepository.tokens).toEqual([issued!.token]);
+    expect(issued!.token.tokenHash).toBe(hashToken(issued!.rawToken));
+    expect(issued!.token.purpose).toBe('email_confirmation');
+    expect(issued!.token.expiresAt).toEqual(secondsLater(3600));
+  });
+
+  it('debería respetar el tiempo de espera entre emisiones', async () => {
+    await issuer.issue('user-1', now);
+
+    await expect(issuer.issue('user-1', secondsLater(59))).resolves.toBeNull();
+    await expect(
+      issuer.issue('user-1', secondsLater(60))
+    ).resolves.not.toBeNull();
+  });
+
+  it('debería respetar el máximo de emisiones diarias', async () => {
+    await issuer.issue('user-1', now);
+    await issuer.issue('user-1', secondsLater(60));
+    await issuer.issue('user-1', secondsLater(120));
+
+    await expect(
+      issuer.issue('user-1', secondsLater(3600))
+    ).resolves.toBeNull();
+    // Pasadas 24 horas desde la primera emisión vuelve a haber cupo
+    await expect(
+      issuer.issue('user-1', secondsLater(24 * 3600 + 1))
+    ).resolves.not.toBeNull();
+  });
+
+  it('debería aplicar los límites por usuario', async () => {
+    await issuer.issue('user-1', now);
+
+    await expect(issuer.issue('user-2', now)).resolves.not.toBeNull();
+  });
+
+  it('debería invalidar los tokens emitidos anteriormente', async () => {
+    await issuer.issue('user-1', now);
+    await issuer.issue('user-1', secondsLater(60));
+
+    const [first, second] = tokenRepository.tokens;
+    expect(first.isConsumed()).toBe(true);
+    expect(second.isUsableFor('email_confirmation', secondsLater(60))).toBe(
+      true
+    );
+  });
+});
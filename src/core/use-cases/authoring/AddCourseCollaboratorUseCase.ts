@@ -0,0 +1,55 @@
+// src/core/use-cases/authoring/AddCourseCollaboratorUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import { InvalidCollaboratorError } from './AuthoringErrors';
+import { loadContent } from './ContentNodes';
+
+export interface CourseCollaboratorInput {
+  actor: User; // Propietario del curso o administrador
+  courseId: string;
+  userId: string;
+}
+
+/**
+ * Caso de uso de alta de un colaborador en un curso. Solo pueden colaborar
+ * los creadores de contenido.
+ * @returns Los colaboradores del curso.
+ */
+export class AddCourseCollaboratorUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: CourseCollaboratorInput): Promise<string[]> {
+    return this.unitOfWork.run(async (repositories) => {
+      const course = (await loadContent(
+        repositories,
+        'course',
+        input.courseId
+      )) as Course;
+      new AuthoringAccess(repositories).assertCanManageCourse(
+        input.actor,
+        course
+      );
+
+      const user = await repositories.userRepository.findById(input.userId);
+      if (!user) {
+        throw new UserNotFoundError(input.userId);
+      }
+      if (!user.canCreateContent()) {
+        throw new InvalidCollaboratorError(user.id);
+      }
+
+      await repositories.courseCollaboratorRepository.add(
+        course.id,
+        user.id,
+        new Date()
+      );
+      return repositories.courseCollaboratorRepository.findUserIdsByCourseId(
+        course.id
+      );
+    });
+  }
+}
@@ -0,0 +1,46 @@
+// src/core/use-cases/authoring/ArchivePublicationUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion, courseOf } from './ContentNodes';
+import { loadPublicationTarget } from './Publications';
+
+export interface ArchivePublicationInput {
+  actor: User;
+  kind: PublishableKind;
+  contentId: string;
+  version: number; // Versión de la publicación
+}
+
+/**
+ * Caso de uso de archivado: retira el curso o la lección de los alumnos
+ * sin borrar sus instantáneas. Vuelve a publicarse con una nueva revisión.
+ * Solo pueden el propietario del curso y los administradores.
+ */
+export class ArchivePublicationUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: ArchivePublicationInput): Promise<Publication> {
+    return this.unitOfWork.run(async (repositories) => {
+      const { content, publication } = await loadPublicationTarget(
+        repositories,
+        input.kind,
+        input.contentId
+      );
+      new AuthoringAccess(repositories).assertCanManageCourse(
+        input.actor,
+        await courseOf(repositories, content)
+      );
+      assertVersion('publication', publication, input.version);
+
+      return repositories.publicationRepository.save(
+        publication.archive(input.actor.id)
+      );
+    });
+  }
+}
@@ -0,0 +1,83 @@
+// src/core/use-cases/authoring/AttachExerciseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { Position } from '@/core/domain/value-objects/Position';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ExerciseNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion, loadContent, touchContent } from './ContentNodes';
+import { buildFields, optional } from './ContentFields';
+
+export interface AttachExerciseInput {
+  actor: User;
+  lessonId: string;
+  version: number; // Versión de la lección que se editó
+  exerciseId: string;
+  position?: number; // Opcional - por defecto, detrás del último
+}
+
+/**
+ * Ejercicios de una lección tras añadir o quitar uno, con la nueva versión
+ * de la lección
+ */
+export interface LessonExercises {
+  lesson: Lesson;
+  exercises: LessonExercise[];
+}
+
+/**
+ * Caso de uso para añadir un ejercicio (propio o reutilizado de otro curso
+ * que se puede editar) a una lección.
+ *
+ * Los ejercicios de una lección son parte de ella: el cambio se guarda con
+ * la versión de la lección, como ReorderContentUseCase.
+ */
+export class AttachExerciseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: AttachExerciseInput): Promise<LessonExercises> {
+    const { position } = buildFields('Datos del ejercicio inválidos', {
+      position: () =>
+        optional(input.position, (position) => new Position(position)),
+    });
+
+    return this.unitOfWork.run(async (repositories) => {
+      const access = new AuthoringAccess(repositories);
+      const lesson = (await loadContent(
+        repositories,
+        'lesson',
+        input.lessonId
+      )) as Lesson;
+      await access.assertCanEdit(input.actor, lesson);
+      assertVersion('lesson', lesson, input.version);
+
+      const exercise = await repositories.exerciseRepository.findById(
+        input.exerciseId
+      );
+      if (!exercise) {
+        throw new ExerciseNotFoundError(input.exerciseId);
+      }
+      await access.assertCanViewExercise(input.actor, exercise);
+
+      const now = new Date();
+      const link = LessonExercise.create(
+        lesson,
+        exercise,
+        await repositories.lessonExerciseRepository.findByLessonId(lesson.id),
+        position,
+        now
+      );
+      const saved = (await touchContent(repositories, lesson, now)) as Lesson;
+      await repositories.lessonExerciseRepository.attach(link);
+
+      return {
+        lesson: saved,
+        exercises: await repositories.lessonExerciseRepository.findByLessonId(
+          lesson.id
+        ),
+      };
+    });
+  }
+}
@@ -0,0 +1,129 @@
+// src/core/use-cases/authoring/AuthoringAccess.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { ContentRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ContentAccessDeniedError } from './AuthoringErrors';
+import { AnyContent, courseOf, kindOf } from './ContentNodes';
+
+/**
+ * Reglas de acceso a la edición de contenido:
+ *
+ * - Solo editan los usuarios que pueden crear contenido
+ *   (User.canCreateContent); un colaborador que pierde el rol deja de poder
+ *   editar.
+ * - Los administradores editan todo.
+ * - Un curso, y todo lo que contiene, lo editan su propietario y sus
+ *   colaboradores. Borrarlo y gestionar sus colaboradores solo puede su
+ *   propietario.
+ * - Un ejercicio lo edita quien pueda editar todos los cursos que lo usan,
+ *   también su propietario: un cambio no puede llegar a cursos ajenos. Si
+ *   ningún curso lo usa, solo lo edita su propietario. Para verlo (y
+ *   añadirlo a una lección) basta con ser su propietario o poder editar uno
+ *   de los cursos.
+ */
+export class AuthoringAccess {
+  constructor(private readonly repositories: ContentRepositories) {}
+
+  async canEditCourse(actor: User, course: Course): Promise<boolean> {
+    if (!actor.canCreateContent()) {
+      return false;
+    }
+    if (actor.hasAdminPrivileges() || course.isOwnedBy(actor.id)) {
+      return true;
+    }
+    return this.repositories.courseCollaboratorRepository.isCollaborator(
+      course.id,
+      actor.id
+    );
+  }
+
+  /**
+   * @throws ContentAccessDeniedError si el usuario no puede editar el
+   * elemento (o el curso que lo contiene).
+   */
+  async assertCanEdit(actor: User, content: AnyContent): Promise<Course> {
+    const course = await courseOf(this.repositories, content);
+    if (!(await this.canEditCourse(actor, course))) {
+      throw new ContentAccessDeniedError(kindOf(content), content.id);
+    }
+    return course;
+  }
+
+  /**
+   * @throws ContentAccessDeniedError si el usuario no es el propietario del
+   * curso ni administrador.
+   */
+  assertCanManageCourse(actor: User, course: Course): void {
+    const allowed =
+      actor.canCreateContent() &&
+      (actor.hasAdminPrivileges() || course.isOwnedBy(actor.id));
+    if (!allowed) {
+      throw new ContentAccessDeniedError('course', course.id);
+    }
+  }
+
+  /**
+   * @throws ContentAccessDeniedError si el usuario no puede editar el
+   * ejercicio.
+   */
+  async assertCanEditExercise(actor: User, exercise: Exercise): Promise<void> {
+    if (!(await this.canAccessExercise(actor, exercise, 'every'))) {
+      throw new ContentAccessDeniedError('exercise', exercise.id);
+    }
+  }
+
+  /**
+   * @throws ContentAccessDeniedError si el usuario no puede ver el
+   * ejercicio.
+   */
+  async assertCanViewExercise(actor: User, exercise: Exercise): Promise<void> {
+    if (!(await this.canAccessExercise(actor, exercise, 'some'))) {
+      throw new ContentAccessDeniedError('exercise', exercise.id);
+    }
+  }
+
+  private async canAccessExercise(
+    actor: User,
+    exercise: Exercise,
+    courses: 'every' | 'some'
+  ): Promise<boolean> {
+    if (!actor.canCreateContent()) {
+      return false;
+    }
+    if (actor.hasAdminPrivileges()) {
+      return true;
+    }
+    const owner = exercise.isOwnedBy(actor.id);
+    if (owner && courses === 'some') {
+      return true;
+    }
+
+    const links =
+      await this.repositories.lessonExerciseRepository.findByExerciseId(
+        exercise.id
+      );
+    if (links.length === 0) {
+      return owner;
+    }
+    for (const link of links) {
+      const lesson = await this.repositories.lessonRepository.findById(
+        link.lessonId
+      );
+      const editable =
+        lesson !== null &&
+        (await this.canEditCourse(
+          actor,
+          await courseOf(this.repositories, lesson)
+        ));
+      if (courses === 'some' && editable) {
+        return true;
+      }
+      if (courses === 'every' && !editable) {
+        return false;
+      }
+    }
+    return courses === 'every';
+  }
+}
@@ -0,0 +1,85 @@
+// src/core/use-cases/authoring/AuthoringErrors.ts
+
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+import type {
+  ContentKind,
+  VersionedKind,
+} from '@/core/domain/services/ContentHierarchy';
+
+/**
+ * Errores de los casos de uso de edición de contenido
+ */
+export class AuthoringError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    category: ErrorCategory,
+    params: ErrorParams = {}
+  ) {
+    super(message, code, category, params);
+    this.name = 'AuthoringError';
+  }
+}
+
+// Solo editan un curso su propietario, sus colaboradores y los
+// administradores (ver AuthoringAccess)
+export class ContentAccessDeniedError extends AuthoringError {
+  constructor(
+    public readonly kind: VersionedKind,
+    public readonly id: string
+  ) {
+    super(
+      `Sin permiso para editar el ${kind} ${id}`,
+      'CONTENT_ACCESS_DENIED',
+      'forbidden',
+      { kind }
+    );
+    this.name = 'ContentAccessDeniedError';
+  }
+}
+
+// Los colaboradores tienen que poder crear contenido
+export class InvalidCollaboratorError extends AuthoringError {
+  constructor(public readonly userId: string) {
+    super(
+      `El usuario ${userId} no puede colaborar: no es creador de contenido`,
+      'COURSE_COLLABORATOR_INVALID',
+      'validation'
+    );
+    this.name = 'InvalidCollaboratorError';
+  }
+}
+
+// Aprobar o rechazar una revisión es cosa de administradores
+export class PublicationReviewForbiddenError extends AuthoringError {
+  constructor() {
+    super(
+      'Solo un administrador puede aprobar o rechazar una publicación',
+      'PUBLICATION_REVIEW_FORBIDDEN',
+      'forbidden'
+    );
+    this.name = 'PublicationReviewForbiddenError';
+  }
+}
+
+// Borrar el contenido borraría también lo que ven los alumnos: antes hay que
+// archivarlo
+export class PublishedContentDeletionError extends AuthoringError {
+  constructor(
+    public readonly kind: ContentKind,
+    public readonly id: string
+  ) {
+    super(
+      `No se puede borrar el ${kind} ${id}: tiene contenido publicado`,
+      'PUBLICATION_CONTENT_LIVE',
+      'conflict',
+      { kind }
+    );
+    this.name = 'PublishedContentDeletionError';
+  }
+}
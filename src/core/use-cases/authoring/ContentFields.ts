@@ -0,0 +1,40 @@
+// src/core/use-cases/authoring/ContentFields.ts
+
+import { ValidationError } from '@/shared/errors/ValidationError';
+
+type FieldBuilders<T> = { [K in keyof T]: () => T[K] };
+
+/**
+ * Construye los value objects de una petición de edición y acumula los
+ * errores por campo, como RegisterUserUseCase. Un builder devuelve
+ * undefined para los campos opcionales que no llegan.
+ * @throws ValidationError con el fallo de cada campo.
+ */
+export function buildFields<T extends object>(
+  message: string,
+  builders: FieldBuilders<T>
+): T {
+  const errors: Record<string, unknown> = {};
+  const fields: Partial<T> = {};
+
+  for (const field of Object.keys(builders) as (keyof T)[]) {
+    try {
+      fields[field] = builders[field]();
+    } catch (error) {
+      errors[String(field)] = error;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw ValidationError.fromFieldErrors(message, errors);
+  }
+  return fields as T;
+}
+
+// Aplica `build` solo si llega el valor
+export function optional<V, T>(
+  value: V | undefined,
+  build: (value: V) => T
+): T | undefined {
+  return value === undefined ? undefined : build(value);
+}
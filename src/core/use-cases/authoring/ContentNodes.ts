@@ -0,0 +1,158 @@
+// src/core/use-cases/authoring/ContentNodes.ts
+
+import { ContentRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { IContentNodeRepository } from '@/core/interfaces/repositories/IContentNodeRepository';
+import {
+  ContentNotFoundError,
+  ContentVersionConflictError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import {
+  ChildContentKind,
+  ContentKind,
+  parentKindOf,
+  VersionedKind,
+} from '@/core/domain/services/ContentHierarchy';
+import { NewContentNode } from '@/core/domain/entities/ContentNode';
+import { Course } from '@/core/domain/entities/Course';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+
+/**
+ * Acceso por tipo a los elementos de la jerarquía para los casos de uso de
+ * edición, que reciben el tipo en la petición (`level`, `section`...)
+ */
+
+export type AnyContentNode = Level | Section | Module | Lesson;
+
+// Cualquier elemento de la jerarquía, incluido el curso
+export type AnyContent = Course | AnyContentNode;
+
+// Repositorio de cada tipo, comprobado contra su tipo de elemento
+interface NodeRepositories {
+  level: IContentNodeRepository<Level>;
+  section: IContentNodeRepository<Section>;
+  module: IContentNodeRepository<Module>;
+  lesson: IContentNodeRepository<Lesson>;
+}
+
+/**
+ * Repositorio de los elementos de tipo `kind`. Solo recibe elementos de ese
+ * tipo: los casos de uso construyen o cargan el elemento con el mismo `kind`
+ */
+export function nodeRepositoryOf(
+  repositories: ContentRepositories,
+  kind: ChildContentKind
+): IContentNodeRepository<AnyContentNode> {
+  const byKind: NodeRepositories = {
+    level: repositories.levelRepository,
+    section: repositories.sectionRepository,
+    module: repositories.moduleRepository,
+    lesson: repositories.lessonRepository,
+  };
+  return byKind[kind];
+}
+
+/**
+ * Carga un elemento de la jerarquía.
+ * @throws ContentNotFoundError si no existe.
+ */
+export async function loadContent(
+  repositories: ContentRepositories,
+  kind: ContentKind,
+  id: string
+): Promise<AnyContent> {
+  const content =
+    kind === 'course'
+      ? await repositories.courseRepository.findById(id)
+      : await nodeRepositoryOf(repositories, kind).findById(id);
+  if (!content) {
+    throw new ContentNotFoundError(kind, id);
+  }
+  return content;
+}
+
+/**
+ * Busca el curso al que pertenece un elemento subiendo por sus contenedores.
+ * @throws ContentNotFoundError si falta alguno (borrado concurrente).
+ */
+export async function courseOf(
+  repositories: ContentRepositories,
+  content: AnyContent
+): Promise<Course> {
+  let current = content;
+  while (!(current instanceof Course)) {
+    current = await loadContent(
+      repositories,
+      parentKindOf(current.kind),
+      current.parentId
+    );
+  }
+  return current;
+}
+
+/**
+ * Crea (sin guardar) un elemento dentro de su contenedor, que tiene que ser
+ * del tipo inmediatamente superior.
+ */
+export function buildContentNode(
+  kind: ChildContentKind,
+  parent: AnyContent,
+  data: NewContentNode,
+  siblings: readonly AnyContentNode[],
+  now: Date
+): AnyContentNode {
+  // Los hermanos salen del repositorio de `kind`, así que son de ese tipo
+  switch (kind) {
+    case 'level':
+      return Level.create(parent as Course, data, siblings as Level[], now);
+    case 'section':
+      return Section.create(parent as Level, data, siblings as Section[], now);
+    case 'module':
+      return Module.create(parent as Section, data, siblings as Module[], now);
+    case 'lesson':
+      return Lesson.create(parent as Module, data, siblings as Lesson[], now);
+  }
+}
+
+/**
+ * Comprueba que el cliente editó la versión actual del elemento.
+ * @throws ContentVersionConflictError si se ha guardado otra desde entonces.
+ */
+export function assertVersion(
+  kind: VersionedKind,
+  content: { id: string; version: number },
+  version: number
+): void {
+  if (content.version !== version) {
+    throw new ContentVersionConflictError(kind, content.id, version);
+  }
+}
+
+export function kindOf(content: AnyContent): ContentKind {
+  return content instanceof Course ? 'course' : content.kind;
+}
+
+/**
+ * Guarda un elemento sin cambios para subir su versión (touch): lo usan las
+ * operaciones que cambian lo que contiene.
+ * @throws ContentVersionConflictError si se ha guardado otra versión.
+ * @throws ContentNotFoundError si ya no existe.
+ */
+export async function touchContent(
+  repositories: ContentRepositories,
+  content: AnyContent,
+  now: Date
+): Promise<AnyContent> {
+  const saved =
+    content instanceof Course
+      ? await repositories.courseRepository.update(content.touch(now))
+      : await nodeRepositoryOf(repositories, content.kind).update(
+          content.touch(now)
+        );
+  if (!saved) {
+    throw new ContentNotFoundError(kindOf(content), content.id);
+  }
+  return saved;
+}
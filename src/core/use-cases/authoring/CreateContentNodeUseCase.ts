@@ -0,0 +1,82 @@
+// src/core/use-cases/authoring/CreateContentNodeUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import {
+  ChildContentKind,
+  parentKindOf,
+} from '@/core/domain/services/ContentHierarchy';
+import { OrphanContentError } from '@/core/domain/errors/ContentHierarchyErrors';
+import {
+  ContentRepositories,
+  IUnitOfWork,
+} from '@/core/interfaces/repositories/IUnitOfWork';
+import { ContentNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import {
+  AnyContent,
+  AnyContentNode,
+  buildContentNode,
+  loadContent,
+  nodeRepositoryOf,
+} from './ContentNodes';
+import { buildFields, optional } from './ContentFields';
+
+export interface CreateContentNodeInput {
+  actor: User;
+  kind: ChildContentKind;
+  parentId: string; // Contenedor: el curso de un nivel, el nivel de una sección...
+  title: string;
+  position?: number; // Opcional - por defecto, detrás del último hermano
+}
+
+/**
+ * Caso de uso de creación de un nivel, sección, módulo o lección dentro de
+ * su contenedor.
+ */
+export class CreateContentNodeUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: CreateContentNodeInput): Promise<AnyContentNode> {
+    const fields = buildFields('Datos del contenido inválidos', {
+      title: () => new ContentTitle(input.title),
+      position: () =>
+        optional(input.position, (position) => new Position(position)),
+    });
+
+    return this.unitOfWork.run(async (repositories) => {
+      const parent = await this.loadParent(repositories, input);
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        parent
+      );
+
+      const repository = nodeRepositoryOf(repositories, input.kind);
+      const node = buildContentNode(
+        input.kind,
+        parent,
+        fields,
+        await repository.findByParentId(parent.id),
+        new Date()
+      );
+      await repository.create(node);
+      return node;
+    });
+  }
+
+  private async loadParent(
+    repositories: ContentRepositories,
+    input: CreateContentNodeInput
+  ): Promise<AnyContent> {
+    const parentKind = parentKindOf(input.kind);
+    try {
+      return await loadContent(repositories, parentKind, input.parentId);
+    } catch (error) {
+      if (error instanceof ContentNotFoundError) {
+        throw new OrphanContentError(input.kind, parentKind, input.parentId);
+      }
+      throw error;
+    }
+  }
+}
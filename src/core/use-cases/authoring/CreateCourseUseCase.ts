@@ -0,0 +1,42 @@
+// src/core/use-cases/authoring/CreateCourseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { Slug } from '@/core/domain/value-objects/Slug';
+import { ICourseRepository } from '@/core/interfaces/repositories/ICourseRepository';
+import { buildFields, optional } from './ContentFields';
+
+export interface CreateCourseInput {
+  actor: User; // Creador de contenido; pasa a ser el propietario
+  title: string;
+  slug?: string; // Opcional - por defecto se genera a partir del título
+  description?: string | null;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * Caso de uso de creación de un curso. Quien lo crea es su propietario.
+ */
+export class CreateCourseUseCase {
+  constructor(private readonly courseRepository: ICourseRepository) {}
+
+  async execute(input: CreateCourseInput): Promise<Course> {
+    const fields = buildFields('Datos del curso inválidos', {
+      title: () => new ContentTitle(input.title),
+      slug: () => optional(input.slug, (slug) => new Slug(slug)),
+      languagePair: () =>
+        LanguagePair.of(input.sourceLanguage, input.targetLanguage),
+    });
+
+    const course = Course.create({
+      ...fields,
+      description: input.description,
+      ownerId: input.actor.id,
+    });
+    await this.courseRepository.create(course);
+    return course;
+  }
+}
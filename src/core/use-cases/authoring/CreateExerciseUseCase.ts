@@ -0,0 +1,27 @@
+// src/core/use-cases/authoring/CreateExerciseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { IExerciseRepository } from '@/core/interfaces/repositories/IExerciseRepository';
+
+export interface CreateExerciseInput {
+  actor: User; // Creador de contenido; pasa a ser el propietario
+  payload: unknown; // Se valida con el esquema de su tipo (ExercisePayload)
+}
+
+/**
+ * Caso de uso de creación de un ejercicio. Nace suelto: se añade a las
+ * lecciones con AttachExerciseUseCase.
+ */
+export class CreateExerciseUseCase {
+  constructor(private readonly exerciseRepository: IExerciseRepository) {}
+
+  async execute(input: CreateExerciseInput): Promise<Exercise> {
+    const exercise = Exercise.create(ExercisePayload.create(input.payload), {
+      ownerId: input.actor.id,
+    });
+    await this.exerciseRepository.create(exercise);
+    return exercise;
+  }
+}
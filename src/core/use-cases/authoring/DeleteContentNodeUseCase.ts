@@ -0,0 +1,42 @@
+// src/core/use-cases/authoring/DeleteContentNodeUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { ChildContentKind } from '@/core/domain/services/ContentHierarchy';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import {
+  assertVersion,
+  loadContent,
+  nodeRepositoryOf,
+  touchContent,
+} from './ContentNodes';
+import { assertNotPublished } from './Publications';
+
+export interface DeleteContentNodeInput {
+  actor: User;
+  kind: ChildContentKind;
+  id: string;
+  version: number; // Versión del elemento que se vio antes de borrarlo
+}
+
+/**
+ * Caso de uso de borrado de un nivel, sección, módulo o lección con todo lo
+ * que contiene. Como en DeleteCourseUseCase, se guarda antes sin cambios
+ * para no borrar algo que otro editor acaba de cambiar, y las lecciones que
+ * ven los alumnos hay que archivarlas antes.
+ */
+export class DeleteContentNodeUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: DeleteContentNodeInput): Promise<void> {
+    await this.unitOfWork.run(async (repositories) => {
+      const node = await loadContent(repositories, input.kind, input.id);
+      await new AuthoringAccess(repositories).assertCanEdit(input.actor, node);
+      assertVersion(input.kind, node, input.version);
+      await assertNotPublished(repositories, node);
+
+      await touchContent(repositories, node, new Date());
+      await nodeRepositoryOf(repositories, input.kind).delete(input.id);
+    });
+  }
+}
@@ -0,0 +1,44 @@
+// src/core/use-cases/authoring/DeleteCourseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion, loadContent, touchContent } from './ContentNodes';
+import { assertNotPublished } from './Publications';
+
+export interface DeleteCourseInput {
+  actor: User; // Propietario del curso o administrador
+  courseId: string;
+  version: number; // Versión del curso que se vio antes de borrarlo
+}
+
+/**
+ * Caso de uso de borrado de un curso con todo su contenido. Un curso que ven
+ * los alumnos hay que archivarlo antes.
+ *
+ * Antes de borrar se guarda el curso sin cambios (touch): si otro editor
+ * guardó algo a la vez, la versión no coincide y no se borra nada.
+ */
+export class DeleteCourseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: DeleteCourseInput): Promise<void> {
+    await this.unitOfWork.run(async (repositories) => {
+      const course = (await loadContent(
+        repositories,
+        'course',
+        input.courseId
+      )) as Course;
+      new AuthoringAccess(repositories).assertCanManageCourse(
+        input.actor,
+        course
+      );
+      assertVersion('course', course, input.version);
+      await assertNotPublished(repositories, course);
+
+      await touchContent(repositories, course, new Date());
+      await repositories.courseRepository.delete(course.id);
+    });
+  }
+}
@@ -0,0 +1,43 @@
+// src/core/use-cases/authoring/DeleteExerciseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ExerciseNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion } from './ContentNodes';
+
+export interface DeleteExerciseInput {
+  actor: User;
+  exerciseId: string;
+  version: number; // Versión del ejercicio que se vio antes de borrarlo
+}
+
+/**
+ * Caso de uso de borrado de un ejercicio: desaparece de todas las lecciones
+ * que lo usan. Como en DeleteCourseUseCase, se guarda antes sin cambios para
+ * no borrar algo que otro editor acaba de cambiar.
+ */
+export class DeleteExerciseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: DeleteExerciseInput): Promise<void> {
+    await this.unitOfWork.run(async (repositories) => {
+      const exercise = await repositories.exerciseRepository.findById(
+        input.exerciseId
+      );
+      if (!exercise) {
+        throw new ExerciseNotFoundError(input.exerciseId);
+      }
+      await new AuthoringAccess(repositories).assertCanEditExercise(
+        input.actor,
+        exercise
+      );
+      assertVersion('exercise', exercise, input.version);
+
+      if (!(await repositories.exerciseRepository.update(exercise.touch()))) {
+        throw new ExerciseNotFoundError(input.exerciseId);
+      }
+      await repositories.exerciseRepository.delete(exercise.id);
+    });
+  }
+}
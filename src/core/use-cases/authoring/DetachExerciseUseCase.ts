@@ -0,0 +1,55 @@
+// src/core/use-cases/authoring/DetachExerciseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion, loadContent, touchContent } from './ContentNodes';
+import { LessonExercises } from './AttachExerciseUseCase';
+
+export interface DetachExerciseInput {
+  actor: User;
+  lessonId: string;
+  version: number; // Versión de la lección que se editó
+  exerciseId: string;
+}
+
+/**
+ * Caso de uso para quitar un ejercicio de una lección sin borrarlo. Quitar
+ * uno que no está no falla, pero sube igualmente la versión de la lección.
+ */
+export class DetachExerciseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: DetachExerciseInput): Promise<LessonExercises> {
+    return this.unitOfWork.run(async (repositories) => {
+      const lesson = (await loadContent(
+        repositories,
+        'lesson',
+        input.lessonId
+      )) as Lesson;
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        lesson
+      );
+      assertVersion('lesson', lesson, input.version);
+
+      const saved = (await touchContent(
+        repositories,
+        lesson,
+        new Date()
+      )) as Lesson;
+      await repositories.lessonExerciseRepository.detach(
+        lesson.id,
+        input.exerciseId
+      );
+
+      return {
+        lesson: saved,
+        exercises: await repositories.lessonExerciseRepository.findByLessonId(
+          lesson.id
+        ),
+      };
+    });
+  }
+}
@@ -0,0 +1,124 @@
+// src/core/use-cases/authoring/GetCourseOutlineUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import {
+  ContentRepositories,
+  IUnitOfWork,
+} from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { loadContent } from './ContentNodes';
+
+export interface GetCourseOutlineInput {
+  actor: User;
+  courseId: string;
+}
+
+export interface LessonOutline {
+  lesson: Lesson;
+  exercises: LessonExercise[];
+}
+
+export interface ModuleOutline {
+  module: Module;
+  lessons: LessonOutline[];
+}
+
+export interface SectionOutline {
+  section: Section;
+  modules: ModuleOutline[];
+}
+
+export interface LevelOutline {
+  level: Level;
+  sections: SectionOutline[];
+}
+
+/**
+ * Curso completo tal como lo edita su autor: cada elemento con su versión,
+ * en orden, y los ejercicios de cada lección
+ */
+export interface CourseOutline {
+  course: Course;
+  collaboratorIds: string[];
+  levels: LevelOutline[];
+}
+
+/**
+ * Caso de uso de lectura de un curso para editarlo.
+ *
+ * Lee todo dentro de una unidad de trabajo para que el árbol (y las
+ * versiones que el editor devolverá en sus cambios) sea coherente.
+ */
+export class GetCourseOutlineUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: GetCourseOutlineInput): Promise<CourseOutline> {
+    return this.unitOfWork.run(async (repositories) => {
+      const course = (await loadContent(
+        repositories,
+        'course',
+        input.courseId
+      )) as Course;
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        course
+      );
+
+      return {
+        course,
+        collaboratorIds:
+          await repositories.courseCollaboratorRepository.findUserIdsByCourseId(
+            course.id
+          ),
+        levels: await loadCourseLevels(repositories, course),
+      };
+    });
+  }
+}
+
+/**
+ * Lee el árbol de un curso en orden, con los ejercicios de cada lección.
+ * Lo usan también los casos de uso de publicación.
+ */
+export async function loadCourseLevels(
+  repositories: ContentRepositories,
+  course: Course
+): Promise<LevelOutline[]> {
+  const outline: LevelOutline[] = [];
+  for (const level of await repositories.levelRepository.findByParentId(
+    course.id
+  )) {
+    const sections: SectionOutline[] = [];
+    for (const section of await repositories.sectionRepository.findByParentId(
+      level.id
+    )) {
+      const modules: ModuleOutline[] = [];
+      for (const module of await repositories.moduleRepository.findByParentId(
+        section.id
+      )) {
+        const lessons: LessonOutline[] = [];
+        for (const lesson of await repositories.lessonRepository.findByParentId(
+          module.id
+        )) {
+          lessons.push({
+            lesson,
+            exercises:
+              await repositories.lessonExerciseRepository.findByLessonId(
+                lesson.id
+              ),
+          });
+        }
+        modules.push({ module, lessons });
+      }
+      sections.push({ section, modules });
+    }
+    outline.push({ level, sections });
+  }
+  return outline;
+}
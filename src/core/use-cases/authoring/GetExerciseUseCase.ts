@@ -0,0 +1,35 @@
+// src/core/use-cases/authoring/GetExerciseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ExerciseNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+
+export interface GetExerciseInput {
+  actor: User;
+  exerciseId: string;
+}
+
+/**
+ * Caso de uso de lectura de un ejercicio para editarlo o reutilizarlo
+ */
+export class GetExerciseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: GetExerciseInput): Promise<Exercise> {
+    return this.unitOfWork.run(async (repositories) => {
+      const exercise = await repositories.exerciseRepository.findById(
+        input.exerciseId
+      );
+      if (!exercise) {
+        throw new ExerciseNotFoundError(input.exerciseId);
+      }
+      await new AuthoringAccess(repositories).assertCanViewExercise(
+        input.actor,
+        exercise
+      );
+      return exercise;
+    });
+  }
+}
@@ -0,0 +1,64 @@
+// src/core/use-cases/authoring/GetPublicationUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublishedSnapshot } from '@/core/domain/entities/PublishedSnapshot';
+import { PublicationHistoryEntry } from '@/core/domain/entities/PublicationHistoryEntry';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { loadPublicationTarget } from './Publications';
+
+export interface GetPublicationInput {
+  actor: User;
+  kind: PublishableKind;
+  contentId: string;
+}
+
+/**
+ * Estado de publicación de un curso o una lección: la revisión pendiente,
+ * todas sus instantáneas y el historial (lo más reciente primero)
+ */
+export interface PublicationDetails {
+  publication: Publication;
+  snapshots: PublishedSnapshot[];
+  history: PublicationHistoryEntry[];
+}
+
+/**
+ * Caso de uso de lectura de la publicación de un curso o una lección para
+ * quienes pueden editarlo. El contenido que nunca se envió a revisar
+ * aparece en borrador, con versión 0 y sin instantáneas.
+ */
+export class GetPublicationUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: GetPublicationInput): Promise<PublicationDetails> {
+    return this.unitOfWork.run(async (repositories) => {
+      const { content, publication } = await loadPublicationTarget(
+        repositories,
+        input.kind,
+        input.contentId
+      );
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        content
+      );
+
+      if (!publication.isStored()) {
+        return { publication, snapshots: [], history: [] };
+      }
+      return {
+        publication,
+        snapshots: await repositories.publicationRepository.findSnapshots(
+          publication.id
+        ),
+        history: await repositories.publicationRepository.findHistory(
+          publication.id
+        ),
+      };
+    });
+  }
+}
@@ -0,0 +1,22 @@
+// src/core/use-cases/authoring/ListEditableCoursesUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { ICourseRepository } from '@/core/interfaces/repositories/ICourseRepository';
+
+/**
+ * Lista los cursos que un usuario puede editar: todos si es administrador;
+ * si no, los suyos y aquellos en los que colabora (ver AuthoringAccess).
+ */
+export class ListEditableCoursesUseCase {
+  constructor(private readonly courseRepository: ICourseRepository) {}
+
+  async execute(actor: User): Promise<Course[]> {
+    if (!actor.canCreateContent()) {
+      return [];
+    }
+    return actor.hasAdminPrivileges()
+      ? this.courseRepository.findAll()
+      : this.courseRepository.findEditableBy(actor.id);
+  }
+}
@@ -0,0 +1,23 @@
+// src/core/use-cases/authoring/ListPendingReviewsUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Publication } from '@/core/domain/entities/Publication';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { PublicationReviewForbiddenError } from './AuthoringErrors';
+
+/**
+ * Lista las publicaciones pendientes de revisión, las más antiguas primero.
+ * Solo para administradores, que son quienes las revisan.
+ */
+export class ListPendingReviewsUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(actor: User): Promise<Publication[]> {
+    if (!actor.hasAdminPrivileges()) {
+      throw new PublicationReviewForbiddenError();
+    }
+    return this.unitOfWork.run((repositories) =>
+      repositories.publicationRepository.findByStatus('in_review')
+    );
+  }
+}
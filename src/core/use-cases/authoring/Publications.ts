@@ -0,0 +1,190 @@
+// src/core/use-cases/authoring/Publications.ts
+
+import { ContentRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ExerciseNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { childKindOf } from '@/core/domain/services/ContentHierarchy';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import {
+  PublishedCourseDocument,
+  PublishedDocument,
+  PublishedLessonDocument,
+} from '@/core/domain/entities/PublishedSnapshot';
+import { Course } from '@/core/domain/entities/Course';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { PublishedContentDeletionError } from './AuthoringErrors';
+import {
+  AnyContent,
+  courseOf,
+  kindOf,
+  loadContent,
+  nodeRepositoryOf,
+} from './ContentNodes';
+import { loadCourseLevels } from './GetCourseOutlineUseCase';
+
+/**
+ * Apoyo de los casos de uso de publicación: cargar la publicación de un
+ * curso o una lección, copiar su contenido actual para enviarlo a revisar y
+ * proteger lo publicado de los borrados de la copia de trabajo
+ */
+
+export interface PublicationTarget {
+  content: Course | Lesson;
+  // Sin guardar (version 0) si el contenido nunca se envió a revisar
+  publication: Publication;
+}
+
+/**
+ * Carga un curso o una lección y su publicación.
+ * @throws ContentNotFoundError si el contenido no existe.
+ */
+export async function loadPublicationTarget(
+  repositories: ContentRepositories,
+  kind: PublishableKind,
+  contentId: string
+): Promise<PublicationTarget> {
+  // `kind` decide el tipo del contenido que se carga
+  const content = (await loadContent(repositories, kind, contentId)) as
+    Course | Lesson;
+  const publication =
+    (await repositories.publicationRepository.findByContent(
+      kind,
+      content.id
+    )) ?? Publication.start(kind, content.id);
+  return { content, publication };
+}
+
+/**
+ * Copia el contenido actual de un curso (su índice) o de una lección (sus
+ * ejercicios) para publicarlo.
+ * @throws ExerciseNotFoundError si se borra un ejercicio mientras se copia.
+ */
+export async function buildPublishedDocument(
+  repositories: ContentRepositories,
+  content: Course | Lesson
+): Promise<PublishedDocument> {
+  return content instanceof Course
+    ? buildCourseDocument(repositories, content)
+    : buildLessonDocument(repositories, content);
+}
+
+/**
+ * Comprueba que borrar un elemento (con todo lo que contiene) no quita nada
+ * a los alumnos: las publicaciones se borran con su curso o lección. Los
+ * alumnos ven un curso publicado y sus lecciones publicadas; en un curso
+ * que no se ve, todo se puede borrar.
+ * @throws PublishedContentDeletionError si hay que archivar algo antes.
+ */
+export async function assertNotPublished(
+  repositories: ContentRepositories,
+  content: AnyContent
+): Promise<void> {
+  const course =
+    content instanceof Course ? content : await courseOf(repositories, content);
+  if (!(await isLive(repositories, 'course', course.id))) {
+    return;
+  }
+  if (
+    content instanceof Course ||
+    (await containsLiveLesson(repositories, content))
+  ) {
+    throw new PublishedContentDeletionError(kindOf(content), content.id);
+  }
+}
+
+async function containsLiveLesson(
+  repositories: ContentRepositories,
+  content: AnyContent
+): Promise<boolean> {
+  const childKind = childKindOf(kindOf(content));
+  if (!childKind) {
+    // Solo la lección no contiene otros elementos
+    return isLive(repositories, 'lesson', content.id);
+  }
+  const children = await nodeRepositoryOf(
+    repositories,
+    childKind
+  ).findByParentId(content.id);
+  for (const child of children) {
+    if (await containsLiveLesson(repositories, child)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function isLive(
+  repositories: ContentRepositories,
+  kind: PublishableKind,
+  contentId: string
+): Promise<boolean> {
+  const publication = await repositories.publicationRepository.findByContent(
+    kind,
+    contentId
+  );
+  return publication?.isLive() ?? false;
+}
+
+async function buildCourseDocument(
+  repositories: ContentRepositories,
+  course: Course
+): Promise<PublishedCourseDocument> {
+  const levels = await loadCourseLevels(repositories, course);
+  return {
+    kind: 'course',
+    id: course.id,
+    slug: course.slug.value,
+    title: course.title.value,
+    description: course.description,
+    sourceLanguage: course.languagePair.source.value,
+    targetLanguage: course.languagePair.target.value,
+    levels: levels.map(({ level, sections }) => ({
+      id: level.id,
+      title: level.title.value,
+      sections: sections.map(({ section, modules }) => ({
+        id: section.id,
+        title: section.title.value,
+        modules: modules.map(({ module, lessons }) => ({
+          id: module.id,
+          title: module.title.value,
+          lessons: lessons.map(({ lesson }) => ({
+            id: lesson.id,
+            title: lesson.title.value,
+          })),
+        })),
+      })),
+    })),
+  };
+}
+
+async function buildLessonDocument(
+  repositories: ContentRepositories,
+  lesson: Lesson
+): Promise<PublishedLessonDocument> {
+  const links = await repositories.lessonExerciseRepository.findByLessonId(
+    lesson.id
+  );
+  const exercises = [];
+  for (const link of links) {
+    const exercise = await repositories.exerciseRepository.findById(
+      link.exerciseId
+    );
+    if (!exercise) {
+      throw new ExerciseNotFoundError(link.exerciseId);
+    }
+    exercises.push({
+      id: exercise.id,
+      schemaVersion: exercise.payload.version,
+      payload: exercise.payload.data,
+    });
+  }
+  return {
+    kind: 'lesson',
+    id: lesson.id,
+    courseId: (await courseOf(repositories, lesson)).id,
+    title: lesson.title.value,
+    exercises,
+  };
+}
@@ -0,0 +1,38 @@
+// src/core/use-cases/authoring/RemoveCourseCollaboratorUseCase.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { loadContent } from './ContentNodes';
+import { CourseCollaboratorInput } from './AddCourseCollaboratorUseCase';
+
+/**
+ * Caso de uso de baja de un colaborador de un curso. Quitar a quien no
+ * colabora no falla.
+ * @returns Los colaboradores que quedan.
+ */
+export class RemoveCourseCollaboratorUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: CourseCollaboratorInput): Promise<string[]> {
+    return this.unitOfWork.run(async (repositories) => {
+      const course = (await loadContent(
+        repositories,
+        'course',
+        input.courseId
+      )) as Course;
+      new AuthoringAccess(repositories).assertCanManageCourse(
+        input.actor,
+        course
+      );
+
+      await repositories.courseCollaboratorRepository.remove(
+        course.id,
+        input.userId
+      );
+      return repositories.courseCollaboratorRepository.findUserIdsByCourseId(
+        course.id
+      );
+    });
+  }
+}
@@ -0,0 +1,69 @@
+// src/core/use-cases/authoring/ReorderContentUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  childKindOf,
+  ContentKind,
+  OrderedSibling,
+} from '@/core/domain/services/ContentHierarchy';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import {
+  AnyContent,
+  assertVersion,
+  loadContent,
+  nodeRepositoryOf,
+  touchContent,
+} from './ContentNodes';
+
+export interface ReorderContentInput {
+  actor: User;
+  kind: ContentKind; // Tipo del contenedor que se reordena
+  id: string;
+  version: number; // Versión del contenedor cuyo orden se editó
+  orderedIds: string[]; // Todos sus hijos (o ejercicios, en una lección)
+}
+
+export interface ReorderContentResult {
+  container: AnyContent; // Con la nueva versión
+  items: OrderedSibling[]; // En su nuevo orden
+}
+
+/**
+ * Caso de uso de reordenación de lo que contiene un elemento: los niveles
+ * de un curso, las secciones de un nivel... o los ejercicios de una lección.
+ *
+ * El orden pertenece al contenedor: se guarda sin cambios (touch) con la
+ * versión que se editó y se reordena en la misma unidad de trabajo, así que
+ * o cambian todas las posiciones o ninguna, y dos reordenaciones
+ * simultáneas no se pisan.
+ */
+export class ReorderContentUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: ReorderContentInput): Promise<ReorderContentResult> {
+    return this.unitOfWork.run(async (repositories) => {
+      const container = await loadContent(repositories, input.kind, input.id);
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        container
+      );
+      assertVersion(input.kind, container, input.version);
+
+      const now = new Date();
+      const saved = await touchContent(repositories, container, now);
+      const childKind = childKindOf(input.kind);
+      const items = childKind
+        ? await nodeRepositoryOf(repositories, childKind).reorder(
+            container.id,
+            input.orderedIds,
+            now
+          )
+        : await repositories.lessonExerciseRepository.reorder(
+            container.id,
+            input.orderedIds
+          );
+      return { container: saved, items };
+    });
+  }
+}
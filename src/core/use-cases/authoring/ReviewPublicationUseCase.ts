@@ -0,0 +1,62 @@
+// src/core/use-cases/authoring/ReviewPublicationUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { ReviewComment } from '@/core/domain/value-objects/ReviewComment';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { PublicationReviewForbiddenError } from './AuthoringErrors';
+import { assertVersion } from './ContentNodes';
+import { buildFields, optional } from './ContentFields';
+import { loadPublicationTarget } from './Publications';
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ReviewPublicationInput {
+  actor: User;
+  kind: PublishableKind;
+  contentId: string;
+  version: number; // Versión de la publicación que se revisó
+  decision: ReviewDecision;
+  comment?: string; // Obligatorio al rechazar
+}
+
+/**
+ * Caso de uso de revisión: un administrador aprueba la versión enviada
+ * (se publica como una instantánea nueva) o la rechaza explicando por qué
+ * (vuelve a borrador y lo publicado sigue visible).
+ */
+export class ReviewPublicationUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: ReviewPublicationInput): Promise<Publication> {
+    if (!input.actor.hasAdminPrivileges()) {
+      throw new PublicationReviewForbiddenError();
+    }
+    const { comment } = buildFields('Revisión inválida', {
+      comment: () =>
+        input.decision === 'reject'
+          ? new ReviewComment(input.comment ?? '')
+          : (optional(input.comment, (text) => new ReviewComment(text)) ??
+            null),
+    });
+
+    return this.unitOfWork.run(async (repositories) => {
+      const { publication } = await loadPublicationTarget(
+        repositories,
+        input.kind,
+        input.contentId
+      );
+      assertVersion('publication', publication, input.version);
+
+      return repositories.publicationRepository.save(
+        input.decision === 'approve'
+          ? publication.approve(input.actor.id, comment)
+          : // Al rechazar, buildFields ya exigió el comentario
+            publication.reject(input.actor.id, comment as ReviewComment)
+      );
+    });
+  }
+}
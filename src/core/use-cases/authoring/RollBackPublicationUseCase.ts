@@ -0,0 +1,55 @@
+// src/core/use-cases/authoring/RollBackPublicationUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { ReviewComment } from '@/core/domain/value-objects/ReviewComment';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion, courseOf } from './ContentNodes';
+import { buildFields, optional } from './ContentFields';
+import { loadPublicationTarget } from './Publications';
+
+export interface RollBackPublicationInput {
+  actor: User;
+  kind: PublishableKind;
+  contentId: string;
+  version: number; // Versión de la publicación
+  snapshotNumber: number; // Instantánea que se vuelve a publicar
+  comment?: string;
+}
+
+/**
+ * Caso de uso de vuelta atrás: vuelve a publicar una instantánea anterior
+ * sin pasar por revisión, porque ya se aprobó en su día. Solo pueden el
+ * propietario del curso y los administradores.
+ */
+export class RollBackPublicationUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: RollBackPublicationInput): Promise<Publication> {
+    const { comment } = buildFields('Datos inválidos', {
+      comment: () =>
+        optional(input.comment, (text) => new ReviewComment(text)) ?? null,
+    });
+
+    return this.unitOfWork.run(async (repositories) => {
+      const { content, publication } = await loadPublicationTarget(
+        repositories,
+        input.kind,
+        input.contentId
+      );
+      new AuthoringAccess(repositories).assertCanManageCourse(
+        input.actor,
+        await courseOf(repositories, content)
+      );
+      assertVersion('publication', publication, input.version);
+
+      return repositories.publicationRepository.save(
+        publication.rollBackTo(input.snapshotNumber, input.actor.id, comment)
+      );
+    });
+  }
+}
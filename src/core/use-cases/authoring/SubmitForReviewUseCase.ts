@@ -0,0 +1,48 @@
+// src/core/use-cases/authoring/SubmitForReviewUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion } from './ContentNodes';
+import { buildPublishedDocument, loadPublicationTarget } from './Publications';
+
+export interface SubmitForReviewInput {
+  actor: User;
+  kind: PublishableKind;
+  contentId: string;
+  version: number; // Versión de la publicación (0 si nunca se envió)
+}
+
+/**
+ * Caso de uso de envío a revisión: copia el contenido tal como está ahora
+ * (el índice del curso o los ejercicios de la lección) y lo deja pendiente
+ * de que un administrador lo apruebe. Lo publicado sigue visible mientras
+ * tanto.
+ */
+export class SubmitForReviewUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: SubmitForReviewInput): Promise<Publication> {
+    return this.unitOfWork.run(async (repositories) => {
+      const { content, publication } = await loadPublicationTarget(
+        repositories,
+        input.kind,
+        input.contentId
+      );
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        content
+      );
+      assertVersion('publication', publication, input.version);
+
+      const document = await buildPublishedDocument(repositories, content);
+      return repositories.publicationRepository.save(
+        publication.submit(document, content.version, input.actor.id)
+      );
+    });
+  }
+}
@@ -0,0 +1,70 @@
+// src/core/use-cases/authoring/UpdateContentNodeUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+import { ChildContentKind } from '@/core/domain/services/ContentHierarchy';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ContentNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import {
+  AnyContentNode,
+  assertVersion,
+  loadContent,
+  nodeRepositoryOf,
+} from './ContentNodes';
+import { buildFields, optional } from './ContentFields';
+
+export interface UpdateContentNodeInput {
+  actor: User;
+  kind: ChildContentKind;
+  id: string;
+  version: number; // Versión del elemento que se editó
+  title?: string;
+  position?: number; // Tiene que estar libre; para intercambiar, reordenar
+}
+
+/**
+ * Caso de uso de edición de un nivel, sección, módulo o lección: cambiar su
+ * título o moverlo a una posición libre de su contenedor.
+ */
+export class UpdateContentNodeUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: UpdateContentNodeInput): Promise<AnyContentNode> {
+    const changes = buildFields('Datos del contenido inválidos', {
+      title: () => optional(input.title, (title) => new ContentTitle(title)),
+      position: () =>
+        optional(input.position, (position) => new Position(position)),
+    });
+
+    return this.unitOfWork.run(async (repositories) => {
+      const repository = nodeRepositoryOf(repositories, input.kind);
+      const node = (await loadContent(
+        repositories,
+        input.kind,
+        input.id
+      )) as AnyContentNode;
+      await new AuthoringAccess(repositories).assertCanEdit(input.actor, node);
+      assertVersion(input.kind, node, input.version);
+
+      const now = new Date();
+      let changed: AnyContentNode = changes.title
+        ? node.rename(changes.title, now)
+        : node;
+      if (changes.position && !changes.position.equals(node.position)) {
+        changed = changed.moveTo(
+          changes.position,
+          await repository.findByParentId(node.parentId),
+          now
+        );
+      }
+
+      const saved = await repository.update(changed);
+      if (!saved) {
+        throw new ContentNotFoundError(input.kind, input.id);
+      }
+      return saved;
+    });
+  }
+}
@@ -0,0 +1,62 @@
+// src/core/use-cases/authoring/UpdateCourseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { Slug } from '@/core/domain/value-objects/Slug';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ContentNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion, loadContent } from './ContentNodes';
+import { buildFields, optional } from './ContentFields';
+
+export interface UpdateCourseInput {
+  actor: User;
+  courseId: string;
+  version: number; // Versión del curso que se editó
+  title?: string;
+  slug?: string;
+  description?: string | null;
+  languages?: { source: string; target: string };
+}
+
+/**
+ * Caso de uso de edición de los datos de un curso (título, slug,
+ * descripción e idiomas).
+ */
+export class UpdateCourseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: UpdateCourseInput): Promise<Course> {
+    const changes = buildFields('Datos del curso inválidos', {
+      title: () => optional(input.title, (title) => new ContentTitle(title)),
+      slug: () => optional(input.slug, (slug) => new Slug(slug)),
+      languagePair: () =>
+        optional(input.languages, ({ source, target }) =>
+          LanguagePair.of(source, target)
+        ),
+    });
+
+    return this.unitOfWork.run(async (repositories) => {
+      const course = (await loadContent(
+        repositories,
+        'course',
+        input.courseId
+      )) as Course;
+      await new AuthoringAccess(repositories).assertCanEdit(
+        input.actor,
+        course
+      );
+      assertVersion('course', course, input.version);
+
+      const saved = await repositories.courseRepository.update(
+        course.update({ ...changes, description: input.description })
+      );
+      if (!saved) {
+        throw new ContentNotFoundError('course', course.id);
+      }
+      return saved;
+    });
+  }
+}
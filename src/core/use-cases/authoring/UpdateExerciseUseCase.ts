@@ -0,0 +1,50 @@
+// src/core/use-cases/authoring/UpdateExerciseUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { ExerciseNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { AuthoringAccess } from './AuthoringAccess';
+import { assertVersion } from './ContentNodes';
+
+export interface UpdateExerciseInput {
+  actor: User;
+  exerciseId: string;
+  version: number; // Versión del ejercicio que se editó
+  payload: unknown; // Contenido nuevo; puede cambiar de tipo
+}
+
+/**
+ * Caso de uso de edición del contenido de un ejercicio. El cambio llega a
+ * todas las lecciones que lo usan.
+ */
+export class UpdateExerciseUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: UpdateExerciseInput): Promise<Exercise> {
+    const payload = ExercisePayload.create(input.payload);
+
+    return this.unitOfWork.run(async (repositories) => {
+      const exercise = await repositories.exerciseRepository.findById(
+        input.exerciseId
+      );
+      if (!exercise) {
+        throw new ExerciseNotFoundError(input.exerciseId);
+      }
+      await new AuthoringAccess(repositories).assertCanEditExercise(
+        input.actor,
+        exercise
+      );
+      assertVersion('exercise', exercise, input.version);
+
+      const saved = await repositories.exerciseRepository.update(
+        exercise.withPayload(payload)
+      );
+      if (!saved) {
+        throw new ExerciseNotFoundError(input.exerciseId);
+      }
+      return saved;
+    });
+  }
+}
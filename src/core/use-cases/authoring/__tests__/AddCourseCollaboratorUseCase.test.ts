@@ -0,0 +1,70 @@
+// src/core/use-cases/authoring/__tests__/AddCourseCollaboratorUseCase.test.ts
+
+import { AddCourseCollaboratorUseCase } from '@/core/use-cases/authoring/AddCourseCollaboratorUseCase';
+import {
+  ContentAccessDeniedError,
+  InvalidCollaboratorError,
+} from '@/core/use-cases/authoring/AuthoringErrors';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { AuthoringTestBed } from './AuthoringTestBed';
+
+describe('AddCourseCollaboratorUseCase', () => {
+  let bed: AuthoringTestBed;
+  let owner: User;
+  let useCase: AddCourseCollaboratorUseCase;
+
+  beforeEach(async () => {
+    bed = new AuthoringTestBed();
+    owner = await bed.createUser('owner', 'content_creator');
+    useCase = new AddCourseCollaboratorUseCase(bed.unitOfWork);
+  });
+
+  it('debería añadir a un creador de contenido como colaborador', async () => {
+    const { course } = await bed.createTree(owner);
+    const creator = await bed.createUser('creator', 'content_creator');
+
+    const collaborators = await useCase.execute({
+      actor: owner,
+      courseId: course.id,
+      userId: creator.id,
+    });
+
+    expect(collaborators).toEqual([creator.id]);
+  });
+
+  it('debería rechazar como colaborador a un estudiante o a un usuario inexistente', async () => {
+    const { course } = await bed.createTree(owner);
+    const student = await bed.createUser('student', 'student');
+
+    await expect(
+      useCase.execute({ actor: owner, courseId: course.id, userId: student.id })
+    ).rejects.toThrow(InvalidCollaboratorError);
+    await expect(
+      useCase.execute({
+        actor: owner,
+        courseId: course.id,
+        userId: '00000000-0000-4000-8000-000000000000',
+      })
+    ).rejects.toThrow(UserNotFoundError);
+  });
+
+  it('debería impedir que un colaborador añada a otros', async () => {
+    const { course } = await bed.createTree(owner);
+    const creator = await bed.createUser('creator', 'content_creator');
+    const another = await bed.createUser('another', 'content_creator');
+    await useCase.execute({
+      actor: owner,
+      courseId: course.id,
+      userId: creator.id,
+    });
+
+    await expect(
+      useCase.execute({
+        actor: creator,
+        courseId: course.id,
+        userId: another.id,
+      })
+    ).rejects.toThrow(ContentAccessDeniedError);
+  });
+});
@@ -0,0 +1,142 @@
+// src/core/use-cases/authoring/__tests__/AuthoringAccess.test.ts
+
+import { AuthoringAccess } from '@/core/use-cases/authoring/AuthoringAccess';
+import { ContentAccessDeniedError } from '@/core/use-cases/authoring/AuthoringErrors';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { User } from '@/core/domain/entities/User';
+import { Role } from '@/core/domain/value-objects/Role';
+import { AuthoringTestBed } from './AuthoringTestBed';
+
+describe('AuthoringAccess', () => {
+  let bed: AuthoringTestBed;
+  let access: AuthoringAccess;
+  let owner: User;
+  let other: User;
+
+  const attach = async (lesson: Lesson, exercise: Exercise) =>
+    bed.repositories.lessonExerciseRepository.attach(
+      LessonExercise.create(
+        lesson,
+        exercise,
+        await bed.repositories.lessonExerciseRepository.findByLessonId(
+          lesson.id
+        )
+      )
+    );
+
+  beforeEach(async () => {
+    bed = new AuthoringTestBed();
+    access = new AuthoringAccess(bed.repositories);
+    owner = await bed.createUser('owner', 'content_creator');
+    other = await bed.createUser('other', 'content_creator');
+  });
+
+  describe('contenido de un curso', () => {
+    it('debería dejar editar todo el curso a su propietario y a los administradores', async () => {
+      const { course, lesson } = await bed.createTree(owner);
+      const admin = await bed.createUser('admin', 'admin');
+
+      await expect(access.assertCanEdit(owner, lesson)).resolves.toEqual(
+        course
+      );
+      await expect(access.assertCanEdit(admin, course)).resolves.toEqual(
+        course
+      );
+    });
+
+    it('debería dejar editar a los colaboradores mientras puedan crear contenido', async () => {
+      const { course, module } = await bed.createTree(owner);
+      await bed.repositories.courseCollaboratorRepository.add(
+        course.id,
+        other.id,
+        new Date()
+      );
+
+      await expect(access.assertCanEdit(other, module)).resolves.toEqual(
+        course
+      );
+
+      const demoted = (await bed.userRepository.update(other.id, {
+        role: new Role('student'),
+      }))!;
+      await expect(access.assertCanEdit(demoted, module)).rejects.toThrow(
+        ContentAccessDeniedError
+      );
+    });
+
+    it('debería rechazar a un creador sin relación con el curso', async () => {
+      const { section } = await bed.createTree(owner);
+
+      await expect(access.assertCanEdit(other, section)).rejects.toMatchObject({
+        code: 'CONTENT_ACCESS_DENIED',
+        params: { kind: 'section' },
+      });
+    });
+
+    it('debería reservar al propietario la gestión del curso', async () => {
+      const { course } = await bed.createTree(owner);
+      await bed.repositories.courseCollaboratorRepository.add(
+        course.id,
+        other.id,
+        new Date()
+      );
+
+      expect(() => access.assertCanManageCourse(owner, course)).not.toThrow();
+      expect(() => access.assertCanManageCourse(other, course)).toThrow(
+        ContentAccessDeniedError
+      );
+    });
+  });
+
+  describe('ejercicios', () => {
+    it('debería dejar editar un ejercicio a su propietario', async () => {
+      const exercise = await bed.createExercise(owner);
+
+      await expect(
+        access.assertCanEditExercise(owner, exercise)
+      ).resolves.toBeUndefined();
+      await expect(
+        access.assertCanEditExercise(other, exercise)
+      ).rejects.toThrow(ContentAccessDeniedError);
+    });
+
+    it('debería exigir poder editar todos los cursos que lo usan para editarlo, y uno para verlo', async () => {
+      const exercise = await bed.createExercise(null);
+      const own = await bed.createTree(other, 'Propio');
+      const foreign = await bed.createTree(owner, 'Ajeno');
+      await attach(own.lesson, exercise);
+
+      await expect(
+        access.assertCanEditExercise(other, exercise)
+      ).resolves.toBeUndefined();
+
+      await attach(foreign.lesson, exercise);
+
+      await expect(
+        access.assertCanEditExercise(other, exercise)
+      ).rejects.toThrow(ContentAccessDeniedError);
+      await expect(
+        access.assertCanViewExercise(other, exercise)
+      ).resolves.toBeUndefined();
+    });
+
+    it('no debería dejar editar a su propietario un ejercicio que usa un curso ajeno', async () => {
+      const exercise = await bed.createExercise(owner);
+      const foreign = await bed.createTree(other, 'Ajeno');
+      await attach(foreign.lesson, exercise);
+      const admin = await bed.createUser('admin', 'admin');
+
+      await expect(
+        access.assertCanEditExercise(owner, exercise)
+      ).rejects.toThrow(ContentAccessDeniedError);
+      await expect(
+        access.assertCanViewExercise(owner, exercise)
+      ).resolves.toBeUndefined();
+      await expect(
+        access.assertCanEditExercise(admin, exercise)
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// src/core/use-cases/authoring/__tests__/AuthoringTestBed.ts
+
+import { InMemoryContentStore } from '@/infrastructure/database/adapters/memory/repositories/InMemoryContentStore';
+import { createInMemoryContentRepositories } from '@/infrastructure/database/adapters/memory/repositories/InMemoryContentRepositories';
+import { InMemoryUserRepository } from '@/infrastructure/database/adapters/memory/repositories/InMemoryUserRepository';
+import {
+  IUnitOfWork,
+  UnitOfWorkRepositories,
+} from '@/core/interfaces/repositories/IUnitOfWork';
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+/**
+ * Repositorios de contenido y usuarios en memoria, y una unidad de trabajo
+ * sobre ellos, compartidos por los tests de los casos de uso de edición
+ */
+export class AuthoringTestBed {
+  readonly userRepository = new InMemoryUserRepository();
+  readonly repositories = {
+    ...createInMemoryContentRepositories(new InMemoryContentStore()),
+    userRepository: this.userRepository,
+  } as unknown as UnitOfWorkRepositories;
+
+  // Sin transacción: basta para los casos de uso que no fallan a medias
+  readonly unitOfWork: IUnitOfWork = {
+    run: (work) => work(this.repositories),
+  };
+
+  // Usuario activo con el rol indicado
+  async createUser(name: string, role: string): Promise<User> {
+    const user = await this.userRepository.create({
+      email: new Email(`${name}@example.com`),
+      username: new Username(name),
+      passwordHash: new HashedPassword(HASH),
+      role: new Role(role),
+    });
+    return (await this.userRepository.update(user.id, {
+      status: UserStatus.createActive(),
+    }))!;
+  }
+
+  /**
+   * Curso con un elemento por nivel hasta la lección
+   */
+  async createTree(owner: User | null, name = 'Curso') {
+    const title = (value: string) => new ContentTitle(value);
+    const course = Course.create({
+      title: title(name),
+      languagePair: LanguagePair.of('es', 'en'),
+      ownerId: owner?.id,
+    });
+    await this.repositories.courseRepository.create(course);
+    const level = Level.create(course, { title: title('A1') }, []);
+    await this.repositories.levelRepository.create(level);
+    const section = Section.create(level, { title: title('Saludos') }, []);
+    await this.repositories.sectionRepository.create(section);
+    const module = Module.create(section, { title: title('Presentarse') }, []);
+    await this.repositories.moduleRepository.create(module);
+    const lesson = Lesson.create(module, { title: title('Hola') }, []);
+    await this.repositories.lessonRepository.create(lesson);
+    return { course, level, section, module, lesson };
+  }
+
+  async createExercise(owner: User | null, sourceText = 'hola') {
+    const exercise = Exercise.create(
+      ExercisePayload.create({
+        type: 'translate',
+        sourceText,
+        acceptedTranslations: [`${sourceText} (en)`],
+      }),
+      { ownerId: owner?.id }
+    );
+    await this.repositories.exerciseRepository.create(exercise);
+    return exercise;
+  }
+}
@@ -0,0 +1,126 @@
+// src/core/use-cases/authoring/__tests__/DeleteContentNodeUseCase.test.ts
+
+import { DeleteContentNodeUseCase } from '@/core/use-cases/authoring/DeleteContentNodeUseCase';
+import { DeleteCourseUseCase } from '@/core/use-cases/authoring/DeleteCourseUseCase';
+import { PublishedContentDeletionError } from '@/core/use-cases/authoring/AuthoringErrors';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublishedDocument } from '@/core/domain/entities/PublishedSnapshot';
+import { User } from '@/core/domain/entities/User';
+import { AuthoringTestBed } from './AuthoringTestBed';
+
+describe('DeleteContentNodeUseCase', () => {
+  let bed: AuthoringTestBed;
+  let owner: User;
+  let useCase: DeleteContentNodeUseCase;
+
+  beforeEach(async () => {
+    bed = new AuthoringTestBed();
+    owner = await bed.createUser('owner', 'content_creator');
+    useCase = new DeleteContentNodeUseCase(bed.unitOfWork);
+  });
+
+  // Publica el contenido con un documento mínimo: aquí solo importa que se vea
+  const publish = async (kind: PublishableKind, id: string) => {
+    const document: PublishedDocument =
+      kind === 'course'
+        ? {
+            kind,
+            id,
+            slug: 'curso',
+            title: 'Curso',
+            description: null,
+            sourceLanguage: 'es',
+            targetLanguage: 'en',
+            levels: [],
+          }
+        : { kind, id, courseId: 'curso', title: 'Hola', exercises: [] };
+    const submitted = await bed.repositories.publicationRepository.save(
+      Publication.start(kind, id).submit(document, 1, owner.id)
+    );
+    return bed.repositories.publicationRepository.save(
+      submitted.approve('admin', null)
+    );
+  };
+
+  it('debería borrar un elemento con todo lo que contiene', async () => {
+    const { level, lesson } = await bed.createTree(owner);
+
+    await useCase.execute({
+      actor: owner,
+      kind: 'level',
+      id: level.id,
+      version: 1,
+    });
+
+    expect(
+      await bed.repositories.lessonRepository.findById(lesson.id)
+    ).toBeNull();
+  });
+
+  it('no debería borrar lecciones que ven los alumnos', async () => {
+    const { course, section, lesson } = await bed.createTree(owner);
+    await publish('course', course.id);
+    const published = await publish('lesson', lesson.id);
+
+    await expect(
+      useCase.execute({
+        actor: owner,
+        kind: 'section',
+        id: section.id,
+        version: 1,
+      })
+    ).rejects.toMatchObject({
+      constructor: PublishedContentDeletionError,
+      code: 'PUBLICATION_CONTENT_LIVE',
+      params: { kind: 'section' },
+    });
+    expect(
+      await bed.repositories.lessonRepository.findById(lesson.id)
+    ).not.toBeNull();
+
+    // Archivada, los alumnos ya no la ven y se puede borrar
+    await bed.repositories.publicationRepository.save(
+      published.archive(owner.id)
+    );
+    await useCase.execute({
+      actor: owner,
+      kind: 'section',
+      id: section.id,
+      version: 1,
+    });
+  });
+
+  it('debería borrar las lecciones publicadas de un curso que no se ve', async () => {
+    const { course, lesson } = await bed.createTree(owner);
+    await publish('lesson', lesson.id);
+
+    await new DeleteCourseUseCase(bed.unitOfWork).execute({
+      actor: owner,
+      courseId: course.id,
+      version: 1,
+    });
+
+    expect(
+      await bed.repositories.courseRepository.findById(course.id)
+    ).toBeNull();
+  });
+
+  it('no debería borrar un curso que ven los alumnos', async () => {
+    const { course } = await bed.createTree(owner);
+    await publish('course', course.id);
+
+    await expect(
+      new DeleteCourseUseCase(bed.unitOfWork).execute({
+        actor: owner,
+        courseId: course.id,
+        version: 1,
+      })
+    ).rejects.toMatchObject({
+      code: 'PUBLICATION_CONTENT_LIVE',
+      params: { kind: 'course' },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+// src/core/use-cases/authoring/__tests__/ReorderContentUseCase.test.ts
+
+import { ReorderContentUseCase } from '@/core/use-cases/authoring/ReorderContentUseCase';
+import { ContentAccessDeniedError } from '@/core/use-cases/authoring/AuthoringErrors';
+import { ContentVersionConflictError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { InvalidReorderError } from '@/core/domain/errors/ContentHierarchyErrors';
+import { Level } from '@/core/domain/entities/Level';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { User } from '@/core/domain/entities/User';
+import { AuthoringTestBed } from './AuthoringTestBed';
+
+describe('ReorderContentUseCase', () => {
+  let bed: AuthoringTestBed;
+  let owner: User;
+  let useCase: ReorderContentUseCase;
+
+  beforeEach(async () => {
+    bed = new AuthoringTestBed();
+    owner = await bed.createUser('owner', 'content_creator');
+    useCase = new ReorderContentUseCase(bed.unitOfWork);
+  });
+
+  const createLevels = async () => {
+    const { course, level } = await bed.createTree(owner);
+    const second = Level.create(course, { title: new ContentTitle('A2') }, [
+      level,
+    ]);
+    await bed.repositories.levelRepository.create(second);
+    return { course, first: level, second };
+  };
+
+  it('debería reordenar los hijos y subir la versión del contenedor', async () => {
+    const { course, first, second } = await createLevels();
+
+    const result = await useCase.execute({
+      actor: owner,
+      kind: 'course',
+      id: course.id,
+      version: 1,
+      orderedIds: [second.id, first.id],
+    });
+
+    expect(result.container.version).toBe(2);
+    expect(result.items.map((item) => [item.id, item.position.value])).toEqual([
+      [second.id, 1],
+      [first.id, 2],
+    ]);
+  });
+
+  it('debería rechazar reordenar con una versión anterior del contenedor', async () => {
+    const { course, first, second } = await createLevels();
+    await useCase.execute({
+      actor: owner,
+      kind: 'course',
+      id: course.id,
+      version: 1,
+      orderedIds: [second.id, first.id],
+    });
+
+    await expect(
+      useCase.execute({
+        actor: owner,
+        kind: 'course',
+        id: course.id,
+        version: 1,
+        orderedIds: [first.id, second.id],
+      })
+    ).rejects.toThrow(ContentVersionConflictError);
+    expect(
+      (await bed.repositories.levelRepository.findByParentId(course.id)).map(
+        (level) => level.id
+      )
+    ).toEqual([second.id, first.id]);
+  });
+
+  it('debería reordenar los ejercicios de una lección', async () => {
+    const { lesson } = await bed.createTree(owner);
+    const first = await bed.createExercise(owner, 'uno');
+    const second = await bed.createExercise(owner, 'dos');
+    for (const exercise of [first, second]) {
+      await bed.repositories.lessonExerciseRepository.attach(
+        LessonExercise.create(
+          lesson,
+          exercise,
+          await bed.repositories.lessonExerciseRepository.findByLessonId(
+            lesson.id
+          )
+        )
+      );
+    }
+
+    const result = await useCase.execute({
+      actor: owner,
+      kind: 'lesson',
+      id: lesson.id,
+      version: 1,
+      orderedIds: [second.id, first.id],
+    });
+
+    expect(result.items.map((item) => item.id)).toEqual([second.id, first.id]);
+    expect(result.container.version).toBe(2);
+  });
+
+  it('debería rechazar un orden que no contiene todos los hijos', async () => {
+    const { course, first } = await createLevels();
+
+    await expect(
+      useCase.execute({
+        actor: owner,
+        kind: 'course',
+        id: course.id,
+        version: 1,
+        orderedIds: [first.id],
+      })
+    ).rejects.toThrow(InvalidReorderError);
+  });
+
+  it('debería rechazar a quien no puede editar el curso', async () => {
+    const { course, first, second } = await createLevels();
+    const other = await bed.createUser('other', 'content_creator');
+
+    await expect(
+      useCase.execute({
+        actor: other,
+        kind: 'course',
+        id: course.id,
+        version: 1,
+        orderedIds: [second.id, first.id],
+      })
+    ).rejects.toThrow(ContentAccessDeniedError);
+  });
+});
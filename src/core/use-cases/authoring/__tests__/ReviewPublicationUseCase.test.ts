@@ -0,0 +1,201 @@
+// src/core/use-cases/authoring/__tests__/ReviewPublicationUseCase.test.ts
+
+import { SubmitForReviewUseCase } from '@/core/use-cases/authoring/SubmitForReviewUseCase';
+import { ReviewPublicationUseCase } from '@/core/use-cases/authoring/ReviewPublicationUseCase';
+import { RollBackPublicationUseCase } from '@/core/use-cases/authoring/RollBackPublicationUseCase';
+import { GetPublicationUseCase } from '@/core/use-cases/authoring/GetPublicationUseCase';
+import { AttachExerciseUseCase } from '@/core/use-cases/authoring/AttachExerciseUseCase';
+import { UpdateContentNodeUseCase } from '@/core/use-cases/authoring/UpdateContentNodeUseCase';
+import { ContentVersionConflictError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { AuthoringTestBed } from './AuthoringTestBed';
+
+describe('ReviewPublicationUseCase', () => {
+  let bed: AuthoringTestBed;
+  let owner: User;
+  let admin: User;
+  let course: Course;
+  let lesson: Lesson;
+  let submit: SubmitForReviewUseCase;
+  let review: ReviewPublicationUseCase;
+
+  beforeEach(async () => {
+    bed = new AuthoringTestBed();
+    owner = await bed.createUser('owner', 'content_creator');
+    admin = await bed.createUser('admin', 'admin');
+    ({ course, lesson } = await bed.createTree(owner));
+    submit = new SubmitForReviewUseCase(bed.unitOfWork);
+    review = new ReviewPublicationUseCase(bed.unitOfWork);
+
+    const exercise = await bed.createExercise(owner, 'hola');
+    await new AttachExerciseUseCase(bed.unitOfWork).execute({
+      actor: owner,
+      lessonId: lesson.id,
+      version: 1,
+      exerciseId: exercise.id,
+    });
+  });
+
+  const submitLesson = (version: number) =>
+    submit.execute({
+      actor: owner,
+      kind: 'lesson',
+      contentId: lesson.id,
+      version,
+    });
+
+  it('debería publicar lo que se envió aunque el autor siga editando', async () => {
+    const submitted = await submitLesson(0);
+    await new UpdateContentNodeUseCase(bed.unitOfWork).execute({
+      actor: owner,
+      kind: 'lesson',
+      id: lesson.id,
+      version: 2,
+      title: 'Sin revisar',
+    });
+
+    const published = await review.execute({
+      actor: admin,
+      kind: 'lesson',
+      contentId: lesson.id,
+      version: submitted.version,
+      decision: 'approve',
+    });
+
+    expect(published.status).toBe('published');
+    expect(published.publishedNumber).toBe(1);
+    const [snapshot] =
+      await bed.repositories.publicationRepository.findSnapshots(published.id);
+    expect(snapshot.document).toEqual({
+      kind: 'lesson',
+      id: lesson.id,
+      courseId: course.id,
+      title: 'Hola',
+      exercises: [
+        {
+          id: expect.any(String),
+          schemaVersion: 1,
+          payload: expect.objectContaining({ sourceText: 'hola' }),
+        },
+      ],
+    });
+    expect(snapshot.contentVersion).toBe(2);
+    expect(snapshot.approvedBy).toBe(admin.id);
+  });
+
+  it('debería dejar aprobar y rechazar solo a los administradores', async () => {
+    const submitted = await submitLesson(0);
+
+    await expect(
+      review.execute({
+        actor: owner,
+        kind: 'lesson',
+        contentId: lesson.id,
+        version: submitted.version,
+        decision: 'approve',
+      })
+    ).rejects.toMatchObject({
+      code: 'PUBLICATION_REVIEW_FORBIDDEN',
+      category: 'forbidden',
+    });
+  });
+
+  it('debería exigir un comentario al rechazar', async () => {
+    const submitted = await submitLesson(0);
+
+    await expect(
+      review.execute({
+        actor: admin,
+        kind: 'lesson',
+        contentId: lesson.id,
+        version: submitted.version,
+        decision: 'reject',
+        comment: '   ',
+      })
+    ).rejects.toThrow(ValidationError);
+
+    const rejected = await review.execute({
+      actor: admin,
+      kind: 'lesson',
+      contentId: lesson.id,
+      version: submitted.version,
+      decision: 'reject',
+      comment: 'Falta el audio',
+    });
+    expect(rejected.status).toBe('draft');
+
+    const { history } = await new GetPublicationUseCase(bed.unitOfWork).execute(
+      { actor: owner, kind: 'lesson', contentId: lesson.id }
+    );
+    expect(history[0]).toEqual(
+      expect.objectContaining({
+        action: 'rejected',
+        comment: 'Falta el audio',
+        actorId: admin.id,
+      })
+    );
+  });
+
+  it('no debería revisar una versión de la publicación que ya cambió', async () => {
+    await submitLesson(0);
+
+    await expect(
+      review.execute({
+        actor: admin,
+        kind: 'lesson',
+        contentId: lesson.id,
+        version: 0,
+        decision: 'approve',
+      })
+    ).rejects.toMatchObject({
+      constructor: ContentVersionConflictError,
+      params: { kind: 'publication' },
+    });
+  });
+
+  it('debería volver a una instantánea anterior solo con el propietario', async () => {
+    const approve = async (version: number) =>
+      review.execute({
+        actor: admin,
+        kind: 'lesson',
+        contentId: lesson.id,
+        version: (await submitLesson(version)).version,
+        decision: 'approve',
+      });
+    const second = await approve((await approve(0)).version);
+    const collaborator = await bed.createUser(
+      'collaborator',
+      'content_creator'
+    );
+    await bed.repositories.courseCollaboratorRepository.add(
+      course.id,
+      collaborator.id,
+      new Date()
+    );
+    const rollBack = new RollBackPublicationUseCase(bed.unitOfWork);
+
+    await expect(
+      rollBack.execute({
+        actor: collaborator,
+        kind: 'lesson',
+        contentId: lesson.id,
+        version: second.version,
+        snapshotNumber: 1,
+      })
+    ).rejects.toMatchObject({ code: 'CONTENT_ACCESS_DENIED' });
+
+    const rolledBack = await rollBack.execute({
+      actor: owner,
+      kind: 'lesson',
+      contentId: lesson.id,
+      version: second.version,
+      snapshotNumber: 1,
+      comment: 'La versión 2 tenía un error',
+    });
+    expect(rolledBack.publishedNumber).toBe(1);
+    expect(rolledBack.latestNumber).toBe(2);
+  });
+});
@@ -0,0 +1,81 @@
+// src/core/use-cases/authoring/__tests__/UpdateContentNodeUseCase.test.ts
+
+import { UpdateContentNodeUseCase } from '@/core/use-cases/authoring/UpdateContentNodeUseCase';
+import { ContentVersionConflictError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { User } from '@/core/domain/entities/User';
+import { AuthoringTestBed } from './AuthoringTestBed';
+
+describe('UpdateContentNodeUseCase', () => {
+  let bed: AuthoringTestBed;
+  let owner: User;
+  let useCase: UpdateContentNodeUseCase;
+
+  beforeEach(async () => {
+    bed = new AuthoringTestBed();
+    owner = await bed.createUser('owner', 'content_creator');
+    useCase = new UpdateContentNodeUseCase(bed.unitOfWork);
+  });
+
+  it('debería renombrar y mover un elemento y subir su versión', async () => {
+    const { section } = await bed.createTree(owner);
+
+    const saved = await useCase.execute({
+      actor: owner,
+      kind: 'section',
+      id: section.id,
+      version: 1,
+      title: 'Despedidas',
+      position: 3,
+    });
+
+    expect(saved.title.value).toBe('Despedidas');
+    expect(saved.position.value).toBe(3);
+    expect(saved.version).toBe(2);
+  });
+
+  it('no debería pisar el cambio que otro editor guardó antes', async () => {
+    const { lesson } = await bed.createTree(owner);
+    await useCase.execute({
+      actor: owner,
+      kind: 'lesson',
+      id: lesson.id,
+      version: 1,
+      title: 'Primer cambio',
+    });
+
+    await expect(
+      useCase.execute({
+        actor: owner,
+        kind: 'lesson',
+        id: lesson.id,
+        version: 1,
+        title: 'Segundo cambio',
+      })
+    ).rejects.toMatchObject({
+      constructor: ContentVersionConflictError,
+      code: 'CONTENT_VERSION_CONFLICT',
+      params: { kind: 'lesson' },
+    });
+    expect(
+      (await bed.repositories.lessonRepository.findById(lesson.id))!.title.value
+    ).toBe('Primer cambio');
+  });
+
+  it('debería rechazar un título inválido indicando el campo', async () => {
+    const { level } = await bed.createTree(owner);
+
+    const error = await useCase
+      .execute({
+        actor: owner,
+        kind: 'level',
+        id: level.id,
+        version: 1,
+        title: '   ',
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).hasFieldError('title')).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+// src/core/use-cases/catalog/GetPublishedCourseUseCase.ts
+
+import { PublishedSnapshot } from '@/core/domain/entities/PublishedSnapshot';
+import { IPublicationRepository } from '@/core/interfaces/repositories/IPublicationRepository';
+import { ContentNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+
+/**
+ * Caso de uso de lectura de un curso para los alumnos: su instantánea
+ * publicada, con el índice de niveles, secciones, módulos y lecciones.
+ */
+export class GetPublishedCourseUseCase {
+  constructor(private readonly publicationRepository: IPublicationRepository) {}
+
+  /**
+   * @throws ContentNotFoundError si el curso no existe, no se ha publicado
+   * o está archivado: para los alumnos es lo mismo.
+   */
+  async execute(courseId: string): Promise<PublishedSnapshot> {
+    const publication = await this.publicationRepository.findByContent(
+      'course',
+      courseId
+    );
+    const snapshot =
+      publication?.isLive() &&
+      (await this.publicationRepository.findSnapshot(
+        publication.id,
+        publication.publishedNumber as number
+      ));
+    if (!snapshot) {
+      throw new ContentNotFoundError('course', courseId);
+    }
+    return snapshot;
+  }
+}
@@ -0,0 +1,96 @@
+// src/core/use-cases/catalog/GetPublishedLessonUseCase.ts
+
+import {
+  PublishedCourseDocument,
+  PublishedLessonDocument,
+  PublishedSnapshot,
+} from '@/core/domain/entities/PublishedSnapshot';
+import { PublishableKind } from '@/core/domain/entities/Publication';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { IPublicationRepository } from '@/core/interfaces/repositories/IPublicationRepository';
+import { ContentNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+
+export interface PublishedExerciseItem {
+  id: string;
+  payload: ExercisePayload; // Actualizado al esquema vigente
+}
+
+/**
+ * Lección tal como la ven los alumnos
+ */
+export interface PublishedLesson {
+  courseId: string;
+  snapshot: PublishedSnapshot;
+  exercises: PublishedExerciseItem[];
+}
+
+/**
+ * Caso de uso de lectura de una lección para los alumnos: su instantánea
+ * publicada, siempre que la lección aparezca en la instantánea publicada de
+ * su curso. Una lección nueva no se ve hasta que se publica el índice del
+ * curso que la incluye.
+ *
+ * Solo lee publicaciones: lo que se edite o se borre en la copia de trabajo
+ * no cambia lo que ven los alumnos.
+ */
+export class GetPublishedLessonUseCase {
+  constructor(private readonly publicationRepository: IPublicationRepository) {}
+
+  /**
+   * @throws ContentNotFoundError si la lección o su curso no se ven.
+   */
+  async execute(lessonId: string): Promise<PublishedLesson> {
+    const snapshot = await this.liveSnapshotOf('lesson', lessonId);
+    // Las instantáneas de lecciones guardan documentos de lección
+    const document = snapshot?.document as PublishedLessonDocument | undefined;
+    const courseSnapshot =
+      document && (await this.liveSnapshotOf('course', document.courseId));
+    const listed =
+      courseSnapshot &&
+      this.lessonIdsOf(
+        courseSnapshot.document as PublishedCourseDocument
+      ).includes(lessonId);
+    if (!snapshot || !document || !listed) {
+      throw new ContentNotFoundError('lesson', lessonId);
+    }
+
+    return {
+      courseId: document.courseId,
+      snapshot,
+      exercises: document.exercises.map((exercise) => ({
+        id: exercise.id,
+        payload: ExercisePayload.fromPersistence(
+          exercise.payload,
+          exercise.schemaVersion
+        ),
+      })),
+    };
+  }
+
+  private async liveSnapshotOf(
+    kind: PublishableKind,
+    contentId: string
+  ): Promise<PublishedSnapshot | null> {
+    const publication = await this.publicationRepository.findByContent(
+      kind,
+      contentId
+    );
+    if (!publication?.isLive()) {
+      return null;
+    }
+    return this.publicationRepository.findSnapshot(
+      publication.id,
+      publication.publishedNumber as number
+    );
+  }
+
+  private lessonIdsOf(document: PublishedCourseDocument): string[] {
+    return document.levels.flatMap((level) =>
+      level.sections.flatMap((section) =>
+        section.modules.flatMap((module) =>
+          module.lessons.map((lesson) => lesson.id)
+        )
+      )
+    );
+  }
+}
@@ -0,0 +1,16 @@
+// src/core/use-cases/catalog/ListPublishedCoursesUseCase.ts
+
+import { PublishedSnapshot } from '@/core/domain/entities/PublishedSnapshot';
+import { IPublicationRepository } from '@/core/interfaces/repositories/IPublicationRepository';
+
+/**
+ * Lista los cursos que ven los alumnos: la instantánea publicada de cada
+ * curso no archivado. Los cambios sin aprobar no aparecen nunca.
+ */
+export class ListPublishedCoursesUseCase {
+  constructor(private readonly publicationRepository: IPublicationRepository) {}
+
+  async execute(): Promise<PublishedSnapshot[]> {
+    return this.publicationRepository.findLiveSnapshots('course');
+  }
+}
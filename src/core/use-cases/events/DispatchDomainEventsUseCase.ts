@@ -0,0 +1,167 @@
+// src/core/use-cases/events/DispatchDomainEventsUseCase.ts
+
+import { DomainEvent } from '@/core/domain/events/DomainEvent';
+import { IDomainEventHandler } from '@/core/interfaces/events/IDomainEventHandler';
+import {
+  IOutboxRepository,
+  OutboxMessage,
+} from '@/core/interfaces/repositories/IOutboxRepository';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+export interface DispatchDomainEventsOptions {
+  batchSize: number; // Eventos reservados por ejecución
+  leaseMs: number; // Duración de la reserva de cada evento
+  maxAttempts: number; // Intentos antes de mover el evento a dead letter
+  retryDelayMs: number; // Espera base entre reintentos; se duplica en cada uno
+}
+
+export interface DispatchDomainEventsResult {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+/**
+ * Error de entrega de un evento: reúne los fallos de sus handlers
+ */
+export class DomainEventDeliveryError extends Error {
+  constructor(
+    public readonly event: DomainEvent,
+    public readonly failures: { handler: string; error: unknown }[]
+  ) {
+    super(
+      failures
+        .map(
+          ({ handler, error }) =>
+            `${handler}: ${error instanceof Error ? error.message : String(error)}`
+        )
+        .join('; ')
+    );
+    this.name = 'DomainEventDeliveryError';
+  }
+}
+
+const DEFAULT_OPTIONS: DispatchDomainEventsOptions = {
+  batchSize: 50,
+  leaseMs: 60 * 1000,
+  maxAttempts: 5,
+  retryDelayMs: 30 * 1000,
+};
+
+/**
+ * Caso de uso que entrega los eventos pendientes del outbox a sus suscriptores.
+ *
+ * Lo ejecuta periódicamente el sistema (ver OutboxDispatcherJob). La entrega
+ * es at-least-once: un evento se marca como entregado solo cuando todos sus
+ * handlers terminan bien. Si alguno falla, el evento entero se reintenta con
+ * una espera creciente (los handlers que ya terminaron lo vuelven a recibir)
+ * y, al agotar los intentos, pasa a dead letter.
+ */
+export class DispatchDomainEventsUseCase {
+  private readonly handlersByType = new Map<string, IDomainEventHandler[]>();
+  private readonly options: DispatchDomainEventsOptions;
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly outboxRepository: IOutboxRepository,
+    handlers: IDomainEventHandler[],
+    logger: ILogger,
+    options: Partial<DispatchDomainEventsOptions> = {}
+  ) {
+    this.logger = logger.child({ component: 'DispatchDomainEventsUseCase' });
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    handlers.forEach((handler) => {
+      const handlers = this.handlersByType.get(handler.eventType) ?? [];
+      this.handlersByType.set(handler.eventType, [...handlers, handler]);
+    });
+  }
+
+  async execute(now: Date = new Date()): Promise<DispatchDomainEventsResult> {
+    const messages = await this.outboxRepository.claimBatch(
+      now,
+      this.options.batchSize,
+      this.options.leaseMs
+    );
+    const result: DispatchDomainEventsResult = {
+      delivered: 0,
+      retried: 0,
+      deadLettered: 0,
+    };
+
+    for (const message of messages) {
+      try {
+        await this.deliver(message.event);
+        await this.outboxRepository.markDelivered(message.event.id, now);
+        result.delivered++;
+      } catch (error) {
+        // Si tampoco se puede guardar el fallo, la reserva expira y el
+        // evento se vuelve a intentar
+        await this.handleFailure(message, error, now).then(
+          (outcome) => result[outcome]++,
+          (cause) =>
+            this.logger.error('No se pudo registrar el fallo del evento', {
+              eventId: message.event.id,
+              error: cause,
+            })
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Entrega el evento a todos sus handlers, aunque alguno falle
+   */
+  private async deliver(event: DomainEvent): Promise<void> {
+    const failures: { handler: string; error: unknown }[] = [];
+
+    for (const handler of this.handlersByType.get(event.type) ?? []) {
+      try {
+        await handler.handle(event);
+      } catch (error) {
+        failures.push({ handler: handler.name, error });
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new DomainEventDeliveryError(event, failures);
+    }
+  }
+
+  private async handleFailure(
+    message: OutboxMessage,
+    error: unknown,
+    now: Date
+  ): Promise<'retried' | 'deadLettered'> {
+    const reason = error instanceof Error ? error.message : String(error);
+    const { event, attempts } = message;
+
+    if (attempts >= this.options.maxAttempts) {
+      this.logger.error('Evento movido a dead letter', {
+        eventId: event.id,
+        eventType: event.type,
+        attempts,
+        reason,
+      });
+      await this.outboxRepository.markDeadLetter(event.id, reason, now);
+      return 'deadLettered';
+    }
+
+    const delay = this.options.retryDelayMs * 2 ** (attempts - 1);
+    this.logger.warn('Fallo al entregar el evento, se reintentará', {
+      eventId: event.id,
+      eventType: event.type,
+      attempt: attempts,
+      maxAttempts: this.options.maxAttempts,
+      retryInMs: delay,
+      reason,
+    });
+    await this.outboxRepository.scheduleRetry(
+      event.id,
+      reason,
+      new Date(now.getTime() + delay)
+    );
+    return 'retried';
+  }
+}
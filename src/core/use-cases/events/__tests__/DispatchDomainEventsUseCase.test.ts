@@ -0,0 +1,155 @@
+// src/core/use-cases/events/__tests__/DispatchDomainEventsUseCase.test.ts
+
+import {
+  DispatchDomainEventsUseCase,
+  DomainEventDeliveryError,
+} from '@/core/use-cases/events/DispatchDomainEventsUseCase';
+import {
+  IOutboxRepository,
+  OutboxMessage,
+} from '@/core/interfaces/repositories/IOutboxRepository';
+import { IDomainEventHandler } from '@/core/interfaces/events/IDomainEventHandler';
+import { createDomainEvent } from '@/core/domain/events/DomainEvent';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+const NOW = new Date('2025-01-01T00:00:00Z');
+
+const message = (type: string, attempts = 1): OutboxMessage => ({
+  event: createDomainEvent(type, 'aggregate-1', { value: 1 }, NOW),
+  status: 'pending',
+  attempts,
+  lastError: null,
+  availableAt: NOW,
+});
+
+const handler = (eventType: string, name: string) =>
+  ({
+    eventType,
+    name,
+    handle: jest.fn().mockResolvedValue(undefined),
+  }) as jest.Mocked<IDomainEventHandler>;
+
+describe('DispatchDomainEventsUseCase', () => {
+  let outboxRepository: jest.Mocked<IOutboxRepository>;
+  let logger: jest.Mocked<ILogger>;
+
+  beforeEach(() => {
+    outboxRepository = {
+      append: jest.fn(),
+      claimBatch: jest.fn().mockResolvedValue([]),
+      markDelivered: jest.fn().mockResolvedValue(undefined),
+      scheduleRetry: jest.fn().mockResolvedValue(undefined),
+      markDeadLetter: jest.fn().mockResolvedValue(undefined),
+      getBacklog: jest.fn(),
+    };
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+  });
+
+  const createUseCase = (handlers: IDomainEventHandler[]) =>
+    new DispatchDomainEventsUseCase(outboxRepository, handlers, logger, {
+      batchSize: 10,
+      leaseMs: 60000,
+      maxAttempts: 3,
+      retryDelayMs: 1000,
+    });
+
+  it('debería reservar un lote con el tamaño y la reserva configurados', async () => {
+    await createUseCase([]).execute(NOW);
+
+    expect(outboxRepository.claimBatch).toHaveBeenCalledWith(NOW, 10, 60000);
+  });
+
+  it('debería entregar cada evento solo a los handlers de su tipo y marcarlo como entregado', async () => {
+    const registered = handler('UserRegistered', 'registered');
+    const other = handler('Other', 'other');
+    const pending = message('UserRegistered');
+    outboxRepository.claimBatch.mockResolvedValueOnce([pending]);
+
+    const result = await createUseCase([registered, other]).execute(NOW);
+
+    expect(registered.handle).toHaveBeenCalledWith(pending.event);
+    expect(other.handle).not.toHaveBeenCalled();
+    expect(outboxRepository.markDelivered).toHaveBeenCalledWith(
+      pending.event.id,
+      NOW
+    );
+    expect(result).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+  });
+
+  it('debería marcar como entregados los eventos sin handlers', async () => {
+    outboxRepository.claimBatch.mockResolvedValueOnce([message('Unknown')]);
+
+    const result = await createUseCase([]).execute(NOW);
+
+    expect(result.delivered).toBe(1);
+  });
+
+  it('debería ejecutar todos los handlers aunque falle uno y reintentar con espera creciente', async () => {
+    const failing = handler('UserRegistered', 'failing');
+    failing.handle.mockRejectedValueOnce(new Error('SMTP caído'));
+    const succeeding = handler('UserRegistered', 'succeeding');
+    const pending = message('UserRegistered', 2);
+    outboxRepository.claimBatch.mockResolvedValueOnce([pending]);
+
+    const result = await createUseCase([failing, succeeding]).execute(NOW);
+
+    expect(succeeding.handle).toHaveBeenCalledTimes(1);
+    expect(outboxRepository.markDelivered).not.toHaveBeenCalled();
+    // Segundo intento: 1000ms * 2^(2 - 1)
+    expect(outboxRepository.scheduleRetry).toHaveBeenCalledWith(
+      pending.event.id,
+      'failing: SMTP caído',
+      new Date(NOW.getTime() + 2000)
+    );
+    expect(result).toEqual({ delivered: 0, retried: 1, deadLettered: 0 });
+  });
+
+  it('debería mover el evento a dead letter al agotar los intentos', async () => {
+    const failing = handler('UserRegistered', 'failing');
+    failing.handle.mockRejectedValueOnce(new Error('SMTP caído'));
+    const pending = message('UserRegistered', 3);
+    outboxRepository.claimBatch.mockResolvedValueOnce([pending]);
+
+    const result = await createUseCase([failing]).execute(NOW);
+
+    expect(outboxRepository.markDeadLetter).toHaveBeenCalledWith(
+      pending.event.id,
+      'failing: SMTP caído',
+      NOW
+    );
+    expect(outboxRepository.scheduleRetry).not.toHaveBeenCalled();
+    expect(result).toEqual({ delivered: 0, retried: 0, deadLettered: 1 });
+  });
+
+  it('debería seguir con el lote si no puede registrar un fallo', async () => {
+    const failing = handler('UserRegistered', 'failing');
+    failing.handle.mockRejectedValueOnce(new Error('SMTP caído'));
+    outboxRepository.claimBatch.mockResolvedValueOnce([
+      message('UserRegistered'),
+      message('UserRegistered'),
+    ]);
+    outboxRepository.scheduleRetry.mockRejectedValueOnce(new Error('BD caída'));
+
+    const result = await createUseCase([failing]).execute(NOW);
+
+    expect(result).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('debería reunir en DomainEventDeliveryError los fallos de cada handler', () => {
+    const event = createDomainEvent('UserRegistered', 'aggregate-1', {});
+    const error = new DomainEventDeliveryError(event, [
+      { handler: 'a', error: new Error('uno') },
+      { handler: 'b', error: 'dos' },
+    ]);
+
+    expect(error.message).toBe('a: uno; b: dos');
+    expect(error.event).toBe(event);
+  });
+});
@@ -0,0 +1,123 @@
+// src/core/use-cases/health/CheckReadinessUseCase.ts
+
+import {
+  HealthCheckDetails,
+  IHealthCheck,
+} from '@/core/interfaces/services/IHealthCheck';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { HealthCheckError } from './HealthChecks';
+
+export type HealthCheckStatus = 'up' | 'down';
+
+export interface HealthCheckResult {
+  status: HealthCheckStatus;
+  latencyMs: number;
+  details?: HealthCheckDetails;
+  error?: string; // Motivo del fallo (solo con status 'down')
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  shuttingDown: boolean;
+  checks: Record<string, HealthCheckResult>; // Por nombre de la comprobación
+}
+
+export interface CheckReadinessOptions {
+  timeoutMs: number; // Tiempo máximo de cada comprobación
+}
+
+// Motivo publicado para los errores que no son HealthCheckError
+const UNAVAILABLE_MESSAGE = 'No disponible';
+
+/**
+ * Caso de uso que decide si el servicio puede recibir tráfico.
+ *
+ * Ejecuta todas las comprobaciones en paralelo, cada una con su propio
+ * tiempo máximo, y mide la latencia de cada una. El servicio está listo si
+ * todas responden a tiempo y sin error. Durante el apagado ordenado
+ * (markShuttingDown()) responde que no está listo sin ejecutarlas, para que
+ * el balanceador deje de enviarle peticiones.
+ */
+export class CheckReadinessUseCase {
+  private readonly logger: ILogger;
+  private shuttingDown = false;
+
+  constructor(
+    private readonly checks: IHealthCheck[],
+    private readonly options: CheckReadinessOptions,
+    logger: ILogger
+  ) {
+    this.logger = logger.child({ component: 'CheckReadinessUseCase' });
+  }
+
+  /**
+   * Marca el inicio del apagado: a partir de aquí el servicio no está listo
+   */
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  async execute(): Promise<ReadinessReport> {
+    if (this.shuttingDown) {
+      return { ready: false, shuttingDown: true, checks: {} };
+    }
+
+    const results = await Promise.all(
+      this.checks.map((check) => this.run(check))
+    );
+    const checks = Object.fromEntries(
+      this.checks.map((check, index) => [check.name, results[index]])
+    );
+
+    return {
+      ready: results.every((result) => result.status === 'up'),
+      shuttingDown: false,
+      checks,
+    };
+  }
+
+  private async run(check: IHealthCheck): Promise<HealthCheckResult> {
+    const startTime = Date.now();
+    try {
+      const details = await this.withTimeout(check);
+      const result: HealthCheckResult = {
+        status: 'up',
+        latencyMs: Date.now() - startTime,
+      };
+      if (details) {
+        result.details = details;
+      }
+      return result;
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      this.logger.warn('Comprobación de salud fallida', {
+        check: check.name,
+        latencyMs,
+        error,
+      });
+      return {
+        status: 'down',
+        latencyMs,
+        error:
+          error instanceof HealthCheckError
+            ? error.message
+            : UNAVAILABLE_MESSAGE,
+      };
+    }
+  }
+
+  private withTimeout(check: IHealthCheck): Promise<HealthCheckDetails | void> {
+    const { timeoutMs } = this.options;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new HealthCheckError(`Sin respuesta en ${timeoutMs} ms`)),
+        timeoutMs
+      );
+    });
+
+    return Promise.race([check.check(), timeout]).finally(() =>
+      clearTimeout(timer)
+    );
+  }
+}
@@ -0,0 +1,85 @@
+// src/core/use-cases/health/HealthChecks.ts
+
+import { IDatabaseHealth } from '@/core/interfaces/repositories/IDatabaseHealth';
+import { IOutboxRepository } from '@/core/interfaces/repositories/IOutboxRepository';
+import {
+  HealthCheckDetails,
+  IHealthCheck,
+} from '@/core/interfaces/services/IHealthCheck';
+
+/**
+ * Fallo de una comprobación con un motivo que se puede publicar en el informe
+ * de readiness. Cualquier otro error se informa con un mensaje genérico
+ */
+export class HealthCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HealthCheckError';
+  }
+}
+
+/**
+ * La base de datos responde a una consulta trivial
+ */
+export class DatabaseHealthCheck implements IHealthCheck {
+  readonly name = 'database';
+
+  constructor(private readonly databaseHealth: IDatabaseHealth) {}
+
+  async check(): Promise<void> {
+    await this.databaseHealth.ping();
+  }
+}
+
+/**
+ * El schema de la base de datos tiene aplicadas todas las migraciones del
+ * código. Con migraciones pendientes las consultas fallarían
+ */
+export class PendingMigrationsHealthCheck implements IHealthCheck {
+  readonly name = 'migrations';
+
+  constructor(private readonly databaseHealth: IDatabaseHealth) {}
+
+  async check(): Promise<HealthCheckDetails> {
+    const pending = await this.databaseHealth.findPendingMigrations();
+    if (pending === null) {
+      return { managed: false };
+    }
+    if (pending.length > 0) {
+      throw new HealthCheckError(
+        `Migraciones pendientes: ${pending.join(', ')}`
+      );
+    }
+    return { managed: true, pending: 0 };
+  }
+}
+
+/**
+ * Ningún evento del outbox lleva más de `maxLagMs` esperando desde que se
+ * pudo entregar. Un retraso mayor indica que el dispatcher está parado o no
+ * da abasto; los reintentos programados para más tarde no cuentan
+ */
+export class OutboxLagHealthCheck implements IHealthCheck {
+  readonly name = 'outbox';
+
+  constructor(
+    private readonly outboxRepository: IOutboxRepository,
+    private readonly maxLagMs: number,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async check(): Promise<HealthCheckDetails> {
+    const now = this.now();
+    const { due, oldestDueAt } = await this.outboxRepository.getBacklog(now);
+    const lagMs = oldestDueAt
+      ? Math.max(0, now.getTime() - oldestDueAt.getTime())
+      : 0;
+
+    if (lagMs > this.maxLagMs) {
+      throw new HealthCheckError(
+        `El evento pendiente más antiguo espera desde hace ${Math.round(lagMs / 1000)} s (máximo ${Math.round(this.maxLagMs / 1000)} s)`
+      );
+    }
+    return { due, lagMs };
+  }
+}
@@ -0,0 +1,132 @@
+// src/core/use-cases/health/__tests__/CheckReadinessUseCase.test.ts
+
+import { CheckReadinessUseCase } from '@/core/use-cases/health/CheckReadinessUseCase';
+import { HealthCheckError } from '@/core/use-cases/health/HealthChecks';
+import { IHealthCheck } from '@/core/interfaces/services/IHealthCheck';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+const healthCheck = (
+  name: string,
+  check: IHealthCheck['check']
+): jest.Mocked<IHealthCheck> => ({ name, check: jest.fn(check) });
+
+describe('CheckReadinessUseCase', () => {
+  let logger: jest.Mocked<ILogger>;
+
+  beforeEach(() => {
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const makeUseCase = (checks: IHealthCheck[], timeoutMs = 1000) =>
+    new CheckReadinessUseCase(checks, { timeoutMs }, logger);
+
+  it('debería estar listo si todas las comprobaciones responden, con su latencia y detalles', async () => {
+    const useCase = makeUseCase([
+      healthCheck('database', async () => undefined),
+      healthCheck('outbox', async () => ({ due: 3, lagMs: 1200 })),
+    ]);
+
+    const report = await useCase.execute();
+
+    expect(report.ready).toBe(true);
+    expect(report.shuttingDown).toBe(false);
+    expect(report.checks.database).toEqual({
+      status: 'up',
+      latencyMs: expect.any(Number),
+    });
+    expect(report.checks.outbox).toEqual({
+      status: 'up',
+      latencyMs: expect.any(Number),
+      details: { due: 3, lagMs: 1200 },
+    });
+  });
+
+  it('no debería estar listo si alguna comprobación falla, y debería publicar solo los motivos de HealthCheckError', async () => {
+    const useCase = makeUseCase([
+      healthCheck('database', async () => {
+        throw new Error('connect ECONNREFUSED 10.0.0.5:5432');
+      }),
+      healthCheck('migrations', async () => {
+        throw new HealthCheckError('Migraciones pendientes: 2025_add_x');
+      }),
+      healthCheck('email', async () => undefined),
+    ]);
+
+    const report = await useCase.execute();
+
+    expect(report.ready).toBe(false);
+    expect(report.checks.database).toMatchObject({
+      status: 'down',
+      error: 'No disponible',
+    });
+    expect(report.checks.migrations).toMatchObject({
+      status: 'down',
+      error: 'Migraciones pendientes: 2025_add_x',
+    });
+    expect(report.checks.email.status).toBe('up');
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Comprobación de salud fallida',
+      expect.objectContaining({ check: 'database' })
+    );
+  });
+
+  it('debería dar por caída una comprobación que supera el tiempo máximo', async () => {
+    jest.useFakeTimers();
+    const useCase = makeUseCase(
+      [
+        healthCheck('database', () => new Promise(() => undefined)),
+        healthCheck('email', async () => undefined),
+      ],
+      500
+    );
+
+    const pending = useCase.execute();
+    await jest.advanceTimersByTimeAsync(500);
+    const report = await pending;
+
+    expect(report.ready).toBe(false);
+    expect(report.checks.database).toEqual({
+      status: 'down',
+      latencyMs: 500,
+      error: 'Sin respuesta en 500 ms',
+    });
+    expect(report.checks.email.status).toBe('up');
+  });
+
+  it('debería ejecutar las comprobaciones en paralelo', async () => {
+    jest.useFakeTimers();
+    const slow = () =>
+      new Promise<void>((resolve) => setTimeout(() => resolve(), 300));
+    const useCase = makeUseCase([
+      healthCheck('database', slow),
+      healthCheck('outbox', slow),
+    ]);
+
+    const pending = useCase.execute();
+    await jest.advanceTimersByTimeAsync(300);
+    const report = await pending;
+
+    expect(report.ready).toBe(true);
+  });
+
+  it('no debería estar listo durante el apagado, sin ejecutar las comprobaciones', async () => {
+    const database = healthCheck('database', async () => undefined);
+    const useCase = makeUseCase([database]);
+
+    useCase.markShuttingDown();
+    const report = await useCase.execute();
+
+    expect(report).toEqual({ ready: false, shuttingDown: true, checks: {} });
+    expect(database.check).not.toHaveBeenCalled();
+  });
+});
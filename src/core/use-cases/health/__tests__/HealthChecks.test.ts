@@ -0,0 +1,108 @@
+// src/core/use-cases/health/__tests__/HealthChecks.test.ts
+
+import {
+  DatabaseHealthCheck,
+  HealthCheckError,
+  OutboxLagHealthCheck,
+  PendingMigrationsHealthCheck,
+} from '@/core/use-cases/health/HealthChecks';
+import { IDatabaseHealth } from '@/core/interfaces/repositories/IDatabaseHealth';
+import { IOutboxRepository } from '@/core/interfaces/repositories/IOutboxRepository';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+describe('HealthChecks', () => {
+  let databaseHealth: jest.Mocked<IDatabaseHealth>;
+
+  beforeEach(() => {
+    databaseHealth = {
+      ping: jest.fn().mockResolvedValue(undefined),
+      findPendingMigrations: jest.fn().mockResolvedValue([]),
+    };
+  });
+
+  describe('DatabaseHealthCheck', () => {
+    it('debería propagar el fallo de la conexión', async () => {
+      databaseHealth.ping.mockRejectedValueOnce(new DatabaseConnectionError());
+
+      await expect(
+        new DatabaseHealthCheck(databaseHealth).check()
+      ).rejects.toThrow(DatabaseConnectionError);
+    });
+  });
+
+  describe('PendingMigrationsHealthCheck', () => {
+    it('debería estar disponible si no hay migraciones pendientes', async () => {
+      await expect(
+        new PendingMigrationsHealthCheck(databaseHealth).check()
+      ).resolves.toEqual({ managed: true, pending: 0 });
+    });
+
+    it('debería fallar listando las migraciones pendientes', async () => {
+      databaseHealth.findPendingMigrations.mockResolvedValueOnce([
+        '20251008000001_add_outbox_messages',
+        '20251009000001_add_courses',
+      ]);
+
+      await expect(
+        new PendingMigrationsHealthCheck(databaseHealth).check()
+      ).rejects.toThrow(
+        new HealthCheckError(
+          'Migraciones pendientes: 20251008000001_add_outbox_messages, 20251009000001_add_courses'
+        )
+      );
+    });
+
+    it('debería estar disponible si el motor no usa migraciones', async () => {
+      databaseHealth.findPendingMigrations.mockResolvedValueOnce(null);
+
+      await expect(
+        new PendingMigrationsHealthCheck(databaseHealth).check()
+      ).resolves.toEqual({ managed: false });
+    });
+  });
+
+  describe('OutboxLagHealthCheck', () => {
+    const outboxWithBacklog = (
+      due: number,
+      oldestDueAt: Date | null
+    ): IOutboxRepository =>
+      ({
+        getBacklog: jest.fn().mockResolvedValue({ due, oldestDueAt }),
+      }) as unknown as IOutboxRepository;
+
+    it('debería informar del retraso del evento más antiguo que ya se podía entregar', async () => {
+      const outbox = outboxWithBacklog(4, new Date(NOW.getTime() - 30_000));
+      const check = new OutboxLagHealthCheck(outbox, 60_000, () => NOW);
+
+      await expect(check.check()).resolves.toEqual({
+        due: 4,
+        lagMs: 30_000,
+      });
+      expect(outbox.getBacklog).toHaveBeenCalledWith(NOW);
+    });
+
+    it('debería estar disponible con el outbox vacío', async () => {
+      const check = new OutboxLagHealthCheck(
+        outboxWithBacklog(0, null),
+        60_000,
+        () => NOW
+      );
+
+      await expect(check.check()).resolves.toEqual({ due: 0, lagMs: 0 });
+    });
+
+    it('debería fallar si el retraso supera el máximo', async () => {
+      const check = new OutboxLagHealthCheck(
+        outboxWithBacklog(120, new Date(NOW.getTime() - 90_000)),
+        60_000,
+        () => NOW
+      );
+
+      await expect(check.check()).rejects.toThrow(
+        'El evento pendiente más antiguo espera desde hace 90 s (máximo 60 s)'
+      );
+    });
+  });
+});
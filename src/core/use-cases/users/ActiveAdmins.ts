@@ -0,0 +1,25 @@
+// src/core/use-cases/users/ActiveAdmins.ts
+
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { LastAdminError } from './UserManagementErrors';
+
+/**
+ * Comprueba que, sin contar al usuario indicado, queda algún administrador
+ * activo. Se llama dentro de IUnitOfWork.run después de
+ * IUserRepository.lockActiveAdmins(): así dos administradores que se
+ * degradan o se suspenden a la vez no pueden dejar el sistema sin ninguno.
+ * @throws LastAdminError si el usuario es el último administrador activo.
+ */
+export async function ensureAnotherActiveAdmin(
+  userRepository: IUserRepository,
+  userId: string
+): Promise<void> {
+  // Con dos basta: si uno es el propio usuario, el otro no
+  const { users } = await userRepository.search(
+    { role: 'admin', status: 'active' },
+    { limit: 2 }
+  );
+  if (!users.some((admin) => admin.id !== userId)) {
+    throw new LastAdminError();
+  }
+}
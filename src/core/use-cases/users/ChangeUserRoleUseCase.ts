@@ -0,0 +1,78 @@
+// src/core/use-cases/users/ChangeUserRoleUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { Role } from '@/core/domain/value-objects/Role';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { SelfModerationError } from './UserManagementErrors';
+import { ensureAnotherActiveAdmin } from './ActiveAdmins';
+
+export interface ChangeUserRoleInput {
+  actor: User; // Administrador que hace el cambio
+  userId: string;
+  role: string;
+  reason?: string | null;
+}
+
+/**
+ * Caso de uso de cambio de rol de un usuario.
+ *
+ * Un administrador no puede quitarse el rol a sí mismo, y nunca se degrada al
+ * último administrador activo. El cambio queda en el historial de moderación
+ * con el administrador como autor.
+ *
+ * La comprobación y el cambio van en la misma unidad de trabajo, con los
+ * administradores activos bloqueados: dos degradaciones simultáneas no
+ * pueden dejar el sistema sin administradores.
+ */
+export class ChangeUserRoleUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: ChangeUserRoleInput): Promise<User> {
+    const role = this.buildRole(input.role);
+
+    return this.unitOfWork.run(async ({ userRepository }) => {
+      await userRepository.lockActiveAdmins();
+
+      const user = await userRepository.findById(input.userId);
+      if (!user) {
+        throw new UserNotFoundError(input.userId);
+      }
+
+      if (user.getRoleValue() === role.value) {
+        return user;
+      }
+
+      const isDemotion =
+        user.hasAdminPrivileges() && !role.hasAdminPrivileges();
+      if (isDemotion) {
+        if (user.id === input.actor.id) {
+          throw new SelfModerationError('quitar el rol de administrador a');
+        }
+        await ensureAnotherActiveAdmin(userRepository, user.id);
+      }
+
+      const updated = await userRepository.update(
+        user.id,
+        { role },
+        { changedBy: input.actor.id, reason: input.reason?.trim() || null }
+      );
+      if (!updated) {
+        throw new UserNotFoundError(input.userId);
+      }
+      return updated;
+    });
+  }
+
+  private buildRole(role: string): Role {
+    try {
+      return new Role(role);
+    } catch (error) {
+      throw ValidationError.fromFieldErrors(
+        'Datos de cambio de rol inválidos',
+        { role: error }
+      );
+    }
+  }
+}
@@ -0,0 +1,105 @@
+// src/core/use-cases/users/ChangeUserStatusUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { SelfModerationError } from './UserManagementErrors';
+import { ensureAnotherActiveAdmin } from './ActiveAdmins';
+
+export type ModerationStatus = 'active' | 'suspended' | 'banned';
+
+export interface ChangeUserStatusInput {
+  actor: User; // Administrador que hace el cambio
+  userId: string;
+  status: ModerationStatus;
+  reason?: string | null;
+  suspendedUntil?: Date; // Obligatorio al suspender
+}
+
+/**
+ * Caso de uso de moderación: suspender, banear o reactivar a un usuario.
+ *
+ * Delega las reglas de transición en la entidad User (que lanza
+ * InvalidStatusTransitionError o InvalidStatusChangeError). Al suspender o
+ * banear se revocan los refresh tokens del usuario para cortar sus sesiones.
+ *
+ * Nunca se suspende ni se banea al último administrador activo. Como en
+ * ChangeUserRoleUseCase, la comprobación y el cambio van en la misma unidad
+ * de trabajo con los administradores activos bloqueados.
+ */
+export class ChangeUserStatusUseCase {
+  constructor(private readonly unitOfWork: IUnitOfWork) {}
+
+  async execute(input: ChangeUserStatusInput): Promise<User> {
+    const now = new Date();
+
+    if (input.status !== 'active' && input.userId === input.actor.id) {
+      throw new SelfModerationError(
+        input.status === 'banned' ? 'banear' : 'suspender'
+      );
+    }
+
+    return this.unitOfWork.run(
+      async ({ userRepository, refreshTokenRepository }) => {
+        await userRepository.lockActiveAdmins();
+
+        const user = await userRepository.findById(input.userId);
+        if (!user) {
+          throw new UserNotFoundError(input.userId);
+        }
+
+        const changed = this.applyTransition(user, input, now);
+        if (
+          user.hasAdminPrivileges() &&
+          user.canLogin() &&
+          !changed.canLogin()
+        ) {
+          await ensureAnotherActiveAdmin(userRepository, user.id);
+        }
+
+        const updated = await userRepository.update(user.id, {
+          status: changed.status,
+        });
+        if (!updated) {
+          throw new UserNotFoundError(input.userId);
+        }
+
+        if (!updated.canLogin()) {
+          await refreshTokenRepository.revokeAllForUser(user.id, now);
+        }
+
+        return updated;
+      }
+    );
+  }
+
+  private applyTransition(
+    user: User,
+    input: ChangeUserStatusInput,
+    now: Date
+  ): User {
+    switch (input.status) {
+      case 'suspended':
+        if (!input.suspendedUntil) {
+          throw new ValidationError(
+            'Datos de suspensión inválidos',
+            {
+              suspendedUntil: 'La fecha de fin de la suspensión es obligatoria',
+            },
+            { suspendedUntil: { code: 'FIELD_REQUIRED', params: {} } }
+          );
+        }
+        return user.suspend(
+          input.suspendedUntil,
+          input.reason ?? '',
+          input.actor.id,
+          now
+        );
+      case 'banned':
+        return user.ban(input.reason ?? '', input.actor.id, now);
+      case 'active':
+        return user.reactivate(input.actor.id, input.reason ?? null, now);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+// src/core/use-cases/users/DeleteUserUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { SelfModerationError } from './UserManagementErrors';
+
+export interface DeleteUserInput {
+  actor: User; // Administrador que elimina
+  userId: string;
+}
+
+/**
+ * Caso de uso de eliminación de un usuario por un administrador.
+ *
+ * IUserRepository.delete no falla si el usuario no existe, así que se
+ * comprueba antes para poder responder 404.
+ */
+export class DeleteUserUseCase {
+  constructor(private readonly userRepository: IUserRepository) {}
+
+  async execute(input: DeleteUserInput): Promise<void> {
+    if (input.userId === input.actor.id) {
+      throw new SelfModerationError('eliminar');
+    }
+
+    const user = await this.userRepository.findById(input.userId);
+    if (!user) {
+      throw new UserNotFoundError(input.userId);
+    }
+
+    await this.userRepository.delete(user.id, { changedBy: input.actor.id });
+  }
+}
@@ -0,0 +1,42 @@
+// src/core/use-cases/users/GetUserStatusHistoryUseCase.ts
+
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+import {
+  IUserStatusChangeRepository,
+  UserStatusChangePosition,
+} from '@/core/interfaces/repositories/IUserStatusChangeRepository';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+export interface GetUserStatusHistoryInput {
+  userId: string;
+  limit?: number;
+  before?: UserStatusChangePosition;
+}
+
+/**
+ * Caso de uso que devuelve el historial de moderación de un usuario
+ * (cambios de estado y de rol, y su eliminación), del más reciente al más
+ * antiguo.
+ *
+ * Pagina por cursor: para la página siguiente se pasan como `before` la
+ * fecha y el ID de la última entrada recibida.
+ */
+export class GetUserStatusHistoryUseCase {
+  constructor(
+    private readonly statusChangeRepository: IUserStatusChangeRepository
+  ) {}
+
+  async execute(input: GetUserStatusHistoryInput): Promise<UserStatusChange[]> {
+    const limit = Math.min(
+      Math.max(input.limit ?? DEFAULT_HISTORY_LIMIT, 1),
+      MAX_HISTORY_LIMIT
+    );
+
+    return this.statusChangeRepository.findByUserId(input.userId, {
+      limit,
+      before: input.before,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+// src/core/use-cases/users/GetUserUseCase.ts
+
+import { User } from '@/core/domain/entities/User';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+
+/**
+ * Caso de uso que obtiene el detalle de un usuario por su ID.
+ * Lanza UserNotFoundError si no existe.
+ */
+export class GetUserUseCase {
+  constructor(private readonly userRepository: IUserRepository) {}
+
+  async execute(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+    return user;
+  }
+}
@@ -0,0 +1,51 @@
+// src/core/use-cases/users/LiftExpiredSuspensionsUseCase.ts
+
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+export interface LiftExpiredSuspensionsResult {
+  lifted: number;
+  failed: number;
+}
+
+/**
+ * Caso de uso que reactiva a los usuarios cuya suspensión ya terminó.
+ *
+ * Lo ejecuta periódicamente el sistema (ver SuspensionExpiryJob). Un fallo con
+ * un usuario no interrumpe el resto: se registra y se reintenta en la
+ * siguiente ejecución, porque el usuario sigue apareciendo como expirado.
+ */
+export class LiftExpiredSuspensionsUseCase {
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly userRepository: IUserRepository,
+    logger: ILogger
+  ) {
+    this.logger = logger.child({ component: 'LiftExpiredSuspensionsUseCase' });
+  }
+
+  async execute(now: Date = new Date()): Promise<LiftExpiredSuspensionsResult> {
+    const expired =
+      await this.userRepository.findUsersWithExpiredSuspension(now);
+    const result: LiftExpiredSuspensionsResult = { lifted: 0, failed: 0 };
+
+    for (const user of expired) {
+      try {
+        const reactivated = user.liftExpiredSuspension(now);
+        await this.userRepository.update(user.id, {
+          status: reactivated.status,
+        });
+        result.lifted++;
+      } catch (error) {
+        result.failed++;
+        this.logger.error('No se pudo levantar la suspensión', {
+          userId: user.id,
+          error,
+        });
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,103 @@
+// src/core/use-cases/users/ListUsersUseCase.ts
+
+import { Role } from '@/core/domain/value-objects/Role';
+import { CountryCode } from '@/core/domain/value-objects/CountryCode';
+import {
+  IUserRepository,
+  MAX_USER_SEARCH_LIMIT,
+  UserPage,
+} from '@/core/interfaces/repositories/IUserRepository';
+import { ValidationError } from '@/shared/errors/ValidationError';
+
+export const DEFAULT_USER_LIST_LIMIT = 50;
+
+export interface ListUsersInput {
+  role?: string;
+  countryCode?: string;
+  limit?: number;
+  cursor?: string; // nextCursor de la página anterior
+}
+
+/**
+ * Caso de uso de listado de usuarios para administración.
+ *
+ * Filtra por rol, por país o por ambos (al menos uno) y pagina por cursor
+ * con IUserRepository.search, de los más recientes a los más antiguos.
+ */
+export class ListUsersUseCase {
+  constructor(private readonly userRepository: IUserRepository) {}
+
+  async execute(input: ListUsersInput): Promise<UserPage> {
+    const { role, countryCode } = this.buildFilters(input);
+    const limit = Math.min(
+      Math.max(input.limit ?? DEFAULT_USER_LIST_LIMIT, 1),
+      MAX_USER_SEARCH_LIMIT
+    );
+
+    return this.userRepository.search(
+      {
+        role: role?.value,
+        countryCode: countryCode?.value,
+      },
+      { limit, cursor: input.cursor }
+    );
+  }
+
+  private buildFilters(input: ListUsersInput): {
+    role: Role | null;
+    countryCode: CountryCode | null;
+  } {
+    if (!input.role && !input.countryCode) {
+      throw new ValidationError(
+        'Filtro de usuarios requerido',
+        { filter: 'Indica al menos un filtro: role o country' },
+        {
+          filter: {
+            code: 'USER_FILTER_REQUIRED',
+            params: { filters: ['role', 'country'] },
+          },
+        }
+      );
+    }
+
+    const errors: Record<string, unknown> = {};
+    const role = this.tryBuild(
+      errors,
+      'role',
+      input.role,
+      (value) => new Role(value)
+    );
+    const countryCode = this.tryBuild(
+      errors,
+      'country',
+      input.countryCode,
+      (value) => new CountryCode(value.toUpperCase())
+    );
+
+    if (Object.keys(errors).length > 0) {
+      throw ValidationError.fromFieldErrors(
+        'Filtros de usuarios inválidos',
+        errors
+      );
+    }
+
+    return { role, countryCode };
+  }
+
+  private tryBuild<T>(
+    errors: Record<string, unknown>,
+    field: string,
+    value: string | undefined,
+    build: (value: string) => T
+  ): T | null {
+    if (!value) {
+      return null;
+    }
+    try {
+      return build(value);
+    } catch (error) {
+      errors[field] = error;
+      return null;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+// src/core/use-cases/users/UserManagementErrors.ts
+
+import { AppError, ErrorCategory, ErrorCode } from '@/shared/errors/AppError';
+
+/**
+ * Errores de los casos de uso de administración de usuarios
+ */
+export class UserManagementError extends AppError {
+  constructor(message: string, code: ErrorCode, category: ErrorCategory) {
+    super(message, code, category);
+    this.name = 'UserManagementError';
+  }
+}
+
+// Un administrador no puede quitarse el rol, suspenderse, banearse ni
+// eliminarse a sí mismo: lo tiene que hacer otro administrador
+export class SelfModerationError extends UserManagementError {
+  constructor(action: string) {
+    super(
+      `Un administrador no puede ${action} su propia cuenta`,
+      'SELF_MODERATION',
+      'forbidden'
+    );
+    this.name = 'SelfModerationError';
+  }
+}
+
+// Quitar el rol al último administrador activo, o suspenderlo o banearlo,
+// dejaría el sistema sin nadie capaz de administrarlo
+export class LastAdminError extends UserManagementError {
+  constructor() {
+    super(
+      'No se puede quitar el rol ni bloquear al último administrador activo',
+      'LAST_ADMIN',
+      'conflict'
+    );
+    this.name = 'LastAdminError';
+  }
+}
@@ -0,0 +1,118 @@
+// src/core/use-cases/users/__tests__/ChangeUserRoleUseCase.test.ts
+
+import { ChangeUserRoleUseCase } from '@/core/use-cases/users/ChangeUserRoleUseCase';
+import {
+  LastAdminError,
+  SelfModerationError,
+} from '@/core/use-cases/users/UserManagementErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { UnitOfWorkRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { ValidationError } from '@/shared/errors/ValidationError';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('ChangeUserRoleUseCase', () => {
+  let actor: User;
+  let target: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let useCase: ChangeUserRoleUseCase;
+
+  function makeUser(name: string, role: string): User {
+    return User.createActiveUser(
+      new Email(`${name}@example.com`),
+      new Username(name),
+      new HashedPassword(HASH),
+      new Role(role)
+    );
+  }
+
+  beforeEach(() => {
+    actor = makeUser('acting_admin', 'admin');
+    target = makeUser('target_admin', 'admin');
+    userRepository = {
+      lockActiveAdmins: jest.fn().mockResolvedValue(undefined),
+      findById: jest.fn().mockResolvedValue(target),
+      search: jest.fn().mockResolvedValue({
+        users: [actor, target],
+        total: 2,
+        nextCursor: null,
+      }),
+      update: jest.fn().mockResolvedValue(target),
+    } as unknown as jest.Mocked<IUserRepository>;
+    // Unidad de trabajo sin transacción: entrega los dobles al trabajo
+    useCase = new ChangeUserRoleUseCase({
+      run: (work) =>
+        work({ userRepository } as unknown as UnitOfWorkRepositories),
+    });
+  });
+
+  it('debería degradar a otro administrador si queda alguno activo', async () => {
+    await useCase.execute({
+      actor,
+      userId: target.id,
+      role: 'student',
+      reason: '  Rotación  ',
+    });
+
+    const [id, data, context] = userRepository.update.mock.calls[0];
+    expect(id).toBe(target.id);
+    expect(data.role?.value).toBe('student');
+    expect(context).toEqual({ changedBy: actor.id, reason: 'Rotación' });
+    expect(
+      userRepository.lockActiveAdmins.mock.invocationCallOrder[0]
+    ).toBeLessThan(userRepository.findById.mock.invocationCallOrder[0]);
+  });
+
+  it('debería impedir que un administrador se degrade a sí mismo', async () => {
+    userRepository.findById.mockResolvedValueOnce(actor);
+
+    await expect(
+      useCase.execute({ actor, userId: actor.id, role: 'student' })
+    ).rejects.toBeInstanceOf(SelfModerationError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('no debería degradar al último administrador activo', async () => {
+    userRepository.search.mockResolvedValueOnce({
+      users: [target],
+      total: 1,
+      nextCursor: null,
+    });
+
+    await expect(
+      useCase.execute({ actor, userId: target.id, role: 'student' })
+    ).rejects.toBeInstanceOf(LastAdminError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('no debería tocar nada si el rol no cambia', async () => {
+    const result = await useCase.execute({
+      actor,
+      userId: target.id,
+      role: 'admin',
+    });
+
+    expect(result).toBe(target);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('debería rechazar roles inválidos', async () => {
+    await expect(
+      useCase.execute({ actor, userId: target.id, role: 'superuser' })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('debería lanzar UserNotFoundError si el usuario no existe', async () => {
+    userRepository.findById.mockResolvedValueOnce(null);
+
+    await expect(
+      useCase.execute({ actor, userId: 'missing', role: 'student' })
+    ).rejects.toBeInstanceOf(UserNotFoundError);
+  });
+});
@@ -0,0 +1,196 @@
+// src/core/use-cases/users/__tests__/ChangeUserStatusUseCase.test.ts
+
+import { ChangeUserStatusUseCase } from '@/core/use-cases/users/ChangeUserStatusUseCase';
+import {
+  LastAdminError,
+  SelfModerationError,
+} from '@/core/use-cases/users/UserManagementErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { UnitOfWorkRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { UserNotFoundError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { InvalidStatusTransitionError } from '@/core/domain/errors/UserStatusErrors';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { ValidationError } from '@/shared/errors/ValidationError';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ChangeUserStatusUseCase', () => {
+  let actor: User;
+  let target: User;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let refreshTokenRepository: jest.Mocked<IRefreshTokenRepository>;
+  let useCase: ChangeUserStatusUseCase;
+
+  function makeUser(name: string, role: string): User {
+    return User.createActiveUser(
+      new Email(`${name}@example.com`),
+      new Username(name),
+      new HashedPassword(HASH),
+      new Role(role)
+    );
+  }
+
+  beforeEach(() => {
+    actor = makeUser('acting_admin', 'admin');
+    target = makeUser('target_user', 'student');
+    userRepository = {
+      lockActiveAdmins: jest.fn().mockResolvedValue(undefined),
+      findById: jest.fn().mockResolvedValue(target),
+      search: jest.fn().mockResolvedValue({
+        users: [actor],
+        total: 1,
+        nextCursor: null,
+      }),
+      update: jest.fn(async (id: string, data: Partial<User>) =>
+        User.fromPersistence(
+          id,
+          target.email,
+          target.username,
+          target.passwordHash,
+          target.role,
+          data.status!,
+          null,
+          null,
+          target.createdAt,
+          target.updatedAt
+        )
+      ),
+    } as unknown as jest.Mocked<IUserRepository>;
+    refreshTokenRepository = {
+      create: jest.fn(),
+      findByHash: jest.fn(),
+      rotate: jest.fn(),
+      revokeFamily: jest.fn(),
+      revokeAllForUser: jest.fn().mockResolvedValue(undefined),
+    };
+    // Unidad de trabajo sin transacción: entrega los dobles al trabajo
+    useCase = new ChangeUserStatusUseCase({
+      run: (work) =>
+        work({
+          userRepository,
+          refreshTokenRepository,
+        } as unknown as UnitOfWorkRepositories),
+    });
+  });
+
+  it('debería banear y revocar las sesiones del usuario', async () => {
+    const result = await useCase.execute({
+      actor,
+      userId: target.id,
+      status: 'banned',
+      reason: 'Fraude',
+    });
+
+    expect(result.isBanned()).toBe(true);
+    const [, data] = userRepository.update.mock.calls[0];
+    expect(data.status?.changedBy).toBe(actor.id);
+    expect(data.status?.reason).toBe('Fraude');
+    expect(refreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+      target.id,
+      expect.any(Date)
+    );
+  });
+
+  it('debería reactivar a un usuario suspendido sin revocar sesiones', async () => {
+    userRepository.findById.mockResolvedValueOnce(
+      target.suspend(new Date(Date.now() + DAY), 'Spam', actor.id)
+    );
+
+    const result = await useCase.execute({
+      actor,
+      userId: target.id,
+      status: 'active',
+    });
+
+    expect(result.isActive()).toBe(true);
+    expect(refreshTokenRepository.revokeAllForUser).not.toHaveBeenCalled();
+  });
+
+  it('debería bloquear a los administradores activos antes de leer al usuario', async () => {
+    await useCase.execute({
+      actor,
+      userId: target.id,
+      status: 'banned',
+      reason: 'Fraude',
+    });
+
+    expect(
+      userRepository.lockActiveAdmins.mock.invocationCallOrder[0]
+    ).toBeLessThan(userRepository.findById.mock.invocationCallOrder[0]);
+  });
+
+  it('no debería suspender al último administrador activo', async () => {
+    const targetAdmin = makeUser('target_admin', 'admin');
+    userRepository.findById.mockResolvedValueOnce(targetAdmin);
+    userRepository.search.mockResolvedValueOnce({
+      users: [targetAdmin],
+      total: 1,
+      nextCursor: null,
+    });
+
+    await expect(
+      useCase.execute({
+        actor,
+        userId: targetAdmin.id,
+        status: 'suspended',
+        reason: 'Revisión',
+        suspendedUntil: new Date(Date.now() + DAY),
+      })
+    ).rejects.toBeInstanceOf(LastAdminError);
+    expect(userRepository.search).toHaveBeenCalledWith(
+      { role: 'admin', status: 'active' },
+      { limit: 2 }
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('debería exigir la fecha de fin al suspender', async () => {
+    await expect(
+      useCase.execute({
+        actor,
+        userId: target.id,
+        status: 'suspended',
+        reason: 'Spam',
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('debería propagar las transiciones no permitidas del dominio', async () => {
+    await expect(
+      useCase.execute({ actor, userId: target.id, status: 'active' })
+    ).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('debería impedir que un administrador se suspenda a sí mismo', async () => {
+    await expect(
+      useCase.execute({
+        actor,
+        userId: actor.id,
+        status: 'suspended',
+        reason: 'Prueba',
+        suspendedUntil: new Date(Date.now() + DAY),
+      })
+    ).rejects.toBeInstanceOf(SelfModerationError);
+    expect(userRepository.findById).not.toHaveBeenCalled();
+  });
+
+  it('debería lanzar UserNotFoundError si el usuario no existe', async () => {
+    userRepository.findById.mockResolvedValueOnce(null);
+
+    await expect(
+      useCase.execute({
+        actor,
+        userId: 'missing',
+        status: 'banned',
+        reason: 'Fraude',
+      })
+    ).rejects.toBeInstanceOf(UserNotFoundError);
+  });
+});
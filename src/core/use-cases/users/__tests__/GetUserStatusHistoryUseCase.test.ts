@@ -0,0 +1,59 @@
+// src/core/use-cases/users/__tests__/GetUserStatusHistoryUseCase.test.ts
+
+import {
+  DEFAULT_HISTORY_LIMIT,
+  GetUserStatusHistoryUseCase,
+  MAX_HISTORY_LIMIT,
+} from '@/core/use-cases/users/GetUserStatusHistoryUseCase';
+import { IUserStatusChangeRepository } from '@/core/interfaces/repositories/IUserStatusChangeRepository';
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+
+const USER_ID = '9b2f4c1e-7a3d-4e5f-8a6b-0c1d2e3f4a5b';
+
+describe('GetUserStatusHistoryUseCase', () => {
+  let repository: jest.Mocked<IUserStatusChangeRepository>;
+  let useCase: GetUserStatusHistoryUseCase;
+
+  beforeEach(() => {
+    repository = { findByUserId: jest.fn().mockResolvedValue([]) };
+    useCase = new GetUserStatusHistoryUseCase(repository);
+  });
+
+  it('debería devolver el historial del usuario', async () => {
+    const change = UserStatusChange.record({
+      userId: USER_ID,
+      kind: 'status',
+      fromValue: 'active',
+      toValue: 'banned',
+      reason: 'Fraude',
+    });
+    repository.findByUserId.mockResolvedValueOnce([change]);
+    const before = {
+      createdAt: new Date('2025-10-06T10:00:00Z'),
+      id: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+    };
+
+    const result = await useCase.execute({
+      userId: USER_ID,
+      limit: 10,
+      before,
+    });
+
+    expect(result).toEqual([change]);
+    expect(repository.findByUserId).toHaveBeenCalledWith(USER_ID, {
+      limit: 10,
+      before,
+    });
+  });
+
+  it('debería usar el límite por defecto y acotar el máximo', async () => {
+    await useCase.execute({ userId: USER_ID });
+    await useCase.execute({ userId: USER_ID, limit: 10_000 });
+    await useCase.execute({ userId: USER_ID, limit: 0 });
+
+    const limits = repository.findByUserId.mock.calls.map(
+      ([, query]) => query.limit
+    );
+    expect(limits).toEqual([DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT, 1]);
+  });
+});
@@ -0,0 +1,94 @@
+// src/core/use-cases/users/__tests__/LiftExpiredSuspensionsUseCase.test.ts
+
+import { LiftExpiredSuspensionsUseCase } from '@/core/use-cases/users/LiftExpiredSuspensionsUseCase';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const HOUR = 60 * 60 * 1000;
+
+describe('LiftExpiredSuspensionsUseCase', () => {
+  let userRepository: jest.Mocked<IUserRepository>;
+  let logger: jest.Mocked<ILogger>;
+  let useCase: LiftExpiredSuspensionsUseCase;
+  let now: Date;
+
+  function suspendedUser(name: string, until: Date): User {
+    const user = User.createActiveUser(
+      new Email(`${name}@example.com`),
+      new Username(name),
+      new HashedPassword(HASH),
+      new Role('student')
+    );
+    return user.suspend(
+      until,
+      'Spam',
+      'admin-id',
+      new Date(until.getTime() - HOUR)
+    );
+  }
+
+  beforeEach(() => {
+    now = new Date(Date.now() + 3 * HOUR);
+    userRepository = {
+      findUsersWithExpiredSuspension: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IUserRepository>;
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+    useCase = new LiftExpiredSuspensionsUseCase(userRepository, logger);
+  });
+
+  it('debería reactivar a los usuarios con la suspensión expirada', async () => {
+    const user = suspendedUser('expired_user', new Date(now.getTime() - 1));
+    userRepository.findUsersWithExpiredSuspension.mockResolvedValueOnce([user]);
+
+    const result = await useCase.execute(now);
+
+    expect(result).toEqual({ lifted: 1, failed: 0 });
+    expect(userRepository.findUsersWithExpiredSuspension).toHaveBeenCalledWith(
+      now
+    );
+    const [id, data] = userRepository.update.mock.calls[0];
+    expect(id).toBe(user.id);
+    expect(data.status?.isActive()).toBe(true);
+    expect(data.status?.changedBy).toBeNull();
+    expect(data.status?.changedAt).toBe(now);
+  });
+
+  it('debería seguir con el resto si falla un usuario', async () => {
+    const first = suspendedUser('first_user', new Date(now.getTime() - HOUR));
+    const second = suspendedUser('second_user', new Date(now.getTime() - 1));
+    userRepository.findUsersWithExpiredSuspension.mockResolvedValueOnce([
+      first,
+      second,
+    ]);
+    userRepository.update.mockRejectedValueOnce(new Error('boom'));
+
+    const result = await useCase.execute(now);
+
+    expect(result).toEqual({ lifted: 1, failed: 1 });
+    expect(userRepository.update).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('no debería reactivar suspensiones que aún no han expirado', async () => {
+    const user = suspendedUser('current_user', new Date(now.getTime() + HOUR));
+    userRepository.findUsersWithExpiredSuspension.mockResolvedValueOnce([user]);
+
+    const result = await useCase.execute(now);
+
+    expect(result).toEqual({ lifted: 0, failed: 1 });
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+// src/infrastructure/config/__tests__/container.test.ts
+
+import { createContainer, TOKENS } from '@/infrastructure/config/container';
+import { JsonLogger } from '@/infrastructure/logging/JsonLogger';
+import { runWithRequestContext } from '@/infrastructure/logging/RequestContext';
+
+describe('createContainer', () => {
+  describe('RequestLogger', () => {
+    it('debería dar a cada petición su propio logger con su correlationId', () => {
+      const lines: string[] = [];
+      const container = createContainer().registerValue(
+        TOKENS.Logger,
+        new JsonLogger({ write: (line) => lines.push(line) })
+      );
+      const first = container.createScope();
+      const second = container.createScope();
+
+      const firstLogger = runWithRequestContext(
+        { correlationId: 'req-1' },
+        () => first.resolve(TOKENS.RequestLogger)
+      );
+      const secondLogger = runWithRequestContext(
+        { correlationId: 'req-2' },
+        () => second.resolve(TOKENS.RequestLogger)
+      );
+
+      expect(first.resolve(TOKENS.RequestLogger)).toBe(firstLogger);
+      expect(secondLogger).not.toBe(firstLogger);
+
+      // Fuera del contexto de la petición cada uno conserva su correlationId
+      firstLogger.info('primera');
+      secondLogger.info('segunda');
+      expect(lines.map((line) => JSON.parse(line).correlationId)).toEqual([
+        'req-1',
+        'req-2',
+      ]);
+    });
+
+    it('no debería resolverse fuera de una petición', () => {
+      expect(() => createContainer().resolve(TOKENS.RequestLogger)).toThrow(
+        'RequestLogger es una dependencia de petición'
+      );
+    });
+  });
+});
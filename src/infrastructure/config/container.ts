@@ -0,0 +1,841 @@
+// src/infrastructure/config/container.ts
+
+/**
+ * Raíz de composición de la aplicación.
+ *
+ * Registra contra tokens de interfaz todos los colaboradores (repositorios,
+ * servicios, gateways, casos de uso, controladores y guards) con su
+ * implementación de producción. Los registros son perezosos: nada se
+ * construye hasta que se resuelve, así que los tests pueden reemplazar
+ * cualquier token por un doble con `container.registerValue(...)` antes de
+ * montar la aplicación con createApp(container).
+ *
+ * @module Container
+ * @category Infrastructure/Config
+ */
+
+import { RequestHandler } from 'express';
+import { Container, Token } from '@/shared/di/Container';
+import { config } from '@/infrastructure/config/environment';
+import { DatabaseFactory } from '@/infrastructure/database/factories/DatabaseFactory';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import { IUserStatusChangeRepository } from '@/core/interfaces/repositories/IUserStatusChangeRepository';
+import { IUnitOfWork } from '@/core/interfaces/repositories/IUnitOfWork';
+import { IOutboxRepository } from '@/core/interfaces/repositories/IOutboxRepository';
+import { ICourseRepository } from '@/core/interfaces/repositories/ICourseRepository';
+import { ICourseCollaboratorRepository } from '@/core/interfaces/repositories/ICourseCollaboratorRepository';
+import { IPublicationRepository } from '@/core/interfaces/repositories/IPublicationRepository';
+import {
+  ILessonRepository,
+  ILevelRepository,
+  IModuleRepository,
+  ISectionRepository,
+} from '@/core/interfaces/repositories/IContentNodeRepository';
+import { IExerciseRepository } from '@/core/interfaces/repositories/IExerciseRepository';
+import { ILessonExerciseRepository } from '@/core/interfaces/repositories/ILessonExerciseRepository';
+import { IDatabaseHealth } from '@/core/interfaces/repositories/IDatabaseHealth';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { ITokenService } from '@/core/interfaces/services/ITokenService';
+import { IEmailGateway } from '@/core/interfaces/gateways/IEmailGateway';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { IDomainEventHandler } from '@/core/interfaces/events/IDomainEventHandler';
+import {
+  IHealthCheck,
+  isHealthCheck,
+} from '@/core/interfaces/services/IHealthCheck';
+import { PasswordService } from '@/infrastructure/services/PasswordService';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+import { FileEmailGateway } from '@/infrastructure/external/email/FileEmailGateway';
+import { JsonLogger } from '@/infrastructure/logging/JsonLogger';
+import { getRequestContext } from '@/infrastructure/logging/RequestContext';
+import { RegisterUserUseCase } from '@/core/use-cases/auth/RegisterUserUseCase';
+import { LoginUseCase } from '@/core/use-cases/auth/LoginUseCase';
+import { RefreshTokenUseCase } from '@/core/use-cases/auth/RefreshTokenUseCase';
+import { AuthTokenIssuer } from '@/core/use-cases/auth/AuthTokenIssuer';
+import { SendEmailConfirmationUseCase } from '@/core/use-cases/auth/SendEmailConfirmationUseCase';
+import { ConfirmEmailUseCase } from '@/core/use-cases/auth/ConfirmEmailUseCase';
+import { ResendEmailConfirmationUseCase } from '@/core/use-cases/auth/ResendEmailConfirmationUseCase';
+import { RequestPasswordResetUseCase } from '@/core/use-cases/auth/RequestPasswordResetUseCase';
+import { ResetPasswordUseCase } from '@/core/use-cases/auth/ResetPasswordUseCase';
+import { VerificationTokenIssuer } from '@/core/use-cases/auth/VerificationTokenIssuer';
+import { SendConfirmationEmailOnUserRegistered } from '@/core/use-cases/auth/SendConfirmationEmailOnUserRegistered';
+import { DispatchDomainEventsUseCase } from '@/core/use-cases/events/DispatchDomainEventsUseCase';
+import { LiftExpiredSuspensionsUseCase } from '@/core/use-cases/users/LiftExpiredSuspensionsUseCase';
+import { GetUserStatusHistoryUseCase } from '@/core/use-cases/users/GetUserStatusHistoryUseCase';
+import { ListUsersUseCase } from '@/core/use-cases/users/ListUsersUseCase';
+import { GetUserUseCase } from '@/core/use-cases/users/GetUserUseCase';
+import { ChangeUserRoleUseCase } from '@/core/use-cases/users/ChangeUserRoleUseCase';
+import { ChangeUserStatusUseCase } from '@/core/use-cases/users/ChangeUserStatusUseCase';
+import { DeleteUserUseCase } from '@/core/use-cases/users/DeleteUserUseCase';
+import { CheckReadinessUseCase } from '@/core/use-cases/health/CheckReadinessUseCase';
+import { ListEditableCoursesUseCase } from '@/core/use-cases/authoring/ListEditableCoursesUseCase';
+import { GetCourseOutlineUseCase } from '@/core/use-cases/authoring/GetCourseOutlineUseCase';
+import { CreateCourseUseCase } from '@/core/use-cases/authoring/CreateCourseUseCase';
+import { UpdateCourseUseCase } from '@/core/use-cases/authoring/UpdateCourseUseCase';
+import { DeleteCourseUseCase } from '@/core/use-cases/authoring/DeleteCourseUseCase';
+import { AddCourseCollaboratorUseCase } from '@/core/use-cases/authoring/AddCourseCollaboratorUseCase';
+import { RemoveCourseCollaboratorUseCase } from '@/core/use-cases/authoring/RemoveCourseCollaboratorUseCase';
+import { CreateContentNodeUseCase } from '@/core/use-cases/authoring/CreateContentNodeUseCase';
+import { UpdateContentNodeUseCase } from '@/core/use-cases/authoring/UpdateContentNodeUseCase';
+import { DeleteContentNodeUseCase } from '@/core/use-cases/authoring/DeleteContentNodeUseCase';
+import { ReorderContentUseCase } from '@/core/use-cases/authoring/ReorderContentUseCase';
+import { CreateExerciseUseCase } from '@/core/use-cases/authoring/CreateExerciseUseCase';
+import { GetExerciseUseCase } from '@/core/use-cases/authoring/GetExerciseUseCase';
+import { UpdateExerciseUseCase } from '@/core/use-cases/authoring/UpdateExerciseUseCase';
+import { DeleteExerciseUseCase } from '@/core/use-cases/authoring/DeleteExerciseUseCase';
+import { AttachExerciseUseCase } from '@/core/use-cases/authoring/AttachExerciseUseCase';
+import { DetachExerciseUseCase } from '@/core/use-cases/authoring/DetachExerciseUseCase';
+import { GetPublicationUseCase } from '@/core/use-cases/authoring/GetPublicationUseCase';
+import { SubmitForReviewUseCase } from '@/core/use-cases/authoring/SubmitForReviewUseCase';
+import { ReviewPublicationUseCase } from '@/core/use-cases/authoring/ReviewPublicationUseCase';
+import { RollBackPublicationUseCase } from '@/core/use-cases/authoring/RollBackPublicationUseCase';
+import { ArchivePublicationUseCase } from '@/core/use-cases/authoring/ArchivePublicationUseCase';
+import { ListPendingReviewsUseCase } from '@/core/use-cases/authoring/ListPendingReviewsUseCase';
+import { ListPublishedCoursesUseCase } from '@/core/use-cases/catalog/ListPublishedCoursesUseCase';
+import { GetPublishedCourseUseCase } from '@/core/use-cases/catalog/GetPublishedCourseUseCase';
+import { GetPublishedLessonUseCase } from '@/core/use-cases/catalog/GetPublishedLessonUseCase';
+import {
+  DatabaseHealthCheck,
+  OutboxLagHealthCheck,
+  PendingMigrationsHealthCheck,
+} from '@/core/use-cases/health/HealthChecks';
+import { AuthController } from '@/modules/auth/controllers/AuthController';
+import { AdminUserController } from '@/modules/users/controllers/AdminUserController';
+import { HealthController } from '@/modules/health/controllers/HealthController';
+import { AuthoringController } from '@/modules/authoring/controllers/AuthoringController';
+import { CatalogController } from '@/modules/catalog/controllers/CatalogController';
+import { createAuthenticate } from '@/infrastructure/web/middleware/authenticate';
+import {
+  createRequireAdmin,
+  createRequireContentCreator,
+} from '@/infrastructure/web/middleware/requireAdmin';
+import { SuspensionExpiryJob } from '@/infrastructure/jobs/SuspensionExpiryJob';
+import { OutboxDispatcherJob } from '@/infrastructure/jobs/OutboxDispatcherJob';
+
+/**
+ * Tokens de todas las dependencias de la aplicación
+ */
+export const TOKENS = {
+  // Persistencia
+  DatabaseFactory: new Token<DatabaseFactory>('DatabaseFactory'),
+  UserRepository: new Token<IUserRepository>('IUserRepository'),
+  RefreshTokenRepository: new Token<IRefreshTokenRepository>(
+    'IRefreshTokenRepository'
+  ),
+  VerificationTokenRepository: new Token<IVerificationTokenRepository>(
+    'IVerificationTokenRepository'
+  ),
+  UserStatusChangeRepository: new Token<IUserStatusChangeRepository>(
+    'IUserStatusChangeRepository'
+  ),
+  OutboxRepository: new Token<IOutboxRepository>('IOutboxRepository'),
+  CourseRepository: new Token<ICourseRepository>('ICourseRepository'),
+  CourseCollaboratorRepository: new Token<ICourseCollaboratorRepository>(
+    'ICourseCollaboratorRepository'
+  ),
+  LevelRepository: new Token<ILevelRepository>('ILevelRepository'),
+  SectionRepository: new Token<ISectionRepository>('ISectionRepository'),
+  ModuleRepository: new Token<IModuleRepository>('IModuleRepository'),
+  LessonRepository: new Token<ILessonRepository>('ILessonRepository'),
+  ExerciseRepository: new Token<IExerciseRepository>('IExerciseRepository'),
+  LessonExerciseRepository: new Token<ILessonExerciseRepository>(
+    'ILessonExerciseRepository'
+  ),
+  PublicationRepository: new Token<IPublicationRepository>(
+    'IPublicationRepository'
+  ),
+  UnitOfWork: new Token<IUnitOfWork>('IUnitOfWork'),
+  DatabaseHealth: new Token<IDatabaseHealth>('IDatabaseHealth'),
+
+  // Servicios y gateways
+  Logger: new Token<ILogger>('ILogger'),
+  RequestLogger: new Token<ILogger>('RequestLogger'), // Uno por petición, con su correlationId
+  PasswordService: new Token<IPasswordService>('IPasswordService'),
+  TokenService: new Token<ITokenService>('ITokenService'),
+  EmailGateway: new Token<IEmailGateway>('IEmailGateway'),
+
+  // Casos de uso de autenticación
+  AuthTokenIssuer: new Token<AuthTokenIssuer>('AuthTokenIssuer'),
+  SendEmailConfirmationUseCase: new Token<SendEmailConfirmationUseCase>(
+    'SendEmailConfirmationUseCase'
+  ),
+  RegisterUserUseCase: new Token<RegisterUserUseCase>('RegisterUserUseCase'),
+  LoginUseCase: new Token<LoginUseCase>('LoginUseCase'),
+  RefreshTokenUseCase: new Token<RefreshTokenUseCase>('RefreshTokenUseCase'),
+  ConfirmEmailUseCase: new Token<ConfirmEmailUseCase>('ConfirmEmailUseCase'),
+  ResendEmailConfirmationUseCase: new Token<ResendEmailConfirmationUseCase>(
+    'ResendEmailConfirmationUseCase'
+  ),
+  RequestPasswordResetUseCase: new Token<RequestPasswordResetUseCase>(
+    'RequestPasswordResetUseCase'
+  ),
+  ResetPasswordUseCase: new Token<ResetPasswordUseCase>('ResetPasswordUseCase'),
+
+  // Casos de uso de administración de usuarios
+  ListUsersUseCase: new Token<ListUsersUseCase>('ListUsersUseCase'),
+  GetUserUseCase: new Token<GetUserUseCase>('GetUserUseCase'),
+  ChangeUserRoleUseCase: new Token<ChangeUserRoleUseCase>(
+    'ChangeUserRoleUseCase'
+  ),
+  ChangeUserStatusUseCase: new Token<ChangeUserStatusUseCase>(
+    'ChangeUserStatusUseCase'
+  ),
+  DeleteUserUseCase: new Token<DeleteUserUseCase>('DeleteUserUseCase'),
+  GetUserStatusHistoryUseCase: new Token<GetUserStatusHistoryUseCase>(
+    'GetUserStatusHistoryUseCase'
+  ),
+  LiftExpiredSuspensionsUseCase: new Token<LiftExpiredSuspensionsUseCase>(
+    'LiftExpiredSuspensionsUseCase'
+  ),
+
+  // Casos de uso de edición de contenido
+  ListEditableCoursesUseCase: new Token<ListEditableCoursesUseCase>(
+    'ListEditableCoursesUseCase'
+  ),
+  GetCourseOutlineUseCase: new Token<GetCourseOutlineUseCase>(
+    'GetCourseOutlineUseCase'
+  ),
+  CreateCourseUseCase: new Token<CreateCourseUseCase>('CreateCourseUseCase'),
+  UpdateCourseUseCase: new Token<UpdateCourseUseCase>('UpdateCourseUseCase'),
+  DeleteCourseUseCase: new Token<DeleteCourseUseCase>('DeleteCourseUseCase'),
+  AddCourseCollaboratorUseCase: new Token<AddCourseCollaboratorUseCase>(
+    'AddCourseCollaboratorUseCase'
+  ),
+  RemoveCourseCollaboratorUseCase: new Token<RemoveCourseCollaboratorUseCase>(
+    'RemoveCourseCollaboratorUseCase'
+  ),
+  CreateContentNodeUseCase: new Token<CreateContentNodeUseCase>(
+    'CreateContentNodeUseCase'
+  ),
+  UpdateContentNodeUseCase: new Token<UpdateContentNodeUseCase>(
+    'UpdateContentNodeUseCase'
+  ),
+  DeleteContentNodeUseCase: new Token<DeleteContentNodeUseCase>(
+    'DeleteContentNodeUseCase'
+  ),
+  ReorderContentUseCase: new Token<ReorderContentUseCase>(
+    'ReorderContentUseCase'
+  ),
+  CreateExerciseUseCase: new Token<CreateExerciseUseCase>(
+    'CreateExerciseUseCase'
+  ),
+  GetExerciseUseCase: new Token<GetExerciseUseCase>('GetExerciseUseCase'),
+  UpdateExerciseUseCase: new Token<UpdateExerciseUseCase>(
+    'UpdateExerciseUseCase'
+  ),
+  DeleteExerciseUseCase: new Token<DeleteExerciseUseCase>(
+    'DeleteExerciseUseCase'
+  ),
+  AttachExerciseUseCase: new Token<AttachExerciseUseCase>(
+    'AttachExerciseUseCase'
+  ),
+  DetachExerciseUseCase: new Token<DetachExerciseUseCase>(
+    'DetachExerciseUseCase'
+  ),
+  GetPublicationUseCase: new Token<GetPublicationUseCase>(
+    'GetPublicationUseCase'
+  ),
+  SubmitForReviewUseCase: new Token<SubmitForReviewUseCase>(
+    'SubmitForReviewUseCase'
+  ),
+  ReviewPublicationUseCase: new Token<ReviewPublicationUseCase>(
+    'ReviewPublicationUseCase'
+  ),
+  RollBackPublicationUseCase: new Token<RollBackPublicationUseCase>(
+    'RollBackPublicationUseCase'
+  ),
+  ArchivePublicationUseCase: new Token<ArchivePublicationUseCase>(
+    'ArchivePublicationUseCase'
+  ),
+  ListPendingReviewsUseCase: new Token<ListPendingReviewsUseCase>(
+    'ListPendingReviewsUseCase'
+  ),
+
+  // Catálogo de los alumnos
+  ListPublishedCoursesUseCase: new Token<ListPublishedCoursesUseCase>(
+    'ListPublishedCoursesUseCase'
+  ),
+  GetPublishedCourseUseCase: new Token<GetPublishedCourseUseCase>(
+    'GetPublishedCourseUseCase'
+  ),
+  GetPublishedLessonUseCase: new Token<GetPublishedLessonUseCase>(
+    'GetPublishedLessonUseCase'
+  ),
+
+  // Eventos de dominio
+  DomainEventHandlers: new Token<IDomainEventHandler[]>('DomainEventHandlers'), // Suscriptores del dispatcher
+  DispatchDomainEventsUseCase: new Token<DispatchDomainEventsUseCase>(
+    'DispatchDomainEventsUseCase'
+  ),
+
+  // Salud del servicio
+  HealthChecks: new Token<IHealthCheck[]>('HealthChecks'), // Comprobaciones de readiness
+  CheckReadinessUseCase: new Token<CheckReadinessUseCase>(
+    'CheckReadinessUseCase'
+  ),
+
+  // Web y jobs
+  AuthController: new Token<AuthController>('AuthController'),
+  AdminUserController: new Token<AdminUserController>('AdminUserController'),
+  HealthController: new Token<HealthController>('HealthController'),
+  AuthoringController: new Token<AuthoringController>('AuthoringController'),
+  CatalogController: new Token<CatalogController>('CatalogController'),
+  AdminGuards: new Token<RequestHandler[]>('AdminGuards'), // Autenticación + rol de administrador
+  ContentCreatorGuards: new Token<RequestHandler[]>('ContentCreatorGuards'), // Autenticación + rol de creador de contenido
+  LearnerGuards: new Token<RequestHandler[]>('LearnerGuards'), // Autenticación
+  SuspensionExpiryJob: new Token<SuspensionExpiryJob>('SuspensionExpiryJob'),
+  OutboxDispatcherJob: new Token<OutboxDispatcherJob>('OutboxDispatcherJob'),
+} as const;
+
+/**
+ * Crea el contenedor con los registros de producción
+ */
+export function createContainer(): Container {
+  const container = Container.create();
+
+  registerPersistence(container);
+  registerServices(container);
+  registerAuth(container);
+  registerUserAdministration(container);
+  registerAuthoring(container);
+  registerCatalog(container);
+  registerEvents(container);
+  registerHealth(container);
+  registerWeb(container);
+
+  return container;
+}
+
+function registerPersistence(container: Container): void {
+  container
+    .register(TOKENS.DatabaseFactory, (c) =>
+      DatabaseFactory.create(undefined, c.resolve(TOKENS.Logger))
+    )
+    .register(
+      TOKENS.UserRepository,
+      (c) => c.resolve(TOKENS.DatabaseFactory).getRepositories().userRepository
+    )
+    .register(
+      TOKENS.RefreshTokenRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories()
+          .refreshTokenRepository
+    )
+    .register(
+      TOKENS.VerificationTokenRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories()
+          .verificationTokenRepository
+    )
+    .register(
+      TOKENS.UserStatusChangeRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories()
+          .userStatusChangeRepository
+    )
+    .register(
+      TOKENS.OutboxRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories().outboxRepository
+    )
+    .register(
+      TOKENS.CourseRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories().courseRepository
+    )
+    .register(
+      TOKENS.CourseCollaboratorRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories()
+          .courseCollaboratorRepository
+    )
+    .register(
+      TOKENS.LevelRepository,
+      (c) => c.resolve(TOKENS.DatabaseFactory).getRepositories().levelRepository
+    )
+    .register(
+      TOKENS.SectionRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories().sectionRepository
+    )
+    .register(
+      TOKENS.ModuleRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories().moduleRepository
+    )
+    .register(
+      TOKENS.LessonRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories().lessonRepository
+    )
+    .register(
+      TOKENS.ExerciseRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories().exerciseRepository
+    )
+    .register(
+      TOKENS.LessonExerciseRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories()
+          .lessonExerciseRepository
+    )
+    .register(
+      TOKENS.PublicationRepository,
+      (c) =>
+        c.resolve(TOKENS.DatabaseFactory).getRepositories()
+          .publicationRepository
+    )
+    .register(TOKENS.UnitOfWork, (c) =>
+      c.resolve(TOKENS.DatabaseFactory).getUnitOfWork()
+    )
+    .register(TOKENS.DatabaseHealth, (c) =>
+      c.resolve(TOKENS.DatabaseFactory).getDatabaseHealth()
+    );
+}
+
+function registerServices(container: Container): void {
+  container
+    .register(TOKENS.Logger, () => new JsonLogger({ level: config.LOG_LEVEL }))
+    // Lleva el correlationId fijado: sus líneas lo conservan aunque se
+    // escriban fuera del contexto asíncrono de la petición
+    .register(
+      TOKENS.RequestLogger,
+      (c) =>
+        c.resolve(TOKENS.Logger).child({
+          correlationId: getRequestContext()?.correlationId,
+        }),
+      'request'
+    )
+    .register(TOKENS.PasswordService, () => new PasswordService(12))
+    .register(TOKENS.TokenService, () => {
+      if (!config.JWT_SECRET) {
+        throw new Error(
+          'JWT_SECRET is not defined. Please check your .env file.'
+        );
+      }
+      return new JwtTokenService(
+        config.JWT_SECRET,
+        config.JWT_ACCESS_TOKEN_TTL_SECONDS
+      );
+    })
+    .register(
+      TOKENS.EmailGateway,
+      () => new FileEmailGateway(config.EMAIL_OUTBOX_DIR, config.EMAIL_FROM)
+    );
+}
+
+function registerAuth(container: Container): void {
+  container
+    .register(
+      TOKENS.AuthTokenIssuer,
+      (c) =>
+        new AuthTokenIssuer(
+          c.resolve(TOKENS.TokenService),
+          config.JWT_REFRESH_TOKEN_TTL_SECONDS
+        )
+    )
+    .register(
+      TOKENS.SendEmailConfirmationUseCase,
+      (c) =>
+        new SendEmailConfirmationUseCase(
+          new VerificationTokenIssuer(
+            c.resolve(TOKENS.VerificationTokenRepository),
+            'email_confirmation',
+            {
+              tokenTtlSeconds: config.EMAIL_CONFIRMATION_TTL_SECONDS,
+              resendCooldownSeconds:
+                config.EMAIL_CONFIRMATION_RESEND_COOLDOWN_SECONDS,
+              maxPerDay: config.EMAIL_CONFIRMATION_MAX_PER_DAY,
+            }
+          ),
+          c.resolve(TOKENS.EmailGateway),
+          config.EMAIL_CONFIRMATION_URL
+        )
+    )
+    .register(
+      TOKENS.RegisterUserUseCase,
+      (c) =>
+        new RegisterUserUseCase(
+          c.resolve(TOKENS.UnitOfWork),
+          c.resolve(TOKENS.PasswordService)
+        )
+    )
+    .register(
+      TOKENS.LoginUseCase,
+      (c) =>
+        new LoginUseCase(
+          c.resolve(TOKENS.UserRepository),
+          c.resolve(TOKENS.RefreshTokenRepository),
+          c.resolve(TOKENS.PasswordService),
+          c.resolve(TOKENS.AuthTokenIssuer)
+        )
+    )
+    .register(
+      TOKENS.RefreshTokenUseCase,
+      (c) =>
+        new RefreshTokenUseCase(
+          c.resolve(TOKENS.UserRepository),
+          c.resolve(TOKENS.RefreshTokenRepository),
+          c.resolve(TOKENS.AuthTokenIssuer)
+        )
+    )
+    .register(
+      TOKENS.ConfirmEmailUseCase,
+      (c) =>
+        new ConfirmEmailUseCase(
+          c.resolve(TOKENS.UserRepository),
+          c.resolve(TOKENS.VerificationTokenRepository)
+        )
+    )
+    .register(
+      TOKENS.ResendEmailConfirmationUseCase,
+      (c) =>
+        new ResendEmailConfirmationUseCase(
+          c.resolve(TOKENS.UserRepository),
+          c.resolve(TOKENS.SendEmailConfirmationUseCase)
+        )
+    )
+    .register(
+      TOKENS.RequestPasswordResetUseCase,
+      (c) =>
+        new RequestPasswordResetUseCase(
+          c.resolve(TOKENS.UserRepository),
+          new VerificationTokenIssuer(
+            c.resolve(TOKENS.VerificationTokenRepository),
+            'password_reset',
+            {
+              tokenTtlSeconds: config.PASSWORD_RESET_TTL_SECONDS,
+              resendCooldownSeconds:
+                config.PASSWORD_RESET_RESEND_COOLDOWN_SECONDS,
+              maxPerDay: config.PASSWORD_RESET_MAX_PER_DAY,
+            }
+          ),
+          c.resolve(TOKENS.EmailGateway),
+          config.PASSWORD_RESET_URL,
+          c.resolve(TOKENS.Logger)
+        )
+    )
+    .register(
+      TOKENS.ResetPasswordUseCase,
+      (c) =>
+        new ResetPasswordUseCase(
+          c.resolve(TOKENS.UserRepository),
+          c.resolve(TOKENS.VerificationTokenRepository),
+          c.resolve(TOKENS.RefreshTokenRepository),
+          c.resolve(TOKENS.PasswordService)
+        )
+    );
+}
+
+function registerUserAdministration(container: Container): void {
+  container
+    .register(
+      TOKENS.ListUsersUseCase,
+      (c) => new ListUsersUseCase(c.resolve(TOKENS.UserRepository))
+    )
+    .register(
+      TOKENS.GetUserUseCase,
+      (c) => new GetUserUseCase(c.resolve(TOKENS.UserRepository))
+    )
+    .register(
+      TOKENS.ChangeUserRoleUseCase,
+      (c) => new ChangeUserRoleUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.ChangeUserStatusUseCase,
+      (c) => new ChangeUserStatusUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.DeleteUserUseCase,
+      (c) => new DeleteUserUseCase(c.resolve(TOKENS.UserRepository))
+    )
+    .register(
+      TOKENS.GetUserStatusHistoryUseCase,
+      (c) =>
+        new GetUserStatusHistoryUseCase(
+          c.resolve(TOKENS.UserStatusChangeRepository)
+        )
+    )
+    .register(
+      TOKENS.LiftExpiredSuspensionsUseCase,
+      (c) =>
+        new LiftExpiredSuspensionsUseCase(
+          c.resolve(TOKENS.UserRepository),
+          c.resolve(TOKENS.Logger)
+        )
+    );
+}
+
+function registerAuthoring(container: Container): void {
+  container
+    .register(
+      TOKENS.ListEditableCoursesUseCase,
+      (c) => new ListEditableCoursesUseCase(c.resolve(TOKENS.CourseRepository))
+    )
+    .register(
+      TOKENS.GetCourseOutlineUseCase,
+      (c) => new GetCourseOutlineUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.CreateCourseUseCase,
+      (c) => new CreateCourseUseCase(c.resolve(TOKENS.CourseRepository))
+    )
+    .register(
+      TOKENS.UpdateCourseUseCase,
+      (c) => new UpdateCourseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.DeleteCourseUseCase,
+      (c) => new DeleteCourseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.AddCourseCollaboratorUseCase,
+      (c) => new AddCourseCollaboratorUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.RemoveCourseCollaboratorUseCase,
+      (c) => new RemoveCourseCollaboratorUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.CreateContentNodeUseCase,
+      (c) => new CreateContentNodeUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.UpdateContentNodeUseCase,
+      (c) => new UpdateContentNodeUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.DeleteContentNodeUseCase,
+      (c) => new DeleteContentNodeUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.ReorderContentUseCase,
+      (c) => new ReorderContentUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.CreateExerciseUseCase,
+      (c) => new CreateExerciseUseCase(c.resolve(TOKENS.ExerciseRepository))
+    )
+    .register(
+      TOKENS.GetExerciseUseCase,
+      (c) => new GetExerciseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.UpdateExerciseUseCase,
+      (c) => new UpdateExerciseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.DeleteExerciseUseCase,
+      (c) => new DeleteExerciseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.AttachExerciseUseCase,
+      (c) => new AttachExerciseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.DetachExerciseUseCase,
+      (c) => new DetachExerciseUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.GetPublicationUseCase,
+      (c) => new GetPublicationUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.SubmitForReviewUseCase,
+      (c) => new SubmitForReviewUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.ReviewPublicationUseCase,
+      (c) => new ReviewPublicationUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.RollBackPublicationUseCase,
+      (c) => new RollBackPublicationUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.ArchivePublicationUseCase,
+      (c) => new ArchivePublicationUseCase(c.resolve(TOKENS.UnitOfWork))
+    )
+    .register(
+      TOKENS.ListPendingReviewsUseCase,
+      (c) => new ListPendingReviewsUseCase(c.resolve(TOKENS.UnitOfWork))
+    );
+}
+
+function registerCatalog(container: Container): void {
+  container
+    .register(
+      TOKENS.ListPublishedCoursesUseCase,
+      (c) =>
+        new ListPublishedCoursesUseCase(c.resolve(TOKENS.PublicationRepository))
+    )
+    .register(
+      TOKENS.GetPublishedCourseUseCase,
+      (c) =>
+        new GetPublishedCourseUseCase(c.resolve(TOKENS.PublicationRepository))
+    )
+    .register(
+      TOKENS.GetPublishedLessonUseCase,
+      (c) =>
+        new GetPublishedLessonUseCase(c.resolve(TOKENS.PublicationRepository))
+    );
+}
+
+function registerEvents(container: Container): void {
+  container
+    .register(TOKENS.DomainEventHandlers, (c) => [
+      new SendConfirmationEmailOnUserRegistered(
+        c.resolve(TOKENS.UserRepository),
+        c.resolve(TOKENS.SendEmailConfirmationUseCase)
+      ),
+    ])
+    .register(
+      TOKENS.DispatchDomainEventsUseCase,
+      (c) =>
+        new DispatchDomainEventsUseCase(
+          c.resolve(TOKENS.OutboxRepository),
+          c.resolve(TOKENS.DomainEventHandlers),
+          c.resolve(TOKENS.Logger),
+          {
+            batchSize: config.OUTBOX_BATCH_SIZE,
+            maxAttempts: config.OUTBOX_MAX_ATTEMPTS,
+            retryDelayMs: config.OUTBOX_RETRY_DELAY_SECONDS * 1000,
+          }
+        )
+    );
+}
+
+function registerHealth(container: Container): void {
+  container
+    .register(TOKENS.HealthChecks, (c) => {
+      const databaseHealth = c.resolve(TOKENS.DatabaseHealth);
+      const checks: IHealthCheck[] = [
+        new DatabaseHealthCheck(databaseHealth),
+        new PendingMigrationsHealthCheck(databaseHealth),
+      ];
+      if (config.HEALTH_OUTBOX_MAX_LAG_SECONDS > 0) {
+        checks.push(
+          new OutboxLagHealthCheck(
+            c.resolve(TOKENS.OutboxRepository),
+            config.HEALTH_OUTBOX_MAX_LAG_SECONDS * 1000
+          )
+        );
+      }
+      // Los gateways que se pueden comprobar implementan IHealthCheck
+      const gateways: unknown[] = [c.resolve(TOKENS.EmailGateway)];
+      return [...checks, ...gateways.filter(isHealthCheck)];
+    })
+    .register(
+      TOKENS.CheckReadinessUseCase,
+      (c) =>
+        new CheckReadinessUseCase(
+          c.resolve(TOKENS.HealthChecks),
+          { timeoutMs: config.HEALTH_CHECK_TIMEOUT_MS },
+          c.resolve(TOKENS.Logger)
+        )
+    );
+}
+
+function registerWeb(container: Container): void {
+  container
+    .register(
+      TOKENS.AuthController,
+      (c) =>
+        new AuthController({
+          registerUser: c.resolve(TOKENS.RegisterUserUseCase),
+          login: c.resolve(TOKENS.LoginUseCase),
+          refreshToken: c.resolve(TOKENS.RefreshTokenUseCase),
+          confirmEmail: c.resolve(TOKENS.ConfirmEmailUseCase),
+          resendEmailConfirmation: c.resolve(
+            TOKENS.ResendEmailConfirmationUseCase
+          ),
+          requestPasswordReset: c.resolve(TOKENS.RequestPasswordResetUseCase),
+          resetPassword: c.resolve(TOKENS.ResetPasswordUseCase),
+        })
+    )
+    .register(
+      TOKENS.AdminUserController,
+      (c) =>
+        new AdminUserController({
+          listUsers: c.resolve(TOKENS.ListUsersUseCase),
+          getUser: c.resolve(TOKENS.GetUserUseCase),
+          changeRole: c.resolve(TOKENS.ChangeUserRoleUseCase),
+          changeStatus: c.resolve(TOKENS.ChangeUserStatusUseCase),
+          deleteUser: c.resolve(TOKENS.DeleteUserUseCase),
+          getStatusHistory: c.resolve(TOKENS.GetUserStatusHistoryUseCase),
+        })
+    )
+    .register(
+      TOKENS.AuthoringController,
+      (c) =>
+        new AuthoringController({
+          listCourses: c.resolve(TOKENS.ListEditableCoursesUseCase),
+          getCourseOutline: c.resolve(TOKENS.GetCourseOutlineUseCase),
+          createCourse: c.resolve(TOKENS.CreateCourseUseCase),
+          updateCourse: c.resolve(TOKENS.UpdateCourseUseCase),
+          deleteCourse: c.resolve(TOKENS.DeleteCourseUseCase),
+          addCollaborator: c.resolve(TOKENS.AddCourseCollaboratorUseCase),
+          removeCollaborator: c.resolve(TOKENS.RemoveCourseCollaboratorUseCase),
+          createNode: c.resolve(TOKENS.CreateContentNodeUseCase),
+          updateNode: c.resolve(TOKENS.UpdateContentNodeUseCase),
+          deleteNode: c.resolve(TOKENS.DeleteContentNodeUseCase),
+          reorder: c.resolve(TOKENS.ReorderContentUseCase),
+          createExercise: c.resolve(TOKENS.CreateExerciseUseCase),
+          getExercise: c.resolve(TOKENS.GetExerciseUseCase),
+          updateExercise: c.resolve(TOKENS.UpdateExerciseUseCase),
+          deleteExercise: c.resolve(TOKENS.DeleteExerciseUseCase),
+          attachExercise: c.resolve(TOKENS.AttachExerciseUseCase),
+          detachExercise: c.resolve(TOKENS.DetachExerciseUseCase),
+          getPublication: c.resolve(TOKENS.GetPublicationUseCase),
+          submitForReview: c.resolve(TOKENS.SubmitForReviewUseCase),
+          reviewPublication: c.resolve(TOKENS.ReviewPublicationUseCase),
+          rollBackPublication: c.resolve(TOKENS.RollBackPublicationUseCase),
+          archivePublication: c.resolve(TOKENS.ArchivePublicationUseCase),
+          listPendingReviews: c.resolve(TOKENS.ListPendingReviewsUseCase),
+        })
+    )
+    .register(
+      TOKENS.CatalogController,
+      (c) =>
+        new CatalogController({
+          listCourses: c.resolve(TOKENS.ListPublishedCoursesUseCase),
+          getCourse: c.resolve(TOKENS.GetPublishedCourseUseCase),
+          getLesson: c.resolve(TOKENS.GetPublishedLessonUseCase),
+        })
+    )
+    .register(
+      TOKENS.HealthController,
+      (c) => new HealthController(c.resolve(TOKENS.CheckReadinessUseCase))
+    )
+    .register(TOKENS.AdminGuards, (c) => [
+      createAuthenticate(c.resolve(TOKENS.TokenService)),
+      createRequireAdmin(c.resolve(TOKENS.UserRepository)),
+    ])
+    .register(TOKENS.ContentCreatorGuards, (c) => [
+      createAuthenticate(c.resolve(TOKENS.TokenService)),
+      createRequireContentCreator(c.resolve(TOKENS.UserRepository)),
+    ])
+    .register(TOKENS.LearnerGuards, (c) => [
+      createAuthenticate(c.resolve(TOKENS.TokenService)),
+    ])
+    .register(
+      TOKENS.SuspensionExpiryJob,
+      (c) =>
+        new SuspensionExpiryJob(
+          c.resolve(TOKENS.LiftExpiredSuspensionsUseCase),
+          config.SUSPENSION_CHECK_INTERVAL_SECONDS * 1000,
+          c.resolve(TOKENS.Logger)
+        )
+    )
+    .register(
+      TOKENS.OutboxDispatcherJob,
+      (c) =>
+        new OutboxDispatcherJob(
+          c.resolve(TOKENS.DispatchDomainEventsUseCase),
+          config.OUTBOX_DISPATCH_INTERVAL_SECONDS * 1000,
+          c.resolve(TOKENS.Logger)
+        )
+    );
+}
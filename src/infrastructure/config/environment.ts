@@ -23,6 +23,7 @@
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import dotenv from 'dotenv';
+import path from 'path';
 
 dotenv.config(); // Carga las variables de entorno desde el archivo .env
 
@@ -32,9 +33,15 @@ const envSchema = z.object({
     .enum(['development', 'production', 'test'])
     .default('development'),
   PORT: z.coerce.number().min(1).max(65535).default(3000),
+  // Nivel mínimo de log; por defecto depende de NODE_ENV (ver DEFAULT_LOG_LEVELS)
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
 
   // Database type selection
-  DATABASE_TYPE: z.enum(['postgresql', 'mysql']).default('postgresql'),
+  DATABASE_TYPE: z
+    .enum(['postgresql', 'mysql', 'sqlite'])
+    .default('postgresql'),
+  // ORM del repositorio de usuarios (el resto de repositorios usan Prisma)
+  DATABASE_ORM: z.enum(['prisma', 'typeorm']).default('prisma'),
 
   // Variables para PostgreSQL
   DB_POSTGRES_USER: z.string().optional(),
@@ -49,6 +56,95 @@ const envSchema = z.object({
   DB_MYSQL_HOST: z.string().optional(),
   DB_MYSQL_PORT: z.coerce.number().optional(),
   DB_MYSQL_NAME: z.string().optional(),
+
+  // Variables para SQLite (desarrollo local y tests sin contenedores)
+  DB_SQLITE_FILE: z.string().default('wayrapp_dev.db'),
+
+  // Autenticación (JWT)
+  JWT_SECRET: z
+    .string()
+    .min(32, 'JWT_SECRET debe tener al menos 32 caracteres')
+    // Valor de ejemplo que traían versiones anteriores de .env.example
+    .refine((secret) => !secret.startsWith('change_me'), {
+      message: 'JWT_SECRET no puede ser el valor de ejemplo de .env.example',
+    })
+    .optional(),
+  JWT_ACCESS_TOKEN_TTL_SECONDS: z.coerce.number().int().positive().default(900),
+  JWT_REFRESH_TOKEN_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60 * 24 * 30),
+
+  // Email (por defecto los mensajes se escriben como .eml en EMAIL_OUTBOX_DIR)
+  EMAIL_FROM: z.string().default('WayrApp <no-reply@wayrapp.local>'),
+  EMAIL_OUTBOX_DIR: z.string().default('outbox'),
+
+  // Confirmación de email
+  EMAIL_CONFIRMATION_URL: z
+    .string()
+    .url('EMAIL_CONFIRMATION_URL debe ser una URL válida')
+    .default('http://localhost:3000/confirm-email'),
+  EMAIL_CONFIRMATION_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60 * 24),
+  EMAIL_CONFIRMATION_RESEND_COOLDOWN_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(60),
+  EMAIL_CONFIRMATION_MAX_PER_DAY: z.coerce.number().int().positive().default(5),
+
+  // Restablecimiento de contraseña
+  PASSWORD_RESET_URL: z
+    .string()
+    .url('PASSWORD_RESET_URL debe ser una URL válida')
+    .default('http://localhost:3000/reset-password'),
+  PASSWORD_RESET_TTL_SECONDS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60),
+  PASSWORD_RESET_RESEND_COOLDOWN_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(60),
+  PASSWORD_RESET_MAX_PER_DAY: z.coerce.number().int().positive().default(5),
+
+  // Job que levanta las suspensiones expiradas (0 lo desactiva)
+  SUSPENSION_CHECK_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(5 * 60),
+
+  // Dispatcher de eventos de dominio del outbox (0 lo desactiva)
+  OUTBOX_DISPATCH_INTERVAL_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(5),
+  OUTBOX_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+  OUTBOX_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  OUTBOX_RETRY_DELAY_SECONDS: z.coerce.number().int().nonnegative().default(30),
+
+  // Sondas de salud y apagado ordenado
+  HEALTH_CHECK_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
+  // Retraso máximo del outbox antes de dejar de estar listo (0 no lo comprueba)
+  HEALTH_OUTBOX_MAX_LAG_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(5 * 60),
+  SHUTDOWN_GRACE_PERIOD_SECONDS: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(5),
+  SHUTDOWN_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(30),
 });
 
 // 2. Validamos las partes
@@ -84,11 +180,22 @@ const databaseUrls = {
     env.DB_MYSQL_NAME
       ? `mysql://${env.DB_MYSQL_USER}:${env.DB_MYSQL_PASSWORD}@${env.DB_MYSQL_HOST}:${env.DB_MYSQL_PORT}/${env.DB_MYSQL_NAME}`
       : undefined,
+  // Ruta absoluta: Prisma resuelve las rutas relativas desde el schema
+  sqlite: `file:${path.resolve(env.DB_SQLITE_FILE)}`,
 };
 
+// Los tests solo muestran los errores; desarrollo lo muestra todo
+const DEFAULT_LOG_LEVELS = {
+  development: 'debug',
+  test: 'error',
+  production: 'info',
+} as const;
+
 // 4. Exportamos una configuración final que incluye las URLs construidas
 export const config = {
   ...env, // NODE_ENV, PORT, etc.
+  LOG_LEVEL: env.LOG_LEVEL ?? DEFAULT_LOG_LEVELS[env.NODE_ENV],
   DATABASE_URL_POSTGRES: databaseUrls.postgres,
   DATABASE_URL_MYSQL: databaseUrls.mysql,
+  DATABASE_URL_SQLITE: databaseUrls.sqlite,
 };
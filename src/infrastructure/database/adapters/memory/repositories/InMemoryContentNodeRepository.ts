@@ -0,0 +1,98 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryContentNodeRepository.ts
+
+import { IContentNodeRepository } from '@/core/interfaces/repositories/IContentNodeRepository';
+import {
+  assertPositionAvailable,
+  ChildContentKind,
+  parentKindOf,
+  reorderSiblings,
+} from '@/core/domain/services/ContentHierarchy';
+import { OrphanContentError } from '@/core/domain/errors/ContentHierarchyErrors';
+import { ContentVersionConflictError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { ContentNode } from '@/core/domain/entities/ContentNode';
+import { InMemoryContentStore } from './InMemoryContentStore';
+
+/**
+ * Implementación en memoria de los repositorios de niveles, secciones,
+ * módulos y lecciones (uno por `kind`).
+ *
+ * Pasa el mismo test de contrato que los adaptadores de Prisma: aplica con
+ * las reglas de ContentHierarchy lo que allí garantizan las claves foráneas
+ * y la restricción única (contenedor, posición).
+ */
+export class InMemoryContentNodeRepository<
+  T extends ContentNode<T>,
+> implements IContentNodeRepository<T> {
+  constructor(
+    private readonly store: InMemoryContentStore,
+    private readonly kind: ChildContentKind
+  ) {}
+
+  async create(node: T): Promise<void> {
+    const parentKind = parentKindOf(this.kind);
+    if (!this.store.exists({ kind: parentKind, id: node.parentId })) {
+      throw new OrphanContentError(this.kind, parentKind, node.parentId);
+    }
+    assertPositionAvailable(this.kind, node, this.siblingsOf(node.parentId));
+    this.nodes.set(node.id, node);
+  }
+
+  async findById(id: string): Promise<T | null> {
+    return this.nodes.get(id) ?? null;
+  }
+
+  async findByParentId(parentId: string): Promise<T[]> {
+    return this.siblingsOf(parentId);
+  }
+
+  async update(node: T): Promise<T | null> {
+    const stored = this.nodes.get(node.id);
+    if (!stored) {
+      return null;
+    }
+    if (stored.version !== node.version) {
+      throw new ContentVersionConflictError(this.kind, node.id, node.version);
+    }
+    assertPositionAvailable(this.kind, node, this.siblingsOf(node.parentId));
+    const saved = node.withVersion(node.version + 1);
+    this.nodes.set(node.id, saved);
+    return saved;
+  }
+
+  async reorder(
+    parentId: string,
+    orderedIds: string[],
+    now: Date
+  ): Promise<T[]> {
+    const siblings = this.siblingsOf(parentId);
+    const positions = reorderSiblings(
+      this.kind,
+      parentId,
+      siblings,
+      orderedIds
+    );
+
+    // reorderSiblings ya garantiza posiciones distintas, así que cada
+    // elemento se mueve sin comprobarlo contra las posiciones anteriores
+    for (const sibling of siblings) {
+      const position = positions.get(sibling.id)!;
+      this.nodes.set(sibling.id, sibling.moveTo(position, [], now));
+    }
+    return this.siblingsOf(parentId);
+  }
+
+  async delete(id: string): Promise<void> {
+    // Borrar un elemento inexistente no es un error, el resultado es el mismo
+    this.store.deleteCascade({ kind: this.kind, id });
+  }
+
+  private get nodes(): Map<string, T> {
+    return this.store.nodesOf<T>(this.kind);
+  }
+
+  private siblingsOf(parentId: string): T[] {
+    return [...this.nodes.values()]
+      .filter((node) => node.parentId === parentId)
+      .sort((a, b) => a.position.compareTo(b.position));
+  }
+}
@@ -0,0 +1,45 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryContentRepositories.ts
+
+import { ContentRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { Level } from '@/core/domain/entities/Level';
+import { Section } from '@/core/domain/entities/Section';
+import { Module } from '@/core/domain/entities/Module';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { InMemoryContentStore } from './InMemoryContentStore';
+import { InMemoryCourseRepository } from './InMemoryCourseRepository';
+import { InMemoryCourseCollaboratorRepository } from './InMemoryCourseCollaboratorRepository';
+import { InMemoryContentNodeRepository } from './InMemoryContentNodeRepository';
+import { InMemoryExerciseRepository } from './InMemoryExerciseRepository';
+import { InMemoryLessonExerciseRepository } from './InMemoryLessonExerciseRepository';
+import { InMemoryPublicationRepository } from './InMemoryPublicationRepository';
+
+/**
+ * Crea los repositorios de contenido en memoria sobre un mismo almacén, para
+ * que compartan el contenido igual que las tablas de la base de datos
+ */
+export function createInMemoryContentRepositories(
+  store: InMemoryContentStore = new InMemoryContentStore()
+): ContentRepositories {
+  return {
+    courseRepository: new InMemoryCourseRepository(store),
+    courseCollaboratorRepository: new InMemoryCourseCollaboratorRepository(
+      store
+    ),
+    levelRepository: new InMemoryContentNodeRepository<Level>(store, 'level'),
+    sectionRepository: new InMemoryContentNodeRepository<Section>(
+      store,
+      'section'
+    ),
+    moduleRepository: new InMemoryContentNodeRepository<Module>(
+      store,
+      'module'
+    ),
+    lessonRepository: new InMemoryContentNodeRepository<Lesson>(
+      store,
+      'lesson'
+    ),
+    exerciseRepository: new InMemoryExerciseRepository(store),
+    lessonExerciseRepository: new InMemoryLessonExerciseRepository(store),
+    publicationRepository: new InMemoryPublicationRepository(store),
+  };
+}
@@ -0,0 +1,140 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryContentStore.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { ContentNode } from '@/core/domain/entities/ContentNode';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import {
+  Publication,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublishedSnapshot } from '@/core/domain/entities/PublishedSnapshot';
+import { PublicationHistoryEntry } from '@/core/domain/entities/PublicationHistoryEntry';
+import {
+  ChildContentKind,
+  childKindOf,
+  collectCascade,
+  ContentRef,
+  OrderedSibling,
+} from '@/core/domain/services/ContentHierarchy';
+
+/**
+ * Contenido en memoria compartido por los repositorios de contenido en
+ * memoria: hace las veces de las claves foráneas del esquema (comprobar el
+ * contenedor y borrar en cascada).
+ */
+export class InMemoryContentStore {
+  readonly courses = new Map<string, Course>();
+  readonly exercises = new Map<string, Exercise>();
+  // Enlaces lección-ejercicio, por `${lessonId}:${exerciseId}`
+  readonly lessonExercises = new Map<string, LessonExercise>();
+  // Colaboradores de cada curso, por id del curso
+  readonly collaborators = new Map<string, Map<string, Date>>();
+  // Publicaciones por id, y sus instantáneas e historial por id de la publicación
+  readonly publications = new Map<string, Publication>();
+  readonly snapshots = new Map<string, PublishedSnapshot[]>();
+  readonly publicationHistory = new Map<string, PublicationHistoryEntry[]>();
+  private readonly nodes: Record<
+    ChildContentKind,
+    Map<string, OrderedSibling>
+  > = {
+    level: new Map(),
+    section: new Map(),
+    module: new Map(),
+    lesson: new Map(),
+  };
+
+  // Cada mapa solo guarda entidades de su tipo: lo escribe únicamente el
+  // repositorio de ese tipo
+  nodesOf<T extends ContentNode<T>>(kind: ChildContentKind): Map<string, T> {
+    return this.nodes[kind] as Map<string, T>;
+  }
+
+  collaboratorsOf(courseId: string): Map<string, Date> {
+    return this.collaborators.get(courseId) ?? new Map();
+  }
+
+  publicationOf(
+    kind: PublishableKind,
+    contentId: string
+  ): Publication | undefined {
+    return [...this.publications.values()].find(
+      (publication) =>
+        publication.kind === kind && publication.contentId === contentId
+    );
+  }
+
+  exists(ref: ContentRef): boolean {
+    return ref.kind === 'course'
+      ? this.courses.has(ref.id)
+      : this.nodes[ref.kind].has(ref.id);
+  }
+
+  /**
+   * Borra un elemento y todos sus descendientes
+   */
+  deleteCascade(root: ContentRef): void {
+    for (const ref of collectCascade(root, (parent) =>
+      this.childrenOf(parent)
+    )) {
+      if (ref.kind === 'course') {
+        this.courses.delete(ref.id);
+        this.collaborators.delete(ref.id);
+      } else {
+        this.nodes[ref.kind].delete(ref.id);
+      }
+      if (ref.kind === 'lesson') {
+        this.deleteLinks((link) => link.lessonId === ref.id);
+      }
+      if (ref.kind === 'course' || ref.kind === 'lesson') {
+        this.deletePublication(ref.kind, ref.id);
+      }
+    }
+  }
+
+  /**
+   * Borra un ejercicio y sus enlaces con las lecciones
+   */
+  deleteExercise(id: string): void {
+    this.exercises.delete(id);
+    this.deleteLinks((link) => link.exerciseId === id);
+  }
+
+  clear(): void {
+    this.courses.clear();
+    this.exercises.clear();
+    this.lessonExercises.clear();
+    this.collaborators.clear();
+    this.publications.clear();
+    this.snapshots.clear();
+    this.publicationHistory.clear();
+    Object.values(this.nodes).forEach((nodes) => nodes.clear());
+  }
+
+  private deletePublication(kind: PublishableKind, contentId: string): void {
+    const publication = this.publicationOf(kind, contentId);
+    if (publication) {
+      this.publications.delete(publication.id);
+      this.snapshots.delete(publication.id);
+      this.publicationHistory.delete(publication.id);
+    }
+  }
+
+  private deleteLinks(matches: (link: LessonExercise) => boolean): void {
+    for (const [key, link] of this.lessonExercises) {
+      if (matches(link)) {
+        this.lessonExercises.delete(key);
+      }
+    }
+  }
+
+  private childrenOf(parent: ContentRef): string[] {
+    const kind = childKindOf(parent.kind);
+    if (!kind) {
+      return [];
+    }
+    return [...this.nodes[kind].values()]
+      .filter((node) => node.parentId === parent.id)
+      .map((node) => node.id);
+  }
+}
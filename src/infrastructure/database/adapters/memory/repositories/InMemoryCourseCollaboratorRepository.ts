@@ -0,0 +1,41 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryCourseCollaboratorRepository.ts
+
+import { ICourseCollaboratorRepository } from '@/core/interfaces/repositories/ICourseCollaboratorRepository';
+import { ContentNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { InMemoryContentStore } from './InMemoryContentStore';
+
+/**
+ * Implementación de ICourseCollaboratorRepository en memoria. Pasa el mismo
+ * test de contrato que el adaptador de Prisma.
+ */
+export class InMemoryCourseCollaboratorRepository implements ICourseCollaboratorRepository {
+  constructor(private readonly store: InMemoryContentStore) {}
+
+  async add(courseId: string, userId: string, now: Date): Promise<void> {
+    if (!this.store.courses.has(courseId)) {
+      throw new ContentNotFoundError('course', courseId);
+    }
+    const collaborators = this.store.collaboratorsOf(courseId);
+    if (!collaborators.has(userId)) {
+      collaborators.set(userId, now);
+    }
+    this.store.collaborators.set(courseId, collaborators);
+  }
+
+  async remove(courseId: string, userId: string): Promise<void> {
+    this.store.collaborators.get(courseId)?.delete(userId);
+  }
+
+  async findUserIdsByCourseId(courseId: string): Promise<string[]> {
+    return [...this.store.collaboratorsOf(courseId)]
+      .sort(
+        ([userA, addedA], [userB, addedB]) =>
+          addedA.getTime() - addedB.getTime() || userA.localeCompare(userB)
+      )
+      .map(([userId]) => userId);
+  }
+
+  async isCollaborator(courseId: string, userId: string): Promise<boolean> {
+    return this.store.collaboratorsOf(courseId).has(userId);
+  }
+}
@@ -0,0 +1,91 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryCourseRepository.ts
+
+import { ICourseRepository } from '@/core/interfaces/repositories/ICourseRepository';
+import {
+  ContentVersionConflictError,
+  CourseSlugTakenError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { Course } from '@/core/domain/entities/Course';
+import { Slug } from '@/core/domain/value-objects/Slug';
+import { InMemoryContentStore } from './InMemoryContentStore';
+
+/**
+ * Implementación de ICourseRepository en memoria.
+ *
+ * Pasa el mismo test de contrato que el adaptador de Prisma: slug único y
+ * borrado en cascada de todo el contenido del curso, que vive en el mismo
+ * InMemoryContentStore que los repositorios de niveles, secciones, módulos
+ * y lecciones.
+ */
+export class InMemoryCourseRepository implements ICourseRepository {
+  constructor(private readonly store: InMemoryContentStore) {}
+
+  async create(course: Course): Promise<void> {
+    this.assertSlugAvailable(course);
+    this.store.courses.set(course.id, course);
+  }
+
+  async findById(id: string): Promise<Course | null> {
+    return this.store.courses.get(id) ?? null;
+  }
+
+  async findBySlug(slug: Slug): Promise<Course | null> {
+    return (
+      [...this.store.courses.values()].find((course) =>
+        course.slug.equals(slug)
+      ) ?? null
+    );
+  }
+
+  async findAll(): Promise<Course[]> {
+    return [...this.store.courses.values()].sort(
+      (a, b) =>
+        a.createdAt.getTime() - b.createdAt.getTime() ||
+        a.id.localeCompare(b.id)
+    );
+  }
+
+  async findEditableBy(userId: string): Promise<Course[]> {
+    return (await this.findAll()).filter(
+      (course) =>
+        course.isOwnedBy(userId) ||
+        this.store.collaboratorsOf(course.id).has(userId)
+    );
+  }
+
+  async update(course: Course): Promise<Course | null> {
+    const stored = this.store.courses.get(course.id);
+    if (!stored) {
+      return null;
+    }
+    if (stored.version !== course.version) {
+      throw new ContentVersionConflictError(
+        'course',
+        course.id,
+        course.version
+      );
+    }
+    this.assertSlugAvailable(course);
+    const saved = course.withVersion(course.version + 1);
+    this.store.courses.set(course.id, saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<void> {
+    // Borrar un curso inexistente no es un error, el resultado es el mismo
+    this.store.deleteCascade({ kind: 'course', id });
+  }
+
+  clear(): void {
+    this.store.clear();
+  }
+
+  private assertSlugAvailable(course: Course): void {
+    const taken = [...this.store.courses.values()].some(
+      (other) => other.id !== course.id && other.slug.equals(course.slug)
+    );
+    if (taken) {
+      throw new CourseSlugTakenError(course.slug.value);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryExerciseRepository.ts
+
+import { IExerciseRepository } from '@/core/interfaces/repositories/IExerciseRepository';
+import { ContentVersionConflictError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { InMemoryContentStore } from './InMemoryContentStore';
+
+/**
+ * Implementación de IExerciseRepository en memoria. Pasa el mismo test de
+ * contrato que el adaptador de Prisma.
+ */
+export class InMemoryExerciseRepository implements IExerciseRepository {
+  constructor(private readonly store: InMemoryContentStore) {}
+
+  async create(exercise: Exercise): Promise<void> {
+    this.store.exercises.set(exercise.id, exercise);
+  }
+
+  async findById(id: string): Promise<Exercise | null> {
+    return this.store.exercises.get(id) ?? null;
+  }
+
+  async findByIds(ids: string[]): Promise<Exercise[]> {
+    return ids.flatMap((id) => {
+      const exercise = this.store.exercises.get(id);
+      return exercise ? [exercise] : [];
+    });
+  }
+
+  async update(exercise: Exercise): Promise<Exercise | null> {
+    const stored = this.store.exercises.get(exercise.id);
+    if (!stored) {
+      return null;
+    }
+    if (stored.version !== exercise.version) {
+      throw new ContentVersionConflictError(
+        'exercise',
+        exercise.id,
+        exercise.version
+      );
+    }
+    const saved = exercise.withVersion(exercise.version + 1);
+    this.store.exercises.set(exercise.id, saved);
+    return saved;
+  }
+
+  async delete(id: string): Promise<void> {
+    // Borrar un ejercicio inexistente no es un error, el resultado es el mismo
+    this.store.deleteExercise(id);
+  }
+}
@@ -0,0 +1,91 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryLessonExerciseRepository.ts
+
+import { ILessonExerciseRepository } from '@/core/interfaces/repositories/ILessonExerciseRepository';
+import { ExerciseNotFoundError } from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import {
+  assertPositionAvailable,
+  reorderSiblings,
+} from '@/core/domain/services/ContentHierarchy';
+import { OrphanContentError } from '@/core/domain/errors/ContentHierarchyErrors';
+import { ExerciseAlreadyInLessonError } from '@/core/domain/errors/ExerciseErrors';
+import { InMemoryContentStore } from './InMemoryContentStore';
+
+/**
+ * Implementación de ILessonExerciseRepository en memoria. Pasa el mismo test
+ * de contrato que el adaptador de Prisma: aplica con las reglas de
+ * ContentHierarchy lo que allí garantizan las claves foráneas, la clave
+ * primaria (lección, ejercicio) y la restricción única (lección, posición).
+ */
+export class InMemoryLessonExerciseRepository implements ILessonExerciseRepository {
+  constructor(private readonly store: InMemoryContentStore) {}
+
+  async attach(link: LessonExercise): Promise<void> {
+    if (!this.store.exists({ kind: 'lesson', id: link.lessonId })) {
+      throw new OrphanContentError('exercise', 'lesson', link.lessonId);
+    }
+    if (!this.store.exercises.has(link.exerciseId)) {
+      throw new ExerciseNotFoundError(link.exerciseId);
+    }
+    if (this.store.lessonExercises.has(keyOf(link))) {
+      throw new ExerciseAlreadyInLessonError(link.lessonId, link.exerciseId);
+    }
+    assertPositionAvailable('exercise', link, this.linksOf(link.lessonId));
+
+    this.store.lessonExercises.set(keyOf(link), link);
+  }
+
+  async findByLessonId(lessonId: string): Promise<LessonExercise[]> {
+    return this.linksOf(lessonId);
+  }
+
+  async findByExerciseId(exerciseId: string): Promise<LessonExercise[]> {
+    return [...this.store.lessonExercises.values()]
+      .filter((link) => link.exerciseId === exerciseId)
+      .sort(
+        (a, b) =>
+          a.createdAt.getTime() - b.createdAt.getTime() ||
+          a.lessonId.localeCompare(b.lessonId)
+      );
+  }
+
+  async reorder(
+    lessonId: string,
+    orderedExerciseIds: string[]
+  ): Promise<LessonExercise[]> {
+    const links = this.linksOf(lessonId);
+    const positions = reorderSiblings(
+      'exercise',
+      lessonId,
+      links,
+      orderedExerciseIds
+    );
+
+    for (const link of links) {
+      this.store.lessonExercises.set(
+        keyOf(link),
+        LessonExercise.fromPersistence(
+          link.lessonId,
+          link.exerciseId,
+          positions.get(link.exerciseId)!,
+          link.createdAt
+        )
+      );
+    }
+    return this.linksOf(lessonId);
+  }
+
+  async detach(lessonId: string, exerciseId: string): Promise<void> {
+    this.store.lessonExercises.delete(keyOf({ lessonId, exerciseId }));
+  }
+
+  private linksOf(lessonId: string): LessonExercise[] {
+    return [...this.store.lessonExercises.values()]
+      .filter((link) => link.lessonId === lessonId)
+      .sort((a, b) => a.position.compareTo(b.position));
+  }
+}
+
+function keyOf(link: { lessonId: string; exerciseId: string }): string {
+  return `${link.lessonId}:${link.exerciseId}`;
+}
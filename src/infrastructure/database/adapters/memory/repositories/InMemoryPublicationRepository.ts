@@ -0,0 +1,132 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryPublicationRepository.ts
+
+import { IPublicationRepository } from '@/core/interfaces/repositories/IPublicationRepository';
+import {
+  ContentNotFoundError,
+  ContentVersionConflictError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import {
+  Publication,
+  PublicationChange,
+  PublicationStatus,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublicationHistoryEntry } from '@/core/domain/entities/PublicationHistoryEntry';
+import { PublishedSnapshot } from '@/core/domain/entities/PublishedSnapshot';
+import { InMemoryContentStore } from './InMemoryContentStore';
+
+/**
+ * Implementación de IPublicationRepository en memoria. Pasa el mismo test
+ * de contrato que el adaptador de Prisma.
+ */
+export class InMemoryPublicationRepository implements IPublicationRepository {
+  constructor(private readonly store: InMemoryContentStore) {}
+
+  async findByContent(
+    kind: PublishableKind,
+    contentId: string
+  ): Promise<Publication | null> {
+    return this.store.publicationOf(kind, contentId) ?? null;
+  }
+
+  async findByStatus(status: PublicationStatus): Promise<Publication[]> {
+    return [...this.store.publications.values()]
+      .filter((publication) => publication.status === status)
+      .sort(
+        (a, b) =>
+          a.updatedAt.getTime() - b.updatedAt.getTime() ||
+          a.id.localeCompare(b.id)
+      );
+  }
+
+  async save({
+    publication,
+    entry,
+    snapshot,
+  }: PublicationChange): Promise<Publication> {
+    const exists = this.store.exists({
+      kind: publication.kind,
+      id: publication.contentId,
+    });
+    const stored = this.store.publications.get(publication.id);
+
+    if (publication.isStored() ? !stored : !exists) {
+      throw new ContentNotFoundError(publication.kind, publication.contentId);
+    }
+    // Sin guardar solo puede haber una publicación por contenido
+    const conflict = publication.isStored()
+      ? stored?.version !== publication.version
+      : this.store.publicationOf(publication.kind, publication.contentId) !==
+        undefined;
+    if (conflict) {
+      throw new ContentVersionConflictError(
+        'publication',
+        publication.id,
+        publication.version
+      );
+    }
+
+    const saved = publication.withVersion(publication.version + 1);
+    this.store.publications.set(saved.id, saved);
+    if (snapshot) {
+      this.store.snapshots.set(saved.id, [
+        ...(this.store.snapshots.get(saved.id) ?? []),
+        snapshot,
+      ]);
+    }
+    this.store.publicationHistory.set(saved.id, [
+      ...(this.store.publicationHistory.get(saved.id) ?? []),
+      entry,
+    ]);
+    return saved;
+  }
+
+  async findSnapshot(
+    publicationId: string,
+    number: number
+  ): Promise<PublishedSnapshot | null> {
+    return (
+      (this.store.snapshots.get(publicationId) ?? []).find(
+        (snapshot) => snapshot.number === number
+      ) ?? null
+    );
+  }
+
+  async findSnapshots(publicationId: string): Promise<PublishedSnapshot[]> {
+    return [...(this.store.snapshots.get(publicationId) ?? [])].sort(
+      (a, b) => a.number - b.number
+    );
+  }
+
+  async findLiveSnapshots(kind: PublishableKind): Promise<PublishedSnapshot[]> {
+    const live = [...this.store.publications.values()]
+      .filter(
+        (publication) => publication.kind === kind && publication.isLive()
+      )
+      .sort(
+        (a, b) =>
+          a.createdAt.getTime() - b.createdAt.getTime() ||
+          a.id.localeCompare(b.id)
+      );
+
+    const snapshots: PublishedSnapshot[] = [];
+    for (const publication of live) {
+      const snapshot = await this.findSnapshot(
+        publication.id,
+        publication.publishedNumber as number
+      );
+      if (snapshot) {
+        snapshots.push(snapshot);
+      }
+    }
+    return snapshots;
+  }
+
+  async findHistory(publicationId: string): Promise<PublicationHistoryEntry[]> {
+    return [...(this.store.publicationHistory.get(publicationId) ?? [])].sort(
+      (a, b) =>
+        b.createdAt.getTime() - a.createdAt.getTime() ||
+        b.id.localeCompare(a.id)
+    );
+  }
+}
@@ -0,0 +1,295 @@
+// src/infrastructure/database/adapters/memory/repositories/InMemoryUserRepository.ts
+
+import {
+  IUserRepository,
+  SortDirection,
+  UserPage,
+  UserPageRequest,
+  UserSearchCriteria,
+  UserSortField,
+} from '@/core/interfaces/repositories/IUserRepository';
+import {
+  encodeUserSearchCursor,
+  getUserSortValue,
+  resolveUserSearch,
+  UserSearchPosition,
+} from '@/core/interfaces/repositories/UserSearch';
+import { UserAlreadyExistsError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { Username } from '@/core/domain/value-objects/Username';
+import { CountryCode } from '@/core/domain/value-objects/CountryCode';
+
+/**
+ * Implementación de IUserRepository en memoria.
+ *
+ * Pensada para tests de casos de uso y HTTP sin base de datos: pasa el mismo
+ * test de contrato que el adaptador de Prisma, así que reproduce sus reglas
+ * (email y username únicos, update de un usuario inexistente devuelve null,
+ * delete de un usuario inexistente no falla, continente derivado del país y
+ * usuarios sin lastLogin al final del orden).
+ *
+ * No escribe el historial de moderación: en Prisma lo guarda la misma
+ * transacción que el cambio, pero no forma parte de IUserRepository.
+ */
+export class InMemoryUserRepository implements IUserRepository {
+  private readonly users = new Map<string, User>();
+
+  async create(userData: {
+    email: Email;
+    username: Username;
+    passwordHash: HashedPassword;
+    role: Role;
+    countryCode?: CountryCode | null;
+  }): Promise<User> {
+    const user = User.create(
+      userData.email,
+      userData.username,
+      userData.passwordHash,
+      userData.role,
+      userData.countryCode
+    );
+
+    this.assertUnique(user);
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.get(id) ?? null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return this.find((user) => user.getEmailValue() === email)[0] ?? null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return this.find((user) => user.getUsernameValue() === username)[0] ?? null;
+  }
+
+  async update(id: string, userData: Partial<User>): Promise<User | null> {
+    const current = this.users.get(id);
+    if (!current) {
+      return null;
+    }
+
+    const updated = User.fromPersistence(
+      current.id,
+      userData.email ?? current.email,
+      userData.username ?? current.username,
+      userData.passwordHash ?? current.passwordHash,
+      userData.role ?? current.role,
+      userData.status ?? current.status,
+      userData.countryCode !== undefined
+        ? userData.countryCode
+        : current.countryCode,
+      userData.lastLogin !== undefined ? userData.lastLogin : current.lastLogin,
+      current.createdAt,
+      new Date() // Como @updatedAt en Prisma
+    );
+
+    this.assertUnique(updated);
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    // Eliminar un usuario inexistente no es un error, el resultado es el mismo
+    this.users.delete(id);
+  }
+
+  async findUsersWithExpiredSuspension(now: Date): Promise<User[]> {
+    return this.find(
+      (user) =>
+        user.isSuspended() &&
+        user.status.suspendedUntil !== null &&
+        user.status.suspendedUntil.getTime() <= now.getTime()
+    ).sort(
+      (a, b) =>
+        a.status.suspendedUntil!.getTime() - b.status.suspendedUntil!.getTime()
+    );
+  }
+
+  async lockActiveAdmins(): Promise<void> {
+    // Sin concurrencia entre transacciones: no hay nada que bloquear
+  }
+
+  async search(
+    criteria: UserSearchCriteria,
+    page: UserPageRequest
+  ): Promise<UserPage> {
+    const search = resolveUserSearch(criteria, page);
+
+    const matches = this.find((user) => this.matches(user, criteria)).sort(
+      (a, b) =>
+        compareUserPositions(
+          toPosition(a, search.sortBy),
+          toPosition(b, search.sortBy),
+          search.sortDirection
+        )
+    );
+
+    const after = search.after;
+    const remaining = after
+      ? matches.filter(
+          (user) =>
+            compareUserPositions(
+              toPosition(user, search.sortBy),
+              after,
+              search.sortDirection
+            ) > 0
+        )
+      : matches.slice(search.offset);
+
+    const users = remaining.slice(0, search.limit);
+    const last = users[users.length - 1];
+    const nextCursor =
+      remaining.length > search.limit && last
+        ? encodeUserSearchCursor(last, search.sortBy, search.sortDirection)
+        : null;
+
+    return { users, total: matches.length, nextCursor };
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async findUsersByRole(role: string): Promise<User[]> {
+    return this.find((user) => user.getRoleValue() === role);
+  }
+
+  async findUsersByCountry(countryCode: string): Promise<User[]> {
+    return this.find((user) => user.getCountryCodeValue() === countryCode);
+  }
+
+  async findUsersByContinent(continent: string): Promise<User[]> {
+    return this.find((user) => getContinent(user) === continent);
+  }
+
+  async getUserStatsByContinent(): Promise<Record<string, number>> {
+    return this.countBy(getContinent);
+  }
+
+  async getUserStatsByCountry(): Promise<Record<string, number>> {
+    return this.countBy((user) => user.getCountryCodeValue());
+  }
+
+  /**
+   * Elimina todos los usuarios (equivale a limpiar la tabla entre tests)
+   */
+  clear(): void {
+    this.users.clear();
+  }
+
+  /**
+   * Mismas restricciones únicas que el schema: email y username
+   */
+  private assertUnique(user: User): void {
+    const others = this.find((other) => other.id !== user.id);
+    if (
+      others.some((other) => other.getEmailValue() === user.getEmailValue())
+    ) {
+      throw new UserAlreadyExistsError(user.getEmailValue());
+    }
+    if (
+      others.some(
+        (other) => other.getUsernameValue() === user.getUsernameValue()
+      )
+    ) {
+      throw new UserAlreadyExistsError(
+        user.getUsernameValue(),
+        undefined,
+        'username'
+      );
+    }
+  }
+
+  private matches(user: User, criteria: UserSearchCriteria): boolean {
+    const createdAt = user.createdAt.getTime();
+    const lastLogin = user.lastLogin?.getTime() ?? null;
+
+    return (
+      (criteria.role === undefined || user.getRoleValue() === criteria.role) &&
+      (criteria.status === undefined ||
+        user.getStatusValue() === criteria.status) &&
+      (criteria.countryCode === undefined ||
+        user.getCountryCodeValue() === criteria.countryCode.toUpperCase()) &&
+      (criteria.continent === undefined ||
+        getContinent(user) === criteria.continent) &&
+      (!criteria.createdFrom || createdAt >= criteria.createdFrom.getTime()) &&
+      (!criteria.createdTo || createdAt < criteria.createdTo.getTime()) &&
+      // Como en SQL, un lastLogin nulo no cumple ningún rango
+      (!criteria.lastLoginFrom ||
+        (lastLogin !== null &&
+          lastLogin >= criteria.lastLoginFrom.getTime())) &&
+      (!criteria.lastLoginTo ||
+        (lastLogin !== null && lastLogin < criteria.lastLoginTo.getTime())) &&
+      (!criteria.emailPrefix ||
+        user
+          .getEmailValue()
+          .startsWith(criteria.emailPrefix.trim().toLowerCase())) &&
+      (!criteria.usernamePrefix ||
+        user.getUsernameValue().startsWith(criteria.usernamePrefix))
+    );
+  }
+
+  private find(predicate: (user: User) => boolean): User[] {
+    return [...this.users.values()].filter(predicate);
+  }
+
+  private countBy(key: (user: User) => string | null): Record<string, number> {
+    const stats: Record<string, number> = {};
+    this.users.forEach((user) => {
+      const value = key(user);
+      if (value) {
+        stats[value] = (stats[value] ?? 0) + 1;
+      }
+    });
+    return stats;
+  }
+}
+
+function getContinent(user: User): string | null {
+  return user.countryCode?.getPrimaryContinent() ?? null;
+}
+
+function toPosition(user: User, sortBy: UserSortField): UserSearchPosition {
+  return { value: getUserSortValue(user, sortBy), id: user.id };
+}
+
+/**
+ * Compara dos posiciones en el orden de la búsqueda, igual que el ORDER BY del
+ * adaptador de Prisma: valor del campo, los nulos al final en ambas
+ * direcciones, y el ID como desempate en la misma dirección
+ */
+function compareUserPositions(
+  a: UserSearchPosition,
+  b: UserSearchPosition,
+  direction: SortDirection
+): number {
+  const sign = direction === 'asc' ? 1 : -1;
+
+  if (a.value === null || b.value === null) {
+    if (a.value !== b.value) {
+      return a.value === null ? 1 : -1;
+    }
+  } else {
+    const byValue = compareValues(a.value, b.value);
+    if (byValue !== 0) {
+      return sign * byValue;
+    }
+  }
+
+  return sign * compareValues(a.id, b.id);
+}
+
+function compareValues(a: Date | string, b: Date | string): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
@@ -0,0 +1,22 @@
+// src/infrastructure/database/adapters/memory/repositories/__tests__/InMemoryContentRepositories.test.ts
+
+import { v4 as uuidv4 } from 'uuid';
+import { InMemoryContentStore } from '@/infrastructure/database/adapters/memory/repositories/InMemoryContentStore';
+import { createInMemoryContentRepositories } from '@/infrastructure/database/adapters/memory/repositories/InMemoryContentRepositories';
+import { makeContentRepositoriesContractTest } from '@/core/interfaces/repositories/__tests__/IContentRepositories.contract.test';
+
+// Mismo contrato que los adaptadores de Prisma, sin base de datos
+makeContentRepositoriesContractTest(
+  'InMemoryContentRepositories - Contract',
+  () => {
+    const store = new InMemoryContentStore();
+
+    return {
+      repositories: createInMemoryContentRepositories(store),
+      cleanDatabase: async () => store.clear(),
+      // Los usuarios no viven en el almacén de contenido: basta con un id
+      createUser: async () => uuidv4(),
+    };
+  },
+  async () => {}
+);
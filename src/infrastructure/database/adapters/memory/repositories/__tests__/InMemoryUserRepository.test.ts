@@ -0,0 +1,20 @@
+// src/infrastructure/database/adapters/memory/repositories/__tests__/InMemoryUserRepository.test.ts
+
+import { InMemoryUserRepository } from '@/infrastructure/database/adapters/memory/repositories/InMemoryUserRepository';
+import { makeUserRepositoryContractTest } from '@/core/interfaces/repositories/__tests__/IUserRepository.contract.test';
+
+// Mismo contrato que el adaptador de Prisma, sin base de datos
+makeUserRepositoryContractTest(
+  'InMemoryUserRepository - Contract',
+  () => {
+    const userRepository = new InMemoryUserRepository();
+
+    return {
+      repository: userRepository,
+      cleanDatabase: async () => userRepository.clear(),
+      verifyUserInDatabase: async (id: string) =>
+        (await userRepository.findById(id)) !== null,
+    };
+  },
+  async () => {}
+);
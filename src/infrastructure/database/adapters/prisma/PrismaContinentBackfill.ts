@@ -0,0 +1,63 @@
+// src/infrastructure/database/adapters/prisma/PrismaContinentBackfill.ts
+
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { CountryCode } from '@/core/domain/value-objects/CountryCode';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Rellena `users.continent` de los usuarios que tienen país pero no
+ * continente, con CountryCode.getPrimaryContinent().
+ *
+ * La migración que añadió la columna ya lo hace en PostgreSQL; las bases de
+ * MySQL y SQLite se crean con `db push`, que no ejecuta migraciones, así que
+ * se rellenan con esta tarea (scripts/backfill-continents.ts). Solo toca
+ * filas con `continent` nulo: se puede repetir sin efectos.
+ */
+export class PrismaContinentBackfill {
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    logger: ILogger = defaultLogger
+  ) {
+    this.logger = logger.child({ component: 'PrismaContinentBackfill' });
+  }
+
+  /**
+   * @returns Número de usuarios actualizados
+   */
+  async run(): Promise<number> {
+    const pending = await this.prisma.user.findMany({
+      where: { countryCode: { not: null }, continent: null },
+      select: { countryCode: true },
+      distinct: ['countryCode'],
+    });
+
+    // Una actualización por país: todos sus usuarios tienen el mismo continente
+    let updated = 0;
+    for (const { countryCode } of pending) {
+      const { count } = await this.prisma.user.updateMany({
+        where: { countryCode, continent: null },
+        data: { continent: continentOf(countryCode as string) },
+      });
+      updated += count;
+    }
+
+    this.logger.info('Continentes rellenados', {
+      countries: pending.length,
+      users: updated,
+    });
+    return updated;
+  }
+}
+
+// Un código guardado que ya no es válido se marca como la migración de
+// PostgreSQL: 'Unknown'
+function continentOf(countryCode: string): string {
+  try {
+    return new CountryCode(countryCode).getPrimaryContinent();
+  } catch {
+    return 'Unknown';
+  }
+}
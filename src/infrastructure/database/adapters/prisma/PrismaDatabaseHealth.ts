@@ -0,0 +1,68 @@
+// src/infrastructure/database/adapters/prisma/PrismaDatabaseHealth.ts
+
+import { readdir } from 'fs/promises';
+import path from 'path';
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { IDatabaseHealth } from '@/core/interfaces/repositories/IDatabaseHealth';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Directorio de migraciones de Prisma (el mismo que usan los scripts
+ * db:migrate y db:deploy). Se resuelve desde este archivo y no desde el
+ * directorio de trabajo, que depende de dónde se arranque el proceso
+ */
+export const PRISMA_MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+/**
+ * Implementación de IDatabaseHealth usando Prisma ORM.
+ *
+ * Las migraciones pendientes se calculan comparando los directorios de
+ * `migrationsDir` con las filas terminadas (y no revertidas) de la tabla
+ * `_prisma_migrations`. Con `migrationsDir` null (MySQL y SQLite, que se
+ * crean con `db push`) no se comprueban.
+ */
+export class PrismaDatabaseHealth implements IDatabaseHealth {
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly migrationsDir: string | null = PRISMA_MIGRATIONS_DIR,
+    logger: ILogger = defaultLogger
+  ) {
+    this.logger = logger.child({ component: 'PrismaDatabaseHealth' });
+  }
+
+  async ping(): Promise<void> {
+    try {
+      await this.prisma.$queryRaw`SELECT 1`;
+    } catch (error) {
+      this.logger.error('Base de datos no disponible', { error });
+      throw new DatabaseConnectionError(
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async findPendingMigrations(): Promise<string[] | null> {
+    if (!this.migrationsDir) {
+      return null;
+    }
+
+    const entries = await readdir(this.migrationsDir, { withFileTypes: true });
+    const applied = await this.prisma.$queryRaw<{ migration_name: string }[]>`
+      SELECT migration_name FROM _prisma_migrations
+      WHERE finished_at IS NOT NULL AND rolled_back_at IS NULL
+    `;
+    const appliedNames = new Set(applied.map((row) => row.migration_name));
+
+    // Los nombres empiezan por la marca de tiempo: el orden alfabético es el
+    // orden de aplicación
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .filter((name) => !appliedNames.has(name))
+      .sort();
+  }
+}
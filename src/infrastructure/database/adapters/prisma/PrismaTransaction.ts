@@ -0,0 +1,24 @@
+// src/infrastructure/database/adapters/prisma/PrismaTransaction.ts
+
+import {
+  Prisma,
+  PrismaClient,
+} from '@/infrastructure/node_modules/.prisma/client';
+
+/**
+ * Cliente sobre el que trabajan los repositorios de Prisma: el cliente
+ * normal o el de una transacción abierta por PrismaUnitOfWork
+ */
+export type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Ejecuta `work` en una transacción interactiva. Si el repositorio ya
+ * trabaja dentro de una unidad de trabajo, reutiliza esa transacción (Prisma
+ * no admite transacciones anidadas)
+ */
+export function runInTransaction<T>(
+  prisma: PrismaExecutor,
+  work: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return '$transaction' in prisma ? prisma.$transaction(work) : work(prisma);
+}
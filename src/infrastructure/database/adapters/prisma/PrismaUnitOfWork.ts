@@ -0,0 +1,156 @@
+// src/infrastructure/database/adapters/prisma/PrismaUnitOfWork.ts
+
+import {
+  Prisma,
+  PrismaClient,
+} from '@/infrastructure/node_modules/.prisma/client';
+import {
+  IUnitOfWork,
+  UnitOfWorkRepositories,
+} from '@/core/interfaces/repositories/IUnitOfWork';
+import { UserRepository } from './repositories/UserRepository';
+import { RefreshTokenRepository } from './repositories/RefreshTokenRepository';
+import { VerificationTokenRepository } from './repositories/VerificationTokenRepository';
+import { UserStatusChangeRepository } from './repositories/UserStatusChangeRepository';
+import { OutboxRepository } from './repositories/OutboxRepository';
+import { CourseRepository } from './repositories/CourseRepository';
+import { CourseCollaboratorRepository } from './repositories/CourseCollaboratorRepository';
+import { LevelRepository } from './repositories/LevelRepository';
+import { SectionRepository } from './repositories/SectionRepository';
+import { ModuleRepository } from './repositories/ModuleRepository';
+import { LessonRepository } from './repositories/LessonRepository';
+import { ExerciseRepository } from './repositories/ExerciseRepository';
+import { LessonExerciseRepository } from './repositories/LessonExerciseRepository';
+import { PublicationRepository } from './repositories/PublicationRepository';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+// P2034: la transacción falló por un conflicto de escritura o un deadlock
+const RETRYABLE_PRISMA_CODES = new Set(['P2034']);
+
+// Códigos del motor que llegan en `meta.code` (consultas raw):
+// serialization_failure y deadlock_detected en PostgreSQL, ER_LOCK_DEADLOCK en MySQL
+const RETRYABLE_DATABASE_CODES = new Set(['40001', '40P01', '1213']);
+
+export interface PrismaUnitOfWorkOptions {
+  maxAttempts?: number; // Intentos totales, incluido el primero
+  retryDelayMs?: number; // Espera base entre intentos; se duplica en cada uno
+  maxWaitMs?: number; // Espera máxima para obtener una conexión del pool
+  timeoutMs?: number; // Duración máxima de la transacción
+  isolationLevel?: Prisma.TransactionIsolationLevel;
+}
+
+/**
+ * Implementación de IUnitOfWork con transacciones interactivas de Prisma
+ * (PostgreSQL, MySQL y SQLite).
+ *
+ * Los repositorios que recibe el trabajo son los mismos adaptadores de Prisma
+ * construidos sobre el cliente de la transacción. Si la transacción falla por
+ * un conflicto de serialización o un deadlock, se repite entera con una
+ * espera creciente; cualquier otro error se propaga sin reintentar.
+ */
+export class PrismaUnitOfWork implements IUnitOfWork {
+  private readonly logger: ILogger;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly transactionOptions: {
+    maxWait?: number;
+    timeout?: number;
+    isolationLevel?: Prisma.TransactionIsolationLevel;
+  };
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    options: PrismaUnitOfWorkOptions = {},
+    private readonly baseLogger: ILogger = defaultLogger // Se pasa a los repositorios
+  ) {
+    this.logger = baseLogger.child({ component: 'PrismaUnitOfWork' });
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 50;
+    this.transactionOptions = {
+      maxWait: options.maxWaitMs,
+      timeout: options.timeoutMs,
+      isolationLevel: options.isolationLevel,
+    };
+  }
+
+  async run<T>(
+    work: (repositories: UnitOfWorkRepositories) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma.$transaction(
+          (tx) => work(this.createRepositories(tx)),
+          this.transactionOptions
+        );
+      } catch (error) {
+        if (attempt >= this.maxAttempts || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delay = this.retryDelayMs * 2 ** (attempt - 1);
+        this.logger.warn('Conflicto en la transacción, reintentando', {
+          attempt,
+          maxAttempts: this.maxAttempts,
+          delayMs: delay,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private createRepositories(
+    tx: Prisma.TransactionClient
+  ): UnitOfWorkRepositories {
+    return {
+      userRepository: new UserRepository(tx, this.baseLogger),
+      refreshTokenRepository: new RefreshTokenRepository(tx, this.baseLogger),
+      verificationTokenRepository: new VerificationTokenRepository(
+        tx,
+        this.baseLogger
+      ),
+      userStatusChangeRepository: new UserStatusChangeRepository(
+        tx,
+        this.baseLogger
+      ),
+      outboxRepository: new OutboxRepository(tx, this.baseLogger),
+      courseRepository: new CourseRepository(tx, this.baseLogger),
+      courseCollaboratorRepository: new CourseCollaboratorRepository(
+        tx,
+        this.baseLogger
+      ),
+      levelRepository: new LevelRepository(tx, this.baseLogger),
+      sectionRepository: new SectionRepository(tx, this.baseLogger),
+      moduleRepository: new ModuleRepository(tx, this.baseLogger),
+      lessonRepository: new LessonRepository(tx, this.baseLogger),
+      exerciseRepository: new ExerciseRepository(tx, this.baseLogger),
+      lessonExerciseRepository: new LessonExerciseRepository(
+        tx,
+        this.baseLogger
+      ),
+      publicationRepository: new PublicationRepository(tx, this.baseLogger),
+    };
+  }
+}
+
+/**
+ * Indica si el error (o alguno de los que envuelve) es un conflicto de
+ * serialización o un deadlock. Los repositorios envuelven los errores de
+ * Prisma en los de core, así que hay que recorrer la cadena
+ */
+function isRetryableError(error: unknown): boolean {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    if (current instanceof Prisma.PrismaClientKnownRequestError) {
+      const databaseCode = (current.meta as { code?: unknown } | undefined)
+        ?.code;
+      return (
+        RETRYABLE_PRISMA_CODES.has(current.code) ||
+        RETRYABLE_DATABASE_CODES.has(String(databaseCode))
+      );
+    }
+    current =
+      (current as { originalError?: unknown }).originalError ?? current.cause;
+  }
+  return false;
+}
@@ -0,0 +1,69 @@
+// src/infrastructure/database/adapters/prisma/__tests__/PrismaContinentBackfill.test.ts
+
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaContinentBackfill } from '../PrismaContinentBackfill';
+
+describe('PrismaContinentBackfill', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  };
+  let findMany: jest.Mock;
+  let updateMany: jest.Mock;
+  let prisma: PrismaClient;
+
+  beforeEach(() => {
+    findMany = jest.fn();
+    updateMany = jest.fn().mockResolvedValue({ count: 2 });
+    prisma = { user: { findMany, updateMany } } as unknown as PrismaClient;
+  });
+
+  it('debería rellenar el continente principal de cada país sin tocar los que ya lo tienen', async () => {
+    findMany.mockResolvedValueOnce([
+      { countryCode: 'CL' },
+      { countryCode: 'TR' },
+    ]);
+
+    const updated = await new PrismaContinentBackfill(prisma, logger).run();
+
+    expect(updated).toBe(4);
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { countryCode: { not: null }, continent: null },
+      })
+    );
+    expect(updateMany.mock.calls.map(([args]) => args)).toEqual([
+      {
+        where: { countryCode: 'CL', continent: null },
+        data: { continent: 'South America' },
+      },
+      {
+        where: { countryCode: 'TR', continent: null },
+        data: { continent: 'Asia' },
+      },
+    ]);
+  });
+
+  it('debería marcar como Unknown los códigos guardados que ya no son válidos', async () => {
+    findMany.mockResolvedValueOnce([{ countryCode: 'XX1' }]);
+
+    await new PrismaContinentBackfill(prisma, logger).run();
+
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { countryCode: 'XX1', continent: null },
+      data: { continent: 'Unknown' },
+    });
+  });
+
+  it('no debería actualizar nada si todos los usuarios tienen continente', async () => {
+    findMany.mockResolvedValueOnce([]);
+
+    await expect(
+      new PrismaContinentBackfill(prisma, logger).run()
+    ).resolves.toBe(0);
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+// src/infrastructure/database/adapters/prisma/__tests__/PrismaDatabaseHealth.test.ts
+
+import os from 'os';
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaDatabaseHealth } from '../PrismaDatabaseHealth';
+
+describe('PrismaDatabaseHealth', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  };
+  const originalCwd = process.cwd();
+  let queryRaw: jest.Mock;
+  let prisma: PrismaClient;
+
+  beforeEach(() => {
+    queryRaw = jest
+      .fn()
+      .mockResolvedValue([{ migration_name: '20250917170449_init' }]);
+    prisma = { $queryRaw: queryRaw } as unknown as PrismaClient;
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+  });
+
+  it('debería encontrar las migraciones aunque el proceso arranque en otro directorio', async () => {
+    process.chdir(os.tmpdir());
+
+    const pending = await new PrismaDatabaseHealth(
+      prisma,
+      undefined,
+      logger
+    ).findPendingMigrations();
+
+    expect(pending).toContain('20251001000001_add_user_status_and_last_login');
+    expect(pending).not.toContain('20250917170449_init');
+  });
+
+  it('no debería comprobar migraciones sin directorio de migraciones', async () => {
+    await expect(
+      new PrismaDatabaseHealth(prisma, null, logger).findPendingMigrations()
+    ).resolves.toBeNull();
+    expect(queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+// src/infrastructure/database/adapters/prisma/__tests__/PrismaUnitOfWork.test.ts
+
+import {
+  Prisma,
+  PrismaClient,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaUnitOfWork } from '../PrismaUnitOfWork';
+import { UserRepository } from '../repositories/UserRepository';
+import { UserRepositoryError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+
+const knownError = (code: string, meta?: Record<string, unknown>) =>
+  new Prisma.PrismaClientKnownRequestError('Error de prueba', {
+    code,
+    clientVersion: 'test',
+    meta,
+  });
+
+describe('PrismaUnitOfWork', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn().mockReturnThis(),
+  };
+  const transactionClient = {} as Prisma.TransactionClient;
+  let transaction: jest.Mock;
+  let unitOfWork: PrismaUnitOfWork;
+
+  // El cliente falsea $transaction: cada intento ejecuta el trabajo con el
+  // cliente de la transacción y falla con el siguiente error de la lista
+  const failAttemptsWith = (...errors: Error[]) => {
+    transaction.mockImplementation(
+      async (work: (tx: Prisma.TransactionClient) => Promise<unknown>) => {
+        const result = await work(transactionClient);
+        const error = errors.shift();
+        if (error) {
+          throw error;
+        }
+        return result;
+      }
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transaction = jest.fn();
+    unitOfWork = new PrismaUnitOfWork(
+      { $transaction: transaction } as unknown as PrismaClient,
+      { retryDelayMs: 0, maxWaitMs: 2000, timeoutMs: 10000 },
+      logger
+    );
+  });
+
+  it('debería ejecutar el trabajo con repositorios ligados a la transacción', async () => {
+    failAttemptsWith();
+    const work = jest.fn().mockResolvedValue('resultado');
+
+    await expect(unitOfWork.run(work)).resolves.toBe('resultado');
+
+    expect(work.mock.calls[0][0].userRepository).toBeInstanceOf(UserRepository);
+    expect(transaction).toHaveBeenCalledWith(expect.any(Function), {
+      maxWait: 2000,
+      timeout: 10000,
+      isolationLevel: undefined,
+    });
+  });
+
+  it('debería repetir el trabajo entero ante un conflicto de escritura o deadlock', async () => {
+    failAttemptsWith(
+      knownError('P2034'),
+      knownError('P2010', { code: '40P01' })
+    );
+    const work = jest.fn().mockResolvedValue('resultado');
+
+    await expect(unitOfWork.run(work)).resolves.toBe('resultado');
+
+    expect(work).toHaveBeenCalledTimes(3);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('debería reintentar cuando el conflicto llega envuelto por un repositorio', async () => {
+    failAttemptsWith(
+      new UserRepositoryError(
+        'Fallo al actualizar usuario',
+        knownError('P2010', { code: '1213' })
+      )
+    );
+    const work = jest.fn().mockResolvedValue('resultado');
+
+    await expect(unitOfWork.run(work)).resolves.toBe('resultado');
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it('debería propagar el error tras agotar los intentos', async () => {
+    const conflict = knownError('P2034');
+    failAttemptsWith(knownError('P2034'), knownError('P2034'), conflict);
+    const work = jest.fn().mockResolvedValue('resultado');
+
+    await expect(unitOfWork.run(work)).rejects.toBe(conflict);
+    expect(work).toHaveBeenCalledTimes(3);
+  });
+
+  it('no debería reintentar otros errores', async () => {
+    const uniqueViolation = knownError('P2002');
+    failAttemptsWith(uniqueViolation);
+    const work = jest.fn().mockResolvedValue('resultado');
+
+    await expect(unitOfWork.run(work)).rejects.toBe(uniqueViolation);
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."VerificationTokenPurpose" AS ENUM ('email_confirmation');
+
+-- CreateTable
+CREATE TABLE "public"."verification_tokens" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "purpose" "public"."VerificationTokenPurpose" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "verification_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "verification_tokens_token_hash_key" ON "public"."verification_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "verification_tokens_user_id_purpose_created_at_idx" ON "public"."verification_tokens"("user_id", "purpose", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."verification_tokens" ADD CONSTRAINT "verification_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."VerificationTokenPurpose" ADD VALUE 'password_reset';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "status_reason" VARCHAR(500),
+ADD COLUMN     "status_changed_by" TEXT,
+ADD COLUMN     "status_changed_at" TIMESTAMP(3),
+ADD COLUMN     "suspended_until" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_user_status_suspended_until_idx" ON "public"."users"("user_status", "suspended_until");
\ No newline at end of file
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."UserStatusChangeKind" AS ENUM ('status', 'role');
+
+-- CreateTable
+CREATE TABLE "public"."user_status_changes" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "kind" "public"."UserStatusChangeKind" NOT NULL,
+    "from_value" TEXT NOT NULL,
+    "to_value" TEXT NOT NULL,
+    "reason" VARCHAR(500),
+    "changed_by" TEXT,
+    "suspended_until" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_status_changes_user_id_created_at_idx" ON "public"."user_status_changes"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "user_status_changes_changed_by_created_at_idx" ON "public"."user_status_changes"("changed_by", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_status_changes" ADD CONSTRAINT "user_status_changes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
\ No newline at end of file
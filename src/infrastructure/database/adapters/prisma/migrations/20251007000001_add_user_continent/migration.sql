@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "continent" VARCHAR(40);
+
+-- Backfill: continente principal según CountryCode.getPrimaryContinent()
+UPDATE "public"."users"
+SET "continent" = CASE
+    WHEN "country_code" IN ('US', 'CA', 'MX', 'GL') THEN 'North America'
+    WHEN "country_code" IN ('GT', 'BZ', 'SV', 'HN', 'NI', 'CR', 'PA', 'CU', 'JM', 'HT', 'DO', 'PR', 'TT', 'BB', 'BS', 'BM') THEN 'Central America and Caribbean'
+    WHEN "country_code" IN ('CO', 'VE', 'GY', 'SR', 'GF', 'BR', 'EC', 'PE', 'BO', 'PY', 'UY', 'AR', 'CL', 'FK') THEN 'South America'
+    WHEN "country_code" IN ('ES', 'PT', 'FR', 'IT', 'DE', 'GB', 'IE', 'NL', 'BE', 'LU', 'CH', 'AT', 'MC', 'AD', 'MT', 'SM', 'VA', 'SE', 'NO', 'DK', 'FI', 'IS', 'PL', 'CZ', 'SK', 'HU', 'RO', 'BG', 'SI', 'HR', 'BA', 'RS', 'ME', 'MK', 'AL', 'XK', 'UA', 'BY', 'LT', 'LV', 'EE', 'MD') THEN 'Europe'
+    WHEN "country_code" IN ('RU', 'GE', 'AM', 'AZ', 'JP', 'KR', 'KP', 'CN', 'TW', 'HK', 'MO', 'MN', 'TH', 'VN', 'PH', 'ID', 'MY', 'SG', 'BN', 'LA', 'KH', 'MM', 'TL', 'IN', 'PK', 'BD', 'LK', 'NP', 'BT', 'MV', 'AF', 'TR', 'IR', 'IQ', 'SY', 'LB', 'JO', 'IL', 'PS', 'SA', 'YE', 'OM', 'AE', 'QA', 'BH', 'KW', 'CY', 'KZ', 'UZ', 'TM', 'TJ', 'KG') THEN 'Asia'
+    WHEN "country_code" IN ('EG', 'LY', 'TN', 'DZ', 'MA', 'SD', 'SS', 'NG', 'GH', 'CI', 'SN', 'ML', 'BF', 'NE', 'GN', 'SL', 'LR', 'GM', 'GW', 'CV', 'MR', 'TG', 'BJ', 'KE', 'ET', 'UG', 'TZ', 'RW', 'BI', 'SO', 'DJ', 'ER', 'MG', 'MU', 'SC', 'KM', 'CD', 'CF', 'CM', 'TD', 'CG', 'GA', 'GQ', 'ST', 'AO', 'ZA', 'ZW', 'BW', 'NA', 'ZM', 'MW', 'MZ', 'SZ', 'LS') THEN 'Africa'
+    WHEN "country_code" IN ('AU', 'NZ', 'PG', 'FJ', 'SB', 'VU', 'NC', 'PF', 'WS', 'TO', 'KI', 'NR', 'PW', 'FM', 'MH', 'TV') THEN 'Oceania'
+    ELSE 'Unknown'
+  END
+WHERE "country_code" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "users_country_code_idx" ON "public"."users"("country_code");
+
+-- CreateIndex
+CREATE INDEX "users_continent_idx" ON "public"."users"("continent");
\ No newline at end of file
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."OutboxStatus" AS ENUM ('pending', 'delivered', 'dead_letter');
+
+-- CreateTable
+CREATE TABLE "public"."outbox_messages" (
+    "id" TEXT NOT NULL,
+    "type" VARCHAR(100) NOT NULL,
+    "aggregate_id" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" "public"."OutboxStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" VARCHAR(1000),
+    "occurred_at" TIMESTAMP(3) NOT NULL,
+    "available_at" TIMESTAMP(3) NOT NULL,
+    "locked_until" TIMESTAMP(3),
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outbox_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_status_available_at_idx" ON "public"."outbox_messages"("status", "available_at");
+
+-- CreateIndex
+CREATE INDEX "outbox_messages_aggregate_id_idx" ON "public"."outbox_messages"("aggregate_id");
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "public"."courses" (
+    "id" TEXT NOT NULL,
+    "slug" VARCHAR(100) NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "description" VARCHAR(2000),
+    "source_language" VARCHAR(10) NOT NULL,
+    "target_language" VARCHAR(10) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "courses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."levels" (
+    "id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "position" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "levels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."sections" (
+    "id" TEXT NOT NULL,
+    "level_id" TEXT NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "position" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."modules" (
+    "id" TEXT NOT NULL,
+    "section_id" TEXT NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "position" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "modules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."lessons" (
+    "id" TEXT NOT NULL,
+    "module_id" TEXT NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "position" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lessons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "courses_slug_key" ON "public"."courses"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "levels_course_id_position_key" ON "public"."levels"("course_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sections_level_id_position_key" ON "public"."sections"("level_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "modules_section_id_position_key" ON "public"."modules"("section_id", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lessons_module_id_position_key" ON "public"."lessons"("module_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."levels" ADD CONSTRAINT "levels_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sections" ADD CONSTRAINT "sections_level_id_fkey" FOREIGN KEY ("level_id") REFERENCES "public"."levels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."modules" ADD CONSTRAINT "modules_section_id_fkey" FOREIGN KEY ("section_id") REFERENCES "public"."sections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."lessons" ADD CONSTRAINT "lessons_module_id_fkey" FOREIGN KEY ("module_id") REFERENCES "public"."modules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
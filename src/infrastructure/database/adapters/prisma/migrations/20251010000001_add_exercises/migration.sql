@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."ExerciseType" AS ENUM ('multiple_choice', 'translate', 'fill_blank', 'match_pairs', 'word_order', 'listening', 'dictation');
+
+-- CreateTable
+CREATE TABLE "public"."exercises" (
+    "id" TEXT NOT NULL,
+    "type" "public"."ExerciseType" NOT NULL,
+    "payload" TEXT NOT NULL,
+    "schema_version" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exercises_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."lesson_exercises" (
+    "lesson_id" TEXT NOT NULL,
+    "exercise_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lesson_exercises_pkey" PRIMARY KEY ("lesson_id","exercise_id")
+);
+
+-- CreateIndex
+CREATE INDEX "exercises_type_idx" ON "public"."exercises"("type");
+
+-- CreateIndex
+CREATE INDEX "lesson_exercises_exercise_id_idx" ON "public"."lesson_exercises"("exercise_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lesson_exercises_lesson_id_position_key" ON "public"."lesson_exercises"("lesson_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."lesson_exercises" ADD CONSTRAINT "lesson_exercises_lesson_id_fkey" FOREIGN KEY ("lesson_id") REFERENCES "public"."lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."lesson_exercises" ADD CONSTRAINT "lesson_exercises_exercise_id_fkey" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "public"."PublicationStatus" AS ENUM ('draft', 'in_review', 'published', 'archived');
+
+-- CreateEnum
+CREATE TYPE "public"."PublicationAction" AS ENUM ('submitted', 'approved', 'rejected', 'rolled_back', 'archived');
+
+-- CreateTable
+CREATE TABLE "public"."publications" (
+    "id" TEXT NOT NULL,
+    "course_id" TEXT,
+    "lesson_id" TEXT,
+    "status" "public"."PublicationStatus" NOT NULL DEFAULT 'draft',
+    "published_number" INTEGER,
+    "latest_number" INTEGER NOT NULL DEFAULT 0,
+    "pending_document" TEXT,
+    "pending_content_version" INTEGER,
+    "submitted_by" TEXT,
+    "submitted_at" TIMESTAMP(3),
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "publications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."published_snapshots" (
+    "publication_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "document" TEXT NOT NULL,
+    "content_version" INTEGER NOT NULL,
+    "submitted_by" TEXT,
+    "approved_by" TEXT,
+    "published_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "published_snapshots_pkey" PRIMARY KEY ("publication_id","number")
+);
+
+-- CreateTable
+CREATE TABLE "public"."publication_history" (
+    "id" TEXT NOT NULL,
+    "publication_id" TEXT NOT NULL,
+    "action" "public"."PublicationAction" NOT NULL,
+    "from_status" "public"."PublicationStatus" NOT NULL,
+    "to_status" "public"."PublicationStatus" NOT NULL,
+    "snapshot_number" INTEGER,
+    "comment" VARCHAR(2000),
+    "actor_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "publication_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "publications_course_id_key" ON "public"."publications"("course_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "publications_lesson_id_key" ON "public"."publications"("lesson_id");
+
+-- CreateIndex
+CREATE INDEX "publications_status_idx" ON "public"."publications"("status");
+
+-- CreateIndex
+CREATE INDEX "publication_history_publication_id_created_at_idx" ON "public"."publication_history"("publication_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."publications" ADD CONSTRAINT "publications_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."publications" ADD CONSTRAINT "publications_lesson_id_fkey" FOREIGN KEY ("lesson_id") REFERENCES "public"."lessons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."published_snapshots" ADD CONSTRAINT "published_snapshots_publication_id_fkey" FOREIGN KEY ("publication_id") REFERENCES "public"."publications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."publication_history" ADD CONSTRAINT "publication_history_publication_id_fkey" FOREIGN KEY ("publication_id") REFERENCES "public"."publications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
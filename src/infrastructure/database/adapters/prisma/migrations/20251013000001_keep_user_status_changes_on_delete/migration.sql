@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."UserStatusChangeKind" ADD VALUE 'deletion';
+
+-- DropForeignKey: el historial de moderación se conserva al eliminar el usuario
+ALTER TABLE "public"."user_status_changes" DROP CONSTRAINT "user_status_changes_user_id_fkey";
\ No newline at end of file
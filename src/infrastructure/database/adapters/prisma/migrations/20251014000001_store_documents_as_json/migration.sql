@@ -0,0 +1,9 @@
+-- AlterTable: los payloads y los documentos pasan de texto a jsonb; los
+-- valores guardados ya son JSON válido (JSON.stringify)
+ALTER TABLE "public"."exercises" ALTER COLUMN "payload" SET DATA TYPE JSONB USING "payload"::jsonb;
+
+-- AlterTable
+ALTER TABLE "public"."publications" ALTER COLUMN "pending_document" SET DATA TYPE JSONB USING "pending_document"::jsonb;
+
+-- AlterTable
+ALTER TABLE "public"."published_snapshots" ALTER COLUMN "document" SET DATA TYPE JSONB USING "document"::jsonb;
@@ -0,0 +1,190 @@
+// src/infrastructure/database/adapters/prisma/repositories/ContentNodeRepository.ts
+
+import { Prisma } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor, runInTransaction } from '../PrismaTransaction';
+import { IContentNodeRepository } from '@/core/interfaces/repositories/IContentNodeRepository';
+import {
+  ContentRepositoryError,
+  ContentVersionConflictError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ContentNode } from '@/core/domain/entities/ContentNode';
+import {
+  ChildContentKind,
+  parentKindOf,
+  reorderSiblings,
+} from '@/core/domain/services/ContentHierarchy';
+import {
+  ContentHierarchyError,
+  OrphanContentError,
+  PositionTakenError,
+} from '@/core/domain/errors/ContentHierarchyErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Base de los repositorios de Prisma de Level, Section, Module y Lesson.
+ *
+ * Las reglas de la jerarquía las garantiza el esquema: la clave foránea al
+ * contenedor (P2003 si no existe) con borrado en cascada y la restricción
+ * única (contenedor, posición) (P2002). Cada subclase solo implementa el
+ * acceso a su modelo.
+ */
+export abstract class ContentNodeRepository<
+  T extends ContentNode<T>,
+> implements IContentNodeRepository<T> {
+  protected abstract readonly kind: ChildContentKind;
+  protected readonly logger: ILogger;
+
+  constructor(
+    protected readonly prisma: PrismaExecutor,
+    logger: ILogger = defaultLogger
+  ) {
+    this.logger = logger.child({ component: this.constructor.name });
+  }
+
+  protected abstract insert(db: PrismaExecutor, node: T): Promise<void>;
+  protected abstract findOne(db: PrismaExecutor, id: string): Promise<T | null>;
+  protected abstract findChildren(
+    db: PrismaExecutor,
+    parentId: string
+  ): Promise<T[]>;
+  // Escribe título, posición y updatedAt si el elemento sigue en su versión,
+  // y la sube; devuelve false si no existe o está en otra versión
+  protected abstract write(db: PrismaExecutor, node: T): Promise<boolean>;
+  protected abstract setPosition(
+    db: PrismaExecutor,
+    id: string,
+    position: number,
+    updatedAt: Date
+  ): Promise<void>;
+  protected abstract remove(db: PrismaExecutor, id: string): Promise<void>;
+
+  async create(node: T): Promise<void> {
+    try {
+      await this.insert(this.prisma, node);
+    } catch (error) {
+      throw this.translateError('crear', error, node);
+    }
+  }
+
+  async findById(id: string): Promise<T | null> {
+    try {
+      return await this.findOne(this.prisma, id);
+    } catch (error) {
+      throw this.translateError('buscar', error);
+    }
+  }
+
+  async findByParentId(parentId: string): Promise<T[]> {
+    try {
+      return await this.findChildren(this.prisma, parentId);
+    } catch (error) {
+      throw this.translateError('listar', error);
+    }
+  }
+
+  async update(node: T): Promise<T | null> {
+    try {
+      if (await this.write(this.prisma, node)) {
+        return node.withVersion(node.version + 1);
+      }
+
+      // Nada en esa versión: o no existe o se guardó otro cambio antes
+      if (!(await this.findOne(this.prisma, node.id))) {
+        return null;
+      }
+      throw new ContentVersionConflictError(this.kind, node.id, node.version);
+    } catch (error) {
+      throw this.translateError('actualizar', error, node);
+    }
+  }
+
+  async reorder(
+    parentId: string,
+    orderedIds: string[],
+    now: Date
+  ): Promise<T[]> {
+    try {
+      return await runInTransaction(this.prisma, async (tx) => {
+        const siblings = await this.findChildren(tx, parentId);
+        const positions = reorderSiblings(
+          this.kind,
+          parentId,
+          siblings,
+          orderedIds
+        );
+
+        // Primero a posiciones negativas temporales: mover directamente a la
+        // posición final chocaría con la restricción única mientras otro
+        // hermano todavía la ocupa
+        for (const [index, id] of orderedIds.entries()) {
+          await this.setPosition(tx, id, -(index + 1), now);
+        }
+        for (const [id, position] of positions) {
+          await this.setPosition(tx, id, position.value, now);
+        }
+
+        return this.findChildren(tx, parentId);
+      });
+    } catch (error) {
+      throw this.translateError('reordenar', error);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.remove(this.prisma, id);
+    } catch (error) {
+      throw this.translateError('borrar', error);
+    }
+  }
+
+  private translateError(operation: string, error: unknown, node?: T): Error {
+    // Reglas de la jerarquía (llegan del dominio o del esquema) y conflictos
+    // de versión
+    if (
+      error instanceof ContentHierarchyError ||
+      error instanceof ContentVersionConflictError
+    ) {
+      return error;
+    }
+
+    if (node && error instanceof Prisma.PrismaClientKnownRequestError) {
+      // P2002: otro hermano ocupa la posición (única por contenedor)
+      if (error.code === 'P2002') {
+        return new PositionTakenError(
+          this.kind,
+          node.parentId,
+          node.position.value
+        );
+      }
+      // P2003: la clave foránea apunta a un contenedor que no existe
+      if (error.code === 'P2003') {
+        return new OrphanContentError(
+          this.kind,
+          parentKindOf(this.kind),
+          node.parentId
+        );
+      }
+    }
+
+    this.logger.error(`Fallo al ${operation} ${this.kind}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new ContentRepositoryError(
+      `Fallo al ${operation} ${this.kind}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// src/infrastructure/database/adapters/prisma/repositories/CourseCollaboratorRepository.ts
+
+import { Prisma } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { ICourseCollaboratorRepository } from '@/core/interfaces/repositories/ICourseCollaboratorRepository';
+import {
+  ContentNotFoundError,
+  ContentRepositoryError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de ICourseCollaboratorRepository usando Prisma ORM.
+ * La clave primaria (curso, usuario) impide repetir un colaborador y las
+ * claves foráneas borran las colaboraciones junto con el curso o el usuario.
+ */
+export class CourseCollaboratorRepository implements ICourseCollaboratorRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'CourseCollaboratorRepository' });
+  }
+
+  async add(courseId: string, userId: string, now: Date): Promise<void> {
+    try {
+      await this.prisma.courseCollaborator.upsert({
+        where: { courseId_userId: { courseId, userId } },
+        create: { courseId, userId, createdAt: now },
+        update: {},
+      });
+    } catch (error) {
+      // Otra petición lo añadió a la vez: el resultado es el mismo
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return;
+      }
+      // P2003: el usuario lo comprueba quien llama, así que falta el curso
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        throw new ContentNotFoundError('course', courseId);
+      }
+      throw this.translateError('añadir el colaborador', error);
+    }
+  }
+
+  async remove(courseId: string, userId: string): Promise<void> {
+    try {
+      await this.prisma.courseCollaborator.deleteMany({
+        where: { courseId, userId },
+      });
+    } catch (error) {
+      throw this.translateError('quitar el colaborador', error);
+    }
+  }
+
+  async findUserIdsByCourseId(courseId: string): Promise<string[]> {
+    try {
+      const collaborators = await this.prisma.courseCollaborator.findMany({
+        where: { courseId },
+        orderBy: [{ createdAt: 'asc' }, { userId: 'asc' }],
+        select: { userId: true },
+      });
+      return collaborators.map((collaborator) => collaborator.userId);
+    } catch (error) {
+      throw this.translateError('listar los colaboradores', error);
+    }
+  }
+
+  async isCollaborator(courseId: string, userId: string): Promise<boolean> {
+    try {
+      const count = await this.prisma.courseCollaborator.count({
+        where: { courseId, userId },
+      });
+      return count > 0;
+    } catch (error) {
+      throw this.translateError('comprobar el colaborador', error);
+    }
+  }
+
+  private translateError(operation: string, error: unknown): Error {
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new ContentRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
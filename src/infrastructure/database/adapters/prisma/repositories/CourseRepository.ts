@@ -0,0 +1,194 @@
+// src/infrastructure/database/adapters/prisma/repositories/CourseRepository.ts
+
+import {
+  Prisma,
+  Course as PrismaCourse,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { ICourseRepository } from '@/core/interfaces/repositories/ICourseRepository';
+import {
+  ContentRepositoryError,
+  ContentVersionConflictError,
+  CourseSlugTakenError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { Course } from '@/core/domain/entities/Course';
+import { Slug } from '@/core/domain/value-objects/Slug';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { LanguagePair } from '@/core/domain/value-objects/LanguagePair';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de ICourseRepository usando Prisma ORM.
+ * El borrado en cascada del contenido lo hacen las claves foráneas.
+ */
+export class CourseRepository implements ICourseRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'CourseRepository' });
+  }
+
+  async create(course: Course): Promise<void> {
+    try {
+      await this.prisma.course.create({
+        data: {
+          id: course.id,
+          ownerId: course.ownerId,
+          version: course.version,
+          createdAt: course.createdAt,
+          ...this.toData(course),
+        },
+      });
+    } catch (error) {
+      throw this.translateError('crear el curso', error, course);
+    }
+  }
+
+  async findById(id: string): Promise<Course | null> {
+    try {
+      const course = await this.prisma.course.findUnique({ where: { id } });
+      return course ? this.mapToCourse(course) : null;
+    } catch (error) {
+      throw this.translateError('buscar el curso', error);
+    }
+  }
+
+  async findBySlug(slug: Slug): Promise<Course | null> {
+    try {
+      const course = await this.prisma.course.findUnique({
+        where: { slug: slug.value },
+      });
+      return course ? this.mapToCourse(course) : null;
+    } catch (error) {
+      throw this.translateError('buscar el curso', error);
+    }
+  }
+
+  async findAll(): Promise<Course[]> {
+    try {
+      const courses = await this.prisma.course.findMany({
+        // El id desempata cursos creados en el mismo instante
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      return courses.map(this.mapToCourse.bind(this));
+    } catch (error) {
+      throw this.translateError('listar los cursos', error);
+    }
+  }
+
+  async findEditableBy(userId: string): Promise<Course[]> {
+    try {
+      const courses = await this.prisma.course.findMany({
+        where: {
+          OR: [{ ownerId: userId }, { collaborators: { some: { userId } } }],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      return courses.map(this.mapToCourse.bind(this));
+    } catch (error) {
+      throw this.translateError('listar los cursos', error);
+    }
+  }
+
+  async update(course: Course): Promise<Course | null> {
+    try {
+      const { count } = await this.prisma.course.updateMany({
+        where: { id: course.id, version: course.version },
+        data: { ...this.toData(course), version: course.version + 1 },
+      });
+      if (count > 0) {
+        return course.withVersion(course.version + 1);
+      }
+
+      // Nada en esa versión: o no existe o se guardó otro cambio antes
+      const exists = await this.prisma.course.count({
+        where: { id: course.id },
+      });
+      if (exists === 0) {
+        return null;
+      }
+      throw new ContentVersionConflictError(
+        'course',
+        course.id,
+        course.version
+      );
+    } catch (error) {
+      throw this.translateError('actualizar el curso', error, course);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.course.deleteMany({ where: { id } });
+    } catch (error) {
+      throw this.translateError('borrar el curso', error);
+    }
+  }
+
+  // Campos que se escriben al crear y al actualizar
+  private toData(course: Course) {
+    return {
+      slug: course.slug.value,
+      title: course.title.value,
+      description: course.description,
+      sourceLanguage: course.languagePair.source.value,
+      targetLanguage: course.languagePair.target.value,
+      updatedAt: course.updatedAt,
+    };
+  }
+
+  private mapToCourse(prismaCourse: PrismaCourse): Course {
+    return Course.fromPersistence(
+      prismaCourse.id,
+      new Slug(prismaCourse.slug),
+      new ContentTitle(prismaCourse.title),
+      prismaCourse.description,
+      LanguagePair.of(prismaCourse.sourceLanguage, prismaCourse.targetLanguage),
+      prismaCourse.ownerId,
+      prismaCourse.createdAt,
+      prismaCourse.updatedAt,
+      prismaCourse.version
+    );
+  }
+
+  private translateError(
+    operation: string,
+    error: unknown,
+    course?: Course
+  ): Error {
+    if (error instanceof ContentVersionConflictError) {
+      return error;
+    }
+
+    // P2002: violación de unicidad; el único campo único además del id es el slug
+    if (
+      course &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return new CourseSlugTakenError(course.slug.value, error);
+    }
+
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new ContentRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,179 @@
+// src/infrastructure/database/adapters/prisma/repositories/ExerciseRepository.ts
+
+import {
+  Prisma,
+  Exercise as PrismaExercise,
+  ExerciseType as PrismaExerciseType,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { IExerciseRepository } from '@/core/interfaces/repositories/IExerciseRepository';
+import {
+  ContentRepositoryError,
+  ContentVersionConflictError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { ExercisePayload } from '@/core/domain/value-objects/ExercisePayload';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de IExerciseRepository usando Prisma ORM.
+ * El payload se guarda en una columna Json junto a su versión de esquema; al
+ * leerlo, ExercisePayload lo convierte al formato actual y lo valida.
+ */
+export class ExerciseRepository implements IExerciseRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'ExerciseRepository' });
+  }
+
+  async create(exercise: Exercise): Promise<void> {
+    try {
+      await this.prisma.exercise.create({
+        data: {
+          id: exercise.id,
+          ownerId: exercise.ownerId,
+          version: exercise.version,
+          createdAt: exercise.createdAt,
+          ...this.toData(exercise),
+        },
+      });
+    } catch (error) {
+      throw this.translateError('crear el ejercicio', error);
+    }
+  }
+
+  async findById(id: string): Promise<Exercise | null> {
+    try {
+      const exercise = await this.prisma.exercise.findUnique({ where: { id } });
+      return exercise ? this.mapToExercise(exercise) : null;
+    } catch (error) {
+      throw this.translateError('buscar el ejercicio', error);
+    }
+  }
+
+  async findByIds(ids: string[]): Promise<Exercise[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const exercises = await this.prisma.exercise.findMany({
+        where: { id: { in: ids } },
+      });
+      const byId = new Map(
+        exercises.map((exercise) => [exercise.id, exercise])
+      );
+      return ids.flatMap((id) => {
+        const exercise = byId.get(id);
+        return exercise ? [this.mapToExercise(exercise)] : [];
+      });
+    } catch (error) {
+      throw this.translateError('buscar los ejercicios', error);
+    }
+  }
+
+  async update(exercise: Exercise): Promise<Exercise | null> {
+    try {
+      const { count } = await this.prisma.exercise.updateMany({
+        where: { id: exercise.id, version: exercise.version },
+        data: { ...this.toData(exercise), version: exercise.version + 1 },
+      });
+      if (count > 0) {
+        return exercise.withVersion(exercise.version + 1);
+      }
+
+      // Nada en esa versión: o no existe o se guardó otro cambio antes
+      const exists = await this.prisma.exercise.count({
+        where: { id: exercise.id },
+      });
+      if (exists === 0) {
+        return null;
+      }
+      throw new ContentVersionConflictError(
+        'exercise',
+        exercise.id,
+        exercise.version
+      );
+    } catch (error) {
+      throw this.translateError('actualizar el ejercicio', error);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      // Los enlaces con las lecciones se borran en cascada
+      await this.prisma.exercise.deleteMany({ where: { id } });
+    } catch (error) {
+      throw this.translateError('borrar el ejercicio', error);
+    }
+  }
+
+  // Campos que se escriben al crear y al actualizar
+  private toData(exercise: Exercise) {
+    return {
+      type: exercise.type as PrismaExerciseType,
+      payload: exercise.payload.data as unknown as Prisma.InputJsonValue,
+      schemaVersion: exercise.payload.version,
+      updatedAt: exercise.updatedAt,
+    };
+  }
+
+  private mapToExercise(prismaExercise: PrismaExercise): Exercise {
+    let payload: ExercisePayload;
+    try {
+      payload = ExercisePayload.fromPersistence(
+        prismaExercise.payload,
+        prismaExercise.schemaVersion
+      );
+    } catch (error) {
+      // Un payload guardado que no se puede leer es un fallo interno, no un
+      // error de validación de quien hace la petición
+      throw new ContentRepositoryError(
+        `Payload ilegible en el ejercicio ${prismaExercise.id}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return Exercise.fromPersistence(
+      prismaExercise.id,
+      payload,
+      prismaExercise.ownerId,
+      prismaExercise.createdAt,
+      prismaExercise.updatedAt,
+      prismaExercise.version
+    );
+  }
+
+  private translateError(operation: string, error: unknown): Error {
+    if (error instanceof ContentVersionConflictError) {
+      return error;
+    }
+
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (error instanceof ContentRepositoryError) {
+      return error;
+    }
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new ContentRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,212 @@
+// src/infrastructure/database/adapters/prisma/repositories/LessonExerciseRepository.ts
+
+import {
+  Prisma,
+  LessonExercise as PrismaLessonExercise,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor, runInTransaction } from '../PrismaTransaction';
+import { ILessonExerciseRepository } from '@/core/interfaces/repositories/ILessonExerciseRepository';
+import {
+  ContentRepositoryError,
+  ExerciseNotFoundError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { Position } from '@/core/domain/value-objects/Position';
+import { reorderSiblings } from '@/core/domain/services/ContentHierarchy';
+import {
+  ContentHierarchyError,
+  OrphanContentError,
+  PositionTakenError,
+} from '@/core/domain/errors/ContentHierarchyErrors';
+import { ExerciseAlreadyInLessonError } from '@/core/domain/errors/ExerciseErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de ILessonExerciseRepository usando Prisma ORM.
+ * La clave primaria (lección, ejercicio) impide repetir un ejercicio en una
+ * lección y la restricción única (lección, posición) repetir una posición.
+ */
+export class LessonExerciseRepository implements ILessonExerciseRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'LessonExerciseRepository' });
+  }
+
+  async attach(link: LessonExercise): Promise<void> {
+    try {
+      // SQLite no indica qué clave foránea falló: se comprueba el ejercicio
+      // antes para distinguirlo de una lección inexistente
+      const exercise = await this.prisma.exercise.findUnique({
+        where: { id: link.exerciseId },
+        select: { id: true },
+      });
+      if (!exercise) {
+        throw new ExerciseNotFoundError(link.exerciseId);
+      }
+
+      await this.prisma.lessonExercise.create({
+        data: {
+          lessonId: link.lessonId,
+          exerciseId: link.exerciseId,
+          position: link.position.value,
+          createdAt: link.createdAt,
+        },
+      });
+    } catch (error) {
+      throw this.translateError(
+        'añadir el ejercicio a la lección',
+        error,
+        link
+      );
+    }
+  }
+
+  async findByLessonId(lessonId: string): Promise<LessonExercise[]> {
+    try {
+      return await this.findLinks(this.prisma, lessonId);
+    } catch (error) {
+      throw this.translateError('listar los ejercicios de la lección', error);
+    }
+  }
+
+  async findByExerciseId(exerciseId: string): Promise<LessonExercise[]> {
+    try {
+      const links = await this.prisma.lessonExercise.findMany({
+        where: { exerciseId },
+        orderBy: [{ createdAt: 'asc' }, { lessonId: 'asc' }],
+      });
+      return links.map(this.mapToLessonExercise.bind(this));
+    } catch (error) {
+      throw this.translateError('listar las lecciones del ejercicio', error);
+    }
+  }
+
+  async reorder(
+    lessonId: string,
+    orderedExerciseIds: string[]
+  ): Promise<LessonExercise[]> {
+    try {
+      return await runInTransaction(this.prisma, async (tx) => {
+        const positions = reorderSiblings(
+          'exercise',
+          lessonId,
+          await this.findLinks(tx, lessonId),
+          orderedExerciseIds
+        );
+
+        // Primero a posiciones negativas temporales, como en
+        // ContentNodeRepository.reorder, para no chocar con la restricción única
+        for (const [index, exerciseId] of orderedExerciseIds.entries()) {
+          await this.setPosition(tx, lessonId, exerciseId, -(index + 1));
+        }
+        for (const [exerciseId, position] of positions) {
+          await this.setPosition(tx, lessonId, exerciseId, position.value);
+        }
+
+        return this.findLinks(tx, lessonId);
+      });
+    } catch (error) {
+      throw this.translateError(
+        'reordenar los ejercicios de la lección',
+        error
+      );
+    }
+  }
+
+  async detach(lessonId: string, exerciseId: string): Promise<void> {
+    try {
+      await this.prisma.lessonExercise.deleteMany({
+        where: { lessonId, exerciseId },
+      });
+    } catch (error) {
+      throw this.translateError('quitar el ejercicio de la lección', error);
+    }
+  }
+
+  private async findLinks(
+    db: PrismaExecutor,
+    lessonId: string
+  ): Promise<LessonExercise[]> {
+    const links = await db.lessonExercise.findMany({
+      where: { lessonId },
+      orderBy: { position: 'asc' },
+    });
+    return links.map(this.mapToLessonExercise.bind(this));
+  }
+
+  private async setPosition(
+    db: PrismaExecutor,
+    lessonId: string,
+    exerciseId: string,
+    position: number
+  ): Promise<void> {
+    await db.lessonExercise.update({
+      where: { lessonId_exerciseId: { lessonId, exerciseId } },
+      data: { position },
+    });
+  }
+
+  private mapToLessonExercise(link: PrismaLessonExercise): LessonExercise {
+    return LessonExercise.fromPersistence(
+      link.lessonId,
+      link.exerciseId,
+      new Position(link.position),
+      link.createdAt
+    );
+  }
+
+  private translateError(
+    operation: string,
+    error: unknown,
+    link?: LessonExercise
+  ): Error {
+    if (
+      error instanceof ContentHierarchyError ||
+      error instanceof ExerciseNotFoundError
+    ) {
+      return error;
+    }
+
+    if (link && error instanceof Prisma.PrismaClientKnownRequestError) {
+      // P2002: `meta.target` trae las columnas (PostgreSQL, SQLite) o el
+      // nombre del índice (MySQL); solo la restricción única menciona la
+      // posición, la otra es la clave primaria (lección, ejercicio)
+      if (error.code === 'P2002') {
+        return String(error.meta?.target ?? '').includes('position')
+          ? new PositionTakenError(
+              'exercise',
+              link.lessonId,
+              link.position.value
+            )
+          : new ExerciseAlreadyInLessonError(link.lessonId, link.exerciseId);
+      }
+      // P2003: el ejercicio ya se comprobó, así que falta la lección
+      if (error.code === 'P2003') {
+        return new OrphanContentError('exercise', 'lesson', link.lessonId);
+      }
+    }
+
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new ContentRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
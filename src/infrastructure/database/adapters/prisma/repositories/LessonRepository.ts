@@ -0,0 +1,86 @@
+// src/infrastructure/database/adapters/prisma/repositories/LessonRepository.ts
+
+import { Lesson as PrismaLesson } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { ContentNodeRepository } from './ContentNodeRepository';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+
+/**
+ * Implementación de ILessonRepository usando Prisma ORM (lecciones de un módulo)
+ */
+export class LessonRepository extends ContentNodeRepository<Lesson> {
+  protected readonly kind = 'lesson';
+
+  protected async insert(db: PrismaExecutor, lesson: Lesson): Promise<void> {
+    await db.lesson.create({
+      data: {
+        id: lesson.id,
+        moduleId: lesson.moduleId,
+        title: lesson.title.value,
+        position: lesson.position.value,
+        version: lesson.version,
+        createdAt: lesson.createdAt,
+        updatedAt: lesson.updatedAt,
+      },
+    });
+  }
+
+  protected async findOne(
+    db: PrismaExecutor,
+    id: string
+  ): Promise<Lesson | null> {
+    const lesson = await db.lesson.findUnique({ where: { id } });
+    return lesson ? this.mapToLesson(lesson) : null;
+  }
+
+  protected async findChildren(
+    db: PrismaExecutor,
+    parentId: string
+  ): Promise<Lesson[]> {
+    const rows = await db.lesson.findMany({
+      where: { moduleId: parentId },
+      orderBy: { position: 'asc' },
+    });
+    return rows.map(this.mapToLesson.bind(this));
+  }
+
+  protected async write(db: PrismaExecutor, lesson: Lesson): Promise<boolean> {
+    const { count } = await db.lesson.updateMany({
+      where: { id: lesson.id, version: lesson.version },
+      data: {
+        title: lesson.title.value,
+        position: lesson.position.value,
+        version: lesson.version + 1,
+        updatedAt: lesson.updatedAt,
+      },
+    });
+    return count > 0;
+  }
+
+  protected async setPosition(
+    db: PrismaExecutor,
+    id: string,
+    position: number,
+    updatedAt: Date
+  ): Promise<void> {
+    await db.lesson.update({ where: { id }, data: { position, updatedAt } });
+  }
+
+  protected async remove(db: PrismaExecutor, id: string): Promise<void> {
+    await db.lesson.deleteMany({ where: { id } });
+  }
+
+  private mapToLesson(prismaLesson: PrismaLesson): Lesson {
+    return Lesson.fromPersistence(
+      prismaLesson.id,
+      prismaLesson.moduleId,
+      new ContentTitle(prismaLesson.title),
+      new Position(prismaLesson.position),
+      prismaLesson.createdAt,
+      prismaLesson.updatedAt,
+      prismaLesson.version
+    );
+  }
+}
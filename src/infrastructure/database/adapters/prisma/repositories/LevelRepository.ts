@@ -0,0 +1,86 @@
+// src/infrastructure/database/adapters/prisma/repositories/LevelRepository.ts
+
+import { Level as PrismaLevel } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { ContentNodeRepository } from './ContentNodeRepository';
+import { Level } from '@/core/domain/entities/Level';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+
+/**
+ * Implementación de ILevelRepository usando Prisma ORM (niveles de un curso)
+ */
+export class LevelRepository extends ContentNodeRepository<Level> {
+  protected readonly kind = 'level';
+
+  protected async insert(db: PrismaExecutor, level: Level): Promise<void> {
+    await db.level.create({
+      data: {
+        id: level.id,
+        courseId: level.courseId,
+        title: level.title.value,
+        position: level.position.value,
+        version: level.version,
+        createdAt: level.createdAt,
+        updatedAt: level.updatedAt,
+      },
+    });
+  }
+
+  protected async findOne(
+    db: PrismaExecutor,
+    id: string
+  ): Promise<Level | null> {
+    const level = await db.level.findUnique({ where: { id } });
+    return level ? this.mapToLevel(level) : null;
+  }
+
+  protected async findChildren(
+    db: PrismaExecutor,
+    parentId: string
+  ): Promise<Level[]> {
+    const rows = await db.level.findMany({
+      where: { courseId: parentId },
+      orderBy: { position: 'asc' },
+    });
+    return rows.map(this.mapToLevel.bind(this));
+  }
+
+  protected async write(db: PrismaExecutor, level: Level): Promise<boolean> {
+    const { count } = await db.level.updateMany({
+      where: { id: level.id, version: level.version },
+      data: {
+        title: level.title.value,
+        position: level.position.value,
+        version: level.version + 1,
+        updatedAt: level.updatedAt,
+      },
+    });
+    return count > 0;
+  }
+
+  protected async setPosition(
+    db: PrismaExecutor,
+    id: string,
+    position: number,
+    updatedAt: Date
+  ): Promise<void> {
+    await db.level.update({ where: { id }, data: { position, updatedAt } });
+  }
+
+  protected async remove(db: PrismaExecutor, id: string): Promise<void> {
+    await db.level.deleteMany({ where: { id } });
+  }
+
+  private mapToLevel(prismaLevel: PrismaLevel): Level {
+    return Level.fromPersistence(
+      prismaLevel.id,
+      prismaLevel.courseId,
+      new ContentTitle(prismaLevel.title),
+      new Position(prismaLevel.position),
+      prismaLevel.createdAt,
+      prismaLevel.updatedAt,
+      prismaLevel.version
+    );
+  }
+}
@@ -0,0 +1,86 @@
+// src/infrastructure/database/adapters/prisma/repositories/ModuleRepository.ts
+
+import { Module as PrismaModule } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { ContentNodeRepository } from './ContentNodeRepository';
+import { Module } from '@/core/domain/entities/Module';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+
+/**
+ * Implementación de IModuleRepository usando Prisma ORM (módulos de una sección)
+ */
+export class ModuleRepository extends ContentNodeRepository<Module> {
+  protected readonly kind = 'module';
+
+  protected async insert(db: PrismaExecutor, module: Module): Promise<void> {
+    await db.module.create({
+      data: {
+        id: module.id,
+        sectionId: module.sectionId,
+        title: module.title.value,
+        position: module.position.value,
+        version: module.version,
+        createdAt: module.createdAt,
+        updatedAt: module.updatedAt,
+      },
+    });
+  }
+
+  protected async findOne(
+    db: PrismaExecutor,
+    id: string
+  ): Promise<Module | null> {
+    const module = await db.module.findUnique({ where: { id } });
+    return module ? this.mapToModule(module) : null;
+  }
+
+  protected async findChildren(
+    db: PrismaExecutor,
+    parentId: string
+  ): Promise<Module[]> {
+    const rows = await db.module.findMany({
+      where: { sectionId: parentId },
+      orderBy: { position: 'asc' },
+    });
+    return rows.map(this.mapToModule.bind(this));
+  }
+
+  protected async write(db: PrismaExecutor, module: Module): Promise<boolean> {
+    const { count } = await db.module.updateMany({
+      where: { id: module.id, version: module.version },
+      data: {
+        title: module.title.value,
+        position: module.position.value,
+        version: module.version + 1,
+        updatedAt: module.updatedAt,
+      },
+    });
+    return count > 0;
+  }
+
+  protected async setPosition(
+    db: PrismaExecutor,
+    id: string,
+    position: number,
+    updatedAt: Date
+  ): Promise<void> {
+    await db.module.update({ where: { id }, data: { position, updatedAt } });
+  }
+
+  protected async remove(db: PrismaExecutor, id: string): Promise<void> {
+    await db.module.deleteMany({ where: { id } });
+  }
+
+  private mapToModule(prismaModule: PrismaModule): Module {
+    return Module.fromPersistence(
+      prismaModule.id,
+      prismaModule.sectionId,
+      new ContentTitle(prismaModule.title),
+      new Position(prismaModule.position),
+      prismaModule.createdAt,
+      prismaModule.updatedAt,
+      prismaModule.version
+    );
+  }
+}
@@ -0,0 +1,229 @@
+// src/infrastructure/database/adapters/prisma/repositories/OutboxRepository.ts
+
+import {
+  Prisma,
+  OutboxStatus as PrismaOutboxStatus,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import {
+  IOutboxRepository,
+  OutboxBacklog,
+  OutboxMessage,
+} from '@/core/interfaces/repositories/IOutboxRepository';
+import { DomainEvent } from '@/core/domain/events/DomainEvent';
+import {
+  UserRepositoryError,
+  DatabaseConnectionError,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+// Longitud máxima de last_error en el schema
+const MAX_ERROR_LENGTH = 1000;
+
+const OUTBOX_SELECT = {
+  id: true,
+  type: true,
+  aggregateId: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  occurredAt: true,
+  availableAt: true,
+} satisfies Prisma.OutboxMessageSelect;
+
+type PersistedOutboxMessage = Prisma.OutboxMessageGetPayload<{
+  select: typeof OUTBOX_SELECT;
+}>;
+
+/**
+ * Implementación de IOutboxRepository usando Prisma ORM.
+ *
+ * La reserva de eventos no usa SELECT ... FOR UPDATE SKIP LOCKED (Prisma no
+ * lo expone y MySQL/SQLite no lo comparten): lee candidatos y los reserva
+ * uno a uno con una actualización condicional sobre `locked_until`, de modo
+ * que dos dispatchers concurrentes nunca reservan el mismo evento.
+ */
+export class OutboxRepository implements IOutboxRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'OutboxRepository' });
+  }
+
+  async append(events: DomainEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      await this.prisma.outboxMessage.createMany({
+        data: events.map((event) => ({
+          id: event.id,
+          type: event.type,
+          aggregateId: event.aggregateId,
+          payload: JSON.stringify(event.payload),
+          occurredAt: event.occurredAt,
+          availableAt: event.occurredAt,
+        })),
+      });
+    } catch (error) {
+      throw this.translateError('guardar eventos en el outbox', error);
+    }
+  }
+
+  async claimBatch(
+    now: Date,
+    limit: number,
+    leaseMs: number
+  ): Promise<OutboxMessage[]> {
+    try {
+      const available: Prisma.OutboxMessageWhereInput = {
+        status: PrismaOutboxStatus.pending,
+        availableAt: { lte: now },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      };
+
+      const candidates = await this.prisma.outboxMessage.findMany({
+        where: available,
+        orderBy: [{ occurredAt: 'asc' }, { id: 'asc' }],
+        take: limit,
+        select: OUTBOX_SELECT,
+      });
+
+      const lockedUntil = new Date(now.getTime() + leaseMs);
+      const claimed: OutboxMessage[] = [];
+      for (const candidate of candidates) {
+        // Solo se reserva si nadie lo reservó entre la lectura y ahora
+        const { count } = await this.prisma.outboxMessage.updateMany({
+          where: { id: candidate.id, ...available },
+          data: { lockedUntil, attempts: { increment: 1 } },
+        });
+        if (count === 1) {
+          claimed.push(
+            this.mapToOutboxMessage({
+              ...candidate,
+              attempts: candidate.attempts + 1,
+            })
+          );
+        }
+      }
+      return claimed;
+    } catch (error) {
+      throw this.translateError('reservar eventos del outbox', error);
+    }
+  }
+
+  async markDelivered(eventId: string, deliveredAt: Date): Promise<void> {
+    try {
+      await this.prisma.outboxMessage.update({
+        where: { id: eventId },
+        data: {
+          status: PrismaOutboxStatus.delivered,
+          lockedUntil: null,
+          processedAt: deliveredAt,
+        },
+      });
+    } catch (error) {
+      throw this.translateError('marcar evento como entregado', error);
+    }
+  }
+
+  async scheduleRetry(
+    eventId: string,
+    error: string,
+    availableAt: Date
+  ): Promise<void> {
+    try {
+      await this.prisma.outboxMessage.update({
+        where: { id: eventId },
+        data: {
+          lastError: error.slice(0, MAX_ERROR_LENGTH),
+          availableAt,
+          lockedUntil: null,
+        },
+      });
+    } catch (cause) {
+      throw this.translateError('programar el reintento de un evento', cause);
+    }
+  }
+
+  async markDeadLetter(
+    eventId: string,
+    error: string,
+    failedAt: Date
+  ): Promise<void> {
+    try {
+      await this.prisma.outboxMessage.update({
+        where: { id: eventId },
+        data: {
+          status: PrismaOutboxStatus.dead_letter,
+          lastError: error.slice(0, MAX_ERROR_LENGTH),
+          lockedUntil: null,
+          processedAt: failedAt,
+        },
+      });
+    } catch (cause) {
+      throw this.translateError('mover evento a dead letter', cause);
+    }
+  }
+
+  async getBacklog(now: Date): Promise<OutboxBacklog> {
+    try {
+      const where: Prisma.OutboxMessageWhereInput = {
+        status: PrismaOutboxStatus.pending,
+        availableAt: { lte: now },
+      };
+      const [due, oldest] = await Promise.all([
+        this.prisma.outboxMessage.count({ where }),
+        this.prisma.outboxMessage.findFirst({
+          where,
+          orderBy: [{ availableAt: 'asc' }, { id: 'asc' }],
+          select: { availableAt: true },
+        }),
+      ]);
+      return { due, oldestDueAt: oldest?.availableAt ?? null };
+    } catch (error) {
+      throw this.translateError('consultar los eventos pendientes', error);
+    }
+  }
+
+  private mapToOutboxMessage(message: PersistedOutboxMessage): OutboxMessage {
+    return {
+      event: {
+        id: message.id,
+        type: message.type,
+        aggregateId: message.aggregateId,
+        occurredAt: message.occurredAt,
+        payload: JSON.parse(message.payload) as object,
+      },
+      status: message.status,
+      attempts: message.attempts,
+      lastError: message.lastError,
+      availableAt: message.availableAt,
+    };
+  }
+
+  private translateError(operation: string, error: unknown): Error {
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new UserRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
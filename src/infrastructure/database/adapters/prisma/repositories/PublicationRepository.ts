@@ -0,0 +1,359 @@
+// src/infrastructure/database/adapters/prisma/repositories/PublicationRepository.ts
+
+import {
+  Prisma,
+  Publication as PrismaPublication,
+  PublishedSnapshot as PrismaPublishedSnapshot,
+  PublicationHistoryEntry as PrismaPublicationHistoryEntry,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor, runInTransaction } from '../PrismaTransaction';
+import { IPublicationRepository } from '@/core/interfaces/repositories/IPublicationRepository';
+import {
+  ContentNotFoundError,
+  ContentRepositoryError,
+  ContentVersionConflictError,
+} from '@/core/interfaces/repositories/ContentRepositoryErrors';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import {
+  Publication,
+  PublicationChange,
+  PublicationStatus,
+  PublishableKind,
+} from '@/core/domain/entities/Publication';
+import { PublicationHistoryEntry } from '@/core/domain/entities/PublicationHistoryEntry';
+import {
+  PublishedDocument,
+  PublishedSnapshot,
+} from '@/core/domain/entities/PublishedSnapshot';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de IPublicationRepository usando Prisma ORM.
+ *
+ * Cada publicación apunta a su curso o a su lección con una clave foránea
+ * propia (course_id o lesson_id), así que borrar el contenido borra en
+ * cascada la publicación, sus instantáneas y su historial. Los documentos
+ * se guardan en columnas Json.
+ */
+export class PublicationRepository implements IPublicationRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'PublicationRepository' });
+  }
+
+  async findByContent(
+    kind: PublishableKind,
+    contentId: string
+  ): Promise<Publication | null> {
+    try {
+      const publication = await this.prisma.publication.findFirst({
+        where: this.contentWhere(kind, contentId),
+      });
+      return publication ? this.mapToPublication(publication) : null;
+    } catch (error) {
+      throw this.translateError('buscar la publicación', error);
+    }
+  }
+
+  async findByStatus(status: PublicationStatus): Promise<Publication[]> {
+    try {
+      const publications = await this.prisma.publication.findMany({
+        where: { status },
+        orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+      });
+      return publications.map(this.mapToPublication.bind(this));
+    } catch (error) {
+      throw this.translateError('listar las publicaciones', error);
+    }
+  }
+
+  async save({
+    publication,
+    entry,
+    snapshot,
+  }: PublicationChange): Promise<Publication> {
+    try {
+      return await runInTransaction(this.prisma, async (tx) => {
+        if (publication.isStored()) {
+          await this.updateVersioned(tx, publication);
+        } else {
+          await tx.publication.create({
+            data: {
+              id: publication.id,
+              ...this.contentWhere(publication.kind, publication.contentId),
+              ...this.toData(publication),
+              version: 1,
+              createdAt: publication.createdAt,
+            },
+          });
+        }
+
+        if (snapshot) {
+          await tx.publishedSnapshot.create({
+            data: {
+              publicationId: snapshot.publicationId,
+              number: snapshot.number,
+              document: snapshot.document as unknown as Prisma.InputJsonValue,
+              contentVersion: snapshot.contentVersion,
+              submittedBy: snapshot.submittedBy,
+              approvedBy: snapshot.approvedBy,
+              publishedAt: snapshot.publishedAt,
+            },
+          });
+        }
+        await tx.publicationHistoryEntry.create({
+          data: {
+            id: entry.id,
+            publicationId: entry.publicationId,
+            action: entry.action,
+            fromStatus: entry.fromStatus,
+            toStatus: entry.toStatus,
+            snapshotNumber: entry.snapshotNumber,
+            comment: entry.comment,
+            actorId: entry.actorId,
+            createdAt: entry.createdAt,
+          },
+        });
+
+        return publication.withVersion(publication.version + 1);
+      });
+    } catch (error) {
+      throw this.translateError('guardar la publicación', error, publication);
+    }
+  }
+
+  async findSnapshot(
+    publicationId: string,
+    number: number
+  ): Promise<PublishedSnapshot | null> {
+    try {
+      const snapshot = await this.prisma.publishedSnapshot.findUnique({
+        where: { publicationId_number: { publicationId, number } },
+      });
+      return snapshot ? this.mapToSnapshot(snapshot) : null;
+    } catch (error) {
+      throw this.translateError('buscar la instantánea', error);
+    }
+  }
+
+  async findSnapshots(publicationId: string): Promise<PublishedSnapshot[]> {
+    try {
+      const snapshots = await this.prisma.publishedSnapshot.findMany({
+        where: { publicationId },
+        orderBy: { number: 'asc' },
+      });
+      return snapshots.map(this.mapToSnapshot.bind(this));
+    } catch (error) {
+      throw this.translateError('listar las instantáneas', error);
+    }
+  }
+
+  async findLiveSnapshots(kind: PublishableKind): Promise<PublishedSnapshot[]> {
+    try {
+      const publications = await this.prisma.publication.findMany({
+        where: {
+          [kind === 'course' ? 'courseId' : 'lessonId']: { not: null },
+          publishedNumber: { not: null },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        select: { id: true, publishedNumber: true },
+      });
+      if (publications.length === 0) {
+        return [];
+      }
+
+      const snapshots = await this.prisma.publishedSnapshot.findMany({
+        where: {
+          OR: publications.map((publication) => ({
+            publicationId: publication.id,
+            number: publication.publishedNumber as number,
+          })),
+        },
+      });
+      const byPublication = new Map(
+        snapshots.map((snapshot) => [snapshot.publicationId, snapshot])
+      );
+      return publications.flatMap((publication) => {
+        const snapshot = byPublication.get(publication.id);
+        return snapshot ? [this.mapToSnapshot(snapshot)] : [];
+      });
+    } catch (error) {
+      throw this.translateError('listar las instantáneas publicadas', error);
+    }
+  }
+
+  async findHistory(publicationId: string): Promise<PublicationHistoryEntry[]> {
+    try {
+      const entries = await this.prisma.publicationHistoryEntry.findMany({
+        where: { publicationId },
+        // El id desempata entradas con la misma fecha
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      });
+      return entries.map(this.mapToEntry.bind(this));
+    } catch (error) {
+      throw this.translateError('listar el historial', error);
+    }
+  }
+
+  // Guarda la publicación si sigue en la versión con la que se leyó
+  private async updateVersioned(
+    tx: Prisma.TransactionClient,
+    publication: Publication
+  ): Promise<void> {
+    const { count } = await tx.publication.updateMany({
+      where: { id: publication.id, version: publication.version },
+      data: { ...this.toData(publication), version: publication.version + 1 },
+    });
+    if (count > 0) {
+      return;
+    }
+
+    // Nada en esa versión: o se borró con su contenido o se guardó otro cambio antes
+    const exists = await tx.publication.count({
+      where: { id: publication.id },
+    });
+    if (exists === 0) {
+      throw new ContentNotFoundError(publication.kind, publication.contentId);
+    }
+    throw new ContentVersionConflictError(
+      'publication',
+      publication.id,
+      publication.version
+    );
+  }
+
+  private contentWhere(kind: PublishableKind, contentId: string) {
+    return kind === 'course'
+      ? { courseId: contentId }
+      : { lessonId: contentId };
+  }
+
+  // Campos que se escriben al crear y al actualizar
+  private toData(publication: Publication) {
+    const pending = publication.pending;
+    return {
+      status: publication.status,
+      publishedNumber: publication.publishedNumber,
+      latestNumber: publication.latestNumber,
+      pendingDocument: pending
+        ? (pending.document as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      pendingContentVersion: pending?.contentVersion ?? null,
+      submittedBy: pending?.submittedBy ?? null,
+      submittedAt: pending?.submittedAt ?? null,
+      updatedAt: publication.updatedAt,
+    };
+  }
+
+  private mapToPublication(prismaPublication: PrismaPublication): Publication {
+    const kind: PublishableKind = prismaPublication.courseId
+      ? 'course'
+      : 'lesson';
+    const pending =
+      prismaPublication.pendingDocument !== null
+        ? {
+            document:
+              prismaPublication.pendingDocument as unknown as PublishedDocument,
+            contentVersion: prismaPublication.pendingContentVersion as number,
+            submittedBy: prismaPublication.submittedBy as string,
+            submittedAt: prismaPublication.submittedAt as Date,
+          }
+        : null;
+
+    return Publication.fromPersistence(
+      prismaPublication.id,
+      kind,
+      (prismaPublication.courseId ?? prismaPublication.lessonId) as string,
+      prismaPublication.status,
+      pending,
+      prismaPublication.publishedNumber,
+      prismaPublication.latestNumber,
+      prismaPublication.createdAt,
+      prismaPublication.updatedAt,
+      prismaPublication.version
+    );
+  }
+
+  private mapToSnapshot(
+    prismaSnapshot: PrismaPublishedSnapshot
+  ): PublishedSnapshot {
+    return PublishedSnapshot.fromPersistence(
+      prismaSnapshot.publicationId,
+      prismaSnapshot.number,
+      prismaSnapshot.document as unknown as PublishedDocument,
+      prismaSnapshot.contentVersion,
+      prismaSnapshot.submittedBy,
+      prismaSnapshot.approvedBy,
+      prismaSnapshot.publishedAt
+    );
+  }
+
+  private mapToEntry(
+    prismaEntry: PrismaPublicationHistoryEntry
+  ): PublicationHistoryEntry {
+    return PublicationHistoryEntry.fromPersistence(
+      prismaEntry.id,
+      prismaEntry.publicationId,
+      prismaEntry.action,
+      prismaEntry.fromStatus,
+      prismaEntry.toStatus,
+      prismaEntry.snapshotNumber,
+      prismaEntry.comment,
+      prismaEntry.actorId,
+      prismaEntry.createdAt
+    );
+  }
+
+  private translateError(
+    operation: string,
+    error: unknown,
+    publication?: Publication
+  ): Error {
+    if (
+      error instanceof ContentVersionConflictError ||
+      error instanceof ContentNotFoundError
+    ) {
+      return error;
+    }
+
+    if (publication && error instanceof Prisma.PrismaClientKnownRequestError) {
+      // P2002: otra petición creó la publicación del mismo contenido a la vez
+      if (error.code === 'P2002') {
+        return new ContentVersionConflictError(
+          'publication',
+          publication.id,
+          publication.version
+        );
+      }
+      // P2003: el curso o la lección se borró antes de crear su publicación
+      if (error.code === 'P2003') {
+        return new ContentNotFoundError(
+          publication.kind,
+          publication.contentId
+        );
+      }
+    }
+
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new ContentRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
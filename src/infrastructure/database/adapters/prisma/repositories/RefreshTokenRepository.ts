@@ -0,0 +1,158 @@
+// src/infrastructure/database/adapters/prisma/repositories/RefreshTokenRepository.ts
+
+import { Prisma } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor, runInTransaction } from '../PrismaTransaction';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { RefreshToken } from '@/core/domain/entities/RefreshToken';
+import {
+  UserRepositoryError,
+  DatabaseConnectionError,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de IRefreshTokenRepository usando Prisma ORM.
+ *
+ * La rotación se hace en una transacción con una actualización condicional
+ * (`revokedAt: null`), de modo que dos canjes concurrentes del mismo token no
+ * puedan tener éxito ambos.
+ */
+export class RefreshTokenRepository implements IRefreshTokenRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'RefreshTokenRepository' });
+  }
+
+  async create(token: RefreshToken): Promise<void> {
+    try {
+      await this.prisma.refreshToken.create({
+        data: this.mapToPersistence(token),
+      });
+    } catch (error) {
+      throw this.translateError('crear refresh token', error);
+    }
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    try {
+      const token = await this.prisma.refreshToken.findUnique({
+        where: { tokenHash },
+      });
+      return token ? this.mapToRefreshToken(token) : null;
+    } catch (error) {
+      throw this.translateError('buscar refresh token', error);
+    }
+  }
+
+  async rotate(
+    currentTokenId: string,
+    replacement: RefreshToken,
+    rotatedAt: Date
+  ): Promise<boolean> {
+    try {
+      return await runInTransaction(this.prisma, async (tx) => {
+        const { count } = await tx.refreshToken.updateMany({
+          where: { id: currentTokenId, revokedAt: null },
+          data: { revokedAt: rotatedAt, replacedByTokenId: replacement.id },
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        await tx.refreshToken.create({
+          data: this.mapToPersistence(replacement),
+        });
+        return true;
+      });
+    } catch (error) {
+      throw this.translateError('rotar refresh token', error);
+    }
+  }
+
+  async revokeFamily(familyId: string, revokedAt: Date): Promise<void> {
+    try {
+      const { count } = await this.prisma.refreshToken.updateMany({
+        where: { familyId, revokedAt: null },
+        data: { revokedAt },
+      });
+      this.logger.info('Familia de refresh tokens revocada', {
+        familyId,
+        count,
+      });
+    } catch (error) {
+      throw this.translateError('revocar familia de refresh tokens', error);
+    }
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: Date): Promise<void> {
+    try {
+      const { count } = await this.prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt },
+      });
+      this.logger.info('Sesiones del usuario revocadas', { userId, count });
+    } catch (error) {
+      throw this.translateError('revocar refresh tokens del usuario', error);
+    }
+  }
+
+  private mapToPersistence(token: RefreshToken) {
+    return {
+      id: token.id,
+      userId: token.userId,
+      familyId: token.familyId,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt,
+      revokedAt: token.revokedAt,
+      replacedByTokenId: token.replacedByTokenId,
+      createdAt: token.createdAt,
+    };
+  }
+
+  private mapToRefreshToken(prismaToken: {
+    id: string;
+    userId: string;
+    familyId: string;
+    tokenHash: string;
+    expiresAt: Date;
+    revokedAt: Date | null;
+    replacedByTokenId: string | null;
+    createdAt: Date;
+  }): RefreshToken {
+    return RefreshToken.fromPersistence(
+      prismaToken.id,
+      prismaToken.userId,
+      prismaToken.familyId,
+      prismaToken.tokenHash,
+      prismaToken.expiresAt,
+      prismaToken.createdAt,
+      prismaToken.revokedAt,
+      prismaToken.replacedByTokenId
+    );
+  }
+
+  private translateError(operation: string, error: unknown): Error {
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new UserRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
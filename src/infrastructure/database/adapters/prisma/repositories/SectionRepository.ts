@@ -0,0 +1,89 @@
+// src/infrastructure/database/adapters/prisma/repositories/SectionRepository.ts
+
+import { Section as PrismaSection } from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { ContentNodeRepository } from './ContentNodeRepository';
+import { Section } from '@/core/domain/entities/Section';
+import { ContentTitle } from '@/core/domain/value-objects/ContentTitle';
+import { Position } from '@/core/domain/value-objects/Position';
+
+/**
+ * Implementación de ISectionRepository usando Prisma ORM (secciones de un nivel)
+ */
+export class SectionRepository extends ContentNodeRepository<Section> {
+  protected readonly kind = 'section';
+
+  protected async insert(db: PrismaExecutor, section: Section): Promise<void> {
+    await db.section.create({
+      data: {
+        id: section.id,
+        levelId: section.levelId,
+        title: section.title.value,
+        position: section.position.value,
+        version: section.version,
+        createdAt: section.createdAt,
+        updatedAt: section.updatedAt,
+      },
+    });
+  }
+
+  protected async findOne(
+    db: PrismaExecutor,
+    id: string
+  ): Promise<Section | null> {
+    const section = await db.section.findUnique({ where: { id } });
+    return section ? this.mapToSection(section) : null;
+  }
+
+  protected async findChildren(
+    db: PrismaExecutor,
+    parentId: string
+  ): Promise<Section[]> {
+    const rows = await db.section.findMany({
+      where: { levelId: parentId },
+      orderBy: { position: 'asc' },
+    });
+    return rows.map(this.mapToSection.bind(this));
+  }
+
+  protected async write(
+    db: PrismaExecutor,
+    section: Section
+  ): Promise<boolean> {
+    const { count } = await db.section.updateMany({
+      where: { id: section.id, version: section.version },
+      data: {
+        title: section.title.value,
+        position: section.position.value,
+        version: section.version + 1,
+        updatedAt: section.updatedAt,
+      },
+    });
+    return count > 0;
+  }
+
+  protected async setPosition(
+    db: PrismaExecutor,
+    id: string,
+    position: number,
+    updatedAt: Date
+  ): Promise<void> {
+    await db.section.update({ where: { id }, data: { position, updatedAt } });
+  }
+
+  protected async remove(db: PrismaExecutor, id: string): Promise<void> {
+    await db.section.deleteMany({ where: { id } });
+  }
+
+  private mapToSection(prismaSection: PrismaSection): Section {
+    return Section.fromPersistence(
+      prismaSection.id,
+      prismaSection.levelId,
+      new ContentTitle(prismaSection.title),
+      new Position(prismaSection.position),
+      prismaSection.createdAt,
+      prismaSection.updatedAt,
+      prismaSection.version
+    );
+  }
+}
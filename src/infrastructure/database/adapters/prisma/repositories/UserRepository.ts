@@ -1,12 +1,29 @@
 // src/infrastructure/database/adapters/prisma/repositories/UserRepository.ts
 
 import {
-  PrismaClient,
   Prisma,
   Role as PrismaRole,
   UserStatus as PrismaUserStatus,
 } from '@/infrastructure/node_modules/.prisma/client';
-import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { PrismaExecutor, runInTransaction } from '../PrismaTransaction';
+import {
+  IUserRepository,
+  SortDirection,
+  UserChangeContext,
+  UserPage,
+  UserPageRequest,
+  UserSearchCriteria,
+  UserSortField,
+} from '@/core/interfaces/repositories/IUserRepository';
+import {
+  encodeUserSearchCursor,
+  resolveUserSearch,
+  UserSearchPosition,
+} from '@/core/interfaces/repositories/UserSearch';
+import {
+  buildUserDeletion,
+  buildUserStatusChanges,
+} from '@/core/interfaces/repositories/UserStatusChanges';
 import { User } from '@/core/domain/entities/User';
 import { Email } from '@/core/domain/value-objects/Email';
 import { HashedPassword } from '@/core/domain/value-objects/Password';
@@ -14,39 +31,56 @@ import { Role } from '@/core/domain/value-objects/Role';
 import { Username } from '@/core/domain/value-objects/Username';
 import { CountryCode } from '@/core/domain/value-objects/CountryCode';
 import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+import { toUserStatusChangeData } from './UserStatusChangeRepository';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+import {
+  UserRepositoryError,
+  UserAlreadyExistsError,
+  DatabaseConnectionError,
+  InvalidUserSearchError,
+  UniqueUserField,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+
+// Los errores viven en core para que cualquier adaptador pueda lanzarlos;
+// se re-exportan aquí para mantener compatibles los imports existentes
+export {
+  UserRepositoryError,
+  UserNotFoundError,
+  UserAlreadyExistsError,
+  DatabaseConnectionError,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+
+// Campos que se leen en todas las consultas que devuelven usuarios completos
+const USER_SELECT = {
+  id: true,
+  email: true,
+  username: true,
+  passwordHash: true,
+  role: true,
+  status: true,
+  statusReason: true,
+  statusChangedBy: true,
+  statusChangedAt: true,
+  suspendedUntil: true,
+  countryCode: true,
+  lastLogin: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+type PersistedUser = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>;
 
 /**
- * Errores específicos de Prisma para manejo de errores mejorado
+ * Campo único que provocó un P2002. `meta.target` trae las columnas
+ * (PostgreSQL, SQLite) o el nombre del índice (MySQL); ambos lo mencionan
  */
-export class UserRepositoryError extends Error {
-  constructor(
-    message: string,
-    public readonly originalError?: Error
-  ) {
-    super(message);
-    this.name = 'UserRepositoryError';
-  }
-}
-
-export class UserNotFoundError extends UserRepositoryError {
-  constructor(identifier: string, originalError?: Error) {
-    super(`Usuario no encontrado: ${identifier}`, originalError);
-    this.name = 'UserNotFoundError';
-  }
-}
-
-export class UserAlreadyExistsError extends UserRepositoryError {
-  constructor(email: string, originalError?: Error) {
-    super(`Usuario con email ${email} ya existe`, originalError);
-    this.name = 'UserAlreadyExistsError';
-  }
-}
-
-export class DatabaseConnectionError extends UserRepositoryError {
-  constructor(originalError?: Error) {
-    super('Error de conexión a la base de datos', originalError);
-    this.name = 'DatabaseConnectionError';
-  }
+function uniqueFieldOf(
+  error: Prisma.PrismaClientKnownRequestError
+): UniqueUserField {
+  return String(error.meta?.target ?? '').includes('username')
+    ? 'username'
+    : 'email';
 }
 
 /**
@@ -55,18 +89,18 @@ export class DatabaseConnectionError extends UserRepositoryError {
  *
  * Características implementadas:
  * - Manejo específico de errores de Prisma con códigos de error detallados
- * - Logging comprehensivo con métricas de rendimiento
+ * - Logging estructurado (ILogger) con métricas de rendimiento
  * - Optimización de queries con select específico de campos
  * - Mapeo correcto entre value objects y enums de Prisma
  * - Gestión de conexiones optimizada
  */
 export class UserRepository implements IUserRepository {
-  private prisma: PrismaClient;
-  private logger: Console;
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
 
-  constructor(prisma: PrismaClient, logger: Console = console) {
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
     this.prisma = prisma;
-    this.logger = logger;
+    this.logger = logger.child({ component: 'UserRepository' });
   }
 
   async create(userData: {
@@ -77,9 +111,7 @@ export class UserRepository implements IUserRepository {
     countryCode?: CountryCode | null;
   }): Promise<User> {
     const startTime = Date.now();
-    this.logger.log(
-      `[UserRepository] Creando usuario con email: ${userData.email.value}`
-    );
+    this.logger.debug('Creando usuario', { email: userData.email.value });
 
     try {
       // La entidad se crea a sí misma con UUID
@@ -99,8 +131,8 @@ export class UserRepository implements IUserRepository {
           username: user.getUsernameValue(),
           passwordHash: user.getPasswordHashValue(),
           role: this.mapRoleToEnum(user.getRoleValue()),
-          status: this.mapUserStatusToEnum(user.getStatusValue()),
-          countryCode: user.getCountryCodeValue(),
+          ...this.mapStatusToData(user.status),
+          ...this.mapCountryToData(user.countryCode),
           lastLogin: user.getLastLoginValue(),
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
@@ -108,22 +140,30 @@ export class UserRepository implements IUserRepository {
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Usuario creado exitosamente en ${duration}ms. ID: ${user.id}`
-      );
+      this.logger.info('Usuario creado', {
+        userId: user.id,
+        durationMs: duration,
+      });
 
       return user; // Retornamos la entidad que creamos
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al crear usuario después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al crear usuario', {
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         // P2002: Unique constraint violation
         if (error.code === 'P2002') {
-          throw new UserAlreadyExistsError(userData.email.value, error);
+          const field = uniqueFieldOf(error);
+          throw new UserAlreadyExistsError(
+            field === 'username'
+              ? userData.username.value
+              : userData.email.value,
+            error,
+            field
+          );
         }
         // P1001: Can't reach database server
         if (error.code === 'P1001') {
@@ -144,45 +184,37 @@ export class UserRepository implements IUserRepository {
 
   async findById(id: string): Promise<User | null> {
     const startTime = Date.now();
-    this.logger.log(`[UserRepository] Encontrando usuario por el ID: ${id}`);
+    this.logger.debug('Buscando usuario por ID', { userId: id });
 
     try {
       const user = await this.prisma.user.findUnique({
         where: { id },
         // Optimización: seleccionar solo los campos necesarios
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: USER_SELECT,
       });
 
       const duration = Date.now() - startTime;
 
       if (!user) {
-        this.logger.log(
-          `[UserRepository] Usuario no encontrado por el ID: ${id} (${duration}ms)`
-        );
+        this.logger.debug('Usuario no encontrado por ID', {
+          userId: id,
+          durationMs: duration,
+        });
         return null;
       }
 
-      this.logger.log(
-        `[UserRepository] Usuario encontrado por el ID: ${id} in ${duration}ms`
-      );
+      this.logger.debug('Usuario encontrado por ID', {
+        userId: id,
+        durationMs: duration,
+      });
       return this.mapToUser(user);
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al encontrar usuario por el ID: ${id} después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al buscar usuario por ID', {
+        userId: id,
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -197,45 +229,37 @@ export class UserRepository implements IUserRepository {
 
   async findByEmail(email: string): Promise<User | null> {
     const startTime = Date.now();
-    this.logger.log(`[UserRepository] Encontrando usuario por email: ${email}`);
+    this.logger.debug('Buscando usuario por email', { email });
 
     try {
       const user = await this.prisma.user.findUnique({
         where: { email },
         // Optimización: seleccionar solo los campos necesarios
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: USER_SELECT,
       });
 
       const duration = Date.now() - startTime;
 
       if (!user) {
-        this.logger.log(
-          `[UserRepository] Usuario no encontrado por el email: ${email} (${duration}ms)`
-        );
+        this.logger.debug('Usuario no encontrado por email', {
+          email,
+          durationMs: duration,
+        });
         return null;
       }
 
-      this.logger.log(
-        `[UserRepository] Usuario encontrado por el email: ${email} en ${duration}ms`
-      );
+      this.logger.debug('Usuario encontrado por email', {
+        userId: user.id,
+        durationMs: duration,
+      });
       return this.mapToUser(user);
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al encontrar usuario por email: ${email} después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al buscar usuario por email', {
+        email,
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -248,9 +272,13 @@ export class UserRepository implements IUserRepository {
     }
   }
 
-  async update(id: string, userData: Partial<User>): Promise<User | null> {
+  async update(
+    id: string,
+    userData: Partial<User>,
+    context?: UserChangeContext
+  ): Promise<User | null> {
     const startTime = Date.now();
-    this.logger.log(`[UserRepository] Actualizando usuario: ${id}`);
+    this.logger.debug('Actualizando usuario', { userId: id });
 
     try {
       // Mapear value objects a primitivos para la actualización
@@ -259,7 +287,14 @@ export class UserRepository implements IUserRepository {
         username?: string;
         passwordHash?: string;
         role?: PrismaRole;
+        status?: PrismaUserStatus;
+        statusReason?: string | null;
+        statusChangedBy?: string | null;
+        statusChangedAt?: Date | null;
+        suspendedUntil?: Date | null;
         countryCode?: string | null;
+        continent?: string | null;
+        lastLogin?: Date | null;
       } = {};
 
       if (userData.email) {
@@ -274,54 +309,88 @@ export class UserRepository implements IUserRepository {
       if (userData.role) {
         updateData.role = this.mapRoleToEnum(userData.role.value);
       }
+      if (userData.status) {
+        // El estado se guarda siempre junto con los datos de su último cambio
+        Object.assign(updateData, this.mapStatusToData(userData.status));
+      }
       if (userData.countryCode !== undefined) {
-        updateData.countryCode = userData.countryCode?.value || null;
+        // El continente se guarda siempre junto con el país del que se deriva
+        Object.assign(updateData, this.mapCountryToData(userData.countryCode));
+      }
+      if (userData.lastLogin !== undefined) {
+        updateData.lastLogin = userData.lastLogin;
       }
 
-      const updatedUser = await this.prisma.user.update({
-        where: { id },
-        data: updateData,
-        // Optimización: seleccionar solo los campos necesarios
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+      // El historial de moderación se escribe en la misma transacción que el
+      // cambio: o se guardan ambos o ninguno
+      const updatedUser = await runInTransaction(this.prisma, async (tx) => {
+        const previous =
+          userData.status || userData.role
+            ? await tx.user.findUnique({
+                where: { id },
+                select: { status: true, role: true },
+              })
+            : null;
+
+        const updated = await tx.user.update({
+          where: { id },
+          data: updateData,
+          // Optimización: seleccionar solo los campos necesarios
+          select: USER_SELECT,
+        });
+
+        if (previous) {
+          const changes = buildUserStatusChanges(
+            id,
+            {
+              status: this.mapEnumToUserStatus(previous.status),
+              role: this.mapEnumToRole(previous.role),
+            },
+            userData,
+            context
+          );
+          if (changes.length > 0) {
+            await tx.userStatusChange.createMany({
+              data: changes.map(toUserStatusChangeData),
+            });
+          }
+        }
+
+        return updated;
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Usuario actualizado exitosamente en ${duration}ms. ID: ${id}`
-      );
+      this.logger.info('Usuario actualizado', {
+        userId: id,
+        durationMs: duration,
+      });
 
       return this.mapToUser(updatedUser);
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al actualizar usuario: ${id} after ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al actualizar usuario', {
+        userId: id,
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         // P2025: Record not found
         if (error.code === 'P2025') {
-          this.logger.log(
-            `[UserRepository] Usuario no encontrado para actualizar: ${id}`
-          );
+          this.logger.debug('Usuario no encontrado para actualizar', {
+            userId: id,
+          });
           return null;
         }
-        // P2002: Unique constraint violation (email already exists)
+        // P2002: Unique constraint violation (email o username ya existen)
         if (error.code === 'P2002') {
+          const field = uniqueFieldOf(error);
           throw new UserAlreadyExistsError(
-            userData.email?.value || 'unknown',
-            error
+            (field === 'username'
+              ? userData.username?.value
+              : userData.email?.value) || 'unknown',
+            error,
+            field
           );
         }
         // P1001: Can't reach database server
@@ -341,35 +410,65 @@ export class UserRepository implements IUserRepository {
     }
   }
 
-  async delete(id: string): Promise<void> {
+  async delete(id: string, context?: UserChangeContext): Promise<void> {
     const startTime = Date.now();
-    this.logger.log(`[UserRepository] Eliminando usuario: ${id}`);
+    this.logger.debug('Eliminando usuario', { userId: id });
 
     try {
-      await this.prisma.user.delete({
-        where: { id },
+      // La entrada del historial se escribe en la misma transacción que la
+      // eliminación; el resto del historial no se borra con el usuario
+      const deleted = await runInTransaction(this.prisma, async (tx) => {
+        const previous = await tx.user.findUnique({
+          where: { id },
+          select: { status: true },
+        });
+        if (!previous) {
+          return false;
+        }
+
+        await tx.user.delete({ where: { id } });
+        await tx.userStatusChange.create({
+          data: toUserStatusChangeData(
+            buildUserDeletion(
+              id,
+              this.mapEnumToUserStatus(previous.status),
+              context
+            )
+          ),
+        });
+        return true;
       });
 
+      if (!deleted) {
+        this.logger.debug(
+          'Usuario no encontrado para eliminar; se considera eliminado',
+          { userId: id, durationMs: Date.now() - startTime }
+        );
+        return;
+      }
+
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Usuario eliminado exitosamente en ${duration}ms. ID: ${id}`
-      );
+      this.logger.info('Usuario eliminado', {
+        userId: id,
+        durationMs: duration,
+      });
     } catch (error) {
       const duration = Date.now() - startTime;
 
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         // P2025: Record not found - esto es aceptable para delete
         if (error.code === 'P2025') {
-          this.logger.log(
-            `[UserRepository] Usuario no encontrado para la eliminación: ${id} (${duration}ms) - operación considerada exitosa`
+          this.logger.debug(
+            'Usuario no encontrado para eliminar; se considera eliminado',
+            { userId: id, durationMs: duration }
           );
           return; // No lanzar error, el resultado es el mismo
         }
         // P1001: Can't reach database server
         if (error.code === 'P1001') {
           this.logger.error(
-            `[UserRepository] Error en la conexión a la base de datos durante la eliminación: ${id} después de ${duration}ms:`,
-            error
+            'Sin conexión con la base de datos al eliminar usuario',
+            { userId: id, durationMs: duration, error }
           );
           throw new DatabaseConnectionError(error);
         }
@@ -377,16 +476,17 @@ export class UserRepository implements IUserRepository {
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         this.logger.error(
-          `[UserRepository] Error desconocido de la base de datos durante la eliminación: ${id} después de ${duration}ms:`,
-          error
+          'Error desconocido de la base de datos al eliminar usuario',
+          { userId: id, durationMs: duration, error }
         );
         throw new DatabaseConnectionError(error);
       }
 
-      this.logger.error(
-        `[UserRepository] Fallo al eliminar usuario: ${id} después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al eliminar usuario', {
+        userId: id,
+        durationMs: duration,
+        error,
+      });
       throw new UserRepositoryError(
         `Fallo al eliminar usuario: ${error instanceof Error ? error.message : 'Error desconocido'}`,
         error instanceof Error ? error : undefined
@@ -396,21 +496,19 @@ export class UserRepository implements IUserRepository {
 
   async countUsers(): Promise<number> {
     const startTime = Date.now();
-    this.logger.log('[UserRepository] Contando usuarios...');
+    this.logger.debug('Contando usuarios');
 
     try {
       const count = await this.prisma.user.count();
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Conteo de usuarios completado en ${duration}ms: ${count} usuarios`
-      );
+      this.logger.debug('Usuarios contados', { count, durationMs: duration });
       return count;
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al contar usuarios después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al contar usuarios', {
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -425,73 +523,296 @@ export class UserRepository implements IUserRepository {
 
   async findUsersByRole(role: string): Promise<User[]> {
     const startTime = Date.now();
-    this.logger.log(`[UserRepository] Encontrando usuarios por rol: ${role}`);
+    this.logger.debug('Buscando usuarios por rol', { role });
     try {
       const PrismaRoleValue = this.mapRoleToEnum(role);
 
       const users = await this.prisma.user.findMany({
         where: { role: PrismaRoleValue },
         // Optimización: seleccionar solo los campos necesarios
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: USER_SELECT,
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Encontrados ${users.length} usuarios con el rol ${role} en ${duration}ms`
+      this.logger.debug('Usuarios encontrados por rol', {
+        role,
+        count: users.length,
+        durationMs: duration,
+      });
+
+      return users.map(this.mapToUser.bind(this));
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Fallo al buscar usuarios por rol', {
+        role,
+        durationMs: duration,
+        error,
+      });
+
+      if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+        throw new DatabaseConnectionError(error);
+      }
+
+      throw new UserRepositoryError(
+        `Fallo al encontrar usuarios por rol: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+        error instanceof Error ? error : undefined
       );
+    }
+  }
+
+  async findUsersWithExpiredSuspension(now: Date): Promise<User[]> {
+    const startTime = Date.now();
+    this.logger.debug('Buscando suspensiones expiradas', { now });
+
+    try {
+      const users = await this.prisma.user.findMany({
+        where: {
+          status: 'suspended' as PrismaUserStatus,
+          suspendedUntil: { lte: now },
+        },
+        orderBy: { suspendedUntil: 'asc' },
+        select: USER_SELECT,
+      });
+
+      const duration = Date.now() - startTime;
+      this.logger.debug('Suspensiones expiradas encontradas', {
+        count: users.length,
+        durationMs: duration,
+      });
 
       return users.map(this.mapToUser.bind(this));
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al encontrar usuarios por rol: ${role} después de ${duration}ms:`,
-        error
+      this.logger.error('Fallo al buscar suspensiones expiradas', {
+        durationMs: duration,
+        error,
+      });
+
+      if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+        throw new DatabaseConnectionError(error);
+      }
+
+      throw new UserRepositoryError(
+        `Fallo al buscar suspensiones expiradas: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+        error instanceof Error ? error : undefined
       );
+    }
+  }
+
+  async lockActiveAdmins(): Promise<void> {
+    try {
+      // Prisma no ofrece SELECT ... FOR UPDATE, y SQLite no lo admite. Una
+      // actualización que no cambia nada bloquea las mismas filas en
+      // PostgreSQL y MySQL (en SQLite toma el bloqueo de escritura de la base)
+      // sin tocar updated_at, que Prisma solo rellena en sus propias escrituras
+      await this.prisma.$executeRaw`
+        UPDATE users SET updated_at = updated_at
+        WHERE role = 'admin' AND user_status = 'active'
+      `;
+    } catch (error) {
+      this.logger.error('Fallo al bloquear a los administradores activos', {
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
       }
 
       throw new UserRepositoryError(
-        `Fallo al encontrar usuarios por rol: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+        `Fallo al bloquear a los administradores activos: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async search(
+    criteria: UserSearchCriteria,
+    page: UserPageRequest
+  ): Promise<UserPage> {
+    const startTime = Date.now();
+    this.logger.debug('Buscando usuarios', {
+      limit: page.limit,
+      cursor: page.cursor !== undefined,
+      offset: page.offset,
+    });
+
+    try {
+      const search = resolveUserSearch(criteria, page);
+      const where = this.buildSearchWhere(criteria);
+      const pageWhere: Prisma.UserWhereInput = search.after
+        ? {
+            AND: [
+              where,
+              this.buildCursorWhere(
+                search.sortBy,
+                search.sortDirection,
+                search.after
+              ),
+            ],
+          }
+        : where;
+
+      // Se pide un usuario de más para saber si hay página siguiente
+      const [users, total] = await runInTransaction(this.prisma, (tx) =>
+        Promise.all([
+          tx.user.findMany({
+            where: pageWhere,
+            orderBy: this.buildSearchOrderBy(
+              search.sortBy,
+              search.sortDirection
+            ),
+            skip: search.after ? 0 : search.offset,
+            take: search.limit + 1,
+            select: USER_SELECT,
+          }),
+          tx.user.count({ where }),
+        ])
+      );
+
+      const pageUsers = users
+        .slice(0, search.limit)
+        .map(this.mapToUser.bind(this));
+      const last = pageUsers[pageUsers.length - 1];
+      const nextCursor =
+        users.length > search.limit && last
+          ? encodeUserSearchCursor(last, search.sortBy, search.sortDirection)
+          : null;
+
+      const duration = Date.now() - startTime;
+      this.logger.debug('Búsqueda de usuarios completada', {
+        count: pageUsers.length,
+        total,
+        durationMs: duration,
+      });
+
+      return { users: pageUsers, total, nextCursor };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      if (error instanceof InvalidUserSearchError) {
+        this.logger.debug('Búsqueda de usuarios rechazada', {
+          reason: error.message,
+          durationMs: duration,
+        });
+        throw error;
+      }
+
+      this.logger.error('Fallo al buscar usuarios', {
+        durationMs: duration,
+        error,
+      });
+
+      if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+        throw new DatabaseConnectionError(error);
+      }
+
+      throw new UserRepositoryError(
+        `Fallo al buscar usuarios: ${error instanceof Error ? error.message : 'Error desconocido'}`,
         error instanceof Error ? error : undefined
       );
     }
   }
 
+  /**
+   * Traduce los filtros de búsqueda a un where de Prisma
+   */
+  private buildSearchWhere(
+    criteria: UserSearchCriteria
+  ): Prisma.UserWhereInput {
+    const filters: Prisma.UserWhereInput[] = [];
+
+    if (criteria.role !== undefined) {
+      filters.push({ role: this.mapRoleToEnum(criteria.role) });
+    }
+    if (criteria.status !== undefined) {
+      filters.push({ status: this.mapUserStatusToEnum(criteria.status) });
+    }
+    if (criteria.countryCode !== undefined) {
+      filters.push({ countryCode: criteria.countryCode.toUpperCase() });
+    }
+    if (criteria.continent !== undefined) {
+      filters.push({ continent: criteria.continent });
+    }
+    if (criteria.createdFrom || criteria.createdTo) {
+      filters.push({
+        createdAt: { gte: criteria.createdFrom, lt: criteria.createdTo },
+      });
+    }
+    if (criteria.lastLoginFrom || criteria.lastLoginTo) {
+      filters.push({
+        lastLogin: { gte: criteria.lastLoginFrom, lt: criteria.lastLoginTo },
+      });
+    }
+    if (criteria.emailPrefix) {
+      filters.push({
+        email: { startsWith: criteria.emailPrefix.trim().toLowerCase() },
+      });
+    }
+    if (criteria.usernamePrefix) {
+      filters.push({ username: { startsWith: criteria.usernamePrefix } });
+    }
+
+    return { AND: filters };
+  }
+
+  /**
+   * Orden de la búsqueda, con el ID como desempate para que sea estable.
+   * Los usuarios sin lastLogin van al final en ambas direcciones
+   */
+  private buildSearchOrderBy(
+    sortBy: UserSortField,
+    direction: SortDirection
+  ): Prisma.UserOrderByWithRelationInput[] {
+    const primary: Prisma.UserOrderByWithRelationInput =
+      sortBy === 'lastLogin'
+        ? { lastLogin: { sort: direction, nulls: 'last' } }
+        : { [sortBy]: direction };
+    return [primary, { id: direction }];
+  }
+
+  /**
+   * Condición de keyset: usuarios situados después de la posición del cursor
+   * en el orden de la búsqueda
+   */
+  private buildCursorWhere(
+    sortBy: UserSortField,
+    direction: SortDirection,
+    after: UserSearchPosition
+  ): Prisma.UserWhereInput {
+    const comparison = direction === 'asc' ? 'gt' : 'lt';
+    const afterId = { id: { [comparison]: after.id } };
+
+    // Cursor en la zona de nulos (solo lastLogin): quedan los nulos restantes
+    if (after.value === null) {
+      return { [sortBy]: null, ...afterId };
+    }
+
+    const conditions: Prisma.UserWhereInput[] = [
+      { [sortBy]: { [comparison]: after.value } },
+      { [sortBy]: after.value, ...afterId },
+    ];
+    if (sortBy === 'lastLogin') {
+      conditions.push({ lastLogin: null });
+    }
+    return { OR: conditions };
+  }
+
   /**
    * Mapea un objeto Prisma User a una entidad de dominio User
    */
-  private mapToUser(prismaUser: {
-    id: string;
-    email: string;
-    username: string;
-    passwordHash: string;
-    role: PrismaRole;
-    status: PrismaUserStatus;
-    countryCode: string | null;
-    lastLogin: Date | null;
-    createdAt: Date;
-    updatedAt: Date;
-  }): User {
+  private mapToUser(prismaUser: PersistedUser): User {
     return User.fromPersistence(
       prismaUser.id,
       new Email(prismaUser.email),
       new Username(prismaUser.username),
       new HashedPassword(prismaUser.passwordHash),
       new Role(this.mapEnumToRole(prismaUser.role)),
-      new UserStatus(this.mapEnumToUserStatus(prismaUser.status)),
+      new UserStatus(this.mapEnumToUserStatus(prismaUser.status), {
+        reason: prismaUser.statusReason,
+        changedBy: prismaUser.statusChangedBy,
+        changedAt: prismaUser.statusChangedAt,
+        suspendedUntil: prismaUser.suspendedUntil,
+      }),
       prismaUser.countryCode ? new CountryCode(prismaUser.countryCode) : null,
       prismaUser.lastLogin,
       prismaUser.createdAt,
@@ -499,6 +820,39 @@ export class UserRepository implements IUserRepository {
     );
   }
 
+  /**
+   * Mapea un UserStatus (valor y datos del último cambio) a columnas de Prisma
+   */
+  private mapStatusToData(status: UserStatus): {
+    status: PrismaUserStatus;
+    statusReason: string | null;
+    statusChangedBy: string | null;
+    statusChangedAt: Date | null;
+    suspendedUntil: Date | null;
+  } {
+    return {
+      status: this.mapUserStatusToEnum(status.value),
+      statusReason: status.reason,
+      statusChangedBy: status.changedBy,
+      statusChangedAt: status.changedAt,
+      suspendedUntil: status.suspendedUntil,
+    };
+  }
+
+  /**
+   * Mapea el país a sus columnas de Prisma: el código y su continente principal,
+   * que se persiste para filtrar y agrupar por continente en la base de datos
+   */
+  private mapCountryToData(countryCode: CountryCode | null): {
+    countryCode: string | null;
+    continent: string | null;
+  } {
+    return {
+      countryCode: countryCode?.value ?? null,
+      continent: countryCode?.getPrimaryContinent() ?? null,
+    };
+  }
+
   /**
    * Mapea un string de role a enum de Prisma
    */
@@ -549,88 +903,38 @@ export class UserRepository implements IUserRepository {
     return prismaUserStatus.toString();
   }
 
-  /**
-   * Verifica la salud de la conexión a la base de datos
-   * Útil para health checks y monitoreo
-   */
-  async checkHealth(): Promise<{
-    healthy: boolean;
-    latency?: number;
-    error?: string;
-  }> {
-    const startTime = Date.now();
-    this.logger.log('[UserRepository] Chequeando salud de la base de datos...');
-
-    try {
-      // Ejecutar una query simple para verificar conectividad
-      await this.prisma.$queryRaw`SELECT 1`;
-
-      const latency = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Check de salud de la base de datos pasada en ${latency}ms`
-      );
-
-      return { healthy: true, latency };
-    } catch (error) {
-      const latency = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : 'Error desconocido';
-
-      this.logger.error(
-        `[UserRepository] Check de salud de la base de datos fallido después de ${latency}ms:`,
-        error
-      );
-
-      return {
-        healthy: false,
-        latency,
-        error: errorMessage,
-      };
-    }
-  }
-
   async findByUsername(username: string): Promise<User | null> {
     const startTime = Date.now();
-    this.logger.log(
-      `[UserRepository] Encontrando usuario por username: ${username}`
-    );
+    this.logger.debug('Buscando usuario por username', { username });
 
     try {
       const user = await this.prisma.user.findUnique({
         where: { username },
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: USER_SELECT,
       });
 
       const duration = Date.now() - startTime;
 
       if (!user) {
-        this.logger.log(
-          `[UserRepository] Usuario no encontrado por username: ${username} (${duration}ms)`
-        );
+        this.logger.debug('Usuario no encontrado por username', {
+          username,
+          durationMs: duration,
+        });
         return null;
       }
 
-      this.logger.log(
-        `[UserRepository] Usuario encontrado por username: ${username} en ${duration}ms`
-      );
+      this.logger.debug('Usuario encontrado por username', {
+        userId: user.id,
+        durationMs: duration,
+      });
       return this.mapToUser(user);
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al encontrar usuario por username: ${username} después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al buscar usuario por username', {
+        username,
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -645,39 +949,29 @@ export class UserRepository implements IUserRepository {
 
   async findUsersByCountry(countryCode: string): Promise<User[]> {
     const startTime = Date.now();
-    this.logger.log(
-      `[UserRepository] Encontrando usuarios por país: ${countryCode}`
-    );
+    this.logger.debug('Buscando usuarios por país', { countryCode });
 
     try {
       const users = await this.prisma.user.findMany({
         where: { countryCode },
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
+        select: USER_SELECT,
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Encontrados ${users.length} usuarios del país ${countryCode} en ${duration}ms`
-      );
+      this.logger.debug('Usuarios encontrados por país', {
+        countryCode,
+        count: users.length,
+        durationMs: duration,
+      });
 
       return users.map(this.mapToUser.bind(this));
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al encontrar usuarios por país: ${countryCode} después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al buscar usuarios por país', {
+        countryCode,
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -692,53 +986,29 @@ export class UserRepository implements IUserRepository {
 
   async findUsersByContinent(continent: string): Promise<User[]> {
     const startTime = Date.now();
-    this.logger.log(
-      `[UserRepository] Encontrando usuarios por continente: ${continent}`
-    );
+    this.logger.debug('Buscando usuarios por continente', { continent });
 
     try {
-      // Obtener todos los usuarios con país
       const users = await this.prisma.user.findMany({
-        where: {
-          countryCode: { not: null },
-        },
-        select: {
-          id: true,
-          email: true,
-          username: true,
-          passwordHash: true,
-          role: true,
-          status: true,
-          countryCode: true,
-          lastLogin: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-      });
-
-      // Filtrar por continente usando la lógica de CountryCode
-      const filteredUsers = users.filter((user) => {
-        if (!user.countryCode) return false;
-        try {
-          const countryCodeObj = new CountryCode(user.countryCode);
-          return countryCodeObj.getPrimaryContinent() === continent;
-        } catch {
-          return false;
-        }
+        where: { continent },
+        select: USER_SELECT,
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Encontrados ${filteredUsers.length} usuarios del continente ${continent} en ${duration}ms`
-      );
+      this.logger.debug('Usuarios encontrados por continente', {
+        continent,
+        count: users.length,
+        durationMs: duration,
+      });
 
-      return filteredUsers.map(this.mapToUser.bind(this));
+      return users.map(this.mapToUser.bind(this));
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al encontrar usuarios por continente: ${continent} después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al buscar usuarios por continente', {
+        continent,
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -753,43 +1023,34 @@ export class UserRepository implements IUserRepository {
 
   async getUserStatsByContinent(): Promise<Record<string, number>> {
     const startTime = Date.now();
-    this.logger.log('[UserRepository] Obteniendo estadísticas por continente');
+    this.logger.debug('Calculando estadísticas por continente');
 
     try {
-      const users = await this.prisma.user.findMany({
-        where: {
-          countryCode: { not: null },
-        },
-        select: {
-          countryCode: true,
-        },
+      const groups = await this.prisma.user.groupBy({
+        by: ['continent'],
+        where: { continent: { not: null } },
+        _count: { _all: true },
       });
 
       const stats: Record<string, number> = {};
-
-      users.forEach((user) => {
-        if (!user.countryCode) return;
-        try {
-          const countryCodeObj = new CountryCode(user.countryCode);
-          const continent = countryCodeObj.getPrimaryContinent();
-          stats[continent] = (stats[continent] || 0) + 1;
-        } catch {
-          // Ignorar códigos de país inválidos
+      groups.forEach((group) => {
+        if (group.continent) {
+          stats[group.continent] = group._count._all;
         }
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Estadísticas por continente obtenidas en ${duration}ms`
-      );
+      this.logger.debug('Estadísticas por continente calculadas', {
+        durationMs: duration,
+      });
 
       return stats;
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al obtener estadísticas por continente después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al calcular estadísticas por continente', {
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -804,38 +1065,34 @@ export class UserRepository implements IUserRepository {
 
   async getUserStatsByCountry(): Promise<Record<string, number>> {
     const startTime = Date.now();
-    this.logger.log('[UserRepository] Obteniendo estadísticas por país');
+    this.logger.debug('Calculando estadísticas por país');
 
     try {
-      const users = await this.prisma.user.findMany({
-        where: {
-          countryCode: { not: null },
-        },
-        select: {
-          id: true,
-          countryCode: true,
-        },
+      const groups = await this.prisma.user.groupBy({
+        by: ['countryCode'],
+        where: { countryCode: { not: null } },
+        _count: { _all: true },
       });
 
       const stats: Record<string, number> = {};
-      users.forEach((user) => {
-        if (user.countryCode) {
-          stats[user.countryCode] = (stats[user.countryCode] || 0) + 1;
+      groups.forEach((group) => {
+        if (group.countryCode) {
+          stats[group.countryCode] = group._count._all;
         }
       });
 
       const duration = Date.now() - startTime;
-      this.logger.log(
-        `[UserRepository] Estadísticas por país obtenidas en ${duration}ms`
-      );
+      this.logger.debug('Estadísticas por país calculadas', {
+        durationMs: duration,
+      });
 
       return stats;
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `[UserRepository] Fallo al obtener estadísticas por país después de ${duration}ms:`,
-        error
-      );
+      this.logger.error('Fallo al calcular estadísticas por país', {
+        durationMs: duration,
+        error,
+      });
 
       if (error instanceof Prisma.PrismaClientUnknownRequestError) {
         throw new DatabaseConnectionError(error);
@@ -0,0 +1,141 @@
+// src/infrastructure/database/adapters/prisma/repositories/UserStatusChangeRepository.ts
+
+import {
+  Prisma,
+  UserStatusChangeKind as PrismaUserStatusChangeKind,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import {
+  IUserStatusChangeRepository,
+  UserStatusChangeQuery,
+} from '@/core/interfaces/repositories/IUserStatusChangeRepository';
+import {
+  UserStatusChange,
+  UserStatusChangeKind,
+} from '@/core/domain/entities/UserStatusChange';
+import {
+  UserRepositoryError,
+  DatabaseConnectionError,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Convierte una entrada del historial en los datos de creación de Prisma.
+ * La usa UserRepository para escribir el historial dentro de su transacción.
+ */
+export function toUserStatusChangeData(
+  change: UserStatusChange
+): Prisma.UserStatusChangeCreateManyInput {
+  return {
+    id: change.id,
+    userId: change.userId,
+    kind: mapKindToEnum(change.kind),
+    fromValue: change.fromValue,
+    toValue: change.toValue,
+    reason: change.reason,
+    changedBy: change.changedBy,
+    suspendedUntil: change.suspendedUntil,
+    createdAt: change.createdAt,
+  };
+}
+
+function mapKindToEnum(kind: UserStatusChangeKind): PrismaUserStatusChangeKind {
+  switch (kind) {
+    case 'status':
+      return 'status' as PrismaUserStatusChangeKind;
+    case 'role':
+      return 'role' as PrismaUserStatusChangeKind;
+    case 'deletion':
+      return 'deletion' as PrismaUserStatusChangeKind;
+    default:
+      throw new UserRepositoryError(`Tipo de cambio inválido: ${kind}`);
+  }
+}
+
+/**
+ * Implementación de IUserStatusChangeRepository usando Prisma ORM.
+ * Solo lectura: las escrituras van en la transacción de UserRepository.update
+ * y UserRepository.delete.
+ */
+export class UserStatusChangeRepository implements IUserStatusChangeRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'UserStatusChangeRepository' });
+  }
+
+  async findByUserId(
+    userId: string,
+    query: UserStatusChangeQuery
+  ): Promise<UserStatusChange[]> {
+    try {
+      const changes = await this.prisma.userStatusChange.findMany({
+        where: {
+          userId,
+          ...(query.before && {
+            OR: [
+              { createdAt: { lt: query.before.createdAt } },
+              {
+                createdAt: query.before.createdAt,
+                id: { lt: query.before.id },
+              },
+            ],
+          }),
+        },
+        // El id desempata entradas con la misma fecha, también en el cursor
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: query.limit,
+      });
+      return changes.map(this.mapToUserStatusChange.bind(this));
+    } catch (error) {
+      throw this.translateError('listar el historial de moderación', error);
+    }
+  }
+
+  private mapToUserStatusChange(prismaChange: {
+    id: string;
+    userId: string;
+    kind: PrismaUserStatusChangeKind;
+    fromValue: string;
+    toValue: string;
+    reason: string | null;
+    changedBy: string | null;
+    suspendedUntil: Date | null;
+    createdAt: Date;
+  }): UserStatusChange {
+    return UserStatusChange.fromPersistence(
+      prismaChange.id,
+      prismaChange.userId,
+      prismaChange.kind.toString() as UserStatusChangeKind,
+      prismaChange.fromValue,
+      prismaChange.toValue,
+      prismaChange.reason,
+      prismaChange.changedBy,
+      prismaChange.suspendedUntil,
+      prismaChange.createdAt
+    );
+  }
+
+  private translateError(operation: string, error: unknown): Error {
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new UserRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,179 @@
+// src/infrastructure/database/adapters/prisma/repositories/VerificationTokenRepository.ts
+
+import {
+  Prisma,
+  VerificationTokenPurpose as PrismaVerificationTokenPurpose,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { PrismaExecutor } from '../PrismaTransaction';
+import { IVerificationTokenRepository } from '@/core/interfaces/repositories/IVerificationTokenRepository';
+import {
+  VerificationToken,
+  VerificationTokenPurpose,
+} from '@/core/domain/entities/VerificationToken';
+import {
+  UserRepositoryError,
+  DatabaseConnectionError,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Implementación de IVerificationTokenRepository usando Prisma ORM.
+ *
+ * El consumo usa una actualización condicional (`consumedAt: null`) para que
+ * dos canjes concurrentes del mismo token no puedan tener éxito ambos.
+ */
+export class VerificationTokenRepository implements IVerificationTokenRepository {
+  private prisma: PrismaExecutor;
+  private logger: ILogger;
+
+  constructor(prisma: PrismaExecutor, logger: ILogger = defaultLogger) {
+    this.prisma = prisma;
+    this.logger = logger.child({ component: 'VerificationTokenRepository' });
+  }
+
+  async create(token: VerificationToken): Promise<void> {
+    try {
+      await this.prisma.verificationToken.create({
+        data: {
+          id: token.id,
+          userId: token.userId,
+          purpose: this.mapPurposeToEnum(token.purpose),
+          tokenHash: token.tokenHash,
+          expiresAt: token.expiresAt,
+          consumedAt: token.consumedAt,
+          createdAt: token.createdAt,
+        },
+      });
+    } catch (error) {
+      throw this.translateError('crear token de verificación', error);
+    }
+  }
+
+  async findByHash(tokenHash: string): Promise<VerificationToken | null> {
+    try {
+      const token = await this.prisma.verificationToken.findUnique({
+        where: { tokenHash },
+      });
+      return token ? this.mapToVerificationToken(token) : null;
+    } catch (error) {
+      throw this.translateError('buscar token de verificación', error);
+    }
+  }
+
+  async findIssuedSince(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    since: Date
+  ): Promise<VerificationToken[]> {
+    try {
+      const tokens = await this.prisma.verificationToken.findMany({
+        where: {
+          userId,
+          purpose: this.mapPurposeToEnum(purpose),
+          createdAt: { gte: since },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      return tokens.map(this.mapToVerificationToken.bind(this));
+    } catch (error) {
+      throw this.translateError('listar tokens de verificación', error);
+    }
+  }
+
+  async consume(tokenId: string, consumedAt: Date): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.verificationToken.updateMany({
+        where: { id: tokenId, consumedAt: null },
+        data: { consumedAt },
+      });
+      return count === 1;
+    } catch (error) {
+      throw this.translateError('consumir token de verificación', error);
+    }
+  }
+
+  async invalidateForUser(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    invalidatedAt: Date
+  ): Promise<void> {
+    try {
+      await this.prisma.verificationToken.updateMany({
+        where: {
+          userId,
+          purpose: this.mapPurposeToEnum(purpose),
+          consumedAt: null,
+        },
+        data: { consumedAt: invalidatedAt },
+      });
+    } catch (error) {
+      throw this.translateError('invalidar tokens de verificación', error);
+    }
+  }
+
+  async delete(tokenId: string): Promise<void> {
+    try {
+      await this.prisma.verificationToken.deleteMany({
+        where: { id: tokenId },
+      });
+    } catch (error) {
+      throw this.translateError('eliminar token de verificación', error);
+    }
+  }
+
+  private mapToVerificationToken(prismaToken: {
+    id: string;
+    userId: string;
+    purpose: PrismaVerificationTokenPurpose;
+    tokenHash: string;
+    expiresAt: Date;
+    consumedAt: Date | null;
+    createdAt: Date;
+  }): VerificationToken {
+    return VerificationToken.fromPersistence(
+      prismaToken.id,
+      prismaToken.userId,
+      prismaToken.purpose,
+      prismaToken.tokenHash,
+      prismaToken.expiresAt,
+      prismaToken.createdAt,
+      prismaToken.consumedAt
+    );
+  }
+
+  private mapPurposeToEnum(
+    purpose: VerificationTokenPurpose
+  ): PrismaVerificationTokenPurpose {
+    switch (purpose) {
+      case 'email_confirmation':
+        return PrismaVerificationTokenPurpose.email_confirmation;
+      case 'password_reset':
+        return PrismaVerificationTokenPurpose.password_reset;
+      default:
+        throw new Error(
+          `Propósito de token de verificación inválido: ${purpose}`
+        );
+    }
+  }
+
+  private translateError(operation: string, error: unknown): Error {
+    this.logger.error(`Fallo al ${operation}`, { error });
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P1001'
+    ) {
+      return new DatabaseConnectionError(error);
+    }
+
+    if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+      return new DatabaseConnectionError(error);
+    }
+
+    return new UserRepositoryError(
+      `Fallo al ${operation}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,77 @@
+// src/infrastructure/database/adapters/typeorm/entities/UserEntity.ts
+
+import 'reflect-metadata';
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+import { Role } from '@/core/domain/value-objects/Role';
+import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+
+/**
+ * Mapeo de TypeORM de la tabla `users`.
+ *
+ * El schema lo gestionan las migraciones de Prisma (synchronize está
+ * desactivado), así que columnas, enums e índices replican el modelo User de
+ * schemas/_base.prisma: mismos nombres de columna y mismos tipos enum ("Role"
+ * y "UserStatus" en PostgreSQL).
+ */
+@Entity({ name: 'users' })
+@Index(['status', 'suspendedUntil'])
+export class UserEntity {
+  @PrimaryColumn({ type: String })
+  id!: string; // UUID generado por la entidad de dominio
+
+  @Column({ type: String, unique: true })
+  email!: string;
+
+  @Column({ type: String, unique: true })
+  username!: string;
+
+  @Column({ name: 'password_hash', type: String })
+  passwordHash!: string;
+
+  @Column({ type: 'enum', enum: Role.validRoles(), enumName: 'Role' })
+  role!: string;
+
+  @Column({
+    name: 'user_status',
+    type: 'enum',
+    enum: UserStatus.getValidStatuses(),
+    enumName: 'UserStatus',
+  })
+  status!: string;
+
+  @Index()
+  @Column({ name: 'country_code', type: String, nullable: true })
+  countryCode!: string | null;
+
+  @Index()
+  @Column({ type: 'varchar', length: 40, nullable: true })
+  continent!: string | null; // Continente principal del país, derivado de countryCode
+
+  @Column({
+    name: 'status_reason',
+    type: 'varchar',
+    length: 500,
+    nullable: true,
+  })
+  statusReason!: string | null;
+
+  @Column({ name: 'status_changed_by', type: String, nullable: true })
+  statusChangedBy!: string | null;
+
+  @Column({ name: 'status_changed_at', type: Date, nullable: true })
+  statusChangedAt!: Date | null;
+
+  @Column({ name: 'suspended_until', type: Date, nullable: true })
+  suspendedUntil!: Date | null;
+
+  @Column({ name: 'last_login', type: Date, nullable: true })
+  lastLogin!: Date | null;
+
+  // Columnas simples en lugar de @CreateDateColumn/@UpdateDateColumn: las
+  // fechas las decide la entidad de dominio, igual que en el adaptador de Prisma
+  @Column({ name: 'created_at', type: Date })
+  createdAt!: Date;
+
+  @Column({ name: 'updated_at', type: Date })
+  updatedAt!: Date;
+}
@@ -0,0 +1,46 @@
+// src/infrastructure/database/adapters/typeorm/entities/UserStatusChangeEntity.ts
+
+import 'reflect-metadata';
+import { Column, Entity, Index, PrimaryColumn } from 'typeorm';
+
+/**
+ * Mapeo de TypeORM de la tabla `user_status_changes` (historial de
+ * moderación). TypeOrmUserRepository la escribe en la misma transacción que
+ * el cambio de estado o de rol, o que la eliminación del usuario, igual que
+ * el adaptador de Prisma.
+ */
+@Entity({ name: 'user_status_changes' })
+@Index(['userId', 'createdAt'])
+@Index(['changedBy', 'createdAt'])
+export class UserStatusChangeEntity {
+  @PrimaryColumn({ type: String })
+  id!: string;
+
+  @Column({ name: 'user_id', type: String })
+  userId!: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['status', 'role', 'deletion'],
+    enumName: 'UserStatusChangeKind',
+  })
+  kind!: string;
+
+  @Column({ name: 'from_value', type: String })
+  fromValue!: string;
+
+  @Column({ name: 'to_value', type: String })
+  toValue!: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  reason!: string | null;
+
+  @Column({ name: 'changed_by', type: String, nullable: true })
+  changedBy!: string | null;
+
+  @Column({ name: 'suspended_until', type: Date, nullable: true })
+  suspendedUntil!: Date | null;
+
+  @Column({ name: 'created_at', type: Date })
+  createdAt!: Date;
+}
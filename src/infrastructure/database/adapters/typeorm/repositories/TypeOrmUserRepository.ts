@@ -0,0 +1,720 @@
+// src/infrastructure/database/adapters/typeorm/repositories/TypeOrmUserRepository.ts
+
+import {
+  Brackets,
+  DataSource,
+  EntityManager,
+  QueryFailedError,
+  SelectQueryBuilder,
+} from 'typeorm';
+import {
+  IUserRepository,
+  SortDirection,
+  UserChangeContext,
+  UserPage,
+  UserPageRequest,
+  UserSearchCriteria,
+  UserSortField,
+} from '@/core/interfaces/repositories/IUserRepository';
+import {
+  encodeUserSearchCursor,
+  resolveUserSearch,
+  UserSearchPosition,
+} from '@/core/interfaces/repositories/UserSearch';
+import {
+  buildUserDeletion,
+  buildUserStatusChanges,
+} from '@/core/interfaces/repositories/UserStatusChanges';
+import {
+  UserRepositoryError,
+  UserAlreadyExistsError,
+  DatabaseConnectionError,
+  InvalidUserSearchError,
+  UniqueUserField,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+import { Email } from '@/core/domain/value-objects/Email';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Role } from '@/core/domain/value-objects/Role';
+import { Username } from '@/core/domain/value-objects/Username';
+import { CountryCode } from '@/core/domain/value-objects/CountryCode';
+import { UserStatus } from '@/core/domain/value-objects/UserStatus';
+import { UserEntity } from '../entities/UserEntity';
+import { UserStatusChangeEntity } from '../entities/UserStatusChangeEntity';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+// Violación de restricción única: PostgreSQL, MySQL y SQLite
+const UNIQUE_VIOLATION_CODES = new Set([
+  '23505',
+  'ER_DUP_ENTRY',
+  'SQLITE_CONSTRAINT_UNIQUE',
+]);
+
+// Errores de red o de conexión con el servidor de base de datos
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'PROTOCOL_CONNECTION_LOST',
+  '57P01', // admin_shutdown (PostgreSQL)
+  '08001', // sqlclient_unable_to_establish_sqlconnection
+  '08006', // connection_failure
+]);
+
+const USER_ALIAS = 'user';
+
+/**
+ * Implementación de IUserRepository usando TypeORM.
+ *
+ * Segunda implementación junto a la de Prisma, sobre las mismas tablas: pasa
+ * el mismo test de contrato y traduce los errores del driver a los mismos
+ * errores de core (UserAlreadyExistsError, DatabaseConnectionError,
+ * UserRepositoryError). También escribe el historial de moderación en la
+ * misma transacción que el cambio.
+ */
+export class TypeOrmUserRepository implements IUserRepository {
+  private dataSource: DataSource;
+  private logger: ILogger;
+
+  constructor(dataSource: DataSource, logger: ILogger = defaultLogger) {
+    this.dataSource = dataSource;
+    this.logger = logger.child({ component: 'TypeOrmUserRepository' });
+  }
+
+  async create(userData: {
+    email: Email;
+    username: Username;
+    passwordHash: HashedPassword;
+    role: Role;
+    countryCode?: CountryCode | null;
+  }): Promise<User> {
+    const startTime = Date.now();
+    this.logger.debug('Creando usuario', { email: userData.email.value });
+
+    try {
+      const user = User.create(
+        userData.email,
+        userData.username,
+        userData.passwordHash,
+        userData.role,
+        userData.countryCode
+      );
+
+      await this.dataSource.getRepository(UserEntity).insert({
+        id: user.id,
+        email: user.getEmailValue(),
+        username: user.getUsernameValue(),
+        passwordHash: user.getPasswordHashValue(),
+        role: user.getRoleValue(),
+        ...this.mapStatusToColumns(user.status),
+        ...this.mapCountryToColumns(user.countryCode),
+        lastLogin: user.getLastLoginValue(),
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      });
+
+      this.logger.info('Usuario creado', {
+        userId: user.id,
+        durationMs: Date.now() - startTime,
+      });
+      return user;
+    } catch (error) {
+      throw this.translateError(error, 'crear el usuario', startTime, () => {
+        const field = uniqueFieldOf(error);
+        throw new UserAlreadyExistsError(
+          field === 'username' ? userData.username.value : userData.email.value,
+          error instanceof Error ? error : undefined,
+          field
+        );
+      });
+    }
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.findOneBy({ id }, `el ID ${id}`);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return this.findOneBy({ email }, `el email ${email}`);
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return this.findOneBy({ username }, `el username ${username}`);
+  }
+
+  async update(
+    id: string,
+    userData: Partial<User>,
+    context?: UserChangeContext
+  ): Promise<User | null> {
+    const startTime = Date.now();
+    this.logger.debug('Actualizando usuario', { userId: id });
+
+    try {
+      const columns: Partial<UserEntity> = {};
+      if (userData.email) {
+        columns.email = userData.email.value;
+      }
+      if (userData.username) {
+        columns.username = userData.username.value;
+      }
+      if (userData.passwordHash) {
+        columns.passwordHash = userData.passwordHash.value;
+      }
+      if (userData.role) {
+        columns.role = userData.role.value;
+      }
+      if (userData.status) {
+        // El estado se guarda siempre junto con los datos de su último cambio
+        Object.assign(columns, this.mapStatusToColumns(userData.status));
+      }
+      if (userData.countryCode !== undefined) {
+        // El continente se guarda siempre junto con el país del que se deriva
+        Object.assign(columns, this.mapCountryToColumns(userData.countryCode));
+      }
+      if (userData.lastLogin !== undefined) {
+        columns.lastLogin = userData.lastLogin;
+      }
+      columns.updatedAt = new Date();
+
+      // El historial de moderación se escribe en la misma transacción que el
+      // cambio: o se guardan ambos o ninguno
+      const updated = await this.dataSource.transaction(async (manager) => {
+        const previous = await manager.findOne(UserEntity, {
+          where: { id },
+          select: { id: true, status: true, role: true },
+        });
+        if (!previous) {
+          return null;
+        }
+
+        await manager.update(UserEntity, { id }, columns);
+
+        const changes = buildUserStatusChanges(
+          id,
+          { status: previous.status, role: previous.role },
+          userData,
+          context
+        );
+        if (changes.length > 0) {
+          await manager.insert(
+            UserStatusChangeEntity,
+            changes.map((change) => this.toStatusChangeEntity(change))
+          );
+        }
+
+        return manager.findOneByOrFail(UserEntity, { id });
+      });
+
+      if (!updated) {
+        this.logger.debug('Usuario no encontrado para actualizar', {
+          userId: id,
+        });
+        return null;
+      }
+
+      this.logger.info('Usuario actualizado', {
+        userId: id,
+        durationMs: Date.now() - startTime,
+      });
+      return this.mapToUser(updated);
+    } catch (error) {
+      throw this.translateError(error, 'actualizar usuario', startTime, () => {
+        const field = uniqueFieldOf(error);
+        throw new UserAlreadyExistsError(
+          (field === 'username'
+            ? userData.username?.value
+            : userData.email?.value) || 'unknown',
+          error instanceof Error ? error : undefined,
+          field
+        );
+      });
+    }
+  }
+
+  async delete(id: string, context?: UserChangeContext): Promise<void> {
+    const startTime = Date.now();
+    this.logger.debug('Eliminando usuario', { userId: id });
+
+    try {
+      // La entrada del historial se escribe en la misma transacción que la
+      // eliminación; el resto del historial no se borra con el usuario
+      await this.dataSource.transaction(async (manager) => {
+        const previous = await manager.findOne(UserEntity, {
+          where: { id },
+          select: { id: true, status: true },
+        });
+        // Eliminar un usuario inexistente no es un error, el resultado es el mismo
+        if (!previous) {
+          return;
+        }
+
+        await manager.delete(UserEntity, { id });
+        await manager.insert(
+          UserStatusChangeEntity,
+          this.toStatusChangeEntity(
+            buildUserDeletion(id, previous.status, context)
+          )
+        );
+      });
+    } catch (error) {
+      throw this.translateError(error, 'eliminar usuario', startTime);
+    }
+  }
+
+  async findUsersWithExpiredSuspension(now: Date): Promise<User[]> {
+    return this.findManyBy('buscar suspensiones expiradas', (qb) =>
+      qb
+        .where(`${USER_ALIAS}.status = :status`, { status: 'suspended' })
+        .andWhere(`${USER_ALIAS}.suspendedUntil <= :now`, { now })
+        .orderBy(`${USER_ALIAS}.suspendedUntil`, 'ASC')
+    );
+  }
+
+  async lockActiveAdmins(): Promise<void> {
+    const startTime = Date.now();
+    try {
+      // La misma actualización sin cambios que el adaptador de Prisma. Fuera
+      // de una transacción el bloqueo dura lo que la sentencia: las unidades
+      // de trabajo usan siempre los repositorios de Prisma
+      await this.dataSource.query(
+        `UPDATE users SET updated_at = updated_at
+         WHERE role = 'admin' AND user_status = 'active'`
+      );
+    } catch (error) {
+      throw this.translateError(
+        error,
+        'bloquear a los administradores activos',
+        startTime
+      );
+    }
+  }
+
+  async search(
+    criteria: UserSearchCriteria,
+    page: UserPageRequest
+  ): Promise<UserPage> {
+    const startTime = Date.now();
+    this.logger.debug('Buscando usuarios', {
+      limit: page.limit,
+      cursor: page.cursor !== undefined,
+      offset: page.offset,
+    });
+
+    try {
+      const search = resolveUserSearch(criteria, page);
+
+      const [rows, total] = await this.dataSource.transaction(
+        async (manager) => {
+          const matching = this.buildSearchQuery(manager, criteria);
+          const total = await matching.clone().getCount();
+
+          const pageQuery = matching;
+          if (search.after) {
+            pageQuery.andWhere(
+              this.buildCursorCondition(
+                search.sortBy,
+                search.sortDirection,
+                search.after
+              )
+            );
+          }
+          this.applySearchOrder(pageQuery, search.sortBy, search.sortDirection);
+
+          // Se pide un usuario de más para saber si hay página siguiente
+          const rows = await pageQuery
+            .offset(search.after ? 0 : search.offset)
+            .limit(search.limit + 1)
+            .getMany();
+          return [rows, total] as const;
+        }
+      );
+
+      const users = rows.slice(0, search.limit).map(this.mapToUser.bind(this));
+      const last = users[users.length - 1];
+      const nextCursor =
+        rows.length > search.limit && last
+          ? encodeUserSearchCursor(last, search.sortBy, search.sortDirection)
+          : null;
+
+      this.logger.debug('Búsqueda de usuarios completada', {
+        count: users.length,
+        total,
+        durationMs: Date.now() - startTime,
+      });
+      return { users, total, nextCursor };
+    } catch (error) {
+      if (error instanceof InvalidUserSearchError) {
+        this.logger.debug('Búsqueda de usuarios rechazada', {
+          reason: error.message,
+        });
+        throw error;
+      }
+      throw this.translateError(error, 'buscar usuarios', startTime);
+    }
+  }
+
+  async countUsers(): Promise<number> {
+    const startTime = Date.now();
+    try {
+      return await this.dataSource.getRepository(UserEntity).count();
+    } catch (error) {
+      throw this.translateError(error, 'contar usuarios', startTime);
+    }
+  }
+
+  async findUsersByRole(role: string): Promise<User[]> {
+    return this.findManyBy(`encontrar usuarios por rol: ${role}`, (qb) =>
+      qb.where(`${USER_ALIAS}.role = :role`, { role })
+    );
+  }
+
+  async findUsersByCountry(countryCode: string): Promise<User[]> {
+    return this.findManyBy(
+      `encontrar usuarios por país: ${countryCode}`,
+      (qb) =>
+        qb.where(`${USER_ALIAS}.countryCode = :countryCode`, { countryCode })
+    );
+  }
+
+  async findUsersByContinent(continent: string): Promise<User[]> {
+    return this.findManyBy(
+      `encontrar usuarios por continente: ${continent}`,
+      (qb) => qb.where(`${USER_ALIAS}.continent = :continent`, { continent })
+    );
+  }
+
+  async getUserStatsByContinent(): Promise<Record<string, number>> {
+    return this.countGroupedBy(
+      'continent',
+      'obtener estadísticas por continente'
+    );
+  }
+
+  async getUserStatsByCountry(): Promise<Record<string, number>> {
+    return this.countGroupedBy('countryCode', 'obtener estadísticas por país');
+  }
+
+  private async findOneBy(
+    where: Pick<Partial<UserEntity>, 'id' | 'email' | 'username'>,
+    description: string
+  ): Promise<User | null> {
+    const startTime = Date.now();
+    try {
+      const entity = await this.dataSource
+        .getRepository(UserEntity)
+        .findOneBy(where);
+      return entity ? this.mapToUser(entity) : null;
+    } catch (error) {
+      throw this.translateError(
+        error,
+        `encontrar usuario por ${description}`,
+        startTime
+      );
+    }
+  }
+
+  private async findManyBy(
+    description: string,
+    build: (
+      qb: SelectQueryBuilder<UserEntity>
+    ) => SelectQueryBuilder<UserEntity>
+  ): Promise<User[]> {
+    const startTime = Date.now();
+    try {
+      const entities = await build(
+        this.dataSource.getRepository(UserEntity).createQueryBuilder(USER_ALIAS)
+      ).getMany();
+      return entities.map(this.mapToUser.bind(this));
+    } catch (error) {
+      throw this.translateError(error, description, startTime);
+    }
+  }
+
+  private async countGroupedBy(
+    column: 'continent' | 'countryCode',
+    description: string
+  ): Promise<Record<string, number>> {
+    const startTime = Date.now();
+    try {
+      const groups = await this.dataSource
+        .getRepository(UserEntity)
+        .createQueryBuilder(USER_ALIAS)
+        .select(`${USER_ALIAS}.${column}`, 'value')
+        .addSelect('COUNT(*)', 'count')
+        .where(`${USER_ALIAS}.${column} IS NOT NULL`)
+        .groupBy(`${USER_ALIAS}.${column}`)
+        .getRawMany<{ value: string; count: string | number }>();
+
+      const stats: Record<string, number> = {};
+      groups.forEach((group) => {
+        // Los drivers devuelven COUNT como string (bigint) o como número
+        stats[group.value] = Number(group.count);
+      });
+      return stats;
+    } catch (error) {
+      throw this.translateError(error, description, startTime);
+    }
+  }
+
+  /**
+   * Consulta con los filtros de búsqueda (sin cursor, orden ni página)
+   */
+  private buildSearchQuery(
+    manager: EntityManager,
+    criteria: UserSearchCriteria
+  ): SelectQueryBuilder<UserEntity> {
+    const qb = manager
+      .createQueryBuilder(UserEntity, USER_ALIAS)
+      .where('1 = 1');
+
+    if (criteria.role !== undefined) {
+      qb.andWhere(`${USER_ALIAS}.role = :role`, { role: criteria.role });
+    }
+    if (criteria.status !== undefined) {
+      qb.andWhere(`${USER_ALIAS}.status = :status`, {
+        status: criteria.status,
+      });
+    }
+    if (criteria.countryCode !== undefined) {
+      qb.andWhere(`${USER_ALIAS}.countryCode = :countryCode`, {
+        countryCode: criteria.countryCode.toUpperCase(),
+      });
+    }
+    if (criteria.continent !== undefined) {
+      qb.andWhere(`${USER_ALIAS}.continent = :continent`, {
+        continent: criteria.continent,
+      });
+    }
+    if (criteria.createdFrom) {
+      qb.andWhere(`${USER_ALIAS}.createdAt >= :createdFrom`, {
+        createdFrom: criteria.createdFrom,
+      });
+    }
+    if (criteria.createdTo) {
+      qb.andWhere(`${USER_ALIAS}.createdAt < :createdTo`, {
+        createdTo: criteria.createdTo,
+      });
+    }
+    if (criteria.lastLoginFrom) {
+      qb.andWhere(`${USER_ALIAS}.lastLogin >= :lastLoginFrom`, {
+        lastLoginFrom: criteria.lastLoginFrom,
+      });
+    }
+    if (criteria.lastLoginTo) {
+      qb.andWhere(`${USER_ALIAS}.lastLogin < :lastLoginTo`, {
+        lastLoginTo: criteria.lastLoginTo,
+      });
+    }
+    if (criteria.emailPrefix) {
+      qb.andWhere(`${USER_ALIAS}.email LIKE :emailPrefix`, {
+        emailPrefix: `${escapeLike(criteria.emailPrefix.trim().toLowerCase())}%`,
+      });
+    }
+    if (criteria.usernamePrefix) {
+      qb.andWhere(`${USER_ALIAS}.username LIKE :usernamePrefix`, {
+        usernamePrefix: `${escapeLike(criteria.usernamePrefix)}%`,
+      });
+    }
+
+    return qb;
+  }
+
+  /**
+   * Orden de la búsqueda, con el ID como desempate para que sea estable.
+   * Los usuarios sin lastLogin van al final en ambas direcciones (MySQL no
+   * admite NULLS LAST, así que se ordena antes por "es nulo")
+   */
+  private applySearchOrder(
+    qb: SelectQueryBuilder<UserEntity>,
+    sortBy: UserSortField,
+    direction: SortDirection
+  ): void {
+    const order = direction === 'asc' ? 'ASC' : 'DESC';
+
+    if (sortBy === 'lastLogin') {
+      qb.addSelect(
+        `CASE WHEN ${USER_ALIAS}.lastLogin IS NULL THEN 1 ELSE 0 END`,
+        'last_login_is_null'
+      ).orderBy('last_login_is_null', 'ASC');
+      qb.addOrderBy(`${USER_ALIAS}.lastLogin`, order);
+    } else {
+      qb.orderBy(`${USER_ALIAS}.${sortBy}`, order);
+    }
+    qb.addOrderBy(`${USER_ALIAS}.id`, order);
+  }
+
+  /**
+   * Condición de keyset: usuarios situados después de la posición del cursor
+   * en el orden de la búsqueda
+   */
+  private buildCursorCondition(
+    sortBy: UserSortField,
+    direction: SortDirection,
+    after: UserSearchPosition
+  ): Brackets {
+    const comparison = direction === 'asc' ? '>' : '<';
+    const column = `${USER_ALIAS}.${sortBy}`;
+    const afterId = `${USER_ALIAS}.id ${comparison} :afterId`;
+
+    return new Brackets((where) => {
+      // Cursor en la zona de nulos (solo lastLogin): quedan los nulos restantes
+      if (after.value === null) {
+        where.where(`${column} IS NULL AND ${afterId}`, { afterId: after.id });
+        return;
+      }
+
+      const parameters = { afterValue: after.value, afterId: after.id };
+      where
+        .where(`${column} ${comparison} :afterValue`, parameters)
+        .orWhere(`${column} = :afterValue AND ${afterId}`, parameters);
+      if (sortBy === 'lastLogin') {
+        where.orWhere(`${column} IS NULL`);
+      }
+    });
+  }
+
+  /**
+   * Registra el fallo y lo traduce a los errores de core. `onUniqueViolation`
+   * decide qué lanzar cuando se viola una restricción única
+   */
+  private translateError(
+    error: unknown,
+    action: string,
+    startTime: number,
+    onUniqueViolation?: () => never
+  ): UserRepositoryError {
+    this.logger.error(`Fallo al ${action}`, {
+      durationMs: Date.now() - startTime,
+      error,
+    });
+
+    const code = getErrorCode(error);
+    if (
+      onUniqueViolation &&
+      error instanceof QueryFailedError &&
+      code &&
+      UNIQUE_VIOLATION_CODES.has(code)
+    ) {
+      onUniqueViolation();
+    }
+    if (code && CONNECTION_ERROR_CODES.has(code)) {
+      return new DatabaseConnectionError(
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return new UserRepositoryError(
+      `Fallo al ${action}: ${error instanceof Error ? error.message : 'Error desconocido'}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  /**
+   * Mapea una fila de `users` a una entidad de dominio User
+   */
+  private mapToUser(entity: UserEntity): User {
+    return User.fromPersistence(
+      entity.id,
+      new Email(entity.email),
+      new Username(entity.username),
+      new HashedPassword(entity.passwordHash),
+      new Role(entity.role),
+      new UserStatus(entity.status, {
+        reason: entity.statusReason,
+        changedBy: entity.statusChangedBy,
+        changedAt: entity.statusChangedAt,
+        suspendedUntil: entity.suspendedUntil,
+      }),
+      entity.countryCode ? new CountryCode(entity.countryCode) : null,
+      entity.lastLogin,
+      entity.createdAt,
+      entity.updatedAt
+    );
+  }
+
+  /**
+   * Mapea una entrada del historial de moderación a su fila
+   */
+  private toStatusChangeEntity(
+    change: UserStatusChange
+  ): UserStatusChangeEntity {
+    return {
+      id: change.id,
+      userId: change.userId,
+      kind: change.kind,
+      fromValue: change.fromValue,
+      toValue: change.toValue,
+      reason: change.reason,
+      changedBy: change.changedBy,
+      suspendedUntil: change.suspendedUntil,
+      createdAt: change.createdAt,
+    };
+  }
+
+  /**
+   * Mapea un UserStatus (valor y datos del último cambio) a columnas
+   */
+  private mapStatusToColumns(
+    status: UserStatus
+  ): Pick<
+    UserEntity,
+    | 'status'
+    | 'statusReason'
+    | 'statusChangedBy'
+    | 'statusChangedAt'
+    | 'suspendedUntil'
+  > {
+    return {
+      status: status.value,
+      statusReason: status.reason,
+      statusChangedBy: status.changedBy,
+      statusChangedAt: status.changedAt,
+      suspendedUntil: status.suspendedUntil,
+    };
+  }
+
+  /**
+   * Mapea el país a sus columnas: el código y su continente principal
+   */
+  private mapCountryToColumns(
+    countryCode: CountryCode | null
+  ): Pick<UserEntity, 'countryCode' | 'continent'> {
+    return {
+      countryCode: countryCode?.value ?? null,
+      continent: countryCode?.getPrimaryContinent() ?? null,
+    };
+  }
+}
+
+/**
+ * Código del error del driver (TypeORM lo deja en driverError)
+ */
+/**
+ * Campo único violado. El mensaje del driver nombra la restricción
+ * (users_username_key) o la columna (users.username) según el motor
+ */
+function uniqueFieldOf(error: unknown): UniqueUserField {
+  return error instanceof Error && error.message.includes('username')
+    ? 'username'
+    : 'email';
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  const source =
+    error instanceof QueryFailedError
+      ? (error.driverError as { code?: unknown })
+      : (error as { code?: unknown } | null);
+  const code = source?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Escapa los comodines de LIKE para buscar el prefijo literal
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
@@ -1,5 +1,6 @@
 // src/infrastructure/database/config/database.config.ts
 
+import path from 'path';
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 
@@ -31,16 +32,31 @@ export const MySQLConfigSchema = z.object({
   logging: z.boolean().default(false),
 });
 
+/**
+ * Esquema de validación para configuración de SQLite (desarrollo local y
+ * tests sin contenedores)
+ */
+export const SQLiteConfigSchema = z.object({
+  file: z.string().min(1, 'SQLite file is required'),
+  logging: z.boolean().default(false),
+});
+
 /**
  * Esquema principal de configuración de base de datos
  */
 export const DatabaseConfigSchema = z
   .object({
-    type: z.enum(['postgresql', 'mysql'], {
-      message: 'Database type must be postgresql or mysql',
+    type: z.enum(['postgresql', 'mysql', 'sqlite'], {
+      message: 'Database type must be postgresql, mysql or sqlite',
     }),
     postgresql: PostgreSQLConfigSchema.optional(),
     mysql: MySQLConfigSchema.optional(),
+    sqlite: SQLiteConfigSchema.optional(),
+    orm: z
+      .enum(['prisma', 'typeorm'], {
+        message: 'Database ORM must be prisma or typeorm',
+      })
+      .default('prisma'),
   })
   .refine(
     (data) => {
@@ -55,16 +71,21 @@ export const DatabaseConfigSchema = z
 
 export type PostgreSQLConfig = z.infer<typeof PostgreSQLConfigSchema>;
 export type MySQLConfig = z.infer<typeof MySQLConfigSchema>;
+export type SQLiteConfig = z.infer<typeof SQLiteConfigSchema>;
 export type DatabaseConfigType = z.infer<typeof DatabaseConfigSchema>;
+export type DatabaseType = DatabaseConfigType['type'];
+export type DatabaseOrm = DatabaseConfigType['orm'];
 
 /**
  * Clase para gestionar la configuración de base de datos multi-tipo
  */
 export class DatabaseConfig {
   private constructor(
-    public readonly type: 'postgresql' | 'mysql',
+    public readonly type: DatabaseType,
     public readonly postgresql?: PostgreSQLConfig,
-    public readonly mysql?: MySQLConfig
+    public readonly mysql?: MySQLConfig,
+    public readonly sqlite?: SQLiteConfig,
+    public readonly orm: DatabaseOrm = 'prisma'
   ) {}
 
   /**
@@ -73,9 +94,8 @@ export class DatabaseConfig {
    * @throws Error si la configuración es inválida
    */
   static load(): DatabaseConfig {
-    const databaseType = (process.env.DATABASE_TYPE || 'postgresql') as
-      | 'postgresql'
-      | 'mysql';
+    // Sin conversión de tipo: el esquema rechaza un DATABASE_TYPE desconocido
+    const databaseType = process.env.DATABASE_TYPE || 'postgresql';
 
     const config = {
       type: databaseType,
@@ -115,6 +135,15 @@ export class DatabaseConfig {
               logging: process.env.DB_MYSQL_LOGGING === 'true',
             }
           : undefined,
+      sqlite:
+        databaseType === 'sqlite'
+          ? {
+              file: process.env.DB_SQLITE_FILE || 'wayrapp_dev.db',
+              logging: process.env.DB_SQLITE_LOGGING === 'true',
+            }
+          : undefined,
+      // ORM del repositorio de usuarios; el resto de repositorios usan Prisma
+      orm: process.env.DATABASE_ORM || 'prisma',
     };
 
     const validationResult = DatabaseConfigSchema.safeParse(config);
@@ -131,7 +160,9 @@ export class DatabaseConfig {
     return new DatabaseConfig(
       validatedConfig.type,
       validatedConfig.postgresql,
-      validatedConfig.mysql
+      validatedConfig.mysql,
+      validatedConfig.sqlite,
+      validatedConfig.orm
     );
   }
 
@@ -139,7 +170,7 @@ export class DatabaseConfig {
    * Obtiene la configuración específica para el tipo de base de datos actual
    * @returns Configuración específica del tipo de BD
    */
-  getCurrentConfig(): PostgreSQLConfig | MySQLConfig {
+  getCurrentConfig(): PostgreSQLConfig | MySQLConfig | SQLiteConfig {
     switch (this.type) {
       case 'postgresql':
         if (!this.postgresql) {
@@ -151,6 +182,11 @@ export class DatabaseConfig {
           throw new Error('MySQL configuration is missing');
         }
         return this.mysql;
+      case 'sqlite':
+        if (!this.sqlite) {
+          throw new Error('SQLite configuration is missing');
+        }
+        return this.sqlite;
       default:
         throw new Error(`Unsupported database type: ${this.type}`);
     }
@@ -161,7 +197,7 @@ export class DatabaseConfig {
    * @param type Tipo de base de datos a verificar
    * @returns true si la configuración es válida
    */
-  isValidForType(type: 'postgresql' | 'mysql'): boolean {
+  isValidForType(type: DatabaseType): boolean {
     try {
       return this.type === type && this[type] !== undefined;
     } catch {
@@ -178,11 +214,17 @@ export class DatabaseConfig {
       case 'postgresql': {
         const config = this.postgresql!;
         const sslMode = config.ssl ? 'require' : 'disable';
-        return `postgresql://${config.username}:${config.password}@${config.host}:${config.port}/${config.database}?sslmode=${sslMode}&connection_limit=${config.poolSize}`;
+        return `postgresql://${encodeURIComponent(config.username)}:${encodeURIComponent(config.password)}@${config.host}:${config.port}/${config.database}?schema=public&sslmode=${sslMode}&connection_limit=${config.poolSize}`;
       }
       case 'mysql': {
         const config = this.mysql!;
-        return `mysql://${config.username}:${config.password}@${config.host}:${config.port}/${config.database}`;
+        // pool_timeout se expresa en segundos
+        const poolTimeout = Math.ceil(config.acquireTimeout / 1000);
+        return `mysql://${encodeURIComponent(config.username)}:${encodeURIComponent(config.password)}@${config.host}:${config.port}/${config.database}?connection_limit=${config.poolSize}&pool_timeout=${poolTimeout}`;
+      }
+      case 'sqlite': {
+        // Ruta absoluta: Prisma resuelve las rutas relativas desde el schema
+        return `file:${path.resolve(this.sqlite!.file)}`;
       }
       default:
         throw new Error(`Unsupported database type: ${this.type}`);
@@ -1,30 +1,17 @@
 // src/infrastructure/database/config/prisma.config.ts
 
 import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
-import { config } from '@/infrastructure/config/environment';
+import { DatabaseConfig } from '@/infrastructure/database/config/database.config';
+import { PrismaFactory } from '@/infrastructure/database/factories/PrismaFactory';
 
 /**
- * Crea y configura una instancia de PrismaClient para desarrollo y producción.
+ * Crea y configura una instancia de PrismaClient para desarrollo y producción,
+ * con la base de datos que indique DATABASE_TYPE (ver PrismaFactory).
  * Este cliente NO debe ser usado en tests - los tests tienen su propio setup
  * con TestDatabaseUtils para mantener el aislamiento completo.
  */
-const createPrismaClient = () => {
-  const databaseUrl = config.DATABASE_URL_POSTGRES;
-
-  if (!databaseUrl) {
-    throw new Error(
-      'DATABASE_URL_POSTGRES is not defined. Please check your .env file.'
-    );
-  }
-
-  return new PrismaClient({
-    datasources: {
-      db: {
-        url: databaseUrl,
-      },
-    },
-  });
-};
+const createPrismaClient = (): PrismaClient =>
+  PrismaFactory.createClient(DatabaseConfig.load());
 
 const prismaClient = createPrismaClient();
 
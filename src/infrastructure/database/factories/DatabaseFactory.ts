@@ -0,0 +1,209 @@
+// src/infrastructure/database/factories/DatabaseFactory.ts
+
+import { DataSource } from 'typeorm';
+import { PrismaClient } from '@/infrastructure/node_modules/.prisma/client';
+import { DatabaseConfig } from '@/infrastructure/database/config/database.config';
+import {
+  IUnitOfWork,
+  UnitOfWorkRepositories,
+} from '@/core/interfaces/repositories/IUnitOfWork';
+import { IDatabaseHealth } from '@/core/interfaces/repositories/IDatabaseHealth';
+import { UserRepository } from '@/infrastructure/database/adapters/prisma/repositories/UserRepository';
+import { RefreshTokenRepository } from '@/infrastructure/database/adapters/prisma/repositories/RefreshTokenRepository';
+import { VerificationTokenRepository } from '@/infrastructure/database/adapters/prisma/repositories/VerificationTokenRepository';
+import { UserStatusChangeRepository } from '@/infrastructure/database/adapters/prisma/repositories/UserStatusChangeRepository';
+import { OutboxRepository } from '@/infrastructure/database/adapters/prisma/repositories/OutboxRepository';
+import { CourseRepository } from '@/infrastructure/database/adapters/prisma/repositories/CourseRepository';
+import { CourseCollaboratorRepository } from '@/infrastructure/database/adapters/prisma/repositories/CourseCollaboratorRepository';
+import { PublicationRepository } from '@/infrastructure/database/adapters/prisma/repositories/PublicationRepository';
+import { LevelRepository } from '@/infrastructure/database/adapters/prisma/repositories/LevelRepository';
+import { SectionRepository } from '@/infrastructure/database/adapters/prisma/repositories/SectionRepository';
+import { ModuleRepository } from '@/infrastructure/database/adapters/prisma/repositories/ModuleRepository';
+import { LessonRepository } from '@/infrastructure/database/adapters/prisma/repositories/LessonRepository';
+import { ExerciseRepository } from '@/infrastructure/database/adapters/prisma/repositories/ExerciseRepository';
+import { LessonExerciseRepository } from '@/infrastructure/database/adapters/prisma/repositories/LessonExerciseRepository';
+import { PrismaUnitOfWork } from '@/infrastructure/database/adapters/prisma/PrismaUnitOfWork';
+import { PrismaDatabaseHealth } from '@/infrastructure/database/adapters/prisma/PrismaDatabaseHealth';
+import { TypeOrmUserRepository } from '@/infrastructure/database/adapters/typeorm/repositories/TypeOrmUserRepository';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+import { PrismaFactory } from './PrismaFactory';
+import { TypeOrmFactory } from './TypeOrmFactory';
+
+/**
+ * Repositorios de la aplicación, todos sobre la misma conexión. Son los
+ * mismos que recibe una unidad de trabajo, pero fuera de transacción
+ */
+export type Repositories = UnitOfWorkRepositories;
+
+/**
+ * Punto único de creación de la capa de persistencia.
+ *
+ * A partir de DatabaseConfig elige la cadena de conexión (PostgreSQL o
+ * MySQL) y construye los repositorios; el resto de la aplicación solo ve las
+ * interfaces de core, así que el mismo binario funciona con cualquiera de
+ * los dos motores cambiando la configuración.
+ *
+ * Con DATABASE_ORM=typeorm el repositorio de usuarios usa el adaptador de
+ * TypeORM sobre las mismas tablas; el resto de repositorios siguen en Prisma.
+ */
+export class DatabaseFactory {
+  private repositories: Repositories | null = null;
+  private unitOfWork: IUnitOfWork | null = null;
+  private databaseHealth: IDatabaseHealth | null = null;
+
+  private constructor(
+    public readonly databaseConfig: DatabaseConfig,
+    private readonly prismaClient: PrismaClient,
+    private readonly dataSource: DataSource | null,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Crea la fábrica con la configuración indicada o, por defecto, la de las
+   * variables de entorno. Los repositorios escriben en `logger`
+   */
+  static create(
+    databaseConfig: DatabaseConfig = DatabaseConfig.load(),
+    logger: ILogger = defaultLogger
+  ): DatabaseFactory {
+    return new DatabaseFactory(
+      databaseConfig,
+      PrismaFactory.createClient(databaseConfig),
+      databaseConfig.orm === 'typeorm'
+        ? TypeOrmFactory.createDataSource(databaseConfig)
+        : null,
+      logger
+    );
+  }
+
+  /**
+   * Devuelve los repositorios. Se crean una sola vez y comparten el cliente
+   */
+  getRepositories(): Repositories {
+    if (!this.repositories) {
+      this.repositories = {
+        userRepository: this.dataSource
+          ? new TypeOrmUserRepository(this.dataSource, this.logger)
+          : new UserRepository(this.prismaClient, this.logger),
+        refreshTokenRepository: new RefreshTokenRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        verificationTokenRepository: new VerificationTokenRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        userStatusChangeRepository: new UserStatusChangeRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        outboxRepository: new OutboxRepository(this.prismaClient, this.logger),
+        courseRepository: new CourseRepository(this.prismaClient, this.logger),
+        courseCollaboratorRepository: new CourseCollaboratorRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        levelRepository: new LevelRepository(this.prismaClient, this.logger),
+        sectionRepository: new SectionRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        moduleRepository: new ModuleRepository(this.prismaClient, this.logger),
+        lessonRepository: new LessonRepository(this.prismaClient, this.logger),
+        exerciseRepository: new ExerciseRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        lessonExerciseRepository: new LessonExerciseRepository(
+          this.prismaClient,
+          this.logger
+        ),
+        publicationRepository: new PublicationRepository(
+          this.prismaClient,
+          this.logger
+        ),
+      };
+    }
+    return this.repositories;
+  }
+
+  /**
+   * Devuelve la unidad de trabajo para escrituras atómicas entre
+   * repositorios. Siempre trabaja con los adaptadores de Prisma, también con
+   * DATABASE_ORM=typeorm: una transacción no puede abarcar dos ORMs, y las
+   * tablas son las mismas
+   */
+  getUnitOfWork(): IUnitOfWork {
+    if (!this.unitOfWork) {
+      this.unitOfWork = new PrismaUnitOfWork(
+        this.prismaClient,
+        {},
+        this.logger
+      );
+    }
+    return this.unitOfWork;
+  }
+
+  /**
+   * Devuelve el puerto de salud de la base de datos (conexión y migraciones
+   * pendientes). Las migraciones son de PostgreSQL: MySQL y SQLite se crean
+   * con `db push` y no tienen migraciones que comprobar
+   */
+  getDatabaseHealth(): IDatabaseHealth {
+    if (!this.databaseHealth) {
+      this.databaseHealth = new PrismaDatabaseHealth(
+        this.prismaClient,
+        this.databaseConfig.type === 'postgresql' ? undefined : null,
+        this.logger
+      );
+    }
+    return this.databaseHealth;
+  }
+
+  /**
+   * Prepara las conexiones antes de atender peticiones (arranque del
+   * servidor). Prisma conectaría en la primera consulta, pero así un cliente
+   * generado para otro motor que DATABASE_TYPE falla al arrancar; TypeORM,
+   * además, exige inicializar el DataSource antes de usarlo
+   */
+  async connect(): Promise<void> {
+    try {
+      await this.prismaClient.$connect();
+    } catch (error) {
+      // Solo el esquema de la URL delata otro motor; cualquier otro fallo
+      // (servidor caído, credenciales) se propaga tal cual
+      if (!isProviderMismatch(error)) {
+        throw error;
+      }
+      const { type } = this.databaseConfig;
+      throw new Error(
+        `No se pudo conectar Prisma con DATABASE_TYPE=${type}. Si el cliente de Prisma se generó para otro motor, ` +
+          `ejecuta npm run db:generate:${type === 'postgresql' ? 'postgres' : type}`,
+        { cause: error }
+      );
+    }
+    if (this.dataSource && !this.dataSource.isInitialized) {
+      await this.dataSource.initialize();
+    }
+  }
+
+  /**
+   * Cierra la conexión con la base de datos (apagado del servidor)
+   */
+  async disconnect(): Promise<void> {
+    await this.prismaClient.$disconnect();
+    if (this.dataSource?.isInitialized) {
+      await this.dataSource.destroy();
+    }
+  }
+}
+
+// Prisma valida el esquema de la URL contra el proveedor con el que se
+// generó el cliente: "the URL must start with the protocol `postgresql://`..."
+function isProviderMismatch(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.message.includes('the URL must start with the protocol')
+  );
+}
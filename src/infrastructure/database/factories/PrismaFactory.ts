@@ -0,0 +1,32 @@
+// src/infrastructure/database/factories/PrismaFactory.ts
+
+import {
+  Prisma,
+  PrismaClient,
+} from '@/infrastructure/node_modules/.prisma/client';
+import { DatabaseConfig } from '@/infrastructure/database/config/database.config';
+
+/**
+ * Construye el PrismaClient a partir de DatabaseConfig.
+ *
+ * El cliente generado es uno solo (schema.prisma se genera con
+ * `npm run db:generate:postgres`, `db:generate:mysql` o `db:generate:sqlite`)
+ * y recibe la URL del motor de DATABASE_TYPE. Si se generó para otro motor,
+ * Prisma rechaza la URL al conectar: DatabaseFactory.connect() lo comprueba
+ * al arrancar, en lugar de fallar en la primera consulta.
+ */
+export class PrismaFactory {
+  static createClient(databaseConfig: DatabaseConfig): PrismaClient {
+    const { logging } = databaseConfig.getCurrentConfig();
+    const log: Prisma.LogLevel[] = logging
+      ? ['query', 'info', 'warn', 'error']
+      : ['warn', 'error'];
+
+    return new PrismaClient({
+      datasources: {
+        db: { url: databaseConfig.getConnectionString() },
+      },
+      log,
+    });
+  }
+}
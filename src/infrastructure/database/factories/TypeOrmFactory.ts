@@ -0,0 +1,84 @@
+// src/infrastructure/database/factories/TypeOrmFactory.ts
+
+import 'reflect-metadata';
+import { DataSource, DataSourceOptions } from 'typeorm';
+import pg from 'pg';
+import { DatabaseConfig } from '@/infrastructure/database/config/database.config';
+import { UserEntity } from '@/infrastructure/database/adapters/typeorm/entities/UserEntity';
+import { UserStatusChangeEntity } from '@/infrastructure/database/adapters/typeorm/entities/UserStatusChangeEntity';
+
+/**
+ * Construye el DataSource de TypeORM a partir de DatabaseConfig.
+ *
+ * Trabaja sobre las tablas que crean las migraciones de Prisma, así que
+ * `synchronize` está siempre desactivado. Solo admite PostgreSQL y MySQL: en
+ * SQLite Prisma guarda los enums y las fechas con otra representación que
+ * TypeORM no sabe leer. Las fechas se guardan en UTC, como en Prisma, sea
+ * cual sea la zona horaria del proceso.
+ */
+export class TypeOrmFactory {
+  static createDataSource(databaseConfig: DatabaseConfig): DataSource {
+    return new DataSource(TypeOrmFactory.buildOptions(databaseConfig));
+  }
+
+  static buildOptions(databaseConfig: DatabaseConfig): DataSourceOptions {
+    const common = {
+      entities: [UserEntity, UserStatusChangeEntity],
+      synchronize: false,
+    };
+
+    switch (databaseConfig.type) {
+      case 'postgresql': {
+        const config = databaseConfig.postgresql!;
+        return {
+          ...common,
+          type: 'postgres',
+          host: config.host,
+          port: config.port,
+          username: config.username,
+          password: config.password,
+          database: config.database,
+          schema: 'public',
+          driver: TypeOrmFactory.postgresDriver(),
+          ssl: config.ssl,
+          poolSize: config.poolSize,
+          logging: config.logging,
+        };
+      }
+      case 'mysql': {
+        const config = databaseConfig.mysql!;
+        return {
+          ...common,
+          type: 'mysql',
+          host: config.host,
+          port: config.port,
+          username: config.username,
+          password: config.password,
+          database: config.database,
+          poolSize: config.poolSize,
+          timezone: 'Z',
+          logging: config.logging,
+        };
+      }
+      default:
+        throw new Error(
+          `DATABASE_ORM=typeorm solo está disponible con PostgreSQL y MySQL, no con ${databaseConfig.type}`
+        );
+    }
+  }
+
+  /**
+   * Driver `pg` que escribe y lee las columnas `timestamp` (sin zona, como
+   * las crea Prisma) en UTC. Por defecto `pg` usa la zona horaria del
+   * proceso en ambos sentidos. La configuración es global del módulo `pg`,
+   * que en esta aplicación solo usa TypeORM.
+   */
+  static postgresDriver(): typeof pg {
+    pg.defaults.parseInputDatesAsUTC = true;
+    pg.types.setTypeParser(
+      pg.types.builtins.TIMESTAMP,
+      (value: string) => new Date(`${value.replace(' ', 'T')}Z`)
+    );
+    return pg;
+  }
+}
@@ -0,0 +1,131 @@
+// src/infrastructure/external/email/FileEmailGateway.ts
+
+import { constants } from 'fs';
+import { access, mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  EmailMessage,
+  IEmailGateway,
+} from '@/core/interfaces/gateways/IEmailGateway';
+import { IHealthCheck } from '@/core/interfaces/services/IHealthCheck';
+
+/**
+ * Implementación de IEmailGateway que escribe cada mensaje como un fichero
+ * .eml (RFC 5322) en un directorio de salida local.
+ *
+ * Es el adaptador por defecto: permite revisar los emails en desarrollo y en
+ * tests sin un servidor de correo. Los .eml se pueden abrir con cualquier
+ * cliente de correo.
+ *
+ * También es una comprobación de readiness: el gateway solo está disponible
+ * si puede escribir en el directorio de salida.
+ */
+export class FileEmailGateway implements IEmailGateway, IHealthCheck {
+  private static readonly CRLF = '\r\n';
+  readonly name = 'email';
+
+  constructor(
+    private readonly outboxDir: string,
+    private readonly from: string,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    if (!outboxDir || outboxDir.trim().length === 0) {
+      throw new Error('El directorio de salida de emails es obligatorio');
+    }
+    this.assertSingleLine('from', from);
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    this.assertSingleLine('to', message.to);
+    this.assertSingleLine('subject', message.subject);
+
+    const date = this.now();
+    const id = uuidv4();
+    const fileName = `${date.toISOString().replace(/[:.]/g, '-')}-${id}.eml`;
+
+    try {
+      await mkdir(this.outboxDir, { recursive: true });
+      await writeFile(
+        path.join(this.outboxDir, fileName),
+        this.render(message, id, date),
+        { encoding: 'utf8', flag: 'wx' }
+      );
+    } catch (error) {
+      throw new Error(
+        `Error al escribir el email en ${this.outboxDir}: ${error instanceof Error ? error.message : 'Error desconocido'}`
+      );
+    }
+  }
+
+  async check(): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+    await access(this.outboxDir, constants.W_OK);
+  }
+
+  private render(message: EmailMessage, id: string, date: Date): string {
+    const domain = this.from.match(/@([^>\s]+)/)?.[1] ?? 'localhost';
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${this.encodeHeader(message.subject)}`,
+      `Date: ${date.toUTCString()}`,
+      `Message-ID: <${id}@${domain}>`,
+      'MIME-Version: 1.0',
+    ];
+
+    if (!message.html) {
+      return this.join([
+        ...headers,
+        ...this.textPartHeaders('plain'),
+        '',
+        message.text,
+      ]);
+    }
+
+    const boundary = `=_wayrapp_${id}`;
+    return this.join([
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...this.textPartHeaders('plain'),
+      '',
+      message.text,
+      `--${boundary}`,
+      ...this.textPartHeaders('html'),
+      '',
+      message.html,
+      `--${boundary}--`,
+    ]);
+  }
+
+  private textPartHeaders(subtype: 'plain' | 'html'): string[] {
+    return [
+      `Content-Type: text/${subtype}; charset=utf-8`,
+      'Content-Transfer-Encoding: 8bit',
+    ];
+  }
+
+  // Las cabeceras deben ser ASCII: el resto se codifica según RFC 2047
+  private encodeHeader(value: string): string {
+    if (/^[\x00-\x7F]*$/.test(value)) {
+      return value;
+    }
+    return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+  }
+
+  private join(lines: string[]): string {
+    return (
+      lines.join('\n').replace(/\r?\n/g, FileEmailGateway.CRLF) +
+      FileEmailGateway.CRLF
+    );
+  }
+
+  // Evita la inyección de cabeceras a través de saltos de línea
+  private assertSingleLine(field: string, value: string): void {
+    if (!value || /[\r\n]/.test(value)) {
+      throw new Error(`Valor inválido para la cabecera de email: ${field}`);
+    }
+  }
+}
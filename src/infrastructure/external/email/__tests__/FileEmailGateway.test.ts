@@ -0,0 +1,132 @@
+// src/infrastructure/external/email/__tests__/FileEmailGateway.test.ts
+
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileEmailGateway } from '@/infrastructure/external/email/FileEmailGateway';
+
+describe('FileEmailGateway', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = path.join(
+      await mkdtemp(path.join(os.tmpdir(), 'wayrapp-outbox-')),
+      'outbox'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(path.dirname(outboxDir), { recursive: true, force: true });
+  });
+
+  async function readOutbox(): Promise<string[]> {
+    const files = await readdir(outboxDir);
+    return Promise.all(
+      files.map((file) => readFile(path.join(outboxDir, file), 'utf8'))
+    );
+  }
+
+  it('debería escribir un .eml en el directorio de salida, creándolo si no existe', async () => {
+    const gateway = new FileEmailGateway(
+      outboxDir,
+      'WayrApp <no-reply@wayrapp.test>',
+      () => now
+    );
+
+    await gateway.send({
+      to: 'learner@example.com',
+      subject: 'Hello',
+      text: 'Línea 1\nLínea 2',
+    });
+
+    const files = await readdir(outboxDir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^2025-01-01T12-00-00-000Z-.+\.eml$/);
+
+    const [eml] = await readOutbox();
+    expect(eml).toContain('From: WayrApp <no-reply@wayrapp.test>\r\n');
+    expect(eml).toContain('To: learner@example.com\r\n');
+    expect(eml).toContain('Subject: Hello\r\n');
+    expect(eml).toContain('Date: Wed, 01 Jan 2025 12:00:00 GMT\r\n');
+    expect(eml).toMatch(/Message-ID: <.+@wayrapp\.test>\r\n/);
+    expect(eml).toContain('Content-Type: text/plain; charset=utf-8\r\n');
+    expect(eml).toContain('\r\n\r\nLínea 1\r\nLínea 2\r\n');
+  });
+
+  it('debería codificar asuntos con caracteres no ASCII', async () => {
+    const gateway = new FileEmailGateway(outboxDir, 'no-reply@wayrapp.test');
+
+    await gateway.send({
+      to: 'learner@example.com',
+      subject: 'Confirmación',
+      text: 'texto',
+    });
+
+    const [eml] = await readOutbox();
+    const encoded = Buffer.from('Confirmación', 'utf8').toString('base64');
+    expect(eml).toContain(`Subject: =?UTF-8?B?${encoded}?=\r\n`);
+  });
+
+  it('debería generar un mensaje multipart cuando hay versión HTML', async () => {
+    const gateway = new FileEmailGateway(outboxDir, 'no-reply@wayrapp.test');
+
+    await gateway.send({
+      to: 'learner@example.com',
+      subject: 'Hola',
+      text: 'texto plano',
+      html: '<p>html</p>',
+    });
+
+    const [eml] = await readOutbox();
+    expect(eml).toMatch(/Content-Type: multipart\/alternative; boundary=".+"/);
+    expect(eml).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(eml).toContain('Content-Type: text/html; charset=utf-8');
+    expect(eml).toContain('<p>html</p>');
+  });
+
+  it('debería escribir un fichero distinto por cada mensaje', async () => {
+    const gateway = new FileEmailGateway(
+      outboxDir,
+      'no-reply@wayrapp.test',
+      () => now
+    );
+
+    await gateway.send({ to: 'a@example.com', subject: 'A', text: 'a' });
+    await gateway.send({ to: 'b@example.com', subject: 'B', text: 'b' });
+
+    expect(await readdir(outboxDir)).toHaveLength(2);
+  });
+
+  it('debería rechazar cabeceras con saltos de línea', async () => {
+    const gateway = new FileEmailGateway(outboxDir, 'no-reply@wayrapp.test');
+
+    await expect(
+      gateway.send({
+        to: 'victim@example.com\r\nBcc: other@example.com',
+        subject: 'Hola',
+        text: 'texto',
+      })
+    ).rejects.toThrow('Valor inválido para la cabecera de email: to');
+  });
+
+  it('debería estar disponible si puede escribir en el directorio de salida', async () => {
+    const gateway = new FileEmailGateway(outboxDir, 'no-reply@wayrapp.test');
+
+    await expect(gateway.check()).resolves.toBeUndefined();
+    expect((await stat(outboxDir)).isDirectory()).toBe(true);
+  });
+
+  it('no debería estar disponible si el directorio de salida no se puede crear', async () => {
+    await writeFile(outboxDir, 'no es un directorio');
+    const gateway = new FileEmailGateway(outboxDir, 'no-reply@wayrapp.test');
+
+    await expect(gateway.check()).rejects.toThrow();
+  });
+
+  it('debería exigir un directorio de salida', () => {
+    expect(() => new FileEmailGateway('', 'no-reply@wayrapp.test')).toThrow(
+      'El directorio de salida de emails es obligatorio'
+    );
+  });
+});
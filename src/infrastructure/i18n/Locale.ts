@@ -0,0 +1,56 @@
+// src/infrastructure/i18n/Locale.ts
+
+export const SUPPORTED_LOCALES = ['es', 'en', 'pt'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Idioma de la aplicación y de los mensajes de core
+export const DEFAULT_LOCALE: Locale = 'es';
+
+export function isSupportedLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Elige el idioma de la respuesta.
+ *
+ * Manda la preferencia explícita del usuario si es un idioma soportado; si no,
+ * el primero soportado de `Accept-Language` por orden de calidad (solo cuenta
+ * el idioma principal: `pt-BR` es `pt`). Sin coincidencias, DEFAULT_LOCALE.
+ *
+ * @param preferred Idioma elegido por el usuario (p. ej. `?lang=en`)
+ * @param acceptLanguage Cabecera Accept-Language de la petición
+ */
+export function negotiateLocale(
+  preferred: string | undefined,
+  acceptLanguage: string | undefined
+): Locale {
+  const explicit = preferred?.trim().toLowerCase();
+  if (explicit && isSupportedLocale(explicit)) {
+    return explicit;
+  }
+
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...options] = part.trim().split(';');
+      const quality = options
+        .map((option) => option.trim())
+        .find((option) => option.startsWith('q='));
+      return {
+        language: tag.trim().split('-')[0].toLowerCase(),
+        quality: quality ? Number(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ language, quality }) => language && quality > 0)
+    // A igual calidad, manda el orden de la cabecera
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { language } of ranges) {
+    if (isSupportedLocale(language)) {
+      return language;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
@@ -0,0 +1,28 @@
+// src/infrastructure/i18n/MessageCatalog.ts
+
+import {
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+
+// Texto fijo o función que lo redacta con los params del error
+export type MessageTemplate = string | ((params: ErrorParams) => string);
+
+/**
+ * Mensajes de un idioma. Los tipos obligan a que cada catálogo cubra todos
+ * los códigos de error y todas las categorías
+ */
+export interface MessageCatalog {
+  titles: Record<ErrorCategory, string>;
+  errors: Record<ErrorCode, MessageTemplate>;
+}
+
+/**
+ * Lee un param de lista. Los catálogos lo usan para los requisitos que faltan
+ * o los filtros disponibles
+ */
+export function listParam(params: ErrorParams, name: string): string[] {
+  const value = params[name];
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,37 @@
+// src/infrastructure/i18n/__tests__/Locale.test.ts
+
+import { negotiateLocale } from '@/infrastructure/i18n/Locale';
+
+describe('negotiateLocale', () => {
+  it('debería usar español si no hay preferencia ni Accept-Language', () => {
+    expect(negotiateLocale(undefined, undefined)).toBe('es');
+  });
+
+  it('debería elegir el idioma soportado de mayor calidad', () => {
+    expect(negotiateLocale(undefined, 'fr;q=1, pt;q=0.5, en;q=0.8')).toBe('en');
+  });
+
+  it('debería comparar solo el idioma principal de cada etiqueta', () => {
+    expect(negotiateLocale(undefined, 'pt-BR,pt;q=0.9')).toBe('pt');
+    expect(negotiateLocale(undefined, 'EN-us')).toBe('en');
+  });
+
+  it('debería respetar el orden de la cabecera a igual calidad', () => {
+    expect(negotiateLocale(undefined, 'en, pt')).toBe('en');
+    expect(negotiateLocale(undefined, 'pt, en')).toBe('pt');
+  });
+
+  it('debería ignorar los idiomas con q=0 y los no soportados', () => {
+    expect(negotiateLocale(undefined, 'en;q=0, de')).toBe('es');
+    expect(negotiateLocale(undefined, '*')).toBe('es');
+  });
+
+  it('debería dar prioridad a la preferencia del usuario', () => {
+    expect(negotiateLocale('pt', 'en')).toBe('pt');
+    expect(negotiateLocale(' EN ', 'pt')).toBe('en');
+  });
+
+  it('debería ignorar una preferencia no soportada', () => {
+    expect(negotiateLocale('fr', 'en')).toBe('en');
+  });
+});
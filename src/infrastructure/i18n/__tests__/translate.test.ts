@@ -0,0 +1,93 @@
+// src/infrastructure/i18n/__tests__/translate.test.ts
+
+import { ErrorCode } from '@/shared/errors/AppError';
+import { PlainPassword } from '@/core/domain/value-objects/Password';
+import { DomainValidationError } from '@/shared/errors/DomainValidationError';
+import { SUPPORTED_LOCALES } from '@/infrastructure/i18n/Locale';
+import { es } from '@/infrastructure/i18n/catalogs/es';
+import {
+  translateError,
+  translateTitle,
+} from '@/infrastructure/i18n/translate';
+
+describe('translate', () => {
+  const weakPasswordError = (): DomainValidationError => {
+    try {
+      new PlainPassword('password');
+    } catch (error) {
+      return error as DomainValidationError;
+    }
+    throw new Error('Se esperaba un error');
+  };
+
+  it('debería redactar el mensaje del código en cada idioma', () => {
+    expect(translateError('es', 'USER_EMAIL_TAKEN')).toBe(
+      'Ya existe un usuario con ese email'
+    );
+    expect(translateError('en', 'USER_EMAIL_TAKEN')).toBe(
+      'A user with that email already exists'
+    );
+    expect(translateError('pt', 'USER_EMAIL_TAKEN')).toBe(
+      'Já existe um usuário com esse e-mail'
+    );
+  });
+
+  it('debería interpolar los params del error', () => {
+    expect(translateError('en', 'USERNAME_TOO_SHORT', { min: 3 })).toBe(
+      'The username must be at least 3 characters long'
+    );
+    expect(
+      translateError('pt', 'INVALID_STATUS_TRANSITION', {
+        from: 'banned',
+        to: 'suspended',
+      })
+    ).toBe('Transição de status não permitida: banned → suspended');
+  });
+
+  it('debería listar en el idioma pedido los requisitos que faltan a la contraseña', () => {
+    const error = weakPasswordError();
+
+    expect(translateError('en', error.code, error.params)).toBe(
+      'The password must include: at least one uppercase letter (A-Z), at least one number (0-9), at least one special character (!@#$%^&*()_+-=[]{}|;:,./?)'
+    );
+    // En español coincide con el mensaje del propio value object
+    expect(translateError('es', error.code, error.params)).toBe(error.message);
+  });
+
+  it('debería traducir los títulos de las categorías', () => {
+    expect(translateTitle('en', 'not_found')).toBe('Resource not found');
+    expect(translateTitle('pt', 'conflict')).toBe(
+      'Conflito com o estado atual'
+    );
+  });
+
+  it('debería tener un mensaje no vacío para todos los códigos en todos los idiomas', () => {
+    const params = {
+      min: 1,
+      max: 2,
+      missing: ['hasNumber'],
+      specialChars: '!',
+      filters: ['role'],
+      from: 'a',
+      to: 'b',
+      status: 'banned',
+      method: 'GET',
+      path: '/',
+      kind: 'lesson',
+      parentKind: 'module',
+      position: 3,
+      field: 'options',
+      type: 'translate',
+      action: 'approved',
+      number: 4,
+    };
+
+    for (const locale of SUPPORTED_LOCALES) {
+      for (const code of Object.keys(es.errors) as ErrorCode[]) {
+        const message = translateError(locale, code, params);
+        expect(message.trim()).not.toBe('');
+        expect(message).not.toContain('undefined');
+      }
+    }
+  });
+});
@@ -0,0 +1,163 @@
+// src/infrastructure/i18n/catalogs/en.ts
+
+import { PasswordRequirement } from '@/core/domain/value-objects/Password';
+import {
+  ContentKind,
+  VersionedKind,
+} from '@/core/domain/services/ContentHierarchy';
+import {
+  PublicationAction,
+  PublicationStatus,
+} from '@/core/domain/entities/Publication';
+import { MessageCatalog, listParam } from '../MessageCatalog';
+
+const PASSWORD_REQUIREMENTS: Record<
+  PasswordRequirement,
+  (specialChars: string) => string
+> = {
+  hasLowerCase: () => 'at least one lowercase letter (a-z)',
+  hasUpperCase: () => 'at least one uppercase letter (A-Z)',
+  hasNumber: () => 'at least one number (0-9)',
+  hasSpecialChar: (specialChars) =>
+    `at least one special character (${specialChars})`,
+};
+
+const CONTENT_KINDS: Record<VersionedKind, string> = {
+  course: 'course',
+  level: 'level',
+  section: 'section',
+  module: 'module',
+  lesson: 'lesson',
+  exercise: 'exercise',
+  publication: 'publication',
+};
+
+const PUBLICATION_ACTIONS: Record<PublicationAction, string> = {
+  submitted: 'submit for review',
+  approved: 'approve',
+  rejected: 'reject',
+  rolled_back: 'roll back',
+  archived: 'archive',
+};
+
+const PUBLICATION_STATUSES: Record<PublicationStatus, string> = {
+  draft: 'in draft',
+  in_review: 'in review',
+  published: 'published',
+  archived: 'archived',
+};
+
+export const en: MessageCatalog = {
+  titles: {
+    bad_request: 'Bad request',
+    validation: 'Invalid data',
+    unauthorized: 'Not authenticated',
+    forbidden: 'Access denied',
+    not_found: 'Resource not found',
+    conflict: 'Conflict with the current state',
+    unavailable: 'Service unavailable',
+    internal: 'Internal server error',
+  },
+  errors: {
+    BAD_REQUEST: 'Malformed request',
+    PAYLOAD_TOO_LARGE: 'The request body is too large',
+    ROUTE_NOT_FOUND: ({ method, path }) => `Route ${method} ${path} not found`,
+    VALIDATION_ERROR: 'The request contains invalid data',
+    FIELD_REQUIRED: 'This field is required',
+    FIELD_INVALID: 'This field has an invalid value',
+    SERVICE_UNAVAILABLE: 'Service temporarily unavailable',
+    INTERNAL_ERROR: 'Internal server error',
+    EMAIL_INVALID: 'Invalid email address',
+    USERNAME_REQUIRED: 'The username cannot be empty',
+    USERNAME_TOO_SHORT: ({ min }) =>
+      `The username must be at least ${min} characters long`,
+    USERNAME_TOO_LONG: ({ max }) =>
+      `The username cannot be longer than ${max} characters`,
+    USERNAME_INVALID_CHARACTERS:
+      'The username can only contain letters, numbers, hyphens and underscores',
+    PASSWORD_REQUIRED: 'The password is required',
+    PASSWORD_LENGTH_INVALID: ({ min, max }) =>
+      `The password must be between ${min} and ${max} characters long`,
+    PASSWORD_UNSAFE:
+      'The password contains disallowed characters or unsafe patterns',
+    PASSWORD_TOO_WEAK: (params) =>
+      `The password must include: ${listParam(params, 'missing')
+        .map((requirement) =>
+          PASSWORD_REQUIREMENTS[requirement as PasswordRequirement]?.(
+            String(params.specialChars)
+          )
+        )
+        .join(', ')}`,
+    ROLE_INVALID: 'Invalid role',
+    COUNTRY_CODE_INVALID:
+      'Invalid country code. It must be a 2-letter ISO 3166-1 code',
+    USER_STATUS_INVALID: 'Invalid user status',
+    SLUG_INVALID: ({ max }) =>
+      `The slug can only contain lowercase letters, numbers and single hyphens, up to ${max} characters`,
+    POSITION_INVALID: 'The position must be an integer greater than 0',
+    CONTENT_TITLE_REQUIRED: 'The title cannot be empty',
+    CONTENT_TITLE_TOO_LONG: ({ max }) =>
+      `The title cannot be longer than ${max} characters`,
+    CONTENT_DESCRIPTION_TOO_LONG: ({ max }) =>
+      `The description cannot be longer than ${max} characters`,
+    LANGUAGE_CODE_INVALID:
+      'Invalid language code. It must be an ISO 639-1 code, optionally with a region (es, pt-BR)',
+    LANGUAGE_PAIR_INVALID:
+      'The source language and the language being learned must be different',
+    REVIEW_COMMENT_REQUIRED: 'The review comment cannot be empty',
+    REVIEW_COMMENT_TOO_LONG: ({ max }) =>
+      `The review comment cannot be longer than ${max} characters`,
+    USER_NOT_FOUND: 'User not found',
+    USER_FILTER_REQUIRED: (params) =>
+      `Provide at least one filter: ${listParam(params, 'filters').join(' or ')}`,
+    USER_EMAIL_TAKEN: 'A user with that email already exists',
+    USER_USERNAME_TAKEN: 'A user with that username already exists',
+    INVALID_SEARCH: 'The user search parameters are not valid',
+    INVALID_STATUS_TRANSITION: ({ from, to }) =>
+      `Status transition not allowed: ${from} → ${to}`,
+    INVALID_STATUS_CHANGE: 'The status change data is not valid',
+    LAST_ADMIN:
+      'The last active administrator cannot lose their role or be blocked',
+    SELF_MODERATION:
+      'Administrators cannot moderate their own account; another administrator must do it',
+    REPOSITORY_ERROR: 'Internal server error',
+    COURSE_SLUG_TAKEN: 'A course with that slug already exists',
+    COURSE_COLLABORATOR_INVALID:
+      'Only content creators can be added as collaborators',
+    CONTENT_NOT_FOUND: ({ kind }) =>
+      `The ${CONTENT_KINDS[kind as VersionedKind] ?? 'content'} was not found`,
+    CONTENT_ACCESS_DENIED: ({ kind }) =>
+      `You are not allowed to edit this ${CONTENT_KINDS[kind as VersionedKind] ?? 'content'}`,
+    CONTENT_VERSION_CONFLICT: ({ kind }) =>
+      `Someone else saved changes to this ${CONTENT_KINDS[kind as VersionedKind] ?? 'content'} since it was loaded: reload it and try again`,
+    CONTENT_PARENT_NOT_FOUND: ({ parentKind }) =>
+      `The ${CONTENT_KINDS[parentKind as ContentKind] ?? 'container'} this content belongs to does not exist`,
+    CONTENT_POSITION_TAKEN: ({ position }) =>
+      `Position ${position} is already taken in the same container`,
+    CONTENT_REORDER_INVALID:
+      'The new order must include every item of the container exactly once',
+    EXERCISE_PAYLOAD_INVALID: ({ field }) =>
+      `The exercise content is not valid: check ${field}`,
+    EXERCISE_NOT_FOUND: 'Exercise not found',
+    EXERCISE_ALREADY_IN_LESSON: 'The exercise is already in the lesson',
+    EXERCISE_ANSWER_TYPE_MISMATCH: ({ type }) =>
+      `The answer does not match an exercise of type ${type}`,
+    PUBLICATION_TRANSITION_INVALID: ({ action, status }) =>
+      `Cannot ${PUBLICATION_ACTIONS[action as PublicationAction] ?? action} a publication that is ${PUBLICATION_STATUSES[status as PublicationStatus] ?? status}`,
+    PUBLICATION_SNAPSHOT_NOT_FOUND: ({ number }) =>
+      `Published version ${number} does not exist`,
+    PUBLICATION_REVIEW_FORBIDDEN:
+      'Only an administrator can approve or reject a publication',
+    PUBLICATION_CONTENT_LIVE: ({ kind }) =>
+      `This ${CONTENT_KINDS[kind as VersionedKind] ?? 'content'} cannot be deleted while learners can see it: archive its published content first`,
+    INVALID_CREDENTIALS: 'Invalid credentials',
+    ACCOUNT_NOT_ACTIVE: ({ status }) =>
+      `The account cannot sign in in its current status: ${status}`,
+    INVALID_ACCESS_TOKEN: 'Missing, invalid or expired access token',
+    INVALID_REFRESH_TOKEN: 'Invalid or expired refresh token',
+    REFRESH_TOKEN_REUSED:
+      'A refresh token was reused; the session has been revoked',
+    INVALID_TOKEN: 'Invalid or expired verification token',
+    FORBIDDEN: 'You do not have permission for this operation',
+  },
+};
@@ -0,0 +1,165 @@
+// src/infrastructure/i18n/catalogs/es.ts
+
+import { PasswordRequirement } from '@/core/domain/value-objects/Password';
+import {
+  ContentKind,
+  VersionedKind,
+} from '@/core/domain/services/ContentHierarchy';
+import {
+  PublicationAction,
+  PublicationStatus,
+} from '@/core/domain/entities/Publication';
+import { MessageCatalog, listParam } from '../MessageCatalog';
+
+const PASSWORD_REQUIREMENTS: Record<
+  PasswordRequirement,
+  (specialChars: string) => string
+> = {
+  hasLowerCase: () => 'al menos una letra minúscula (a-z)',
+  hasUpperCase: () => 'al menos una letra mayúscula (A-Z)',
+  hasNumber: () => 'al menos un número (0-9)',
+  hasSpecialChar: (specialChars) =>
+    `al menos un carácter especial (${specialChars})`,
+};
+
+const CONTENT_KINDS: Record<VersionedKind, string> = {
+  course: 'el curso',
+  level: 'el nivel',
+  section: 'la sección',
+  module: 'el módulo',
+  lesson: 'la lección',
+  exercise: 'el ejercicio',
+  publication: 'la publicación',
+};
+
+const PUBLICATION_ACTIONS: Record<PublicationAction, string> = {
+  submitted: 'enviar a revisión',
+  approved: 'aprobar',
+  rejected: 'rechazar',
+  rolled_back: 'volver a una versión anterior de',
+  archived: 'archivar',
+};
+
+const PUBLICATION_STATUSES: Record<PublicationStatus, string> = {
+  draft: 'en borrador',
+  in_review: 'en revisión',
+  published: 'publicada',
+  archived: 'archivada',
+};
+
+export const es: MessageCatalog = {
+  titles: {
+    bad_request: 'Petición incorrecta',
+    validation: 'Datos inválidos',
+    unauthorized: 'No autenticado',
+    forbidden: 'Acceso denegado',
+    not_found: 'Recurso no encontrado',
+    conflict: 'Conflicto con el estado actual',
+    unavailable: 'Servicio no disponible',
+    internal: 'Error interno del servidor',
+  },
+  errors: {
+    BAD_REQUEST: 'Petición mal formada',
+    PAYLOAD_TOO_LARGE: 'El cuerpo de la petición es demasiado grande',
+    ROUTE_NOT_FOUND: ({ method, path }) =>
+      `No existe la ruta ${method} ${path}`,
+    VALIDATION_ERROR: 'La petición contiene datos inválidos',
+    FIELD_REQUIRED: 'El campo es obligatorio',
+    FIELD_INVALID: 'El valor del campo no es válido',
+    SERVICE_UNAVAILABLE: 'Servicio no disponible temporalmente',
+    INTERNAL_ERROR: 'Error interno del servidor',
+    EMAIL_INVALID: 'Email inválido',
+    USERNAME_REQUIRED: 'El nombre de usuario no puede estar vacío',
+    USERNAME_TOO_SHORT: ({ min }) =>
+      `El nombre de usuario debe tener al menos ${min} caracteres`,
+    USERNAME_TOO_LONG: ({ max }) =>
+      `El nombre de usuario no puede exceder los ${max} caracteres`,
+    USERNAME_INVALID_CHARACTERS:
+      'El nombre de usuario solo puede contener letras, números, guiones y guiones bajos',
+    PASSWORD_REQUIRED: 'La contraseña es obligatoria',
+    PASSWORD_LENGTH_INVALID: ({ min, max }) =>
+      `La contraseña debe tener entre ${min} y ${max} caracteres`,
+    PASSWORD_UNSAFE:
+      'La contraseña contiene caracteres no permitidos o patrones de seguridad peligrosos',
+    PASSWORD_TOO_WEAK: (params) =>
+      `La contraseña debe incluir: ${listParam(params, 'missing')
+        .map((requirement) =>
+          PASSWORD_REQUIREMENTS[requirement as PasswordRequirement]?.(
+            String(params.specialChars)
+          )
+        )
+        .join(', ')}`,
+    ROLE_INVALID: 'Rol inválido',
+    COUNTRY_CODE_INVALID:
+      'Código de país inválido. Debe ser un código ISO 3166-1 de 2 letras',
+    USER_STATUS_INVALID: 'Estado de usuario inválido',
+    SLUG_INVALID: ({ max }) =>
+      `El slug solo puede contener minúsculas, números y guiones simples, con un máximo de ${max} caracteres`,
+    POSITION_INVALID: 'La posición debe ser un número entero mayor que 0',
+    CONTENT_TITLE_REQUIRED: 'El título no puede estar vacío',
+    CONTENT_TITLE_TOO_LONG: ({ max }) =>
+      `El título no puede exceder los ${max} caracteres`,
+    CONTENT_DESCRIPTION_TOO_LONG: ({ max }) =>
+      `La descripción no puede exceder los ${max} caracteres`,
+    LANGUAGE_CODE_INVALID:
+      'Código de idioma inválido. Debe ser un código ISO 639-1, opcionalmente con región (es, pt-BR)',
+    LANGUAGE_PAIR_INVALID:
+      'El idioma de origen y el idioma que se aprende deben ser distintos',
+    REVIEW_COMMENT_REQUIRED:
+      'El comentario de la revisión no puede estar vacío',
+    REVIEW_COMMENT_TOO_LONG: ({ max }) =>
+      `El comentario de la revisión no puede exceder los ${max} caracteres`,
+    USER_NOT_FOUND: 'Usuario no encontrado',
+    USER_FILTER_REQUIRED: (params) =>
+      `Indica al menos un filtro: ${listParam(params, 'filters').join(' o ')}`,
+    USER_EMAIL_TAKEN: 'Ya existe un usuario con ese email',
+    USER_USERNAME_TAKEN: 'Ya existe un usuario con ese nombre de usuario',
+    INVALID_SEARCH: 'Los parámetros de búsqueda de usuarios no son válidos',
+    INVALID_STATUS_TRANSITION: ({ from, to }) =>
+      `Transición de estado no permitida: ${from} → ${to}`,
+    INVALID_STATUS_CHANGE: 'Los datos del cambio de estado no son válidos',
+    LAST_ADMIN:
+      'No se puede quitar el rol ni bloquear al último administrador activo',
+    SELF_MODERATION:
+      'Un administrador no puede moderar su propia cuenta; debe hacerlo otro administrador',
+    REPOSITORY_ERROR: 'Error interno del servidor',
+    COURSE_SLUG_TAKEN: 'Ya existe un curso con ese slug',
+    COURSE_COLLABORATOR_INVALID:
+      'Solo se pueden añadir como colaboradores creadores de contenido',
+    CONTENT_NOT_FOUND: ({ kind }) =>
+      `No existe ${CONTENT_KINDS[kind as VersionedKind] ?? 'el contenido'}`,
+    CONTENT_ACCESS_DENIED: ({ kind }) =>
+      `No tienes permiso para editar ${CONTENT_KINDS[kind as VersionedKind] ?? 'el contenido'}`,
+    CONTENT_VERSION_CONFLICT: ({ kind }) =>
+      `Otra persona ha guardado cambios en ${CONTENT_KINDS[kind as VersionedKind] ?? 'el contenido'} desde que se cargó: recarga los datos y repite el cambio`,
+    CONTENT_PARENT_NOT_FOUND: ({ parentKind }) =>
+      `No existe ${CONTENT_KINDS[parentKind as ContentKind] ?? 'el contenedor'} al que pertenece el contenido`,
+    CONTENT_POSITION_TAKEN: ({ position }) =>
+      `La posición ${position} ya está ocupada dentro del mismo contenedor`,
+    CONTENT_REORDER_INVALID:
+      'El nuevo orden debe incluir una sola vez cada elemento del contenedor',
+    EXERCISE_PAYLOAD_INVALID: ({ field }) =>
+      `El contenido del ejercicio no es válido: revisa ${field}`,
+    EXERCISE_NOT_FOUND: 'Ejercicio no encontrado',
+    EXERCISE_ALREADY_IN_LESSON: 'El ejercicio ya está en la lección',
+    EXERCISE_ANSWER_TYPE_MISMATCH: ({ type }) =>
+      `La respuesta no corresponde a un ejercicio de tipo ${type}`,
+    PUBLICATION_TRANSITION_INVALID: ({ action, status }) =>
+      `No se puede ${PUBLICATION_ACTIONS[action as PublicationAction] ?? action} una publicación ${PUBLICATION_STATUSES[status as PublicationStatus] ?? status}`,
+    PUBLICATION_SNAPSHOT_NOT_FOUND: ({ number }) =>
+      `No existe la versión publicada ${number}`,
+    PUBLICATION_REVIEW_FORBIDDEN:
+      'Solo un administrador puede aprobar o rechazar una publicación',
+    PUBLICATION_CONTENT_LIVE: ({ kind }) =>
+      `No se puede borrar ${CONTENT_KINDS[kind as VersionedKind] ?? 'el contenido'} mientras los alumnos lo ven: archiva antes lo que tiene publicado`,
+    INVALID_CREDENTIALS: 'Credenciales inválidas',
+    ACCOUNT_NOT_ACTIVE: ({ status }) =>
+      `La cuenta no puede iniciar sesión en su estado actual: ${status}`,
+    INVALID_ACCESS_TOKEN: 'Access token ausente, inválido o expirado',
+    INVALID_REFRESH_TOKEN: 'Refresh token inválido o expirado',
+    REFRESH_TOKEN_REUSED:
+      'Se detectó la reutilización de un refresh token; la sesión fue revocada',
+    INVALID_TOKEN: 'Token de verificación inválido o expirado',
+    FORBIDDEN: 'No tienes permisos para esta operación',
+  },
+};
@@ -0,0 +1,164 @@
+// src/infrastructure/i18n/catalogs/pt.ts
+
+import { PasswordRequirement } from '@/core/domain/value-objects/Password';
+import {
+  ContentKind,
+  VersionedKind,
+} from '@/core/domain/services/ContentHierarchy';
+import {
+  PublicationAction,
+  PublicationStatus,
+} from '@/core/domain/entities/Publication';
+import { MessageCatalog, listParam } from '../MessageCatalog';
+
+const PASSWORD_REQUIREMENTS: Record<
+  PasswordRequirement,
+  (specialChars: string) => string
+> = {
+  hasLowerCase: () => 'pelo menos uma letra minúscula (a-z)',
+  hasUpperCase: () => 'pelo menos uma letra maiúscula (A-Z)',
+  hasNumber: () => 'pelo menos um número (0-9)',
+  hasSpecialChar: (specialChars) =>
+    `pelo menos um caractere especial (${specialChars})`,
+};
+
+const CONTENT_KINDS: Record<VersionedKind, string> = {
+  course: 'o curso',
+  level: 'o nível',
+  section: 'a seção',
+  module: 'o módulo',
+  lesson: 'a lição',
+  exercise: 'o exercício',
+  publication: 'a publicação',
+};
+
+const PUBLICATION_ACTIONS: Record<PublicationAction, string> = {
+  submitted: 'enviar para revisão',
+  approved: 'aprovar',
+  rejected: 'rejeitar',
+  rolled_back: 'voltar a uma versão anterior de',
+  archived: 'arquivar',
+};
+
+const PUBLICATION_STATUSES: Record<PublicationStatus, string> = {
+  draft: 'em rascunho',
+  in_review: 'em revisão',
+  published: 'publicada',
+  archived: 'arquivada',
+};
+
+export const pt: MessageCatalog = {
+  titles: {
+    bad_request: 'Requisição incorreta',
+    validation: 'Dados inválidos',
+    unauthorized: 'Não autenticado',
+    forbidden: 'Acesso negado',
+    not_found: 'Recurso não encontrado',
+    conflict: 'Conflito com o estado atual',
+    unavailable: 'Serviço indisponível',
+    internal: 'Erro interno do servidor',
+  },
+  errors: {
+    BAD_REQUEST: 'Requisição malformada',
+    PAYLOAD_TOO_LARGE: 'O corpo da requisição é grande demais',
+    ROUTE_NOT_FOUND: ({ method, path }) =>
+      `A rota ${method} ${path} não existe`,
+    VALIDATION_ERROR: 'A requisição contém dados inválidos',
+    FIELD_REQUIRED: 'O campo é obrigatório',
+    FIELD_INVALID: 'O valor do campo não é válido',
+    SERVICE_UNAVAILABLE: 'Serviço temporariamente indisponível',
+    INTERNAL_ERROR: 'Erro interno do servidor',
+    EMAIL_INVALID: 'E-mail inválido',
+    USERNAME_REQUIRED: 'O nome de usuário não pode estar vazio',
+    USERNAME_TOO_SHORT: ({ min }) =>
+      `O nome de usuário deve ter pelo menos ${min} caracteres`,
+    USERNAME_TOO_LONG: ({ max }) =>
+      `O nome de usuário não pode ter mais de ${max} caracteres`,
+    USERNAME_INVALID_CHARACTERS:
+      'O nome de usuário só pode conter letras, números, hífens e sublinhados',
+    PASSWORD_REQUIRED: 'A senha é obrigatória',
+    PASSWORD_LENGTH_INVALID: ({ min, max }) =>
+      `A senha deve ter entre ${min} e ${max} caracteres`,
+    PASSWORD_UNSAFE:
+      'A senha contém caracteres não permitidos ou padrões inseguros',
+    PASSWORD_TOO_WEAK: (params) =>
+      `A senha deve incluir: ${listParam(params, 'missing')
+        .map((requirement) =>
+          PASSWORD_REQUIREMENTS[requirement as PasswordRequirement]?.(
+            String(params.specialChars)
+          )
+        )
+        .join(', ')}`,
+    ROLE_INVALID: 'Papel inválido',
+    COUNTRY_CODE_INVALID:
+      'Código de país inválido. Deve ser um código ISO 3166-1 de 2 letras',
+    USER_STATUS_INVALID: 'Status de usuário inválido',
+    SLUG_INVALID: ({ max }) =>
+      `O slug só pode conter letras minúsculas, números e hífens simples, com no máximo ${max} caracteres`,
+    POSITION_INVALID: 'A posição deve ser um número inteiro maior que 0',
+    CONTENT_TITLE_REQUIRED: 'O título não pode estar vazio',
+    CONTENT_TITLE_TOO_LONG: ({ max }) =>
+      `O título não pode ter mais de ${max} caracteres`,
+    CONTENT_DESCRIPTION_TOO_LONG: ({ max }) =>
+      `A descrição não pode ter mais de ${max} caracteres`,
+    LANGUAGE_CODE_INVALID:
+      'Código de idioma inválido. Deve ser um código ISO 639-1, opcionalmente com região (es, pt-BR)',
+    LANGUAGE_PAIR_INVALID:
+      'O idioma de origem e o idioma estudado devem ser diferentes',
+    REVIEW_COMMENT_REQUIRED: 'O comentário da revisão não pode estar vazio',
+    REVIEW_COMMENT_TOO_LONG: ({ max }) =>
+      `O comentário da revisão não pode ter mais de ${max} caracteres`,
+    USER_NOT_FOUND: 'Usuário não encontrado',
+    USER_FILTER_REQUIRED: (params) =>
+      `Informe pelo menos um filtro: ${listParam(params, 'filters').join(' ou ')}`,
+    USER_EMAIL_TAKEN: 'Já existe um usuário com esse e-mail',
+    USER_USERNAME_TAKEN: 'Já existe um usuário com esse nome de usuário',
+    INVALID_SEARCH: 'Os parâmetros de busca de usuários não são válidos',
+    INVALID_STATUS_TRANSITION: ({ from, to }) =>
+      `Transição de status não permitida: ${from} → ${to}`,
+    INVALID_STATUS_CHANGE: 'Os dados da mudança de status não são válidos',
+    LAST_ADMIN:
+      'Não é possível remover o papel nem bloquear o último administrador ativo',
+    SELF_MODERATION:
+      'Um administrador não pode moderar a própria conta; outro administrador deve fazê-lo',
+    REPOSITORY_ERROR: 'Erro interno do servidor',
+    COURSE_SLUG_TAKEN: 'Já existe um curso com esse slug',
+    COURSE_COLLABORATOR_INVALID:
+      'Somente criadores de conteúdo podem ser adicionados como colaboradores',
+    CONTENT_NOT_FOUND: ({ kind }) =>
+      `Não existe ${CONTENT_KINDS[kind as VersionedKind] ?? 'o conteúdo'}`,
+    CONTENT_ACCESS_DENIED: ({ kind }) =>
+      `Você não tem permissão para editar ${CONTENT_KINDS[kind as VersionedKind] ?? 'o conteúdo'}`,
+    CONTENT_VERSION_CONFLICT: ({ kind }) =>
+      `Outra pessoa salvou alterações (${CONTENT_KINDS[kind as VersionedKind] ?? 'o conteúdo'}) desde a última leitura: recarregue os dados e tente novamente`,
+    CONTENT_PARENT_NOT_FOUND: ({ parentKind }) =>
+      `Não existe ${CONTENT_KINDS[parentKind as ContentKind] ?? 'o contêiner'} ao qual o conteúdo pertence`,
+    CONTENT_POSITION_TAKEN: ({ position }) =>
+      `A posição ${position} já está ocupada no mesmo contêiner`,
+    CONTENT_REORDER_INVALID:
+      'A nova ordem deve incluir cada item do contêiner exatamente uma vez',
+    EXERCISE_PAYLOAD_INVALID: ({ field }) =>
+      `O conteúdo do exercício não é válido: verifique ${field}`,
+    EXERCISE_NOT_FOUND: 'Exercício não encontrado',
+    EXERCISE_ALREADY_IN_LESSON: 'O exercício já está na lição',
+    EXERCISE_ANSWER_TYPE_MISMATCH: ({ type }) =>
+      `A resposta não corresponde a um exercício do tipo ${type}`,
+    PUBLICATION_TRANSITION_INVALID: ({ action, status }) =>
+      `Não é possível ${PUBLICATION_ACTIONS[action as PublicationAction] ?? action} uma publicação ${PUBLICATION_STATUSES[status as PublicationStatus] ?? status}`,
+    PUBLICATION_SNAPSHOT_NOT_FOUND: ({ number }) =>
+      `A versão publicada ${number} não existe`,
+    PUBLICATION_REVIEW_FORBIDDEN:
+      'Somente um administrador pode aprovar ou rejeitar uma publicação',
+    PUBLICATION_CONTENT_LIVE: ({ kind }) =>
+      `Não é possível excluir ${CONTENT_KINDS[kind as VersionedKind] ?? 'o conteúdo'} enquanto os alunos o veem: arquive antes o que foi publicado`,
+    INVALID_CREDENTIALS: 'Credenciais inválidas',
+    ACCOUNT_NOT_ACTIVE: ({ status }) =>
+      `A conta não pode entrar no status atual: ${status}`,
+    INVALID_ACCESS_TOKEN: 'Access token ausente, inválido ou expirado',
+    INVALID_REFRESH_TOKEN: 'Refresh token inválido ou expirado',
+    REFRESH_TOKEN_REUSED:
+      'Foi detectada a reutilização de um refresh token; a sessão foi revogada',
+    INVALID_TOKEN: 'Token de verificação inválido ou expirado',
+    FORBIDDEN: 'Você não tem permissão para esta operação',
+  },
+};
@@ -0,0 +1,36 @@
+// src/infrastructure/i18n/translate.ts
+
+import {
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+import { MessageCatalog } from './MessageCatalog';
+import { Locale } from './Locale';
+import { es } from './catalogs/es';
+import { en } from './catalogs/en';
+import { pt } from './catalogs/pt';
+
+const CATALOGS: Record<Locale, MessageCatalog> = { es, en, pt };
+
+/**
+ * Redacta el mensaje de un código de error en `locale`
+ */
+export function translateError(
+  locale: Locale,
+  code: ErrorCode,
+  params: ErrorParams = {}
+): string {
+  const template = CATALOGS[locale].errors[code];
+  return typeof template === 'function' ? template(params) : template;
+}
+
+/**
+ * Título de una categoría de error en `locale`
+ */
+export function translateTitle(
+  locale: Locale,
+  category: ErrorCategory
+): string {
+  return CATALOGS[locale].titles[category];
+}
@@ -0,0 +1,67 @@
+// src/infrastructure/jobs/OutboxDispatcherJob.ts
+
+import { DispatchDomainEventsUseCase } from '@/core/use-cases/events/DispatchDomainEventsUseCase';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Job periódico que entrega los eventos pendientes del outbox.
+ *
+ * Sigue el mismo esquema que SuspensionExpiryJob: setInterval propio, sin
+ * solapar ejecuciones y con el timer marcado con unref().
+ */
+export class OutboxDispatcherJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly dispatchDomainEvents: DispatchDomainEventsUseCase,
+    private readonly intervalMs: number,
+    logger: ILogger = defaultLogger
+  ) {
+    this.logger = logger.child({ component: 'OutboxDispatcherJob' });
+  }
+
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Ejecuta una pasada; nunca lanza para no tumbar el proceso desde el timer
+  async runOnce(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const { delivered, retried, deadLettered } =
+        await this.dispatchDomainEvents.execute(now);
+      if (delivered > 0 || retried > 0 || deadLettered > 0) {
+        this.logger.info('Eventos del outbox procesados', {
+          delivered,
+          retried,
+          deadLettered,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Fallo al entregar eventos del outbox', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+}
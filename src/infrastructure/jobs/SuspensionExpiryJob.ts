@@ -0,0 +1,66 @@
+// src/infrastructure/jobs/SuspensionExpiryJob.ts
+
+import { LiftExpiredSuspensionsUseCase } from '@/core/use-cases/users/LiftExpiredSuspensionsUseCase';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+
+/**
+ * Job periódico que levanta las suspensiones expiradas.
+ *
+ * Usa un setInterval propio (sin dependencias de cron) y nunca solapa dos
+ * ejecuciones: si la anterior sigue en marcha, el tick se salta. El timer se
+ * marca con unref() para no impedir que el proceso termine.
+ */
+export class SuspensionExpiryJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private readonly logger: ILogger;
+
+  constructor(
+    private readonly liftExpiredSuspensions: LiftExpiredSuspensionsUseCase,
+    private readonly intervalMs: number,
+    logger: ILogger = defaultLogger
+  ) {
+    this.logger = logger.child({ component: 'SuspensionExpiryJob' });
+  }
+
+  start(): void {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Ejecuta una pasada; nunca lanza para no tumbar el proceso desde el timer
+  async runOnce(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const { lifted, failed } = await this.liftExpiredSuspensions.execute(now);
+      if (lifted > 0 || failed > 0) {
+        this.logger.info('Suspensiones expiradas procesadas', {
+          lifted,
+          failed,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Fallo al levantar suspensiones expiradas', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+}
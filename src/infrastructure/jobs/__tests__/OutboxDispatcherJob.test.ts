@@ -0,0 +1,81 @@
+// src/infrastructure/jobs/__tests__/OutboxDispatcherJob.test.ts
+
+import { OutboxDispatcherJob } from '@/infrastructure/jobs/OutboxDispatcherJob';
+import { DispatchDomainEventsUseCase } from '@/core/use-cases/events/DispatchDomainEventsUseCase';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+describe('OutboxDispatcherJob', () => {
+  let useCase: jest.Mocked<DispatchDomainEventsUseCase>;
+  let logger: jest.Mocked<ILogger>;
+  let job: OutboxDispatcherJob;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    useCase = {
+      execute: jest
+        .fn()
+        .mockResolvedValue({ delivered: 0, retried: 0, deadLettered: 0 }),
+    } as unknown as jest.Mocked<DispatchDomainEventsUseCase>;
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+    job = new OutboxDispatcherJob(useCase, 1000, logger);
+  });
+
+  afterEach(() => {
+    job.stop();
+    jest.useRealTimers();
+  });
+
+  it('debería entregar eventos en cada intervalo hasta que se detenga', async () => {
+    job.start();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(useCase.execute).toHaveBeenCalledTimes(3);
+
+    job.stop();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(useCase.execute).toHaveBeenCalledTimes(3);
+  });
+
+  it('no debería arrancar con un intervalo de 0', async () => {
+    job = new OutboxDispatcherJob(useCase, 0, logger);
+
+    job.start();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(useCase.execute).not.toHaveBeenCalled();
+  });
+
+  it('no debería solapar ejecuciones', async () => {
+    let finish!: () => void;
+    useCase.execute.mockReturnValueOnce(
+      new Promise((resolve) => {
+        finish = () => resolve({ delivered: 2, retried: 1, deadLettered: 0 });
+      })
+    );
+
+    const first = job.runOnce();
+    await job.runOnce();
+    finish();
+    await first;
+
+    expect(useCase.execute).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledWith('Eventos del outbox procesados', {
+      delivered: 2,
+      retried: 1,
+      deadLettered: 0,
+    });
+  });
+
+  it('debería registrar los errores sin propagarlos', async () => {
+    useCase.execute.mockRejectedValueOnce(new Error('BD caída'));
+
+    await expect(job.runOnce()).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+});
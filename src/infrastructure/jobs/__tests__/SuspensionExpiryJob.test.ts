@@ -0,0 +1,78 @@
+// src/infrastructure/jobs/__tests__/SuspensionExpiryJob.test.ts
+
+import { SuspensionExpiryJob } from '@/infrastructure/jobs/SuspensionExpiryJob';
+import { LiftExpiredSuspensionsUseCase } from '@/core/use-cases/users/LiftExpiredSuspensionsUseCase';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+
+describe('SuspensionExpiryJob', () => {
+  let useCase: jest.Mocked<LiftExpiredSuspensionsUseCase>;
+  let logger: jest.Mocked<ILogger>;
+  let job: SuspensionExpiryJob;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    useCase = {
+      execute: jest.fn().mockResolvedValue({ lifted: 0, failed: 0 }),
+    } as unknown as jest.Mocked<LiftExpiredSuspensionsUseCase>;
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+    job = new SuspensionExpiryJob(useCase, 1000, logger);
+  });
+
+  afterEach(() => {
+    job.stop();
+    jest.useRealTimers();
+  });
+
+  it('debería ejecutar el caso de uso en cada intervalo hasta que se detenga', async () => {
+    job.start();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(useCase.execute).toHaveBeenCalledTimes(3);
+
+    job.stop();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(useCase.execute).toHaveBeenCalledTimes(3);
+  });
+
+  it('no debería arrancar con un intervalo de 0', async () => {
+    job = new SuspensionExpiryJob(useCase, 0, logger);
+
+    job.start();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(useCase.execute).not.toHaveBeenCalled();
+  });
+
+  it('no debería solapar ejecuciones', async () => {
+    let finish!: () => void;
+    useCase.execute.mockReturnValueOnce(
+      new Promise((resolve) => {
+        finish = () => resolve({ lifted: 1, failed: 0 });
+      })
+    );
+
+    const first = job.runOnce();
+    await job.runOnce();
+    finish();
+    await first;
+
+    expect(useCase.execute).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledWith(
+      'Suspensiones expiradas procesadas',
+      { lifted: 1, failed: 0 }
+    );
+  });
+
+  it('debería registrar los errores sin propagarlos', async () => {
+    useCase.execute.mockRejectedValueOnce(new Error('BD caída'));
+
+    await expect(job.runOnce()).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,150 @@
+// src/infrastructure/logging/JsonLogger.ts
+
+import {
+  ILogger,
+  LogFields,
+  LogLevel,
+} from '@/core/interfaces/services/ILogger';
+import { getRequestContext } from './RequestContext';
+
+export interface JsonLoggerOptions {
+  level?: LogLevel; // Nivel mínimo que se escribe ('info' por defecto)
+  write?: (line: string) => void; // Destino de cada línea (stdout por defecto)
+  now?: () => Date;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+
+// Claves cuyo valor nunca se escribe: contraseñas, hashes, tokens y secretos
+const SECRET_KEY_PATTERN = /password|hash|token|secret|authorization|cookie/i;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const BCRYPT_HASH_PATTERN = /\$2[aby]?\$\d{2}\$[./A-Za-z0-9]{53}/g;
+
+// Límite de anidamiento al serializar campos (evita objetos enormes)
+const MAX_DEPTH = 5;
+
+/**
+ * Implementación de ILogger que escribe una línea JSON por entrada.
+ *
+ * Cada línea lleva `time`, `level`, `msg`, el `correlationId` de la petición
+ * en curso (si lo hay, ver RequestContext), los campos del logger padre y
+ * los de la llamada. Antes de escribir se filtran los datos personales: los
+ * campos con nombre de secreto se sustituyen por [REDACTED], los emails de
+ * cualquier texto se enmascaran (***@dominio) y los hashes bcrypt se borran.
+ */
+export class JsonLogger implements ILogger {
+  private readonly threshold: number;
+  private readonly write: (line: string) => void;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly options: JsonLoggerOptions = {},
+    private readonly bindings: LogFields = {}
+  ) {
+    this.threshold = LEVEL_PRIORITY[options.level ?? 'info'];
+    this.write =
+      options.write ?? ((line) => void process.stdout.write(`${line}\n`));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): ILogger {
+    return new JsonLogger(this.options, { ...this.bindings, ...fields });
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_PRIORITY[level] < this.threshold) {
+      return;
+    }
+
+    const entry = {
+      time: this.now().toISOString(),
+      level,
+      msg: redactText(message),
+      correlationId: getRequestContext()?.correlationId,
+      ...(redact({ ...this.bindings, ...fields }, 0, new WeakSet()) as object),
+    };
+    this.write(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Logger por defecto de los adaptadores construidos sin logger explícito
+ * (tests, scripts). La aplicación inyecta el del contenedor
+ */
+export const defaultLogger: ILogger = new JsonLogger();
+
+function redactText(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, (_email, domain: string) => `***@${domain}`)
+    .replace(BCRYPT_HASH_PATTERN, REDACTED);
+}
+
+function redact(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const { code, cause } = value as Error & { code?: unknown };
+    return redact(
+      {
+        name: value.name,
+        message: value.message,
+        code,
+        stack: value.stack,
+        cause,
+      },
+      depth,
+      seen
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && field != null
+        ? REDACTED
+        : redact(field, depth + 1, seen),
+    ])
+  );
+}
@@ -0,0 +1,32 @@
+// src/infrastructure/logging/RequestContext.ts
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Datos de la petición en curso que necesitan las capas que no reciben la
+ * petición (repositorios, servicios...)
+ */
+export interface RequestContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Ejecuta `fn` con `context` como contexto de la petición. Todo el código
+ * asíncrono que se origine dentro de `fn` lo hereda
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T
+): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Devuelve el contexto de la petición en curso, o undefined fuera de una
+ * petición (jobs, arranque)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,128 @@
+// src/infrastructure/logging/__tests__/JsonLogger.test.ts
+
+import { JsonLogger } from '@/infrastructure/logging/JsonLogger';
+import { runWithRequestContext } from '@/infrastructure/logging/RequestContext';
+import { LogLevel } from '@/core/interfaces/services/ILogger';
+
+const NOW = new Date('2025-01-01T00:00:00Z');
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+describe('JsonLogger', () => {
+  let lines: string[];
+
+  const createLogger = (level?: LogLevel) =>
+    new JsonLogger({
+      level,
+      write: (line) => lines.push(line),
+      now: () => NOW,
+    });
+
+  const entries = () =>
+    lines.map((line) => JSON.parse(line) as Record<string, unknown>);
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('debería escribir una línea JSON con nivel, mensaje y campos', () => {
+    createLogger().info('Usuario creado', { userId: 'user-1', durationMs: 12 });
+
+    expect(lines).toHaveLength(1);
+    expect(entries()[0]).toEqual({
+      time: NOW.toISOString(),
+      level: 'info',
+      msg: 'Usuario creado',
+      userId: 'user-1',
+      durationMs: 12,
+    });
+  });
+
+  it('debería descartar las entradas por debajo del nivel configurado', () => {
+    const logger = createLogger('warn');
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(entries().map((entry) => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('debería añadir los campos del logger padre en los hijos', () => {
+    const child = createLogger().child({ component: 'UserRepository' });
+
+    child.child({ operation: 'create' }).info('Hecho', { userId: 'user-1' });
+
+    expect(entries()[0]).toMatchObject({
+      component: 'UserRepository',
+      operation: 'create',
+      userId: 'user-1',
+    });
+  });
+
+  it('debería incluir el correlation id de la petición en curso', async () => {
+    const logger = createLogger();
+
+    await runWithRequestContext({ correlationId: 'req-123' }, async () => {
+      await Promise.resolve();
+      logger.info('Dentro de la petición');
+    });
+    logger.info('Fuera de la petición');
+
+    expect(entries()[0].correlationId).toBe('req-123');
+    expect(entries()[1]).not.toHaveProperty('correlationId');
+  });
+
+  it('debería enmascarar los emails en el mensaje y en los campos', () => {
+    createLogger().info('Registro de new.user@example.com', {
+      email: 'new.user@example.com',
+      nested: { to: ['Other@Mail.org'] },
+    });
+
+    const entry = entries()[0];
+    expect(entry.msg).toBe('Registro de ***@example.com');
+    expect(entry.email).toBe('***@example.com');
+    expect(entry.nested).toEqual({ to: ['***@Mail.org'] });
+    expect(lines[0]).not.toContain('new.user');
+  });
+
+  it('debería ocultar contraseñas, hashes y tokens', () => {
+    createLogger().info('Datos sensibles', {
+      password: 'SecurePass123!',
+      passwordHash: HASH,
+      refreshToken: 'refresh-token-value',
+      detail: `hash guardado: ${HASH}`,
+    });
+
+    expect(entries()[0]).toMatchObject({
+      password: '[REDACTED]',
+      passwordHash: '[REDACTED]',
+      refreshToken: '[REDACTED]',
+      detail: 'hash guardado: [REDACTED]',
+    });
+  });
+
+  it('debería serializar los errores sin datos personales', () => {
+    const cause = new Error('Duplicado: taken@example.com');
+    const error = new Error('Fallo al crear', { cause });
+
+    createLogger().error('Fallo', { error });
+
+    const logged = entries()[0].error as Record<string, unknown>;
+    expect(logged).toMatchObject({
+      name: 'Error',
+      message: 'Fallo al crear',
+      cause: { message: 'Duplicado: ***@example.com' },
+    });
+    expect(logged.stack).toEqual(expect.any(String));
+  });
+
+  it('debería tolerar referencias circulares', () => {
+    const circular: Record<string, unknown> = { name: 'a' };
+    circular.self = circular;
+
+    createLogger().info('Circular', { circular });
+
+    expect(entries()[0].circular).toEqual({ name: 'a', self: '[Truncated]' });
+  });
+});
@@ -0,0 +1,117 @@
+// src/infrastructure/services/JwtTokenService.ts
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  AccessTokenClaims,
+  AccessTokenPayload,
+  ITokenService,
+} from '@/core/interfaces/services/ITokenService';
+
+/**
+ * Implementación de ITokenService con JSON Web Tokens firmados con HS256.
+ *
+ * Se apoya únicamente en el módulo `crypto` de Node: el formato JWT es simple
+ * y así evitamos una dependencia más para firmar y verificar un solo algoritmo.
+ */
+export class JwtTokenService implements ITokenService {
+  private static readonly HEADER = JwtTokenService.encode({
+    alg: 'HS256',
+    typ: 'JWT',
+  });
+  private static readonly MIN_SECRET_LENGTH = 32;
+
+  constructor(
+    private readonly secret: string,
+    private readonly accessTokenTtlSeconds: number = 900,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    if (!secret || secret.length < JwtTokenService.MIN_SECRET_LENGTH) {
+      throw new Error(
+        `El secreto JWT debe tener al menos ${JwtTokenService.MIN_SECRET_LENGTH} caracteres`
+      );
+    }
+    if (
+      !Number.isInteger(accessTokenTtlSeconds) ||
+      accessTokenTtlSeconds <= 0
+    ) {
+      throw new Error('La duración del access token debe ser positiva');
+    }
+  }
+
+  signAccessToken(payload: AccessTokenPayload): {
+    token: string;
+    expiresAt: Date;
+  } {
+    const issuedAt = Math.floor(this.now().getTime() / 1000);
+    const claims: AccessTokenClaims = {
+      sub: payload.sub,
+      role: payload.role,
+      iat: issuedAt,
+      exp: issuedAt + this.accessTokenTtlSeconds,
+    };
+
+    const unsigned = `${JwtTokenService.HEADER}.${JwtTokenService.encode(claims)}`;
+    return {
+      token: `${unsigned}.${this.sign(unsigned)}`,
+      expiresAt: new Date(claims.exp * 1000),
+    };
+  }
+
+  verifyAccessToken(token: string): AccessTokenClaims | null {
+    if (!token || typeof token !== 'string') {
+      return null;
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const [header, payload, signature] = parts;
+
+    // Solo aceptamos nuestra cabecera exacta: evita ataques de cambio de algoritmo
+    if (header !== JwtTokenService.HEADER) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return null;
+    }
+
+    let claims: AccessTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.role !== 'string' ||
+      typeof claims.iat !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return null;
+    }
+
+    const nowSeconds = Math.floor(this.now().getTime() / 1000);
+    if (claims.exp <= nowSeconds) {
+      return null;
+    }
+
+    return claims;
+  }
+
+  private sign(data: string): string {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  private static encode(value: object): string {
+    return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+  }
+}
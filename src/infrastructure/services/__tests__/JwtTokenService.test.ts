@@ -0,0 +1,103 @@
+// src/infrastructure/services/__tests__/JwtTokenService.test.ts
+
+import { createHmac } from 'crypto';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+describe('JwtTokenService', () => {
+  describe('constructor', () => {
+    it('debería rechazar secretos demasiado cortos', () => {
+      expect(() => new JwtTokenService('corto')).toThrow(
+        'El secreto JWT debe tener al menos 32 caracteres'
+      );
+    });
+
+    it('debería rechazar una duración no positiva', () => {
+      expect(() => new JwtTokenService(SECRET, 0)).toThrow(
+        'La duración del access token debe ser positiva'
+      );
+    });
+  });
+
+  describe('signAccessToken / verifyAccessToken', () => {
+    it('debería firmar un token verificable con sus claims', () => {
+      const now = new Date('2025-01-01T00:00:00Z');
+      const service = new JwtTokenService(SECRET, 900, () => now);
+
+      const { token, expiresAt } = service.signAccessToken({
+        sub: 'user-1',
+        role: 'student',
+      });
+
+      expect(token.split('.')).toHaveLength(3);
+      expect(expiresAt).toEqual(new Date('2025-01-01T00:15:00Z'));
+
+      const claims = service.verifyAccessToken(token);
+      expect(claims).toEqual({
+        sub: 'user-1',
+        role: 'student',
+        iat: now.getTime() / 1000,
+        exp: now.getTime() / 1000 + 900,
+      });
+    });
+
+    it('debería rechazar un token expirado', () => {
+      let now = new Date('2025-01-01T00:00:00Z');
+      const service = new JwtTokenService(SECRET, 60, () => now);
+      const { token } = service.signAccessToken({ sub: 'u', role: 'admin' });
+
+      now = new Date('2025-01-01T00:01:00Z');
+
+      expect(service.verifyAccessToken(token)).toBeNull();
+    });
+
+    it('debería rechazar un token firmado con otro secreto', () => {
+      const service = new JwtTokenService(SECRET);
+      const other = new JwtTokenService(
+        'another-secret-with-32-characters-ok!'
+      );
+      const { token } = other.signAccessToken({ sub: 'u', role: 'admin' });
+
+      expect(service.verifyAccessToken(token)).toBeNull();
+    });
+
+    it('debería rechazar un token con el payload manipulado', () => {
+      const service = new JwtTokenService(SECRET);
+      const { token } = service.signAccessToken({ sub: 'u', role: 'student' });
+      const [header, , signature] = token.split('.');
+      const forged = Buffer.from(
+        JSON.stringify({ sub: 'u', role: 'admin', iat: 0, exp: 9999999999 })
+      ).toString('base64url');
+
+      expect(
+        service.verifyAccessToken(`${header}.${forged}.${signature}`)
+      ).toBeNull();
+    });
+
+    it('debería rechazar tokens con otro algoritmo en la cabecera', () => {
+      const service = new JwtTokenService(SECRET);
+      const header = Buffer.from(
+        JSON.stringify({ alg: 'none', typ: 'JWT' })
+      ).toString('base64url');
+      const payload = Buffer.from(
+        JSON.stringify({ sub: 'u', role: 'admin', iat: 0, exp: 9999999999 })
+      ).toString('base64url');
+      const signature = createHmac('sha256', SECRET)
+        .update(`${header}.${payload}`)
+        .digest('base64url');
+
+      expect(
+        service.verifyAccessToken(`${header}.${payload}.${signature}`)
+      ).toBeNull();
+    });
+
+    it('debería rechazar valores que no son tokens', () => {
+      const service = new JwtTokenService(SECRET);
+
+      expect(service.verifyAccessToken('')).toBeNull();
+      expect(service.verifyAccessToken('a.b')).toBeNull();
+      expect(service.verifyAccessToken('a.b.c')).toBeNull();
+    });
+  });
+});
@@ -7,12 +7,35 @@
  * Es responsable de definir middleware global, montar enrutadores y, en general,
  * ensamblar la lógica de la aplicación web.
  *
- * La instancia de la aplicación se exporta por defecto para que pueda ser utilizada
- * por el punto de entrada del servidor (/src/server.ts) para iniciarla, y por el entorno
- * de pruebas (con Supertest) para realizar tests de integración.
+ * La aplicación se construye con la función `createApp`, que recibe el contenedor de
+ * dependencias (/src/infrastructure/config/container.ts) y no importa ninguna clase
+ * concreta: cada petición abre un scope del contenedor y resuelve de él sus
+ * controladores y guards. Así el punto de entrada del servidor (/src/server.ts) usa
+ * los registros de producción, y el entorno de pruebas (con Supertest) puede
+ * reemplazar cualquier registro por un doble de prueba.
  *
- * Actualmente, solo define un endpoint raíz (GET /) que sirve como un health check
- * básico, devolviendo el estado y la versión de la API.
+ * Todos los errores se responden como `application/problem+json` (RFC 7807)
+ * con un `code` estable y los textos en el idioma de la petición (`?lang=` o
+ * Accept-Language: es, en o pt); ver /src/infrastructure/web/middleware/errorHandler.ts.
+ *
+ * Endpoints actuales:
+ * - GET /: mensaje de bienvenida con el estado y la versión de la API.
+ * - GET /health/live: liveness, el proceso está vivo.
+ * - GET /health/ready: readiness; comprueba la base de datos, las migraciones
+ *   pendientes, el retraso del outbox y los gateways, y responde 503 si algo
+ *   falla o el servidor se está apagando.
+ * - /api/v1/auth: registro, confirmación de email, login, renovación de tokens y
+ *   restablecimiento de contraseña.
+ * - /api/v1/admin/users: administración de usuarios (solo administradores):
+ *   listado, detalle, cambio de rol y de estado, eliminación e historial de
+ *   moderación.
+ * - /api/v1/authoring: edición de contenido (creadores de contenido y
+ *   administradores): cursos y sus colaboradores, niveles, secciones,
+ *   módulos, lecciones y ejercicios, con reordenación atómica y control de
+ *   versiones; envío a revisión, aprobación y rechazo (administradores),
+ *   vuelta atrás y archivado de cursos y lecciones.
+ * - /api/v1/catalog: cursos y lecciones para los alumnos (usuarios
+ *   autenticados); solo se sirven las versiones publicadas.
  *
  * @module App
  * @category Infrastructure/Web
@@ -20,17 +43,91 @@
  * @since 1.0.0
  */
 
-import express from 'express';
+import express, { Express } from 'express';
+import { Container } from '@/shared/di/Container';
+import { TOKENS } from '@/infrastructure/config/container';
+import { createAuthRouter } from '@/modules/auth/routes/auth.routes';
+import { createAdminUserRouter } from '@/modules/users/routes/adminUsers.routes';
+import { createAuthoringRouter } from '@/modules/authoring/routes/authoring.routes';
+import { createCatalogRouter } from '@/modules/catalog/routes/catalog.routes';
+import { createHealthRouter } from '@/modules/health/routes/health.routes';
+import { config } from '@/infrastructure/config/environment';
+import {
+  createErrorHandler,
+  notFoundHandler,
+} from '@/infrastructure/web/middleware/errorHandler';
+import { createCorrelationId } from '@/infrastructure/web/middleware/correlationId';
+import { createLocaleNegotiation } from '@/infrastructure/web/middleware/locale';
+import {
+  createRequestScope,
+  getRequestContainer,
+  resolveMiddlewares,
+} from '@/infrastructure/web/middleware/requestScope';
+
+export function createApp(container: Container): Express {
+  const app = express();
 
-const app = express();
+  // Primero el correlation id: todo lo que se registre en la petición lo lleva
+  app.use(createCorrelationId());
+  app.use(createRequestScope(container));
+  app.use(createLocaleNegotiation());
+  app.use(express.json());
 
-app.get('/', (_req, res) => {
-  res.json({
-    message: 'WayrApp Backend está vivo!',
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    version: '1.0.0',
+  app.get('/', (_req, res) => {
+    res.json({
+      message: 'WayrApp Backend está vivo!',
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+    });
   });
-});
 
-export default app;
+  app.use(
+    '/health',
+    createHealthRouter((res) =>
+      getRequestContainer(res).resolve(TOKENS.HealthController)
+    )
+  );
+
+  app.use(
+    '/api/v1/auth',
+    createAuthRouter((res) =>
+      getRequestContainer(res).resolve(TOKENS.AuthController)
+    )
+  );
+
+  app.use(
+    '/api/v1/admin/users',
+    createAdminUserRouter(
+      (res) => getRequestContainer(res).resolve(TOKENS.AdminUserController),
+      [resolveMiddlewares(TOKENS.AdminGuards)]
+    )
+  );
+
+  app.use(
+    '/api/v1/authoring',
+    createAuthoringRouter(
+      (res) => getRequestContainer(res).resolve(TOKENS.AuthoringController),
+      [resolveMiddlewares(TOKENS.ContentCreatorGuards)]
+    )
+  );
+
+  app.use(
+    '/api/v1/catalog',
+    createCatalogRouter(
+      (res) => getRequestContainer(res).resolve(TOKENS.CatalogController),
+      [resolveMiddlewares(TOKENS.LearnerGuards)]
+    )
+  );
+
+  // Rutas inexistentes y errores, después de todas las rutas
+  app.use(notFoundHandler());
+  app.use(
+    createErrorHandler({
+      // Solo en desarrollo: nunca se exponen stacks en producción
+      exposeDebugDetails: config.NODE_ENV === 'development',
+    })
+  );
+
+  return app;
+}
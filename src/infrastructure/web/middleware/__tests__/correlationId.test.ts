@@ -0,0 +1,54 @@
+// src/infrastructure/web/middleware/__tests__/correlationId.test.ts
+
+import express from 'express';
+import supertest from 'supertest';
+import { createCorrelationId } from '@/infrastructure/web/middleware/correlationId';
+import { getRequestContext } from '@/infrastructure/logging/RequestContext';
+
+describe('createCorrelationId', () => {
+  const app = express();
+  app.use(createCorrelationId());
+  app.use(express.json());
+  app.post('/', async (_req, res) => {
+    // El contexto debe sobrevivir al parseo del body y a los awaits
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    res.json({ correlationId: getRequestContext()?.correlationId ?? null });
+  });
+
+  it('debería generar un correlation id y devolverlo en X-Request-Id', async () => {
+    const response = await supertest(app).post('/').send({ a: 1 });
+
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.body.correlationId).toBe(response.headers['x-request-id']);
+  });
+
+  it('debería reutilizar un X-Request-Id válido recibido', async () => {
+    const response = await supertest(app)
+      .post('/')
+      .set('X-Request-Id', 'proxy-req.42')
+      .send({});
+
+    expect(response.headers['x-request-id']).toBe('proxy-req.42');
+    expect(response.body.correlationId).toBe('proxy-req.42');
+  });
+
+  it('debería ignorar un X-Request-Id con caracteres no permitidos', async () => {
+    const response = await supertest(app)
+      .post('/')
+      .set('X-Request-Id', 'a b<script>')
+      .send({});
+
+    expect(response.headers['x-request-id']).not.toBe('a b<script>');
+    expect(response.body.correlationId).toBe(response.headers['x-request-id']);
+  });
+
+  it('no debería compartir el contexto entre peticiones', async () => {
+    const [first, second] = await Promise.all([
+      supertest(app).post('/').set('X-Request-Id', 'first').send({}),
+      supertest(app).post('/').set('X-Request-Id', 'second').send({}),
+    ]);
+
+    expect(first.body.correlationId).toBe('first');
+    expect(second.body.correlationId).toBe('second');
+  });
+});
@@ -0,0 +1,271 @@
+// src/infrastructure/web/middleware/__tests__/errorHandler.test.ts
+
+import express, { Express } from 'express';
+import supertest from 'supertest';
+import { Container } from '@/shared/di/Container';
+import { TOKENS } from '@/infrastructure/config/container';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { Email } from '@/core/domain/value-objects/Email';
+import { PlainPassword } from '@/core/domain/value-objects/Password';
+import { Username } from '@/core/domain/value-objects/Username';
+import { InvalidStatusTransitionError } from '@/core/domain/errors/UserStatusErrors';
+import {
+  DatabaseConnectionError,
+  UserAlreadyExistsError,
+  UserRepositoryError,
+} from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { InvalidCredentialsError } from '@/core/use-cases/auth/AuthErrors';
+import { createCorrelationId } from '@/infrastructure/web/middleware/correlationId';
+import { createRequestScope } from '@/infrastructure/web/middleware/requestScope';
+import { createLocaleNegotiation } from '@/infrastructure/web/middleware/locale';
+import {
+  createErrorHandler,
+  ErrorHandlerOptions,
+  notFoundHandler,
+} from '@/infrastructure/web/middleware/errorHandler';
+
+describe('errorHandler', () => {
+  let logger: jest.Mocked<ILogger>;
+  let thrown: unknown;
+
+  const buildApp = (options?: ErrorHandlerOptions): Express => {
+    const app = express();
+    app.use(createCorrelationId());
+    app.use(
+      createRequestScope(
+        Container.create().register(
+          TOKENS.RequestLogger,
+          () => logger as ILogger,
+          'request'
+        )
+      )
+    );
+    app.use(createLocaleNegotiation());
+    app.use(express.json({ limit: '1kb' }));
+    app.post('/boom', () => {
+      throw thrown;
+    });
+    app.use(notFoundHandler());
+    app.use(createErrorHandler(options));
+    return app;
+  };
+
+  const capture = (build: () => unknown): unknown => {
+    try {
+      build();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Se esperaba un error');
+  };
+
+  beforeEach(() => {
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    };
+  });
+
+  it('debería responder un problem+json con el código y el status de la categoría', async () => {
+    thrown = new UserAlreadyExistsError('learner', undefined, 'username');
+
+    const response = await supertest(buildApp())
+      .post('/boom')
+      .set('X-Request-Id', 'req-1');
+
+    expect(response.status).toBe(409);
+    expect(response.headers['content-type']).toMatch(
+      /^application\/problem\+json/
+    );
+    expect(response.body).toEqual({
+      type: 'urn:wayrapp:problem:user-username-taken',
+      title: 'Conflicto con el estado actual',
+      status: 409,
+      detail: 'Ya existe un usuario con ese nombre de usuario',
+      instance: '/boom',
+      code: 'USER_USERNAME_TAKEN',
+      correlationId: 'req-1',
+    });
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('debería mapear cada categoría a su status HTTP', async () => {
+    thrown = new InvalidCredentialsError();
+    const unauthorized = await supertest(buildApp()).post('/boom');
+    thrown = capture(() => new Email('no-es-un-email'));
+    const invalid = await supertest(buildApp()).post('/boom');
+
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.body.code).toBe('INVALID_CREDENTIALS');
+    expect(invalid.status).toBe(422);
+    expect(invalid.body.code).toBe('EMAIL_INVALID');
+  });
+
+  it('debería listar los campos inválidos con el código de los value objects', async () => {
+    thrown = ValidationError.fromFieldErrors('Datos de registro inválidos', {
+      password: capture(() => new PlainPassword('weakpassword')),
+      username: 'no es un error',
+    });
+
+    const response = await supertest(buildApp()).post('/boom');
+
+    expect(response.status).toBe(422);
+    expect(response.body.code).toBe('VALIDATION_ERROR');
+    expect(response.body.invalidParams).toEqual([
+      {
+        name: 'password',
+        reason: expect.stringContaining('La contraseña debe incluir'),
+        code: 'PASSWORD_TOO_WEAK',
+        params: {
+          missing: ['hasUpperCase', 'hasNumber', 'hasSpecialChar'],
+          specialChars: expect.any(String),
+        },
+      },
+      { name: 'username', reason: 'Valor inválido' },
+    ]);
+  });
+
+  it('debería ocultar el detalle de los errores internos y registrarlos', async () => {
+    thrown = new UserRepositoryError(
+      'Fallo al crear el usuario: Invalid `prisma.user.create()` invocation'
+    );
+
+    const response = await supertest(buildApp()).post('/boom');
+
+    expect(response.status).toBe(500);
+    expect(response.body.code).toBe('REPOSITORY_ERROR');
+    expect(response.body.detail).toBe('Error interno del servidor');
+    expect(JSON.stringify(response.body)).not.toContain('prisma');
+    expect(response.body).not.toHaveProperty('debug');
+    expect(logger.error).toHaveBeenCalledWith(
+      'Error no controlado',
+      expect.objectContaining({ error: thrown })
+    );
+  });
+
+  it('debería responder 503 sin detalles si la base de datos no está disponible', async () => {
+    thrown = new DatabaseConnectionError(new Error('P1001: Can not reach'));
+
+    const response = await supertest(buildApp()).post('/boom');
+
+    expect(response.status).toBe(503);
+    expect(response.body.code).toBe('SERVICE_UNAVAILABLE');
+    expect(response.body.detail).toBe('Servicio no disponible temporalmente');
+    expect(JSON.stringify(response.body)).not.toContain('P1001');
+  });
+
+  it('debería responder 500 genérico ante errores desconocidos', async () => {
+    thrown = new TypeError('Cannot read properties of undefined');
+
+    const response = await supertest(buildApp()).post('/boom');
+
+    expect(response.status).toBe(500);
+    expect(response.body.code).toBe('INTERNAL_ERROR');
+    expect(response.body.type).toBe('urn:wayrapp:problem:internal-error');
+    expect(JSON.stringify(response.body)).not.toContain('Cannot read');
+  });
+
+  it('debería añadir el stack de los 5xx solo si se activa exposeDebugDetails', async () => {
+    thrown = new TypeError('Cannot read properties of undefined');
+
+    const response = await supertest(
+      buildApp({ exposeDebugDetails: true })
+    ).post('/boom');
+
+    expect(response.body.debug).toMatchObject({
+      name: 'TypeError',
+      message: 'Cannot read properties of undefined',
+      stack: expect.stringContaining('TypeError'),
+    });
+  });
+
+  it('no debería añadir el stack a los errores 4xx', async () => {
+    thrown = new InvalidCredentialsError();
+
+    const response = await supertest(
+      buildApp({ exposeDebugDetails: true })
+    ).post('/boom');
+
+    expect(response.body).not.toHaveProperty('debug');
+  });
+
+  it('debería traducir los errores de body-parser', async () => {
+    const malformed = await supertest(buildApp())
+      .post('/boom')
+      .set('Content-Type', 'application/json')
+      .send('{"email":');
+    const tooLarge = await supertest(buildApp())
+      .post('/boom')
+      .send({ data: 'x'.repeat(2048) });
+
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.code).toBe('BAD_REQUEST');
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.code).toBe('PAYLOAD_TOO_LARGE');
+  });
+
+  it('debería redactar title, detail y motivos en el idioma de Accept-Language', async () => {
+    thrown = ValidationError.fromFieldErrors('Datos de registro inválidos', {
+      username: capture(() => new Username('ab')),
+    });
+
+    const response = await supertest(buildApp())
+      .post('/boom')
+      .set('Accept-Language', 'en-US,en;q=0.9,es;q=0.5');
+
+    expect(response.headers['content-language']).toBe('en');
+    expect(response.headers['vary']).toContain('Accept-Language');
+    expect(response.body).toMatchObject({
+      title: 'Invalid data',
+      detail: 'The request contains invalid data',
+      code: 'VALIDATION_ERROR',
+      invalidParams: [
+        {
+          name: 'username',
+          reason: 'The username must be at least 3 characters long',
+          code: 'USERNAME_TOO_SHORT',
+          params: { min: 3 },
+        },
+      ],
+    });
+  });
+
+  it('debería dar prioridad al idioma elegido con ?lang', async () => {
+    thrown = new InvalidStatusTransitionError('banned', 'suspended');
+
+    const response = await supertest(buildApp())
+      .post('/boom?lang=pt')
+      .set('Accept-Language', 'en');
+
+    expect(response.headers['content-language']).toBe('pt');
+    expect(response.body).toMatchObject({
+      title: 'Conflito com o estado atual',
+      detail: 'Transição de status não permitida: banned → suspended',
+      params: { from: 'banned', to: 'suspended' },
+    });
+  });
+
+  it('debería traducir también los errores internos sin exponer sus params', async () => {
+    thrown = new DatabaseConnectionError();
+
+    const response = await supertest(buildApp()).post('/boom?lang=en');
+
+    expect(response.body.detail).toBe('Service temporarily unavailable');
+    expect(response.body).not.toHaveProperty('params');
+  });
+
+  it('debería responder 404 ROUTE_NOT_FOUND en rutas inexistentes', async () => {
+    const response = await supertest(buildApp()).get('/no-existe?x=1');
+
+    expect(response.status).toBe(404);
+    expect(response.body).toMatchObject({
+      code: 'ROUTE_NOT_FOUND',
+      instance: '/no-existe?x=1',
+      detail: 'No existe la ruta GET /no-existe?x=1',
+    });
+  });
+});
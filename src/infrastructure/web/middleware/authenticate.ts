@@ -0,0 +1,46 @@
+// src/infrastructure/web/middleware/authenticate.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  AccessTokenClaims,
+  ITokenService,
+} from '@/core/interfaces/services/ITokenService';
+import { InvalidAccessTokenError } from '@/core/use-cases/auth/AuthErrors';
+
+/**
+ * Crea el middleware que exige un access token válido en la cabecera
+ * `Authorization: Bearer <token>`. Los claims verificados quedan en
+ * `res.locals.auth`; se leen con getAuthClaims().
+ */
+export function createAuthenticate(
+  tokenService: ITokenService
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      next(new InvalidAccessTokenError('Falta el access token'));
+      return;
+    }
+
+    const claims = tokenService.verifyAccessToken(token);
+    if (!claims) {
+      next(new InvalidAccessTokenError());
+      return;
+    }
+
+    res.locals.auth = claims;
+    next();
+  };
+}
+
+/**
+ * Devuelve los claims del access token de la petición.
+ * Solo se puede usar en rutas protegidas por createAuthenticate().
+ */
+export function getAuthClaims(res: Response): AccessTokenClaims {
+  const claims = res.locals.auth as AccessTokenClaims | undefined;
+  if (!claims) {
+    throw new InvalidAccessTokenError('Falta el access token');
+  }
+  return claims;
+}
@@ -0,0 +1,29 @@
+// src/infrastructure/web/middleware/correlationId.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runWithRequestContext } from '@/infrastructure/logging/RequestContext';
+
+export const CORRELATION_ID_HEADER = 'X-Request-Id';
+
+// Se acepta el id del cliente o del proxy solo si es corto y sin caracteres raros
+const VALID_CORRELATION_ID = /^[A-Za-z0-9._-]{1,128}$/;
+
+/**
+ * Crea el middleware que asigna a cada petición un correlation id.
+ *
+ * Reutiliza la cabecera X-Request-Id si llega una válida y, si no, genera un
+ * UUID. Lo devuelve en la misma cabecera y ejecuta el resto de la petición
+ * dentro de su RequestContext, así todas las líneas de log que produzca
+ * (hasta los repositorios) lo llevan.
+ */
+export function createCorrelationId(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const received = req.get(CORRELATION_ID_HEADER);
+    const correlationId =
+      received && VALID_CORRELATION_ID.test(received) ? received : uuidv4();
+
+    res.setHeader(CORRELATION_ID_HEADER, correlationId);
+    runWithRequestContext({ correlationId }, next);
+  };
+}
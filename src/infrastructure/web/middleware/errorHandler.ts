@@ -0,0 +1,264 @@
+// src/infrastructure/web/middleware/errorHandler.ts
+
+import {
+  ErrorRequestHandler,
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+} from 'express';
+import {
+  AppError,
+  ErrorCategory,
+  ErrorCode,
+  ErrorParams,
+} from '@/shared/errors/AppError';
+import { ValidationError } from '@/shared/errors/ValidationError';
+import { ILogger } from '@/core/interfaces/services/ILogger';
+import { TOKENS } from '@/infrastructure/config/container';
+import { defaultLogger } from '@/infrastructure/logging/JsonLogger';
+import { getRequestContext } from '@/infrastructure/logging/RequestContext';
+import { Locale } from '@/infrastructure/i18n/Locale';
+import {
+  translateError,
+  translateTitle,
+} from '@/infrastructure/i18n/translate';
+import { getRequestContainer } from './requestScope';
+import { getRequestLocale } from './locale';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Cuerpo de error de la API según RFC 7807 (Problem Details), con las
+ * extensiones propias `code`, `params`, `correlationId` e `invalidParams`.
+ * `title`, `detail` y cada `reason` van en el idioma de la petición
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: ErrorCode;
+  params?: ErrorParams;
+  correlationId?: string;
+  invalidParams?: InvalidParam[];
+  // Solo en errores 5xx y si se activa exposeDebugDetails (nunca en producción)
+  debug?: { name: string; message: string; stack?: string };
+}
+
+export interface InvalidParam {
+  name: string;
+  reason: string;
+  code?: ErrorCode;
+  params?: ErrorParams;
+}
+
+export interface ErrorHandlerOptions {
+  /**
+   * Añade a las respuestas 5xx el nombre, mensaje y stack del error original.
+   * Nunca debe activarse en producción
+   */
+  exposeDebugDetails?: boolean;
+}
+
+const STATUS_BY_CATEGORY: Record<ErrorCategory, number> = {
+  bad_request: 400,
+  validation: 422,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  unavailable: 503,
+  internal: 500,
+};
+
+// Categorías que no exponen nada del error: se responde con el mensaje de
+// este código y sin params
+const GENERIC_MESSAGE_CODE: Partial<Record<ErrorCategory, ErrorCode>> = {
+  unavailable: 'SERVICE_UNAVAILABLE',
+  internal: 'INTERNAL_ERROR',
+};
+
+interface Problem {
+  status: number;
+  category: ErrorCategory;
+  code: ErrorCode;
+  params: ErrorParams;
+  invalidParams?: InvalidParam[];
+}
+
+/**
+ * Crea el middleware de manejo de errores de la aplicación Express.
+ *
+ * Traduce cualquier error a una respuesta `application/problem+json`: los
+ * AppError según su categoría y código, los errores HTTP de body-parser a 4xx
+ * y el resto a 500. Los textos salen del catálogo del idioma negociado (ver
+ * createLocaleNegotiation()), no del mensaje del error. Los errores internos
+ * y de disponibilidad se registran en el log de la petición y se responden
+ * con un mensaje genérico, sin detalles de la base de datos ni stack.
+ */
+export function createErrorHandler(
+  options: ErrorHandlerOptions = {}
+): ErrorRequestHandler {
+  return (
+    error: unknown,
+    req: Request,
+    res: Response,
+    // Express identifica los middlewares de error por su aridad (4 parámetros)
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _next: NextFunction
+  ): void => {
+    const problem = toProblem(error);
+    const locale = getRequestLocale(res);
+
+    if (problem.status >= 500) {
+      requestLogger(res).error(
+        problem.category === 'unavailable'
+          ? 'Servicio no disponible'
+          : 'Error no controlado',
+        { component: 'errorHandler', code: problem.code, error }
+      );
+    }
+
+    const genericCode = GENERIC_MESSAGE_CODE[problem.category];
+    const body: ProblemDetails = {
+      type: problemType(problem.code),
+      title: translateTitle(locale, problem.category),
+      status: problem.status,
+      detail: genericCode
+        ? translateError(locale, genericCode)
+        : translateError(locale, problem.code, problem.params),
+      instance: req.originalUrl,
+      code: problem.code,
+      correlationId: getRequestContext()?.correlationId,
+    };
+    if (!genericCode && Object.keys(problem.params).length > 0) {
+      body.params = problem.params;
+    }
+    if (problem.invalidParams) {
+      body.invalidParams = localizeInvalidParams(problem.invalidParams, locale);
+    }
+    if (
+      options.exposeDebugDetails &&
+      problem.status >= 500 &&
+      error instanceof Error
+    ) {
+      body.debug = {
+        name: error.name,
+        message: error.message,
+        stack: error.stack,
+      };
+    }
+
+    res.status(problem.status).type(PROBLEM_CONTENT_TYPE).json(body);
+  };
+}
+
+/**
+ * Middleware para las rutas que no existen. Se registra después de todos los
+ * routers y antes del middleware de errores
+ */
+export function notFoundHandler(): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    next(new RouteNotFoundError(req.method, req.originalUrl));
+  };
+}
+
+class RouteNotFoundError extends AppError {
+  constructor(method: string, path: string) {
+    super(
+      `No existe la ruta ${method} ${path}`,
+      'ROUTE_NOT_FOUND',
+      'not_found',
+      { method, path }
+    );
+    this.name = 'RouteNotFoundError';
+  }
+}
+
+function toProblem(error: unknown): Problem {
+  if (error instanceof AppError) {
+    const problem: Problem = {
+      status: STATUS_BY_CATEGORY[error.category],
+      category: error.category,
+      code: error.code,
+      params: error.params,
+    };
+    if (error instanceof ValidationError) {
+      problem.invalidParams = Object.entries(error.fields).map(
+        ([name, reason]) => {
+          const detail = error.fieldDetails[name];
+          return detail
+            ? { name, reason, code: detail.code, params: detail.params }
+            : { name, reason };
+        }
+      );
+    }
+    return problem;
+  }
+
+  // Errores de body-parser (JSON mal formado, payload demasiado grande, etc.)
+  if (isHttpError(error) && error.status >= 400 && error.status < 500) {
+    return {
+      status: error.status,
+      category: 'bad_request',
+      code: error.status === 413 ? 'PAYLOAD_TOO_LARGE' : 'BAD_REQUEST',
+      params: {},
+    };
+  }
+
+  return {
+    status: 500,
+    category: 'internal',
+    code: 'INTERNAL_ERROR',
+    params: {},
+  };
+}
+
+/**
+ * Redacta el motivo de cada campo con su código; los campos sin código
+ * conservan el mensaje original
+ */
+function localizeInvalidParams(
+  invalidParams: InvalidParam[],
+  locale: Locale
+): InvalidParam[] {
+  return invalidParams.map((param) => {
+    if (!param.code) {
+      return param;
+    }
+    const localized: InvalidParam = {
+      name: param.name,
+      reason: translateError(locale, param.code, param.params),
+      code: param.code,
+    };
+    if (param.params && Object.keys(param.params).length > 0) {
+      localized.params = param.params;
+    }
+    return localized;
+  });
+}
+
+/**
+ * URI del tipo de problema; identifica el error igual que `code`
+ */
+function problemType(code: ErrorCode): string {
+  return `urn:wayrapp:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+// El error puede producirse antes de abrir el scope de la petición
+function requestLogger(res: Response): ILogger {
+  return res.locals.container
+    ? getRequestContainer(res).resolve(TOKENS.RequestLogger)
+    : defaultLogger;
+}
+
+function isHttpError(error: unknown): error is { status: number } {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'status' in error &&
+    typeof (error as { status: unknown }).status === 'number'
+  );
+}
@@ -0,0 +1,42 @@
+// src/infrastructure/web/middleware/locale.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  negotiateLocale,
+} from '@/infrastructure/i18n/Locale';
+
+// Parámetro de query con el idioma que eligió el usuario
+export const LOCALE_QUERY_PARAM = 'lang';
+
+/**
+ * Crea el middleware que decide el idioma de la respuesta.
+ *
+ * La preferencia del usuario (`?lang=en`) manda sobre `Accept-Language`. El
+ * idioma queda en `res.locals.locale` (se lee con getRequestLocale()) y se
+ * anuncia en `Content-Language`; `Vary` avisa a las cachés de que la
+ * respuesta depende de Accept-Language.
+ */
+export function createLocaleNegotiation(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const preferred = req.query[LOCALE_QUERY_PARAM];
+    const locale = negotiateLocale(
+      typeof preferred === 'string' ? preferred : undefined,
+      req.get('Accept-Language')
+    );
+
+    res.locals.locale = locale;
+    res.setHeader('Content-Language', locale);
+    res.vary('Accept-Language');
+    next();
+  };
+}
+
+/**
+ * Devuelve el idioma de la petición, o DEFAULT_LOCALE si el error llegó
+ * antes de negociarlo
+ */
+export function getRequestLocale(res: Response): Locale {
+  return (res.locals.locale as Locale | undefined) ?? DEFAULT_LOCALE;
+}
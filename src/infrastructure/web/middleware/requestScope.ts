@@ -0,0 +1,56 @@
+// src/infrastructure/web/middleware/requestScope.ts
+
+import {
+  NextFunction,
+  Request,
+  RequestHandler,
+  Response,
+  Router,
+} from 'express';
+import { Container, Token } from '@/shared/di/Container';
+
+/**
+ * Crea el middleware que abre un scope del contenedor por petición.
+ * El scope queda en `res.locals.container`; se lee con getRequestContainer().
+ * Las dependencias registradas con ciclo de vida 'request' se comparten
+ * dentro de la petición y se descartan al terminar.
+ */
+export function createRequestScope(container: Container): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    res.locals.container = container.createScope();
+    next();
+  };
+}
+
+/**
+ * Devuelve el scope del contenedor de la petición.
+ * Solo se puede usar después de createRequestScope().
+ */
+export function getRequestContainer(res: Response): Container {
+  const container = res.locals.container as Container | undefined;
+  if (!container) {
+    throw new Error('La petición no tiene scope del contenedor');
+  }
+  return container;
+}
+
+/**
+ * Crea un middleware que resuelve una lista de middlewares del contenedor de
+ * la petición y los ejecuta en orden (por ejemplo, los guards de una ruta)
+ */
+export function resolveMiddlewares(
+  token: Token<RequestHandler[]>
+): RequestHandler {
+  // Un router por lista resuelta: si la lista es singleton se crea una vez
+  const routers = new WeakMap<RequestHandler[], Router>();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const handlers = getRequestContainer(res).resolve(token);
+    let router = routers.get(handlers);
+    if (!router) {
+      router = Router().use(...handlers);
+      routers.set(handlers, router);
+    }
+    router(req, res, next);
+  };
+}
@@ -0,0 +1,78 @@
+// src/infrastructure/web/middleware/requireAdmin.ts
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { User } from '@/core/domain/entities/User';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import {
+  AccountNotActiveError,
+  InsufficientPermissionsError,
+  InvalidAccessTokenError,
+} from '@/core/use-cases/auth/AuthErrors';
+import { getAuthClaims } from './authenticate';
+
+/**
+ * Crea el middleware que exige un usuario administrador.
+ * Debe ir después de createAuthenticate().
+ *
+ * El rol se comprueba contra la base de datos y no contra los claims del
+ * token: un administrador degradado, suspendido o eliminado pierde el acceso
+ * en el momento, sin esperar a que caduque su access token. El usuario queda
+ * en `res.locals.currentUser`; se lee con getCurrentUser().
+ */
+export function createRequireAdmin(
+  userRepository: IUserRepository
+): RequestHandler {
+  return createRequireUser(userRepository, (user) => user.hasAdminPrivileges());
+}
+
+/**
+ * Crea el middleware que exige un usuario que pueda crear contenido
+ * (creador de contenido o administrador). Igual que createRequireAdmin(),
+ * comprueba el rol contra la base de datos y deja el usuario en
+ * `res.locals.currentUser`.
+ */
+export function createRequireContentCreator(
+  userRepository: IUserRepository
+): RequestHandler {
+  return createRequireUser(userRepository, (user) => user.canCreateContent());
+}
+
+function createRequireUser(
+  userRepository: IUserRepository,
+  isAllowed: (user: User) => boolean
+): RequestHandler {
+  // Express 5 envía al middleware de errores los rechazos de handlers async
+  return async (
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const claims = getAuthClaims(res);
+
+    const user = await userRepository.findById(claims.sub);
+    if (!user) {
+      throw new InvalidAccessTokenError();
+    }
+    if (!user.canLogin()) {
+      throw new AccountNotActiveError(user.getStatusValue());
+    }
+    if (!isAllowed(user)) {
+      throw new InsufficientPermissionsError();
+    }
+
+    res.locals.currentUser = user;
+    next();
+  };
+}
+
+/**
+ * Devuelve el usuario autenticado por createRequireAdmin() o
+ * createRequireContentCreator()
+ */
+export function getCurrentUser(res: Response): User {
+  const user = res.locals.currentUser as User | undefined;
+  if (!user) {
+    throw new InvalidAccessTokenError('Falta el access token');
+  }
+  return user;
+}
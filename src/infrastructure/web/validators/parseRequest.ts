@@ -0,0 +1,62 @@
+// src/infrastructure/web/validators/parseRequest.ts
+
+import { z } from 'zod';
+import {
+  FieldErrorDetail,
+  ValidationError,
+} from '@/shared/errors/ValidationError';
+
+/**
+ * Valida datos de una petición HTTP (body, query o params) contra un esquema Zod.
+ * Si la validación falla, lanza un ValidationError con un mensaje por campo,
+ * que el middleware de errores traduce a una respuesta 422. Cada campo lleva
+ * además el código FIELD_REQUIRED (no se envió) o FIELD_INVALID, con el que
+ * se redacta el motivo en el idioma del cliente.
+ *
+ * @param schema Esquema Zod de la petición
+ * @param data Datos crudos a validar
+ * @returns Los datos tipados y validados
+ */
+export function parseRequest<T extends z.ZodType>(
+  schema: T,
+  data: unknown
+): z.infer<T> {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const fields: Record<string, string> = {};
+    const fieldDetails: Record<string, FieldErrorDetail> = {};
+    for (const issue of result.error.issues) {
+      const path = issue.path.length > 0 ? issue.path.join('.') : 'body';
+      // Conservamos solo el primer error de cada campo
+      if (!fields[path]) {
+        fields[path] = issue.message;
+        fieldDetails[path] = {
+          code:
+            valueAt(data, issue.path) === undefined
+              ? 'FIELD_REQUIRED'
+              : 'FIELD_INVALID',
+          params: {},
+        };
+      }
+    }
+    throw new ValidationError(
+      'La petición contiene datos inválidos',
+      fields,
+      fieldDetails
+    );
+  }
+
+  return result.data;
+}
+
+function valueAt(data: unknown, path: PropertyKey[]): unknown {
+  let current = data;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,427 @@
+// src/modules/auth/__tests__/AuthController.test.ts
+
+import supertest from 'supertest';
+import { createApp } from '@/infrastructure/web/app';
+import { createContainer, TOKENS } from '@/infrastructure/config/container';
+import { RegisterUserUseCase } from '@/core/use-cases/auth/RegisterUserUseCase';
+import { LoginUseCase } from '@/core/use-cases/auth/LoginUseCase';
+import { RefreshTokenUseCase } from '@/core/use-cases/auth/RefreshTokenUseCase';
+import { ConfirmEmailUseCase } from '@/core/use-cases/auth/ConfirmEmailUseCase';
+import { ResendEmailConfirmationUseCase } from '@/core/use-cases/auth/ResendEmailConfirmationUseCase';
+import { RequestPasswordResetUseCase } from '@/core/use-cases/auth/RequestPasswordResetUseCase';
+import { ResetPasswordUseCase } from '@/core/use-cases/auth/ResetPasswordUseCase';
+import { AuthTokens } from '@/core/use-cases/auth/AuthTokenIssuer';
+import {
+  AccountNotActiveError,
+  InvalidCredentialsError,
+  InvalidVerificationTokenError,
+  RefreshTokenReuseError,
+} from '@/core/use-cases/auth/AuthErrors';
+import { IUserRepository } from '@/core/interfaces/repositories/IUserRepository';
+import { UnitOfWorkRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { IPasswordService } from '@/core/interfaces/services/IPasswordService';
+import { UserAlreadyExistsError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { User } from '@/core/domain/entities/User';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+
+const AUTH_TOKENS: AuthTokens = {
+  tokenType: 'Bearer',
+  accessToken: 'access.token.value',
+  accessTokenExpiresAt: new Date('2025-01-01T00:15:00Z'),
+  refreshToken: 'refresh-token-value',
+  refreshTokenExpiresAt: new Date('2025-01-31T00:00:00Z'),
+};
+
+describe('AuthController', () => {
+  let userRepository: jest.Mocked<IUserRepository>;
+  let login: jest.Mocked<Pick<LoginUseCase, 'execute'>>;
+  let refreshToken: jest.Mocked<Pick<RefreshTokenUseCase, 'execute'>>;
+  let confirmEmail: jest.Mocked<Pick<ConfirmEmailUseCase, 'execute'>>;
+  let resendEmailConfirmation: jest.Mocked<
+    Pick<ResendEmailConfirmationUseCase, 'execute'>
+  >;
+  let requestPasswordReset: jest.Mocked<
+    Pick<RequestPasswordResetUseCase, 'execute'>
+  >;
+  let resetPassword: jest.Mocked<Pick<ResetPasswordUseCase, 'execute'>>;
+  let request: ReturnType<typeof supertest>;
+
+  beforeEach(() => {
+    userRepository = {
+      create: jest.fn(async (data) =>
+        User.create(
+          data.email,
+          data.username,
+          data.passwordHash,
+          data.role,
+          data.countryCode
+        )
+      ),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    const passwordService: IPasswordService = {
+      hash: jest.fn().mockResolvedValue(new HashedPassword(HASH)),
+      verify: jest.fn(),
+    };
+
+    login = { execute: jest.fn() };
+    refreshToken = { execute: jest.fn() };
+    confirmEmail = { execute: jest.fn() };
+    resendEmailConfirmation = { execute: jest.fn() };
+    requestPasswordReset = { execute: jest.fn() };
+    resetPassword = { execute: jest.fn() };
+
+    const container = createContainer()
+      .registerValue(
+        TOKENS.RegisterUserUseCase,
+        new RegisterUserUseCase(
+          {
+            run: (work) =>
+              work({
+                userRepository,
+                outboxRepository: { append: jest.fn() },
+              } as unknown as UnitOfWorkRepositories),
+          },
+          passwordService
+        )
+      )
+      .registerValue(TOKENS.LoginUseCase, login as unknown as LoginUseCase)
+      .registerValue(
+        TOKENS.RefreshTokenUseCase,
+        refreshToken as unknown as RefreshTokenUseCase
+      )
+      .registerValue(
+        TOKENS.ConfirmEmailUseCase,
+        confirmEmail as unknown as ConfirmEmailUseCase
+      )
+      .registerValue(
+        TOKENS.ResendEmailConfirmationUseCase,
+        resendEmailConfirmation as unknown as ResendEmailConfirmationUseCase
+      )
+      .registerValue(
+        TOKENS.RequestPasswordResetUseCase,
+        requestPasswordReset as unknown as RequestPasswordResetUseCase
+      )
+      .registerValue(
+        TOKENS.ResetPasswordUseCase,
+        resetPassword as unknown as ResetPasswordUseCase
+      );
+    const app = createApp(container);
+    request = supertest(app);
+  });
+
+  describe('POST /api/v1/auth/register', () => {
+    const validBody = {
+      email: 'learner@example.com',
+      username: 'learner',
+      password: 'SecurePass123!',
+      countryCode: 'PE',
+    };
+
+    it('debería responder 201 con el usuario sin el hash de contraseña', async () => {
+      const response = await request
+        .post('/api/v1/auth/register')
+        .send(validBody);
+
+      expect(response.status).toBe(201);
+      expect(response.body.user).toMatchObject({
+        email: 'learner@example.com',
+        username: 'learner',
+        role: 'student',
+        status: 'confirmation_pending',
+        countryCode: 'PE',
+        lastLogin: null,
+      });
+      expect(response.body.user.id).toEqual(expect.any(String));
+      expect(response.body.user).not.toHaveProperty('passwordHash');
+      expect(JSON.stringify(response.body)).not.toContain(HASH);
+    });
+
+    it('debería ignorar un rol enviado por el cliente', async () => {
+      const response = await request
+        .post('/api/v1/auth/register')
+        .send({ ...validBody, role: 'admin' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.user.role).toBe('student');
+    });
+
+    it('debería responder 422 con errores por campo si faltan campos', async () => {
+      const response = await request
+        .post('/api/v1/auth/register')
+        .send({ email: 'learner@example.com' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('VALIDATION_ERROR');
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'username' })
+      );
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'password' })
+      );
+    });
+
+    it('debería responder 422 cuando los value objects rechazan los datos', async () => {
+      const response = await request
+        .post('/api/v1/auth/register')
+        .send({ ...validBody, password: 'weakpassword' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({
+          name: 'password',
+          reason: expect.stringContaining('La contraseña debe incluir'),
+          code: 'PASSWORD_TOO_WEAK',
+        })
+      );
+      expect(userRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('debería responder 409 si el usuario ya existe', async () => {
+      userRepository.create.mockRejectedValueOnce(
+        new UserAlreadyExistsError(validBody.email)
+      );
+
+      const response = await request
+        .post('/api/v1/auth/register')
+        .send(validBody);
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('USER_EMAIL_TAKEN');
+    });
+
+    it('debería responder 400 si el JSON está mal formado', async () => {
+      const response = await request
+        .post('/api/v1/auth/register')
+        .set('Content-Type', 'application/json')
+        .send('{"email": ');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/auth/login', () => {
+    it('debería responder 200 con el usuario y los tokens', async () => {
+      const user = User.createActiveUser(
+        new Email('learner@example.com'),
+        new Username('learner'),
+        new HashedPassword(HASH),
+        new Role('student')
+      ).recordLogin();
+      login.execute.mockResolvedValueOnce({ user, tokens: AUTH_TOKENS });
+
+      const response = await request
+        .post('/api/v1/auth/login')
+        .send({ identifier: 'learner', password: 'SecurePass123!' });
+
+      expect(response.status).toBe(200);
+      expect(login.execute).toHaveBeenCalledWith({
+        identifier: 'learner',
+        password: 'SecurePass123!',
+      });
+      expect(response.body.user.lastLogin).toEqual(expect.any(String));
+      expect(response.body.user).not.toHaveProperty('passwordHash');
+      expect(response.body.tokens).toEqual({
+        tokenType: 'Bearer',
+        accessToken: 'access.token.value',
+        accessTokenExpiresAt: '2025-01-01T00:15:00.000Z',
+        refreshToken: 'refresh-token-value',
+        refreshTokenExpiresAt: '2025-01-31T00:00:00.000Z',
+      });
+    });
+
+    it('debería responder 401 con credenciales inválidas', async () => {
+      login.execute.mockRejectedValueOnce(new InvalidCredentialsError());
+
+      const response = await request
+        .post('/api/v1/auth/login')
+        .send({ identifier: 'learner', password: 'WrongPass123!' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('INVALID_CREDENTIALS');
+    });
+
+    it('debería responder 403 si la cuenta no está activa', async () => {
+      login.execute.mockRejectedValueOnce(
+        new AccountNotActiveError('confirmation_pending')
+      );
+
+      const response = await request
+        .post('/api/v1/auth/login')
+        .send({ identifier: 'learner', password: 'SecurePass123!' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('ACCOUNT_NOT_ACTIVE');
+    });
+
+    it('debería responder 422 si falta la contraseña', async () => {
+      const response = await request
+        .post('/api/v1/auth/login')
+        .send({ identifier: 'learner' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'password' })
+      );
+      expect(login.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh', () => {
+    it('debería responder 200 con el nuevo par de tokens', async () => {
+      refreshToken.execute.mockResolvedValueOnce(AUTH_TOKENS);
+
+      const response = await request
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: 'old-refresh-token' });
+
+      expect(response.status).toBe(200);
+      expect(refreshToken.execute).toHaveBeenCalledWith('old-refresh-token');
+      expect(response.body.tokens.refreshToken).toBe('refresh-token-value');
+    });
+
+    it('debería responder 401 si se reutiliza un token rotado', async () => {
+      refreshToken.execute.mockRejectedValueOnce(new RefreshTokenReuseError());
+
+      const response = await request
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: 'reused-token' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/confirm-email', () => {
+    it('debería responder 200 con el usuario ya activo', async () => {
+      const activeUser = User.createActiveUser(
+        new Email('learner@example.com'),
+        new Username('learner'),
+        new HashedPassword(HASH),
+        new Role('student')
+      );
+      confirmEmail.execute.mockResolvedValueOnce(activeUser);
+
+      const response = await request
+        .post('/api/v1/auth/confirm-email')
+        .send({ token: 'confirmation-token' });
+
+      expect(response.status).toBe(200);
+      expect(confirmEmail.execute).toHaveBeenCalledWith('confirmation-token');
+      expect(response.body.user.status).toBe('active');
+    });
+
+    it('debería responder 400 si el token no es válido', async () => {
+      confirmEmail.execute.mockRejectedValueOnce(
+        new InvalidVerificationTokenError()
+      );
+
+      const response = await request
+        .post('/api/v1/auth/confirm-email')
+        .send({ token: 'expired-token' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TOKEN');
+    });
+
+    it('debería responder 422 si falta el token', async () => {
+      const response = await request
+        .post('/api/v1/auth/confirm-email')
+        .send({});
+
+      expect(response.status).toBe(422);
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'token' })
+      );
+    });
+  });
+
+  describe('POST /api/v1/auth/resend-confirmation', () => {
+    it('debería responder 202 y delegar el reenvío', async () => {
+      resendEmailConfirmation.execute.mockResolvedValueOnce(undefined);
+
+      const response = await request
+        .post('/api/v1/auth/resend-confirmation')
+        .send({ email: 'learner@example.com' });
+
+      expect(response.status).toBe(202);
+      expect(resendEmailConfirmation.execute).toHaveBeenCalledWith(
+        'learner@example.com'
+      );
+    });
+
+    it('debería responder 422 si falta el email', async () => {
+      const response = await request
+        .post('/api/v1/auth/resend-confirmation')
+        .send({});
+
+      expect(response.status).toBe(422);
+      expect(resendEmailConfirmation.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/auth/forgot-password', () => {
+    it('debería responder 202 con el mismo cuerpo exista o no la cuenta', async () => {
+      requestPasswordReset.execute.mockResolvedValue(undefined);
+
+      const known = await request
+        .post('/api/v1/auth/forgot-password')
+        .send({ email: 'learner@example.com' });
+      const unknown = await request
+        .post('/api/v1/auth/forgot-password')
+        .send({ email: 'ghost@example.com' });
+
+      expect(known.status).toBe(202);
+      expect(unknown.status).toBe(202);
+      expect(unknown.body).toEqual(known.body);
+      expect(requestPasswordReset.execute).toHaveBeenCalledWith(
+        'learner@example.com'
+      );
+    });
+  });
+
+  describe('POST /api/v1/auth/reset-password', () => {
+    it('debería responder 204 al restablecer la contraseña', async () => {
+      resetPassword.execute.mockResolvedValueOnce(undefined);
+
+      const response = await request
+        .post('/api/v1/auth/reset-password')
+        .send({ token: 'reset-token', password: 'NewSecure456!' });
+
+      expect(response.status).toBe(204);
+      expect(resetPassword.execute).toHaveBeenCalledWith({
+        token: 'reset-token',
+        password: 'NewSecure456!',
+      });
+    });
+
+    it('debería responder 400 si el token no es válido', async () => {
+      resetPassword.execute.mockRejectedValueOnce(
+        new InvalidVerificationTokenError()
+      );
+
+      const response = await request
+        .post('/api/v1/auth/reset-password')
+        .send({ token: 'used-token', password: 'NewSecure456!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_TOKEN');
+    });
+
+    it('debería responder 422 si falta la contraseña', async () => {
+      const response = await request
+        .post('/api/v1/auth/reset-password')
+        .send({ token: 'reset-token' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'password' })
+      );
+      expect(resetPassword.execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+// src/modules/auth/controllers/AuthController.ts
+
+import { Request, Response } from 'express';
+import { RegisterUserUseCase } from '@/core/use-cases/auth/RegisterUserUseCase';
+import { LoginUseCase } from '@/core/use-cases/auth/LoginUseCase';
+import { RefreshTokenUseCase } from '@/core/use-cases/auth/RefreshTokenUseCase';
+import { ConfirmEmailUseCase } from '@/core/use-cases/auth/ConfirmEmailUseCase';
+import { ResendEmailConfirmationUseCase } from '@/core/use-cases/auth/ResendEmailConfirmationUseCase';
+import { RequestPasswordResetUseCase } from '@/core/use-cases/auth/RequestPasswordResetUseCase';
+import { ResetPasswordUseCase } from '@/core/use-cases/auth/ResetPasswordUseCase';
+import { parseRequest } from '@/infrastructure/web/validators/parseRequest';
+import {
+  ConfirmEmailRequestSchema,
+  ForgotPasswordRequestSchema,
+  LoginRequestSchema,
+  RefreshTokenRequestSchema,
+  RegisterRequestSchema,
+  ResendConfirmationRequestSchema,
+  ResetPasswordRequestSchema,
+} from '@/modules/auth/validators/auth.validators';
+import { toUserDto } from '@/modules/users/dto/UserDto';
+import { toAuthTokensDto } from '@/modules/auth/dto/AuthTokensDto';
+
+/**
+ * Casos de uso que expone el controlador de autenticación
+ */
+export interface AuthUseCases {
+  registerUser: RegisterUserUseCase;
+  login: LoginUseCase;
+  refreshToken: RefreshTokenUseCase;
+  confirmEmail: ConfirmEmailUseCase;
+  resendEmailConfirmation: ResendEmailConfirmationUseCase;
+  requestPasswordReset: RequestPasswordResetUseCase;
+  resetPassword: ResetPasswordUseCase;
+}
+
+/**
+ * Controlador HTTP del módulo de autenticación.
+ *
+ * Solo traduce entre HTTP y los casos de uso: valida la forma de la petición,
+ * delega la lógica y serializa la respuesta. Los errores se propagan al
+ * middleware de errores de la aplicación.
+ */
+export class AuthController {
+  constructor(private readonly useCases: AuthUseCases) {}
+
+  /**
+   * POST /api/v1/auth/register
+   */
+  async register(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(RegisterRequestSchema, req.body);
+
+    const user = await this.useCases.registerUser.execute({
+      email: body.email,
+      username: body.username,
+      password: body.password,
+      countryCode: body.countryCode,
+    });
+
+    res.status(201).json({ user: toUserDto(user) });
+  }
+
+  /**
+   * POST /api/v1/auth/login
+   */
+  async login(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(LoginRequestSchema, req.body);
+
+    const { user, tokens } = await this.useCases.login.execute({
+      identifier: body.identifier,
+      password: body.password,
+    });
+
+    res.json({ user: toUserDto(user), tokens: toAuthTokensDto(tokens) });
+  }
+
+  /**
+   * POST /api/v1/auth/refresh
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(RefreshTokenRequestSchema, req.body);
+
+    const tokens = await this.useCases.refreshToken.execute(body.refreshToken);
+
+    res.json({ tokens: toAuthTokensDto(tokens) });
+  }
+
+  /**
+   * POST /api/v1/auth/confirm-email
+   */
+  async confirmEmail(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(ConfirmEmailRequestSchema, req.body);
+
+    const user = await this.useCases.confirmEmail.execute(body.token);
+
+    res.json({ user: toUserDto(user) });
+  }
+
+  /**
+   * POST /api/v1/auth/resend-confirmation
+   *
+   * Responde siempre 202 con el mismo cuerpo: no revela si el email existe
+   */
+  async resendConfirmation(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(ResendConfirmationRequestSchema, req.body);
+
+    await this.useCases.resendEmailConfirmation.execute(body.email);
+
+    res.status(202).json({
+      message:
+        'Si la cuenta existe y está pendiente de confirmación, recibirá un nuevo email',
+    });
+  }
+
+  /**
+   * POST /api/v1/auth/forgot-password
+   *
+   * Responde siempre 202 con el mismo cuerpo: no revela si el email existe
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(ForgotPasswordRequestSchema, req.body);
+
+    await this.useCases.requestPasswordReset.execute(body.email);
+
+    res.status(202).json({
+      message:
+        'Si existe una cuenta con ese email, recibirá un enlace para restablecer la contraseña',
+    });
+  }
+
+  /**
+   * POST /api/v1/auth/reset-password
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(ResetPasswordRequestSchema, req.body);
+
+    await this.useCases.resetPassword.execute({
+      token: body.token,
+      password: body.password,
+    });
+
+    res.status(204).send();
+  }
+}
@@ -0,0 +1,24 @@
+// src/modules/auth/dto/AuthTokensDto.ts
+
+import { AuthTokens } from '@/core/use-cases/auth/AuthTokenIssuer';
+
+/**
+ * Representación HTTP de un par de tokens de autenticación
+ */
+export interface AuthTokensDto {
+  tokenType: 'Bearer';
+  accessToken: string;
+  accessTokenExpiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+export function toAuthTokensDto(tokens: AuthTokens): AuthTokensDto {
+  return {
+    tokenType: tokens.tokenType,
+    accessToken: tokens.accessToken,
+    accessTokenExpiresAt: tokens.accessTokenExpiresAt.toISOString(),
+    refreshToken: tokens.refreshToken,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt.toISOString(),
+  };
+}
@@ -0,0 +1,37 @@
+// src/modules/auth/routes/auth.routes.ts
+
+import { Response, Router } from 'express';
+import { AuthController } from '@/modules/auth/controllers/AuthController';
+
+/**
+ * Crea el router del módulo de autenticación.
+ * Se monta en /api/v1/auth desde la aplicación Express; el controlador se
+ * obtiene en cada petición con `resolveController` (del contenedor).
+ */
+export function createAuthRouter(
+  resolveController: (res: Response) => AuthController
+): Router {
+  const router = Router();
+
+  router.post('/register', (req, res) =>
+    resolveController(res).register(req, res)
+  );
+  router.post('/login', (req, res) => resolveController(res).login(req, res));
+  router.post('/refresh', (req, res) =>
+    resolveController(res).refresh(req, res)
+  );
+  router.post('/confirm-email', (req, res) =>
+    resolveController(res).confirmEmail(req, res)
+  );
+  router.post('/resend-confirmation', (req, res) =>
+    resolveController(res).resendConfirmation(req, res)
+  );
+  router.post('/forgot-password', (req, res) =>
+    resolveController(res).forgotPassword(req, res)
+  );
+  router.post('/reset-password', (req, res) =>
+    resolveController(res).resetPassword(req, res)
+  );
+
+  return router;
+}
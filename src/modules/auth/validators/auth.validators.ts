@@ -0,0 +1,68 @@
+// src/modules/auth/validators/auth.validators.ts
+
+import { z } from 'zod';
+
+/**
+ * Esquemas Zod para las peticiones del módulo de autenticación.
+ *
+ * Solo validan la forma de la petición (tipos y presencia). Las reglas de
+ * negocio (formato de email, fortaleza de la contraseña, etc.) las aplican
+ * los value objects del dominio.
+ */
+export const RegisterRequestSchema = z.object({
+  email: z.string({ message: 'El email es obligatorio' }),
+  username: z.string({ message: 'El nombre de usuario es obligatorio' }),
+  password: z.string({ message: 'La contraseña es obligatoria' }),
+  countryCode: z.string().nullable().optional(),
+});
+
+export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
+
+export const LoginRequestSchema = z.object({
+  // Email o nombre de usuario
+  identifier: z.string({
+    message: 'El email o nombre de usuario es obligatorio',
+  }),
+  password: z.string({ message: 'La contraseña es obligatoria' }),
+});
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+
+export const RefreshTokenRequestSchema = z.object({
+  refreshToken: z
+    .string({ message: 'El refresh token es obligatorio' })
+    .min(1, 'El refresh token es obligatorio'),
+});
+
+export type RefreshTokenRequest = z.infer<typeof RefreshTokenRequestSchema>;
+
+export const ConfirmEmailRequestSchema = z.object({
+  token: z
+    .string({ message: 'El token de confirmación es obligatorio' })
+    .min(1, 'El token de confirmación es obligatorio'),
+});
+
+export type ConfirmEmailRequest = z.infer<typeof ConfirmEmailRequestSchema>;
+
+export const ResendConfirmationRequestSchema = z.object({
+  email: z.string({ message: 'El email es obligatorio' }),
+});
+
+export type ResendConfirmationRequest = z.infer<
+  typeof ResendConfirmationRequestSchema
+>;
+
+export const ForgotPasswordRequestSchema = z.object({
+  email: z.string({ message: 'El email es obligatorio' }),
+});
+
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordRequestSchema>;
+
+export const ResetPasswordRequestSchema = z.object({
+  token: z
+    .string({ message: 'El token de restablecimiento es obligatorio' })
+    .min(1, 'El token de restablecimiento es obligatorio'),
+  password: z.string({ message: 'La contraseña es obligatoria' }),
+});
+
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordRequestSchema>;
@@ -0,0 +1,262 @@
+// src/modules/authoring/__tests__/AuthoringController.test.ts
+
+import supertest from 'supertest';
+import { createApp } from '@/infrastructure/web/app';
+import { createContainer, TOKENS } from '@/infrastructure/config/container';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+import { User } from '@/core/domain/entities/User';
+import { AuthoringTestBed } from '@/core/use-cases/authoring/__tests__/AuthoringTestBed';
+
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+describe('AuthoringController', () => {
+  let tokenService: JwtTokenService;
+  let bed: AuthoringTestBed;
+  let creator: User;
+  let request: ReturnType<typeof supertest>;
+
+  function bearer(user: User): string {
+    const { token } = tokenService.signAccessToken({
+      sub: user.id,
+      role: user.getRoleValue(),
+    });
+    return `Bearer ${token}`;
+  }
+
+  const createCourse = async (user: User) => {
+    const response = await request
+      .post('/api/v1/authoring/courses')
+      .set('Authorization', bearer(user))
+      .send({
+        title: 'Inglés para hispanohablantes',
+        sourceLanguage: 'es',
+        targetLanguage: 'en',
+      });
+    return response.body.course;
+  };
+
+  const createNode = async (
+    user: User,
+    kind: string,
+    parentId: string,
+    title: string
+  ) => {
+    const response = await request
+      .post(`/api/v1/authoring/${kind}`)
+      .set('Authorization', bearer(user))
+      .send({ parentId, title });
+    return response.body.node;
+  };
+
+  beforeEach(async () => {
+    tokenService = new JwtTokenService(SECRET);
+    bed = new AuthoringTestBed();
+    creator = await bed.createUser('creator', 'content_creator');
+
+    // Casos de uso y guards reales del contenedor sobre repositorios en memoria
+    const container = createContainer()
+      .registerValue(TOKENS.TokenService, tokenService)
+      .registerValue(TOKENS.UserRepository, bed.userRepository)
+      .registerValue(TOKENS.CourseRepository, bed.repositories.courseRepository)
+      .registerValue(
+        TOKENS.ExerciseRepository,
+        bed.repositories.exerciseRepository
+      )
+      .registerValue(TOKENS.UnitOfWork, bed.unitOfWork);
+    request = supertest(createApp(container));
+  });
+
+  describe('acceso', () => {
+    it('debería rechazar a los estudiantes con 403', async () => {
+      const student = await bed.createUser('student', 'student');
+
+      const response = await request
+        .get('/api/v1/authoring/courses')
+        .set('Authorization', bearer(student));
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('FORBIDDEN');
+    });
+
+    it('debería rechazar peticiones sin token con 401', async () => {
+      const response = await request.get('/api/v1/authoring/courses');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('debería impedir editar el curso de otro creador', async () => {
+      const course = await createCourse(creator);
+      const other = await bed.createUser('other', 'content_creator');
+
+      const response = await request
+        .patch(`/api/v1/authoring/courses/${course.id}`)
+        .set('Authorization', bearer(other))
+        .send({ version: 1, title: 'Mío' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('CONTENT_ACCESS_DENIED');
+    });
+
+    it('debería listar solo los cursos que el creador puede editar', async () => {
+      const own = await createCourse(creator);
+      await createCourse(await bed.createUser('other', 'content_creator'));
+
+      const response = await request
+        .get('/api/v1/authoring/courses')
+        .set('Authorization', bearer(creator));
+
+      expect(response.status).toBe(200);
+      expect(
+        response.body.courses.map((course: { id: string }) => course.id)
+      ).toEqual([own.id]);
+    });
+  });
+
+  describe('cursos y jerarquía', () => {
+    it('debería crear un curso con el creador como propietario', async () => {
+      const course = await createCourse(creator);
+
+      expect(course).toEqual(
+        expect.objectContaining({
+          slug: 'ingles-para-hispanohablantes',
+          ownerId: creator.id,
+          version: 1,
+        })
+      );
+    });
+
+    it('debería crear la jerarquía y devolverla en el índice del curso', async () => {
+      const course = await createCourse(creator);
+      const level = await createNode(creator, 'levels', course.id, 'A1');
+      const section = await createNode(
+        creator,
+        'sections',
+        level.id,
+        'Saludos'
+      );
+
+      const response = await request
+        .get(`/api/v1/authoring/courses/${course.id}`)
+        .set('Authorization', bearer(creator));
+
+      expect(response.status).toBe(200);
+      expect(response.body.levels).toEqual([
+        expect.objectContaining({
+          id: level.id,
+          kind: 'level',
+          position: 1,
+          version: 1,
+          sections: [expect.objectContaining({ id: section.id, modules: [] })],
+        }),
+      ]);
+    });
+
+    it('debería responder 409 al guardar sobre una versión anterior', async () => {
+      const course = await createCourse(creator);
+      const level = await createNode(creator, 'levels', course.id, 'A1');
+      const url = `/api/v1/authoring/levels/${level.id}`;
+
+      const first = await request
+        .patch(url)
+        .set('Authorization', bearer(creator))
+        .send({ version: 1, title: 'Principiante' });
+      const second = await request
+        .patch(url)
+        .set('Authorization', bearer(creator))
+        .send({ version: 1, title: 'Inicial' });
+
+      expect(first.status).toBe(200);
+      expect(first.body.node.version).toBe(2);
+      expect(second.status).toBe(409);
+      expect(second.body.code).toBe('CONTENT_VERSION_CONFLICT');
+    });
+
+    it('debería reordenar los niveles de un curso', async () => {
+      const course = await createCourse(creator);
+      const a1 = await createNode(creator, 'levels', course.id, 'A1');
+      const a2 = await createNode(creator, 'levels', course.id, 'A2');
+
+      const response = await request
+        .put(`/api/v1/authoring/courses/${course.id}/order`)
+        .set('Authorization', bearer(creator))
+        .send({ version: 1, orderedIds: [a2.id, a1.id] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        version: 2,
+        items: [
+          { id: a2.id, position: 1 },
+          { id: a1.id, position: 2 },
+        ],
+      });
+    });
+
+    it('debería exigir la versión para borrar', async () => {
+      const course = await createCourse(creator);
+      const url = `/api/v1/authoring/courses/${course.id}`;
+
+      const missing = await request
+        .delete(url)
+        .set('Authorization', bearer(creator));
+      const deleted = await request
+        .delete(`${url}?version=1`)
+        .set('Authorization', bearer(creator));
+
+      expect(missing.status).toBe(422);
+      expect(deleted.status).toBe(204);
+    });
+
+    it('debería rechazar un tipo de contenido desconocido', async () => {
+      const response = await request
+        .post('/api/v1/authoring/chapters')
+        .set('Authorization', bearer(creator))
+        .send({ parentId: creator.id, title: 'Capítulo' });
+
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe('ejercicios', () => {
+    it('debería crear un ejercicio y añadirlo a una lección', async () => {
+      const course = await createCourse(creator);
+      const level = await createNode(creator, 'levels', course.id, 'A1');
+      const section = await createNode(creator, 'sections', level.id, 'S');
+      const module = await createNode(creator, 'modules', section.id, 'M');
+      const lesson = await createNode(creator, 'lessons', module.id, 'L');
+
+      const created = await request
+        .post('/api/v1/authoring/exercises')
+        .set('Authorization', bearer(creator))
+        .send({
+          payload: {
+            type: 'translate',
+            sourceText: 'Hola',
+            acceptedTranslations: ['Hello'],
+          },
+        });
+      const attached = await request
+        .post(`/api/v1/authoring/lessons/${lesson.id}/exercises`)
+        .set('Authorization', bearer(creator))
+        .send({ version: 1, exerciseId: created.body.exercise.id });
+
+      expect(created.status).toBe(201);
+      expect(created.body.exercise).toEqual(
+        expect.objectContaining({ type: 'translate', ownerId: creator.id })
+      );
+      expect(attached.status).toBe(201);
+      expect(attached.body.lesson.version).toBe(2);
+      expect(attached.body.exercises).toEqual([
+        { exerciseId: created.body.exercise.id, position: 1 },
+      ]);
+    });
+
+    it('debería rechazar un payload inválido con 422', async () => {
+      const response = await request
+        .post('/api/v1/authoring/exercises')
+        .set('Authorization', bearer(creator))
+        .send({ payload: { type: 'translate' } });
+
+      expect(response.status).toBe(422);
+    });
+  });
+});
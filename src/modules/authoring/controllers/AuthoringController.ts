@@ -0,0 +1,502 @@
+// src/modules/authoring/controllers/AuthoringController.ts
+
+import { Request, Response } from 'express';
+import { ListEditableCoursesUseCase } from '@/core/use-cases/authoring/ListEditableCoursesUseCase';
+import { GetCourseOutlineUseCase } from '@/core/use-cases/authoring/GetCourseOutlineUseCase';
+import { CreateCourseUseCase } from '@/core/use-cases/authoring/CreateCourseUseCase';
+import { UpdateCourseUseCase } from '@/core/use-cases/authoring/UpdateCourseUseCase';
+import { DeleteCourseUseCase } from '@/core/use-cases/authoring/DeleteCourseUseCase';
+import { AddCourseCollaboratorUseCase } from '@/core/use-cases/authoring/AddCourseCollaboratorUseCase';
+import { RemoveCourseCollaboratorUseCase } from '@/core/use-cases/authoring/RemoveCourseCollaboratorUseCase';
+import { CreateContentNodeUseCase } from '@/core/use-cases/authoring/CreateContentNodeUseCase';
+import { UpdateContentNodeUseCase } from '@/core/use-cases/authoring/UpdateContentNodeUseCase';
+import { DeleteContentNodeUseCase } from '@/core/use-cases/authoring/DeleteContentNodeUseCase';
+import { ReorderContentUseCase } from '@/core/use-cases/authoring/ReorderContentUseCase';
+import { CreateExerciseUseCase } from '@/core/use-cases/authoring/CreateExerciseUseCase';
+import { GetExerciseUseCase } from '@/core/use-cases/authoring/GetExerciseUseCase';
+import { UpdateExerciseUseCase } from '@/core/use-cases/authoring/UpdateExerciseUseCase';
+import { DeleteExerciseUseCase } from '@/core/use-cases/authoring/DeleteExerciseUseCase';
+import { AttachExerciseUseCase } from '@/core/use-cases/authoring/AttachExerciseUseCase';
+import { DetachExerciseUseCase } from '@/core/use-cases/authoring/DetachExerciseUseCase';
+import { GetPublicationUseCase } from '@/core/use-cases/authoring/GetPublicationUseCase';
+import { SubmitForReviewUseCase } from '@/core/use-cases/authoring/SubmitForReviewUseCase';
+import { ReviewPublicationUseCase } from '@/core/use-cases/authoring/ReviewPublicationUseCase';
+import { RollBackPublicationUseCase } from '@/core/use-cases/authoring/RollBackPublicationUseCase';
+import { ArchivePublicationUseCase } from '@/core/use-cases/authoring/ArchivePublicationUseCase';
+import { ListPendingReviewsUseCase } from '@/core/use-cases/authoring/ListPendingReviewsUseCase';
+import { parseRequest } from '@/infrastructure/web/validators/parseRequest';
+import { getCurrentUser } from '@/infrastructure/web/middleware/requireAdmin';
+import {
+  AddCollaboratorRequestSchema,
+  ApprovePublicationRequestSchema,
+  AttachExerciseRequestSchema,
+  CollaboratorParamsSchema,
+  ContainerParamsSchema,
+  CourseIdParamsSchema,
+  CreateCourseRequestSchema,
+  CreateExerciseRequestSchema,
+  CreateNodeRequestSchema,
+  ExerciseIdParamsSchema,
+  LessonExerciseParamsSchema,
+  LessonIdParamsSchema,
+  NodeCollectionParamsSchema,
+  NodeParamsSchema,
+  PublicationActionRequestSchema,
+  PublicationParamsSchema,
+  RejectPublicationRequestSchema,
+  ReorderRequestSchema,
+  RollBackPublicationRequestSchema,
+  UpdateCourseRequestSchema,
+  UpdateExerciseRequestSchema,
+  UpdateNodeRequestSchema,
+  VersionQuerySchema,
+} from '@/modules/authoring/validators/authoring.validators';
+import {
+  toAuthoringCourseDto,
+  toContentNodeDto,
+  toCourseOutlineDto,
+  toExerciseDto,
+  toLessonExerciseDto,
+  toOrderedItemDto,
+  toPublicationDetailsDto,
+  toPublicationDto,
+} from '@/modules/authoring/dto/AuthoringDto';
+
+/**
+ * Casos de uso que expone el controlador de edición de contenido
+ */
+export interface AuthoringUseCases {
+  listCourses: ListEditableCoursesUseCase;
+  getCourseOutline: GetCourseOutlineUseCase;
+  createCourse: CreateCourseUseCase;
+  updateCourse: UpdateCourseUseCase;
+  deleteCourse: DeleteCourseUseCase;
+  addCollaborator: AddCourseCollaboratorUseCase;
+  removeCollaborator: RemoveCourseCollaboratorUseCase;
+  createNode: CreateContentNodeUseCase;
+  updateNode: UpdateContentNodeUseCase;
+  deleteNode: DeleteContentNodeUseCase;
+  reorder: ReorderContentUseCase;
+  createExercise: CreateExerciseUseCase;
+  getExercise: GetExerciseUseCase;
+  updateExercise: UpdateExerciseUseCase;
+  deleteExercise: DeleteExerciseUseCase;
+  attachExercise: AttachExerciseUseCase;
+  detachExercise: DetachExerciseUseCase;
+  getPublication: GetPublicationUseCase;
+  submitForReview: SubmitForReviewUseCase;
+  reviewPublication: ReviewPublicationUseCase;
+  rollBackPublication: RollBackPublicationUseCase;
+  archivePublication: ArchivePublicationUseCase;
+  listPendingReviews: ListPendingReviewsUseCase;
+}
+
+/**
+ * Controlador HTTP de la edición de contenido.
+ *
+ * Sus rutas van protegidas por los middlewares de autenticación y de
+ * creador de contenido; qué cursos puede editar cada usuario lo deciden los
+ * casos de uso (AuthoringAccess). Los cambios llevan la `version` del
+ * elemento que se editó y responden 409 si otro editor guardó antes.
+ *
+ * Las acciones de publicación llevan la `version` de la publicación (0 si
+ * el contenido nunca se envió a revisar).
+ */
+export class AuthoringController {
+  constructor(private readonly useCases: AuthoringUseCases) {}
+
+  /**
+   * GET /api/v1/authoring/courses
+   */
+  async listCourses(_req: Request, res: Response): Promise<void> {
+    const courses = await this.useCases.listCourses.execute(
+      getCurrentUser(res)
+    );
+
+    res.json({ courses: courses.map(toAuthoringCourseDto) });
+  }
+
+  /**
+   * GET /api/v1/authoring/courses/:id
+   */
+  async getCourse(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(CourseIdParamsSchema, req.params);
+
+    const outline = await this.useCases.getCourseOutline.execute({
+      actor: getCurrentUser(res),
+      courseId: id,
+    });
+
+    res.json(toCourseOutlineDto(outline));
+  }
+
+  /**
+   * POST /api/v1/authoring/courses
+   */
+  async createCourse(req: Request, res: Response): Promise<void> {
+    const body = parseRequest(CreateCourseRequestSchema, req.body);
+
+    const course = await this.useCases.createCourse.execute({
+      actor: getCurrentUser(res),
+      ...body,
+    });
+
+    res.status(201).json({ course: toAuthoringCourseDto(course) });
+  }
+
+  /**
+   * PATCH /api/v1/authoring/courses/:id
+   */
+  async updateCourse(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(CourseIdParamsSchema, req.params);
+    const { sourceLanguage, targetLanguage, ...body } = parseRequest(
+      UpdateCourseRequestSchema,
+      req.body
+    );
+
+    const course = await this.useCases.updateCourse.execute({
+      actor: getCurrentUser(res),
+      courseId: id,
+      ...body,
+      languages:
+        sourceLanguage !== undefined && targetLanguage !== undefined
+          ? { source: sourceLanguage, target: targetLanguage }
+          : undefined,
+    });
+
+    res.json({ course: toAuthoringCourseDto(course) });
+  }
+
+  /**
+   * DELETE /api/v1/authoring/courses/:id?version=...
+   */
+  async deleteCourse(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(CourseIdParamsSchema, req.params);
+    const { version } = parseRequest(VersionQuerySchema, req.query);
+
+    await this.useCases.deleteCourse.execute({
+      actor: getCurrentUser(res),
+      courseId: id,
+      version,
+    });
+
+    res.status(204).send();
+  }
+
+  /**
+   * POST /api/v1/authoring/courses/:id/collaborators
+   */
+  async addCollaborator(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(CourseIdParamsSchema, req.params);
+    const { userId } = parseRequest(AddCollaboratorRequestSchema, req.body);
+
+    const collaboratorIds = await this.useCases.addCollaborator.execute({
+      actor: getCurrentUser(res),
+      courseId: id,
+      userId,
+    });
+
+    res.json({ collaboratorIds });
+  }
+
+  /**
+   * DELETE /api/v1/authoring/courses/:id/collaborators/:userId
+   */
+  async removeCollaborator(req: Request, res: Response): Promise<void> {
+    const { id, userId } = parseRequest(CollaboratorParamsSchema, req.params);
+
+    const collaboratorIds = await this.useCases.removeCollaborator.execute({
+      actor: getCurrentUser(res),
+      courseId: id,
+      userId,
+    });
+
+    res.json({ collaboratorIds });
+  }
+
+  /**
+   * POST /api/v1/authoring/:kind (levels, sections, modules o lessons)
+   */
+  async createNode(req: Request, res: Response): Promise<void> {
+    const { kind } = parseRequest(NodeCollectionParamsSchema, req.params);
+    const body = parseRequest(CreateNodeRequestSchema, req.body);
+
+    const node = await this.useCases.createNode.execute({
+      actor: getCurrentUser(res),
+      kind,
+      ...body,
+    });
+
+    res.status(201).json({ node: toContentNodeDto(node) });
+  }
+
+  /**
+   * PATCH /api/v1/authoring/:kind/:id
+   */
+  async updateNode(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(NodeParamsSchema, req.params);
+    const body = parseRequest(UpdateNodeRequestSchema, req.body);
+
+    const node = await this.useCases.updateNode.execute({
+      actor: getCurrentUser(res),
+      kind,
+      id,
+      ...body,
+    });
+
+    res.json({ node: toContentNodeDto(node) });
+  }
+
+  /**
+   * DELETE /api/v1/authoring/:kind/:id?version=...
+   */
+  async deleteNode(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(NodeParamsSchema, req.params);
+    const { version } = parseRequest(VersionQuerySchema, req.query);
+
+    await this.useCases.deleteNode.execute({
+      actor: getCurrentUser(res),
+      kind,
+      id,
+      version,
+    });
+
+    res.status(204).send();
+  }
+
+  /**
+   * PUT /api/v1/authoring/:kind/:id/order (courses, levels, sections,
+   * modules o lessons; en una lección se ordenan sus ejercicios)
+   */
+  async reorder(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(ContainerParamsSchema, req.params);
+    const body = parseRequest(ReorderRequestSchema, req.body);
+
+    const result = await this.useCases.reorder.execute({
+      actor: getCurrentUser(res),
+      kind,
+      id,
+      ...body,
+    });
+
+    res.json({
+      version: result.container.version,
+      items: result.items.map(toOrderedItemDto),
+    });
+  }
+
+  /**
+   * POST /api/v1/authoring/exercises
+   */
+  async createExercise(req: Request, res: Response): Promise<void> {
+    const { payload } = parseRequest(CreateExerciseRequestSchema, req.body);
+
+    const exercise = await this.useCases.createExercise.execute({
+      actor: getCurrentUser(res),
+      payload,
+    });
+
+    res.status(201).json({ exercise: toExerciseDto(exercise) });
+  }
+
+  /**
+   * GET /api/v1/authoring/exercises/:id
+   */
+  async getExercise(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(ExerciseIdParamsSchema, req.params);
+
+    const exercise = await this.useCases.getExercise.execute({
+      actor: getCurrentUser(res),
+      exerciseId: id,
+    });
+
+    res.json({ exercise: toExerciseDto(exercise) });
+  }
+
+  /**
+   * PATCH /api/v1/authoring/exercises/:id
+   */
+  async updateExercise(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(ExerciseIdParamsSchema, req.params);
+    const body = parseRequest(UpdateExerciseRequestSchema, req.body);
+
+    const exercise = await this.useCases.updateExercise.execute({
+      actor: getCurrentUser(res),
+      exerciseId: id,
+      ...body,
+    });
+
+    res.json({ exercise: toExerciseDto(exercise) });
+  }
+
+  /**
+   * DELETE /api/v1/authoring/exercises/:id?version=...
+   */
+  async deleteExercise(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(ExerciseIdParamsSchema, req.params);
+    const { version } = parseRequest(VersionQuerySchema, req.query);
+
+    await this.useCases.deleteExercise.execute({
+      actor: getCurrentUser(res),
+      exerciseId: id,
+      version,
+    });
+
+    res.status(204).send();
+  }
+
+  /**
+   * POST /api/v1/authoring/lessons/:id/exercises
+   */
+  async attachExercise(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(LessonIdParamsSchema, req.params);
+    const body = parseRequest(AttachExerciseRequestSchema, req.body);
+
+    const result = await this.useCases.attachExercise.execute({
+      actor: getCurrentUser(res),
+      lessonId: id,
+      ...body,
+    });
+
+    res.status(201).json({
+      lesson: toContentNodeDto(result.lesson),
+      exercises: result.exercises.map(toLessonExerciseDto),
+    });
+  }
+
+  /**
+   * DELETE /api/v1/authoring/lessons/:id/exercises/:exerciseId?version=...
+   */
+  async detachExercise(req: Request, res: Response): Promise<void> {
+    const { id, exerciseId } = parseRequest(
+      LessonExerciseParamsSchema,
+      req.params
+    );
+    const { version } = parseRequest(VersionQuerySchema, req.query);
+
+    const result = await this.useCases.detachExercise.execute({
+      actor: getCurrentUser(res),
+      lessonId: id,
+      exerciseId,
+      version,
+    });
+
+    res.json({
+      lesson: toContentNodeDto(result.lesson),
+      exercises: result.exercises.map(toLessonExerciseDto),
+    });
+  }
+
+  /**
+   * GET /api/v1/authoring/:kind/:id/publication (courses o lessons)
+   */
+  async getPublication(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(PublicationParamsSchema, req.params);
+
+    const details = await this.useCases.getPublication.execute({
+      actor: getCurrentUser(res),
+      kind,
+      contentId: id,
+    });
+
+    res.json(toPublicationDetailsDto(details));
+  }
+
+  /**
+   * POST /api/v1/authoring/:kind/:id/publication/submit
+   */
+  async submitForReview(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(PublicationParamsSchema, req.params);
+    const { version } = parseRequest(PublicationActionRequestSchema, req.body);
+
+    const publication = await this.useCases.submitForReview.execute({
+      actor: getCurrentUser(res),
+      kind,
+      contentId: id,
+      version,
+    });
+
+    res.json({ publication: toPublicationDto(publication) });
+  }
+
+  /**
+   * POST /api/v1/authoring/:kind/:id/publication/approve (administradores)
+   */
+  async approvePublication(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(PublicationParamsSchema, req.params);
+    const body = parseRequest(ApprovePublicationRequestSchema, req.body);
+
+    const publication = await this.useCases.reviewPublication.execute({
+      actor: getCurrentUser(res),
+      kind,
+      contentId: id,
+      decision: 'approve',
+      ...body,
+    });
+
+    res.json({ publication: toPublicationDto(publication) });
+  }
+
+  /**
+   * POST /api/v1/authoring/:kind/:id/publication/reject (administradores)
+   */
+  async rejectPublication(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(PublicationParamsSchema, req.params);
+    const body = parseRequest(RejectPublicationRequestSchema, req.body);
+
+    const publication = await this.useCases.reviewPublication.execute({
+      actor: getCurrentUser(res),
+      kind,
+      contentId: id,
+      decision: 'reject',
+      ...body,
+    });
+
+    res.json({ publication: toPublicationDto(publication) });
+  }
+
+  /**
+   * POST /api/v1/authoring/:kind/:id/publication/rollback
+   */
+  async rollBackPublication(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(PublicationParamsSchema, req.params);
+    const body = parseRequest(RollBackPublicationRequestSchema, req.body);
+
+    const publication = await this.useCases.rollBackPublication.execute({
+      actor: getCurrentUser(res),
+      kind,
+      contentId: id,
+      ...body,
+    });
+
+    res.json({ publication: toPublicationDto(publication) });
+  }
+
+  /**
+   * POST /api/v1/authoring/:kind/:id/publication/archive
+   */
+  async archivePublication(req: Request, res: Response): Promise<void> {
+    const { kind, id } = parseRequest(PublicationParamsSchema, req.params);
+    const { version } = parseRequest(PublicationActionRequestSchema, req.body);
+
+    const publication = await this.useCases.archivePublication.execute({
+      actor: getCurrentUser(res),
+      kind,
+      contentId: id,
+      version,
+    });
+
+    res.json({ publication: toPublicationDto(publication) });
+  }
+
+  /**
+   * GET /api/v1/authoring/reviews (administradores)
+   */
+  async listReviews(_req: Request, res: Response): Promise<void> {
+    const publications = await this.useCases.listPendingReviews.execute(
+      getCurrentUser(res)
+    );
+
+    res.json({ publications: publications.map(toPublicationDto) });
+  }
+}
@@ -0,0 +1,245 @@
+// src/modules/authoring/dto/AuthoringDto.ts
+
+import { Course } from '@/core/domain/entities/Course';
+import { Exercise } from '@/core/domain/entities/Exercise';
+import { LessonExercise } from '@/core/domain/entities/LessonExercise';
+import { Publication } from '@/core/domain/entities/Publication';
+import {
+  PublishedDocument,
+  PublishedSnapshot,
+} from '@/core/domain/entities/PublishedSnapshot';
+import { PublicationHistoryEntry } from '@/core/domain/entities/PublicationHistoryEntry';
+import { OrderedSibling } from '@/core/domain/services/ContentHierarchy';
+import { AnyContentNode } from '@/core/use-cases/authoring/ContentNodes';
+import { CourseOutline } from '@/core/use-cases/authoring/GetCourseOutlineUseCase';
+import { PublicationDetails } from '@/core/use-cases/authoring/GetPublicationUseCase';
+
+/**
+ * Representación del contenido para el editor. Cada elemento lleva su
+ * `version`: el cliente la devuelve al guardar un cambio para que no pise
+ * los de otro editor.
+ */
+export interface AuthoringCourseDto {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  sourceLanguage: string;
+  targetLanguage: string;
+  ownerId: string | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContentNodeDto {
+  id: string;
+  kind: string;
+  parentId: string;
+  title: string;
+  position: number;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LessonExerciseDto {
+  exerciseId: string;
+  position: number;
+}
+
+export interface ExerciseDto {
+  id: string;
+  type: string;
+  payload: unknown;
+  ownerId: string | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Posición de un elemento tras reordenar su contenedor
+export interface OrderedItemDto {
+  id: string;
+  position: number;
+}
+
+export interface CourseOutlineDto {
+  course: AuthoringCourseDto;
+  collaboratorIds: string[];
+  levels: (ContentNodeDto & {
+    sections: (ContentNodeDto & {
+      modules: (ContentNodeDto & {
+        lessons: (ContentNodeDto & { exercises: LessonExerciseDto[] })[];
+      })[];
+    })[];
+  })[];
+}
+
+export function toAuthoringCourseDto(course: Course): AuthoringCourseDto {
+  return {
+    id: course.id,
+    slug: course.slug.value,
+    title: course.title.value,
+    description: course.description,
+    sourceLanguage: course.languagePair.source.value,
+    targetLanguage: course.languagePair.target.value,
+    ownerId: course.ownerId,
+    version: course.version,
+    createdAt: course.createdAt.toISOString(),
+    updatedAt: course.updatedAt.toISOString(),
+  };
+}
+
+export function toContentNodeDto(node: AnyContentNode): ContentNodeDto {
+  return {
+    id: node.id,
+    kind: node.kind,
+    parentId: node.parentId,
+    title: node.title.value,
+    position: node.position.value,
+    version: node.version,
+    createdAt: node.createdAt.toISOString(),
+    updatedAt: node.updatedAt.toISOString(),
+  };
+}
+
+export function toLessonExerciseDto(link: LessonExercise): LessonExerciseDto {
+  return {
+    exerciseId: link.exerciseId,
+    position: link.position.value,
+  };
+}
+
+export function toExerciseDto(exercise: Exercise): ExerciseDto {
+  return {
+    id: exercise.id,
+    type: exercise.type,
+    payload: exercise.payload.data,
+    ownerId: exercise.ownerId,
+    version: exercise.version,
+    createdAt: exercise.createdAt.toISOString(),
+    updatedAt: exercise.updatedAt.toISOString(),
+  };
+}
+
+export function toOrderedItemDto(item: OrderedSibling): OrderedItemDto {
+  return { id: item.id, position: item.position.value };
+}
+
+export function toCourseOutlineDto(outline: CourseOutline): CourseOutlineDto {
+  return {
+    course: toAuthoringCourseDto(outline.course),
+    collaboratorIds: outline.collaboratorIds,
+    levels: outline.levels.map(({ level, sections }) => ({
+      ...toContentNodeDto(level),
+      sections: sections.map(({ section, modules }) => ({
+        ...toContentNodeDto(section),
+        modules: modules.map(({ module, lessons }) => ({
+          ...toContentNodeDto(module),
+          lessons: lessons.map(({ lesson, exercises }) => ({
+            ...toContentNodeDto(lesson),
+            exercises: exercises.map(toLessonExerciseDto),
+          })),
+        })),
+      })),
+    })),
+  };
+}
+
+export interface PublicationDto {
+  kind: string;
+  contentId: string;
+  status: string;
+  publishedNumber: number | null; // Instantánea que ven los alumnos
+  latestNumber: number;
+  pending: {
+    document: PublishedDocument;
+    contentVersion: number;
+    submittedBy: string;
+    submittedAt: string;
+  } | null;
+  version: number;
+  updatedAt: string;
+}
+
+export interface PublishedSnapshotDto {
+  number: number;
+  document: PublishedDocument;
+  contentVersion: number;
+  submittedBy: string | null;
+  approvedBy: string | null;
+  publishedAt: string;
+}
+
+export interface PublicationHistoryEntryDto {
+  action: string;
+  fromStatus: string;
+  toStatus: string;
+  snapshotNumber: number | null;
+  comment: string | null;
+  actorId: string | null;
+  createdAt: string;
+}
+
+export interface PublicationDetailsDto {
+  publication: PublicationDto;
+  snapshots: PublishedSnapshotDto[];
+  history: PublicationHistoryEntryDto[];
+}
+
+export function toPublicationDto(publication: Publication): PublicationDto {
+  const pending = publication.pending;
+  return {
+    kind: publication.kind,
+    contentId: publication.contentId,
+    status: publication.status,
+    publishedNumber: publication.publishedNumber,
+    latestNumber: publication.latestNumber,
+    pending: pending && {
+      document: pending.document,
+      contentVersion: pending.contentVersion,
+      submittedBy: pending.submittedBy,
+      submittedAt: pending.submittedAt.toISOString(),
+    },
+    version: publication.version,
+    updatedAt: publication.updatedAt.toISOString(),
+  };
+}
+
+export function toPublishedSnapshotDto(
+  snapshot: PublishedSnapshot
+): PublishedSnapshotDto {
+  return {
+    number: snapshot.number,
+    document: snapshot.document,
+    contentVersion: snapshot.contentVersion,
+    submittedBy: snapshot.submittedBy,
+    approvedBy: snapshot.approvedBy,
+    publishedAt: snapshot.publishedAt.toISOString(),
+  };
+}
+
+export function toPublicationHistoryEntryDto(
+  entry: PublicationHistoryEntry
+): PublicationHistoryEntryDto {
+  return {
+    action: entry.action,
+    fromStatus: entry.fromStatus,
+    toStatus: entry.toStatus,
+    snapshotNumber: entry.snapshotNumber,
+    comment: entry.comment,
+    actorId: entry.actorId,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+export function toPublicationDetailsDto(
+  details: PublicationDetails
+): PublicationDetailsDto {
+  return {
+    publication: toPublicationDto(details.publication),
+    snapshots: details.snapshots.map(toPublishedSnapshotDto),
+    history: details.history.map(toPublicationHistoryEntryDto),
+  };
+}
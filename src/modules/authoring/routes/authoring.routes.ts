@@ -0,0 +1,101 @@
+// src/modules/authoring/routes/authoring.routes.ts
+
+import { RequestHandler, Response, Router } from 'express';
+import { AuthoringController } from '@/modules/authoring/controllers/AuthoringController';
+
+/**
+ * Crea el router de edición de contenido.
+ * Se monta en /api/v1/authoring; `guards` (autenticación y rol de creador de
+ * contenido) se aplican a todas sus rutas. El controlador se obtiene en cada
+ * petición con `resolveController` (del contenedor).
+ *
+ * Las rutas de cursos, ejercicios y publicaciones van antes que las
+ * genéricas `/:kind/...` de niveles, secciones, módulos y lecciones.
+ */
+export function createAuthoringRouter(
+  resolveController: (res: Response) => AuthoringController,
+  guards: RequestHandler[]
+): Router {
+  const router = Router();
+
+  router.use(...guards);
+
+  router.get('/courses', (req, res) =>
+    resolveController(res).listCourses(req, res)
+  );
+  router.post('/courses', (req, res) =>
+    resolveController(res).createCourse(req, res)
+  );
+  router.get('/courses/:id', (req, res) =>
+    resolveController(res).getCourse(req, res)
+  );
+  router.patch('/courses/:id', (req, res) =>
+    resolveController(res).updateCourse(req, res)
+  );
+  router.delete('/courses/:id', (req, res) =>
+    resolveController(res).deleteCourse(req, res)
+  );
+  router.post('/courses/:id/collaborators', (req, res) =>
+    resolveController(res).addCollaborator(req, res)
+  );
+  router.delete('/courses/:id/collaborators/:userId', (req, res) =>
+    resolveController(res).removeCollaborator(req, res)
+  );
+
+  router.post('/exercises', (req, res) =>
+    resolveController(res).createExercise(req, res)
+  );
+  router.get('/exercises/:id', (req, res) =>
+    resolveController(res).getExercise(req, res)
+  );
+  router.patch('/exercises/:id', (req, res) =>
+    resolveController(res).updateExercise(req, res)
+  );
+  router.delete('/exercises/:id', (req, res) =>
+    resolveController(res).deleteExercise(req, res)
+  );
+
+  router.post('/lessons/:id/exercises', (req, res) =>
+    resolveController(res).attachExercise(req, res)
+  );
+  router.delete('/lessons/:id/exercises/:exerciseId', (req, res) =>
+    resolveController(res).detachExercise(req, res)
+  );
+
+  router.get('/reviews', (req, res) =>
+    resolveController(res).listReviews(req, res)
+  );
+  router.get('/:kind/:id/publication', (req, res) =>
+    resolveController(res).getPublication(req, res)
+  );
+  router.post('/:kind/:id/publication/submit', (req, res) =>
+    resolveController(res).submitForReview(req, res)
+  );
+  router.post('/:kind/:id/publication/approve', (req, res) =>
+    resolveController(res).approvePublication(req, res)
+  );
+  router.post('/:kind/:id/publication/reject', (req, res) =>
+    resolveController(res).rejectPublication(req, res)
+  );
+  router.post('/:kind/:id/publication/rollback', (req, res) =>
+    resolveController(res).rollBackPublication(req, res)
+  );
+  router.post('/:kind/:id/publication/archive', (req, res) =>
+    resolveController(res).archivePublication(req, res)
+  );
+
+  router.put('/:kind/:id/order', (req, res) =>
+    resolveController(res).reorder(req, res)
+  );
+  router.post('/:kind', (req, res) =>
+    resolveController(res).createNode(req, res)
+  );
+  router.patch('/:kind/:id', (req, res) =>
+    resolveController(res).updateNode(req, res)
+  );
+  router.delete('/:kind/:id', (req, res) =>
+    resolveController(res).deleteNode(req, res)
+  );
+
+  return router;
+}
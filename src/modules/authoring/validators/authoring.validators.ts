@@ -0,0 +1,217 @@
+// src/modules/authoring/validators/authoring.validators.ts
+
+import { z } from 'zod';
+import { ChildContentKind } from '@/core/domain/services/ContentHierarchy';
+
+/**
+ * Esquemas Zod para las peticiones de edición de contenido. Los valores de
+ * los campos (títulos, slugs, idiomas, payloads) los validan los casos de
+ * uso con sus value objects; aquí solo se comprueba la forma.
+ */
+
+// Tipo de elemento de cada colección de la URL
+export const NODE_KINDS_BY_PATH: Record<string, ChildContentKind> = {
+  levels: 'level',
+  sections: 'section',
+  modules: 'module',
+  lessons: 'lesson',
+};
+
+const id = (name: string) =>
+  z.uuid({ message: `El ID de ${name} debe ser un UUID válido` });
+
+const version = z.coerce
+  .number({ message: 'La versión debe ser un número' })
+  .int('La versión debe ser un número entero')
+  .min(1, 'La versión debe ser al menos 1');
+
+const position = z
+  .number({ message: 'La posición debe ser un número' })
+  .int('La posición debe ser un número entero');
+
+export const CourseIdParamsSchema = z.object({
+  id: id('curso'),
+});
+
+export const CollaboratorParamsSchema = z.object({
+  id: id('curso'),
+  userId: id('usuario'),
+});
+
+export const NodeCollectionParamsSchema = z.object({
+  kind: z
+    .enum(['levels', 'sections', 'modules', 'lessons'], {
+      message: 'El tipo debe ser levels, sections, modules o lessons',
+    })
+    .transform((kind) => NODE_KINDS_BY_PATH[kind]),
+});
+
+export const NodeParamsSchema = NodeCollectionParamsSchema.extend({
+  id: id('contenido'),
+});
+
+// Contenedores que se reordenan: el curso (sus niveles) y cada elemento
+export const ContainerParamsSchema = z.object({
+  kind: z
+    .enum(['courses', 'levels', 'sections', 'modules', 'lessons'], {
+      message: 'El tipo debe ser courses, levels, sections, modules o lessons',
+    })
+    .transform((kind) =>
+      kind === 'courses' ? ('course' as const) : NODE_KINDS_BY_PATH[kind]
+    ),
+  id: id('contenido'),
+});
+
+export const ExerciseIdParamsSchema = z.object({
+  id: id('ejercicio'),
+});
+
+export const LessonIdParamsSchema = z.object({
+  id: id('lección'),
+});
+
+export const LessonExerciseParamsSchema = z.object({
+  id: id('lección'),
+  exerciseId: id('ejercicio'),
+});
+
+// Borrados y cambios sin cuerpo: la versión llega en la query
+export const VersionQuerySchema = z.object({
+  version,
+});
+
+export const CreateCourseRequestSchema = z.object({
+  title: z.string({ message: 'El título es obligatorio' }),
+  slug: z.string({ message: 'El slug debe ser un texto' }).optional(),
+  description: z
+    .string({ message: 'La descripción debe ser un texto' })
+    .nullable()
+    .optional(),
+  sourceLanguage: z.string({ message: 'El idioma de origen es obligatorio' }),
+  targetLanguage: z.string({
+    message: 'El idioma que se aprende es obligatorio',
+  }),
+});
+
+export type CreateCourseRequest = z.infer<typeof CreateCourseRequestSchema>;
+
+export const UpdateCourseRequestSchema = z
+  .object({
+    version,
+    title: z.string({ message: 'El título debe ser un texto' }).optional(),
+    slug: z.string({ message: 'El slug debe ser un texto' }).optional(),
+    description: z
+      .string({ message: 'La descripción debe ser un texto' })
+      .nullable()
+      .optional(),
+    sourceLanguage: z
+      .string({ message: 'El idioma de origen debe ser un texto' })
+      .optional(),
+    targetLanguage: z
+      .string({ message: 'El idioma que se aprende debe ser un texto' })
+      .optional(),
+  })
+  .refine(
+    (body) =>
+      (body.sourceLanguage === undefined) ===
+      (body.targetLanguage === undefined),
+    {
+      message: 'Los dos idiomas del curso se cambian juntos',
+      path: ['targetLanguage'],
+    }
+  );
+
+export type UpdateCourseRequest = z.infer<typeof UpdateCourseRequestSchema>;
+
+export const AddCollaboratorRequestSchema = z.object({
+  userId: id('usuario'),
+});
+
+export const CreateNodeRequestSchema = z.object({
+  parentId: id('contenedor'),
+  title: z.string({ message: 'El título es obligatorio' }),
+  position: position.optional(),
+});
+
+export type CreateNodeRequest = z.infer<typeof CreateNodeRequestSchema>;
+
+export const UpdateNodeRequestSchema = z.object({
+  version,
+  title: z.string({ message: 'El título debe ser un texto' }).optional(),
+  position: position.optional(),
+});
+
+export type UpdateNodeRequest = z.infer<typeof UpdateNodeRequestSchema>;
+
+export const ReorderRequestSchema = z.object({
+  version,
+  orderedIds: z.array(id('contenido'), {
+    message: 'orderedIds debe ser una lista de IDs',
+  }),
+});
+
+export type ReorderRequest = z.infer<typeof ReorderRequestSchema>;
+
+export const CreateExerciseRequestSchema = z.object({
+  payload: z.unknown().refine((payload) => payload !== undefined, {
+    message: 'El contenido del ejercicio es obligatorio',
+  }),
+});
+
+export const UpdateExerciseRequestSchema = CreateExerciseRequestSchema.extend({
+  version,
+});
+
+export const AttachExerciseRequestSchema = z.object({
+  version,
+  exerciseId: id('ejercicio'),
+  position: position.optional(),
+});
+
+export type AttachExerciseRequest = z.infer<typeof AttachExerciseRequestSchema>;
+
+// Contenido que se publica: cursos (su índice) y lecciones (sus ejercicios)
+export const PublicationParamsSchema = z.object({
+  kind: z
+    .enum(['courses', 'lessons'], {
+      message: 'El tipo debe ser courses o lessons',
+    })
+    .transform((kind) =>
+      kind === 'courses' ? ('course' as const) : ('lesson' as const)
+    ),
+  id: id('contenido'),
+});
+
+// La publicación empieza en la versión 0: el contenido nunca se envió
+const publicationVersion = z
+  .number({ message: 'La versión debe ser un número' })
+  .int('La versión debe ser un número entero')
+  .min(0, 'La versión no puede ser negativa');
+
+const comment = z.string({ message: 'El comentario debe ser un texto' });
+
+export const PublicationActionRequestSchema = z.object({
+  version: publicationVersion,
+});
+
+export const ApprovePublicationRequestSchema =
+  PublicationActionRequestSchema.extend({
+    comment: comment.optional(),
+  });
+
+export const RejectPublicationRequestSchema =
+  PublicationActionRequestSchema.extend({
+    comment: z.string({ message: 'El comentario es obligatorio' }),
+  });
+
+export const RollBackPublicationRequestSchema =
+  PublicationActionRequestSchema.extend({
+    snapshotNumber: z
+      .number({ message: 'El número de instantánea debe ser un número' })
+      .int('El número de instantánea debe ser un número entero'),
+    comment: comment.optional(),
+  });
+
+export type RollBackPublicationRequest = z.infer<
+  typeof RollBackPublicationRequestSchema
+>;
@@ -0,0 +1,285 @@
+// src/modules/catalog/__tests__/CatalogController.test.ts
+
+import supertest from 'supertest';
+import { createApp } from '@/infrastructure/web/app';
+import { createContainer, TOKENS } from '@/infrastructure/config/container';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+import { User } from '@/core/domain/entities/User';
+import { Course } from '@/core/domain/entities/Course';
+import { Lesson } from '@/core/domain/entities/Lesson';
+import { AuthoringTestBed } from '@/core/use-cases/authoring/__tests__/AuthoringTestBed';
+
+const SECRET = 'test-secret-with-at-least-32-characters!';
+
+describe('CatalogController', () => {
+  let tokenService: JwtTokenService;
+  let bed: AuthoringTestBed;
+  let creator: User;
+  let admin: User;
+  let student: User;
+  let course: Course;
+  let lesson: Lesson;
+  let request: ReturnType<typeof supertest>;
+
+  function bearer(user: User): string {
+    const { token } = tokenService.signAccessToken({
+      sub: user.id,
+      role: user.getRoleValue(),
+    });
+    return `Bearer ${token}`;
+  }
+
+  // Envía a revisar el contenido tal como está y lo aprueba
+  const publish = async (kind: 'courses' | 'lessons', id: string) => {
+    const path = `/api/v1/authoring/${kind}/${id}/publication`;
+    const current = await request
+      .get(path)
+      .set('Authorization', bearer(creator));
+    const submitted = await request
+      .post(`${path}/submit`)
+      .set('Authorization', bearer(creator))
+      .send({ version: current.body.publication.version });
+    const approved = await request
+      .post(`${path}/approve`)
+      .set('Authorization', bearer(admin))
+      .send({ version: submitted.body.publication.version });
+    return approved.body.publication;
+  };
+
+  const rename = (version: number, title: string) =>
+    request
+      .patch(`/api/v1/authoring/courses/${course.id}`)
+      .set('Authorization', bearer(creator))
+      .send({ version, title });
+
+  beforeEach(async () => {
+    tokenService = new JwtTokenService(SECRET);
+    bed = new AuthoringTestBed();
+    creator = await bed.createUser('creator', 'content_creator');
+    admin = await bed.createUser('admin', 'admin');
+    student = await bed.createUser('student', 'student');
+    ({ course, lesson } = await bed.createTree(creator, 'Inglés'));
+
+    // Casos de uso y guards reales del contenedor sobre repositorios en memoria
+    const container = createContainer()
+      .registerValue(TOKENS.TokenService, tokenService)
+      .registerValue(TOKENS.UserRepository, bed.userRepository)
+      .registerValue(TOKENS.CourseRepository, bed.repositories.courseRepository)
+      .registerValue(
+        TOKENS.ExerciseRepository,
+        bed.repositories.exerciseRepository
+      )
+      .registerValue(
+        TOKENS.PublicationRepository,
+        bed.repositories.publicationRepository
+      )
+      .registerValue(TOKENS.UnitOfWork, bed.unitOfWork);
+    request = supertest(createApp(container));
+  });
+
+  it('debería rechazar peticiones sin token con 401', async () => {
+    const response = await request.get('/api/v1/catalog/courses');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('no debería mostrar los cursos que no se han publicado', async () => {
+    const list = await request
+      .get('/api/v1/catalog/courses')
+      .set('Authorization', bearer(student));
+    const detail = await request
+      .get(`/api/v1/catalog/courses/${course.id}`)
+      .set('Authorization', bearer(student));
+
+    expect(list.body.courses).toEqual([]);
+    expect(detail.status).toBe(404);
+    expect(detail.body.code).toBe('CONTENT_NOT_FOUND');
+  });
+
+  it('debería servir la versión publicada mientras se edita la siguiente', async () => {
+    await publish('courses', course.id);
+    await rename(1, 'Inglés (borrador)');
+
+    const response = await request
+      .get(`/api/v1/catalog/courses/${course.id}`)
+      .set('Authorization', bearer(student));
+
+    expect(response.status).toBe(200);
+    expect(response.body.course).toEqual(
+      expect.objectContaining({ id: course.id, title: 'Inglés' })
+    );
+    expect(
+      response.body.course.levels[0].sections[0].modules[0].lessons
+    ).toEqual([{ id: lesson.id, title: 'Hola' }]);
+  });
+
+  it('debería servir la instantánea a la que se vuelve atrás', async () => {
+    await publish('courses', course.id);
+    await rename(1, 'Inglés 2');
+    const second = await publish('courses', course.id);
+
+    const rolledBack = await request
+      .post(`/api/v1/authoring/courses/${course.id}/publication/rollback`)
+      .set('Authorization', bearer(creator))
+      .send({ version: second.version, snapshotNumber: 1 });
+    const response = await request
+      .get('/api/v1/catalog/courses')
+      .set('Authorization', bearer(student));
+
+    expect(rolledBack.status).toBe(200);
+    expect(response.body.courses).toEqual([
+      expect.objectContaining({ id: course.id, title: 'Inglés' }),
+    ]);
+  });
+
+  it('debería servir una lección solo si su curso publicado la incluye', async () => {
+    await publish('lessons', lesson.id);
+
+    const hidden = await request
+      .get(`/api/v1/catalog/lessons/${lesson.id}`)
+      .set('Authorization', bearer(student));
+    await publish('courses', course.id);
+    const visible = await request
+      .get(`/api/v1/catalog/lessons/${lesson.id}`)
+      .set('Authorization', bearer(student));
+
+    expect(hidden.status).toBe(404);
+    expect(visible.status).toBe(200);
+    expect(visible.body.lesson).toEqual(
+      expect.objectContaining({
+        id: lesson.id,
+        courseId: course.id,
+        title: 'Hola',
+        exercises: [],
+      })
+    );
+  });
+
+  it('no debería enviar a los alumnos la solución de los ejercicios', async () => {
+    const payloads = [
+      {
+        type: 'multiple_choice',
+        prompt: '¿Cómo se dice "gato"?',
+        options: ['cat', 'dog'],
+        correctOptionIndexes: [0],
+      },
+      { type: 'translate', sourceText: 'hola', acceptedTranslations: ['hi'] },
+      {
+        type: 'fill_blank',
+        text: 'I ___ here',
+        blanks: [{ acceptedAnswers: ['am'] }],
+      },
+      {
+        type: 'match_pairs',
+        pairs: [
+          { left: 'gato', right: 'cat' },
+          { left: 'perro', right: 'dog' },
+        ],
+      },
+      { type: 'word_order', words: ['I', 'am', 'here'] },
+      {
+        type: 'listening',
+        audioUrl: 'https://cdn.wayrapp.test/a.mp3',
+        question: '¿Qué oyes?',
+        options: ['cat', 'dog'],
+        correctOptionIndexes: [1],
+      },
+      {
+        type: 'dictation',
+        audioUrl: 'https://cdn.wayrapp.test/b.mp3',
+        acceptedAnswers: ['good morning'],
+      },
+    ];
+    let version = lesson.version;
+    for (const payload of payloads) {
+      const created = await request
+        .post('/api/v1/authoring/exercises')
+        .set('Authorization', bearer(creator))
+        .send({ payload });
+      const attached = await request
+        .post(`/api/v1/authoring/lessons/${lesson.id}/exercises`)
+        .set('Authorization', bearer(creator))
+        .send({ version, exerciseId: created.body.exercise.id });
+      version = attached.body.lesson.version;
+    }
+    await publish('lessons', lesson.id);
+    await publish('courses', course.id);
+
+    const response = await request
+      .get(`/api/v1/catalog/lessons/${lesson.id}`)
+      .set('Authorization', bearer(student));
+
+    expect(response.status).toBe(200);
+    expect(response.body.lesson.exercises).toHaveLength(payloads.length);
+    const body = JSON.stringify(response.body);
+    for (const field of [
+      'correctOptionIndexes',
+      'acceptedTranslations',
+      'acceptedAnswers',
+      'blanks',
+      'pairs',
+    ]) {
+      expect(body).not.toContain(`"${field}"`);
+    }
+    const wordOrder = response.body.lesson.exercises.find(
+      (exercise: { type: string }) => exercise.type === 'word_order'
+    );
+    expect(wordOrder.payload.words).not.toEqual(['I', 'am', 'here']);
+    expect([...wordOrder.payload.words].sort()).toEqual(['I', 'am', 'here']);
+  });
+
+  it('no debería dejar borrar una lección que ven los alumnos', async () => {
+    await publish('lessons', lesson.id);
+    await publish('courses', course.id);
+
+    const deleted = await request
+      .delete(`/api/v1/authoring/lessons/${lesson.id}?version=1`)
+      .set('Authorization', bearer(creator));
+    const response = await request
+      .get(`/api/v1/catalog/lessons/${lesson.id}`)
+      .set('Authorization', bearer(student));
+
+    expect(deleted.status).toBe(409);
+    expect(deleted.body.code).toBe('PUBLICATION_CONTENT_LIVE');
+    expect(response.status).toBe(200);
+  });
+
+  it('debería dejar de servir un curso archivado', async () => {
+    const published = await publish('courses', course.id);
+
+    await request
+      .post(`/api/v1/authoring/courses/${course.id}/publication/archive`)
+      .set('Authorization', bearer(creator))
+      .send({ version: published.version });
+    const response = await request
+      .get(`/api/v1/catalog/courses/${course.id}`)
+      .set('Authorization', bearer(student));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('debería impedir a los creadores aprobar sus propias revisiones', async () => {
+    await request
+      .post(`/api/v1/authoring/courses/${course.id}/publication/submit`)
+      .set('Authorization', bearer(creator))
+      .send({ version: 0 });
+
+    const response = await request
+      .post(`/api/v1/authoring/courses/${course.id}/publication/approve`)
+      .set('Authorization', bearer(creator))
+      .send({ version: 1 });
+    const reviews = await request
+      .get('/api/v1/authoring/reviews')
+      .set('Authorization', bearer(admin));
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('PUBLICATION_REVIEW_FORBIDDEN');
+    expect(reviews.body.publications).toEqual([
+      expect.objectContaining({
+        kind: 'course',
+        contentId: course.id,
+        status: 'in_review',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+// src/modules/catalog/controllers/CatalogController.ts
+
+import { Request, Response } from 'express';
+import { ListPublishedCoursesUseCase } from '@/core/use-cases/catalog/ListPublishedCoursesUseCase';
+import { GetPublishedCourseUseCase } from '@/core/use-cases/catalog/GetPublishedCourseUseCase';
+import { GetPublishedLessonUseCase } from '@/core/use-cases/catalog/GetPublishedLessonUseCase';
+import { parseRequest } from '@/infrastructure/web/validators/parseRequest';
+import {
+  CatalogCourseParamsSchema,
+  CatalogLessonParamsSchema,
+} from '@/modules/catalog/validators/catalog.validators';
+import {
+  toCatalogCourseDetailDto,
+  toCatalogCourseDto,
+  toCatalogLessonDto,
+} from '@/modules/catalog/dto/CatalogDto';
+
+/**
+ * Casos de uso que expone el controlador del catálogo
+ */
+export interface CatalogUseCases {
+  listCourses: ListPublishedCoursesUseCase;
+  getCourse: GetPublishedCourseUseCase;
+  getLesson: GetPublishedLessonUseCase;
+}
+
+/**
+ * Controlador HTTP del catálogo que leen los alumnos.
+ *
+ * Solo sirve instantáneas publicadas: lo que no está publicado (o está
+ * archivado) responde 404, igual que lo que no existe.
+ */
+export class CatalogController {
+  constructor(private readonly useCases: CatalogUseCases) {}
+
+  /**
+   * GET /api/v1/catalog/courses
+   */
+  async listCourses(_req: Request, res: Response): Promise<void> {
+    const snapshots = await this.useCases.listCourses.execute();
+
+    res.json({ courses: snapshots.map(toCatalogCourseDto) });
+  }
+
+  /**
+   * GET /api/v1/catalog/courses/:id
+   */
+  async getCourse(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(CatalogCourseParamsSchema, req.params);
+
+    const snapshot = await this.useCases.getCourse.execute(id);
+
+    res.json({ course: toCatalogCourseDetailDto(snapshot) });
+  }
+
+  /**
+   * GET /api/v1/catalog/lessons/:id
+   */
+  async getLesson(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(CatalogLessonParamsSchema, req.params);
+
+    const lesson = await this.useCases.getLesson.execute(id);
+
+    res.json({ lesson: toCatalogLessonDto(lesson) });
+  }
+}
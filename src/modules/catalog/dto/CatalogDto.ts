@@ -0,0 +1,78 @@
+// src/modules/catalog/dto/CatalogDto.ts
+
+import {
+  PublishedCourseDocument,
+  PublishedLevel,
+  PublishedSnapshot,
+} from '@/core/domain/entities/PublishedSnapshot';
+import { PublishedLesson } from '@/core/use-cases/catalog/GetPublishedLessonUseCase';
+import {
+  LearnerExercise,
+  toLearnerExercise,
+} from '@/core/domain/services/LearnerExercise';
+
+/**
+ * Representación del contenido publicado para los alumnos. Sale siempre de
+ * una instantánea aprobada, nunca de la copia que se está editando. Los
+ * ejercicios van sin su solución (LearnerExercise).
+ */
+export interface CatalogCourseDto {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  sourceLanguage: string;
+  targetLanguage: string;
+  publishedAt: string;
+}
+
+export interface CatalogCourseDetailDto extends CatalogCourseDto {
+  levels: PublishedLevel[];
+}
+
+export interface CatalogLessonDto {
+  id: string;
+  courseId: string;
+  title: string;
+  publishedAt: string;
+  exercises: { id: string; type: string; payload: LearnerExercise }[];
+}
+
+export function toCatalogCourseDto(
+  snapshot: PublishedSnapshot
+): CatalogCourseDto {
+  // Las instantáneas que llegan aquí son de cursos
+  const course = snapshot.document as PublishedCourseDocument;
+  return {
+    id: course.id,
+    slug: course.slug,
+    title: course.title,
+    description: course.description,
+    sourceLanguage: course.sourceLanguage,
+    targetLanguage: course.targetLanguage,
+    publishedAt: snapshot.publishedAt.toISOString(),
+  };
+}
+
+export function toCatalogCourseDetailDto(
+  snapshot: PublishedSnapshot
+): CatalogCourseDetailDto {
+  return {
+    ...toCatalogCourseDto(snapshot),
+    levels: (snapshot.document as PublishedCourseDocument).levels,
+  };
+}
+
+export function toCatalogLessonDto(lesson: PublishedLesson): CatalogLessonDto {
+  return {
+    id: lesson.snapshot.document.id,
+    courseId: lesson.courseId,
+    title: lesson.snapshot.document.title,
+    publishedAt: lesson.snapshot.publishedAt.toISOString(),
+    exercises: lesson.exercises.map((exercise) => ({
+      id: exercise.id,
+      type: exercise.payload.type,
+      payload: toLearnerExercise(exercise.payload),
+    })),
+  };
+}
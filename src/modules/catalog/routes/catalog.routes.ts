@@ -0,0 +1,31 @@
+// src/modules/catalog/routes/catalog.routes.ts
+
+import { RequestHandler, Response, Router } from 'express';
+import { CatalogController } from '@/modules/catalog/controllers/CatalogController';
+
+/**
+ * Crea el router del catálogo de los alumnos.
+ * Se monta en /api/v1/catalog; `guards` (autenticación) se aplican a todas
+ * sus rutas. El controlador se obtiene en cada petición con
+ * `resolveController` (del contenedor).
+ */
+export function createCatalogRouter(
+  resolveController: (res: Response) => CatalogController,
+  guards: RequestHandler[]
+): Router {
+  const router = Router();
+
+  router.use(...guards);
+
+  router.get('/courses', (req, res) =>
+    resolveController(res).listCourses(req, res)
+  );
+  router.get('/courses/:id', (req, res) =>
+    resolveController(res).getCourse(req, res)
+  );
+  router.get('/lessons/:id', (req, res) =>
+    resolveController(res).getLesson(req, res)
+  );
+
+  return router;
+}
@@ -0,0 +1,15 @@
+// src/modules/catalog/validators/catalog.validators.ts
+
+import { z } from 'zod';
+
+/**
+ * Esquemas Zod para las peticiones del catálogo de los alumnos
+ */
+
+export const CatalogCourseParamsSchema = z.object({
+  id: z.uuid({ message: 'El ID de curso debe ser un UUID válido' }),
+});
+
+export const CatalogLessonParamsSchema = z.object({
+  id: z.uuid({ message: 'El ID de lección debe ser un UUID válido' }),
+});
@@ -0,0 +1,110 @@
+// src/modules/health/__tests__/HealthController.test.ts
+
+import supertest from 'supertest';
+import { createApp } from '@/infrastructure/web/app';
+import { createContainer, TOKENS } from '@/infrastructure/config/container';
+import { IHealthCheck } from '@/core/interfaces/services/IHealthCheck';
+import { CheckReadinessUseCase } from '@/core/use-cases/health/CheckReadinessUseCase';
+import { HealthCheckError } from '@/core/use-cases/health/HealthChecks';
+
+describe('HealthController', () => {
+  let database: jest.Mocked<IHealthCheck>;
+  let migrations: jest.Mocked<IHealthCheck>;
+  let checkReadiness: CheckReadinessUseCase;
+  let request: ReturnType<typeof supertest>;
+
+  beforeEach(() => {
+    database = {
+      name: 'database',
+      check: jest.fn().mockResolvedValue(undefined),
+    };
+    migrations = {
+      name: 'migrations',
+      check: jest.fn().mockResolvedValue({ managed: true, pending: 0 }),
+    };
+
+    // Se reemplazan las comprobaciones: el resto del contenedor es el de
+    // producción
+    const container = createContainer().registerValue(TOKENS.HealthChecks, [
+      database,
+      migrations,
+    ]);
+    checkReadiness = container.resolve(TOKENS.CheckReadinessUseCase);
+    request = supertest(createApp(container));
+  });
+
+  describe('GET /health/live', () => {
+    it('debería responder 200 sin ejecutar las comprobaciones', async () => {
+      const response = await request.get('/health/live');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        status: 'ok',
+        timestamp: expect.any(String),
+      });
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(database.check).not.toHaveBeenCalled();
+    });
+
+    it('debería seguir vivo durante el apagado', async () => {
+      checkReadiness.markShuttingDown();
+
+      const response = await request.get('/health/live');
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('GET /health/ready', () => {
+    it('debería responder 200 con el resultado de cada comprobación', async () => {
+      const response = await request.get('/health/ready');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(response.body).toEqual({
+        status: 'ready',
+        shuttingDown: false,
+        checks: {
+          database: { status: 'up', latencyMs: expect.any(Number) },
+          migrations: {
+            status: 'up',
+            latencyMs: expect.any(Number),
+            details: { managed: true, pending: 0 },
+          },
+        },
+        timestamp: expect.any(String),
+      });
+    });
+
+    it('debería responder 503 si alguna comprobación falla', async () => {
+      migrations.check.mockRejectedValueOnce(
+        new HealthCheckError('Migraciones pendientes: 20251009000001_x')
+      );
+
+      const response = await request.get('/health/ready');
+
+      expect(response.status).toBe(503);
+      expect(response.body.status).toBe('not_ready');
+      expect(response.body.checks.database.status).toBe('up');
+      expect(response.body.checks.migrations).toEqual({
+        status: 'down',
+        latencyMs: expect.any(Number),
+        error: 'Migraciones pendientes: 20251009000001_x',
+      });
+    });
+
+    it('debería responder 503 durante el apagado', async () => {
+      checkReadiness.markShuttingDown();
+
+      const response = await request.get('/health/ready');
+
+      expect(response.status).toBe(503);
+      expect(response.body).toMatchObject({
+        status: 'not_ready',
+        shuttingDown: true,
+        checks: {},
+      });
+      expect(database.check).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+// src/modules/health/controllers/HealthController.ts
+
+import { Request, Response } from 'express';
+import { CheckReadinessUseCase } from '@/core/use-cases/health/CheckReadinessUseCase';
+
+/**
+ * Controlador HTTP de las sondas de salud (liveness y readiness).
+ *
+ * Las respuestas no se cachean: cada sonda tiene que ver el estado actual.
+ */
+export class HealthController {
+  constructor(private readonly checkReadiness: CheckReadinessUseCase) {}
+
+  /**
+   * GET /health/live
+   *
+   * El proceso está vivo y atiende peticiones. No comprueba dependencias: un
+   * fallo de la base de datos no se arregla reiniciando el proceso
+   */
+  live(_req: Request, res: Response): void {
+    res.set('Cache-Control', 'no-store').json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * GET /health/ready
+   *
+   * 200 si el servicio puede recibir tráfico; 503 si alguna comprobación
+   * falla o el servicio se está apagando
+   */
+  async ready(_req: Request, res: Response): Promise<void> {
+    const report = await this.checkReadiness.execute();
+
+    res
+      .status(report.ready ? 200 : 503)
+      .set('Cache-Control', 'no-store')
+      .json({
+        status: report.ready ? 'ready' : 'not_ready',
+        shuttingDown: report.shuttingDown,
+        checks: report.checks,
+        timestamp: new Date().toISOString(),
+      });
+  }
+}
@@ -0,0 +1,20 @@
+// src/modules/health/routes/health.routes.ts
+
+import { Response, Router } from 'express';
+import { HealthController } from '@/modules/health/controllers/HealthController';
+
+/**
+ * Crea el router de las sondas de salud.
+ * Se monta en /health desde la aplicación Express, fuera del prefijo de la
+ * API: lo consultan el orquestador y el balanceador, no los clientes.
+ */
+export function createHealthRouter(
+  resolveController: (res: Response) => HealthController
+): Router {
+  const router = Router();
+
+  router.get('/live', (req, res) => resolveController(res).live(req, res));
+  router.get('/ready', (req, res) => resolveController(res).ready(req, res));
+
+  return router;
+}
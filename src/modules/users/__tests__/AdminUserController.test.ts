@@ -0,0 +1,539 @@
+// src/modules/users/__tests__/AdminUserController.test.ts
+
+import supertest from 'supertest';
+import { createApp } from '@/infrastructure/web/app';
+import { createContainer, TOKENS } from '@/infrastructure/config/container';
+import { JwtTokenService } from '@/infrastructure/services/JwtTokenService';
+import { GetUserStatusHistoryUseCase } from '@/core/use-cases/users/GetUserStatusHistoryUseCase';
+import { DEFAULT_USER_LIST_LIMIT } from '@/core/use-cases/users/ListUsersUseCase';
+import {
+  IUserRepository,
+  UserPageRequest,
+  UserSearchCriteria,
+} from '@/core/interfaces/repositories/IUserRepository';
+import { IRefreshTokenRepository } from '@/core/interfaces/repositories/IRefreshTokenRepository';
+import { UnitOfWorkRepositories } from '@/core/interfaces/repositories/IUnitOfWork';
+import { DatabaseConnectionError } from '@/core/interfaces/repositories/UserRepositoryErrors';
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+import { User } from '@/core/domain/entities/User';
+import { Email } from '@/core/domain/value-objects/Email';
+import { Username } from '@/core/domain/value-objects/Username';
+import { Role } from '@/core/domain/value-objects/Role';
+import { HashedPassword } from '@/core/domain/value-objects/Password';
+import { CountryCode } from '@/core/domain/value-objects/CountryCode';
+
+const HASH = '$2b$12$L9.o/C.s5/b4j2e5.d8B9eO3U.G9eY2n9Z6k3W2b7j2k3X8.l2A3O';
+const SECRET = 'test-secret-with-at-least-32-characters!';
+const TARGET_ID = '9b2f4c1e-7a3d-4e5f-8a6b-0c1d2e3f4a5b';
+const HISTORY_CURSOR_ID = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+describe('AdminUserController', () => {
+  let tokenService: JwtTokenService;
+  let userRepository: jest.Mocked<IUserRepository>;
+  let refreshTokenRepository: jest.Mocked<IRefreshTokenRepository>;
+  let users: Map<string, User>;
+  let getStatusHistory: jest.Mocked<
+    Pick<GetUserStatusHistoryUseCase, 'execute'>
+  >;
+  let admin: User;
+  let request: ReturnType<typeof supertest>;
+
+  function makeUser(name: string, role: string): User {
+    return User.createActiveUser(
+      new Email(`${name}@example.com`),
+      new Username(name),
+      new HashedPassword(HASH),
+      new Role(role)
+    );
+  }
+
+  function bearer(user: User): string {
+    const { token } = tokenService.signAccessToken({
+      sub: user.id,
+      role: user.getRoleValue(),
+    });
+    return `Bearer ${token}`;
+  }
+
+  function store(user: User): User {
+    users.set(user.id, user);
+    return user;
+  }
+
+  beforeEach(() => {
+    tokenService = new JwtTokenService(SECRET);
+    users = new Map();
+    admin = store(makeUser('admin_user', 'admin'));
+    userRepository = {
+      findById: jest.fn(async (id: string) => users.get(id) ?? null),
+      lockActiveAdmins: jest.fn().mockResolvedValue(undefined),
+      search: jest.fn(
+        async (criteria: UserSearchCriteria, page: UserPageRequest) => {
+          const matches = [...users.values()].filter(
+            (user) =>
+              (!criteria.role || user.getRoleValue() === criteria.role) &&
+              (!criteria.status || user.getStatusValue() === criteria.status) &&
+              (!criteria.countryCode ||
+                user.getCountryCodeValue() === criteria.countryCode)
+          );
+          return {
+            users: matches.slice(0, page.limit),
+            total: matches.length,
+            nextCursor: null,
+          };
+        }
+      ),
+      update: jest.fn(async (id: string, data: Partial<User>) => {
+        const current = users.get(id);
+        if (!current) return null;
+        const updated = User.fromPersistence(
+          current.id,
+          current.email,
+          current.username,
+          current.passwordHash,
+          data.role ?? current.role,
+          data.status ?? current.status,
+          current.countryCode,
+          current.lastLogin,
+          current.createdAt,
+          current.updatedAt
+        );
+        return store(updated);
+      }),
+      delete: jest.fn(async (id: string) => {
+        users.delete(id);
+      }),
+    } as unknown as jest.Mocked<IUserRepository>;
+    refreshTokenRepository = {
+      create: jest.fn(),
+      findByHash: jest.fn(),
+      rotate: jest.fn(),
+      revokeFamily: jest.fn(),
+      revokeAllForUser: jest.fn().mockResolvedValue(undefined),
+    };
+    getStatusHistory = { execute: jest.fn().mockResolvedValue([]) };
+
+    // Casos de uso y guards reales del contenedor sobre repositorios dobles
+    const container = createContainer()
+      .registerValue(TOKENS.TokenService, tokenService)
+      .registerValue(TOKENS.UserRepository, userRepository)
+      .registerValue(TOKENS.RefreshTokenRepository, refreshTokenRepository)
+      .registerValue(TOKENS.UnitOfWork, {
+        run: (work) =>
+          work({
+            userRepository,
+            refreshTokenRepository,
+          } as unknown as UnitOfWorkRepositories),
+      })
+      .registerValue(
+        TOKENS.GetUserStatusHistoryUseCase,
+        getStatusHistory as unknown as GetUserStatusHistoryUseCase
+      );
+    const app = createApp(container);
+    request = supertest(app);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/v1/admin/users/:id/status-history', () => {
+    const url = `/api/v1/admin/users/${TARGET_ID}/status-history`;
+
+    it('debería devolver el historial a un administrador', async () => {
+      const change = UserStatusChange.record({
+        userId: TARGET_ID,
+        kind: 'status',
+        fromValue: 'active',
+        toValue: 'suspended',
+        reason: 'Spam',
+        changedBy: admin.id,
+        suspendedUntil: new Date('2025-10-13T10:00:00Z'),
+        at: new Date('2025-10-06T10:00:00Z'),
+      });
+      getStatusHistory.execute.mockResolvedValueOnce([change]);
+
+      const response = await request
+        .get(url)
+        .query({
+          limit: '20',
+          before: '2025-10-07T00:00:00Z',
+          beforeId: HISTORY_CURSOR_ID,
+        })
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(200);
+      expect(response.body.changes).toEqual([
+        {
+          id: change.id,
+          userId: TARGET_ID,
+          kind: 'status',
+          from: 'active',
+          to: 'suspended',
+          reason: 'Spam',
+          changedBy: admin.id,
+          suspendedUntil: '2025-10-13T10:00:00.000Z',
+          createdAt: '2025-10-06T10:00:00.000Z',
+        },
+      ]);
+      expect(getStatusHistory.execute).toHaveBeenCalledWith({
+        userId: TARGET_ID,
+        limit: 20,
+        before: {
+          createdAt: new Date('2025-10-07T00:00:00Z'),
+          id: HISTORY_CURSOR_ID,
+        },
+      });
+    });
+
+    it('debería responder 401 sin access token', async () => {
+      const response = await request.get(url);
+
+      expect(response.status).toBe(401);
+      expect(response.body.code).toBe('INVALID_ACCESS_TOKEN');
+      expect(getStatusHistory.execute).not.toHaveBeenCalled();
+    });
+
+    it('debería responder 401 con un access token inválido', async () => {
+      const response = await request
+        .get(url)
+        .set('Authorization', 'Bearer not.a.jwt');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('debería responder 403 a usuarios sin privilegios de administrador', async () => {
+      const student = makeUser('student_user', 'student');
+      userRepository.findById.mockResolvedValueOnce(student);
+
+      const response = await request
+        .get(url)
+        .set('Authorization', bearer(student));
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('FORBIDDEN');
+      expect(getStatusHistory.execute).not.toHaveBeenCalled();
+    });
+
+    it('debería comprobar el rol actual y no el del token', async () => {
+      const token = bearer(admin);
+      userRepository.findById.mockResolvedValueOnce(
+        User.fromPersistence(
+          admin.id,
+          admin.email,
+          admin.username,
+          admin.passwordHash,
+          new Role('student'),
+          admin.status,
+          null,
+          null,
+          admin.createdAt,
+          admin.updatedAt
+        )
+      );
+
+      const response = await request.get(url).set('Authorization', token);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('debería responder 403 a un administrador suspendido', async () => {
+      userRepository.findById.mockResolvedValueOnce(
+        admin.suspend(new Date(Date.now() + 60_000), 'Revisión', null)
+      );
+
+      const response = await request
+        .get(url)
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('ACCOUNT_NOT_ACTIVE');
+    });
+
+    it('debería responder 422 con un ID o una consulta inválidos', async () => {
+      const badId = await request
+        .get('/api/v1/admin/users/not-a-uuid/status-history')
+        .set('Authorization', bearer(admin));
+      const badQuery = await request
+        .get(url)
+        .query({ limit: '0', before: 'ayer' })
+        .set('Authorization', bearer(admin));
+
+      expect(badId.status).toBe(422);
+      expect(badId.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'id' })
+      );
+      expect(badQuery.status).toBe(422);
+      expect(badQuery.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'limit' })
+      );
+      expect(badQuery.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'before' })
+      );
+    });
+
+    it('debería responder 422 si el cursor no lleva fecha e ID a la vez', async () => {
+      const response = await request
+        .get(url)
+        .query({ before: '2025-10-07T00:00:00Z' })
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(422);
+      expect(response.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'beforeId' })
+      );
+      expect(getStatusHistory.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/admin/users', () => {
+    it('debería listar usuarios filtrando por rol y país', async () => {
+      store(
+        User.createActiveUser(
+          new Email('peru@example.com'),
+          new Username('peru_student'),
+          new HashedPassword(HASH),
+          new Role('student'),
+          new CountryCode('PE')
+        )
+      );
+      store(makeUser('other_student', 'student'));
+
+      const response = await request
+        .get('/api/v1/admin/users')
+        .query({ role: 'student', country: 'pe' })
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(200);
+      expect(response.body.users).toHaveLength(1);
+      expect(response.body).toMatchObject({ total: 1, nextCursor: null });
+      expect(userRepository.search).toHaveBeenCalledWith(
+        { role: 'student', countryCode: 'PE' },
+        { limit: DEFAULT_USER_LIST_LIMIT, cursor: undefined }
+      );
+      expect(response.body.users[0]).toMatchObject({
+        username: 'peru_student',
+        countryCode: 'PE',
+        statusReason: null,
+        suspendedUntil: null,
+      });
+      expect(response.body.users[0]).not.toHaveProperty('passwordHash');
+    });
+
+    it('debería paginar con limit y cursor', async () => {
+      const response = await request
+        .get('/api/v1/admin/users')
+        .query({ role: 'admin', limit: '10', cursor: 'abc' })
+        .set('Authorization', bearer(admin));
+      const badLimit = await request
+        .get('/api/v1/admin/users')
+        .query({ role: 'admin', limit: '1000' })
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(200);
+      expect(userRepository.search).toHaveBeenCalledWith(
+        { role: 'admin', countryCode: undefined },
+        { limit: 10, cursor: 'abc' }
+      );
+      expect(badLimit.status).toBe(422);
+      expect(badLimit.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'limit' })
+      );
+    });
+
+    it('debería exigir al menos un filtro válido', async () => {
+      const noFilter = await request
+        .get('/api/v1/admin/users')
+        .set('Authorization', bearer(admin));
+      const badRole = await request
+        .get('/api/v1/admin/users')
+        .query({ role: 'superuser' })
+        .set('Authorization', bearer(admin));
+
+      expect(noFilter.status).toBe(422);
+      expect(noFilter.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'filter' })
+      );
+      expect(badRole.status).toBe(422);
+      expect(badRole.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'role' })
+      );
+    });
+
+    it('debería responder 503 si la base de datos no está disponible', async () => {
+      userRepository.search.mockRejectedValueOnce(
+        new DatabaseConnectionError()
+      );
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const response = await request
+        .get('/api/v1/admin/users')
+        .query({ role: 'student' })
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe('SERVICE_UNAVAILABLE');
+    });
+  });
+
+  describe('GET /api/v1/admin/users/:id', () => {
+    it('debería devolver el detalle del usuario', async () => {
+      const student = store(makeUser('student_user', 'student'));
+
+      const response = await request
+        .get(`/api/v1/admin/users/${student.id}`)
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.id).toBe(student.id);
+    });
+
+    it('debería responder 404 si el usuario no existe', async () => {
+      const response = await request
+        .get(`/api/v1/admin/users/${TARGET_ID}`)
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('PATCH /api/v1/admin/users/:id/role', () => {
+    it('debería cambiar el rol y registrar al administrador como autor', async () => {
+      const student = store(makeUser('student_user', 'student'));
+
+      const response = await request
+        .patch(`/api/v1/admin/users/${student.id}/role`)
+        .set('Authorization', bearer(admin))
+        .send({ role: 'content_creator', reason: 'Colaborador' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.role).toBe('content_creator');
+      expect(userRepository.update).toHaveBeenCalledWith(
+        student.id,
+        { role: expect.any(Role) },
+        { changedBy: admin.id, reason: 'Colaborador' }
+      );
+    });
+
+    it('debería impedir que un administrador se quite el rol a sí mismo', async () => {
+      store(makeUser('second_admin', 'admin'));
+
+      const response = await request
+        .patch(`/api/v1/admin/users/${admin.id}/role`)
+        .set('Authorization', bearer(admin))
+        .send({ role: 'student' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('SELF_MODERATION');
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('debería responder 404 para usuarios inexistentes', async () => {
+      const response = await request
+        .patch(`/api/v1/admin/users/${TARGET_ID}/role`)
+        .set('Authorization', bearer(admin))
+        .send({ role: 'student' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/v1/admin/users/:id/status', () => {
+    it('debería suspender a un usuario hasta la fecha indicada', async () => {
+      const student = store(makeUser('student_user', 'student'));
+      const until = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+      const response = await request
+        .patch(`/api/v1/admin/users/${student.id}/status`)
+        .set('Authorization', bearer(admin))
+        .send({ status: 'suspended', reason: 'Spam', suspendedUntil: until });
+
+      expect(response.status).toBe(200);
+      expect(response.body.user).toMatchObject({
+        status: 'suspended',
+        statusReason: 'Spam',
+        statusChangedBy: admin.id,
+        suspendedUntil: until,
+      });
+      expect(refreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(
+        student.id,
+        expect.any(Date)
+      );
+    });
+
+    it('debería impedir que un administrador se banee a sí mismo', async () => {
+      const response = await request
+        .patch(`/api/v1/admin/users/${admin.id}/status`)
+        .set('Authorization', bearer(admin))
+        .send({ status: 'banned', reason: 'Prueba' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('SELF_MODERATION');
+    });
+
+    it('debería responder 409 ante una transición no permitida', async () => {
+      const student = store(makeUser('student_user', 'student'));
+
+      const response = await request
+        .patch(`/api/v1/admin/users/${student.id}/status`)
+        .set('Authorization', bearer(admin))
+        .send({ status: 'active' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    it('debería responder 422 si falta el motivo o la fecha de fin', async () => {
+      const student = store(makeUser('student_user', 'student'));
+
+      const noReason = await request
+        .patch(`/api/v1/admin/users/${student.id}/status`)
+        .set('Authorization', bearer(admin))
+        .send({ status: 'banned' });
+      const noUntil = await request
+        .patch(`/api/v1/admin/users/${student.id}/status`)
+        .set('Authorization', bearer(admin))
+        .send({ status: 'suspended', reason: 'Spam' });
+
+      expect(noReason.status).toBe(422);
+      expect(noReason.body.code).toBe('INVALID_STATUS_CHANGE');
+      expect(noUntil.status).toBe(422);
+      expect(noUntil.body.invalidParams).toContainEqual(
+        expect.objectContaining({ name: 'suspendedUntil' })
+      );
+    });
+  });
+
+  describe('DELETE /api/v1/admin/users/:id', () => {
+    it('debería eliminar al usuario', async () => {
+      const student = store(makeUser('student_user', 'student'));
+
+      const response = await request
+        .delete(`/api/v1/admin/users/${student.id}`)
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(204);
+      expect(userRepository.delete).toHaveBeenCalledWith(student.id, {
+        changedBy: admin.id,
+      });
+    });
+
+    it('debería responder 404 si el usuario no existe', async () => {
+      const response = await request
+        .delete(`/api/v1/admin/users/${TARGET_ID}`)
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(404);
+      expect(userRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('debería impedir que un administrador se elimine a sí mismo', async () => {
+      const response = await request
+        .delete(`/api/v1/admin/users/${admin.id}`)
+        .set('Authorization', bearer(admin));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
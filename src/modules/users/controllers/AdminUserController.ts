@@ -0,0 +1,142 @@
+// src/modules/users/controllers/AdminUserController.ts
+
+import { Request, Response } from 'express';
+import { GetUserStatusHistoryUseCase } from '@/core/use-cases/users/GetUserStatusHistoryUseCase';
+import { ListUsersUseCase } from '@/core/use-cases/users/ListUsersUseCase';
+import { GetUserUseCase } from '@/core/use-cases/users/GetUserUseCase';
+import { ChangeUserRoleUseCase } from '@/core/use-cases/users/ChangeUserRoleUseCase';
+import { ChangeUserStatusUseCase } from '@/core/use-cases/users/ChangeUserStatusUseCase';
+import { DeleteUserUseCase } from '@/core/use-cases/users/DeleteUserUseCase';
+import { parseRequest } from '@/infrastructure/web/validators/parseRequest';
+import { getCurrentUser } from '@/infrastructure/web/middleware/requireAdmin';
+import {
+  ChangeRoleRequestSchema,
+  ChangeStatusRequestSchema,
+  ListUsersQuerySchema,
+  StatusHistoryQuerySchema,
+  UserIdParamsSchema,
+} from '@/modules/users/validators/adminUsers.validators';
+import { toAdminUserDto } from '@/modules/users/dto/UserDto';
+import { toUserStatusChangeDto } from '@/modules/users/dto/UserStatusChangeDto';
+
+/**
+ * Casos de uso que expone el controlador de administración de usuarios
+ */
+export interface AdminUserUseCases {
+  listUsers: ListUsersUseCase;
+  getUser: GetUserUseCase;
+  changeRole: ChangeUserRoleUseCase;
+  changeStatus: ChangeUserStatusUseCase;
+  deleteUser: DeleteUserUseCase;
+  getStatusHistory: GetUserStatusHistoryUseCase;
+}
+
+/**
+ * Controlador HTTP de la administración de usuarios.
+ *
+ * Sus rutas van protegidas por los middlewares de autenticación y de rol de
+ * administrador; el controlador no repite esas comprobaciones. El
+ * administrador autenticado se pasa a los casos de uso como autor del cambio.
+ */
+export class AdminUserController {
+  constructor(private readonly useCases: AdminUserUseCases) {}
+
+  /**
+   * GET /api/v1/admin/users?role=...&country=...&limit=...&cursor=...
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    const query = parseRequest(ListUsersQuerySchema, req.query);
+
+    const page = await this.useCases.listUsers.execute({
+      role: query.role,
+      countryCode: query.country,
+      limit: query.limit,
+      cursor: query.cursor,
+    });
+
+    res.json({
+      users: page.users.map(toAdminUserDto),
+      total: page.total,
+      nextCursor: page.nextCursor,
+    });
+  }
+
+  /**
+   * GET /api/v1/admin/users/:id
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(UserIdParamsSchema, req.params);
+
+    const user = await this.useCases.getUser.execute(id);
+
+    res.json({ user: toAdminUserDto(user) });
+  }
+
+  /**
+   * PATCH /api/v1/admin/users/:id/role
+   */
+  async changeRole(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(UserIdParamsSchema, req.params);
+    const body = parseRequest(ChangeRoleRequestSchema, req.body);
+
+    const user = await this.useCases.changeRole.execute({
+      actor: getCurrentUser(res),
+      userId: id,
+      role: body.role,
+      reason: body.reason,
+    });
+
+    res.json({ user: toAdminUserDto(user) });
+  }
+
+  /**
+   * PATCH /api/v1/admin/users/:id/status
+   */
+  async changeStatus(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(UserIdParamsSchema, req.params);
+    const body = parseRequest(ChangeStatusRequestSchema, req.body);
+
+    const user = await this.useCases.changeStatus.execute({
+      actor: getCurrentUser(res),
+      userId: id,
+      status: body.status,
+      reason: body.reason,
+      suspendedUntil: body.suspendedUntil,
+    });
+
+    res.json({ user: toAdminUserDto(user) });
+  }
+
+  /**
+   * DELETE /api/v1/admin/users/:id
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(UserIdParamsSchema, req.params);
+
+    await this.useCases.deleteUser.execute({
+      actor: getCurrentUser(res),
+      userId: id,
+    });
+
+    res.status(204).send();
+  }
+
+  /**
+   * GET /api/v1/admin/users/:id/status-history
+   */
+  async getStatusHistory(req: Request, res: Response): Promise<void> {
+    const { id } = parseRequest(UserIdParamsSchema, req.params);
+    const query = parseRequest(StatusHistoryQuerySchema, req.query);
+
+    const changes = await this.useCases.getStatusHistory.execute({
+      userId: id,
+      limit: query.limit,
+      before:
+        query.before && query.beforeId
+          ? { createdAt: query.before, id: query.beforeId }
+          : undefined,
+    });
+
+    res.json({ changes: changes.map(toUserStatusChangeDto) });
+  }
+}
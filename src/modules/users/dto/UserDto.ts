@@ -0,0 +1,60 @@
+// src/modules/users/dto/UserDto.ts
+
+import { User } from '@/core/domain/entities/User';
+
+/**
+ * Representación pública de un usuario para las respuestas HTTP.
+ * Nunca incluye el hash de la contraseña ni otros datos sensibles.
+ */
+export interface UserDto {
+  id: string;
+  email: string;
+  username: string;
+  role: string;
+  status: string;
+  countryCode: string | null;
+  lastLogin: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Convierte una entidad User en su DTO público
+ */
+export function toUserDto(user: User): UserDto {
+  return {
+    id: user.id,
+    email: user.getEmailValue(),
+    username: user.getUsernameValue(),
+    role: user.getRoleValue(),
+    status: user.getStatusValue(),
+    countryCode: user.getCountryCodeValue(),
+    lastLogin: user.getLastLoginFormatted(),
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Representación de un usuario para los endpoints de administración:
+ * añade los datos del último cambio de estado
+ */
+export interface AdminUserDto extends UserDto {
+  statusReason: string | null;
+  statusChangedBy: string | null;
+  statusChangedAt: string | null;
+  suspendedUntil: string | null;
+}
+
+/**
+ * Convierte una entidad User en su DTO de administración
+ */
+export function toAdminUserDto(user: User): AdminUserDto {
+  return {
+    ...toUserDto(user),
+    statusReason: user.status.reason,
+    statusChangedBy: user.status.changedBy,
+    statusChangedAt: user.status.changedAt?.toISOString() ?? null,
+    suspendedUntil: user.status.suspendedUntil?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,38 @@
+// src/modules/users/dto/UserStatusChangeDto.ts
+
+import { UserStatusChange } from '@/core/domain/entities/UserStatusChange';
+
+/**
+ * Representación de una entrada del historial de moderación para las
+ * respuestas HTTP. `changedBy` es null cuando el cambio lo hizo el sistema.
+ */
+export interface UserStatusChangeDto {
+  id: string;
+  userId: string;
+  kind: string;
+  from: string;
+  to: string;
+  reason: string | null;
+  changedBy: string | null;
+  suspendedUntil: string | null;
+  createdAt: string;
+}
+
+/**
+ * Convierte una entrada del historial en su DTO
+ */
+export function toUserStatusChangeDto(
+  change: UserStatusChange
+): UserStatusChangeDto {
+  return {
+    id: change.id,
+    userId: change.userId,
+    kind: change.kind,
+    from: change.fromValue,
+    to: change.toValue,
+    reason: change.reason,
+    changedBy: change.changedBy,
+    suspendedUntil: change.suspendedUntil?.toISOString() ?? null,
+    createdAt: change.createdAt.toISOString(),
+  };
+}
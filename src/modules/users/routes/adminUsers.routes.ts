@@ -0,0 +1,34 @@
+// src/modules/users/routes/adminUsers.routes.ts
+
+import { RequestHandler, Response, Router } from 'express';
+import { AdminUserController } from '@/modules/users/controllers/AdminUserController';
+
+/**
+ * Crea el router de administración de usuarios.
+ * Se monta en /api/v1/admin/users; `guards` (autenticación y rol de
+ * administrador) se aplican a todas sus rutas. El controlador se obtiene en
+ * cada petición con `resolveController` (del contenedor).
+ */
+export function createAdminUserRouter(
+  resolveController: (res: Response) => AdminUserController,
+  guards: RequestHandler[]
+): Router {
+  const router = Router();
+
+  router.use(...guards);
+
+  router.get('/', (req, res) => resolveController(res).list(req, res));
+  router.get('/:id', (req, res) => resolveController(res).getById(req, res));
+  router.patch('/:id/role', (req, res) =>
+    resolveController(res).changeRole(req, res)
+  );
+  router.patch('/:id/status', (req, res) =>
+    resolveController(res).changeStatus(req, res)
+  );
+  router.delete('/:id', (req, res) => resolveController(res).delete(req, res));
+  router.get('/:id/status-history', (req, res) =>
+    resolveController(res).getStatusHistory(req, res)
+  );
+
+  return router;
+}
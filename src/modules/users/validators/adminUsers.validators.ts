@@ -0,0 +1,85 @@
+// src/modules/users/validators/adminUsers.validators.ts
+
+import { z } from 'zod';
+import { MAX_HISTORY_LIMIT } from '@/core/use-cases/users/GetUserStatusHistoryUseCase';
+import { MAX_USER_SEARCH_LIMIT } from '@/core/interfaces/repositories/IUserRepository';
+
+/**
+ * Esquemas Zod para las peticiones de administración de usuarios.
+ */
+export const UserIdParamsSchema = z.object({
+  id: z.uuid({ message: 'El ID de usuario debe ser un UUID válido' }),
+});
+
+export type UserIdParams = z.infer<typeof UserIdParamsSchema>;
+
+export const StatusHistoryQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number({ message: 'El límite debe ser un número' })
+      .int('El límite debe ser un número entero')
+      .min(1, 'El límite debe ser al menos 1')
+      .max(MAX_HISTORY_LIMIT, `El límite no puede superar ${MAX_HISTORY_LIMIT}`)
+      .optional(),
+    // Cursor: fecha ISO e ID de la última entrada de la página anterior
+    before: z.iso
+      .datetime({ message: 'before debe ser una fecha ISO 8601' })
+      .transform((value) => new Date(value))
+      .optional(),
+    beforeId: z
+      .uuid({ message: 'beforeId debe ser un UUID válido' })
+      .optional(),
+  })
+  .refine(
+    (query) => (query.before === undefined) === (query.beforeId === undefined),
+    {
+      message: 'before y beforeId se envían juntos',
+      path: ['beforeId'],
+    }
+  );
+
+export type StatusHistoryQuery = z.infer<typeof StatusHistoryQuerySchema>;
+
+export const ListUsersQuerySchema = z.object({
+  role: z.string().optional(),
+  country: z.string().optional(),
+  limit: z.coerce
+    .number({ message: 'El límite debe ser un número' })
+    .int('El límite debe ser un número entero')
+    .min(1, 'El límite debe ser al menos 1')
+    .max(
+      MAX_USER_SEARCH_LIMIT,
+      `El límite no puede superar ${MAX_USER_SEARCH_LIMIT}`
+    )
+    .optional(),
+  // Cursor opaco: nextCursor de la página anterior
+  cursor: z.string().optional(),
+});
+
+export type ListUsersQuery = z.infer<typeof ListUsersQuerySchema>;
+
+export const ChangeRoleRequestSchema = z.object({
+  role: z.string({ message: 'El rol es obligatorio' }),
+  reason: z
+    .string({ message: 'El motivo debe ser un texto' })
+    .nullable()
+    .optional(),
+});
+
+export type ChangeRoleRequest = z.infer<typeof ChangeRoleRequestSchema>;
+
+export const ChangeStatusRequestSchema = z.object({
+  status: z.enum(['active', 'suspended', 'banned'], {
+    message: 'El estado debe ser active, suspended o banned',
+  }),
+  reason: z
+    .string({ message: 'El motivo debe ser un texto' })
+    .nullable()
+    .optional(),
+  suspendedUntil: z.iso
+    .datetime({ message: 'suspendedUntil debe ser una fecha ISO 8601' })
+    .transform((value) => new Date(value))
+    .optional(),
+});
+
+export type ChangeStatusRequest = z.infer<typeof ChangeStatusRequestSchema>;
@@ -3,11 +3,23 @@
 /**
  * Punto de entrada principal para iniciar el servidor de la aplicación WayrApp.
  *
- * Este módulo importa la instancia de la aplicación Express configurada desde './infrastructure/web/app'
- * y la pone en marcha, escuchando en el puerto especificado por las variables de entorno.
+ * Este módulo crea el contenedor de dependencias con los registros de producción
+ * ('./infrastructure/config/container'; los repositorios se crean con
+ * DatabaseFactory según DATABASE_TYPE y DATABASE_ORM), crea la aplicación Express con
+ * './infrastructure/web/app' y la pone en marcha, escuchando en el puerto
+ * especificado por las variables de entorno. También arranca los jobs
+ * periódicos (levantar suspensiones expiradas y entregar los eventos del
+ * outbox).
  *
- * Su única responsabilidad es iniciar el servidor. Toda la configuración de la aplicación,
- * como middleware y rutas, se gestiona en el módulo 'app'.
+ * Con SIGTERM o SIGINT el servidor se apaga de forma ordenada: primero deja de
+ * estar listo (/health/ready responde 503) y espera
+ * SHUTDOWN_GRACE_PERIOD_SECONDS para que el balanceador deje de enviarle
+ * tráfico; después detiene los jobs, termina las peticiones en curso y cierra
+ * la conexión con la base de datos. Si tarda más de SHUTDOWN_TIMEOUT_SECONDS,
+ * el proceso termina igualmente.
+ *
+ * Toda la configuración de la aplicación, como middleware y rutas, se gestiona
+ * en el módulo 'app'.
  * @module Server
  * @category Server
  * @author Exequiel Trujillo
@@ -15,11 +27,94 @@
  *
  */
 
+import { Server } from 'http';
 import { config } from '@/infrastructure/config/environment.js';
-import app from '@/infrastructure/web/app.js';
+import { createApp } from '@/infrastructure/web/app.js';
+import { createContainer, TOKENS } from '@/infrastructure/config/container.js';
 
 const port = config.PORT;
 
-app.listen(port, () => {
-  console.log(`🚀 Servidor escuchando en http://localhost:${port}`);
-});
+if (!config.JWT_SECRET) {
+  throw new Error('JWT_SECRET is not defined. Please check your .env file.');
+}
+
+const container = createContainer();
+const logger = container.resolve(TOKENS.Logger).child({ component: 'server' });
+const databaseFactory = container.resolve(TOKENS.DatabaseFactory);
+const app = createApp(container);
+
+// Las rutas resuelven sus dependencias en cada petición; se resuelven aquí
+// para que un registro mal configurado falle al arrancar
+container.resolve(TOKENS.AuthController);
+container.resolve(TOKENS.AdminUserController);
+container.resolve(TOKENS.AdminGuards);
+container.resolve(TOKENS.HealthController);
+const checkReadiness = container.resolve(TOKENS.CheckReadinessUseCase);
+const suspensionExpiryJob = container.resolve(TOKENS.SuspensionExpiryJob);
+const outboxDispatcherJob = container.resolve(TOKENS.OutboxDispatcherJob);
+
+let server: Server | null = null;
+let shuttingDown = false;
+
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  logger.info('Apagando el servidor', { signal });
+
+  // Si algo se queda colgado, el proceso termina igualmente
+  setTimeout(() => {
+    logger.error('El apagado superó el tiempo máximo; se fuerza la salida', {
+      timeoutSeconds: config.SHUTDOWN_TIMEOUT_SECONDS,
+    });
+    process.exit(1);
+  }, config.SHUTDOWN_TIMEOUT_SECONDS * 1000).unref();
+
+  checkReadiness.markShuttingDown();
+  await new Promise((resolve) =>
+    setTimeout(resolve, config.SHUTDOWN_GRACE_PERIOD_SECONDS * 1000)
+  );
+
+  suspensionExpiryJob.stop();
+  outboxDispatcherJob.stop();
+
+  try {
+    // Deja de aceptar conexiones y espera a que terminen las peticiones en curso
+    await new Promise<void>((resolve, reject) => {
+      if (!server) {
+        resolve();
+        return;
+      }
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+    await databaseFactory.disconnect();
+    logger.info('Servidor detenido');
+    process.exit(0);
+  } catch (error) {
+    logger.error('Fallo al apagar el servidor', { error });
+    process.exit(1);
+  }
+}
+
+process.once('SIGTERM', (signal) => void shutdown(signal));
+process.once('SIGINT', (signal) => void shutdown(signal));
+
+databaseFactory
+  .connect()
+  .then(() => {
+    server = app.listen(port, () => {
+      const { type, orm } = databaseFactory.databaseConfig;
+      logger.info('Servidor escuchando', {
+        url: `http://localhost:${port}`,
+        database: type,
+        orm,
+      });
+      suspensionExpiryJob.start();
+      outboxDispatcherJob.start();
+    });
+  })
+  .catch((error) => {
+    logger.error('No se pudo conectar con la base de datos', { error });
+    process.exit(1);
+  });
@@ -0,0 +1,148 @@
+// src/shared/di/Container.ts
+
+/**
+ * Identificador tipado de una dependencia. Se registra y se resuelve por
+ * token, nunca por clase concreta, así que el token de un puerto
+ * (IUserRepository, IPasswordService...) no obliga a ninguna implementación.
+ */
+export class Token<T> {
+  // Solo existe para que TypeScript distinga Token<A> de Token<B>
+  declare private readonly type?: T;
+
+  constructor(public readonly name: string) {}
+
+  toString(): string {
+    return `Token(${this.name})`;
+  }
+}
+
+/**
+ * Ciclo de vida de una dependencia:
+ * - singleton: una instancia para toda la aplicación.
+ * - request: una instancia por scope (uno por petición HTTP).
+ * - transient: una instancia nueva cada vez que se resuelve.
+ */
+export type Lifetime = 'singleton' | 'request' | 'transient';
+
+export type Factory<T> = (container: Container) => T;
+
+interface Registration<T> {
+  factory: Factory<T>;
+  lifetime: Lifetime;
+}
+
+/**
+ * Error de configuración del contenedor: token sin registrar, dependencia
+ * circular o dependencia de petición resuelta fuera de una petición.
+ */
+export class DependencyResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DependencyResolutionError';
+  }
+}
+
+/**
+ * Contenedor de inyección de dependencias mínimo.
+ *
+ * El contenedor raíz guarda los registros y las instancias singleton; cada
+ * scope creado con createScope() guarda sus propias instancias de petición.
+ * Una dependencia singleton solo puede depender de otras singleton, porque
+ * su fábrica recibe el contenedor raíz.
+ */
+export class Container {
+  private readonly registrations = new Map<
+    Token<unknown>,
+    Registration<unknown>
+  >();
+  private readonly instances = new Map<Token<unknown>, unknown>();
+  private readonly resolving: Token<unknown>[] = [];
+
+  private constructor(private readonly root: Container | null) {}
+
+  static create(): Container {
+    return new Container(null);
+  }
+
+  /**
+   * Registra (o reemplaza) la fábrica de un token. Reemplazar un registro
+   * descarta la instancia que hubiera en caché, así que los tests pueden
+   * cambiar cualquier dependencia por un doble antes de resolver.
+   */
+  register<T>(
+    token: Token<T>,
+    factory: Factory<T>,
+    lifetime: Lifetime = 'singleton'
+  ): this {
+    const owner = this.root ?? this;
+    owner.registrations.set(token, { factory, lifetime });
+    owner.instances.delete(token);
+    return this;
+  }
+
+  /**
+   * Registra una instancia ya construida como singleton
+   */
+  registerValue<T>(token: Token<T>, value: T): this {
+    return this.register(token, () => value);
+  }
+
+  isRegistered(token: Token<unknown>): boolean {
+    return (this.root ?? this).registrations.has(token);
+  }
+
+  resolve<T>(token: Token<T>): T {
+    const owner = this.root ?? this;
+    const registration = owner.registrations.get(token) as
+      Registration<T> | undefined;
+    if (!registration) {
+      throw new DependencyResolutionError(
+        `No hay ninguna dependencia registrada para ${token.name}`
+      );
+    }
+
+    switch (registration.lifetime) {
+      case 'singleton':
+        return owner.getOrCreate(token, registration.factory);
+      case 'request':
+        if (!this.root) {
+          throw new DependencyResolutionError(
+            `${token.name} es una dependencia de petición y solo se puede resolver dentro de un scope`
+          );
+        }
+        return this.getOrCreate(token, registration.factory);
+      case 'transient':
+        return this.create(token, registration.factory);
+    }
+  }
+
+  /**
+   * Crea un scope hijo (uno por petición HTTP)
+   */
+  createScope(): Container {
+    return new Container(this.root ?? this);
+  }
+
+  private getOrCreate<T>(token: Token<T>, factory: Factory<T>): T {
+    if (this.instances.has(token)) {
+      return this.instances.get(token) as T;
+    }
+    const instance = this.create(token, factory);
+    this.instances.set(token, instance);
+    return instance;
+  }
+
+  private create<T>(token: Token<T>, factory: Factory<T>): T {
+    if (this.resolving.includes(token)) {
+      const cycle = [...this.resolving, token].map((t) => t.name).join(' → ');
+      throw new DependencyResolutionError(`Dependencia circular: ${cycle}`);
+    }
+
+    this.resolving.push(token);
+    try {
+      return factory(this);
+    } finally {
+      this.resolving.pop();
+    }
+  }
+}
@@ -0,0 +1,105 @@
+// src/shared/di/__tests__/Container.test.ts
+
+import {
+  Container,
+  DependencyResolutionError,
+  Token,
+} from '@/shared/di/Container';
+
+interface Clock {
+  now(): number;
+}
+
+const CLOCK = new Token<Clock>('Clock');
+const GREETER = new Token<{ greet(): string }>('Greeter');
+const REQUEST_ID = new Token<{ value: number }>('RequestId');
+
+describe('Container', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = Container.create();
+  });
+
+  describe('singleton', () => {
+    it('debería crear la instancia una sola vez, aunque se resuelva desde un scope', () => {
+      const factory = jest.fn(() => ({ now: () => 1 }));
+      container.register(CLOCK, factory);
+
+      const fromRoot = container.resolve(CLOCK);
+      const fromScope = container.createScope().resolve(CLOCK);
+
+      expect(fromScope).toBe(fromRoot);
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('debería inyectar las dependencias resolviéndolas del contenedor', () => {
+      container
+        .registerValue(CLOCK, { now: () => 42 })
+        .register(GREETER, (c) => ({
+          greet: () => `son las ${c.resolve(CLOCK).now()}`,
+        }));
+
+      expect(container.resolve(GREETER).greet()).toBe('son las 42');
+    });
+  });
+
+  describe('request', () => {
+    beforeEach(() => {
+      let counter = 0;
+      container.register(REQUEST_ID, () => ({ value: ++counter }), 'request');
+    });
+
+    it('debería compartir la instancia dentro de un scope y crear otra en cada scope', () => {
+      const scope = container.createScope();
+      const other = container.createScope();
+
+      expect(scope.resolve(REQUEST_ID)).toBe(scope.resolve(REQUEST_ID));
+      expect(other.resolve(REQUEST_ID)).not.toBe(scope.resolve(REQUEST_ID));
+    });
+
+    it('debería rechazar resolverla fuera de un scope', () => {
+      expect(() => container.resolve(REQUEST_ID)).toThrow(
+        DependencyResolutionError
+      );
+    });
+  });
+
+  it('debería crear una instancia nueva en cada resolución si es transient', () => {
+    container.register(CLOCK, () => ({ now: () => 1 }), 'transient');
+
+    expect(container.resolve(CLOCK)).not.toBe(container.resolve(CLOCK));
+  });
+
+  it('debería permitir reemplazar un registro por un doble aunque ya se haya resuelto', () => {
+    container.register(CLOCK, () => ({ now: () => 1 }));
+    container.resolve(CLOCK);
+
+    const fake: Clock = { now: () => 99 };
+    container.createScope().registerValue(CLOCK, fake);
+
+    expect(container.resolve(CLOCK)).toBe(fake);
+  });
+
+  it('debería fallar con el nombre del token si no está registrado', () => {
+    expect(() => container.resolve(CLOCK)).toThrow(
+      'No hay ninguna dependencia registrada para Clock'
+    );
+  });
+
+  it('debería detectar dependencias circulares', () => {
+    container
+      .register(CLOCK, (c) => {
+        c.resolve(GREETER);
+        return { now: () => 1 };
+      })
+      .register(GREETER, (c) => {
+        c.resolve(CLOCK);
+        return { greet: () => '' };
+      });
+
+    expect(() => container.resolve(CLOCK)).toThrow(
+      'Dependencia circular: Clock → Greeter → Clock'
+    );
+  });
+});
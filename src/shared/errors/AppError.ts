@@ -0,0 +1,114 @@
+// src/shared/errors/AppError.ts
+
+/**
+ * Códigos estables de error. Son parte del contrato de la API: los clientes
+ * pueden depender de ellos, así que no se renombran
+ */
+export type ErrorCode =
+  // Genéricos
+  | 'BAD_REQUEST'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'ROUTE_NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'FIELD_REQUIRED'
+  | 'FIELD_INVALID'
+  | 'SERVICE_UNAVAILABLE'
+  | 'INTERNAL_ERROR'
+  // Value objects
+  | 'EMAIL_INVALID'
+  | 'USERNAME_REQUIRED'
+  | 'USERNAME_TOO_SHORT'
+  | 'USERNAME_TOO_LONG'
+  | 'USERNAME_INVALID_CHARACTERS'
+  | 'PASSWORD_REQUIRED'
+  | 'PASSWORD_LENGTH_INVALID'
+  | 'PASSWORD_UNSAFE'
+  | 'PASSWORD_TOO_WEAK'
+  | 'ROLE_INVALID'
+  | 'COUNTRY_CODE_INVALID'
+  | 'USER_STATUS_INVALID'
+  | 'SLUG_INVALID'
+  | 'POSITION_INVALID'
+  | 'CONTENT_TITLE_REQUIRED'
+  | 'CONTENT_TITLE_TOO_LONG'
+  | 'CONTENT_DESCRIPTION_TOO_LONG'
+  | 'LANGUAGE_CODE_INVALID'
+  | 'LANGUAGE_PAIR_INVALID'
+  | 'REVIEW_COMMENT_REQUIRED'
+  | 'REVIEW_COMMENT_TOO_LONG'
+  // Usuarios
+  | 'USER_NOT_FOUND'
+  | 'USER_FILTER_REQUIRED'
+  | 'USER_EMAIL_TAKEN'
+  | 'USER_USERNAME_TAKEN'
+  | 'INVALID_SEARCH'
+  | 'INVALID_STATUS_TRANSITION'
+  | 'INVALID_STATUS_CHANGE'
+  | 'LAST_ADMIN'
+  | 'SELF_MODERATION'
+  | 'REPOSITORY_ERROR'
+  // Contenido
+  | 'COURSE_SLUG_TAKEN'
+  | 'COURSE_COLLABORATOR_INVALID'
+  | 'CONTENT_NOT_FOUND'
+  | 'CONTENT_ACCESS_DENIED'
+  | 'CONTENT_VERSION_CONFLICT'
+  | 'CONTENT_PARENT_NOT_FOUND'
+  | 'CONTENT_POSITION_TAKEN'
+  | 'CONTENT_REORDER_INVALID'
+  | 'EXERCISE_PAYLOAD_INVALID'
+  | 'EXERCISE_NOT_FOUND'
+  | 'EXERCISE_ALREADY_IN_LESSON'
+  | 'EXERCISE_ANSWER_TYPE_MISMATCH'
+  | 'PUBLICATION_TRANSITION_INVALID'
+  | 'PUBLICATION_SNAPSHOT_NOT_FOUND'
+  | 'PUBLICATION_REVIEW_FORBIDDEN'
+  | 'PUBLICATION_CONTENT_LIVE'
+  // Autenticación
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_NOT_ACTIVE'
+  | 'INVALID_ACCESS_TOKEN'
+  | 'INVALID_REFRESH_TOKEN'
+  | 'REFRESH_TOKEN_REUSED'
+  | 'INVALID_TOKEN'
+  | 'FORBIDDEN';
+
+/**
+ * Tipo de fallo. La capa HTTP lo traduce a un código de estado; el resto de
+ * capas no sabe nada de HTTP
+ */
+export type ErrorCategory =
+  | 'bad_request'
+  | 'validation'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'unavailable'
+  | 'internal';
+
+/**
+ * Datos estructurados del fallo (límites, requisitos que faltan...). Con el
+ * código bastan para redactar el mensaje en cualquier idioma
+ */
+export type ErrorParams = Record<string, string | number | string[]>;
+
+/**
+ * Base de todos los errores conocidos de la aplicación.
+ *
+ * El mensaje es para personas (en español, para logs y depuración); `code` y
+ * `params` son para máquinas y son estables: la capa HTTP los usa para
+ * redactar la respuesta en el idioma del cliente. Los errores de categoría
+ * `internal` y `unavailable` nunca exponen su mensaje fuera del proceso.
+ */
+export abstract class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ErrorCode,
+    public readonly category: ErrorCategory,
+    public readonly params: ErrorParams = {}
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
@@ -0,0 +1,14 @@
+// src/shared/errors/DomainValidationError.ts
+
+import { AppError, ErrorCode, ErrorParams } from './AppError';
+
+/**
+ * Un value object rechazó su valor (email mal formado, contraseña débil...).
+ * Los casos de uso lo convierten en un ValidationError con el campo afectado
+ */
+export class DomainValidationError extends AppError {
+  constructor(code: ErrorCode, message: string, params: ErrorParams = {}) {
+    super(message, code, 'validation', params);
+    this.name = 'DomainValidationError';
+  }
+}
@@ -0,0 +1,55 @@
+// src/shared/errors/ValidationError.ts
+
+import { AppError, ErrorCode, ErrorParams } from './AppError';
+
+/**
+ * Código y datos estructurados del fallo de un campo
+ */
+export interface FieldErrorDetail {
+  code: ErrorCode;
+  params: ErrorParams;
+}
+
+/**
+ * Error de validación de entrada con detalle por campo.
+ * Lo lanzan los casos de uso y los validadores HTTP cuando uno o más campos
+ * no cumplen las reglas de los value objects o del esquema de la petición.
+ * `fields` guarda el mensaje de cada campo y `fieldDetails` su código y
+ * params, para los campos que los tienen.
+ */
+export class ValidationError extends AppError {
+  constructor(
+    message: string,
+    public readonly fields: Record<string, string> = {},
+    public readonly fieldDetails: Record<string, FieldErrorDetail> = {}
+  ) {
+    super(message, 'VALIDATION_ERROR', 'validation');
+    this.name = 'ValidationError';
+  }
+
+  /**
+   * Construye el error a partir de lo que lanzó cada campo al validarse.
+   * Los errores de la aplicación aportan además su código y sus params
+   */
+  static fromFieldErrors(
+    message: string,
+    errors: Record<string, unknown>
+  ): ValidationError {
+    const fields: Record<string, string> = {};
+    const fieldDetails: Record<string, FieldErrorDetail> = {};
+    for (const [field, error] of Object.entries(errors)) {
+      fields[field] = error instanceof Error ? error.message : 'Valor inválido';
+      if (error instanceof AppError) {
+        fieldDetails[field] = { code: error.code, params: error.params };
+      }
+    }
+    return new ValidationError(message, fields, fieldDetails);
+  }
+
+  /**
+   * Indica si existe un error asociado a un campo concreto
+   */
+  hasFieldError(field: string): boolean {
+    return field in this.fields;
+  }
+}
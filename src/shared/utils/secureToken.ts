@@ -0,0 +1,26 @@
+// src/shared/utils/secureToken.ts
+
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Genera un token opaco criptográficamente seguro, apto para enviarse al
+ * cliente (refresh tokens, enlaces de confirmación, etc.).
+ *
+ * @param byteLength Cantidad de bytes aleatorios (por defecto 32 = 256 bits)
+ * @returns Token codificado en base64url
+ */
+export function generateSecureToken(byteLength: number = 32): string {
+  return randomBytes(byteLength).toString('base64url');
+}
+
+/**
+ * Calcula el hash SHA-256 de un token opaco.
+ * Los tokens se almacenan siempre hasheados: si la base de datos se filtra,
+ * los valores guardados no sirven para autenticarse.
+ *
+ * @param token Token en texto plano
+ * @returns Hash hexadecimal de 64 caracteres
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token, 'utf8').digest('hex');
+}